@@ -9,6 +9,9 @@ import UserManagement from './components/UserManagement';
 import EditSets from './components/EditSets';
 import Reports from './components/Reports';
 import BookingCalendar from './components/BookingCalendar';
+import DriverManifest from './components/DriverManifest';
+import BillingExport from './components/BillingExport';
+import PriceLists from './components/PriceLists';
 import CodeTableSetup from './components/CodeTableSetup';
 import WelcomePopup from './components/WelcomePopup';
 import PermissionMatrixPage from './components/PermissionMatrixPage';
@@ -33,6 +36,7 @@ import { RealtimeProvider } from './components/RealtimeProvider';
 import { getSystemConfig } from './utils/systemSettingsService';
 // SafeStorage removed - using Supabase database for all data storage
 import NotificationBell from './components/NotificationBell';
+import GlobalSearch from './components/GlobalSearch';
 import Settings from './components/Settings';
 import { initializeVersionManager, handleVersionUpdate, updateStoredAppVersion } from './utils/appVersionManager';
 import VersionUpdatePopup from './components/VersionUpdatePopup';
@@ -54,7 +58,7 @@ import './assets/components/MobileComponents.css';
 import './assets/components/MobileEntryPage.css';
 import './assets/components/MobileOverrides.css'; // Load last for maximum specificity
 
-type ActivePage = 'booking' | 'cases' | 'process' | 'users' | 'sets' | 'reports' | 'calendar' | 'permissions' | 'codetables' | 'audit-logs' | 'email-config' | 'data-import' | 'system-settings';
+type ActivePage = 'booking' | 'cases' | 'process' | 'users' | 'sets' | 'reports' | 'calendar' | 'permissions' | 'codetables' | 'audit-logs' | 'email-config' | 'data-import' | 'system-settings' | 'manifest' | 'billing' | 'price-lists';
 
 const AppContent: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -79,6 +83,7 @@ const AppContent: React.FC = () => {
   const [bookingPrefillData, setBookingPrefillData] = useState<{
     dateOfSurgery?: string;
     department?: string;
+    sourceCase?: CaseBooking;
   }>({});
   const adminPanelRef = useRef<HTMLDivElement>(null);
   const { playSound } = useSound();
@@ -630,6 +635,20 @@ const AppContent: React.FC = () => {
     playSound.click();
   };
 
+  const handleSearchResultSelect = (caseId: string) => {
+    // Cases list brings the case into view and highlights it, as for calendar clicks
+    setHighlightedCaseId(caseId);
+    setActivePage('cases');
+    playSound.click();
+  };
+
+  const handleDuplicateCase = (caseItem: CaseBooking) => {
+    // Booking form copies the case details but not its date, status or history
+    setBookingPrefillData({ sourceCase: caseItem });
+    setActivePage('booking');
+    playSound.click();
+  };
+
   const handleCalendarDateClick = async (date: Date, department: string) => {
     // Format date for input field (YYYY-MM-DD)
     const formattedDate = date.toISOString().split('T')[0];
@@ -657,8 +676,10 @@ const AppContent: React.FC = () => {
 
     // Check if user has any admin panel permissions
     const hasAccess = hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS) ||
+           hasPermission(user.role, PERMISSION_ACTIONS.DELIVERY_ORDER_TEMPLATE) ||
            hasPermission(user.role, PERMISSION_ACTIONS.VIEW_REPORTS) ||
            hasPermission(user.role, PERMISSION_ACTIONS.CODE_TABLE_SETUP) ||
+           hasPermission(user.role, PERMISSION_ACTIONS.PRICE_LISTS) ||
            hasPermission(user.role, PERMISSION_ACTIONS.PERMISSION_MATRIX) ||
            hasPermission(user.role, PERMISSION_ACTIONS.EMAIL_CONFIG) ||
            hasPermission(user.role, PERMISSION_ACTIONS.AUDIT_LOGS) ||
@@ -805,7 +826,7 @@ const AppContent: React.FC = () => {
                             📊 Reports
                           </button>
                         )}
-                        {(user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS)) && (
+                        {(user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS) || hasPermission(user.role, PERMISSION_ACTIONS.DELIVERY_ORDER_TEMPLATE)) && (
                           <button
                             onClick={() => {
                               setActivePage('system-settings');
@@ -829,6 +850,18 @@ const AppContent: React.FC = () => {
                             📊 Code Table Setup
                           </button>
                         )}
+                        {(user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.PRICE_LISTS)) && (
+                          <button
+                            onClick={() => {
+                              setActivePage('price-lists');
+                              playSound.click();
+                              setAdminPanelExpanded(false);
+                            }}
+                            className={`header-admin-item ${activePage === 'price-lists' ? 'active' : ''}`}
+                          >
+                            💲 Price Lists
+                          </button>
+                        )}
                         {(user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.PERMISSION_MATRIX)) && (
                           <button
                             onClick={() => {
@@ -902,6 +935,9 @@ const AppContent: React.FC = () => {
               <span className="user-display-name">{user.name}</span>
             </div>
             <div className="header-actions" data-testid="user-menu">
+              {hasPermission(user.role, PERMISSION_ACTIONS.VIEW_CASES) && (
+                <GlobalSearch onSelectCase={handleSearchResultSelect} />
+              )}
               <NotificationBell />
               <Settings />
               <button onClick={handleLogout} className="logout-button" data-testid="logout-button">
@@ -953,6 +989,28 @@ const AppContent: React.FC = () => {
               📅 Booking Calendar
             </button>
           )}
+          {hasPermission(user.role, PERMISSION_ACTIONS.DRIVER_MANIFEST) && (
+            <button
+              onClick={() => {
+                setActivePage('manifest');
+                playSound.click();
+              }}
+              className={activePage === 'manifest' ? 'active' : ''}
+            >
+              🚚 Driver Manifest
+            </button>
+          )}
+          {hasPermission(user.role, PERMISSION_ACTIONS.BILLING_EXPORT) && (
+            <button
+              onClick={() => {
+                setActivePage('billing');
+                playSound.click();
+              }}
+              className={activePage === 'billing' ? 'active' : ''}
+            >
+              💰 Billing
+            </button>
+          )}
           {(hasPermission(user.role, PERMISSION_ACTIONS.MANAGE_DOCTORS) || 
             hasPermission(user.role, PERMISSION_ACTIONS.MANAGE_PROCEDURE_TYPES) || 
             hasPermission(user.role, PERMISSION_ACTIONS.MANAGE_SURGERY_IMPLANTS)) && (
@@ -1005,6 +1063,7 @@ const AppContent: React.FC = () => {
             currentUser={user}
             highlightedCaseId={highlightedCaseId}
             onClearHighlight={() => setHighlightedCaseId(null)}
+            onDuplicateCase={handleDuplicateCase}
             onNavigateToPermissions={() => {
               setActivePage('permissions');
               playSound.click();
@@ -1043,6 +1102,14 @@ const AppContent: React.FC = () => {
           />
         )}
 
+        {activePage === 'manifest' && hasPermission(user.role, PERMISSION_ACTIONS.DRIVER_MANIFEST) && (
+          <DriverManifest />
+        )}
+
+        {activePage === 'billing' && hasPermission(user.role, PERMISSION_ACTIONS.BILLING_EXPORT) && (
+          <BillingExport />
+        )}
+
         {activePage === 'sets' && (hasPermission(user.role, PERMISSION_ACTIONS.MANAGE_DOCTORS) || 
             hasPermission(user.role, PERMISSION_ACTIONS.MANAGE_PROCEDURE_TYPES) || 
             hasPermission(user.role, PERMISSION_ACTIONS.MANAGE_SURGERY_IMPLANTS)) && (
@@ -1057,12 +1124,16 @@ const AppContent: React.FC = () => {
           <CodeTableSetup />
         )}
 
+        {activePage === 'price-lists' && (user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.PRICE_LISTS)) && (
+          <PriceLists />
+        )}
+
 
         {activePage === 'data-import' && (user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.IMPORT_DATA) || hasPermission(user.role, PERMISSION_ACTIONS.EXPORT_DATA)) && (
           <DataExportImport />
         )}
 
-        {activePage === 'system-settings' && (user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS)) && (
+        {activePage === 'system-settings' && (user.role === 'admin' || hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS) || hasPermission(user.role, PERMISSION_ACTIONS.DELIVERY_ORDER_TEMPLATE)) && (
           <SystemSettings />
         )}
       </main>
@@ -0,0 +1,482 @@
+/**
+ * BillingExport - ERP billing batches for "To be billed" cases
+ * Selected cases are snapshotted into a batch with CSV and XML downloads;
+ * confirming the batch closes its cases through the normal status update path
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
+import { useRealtimeCases } from '../hooks/useRealtimeCases';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useToast } from './ToastContainer';
+import { normalizeCountry } from '../utils/countryUtils';
+import { CASE_STATUSES } from '../constants/statuses';
+import { formatDateTime } from '../utils/dateFormat';
+import { formatScheduleLabel } from '../utils/caseRescheduleService';
+import { getDeliveryOrderNumber, getManifestQuantities } from '../utils/driverManifestService';
+import {
+  BillingBatch,
+  BillingColumn,
+  BillingExportSettings,
+  BillingField,
+  BILLING_FIELD_LABELS,
+  DEFAULT_BILLING_EXPORT_SETTINGS,
+  isBillableCase,
+  getLockedCaseIds,
+  toBillingCsv,
+  toBillingXml,
+  validateBillingExportSettings,
+  getBillingExportSettings,
+  saveBillingExportSettings,
+  getBillingBatches,
+  createBillingBatch,
+  confirmBillingBatch,
+  cancelBillingBatch
+} from '../utils/billingExportService';
+import '../assets/components/BillingExport.css';
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const BillingExport: React.FC = () => {
+  const currentUser = getCurrentUserSync();
+  const { addNotification } = useNotifications();
+  const { showSuccess, showError } = useToast();
+
+  const country = normalizeCountry(currentUser?.selectedCountry || currentUser?.countries?.[0] || '');
+  const canCloseCases = !!currentUser && hasPermission(currentUser.role, PERMISSION_ACTIONS.CASE_CLOSED);
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [busyBatchId, setBusyBatchId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [showMapping, setShowMapping] = useState(false);
+  const [mappingDraft, setMappingDraft] = useState<BillingExportSettings>(DEFAULT_BILLING_EXPORT_SETTINGS);
+  const [isSavingMapping, setIsSavingMapping] = useState(false);
+
+  const { cases = [], updateCaseStatus, refreshCases, isLoading } = useRealtimeCases({
+    enableRealTime: true,
+    enableTesting: false,
+    filters: { country }
+  });
+
+  const { data: batches = [], refetch: refetchBatches } = useQuery({
+    queryKey: ['billing-batches', country],
+    queryFn: () => getBillingBatches(country),
+    enabled: !!country
+  });
+
+  const { data: settings = DEFAULT_BILLING_EXPORT_SETTINGS, refetch: refetchSettings } = useQuery({
+    queryKey: ['billing-export-settings', country],
+    queryFn: () => getBillingExportSettings(country),
+    enabled: !!country
+  });
+
+  useEffect(() => {
+    setMappingDraft(settings);
+  }, [settings]);
+
+  const billableCases = useMemo(
+    () => cases.filter(isBillableCase).sort((a, b) => a.dateOfSurgery.localeCompare(b.dateOfSurgery)),
+    [cases]
+  );
+  const lockedIds = useMemo(() => getLockedCaseIds(batches), [batches]);
+  const selectableCases = billableCases.filter(caseItem => !lockedIds.has(caseItem.id));
+  const selectedCases = selectableCases.filter(caseItem => selectedIds.has(caseItem.id));
+  const openBatches = batches.filter(batch => batch.status === 'exported');
+
+  const toggleCase = (caseId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.has(caseId) ? next.delete(caseId) : next.add(caseId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selectedCases.length === selectableCases.length ? new Set() : new Set(selectableCases.map(c => c.id)));
+  };
+
+  const downloadBatch = (batch: BillingBatch, format: 'csv' | 'xml') => {
+    if (format === 'csv') {
+      downloadFile(toBillingCsv(batch.lines, batch.settings), `${batch.batchNumber}.csv`, 'text/csv;charset=utf-8;');
+    } else {
+      downloadFile(toBillingXml(batch.lines, batch.settings, batch.batchNumber), `${batch.batchNumber}.xml`, 'application/xml');
+    }
+  };
+
+  const handleCreateBatch = async () => {
+    if (!currentUser || selectedCases.length === 0) return;
+
+    setIsCreating(true);
+    try {
+      const quantitiesByCase = await getManifestQuantities(selectedCases.map(caseItem => caseItem.id));
+      const batch = await createBillingBatch({
+        country,
+        cases: selectedCases,
+        quantitiesByCase,
+        settings,
+        createdBy: currentUser.name
+      });
+      setSelectedIds(new Set());
+      await refetchBatches();
+      downloadBatch(batch, 'csv');
+      showSuccess('Billing Batch Created', `${batch.batchNumber} with ${batch.caseIds.length} case(s) and ${batch.lines.length} line(s).`);
+    } catch (error) {
+      showError('Export Failed', error instanceof Error ? error.message : 'Could not create the billing batch.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleConfirmBatch = async (batch: BillingBatch) => {
+    if (!currentUser || !canCloseCases) return;
+
+    setBusyBatchId(batch.id);
+    try {
+      const failed: string[] = [];
+      for (const caseId of batch.caseIds) {
+        const caseItem = cases.find(c => c.id === caseId);
+        // Cases closed by an earlier, partly failed confirmation are skipped
+        if (caseItem && caseItem.status !== CASE_STATUSES.TO_BE_BILLED) continue;
+
+        try {
+          const additionalData = {
+            comments: `Billed in batch ${batch.batchNumber}`,
+            attachments: [],
+            billingBatch: batch.batchNumber
+          };
+          const updated = await updateCaseStatus(caseId, CASE_STATUSES.CASE_CLOSED, JSON.stringify(additionalData));
+          if (!updated) failed.push(caseItem?.caseReferenceNumber || caseId);
+        } catch (error) {
+          failed.push(caseItem?.caseReferenceNumber || caseId);
+        }
+      }
+      refreshCases();
+
+      if (failed.length > 0) {
+        throw new Error(`Could not close ${failed.join(', ')}. The batch stays open - confirm again to retry.`);
+      }
+
+      await confirmBillingBatch(batch.id, currentUser.name);
+      await refetchBatches();
+      showSuccess('Batch Confirmed', `${batch.caseIds.length} case(s) in ${batch.batchNumber} are now closed.`);
+      addNotification({
+        title: 'Billing Batch Confirmed',
+        message: `${batch.batchNumber} was confirmed by ${currentUser.name} and ${batch.caseIds.length} case(s) were closed`,
+        type: 'success'
+      });
+    } catch (error) {
+      showError('Confirmation Failed', error instanceof Error ? error.message : 'Could not confirm the billing batch.');
+    } finally {
+      setBusyBatchId(null);
+    }
+  };
+
+  const handleCancelBatch = async (batch: BillingBatch) => {
+    if (!currentUser) return;
+
+    setBusyBatchId(batch.id);
+    try {
+      await cancelBillingBatch(batch.id, currentUser.name);
+      await refetchBatches();
+      showSuccess('Batch Cancelled', `The cases in ${batch.batchNumber} can be exported again.`);
+    } catch (error) {
+      showError('Cancel Failed', error instanceof Error ? error.message : 'Could not cancel the billing batch.');
+    } finally {
+      setBusyBatchId(null);
+    }
+  };
+
+  const updateColumn = (index: number, column: Partial<BillingColumn>) => {
+    setMappingDraft(prev => ({
+      ...prev,
+      columns: prev.columns.map((existing, i) => (i === index ? { ...existing, ...column } : existing))
+    }));
+  };
+
+  const moveColumn = (index: number, offset: -1 | 1) => {
+    setMappingDraft(prev => {
+      const columns = [...prev.columns];
+      const target = index + offset;
+      if (target < 0 || target >= columns.length) return prev;
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      return { ...prev, columns };
+    });
+  };
+
+  const handleSaveMapping = async () => {
+    const errors = validateBillingExportSettings(mappingDraft);
+    if (errors.length > 0) {
+      showError('Invalid Column Mapping', errors.join('. '));
+      return;
+    }
+
+    setIsSavingMapping(true);
+    try {
+      await saveBillingExportSettings(country, mappingDraft);
+      await refetchSettings();
+      showSuccess('Settings Saved', `New ${country} billing batches will use this column mapping.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save the billing column mapping. Please check your permissions.');
+    } finally {
+      setIsSavingMapping(false);
+    }
+  };
+
+  if (!currentUser || !hasPermission(currentUser.role, PERMISSION_ACTIONS.BILLING_EXPORT)) {
+    return (
+      <div className="permission-denied">
+        <div className="permission-denied-content">
+          <h2>🚫 Access Denied</h2>
+          <p>You don't have permission to export billing batches.</p>
+          <p>Contact your administrator to request access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="billing-export">
+      <div className="billing-export-header">
+        <div>
+          <h2>💰 Billing Export</h2>
+          <p>
+            {country} • {billableCases.length} case{billableCases.length === 1 ? '' : 's'} to be billed •{' '}
+            {openBatches.length} open batch{openBatches.length === 1 ? '' : 'es'}
+          </p>
+        </div>
+        <div className="billing-export-controls">
+          <button className="btn btn-outline-secondary" onClick={() => setShowMapping(prev => !prev)}>
+            ⚙️ Column Mapping
+          </button>
+          <button
+            className="btn btn-primary"
+            onClick={handleCreateBatch}
+            disabled={isCreating || selectedCases.length === 0}
+          >
+            {isCreating ? 'Exporting...' : `Create Batch (${selectedCases.length})`}
+          </button>
+        </div>
+      </div>
+
+      {showMapping && (
+        <div className="billing-export-panel">
+          <h3>Column Mapping for {country}</h3>
+          <table className="billing-export-table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Header / XML Element</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {mappingDraft.columns.map((column, index) => (
+                <tr key={index}>
+                  <td>
+                    <select
+                      value={column.field}
+                      onChange={(e) => updateColumn(index, { field: e.target.value as BillingField })}
+                    >
+                      {(Object.keys(BILLING_FIELD_LABELS) as BillingField[]).map(field => (
+                        <option key={field} value={field}>{BILLING_FIELD_LABELS[field]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={column.header}
+                      onChange={(e) => updateColumn(index, { header: e.target.value })}
+                    />
+                  </td>
+                  <td className="billing-export-row-actions">
+                    <button className="btn btn-sm btn-outline-secondary" onClick={() => moveColumn(index, -1)} disabled={index === 0}>↑</button>
+                    <button
+                      className="btn btn-sm btn-outline-secondary"
+                      onClick={() => moveColumn(index, 1)}
+                      disabled={index === mappingDraft.columns.length - 1}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="btn btn-sm btn-outline-danger"
+                      onClick={() => setMappingDraft(prev => ({ ...prev, columns: prev.columns.filter((_, i) => i !== index) }))}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            className="btn btn-sm btn-outline-secondary"
+            onClick={() => setMappingDraft(prev => ({ ...prev, columns: [...prev.columns, { field: 'caseReference', header: '' }] }))}
+          >
+            + Add Column
+          </button>
+
+          <div className="billing-export-options">
+            <label>
+              CSV Delimiter
+              <select
+                value={mappingDraft.delimiter}
+                onChange={(e) => setMappingDraft(prev => ({ ...prev, delimiter: e.target.value as BillingExportSettings['delimiter'] }))}
+              >
+                <option value=",">Comma (,)</option>
+                <option value=";">Semicolon (;)</option>
+                <option value={'\t'}>Tab</option>
+              </select>
+            </label>
+            <label>
+              Date Format
+              <select
+                value={mappingDraft.dateFormat}
+                onChange={(e) => setMappingDraft(prev => ({ ...prev, dateFormat: e.target.value as BillingExportSettings['dateFormat'] }))}
+              >
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+              </select>
+            </label>
+            <label>
+              XML Root Element
+              <input
+                type="text"
+                value={mappingDraft.xmlRootElement}
+                onChange={(e) => setMappingDraft(prev => ({ ...prev, xmlRootElement: e.target.value }))}
+              />
+            </label>
+            <label>
+              XML Line Element
+              <input
+                type="text"
+                value={mappingDraft.xmlRecordElement}
+                onChange={(e) => setMappingDraft(prev => ({ ...prev, xmlRecordElement: e.target.value }))}
+              />
+            </label>
+          </div>
+
+          <div className="billing-export-panel-actions">
+            <button className="btn btn-outline-secondary" onClick={() => setMappingDraft(settings)} disabled={isSavingMapping}>
+              Reset
+            </button>
+            <button className="btn btn-primary" onClick={handleSaveMapping} disabled={isSavingMapping}>
+              {isSavingMapping ? 'Saving...' : `Save ${country} Mapping`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {openBatches.length > 0 && (
+        <div className="billing-export-panel">
+          <h3>Open Batches</h3>
+          {openBatches.map(batch => (
+            <div key={batch.id} className="billing-export-batch">
+              <div>
+                <strong>{batch.batchNumber}</strong>
+                <div>
+                  <small>
+                    {batch.caseIds.length} case(s) • {batch.lines.length} line(s) • by {batch.createdBy} on {formatDateTime(batch.createdAt)}
+                  </small>
+                </div>
+                <small className="billing-export-batch-cases">{batch.caseReferences.join(', ')}</small>
+              </div>
+              <div className="billing-export-batch-actions">
+                <button className="btn btn-sm btn-outline-secondary" onClick={() => downloadBatch(batch, 'csv')}>CSV</button>
+                <button className="btn btn-sm btn-outline-secondary" onClick={() => downloadBatch(batch, 'xml')}>XML</button>
+                <button
+                  className="btn btn-sm btn-success"
+                  onClick={() => handleConfirmBatch(batch)}
+                  disabled={busyBatchId !== null || !canCloseCases}
+                  title={canCloseCases ? 'Close all cases in this batch' : 'You need permission to close cases'}
+                >
+                  {busyBatchId === batch.id ? 'Working...' : 'Confirm & Close Cases'}
+                </button>
+                <button
+                  className="btn btn-sm btn-outline-danger"
+                  onClick={() => handleCancelBatch(batch)}
+                  disabled={busyBatchId !== null}
+                >
+                  Cancel Batch
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="billing-export-empty">Loading cases...</div>
+      ) : billableCases.length === 0 ? (
+        <div className="billing-export-empty">No cases are waiting to be billed.</div>
+      ) : (
+        <table className="billing-export-table">
+          <thead>
+            <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  checked={selectableCases.length > 0 && selectedCases.length === selectableCases.length}
+                  onChange={toggleAll}
+                  disabled={selectableCases.length === 0}
+                  aria-label="Select all cases"
+                />
+              </th>
+              <th>Case</th>
+              <th>DO Number</th>
+              <th>Hospital</th>
+              <th>Doctor</th>
+              <th>Surgery</th>
+              <th>Sets / Boxes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {billableCases.map(caseItem => {
+              const lockedBatch = lockedIds.has(caseItem.id)
+                ? openBatches.find(batch => batch.caseIds.includes(caseItem.id))
+                : undefined;
+
+              return (
+                <tr key={caseItem.id} className={lockedBatch ? 'locked' : ''}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(caseItem.id)}
+                      onChange={() => toggleCase(caseItem.id)}
+                      disabled={!!lockedBatch}
+                      aria-label={`Select ${caseItem.caseReferenceNumber}`}
+                    />
+                  </td>
+                  <td>
+                    <strong>{caseItem.caseReferenceNumber}</strong>
+                    {lockedBatch && <div><small>In {lockedBatch.batchNumber}</small></div>}
+                  </td>
+                  <td>{getDeliveryOrderNumber(caseItem) || <span className="billing-export-missing">Missing</span>}</td>
+                  <td>{caseItem.hospital}</td>
+                  <td>{caseItem.doctorName || '—'}</td>
+                  <td>{formatScheduleLabel(caseItem.dateOfSurgery, caseItem.timeOfProcedure)}</td>
+                  <td>{(caseItem.surgerySetSelection?.length || 0) + (caseItem.implantBox?.length || 0)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default BillingExport;
@@ -5,11 +5,36 @@ import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
 import { useRealtimeCases } from '../hooks/useRealtimeCases';
 import { CaseBooking } from '../types';
 import SearchableDropdown from './SearchableDropdown';
+import CalendarExportPanel from './CalendarExportPanel';
+import RescheduleCaseModal from './RescheduleCaseModal';
 import { getMonthYearDisplay } from '../utils/dateFormat';
 import { getStatusColor } from './CasesList/utils';
 import { CASE_STATUSES } from '../constants/statuses';
 import { getDailyUsageForDate, type DailyUsage } from '../utils/unifiedDataService';
+import { getOwnedInventory, getOwnedQuantityForName } from '../utils/inventoryAvailabilityService';
 import { normalizeCountry } from '../utils/countryUtils';
+import {
+  CalendarLayout,
+  CalendarResourceType,
+  UNASSIGNED_RESOURCE,
+  toDateKey,
+  getWeekDates,
+  getVisibleDates,
+  shiftCalendarDate,
+  getProcedureHour,
+  getTimelineHours,
+  sortCasesByTime,
+  groupCasesByResource,
+  getResourceUsage,
+  formatCalendarPeriod,
+  formatHourLabel
+} from '../utils/calendarViewUtils';
+import {
+  RescheduleTarget,
+  RescheduleChanges,
+  canRescheduleCase,
+  buildRescheduleChanges
+} from '../utils/caseRescheduleService';
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
@@ -32,6 +57,9 @@ const formatDoctorName = (name?: string): string => {
   return `Dr. ${trimmed}`;
 };
 
+// Usage rows are keyed the same way the month usage grid looks them up
+const getUsageDateKey = (date: Date): string => date.toISOString().split('T')[0];
+
 interface BookingCalendarProps {
   onCaseClick?: (caseId: string) => void;
   onDateClick?: (date: Date, department: string) => void;
@@ -65,10 +93,18 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
 
   // New state for usage view
   const [viewMode, setViewMode] = useState<'bookings' | 'usage'>('bookings');
+  const [calendarLayout, setCalendarLayout] = useState<CalendarLayout>('month');
+  const [resourceType, setResourceType] = useState<CalendarResourceType>('doctor');
+
+  // Drag-and-drop rescheduling - a drop opens the reason prompt before anything is saved
+  const [draggedCaseId, setDraggedCaseId] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+  const [pendingReschedule, setPendingReschedule] = useState<{ caseItem: CaseBooking; changes: RescheduleChanges } | null>(null);
   const [usageData, setUsageData] = useState<DailyUsage[]>([]);
   const [isLoadingUsage, setIsLoadingUsage] = useState(false);
   const [showUsagePopup, setShowUsagePopup] = useState(false);
   const [usagePopupData, setUsagePopupData] = useState<{date: string, usage: DailyUsage | null}>({date: '', usage: null});
+  const [ownedInventory, setOwnedInventory] = useState<Map<string, number>>(new Map());
   const [usageRefreshTimestamp, setUsageRefreshTimestamp] = useState<number>(Date.now());
 
   // Check if user has permission to view booking calendar
@@ -77,7 +113,7 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
   // Determine the active country (Admin selected country or user's country)
   const activeCountry = isAdmin && selectedCountry ? selectedCountry : userCountry;
 
-  const { cases = [] } = useRealtimeCases({
+  const { cases = [], refreshCases } = useRealtimeCases({
     enableRealTime: true,
     enableTesting: true,
     filters: {
@@ -178,15 +214,12 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
       try {
         const normalizedCountry = normalizeCountry(activeCountry);
 
-        // Get all dates in the current month
-        const year = currentDate.getFullYear();
-        const month = currentDate.getMonth();
-        const daysInMonth = new Date(year, month + 1, 0).getDate();// Load usage data for each day in the month
+        // Load usage data for each day visible in the current layout
         const allUsageData: DailyUsage[] = [];
         const loadPromises: Promise<void>[] = [];
 
-        for (let day = 1; day <= daysInMonth; day++) {
-          const currentDateStr = new Date(year, month, day).toISOString().split('T')[0];
+        for (const visibleDate of getVisibleDates(calendarLayout, currentDate)) {
+          const currentDateStr = getUsageDateKey(visibleDate);
 
           const loadPromise = getDailyUsageForDate(currentDateStr, normalizedCountry)
             .then(dailyUsage => {
@@ -201,6 +234,13 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
           loadPromises.push(loadPromise);
         }
 
+        // Owned quantities let the usage popup flag items booked beyond stock
+        loadPromises.push(
+          getOwnedInventory(normalizedCountry)
+            .then(setOwnedInventory)
+            .catch(() => setOwnedInventory(new Map()))
+        );
+
         // Wait for all data to load
         await Promise.all(loadPromises);setUsageData(allUsageData);
 
@@ -213,7 +253,7 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
     };
 
     loadUsageData();
-  }, [viewMode, activeCountry, currentDate, usageRefreshTimestamp, cases]);
+  }, [viewMode, activeCountry, currentDate, calendarLayout, usageRefreshTimestamp, cases]);
 
   // Auto-refresh usage data every 30 seconds when in usage mode to detect amendment changes
   useEffect(() => {
@@ -252,18 +292,13 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
     setMoreCasesCurrentPage(pageNumber);
   };
 
-  const navigateMonth = (direction: 'prev' | 'next'): void => {
-    setCurrentDate(prev => {
-      const newDate = new Date(prev);
-      if (direction === 'prev') {
-        newDate.setMonth(prev.getMonth() - 1);
-      } else {
-        newDate.setMonth(prev.getMonth() + 1);
-      }
-      return newDate;
-    });
+  // Step by month, week or day depending on the layout
+  const navigatePeriod = (direction: 'prev' | 'next'): void => {
+    setCurrentDate(prev => shiftCalendarDate(prev, calendarLayout, direction));
   };
 
+  const periodUnit = calendarLayout === 'month' ? 'Month' : calendarLayout === 'day' ? 'Day' : 'Week';
+
   // Generate month options
   const getMonthOptions = () => {
     const months = [
@@ -309,14 +344,14 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
     setCurrentDate(new Date());
   };
 
-  // Get cases for a specific day
+  // Get cases for a specific day of the current month
   const getCasesForDay = (day: number): CaseBooking[] => {
     // Create date string without timezone issues
-    const year = currentDate.getFullYear();
-    const month = (currentDate.getMonth() + 1).toString().padStart(2, '0');
-    const dayStr = day.toString().padStart(2, '0');
-    const dateStr = `${year}-${month}-${dayStr}`;
+    return getCasesForDate(toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth(), day)));
+  };
 
+  // Get cases for a YYYY-MM-DD date, applying the driver and department filters
+  const getCasesForDate = (dateStr: string): CaseBooking[] => {
 
     return cases.filter(caseItem => {
       const matchesDate = caseItem.dateOfSurgery === dateStr;
@@ -346,6 +381,59 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
     });
   };
 
+  // Drag props for a case chip - only cases the user may amend can be picked up
+  const getDragProps = (caseItem: CaseBooking) => {
+    if (!canRescheduleCase(caseItem, currentUser?.role)) {
+      return {};
+    }
+
+    return {
+      draggable: true,
+      onDragStart: (event: React.DragEvent) => {
+        event.dataTransfer.setData('text/plain', caseItem.id);
+        event.dataTransfer.effectAllowed = 'move';
+        setDraggedCaseId(caseItem.id);
+      },
+      onDragEnd: () => {
+        setDraggedCaseId(null);
+        setDropTargetKey(null);
+      }
+    };
+  };
+
+  // Drop props for a day cell or time slot
+  const getDropProps = (target: RescheduleTarget, targetKey: string) => {
+    if (!draggedCaseId) {
+      return {};
+    }
+
+    return {
+      onDragOver: (event: React.DragEvent) => {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        if (dropTargetKey !== targetKey) {
+          setDropTargetKey(targetKey);
+        }
+      },
+      onDrop: (event: React.DragEvent) => {
+        event.preventDefault();
+        const caseId = event.dataTransfer.getData('text/plain') || draggedCaseId;
+        const caseItem = cases.find(c => c.id === caseId);
+        setDraggedCaseId(null);
+        setDropTargetKey(null);
+        if (!caseItem) return;
+
+        const changes = buildRescheduleChanges(caseItem, target);
+        if (changes) {
+          setPendingReschedule({ caseItem, changes });
+        }
+      }
+    };
+  };
+
+  const getDropTargetClass = (targetKey: string): string =>
+    draggedCaseId && dropTargetKey === targetKey ? 'calendar-drop-target' : '';
+
   // Mobile list view for better mobile experience
   const renderMobileListView = () => {
     const daysInMonth = getDaysInMonth(currentDate);
@@ -573,6 +661,7 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
       const isToday = isCurrentMonth && day === today.getDate();
       const dayClass = `calendar-day ${isToday ? 'calendar-day-today' : ''}`;
       const dayCases = getCasesForDay(day);
+      const dayKey = toDateKey(new Date(currentDate.getFullYear(), currentDate.getMonth(), day));
 
       const handleDayClick = (event: React.MouseEvent, clickedDay: number) => {
         // Only trigger date click if clicking on empty space (not on existing cases)
@@ -590,8 +679,9 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
       days.push(
         <div
           key={day}
-          className={`${dayClass} ${dayCases.length === 0 ? 'calendar-day-clickable' : ''}`}
+          className={`${dayClass} ${dayCases.length === 0 ? 'calendar-day-clickable' : ''} ${getDropTargetClass(dayKey)}`}
           onClick={(e) => handleDayClick(e, day)}
+          {...getDropProps({ dateOfSurgery: dayKey }, dayKey)}
           title={dayCases.length === 0 ? `Click to book a new case for ${day}/${currentDate.getMonth() + 1}/${currentDate.getFullYear()}` : `${dayCases.length} case(s) scheduled`}
           data-tooltip={dayCases.length === 0 ? 'Click to book' : `${dayCases.length} cases`}
         >
@@ -620,6 +710,7 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
                       }}
                       title={`${caseItem.caseReferenceNumber} - ${caseItem.procedureType} at ${caseItem.hospital} - ${formatDoctorName(caseItem.doctorName) || 'No doctor'} - Status: ${caseItem.status}`}
                       onClick={() => onCaseClick?.(caseItem.id)}
+                      {...getDragProps(caseItem)}
                     >
                       <div className="booking-time" style={{color: 'white', fontWeight: 'bold'}}>{caseItem.timeOfProcedure || 'TBD'}</div>
                       <div className="booking-hospital" style={{fontSize: '9px', fontWeight: 'bold', color: 'white'}}>
@@ -760,6 +851,184 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
     );
   };
 
+  // Booking chip shared by the week, day and resource layouts
+  const renderBookingChip = (caseItem: CaseBooking) => (
+    <div
+      key={caseItem.id}
+      className="booking-item calendar-layout-booking"
+      style={{
+        backgroundColor: getStatusColor(caseItem.status),
+        color: 'white'
+      }}
+      title={`${caseItem.caseReferenceNumber} - ${caseItem.procedureType} at ${caseItem.hospital} - ${formatDoctorName(caseItem.doctorName)} - Status: ${caseItem.status}`}
+      onClick={() => onCaseClick?.(caseItem.id)}
+      {...getDragProps(caseItem)}
+    >
+      <div className="booking-time">{caseItem.timeOfProcedure || 'TBD'} • {caseItem.caseReferenceNumber}</div>
+      <div className="booking-hospital">{caseItem.hospital}</div>
+      <div className="booking-procedure">{caseItem.procedureType}</div>
+      <div className="booking-doctor">{formatDoctorName(caseItem.doctorName)}</div>
+    </div>
+  );
+
+  // Day usage totals for timeline headers - item breakdown only in the day layout
+  const renderUsageSummary = (date: Date, showItems: boolean) => {
+    const dayUsage = usageData.find(usage => usage.usage_date === getUsageDateKey(date));
+    if (!dayUsage) {
+      return <div className="calendar-layout-usage empty">No usage</div>;
+    }
+
+    return (
+      <div className="calendar-layout-usage">
+        <span title="Surgery Sets">🏥 {dayUsage.surgery_sets_total}</span>
+        <span title="Implant Boxes">📦 {dayUsage.implant_boxes_total}</span>
+        {showItems && dayUsage.top_items && dayUsage.top_items.length > 0 && (
+          <ul className="calendar-layout-usage-items">
+            {dayUsage.top_items.map(item => {
+              const owned = getOwnedQuantityForName(ownedInventory, item.item_name);
+              const isOverbooked = owned !== undefined && item.quantity > owned;
+              return (
+                <li key={item.item_name} className={isOverbooked ? 'overbooked' : ''}>
+                  {item.item_name}: {item.quantity}{owned !== undefined ? ` / ${owned} owned` : ''}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  // Week and day timelines - one column per date, one row per hour of timeOfProcedure
+  const renderTimelineView = (dates: Date[]) => {
+    const todayKey = toDateKey(new Date());
+    const casesByDate = dates.map(date => sortCasesByTime(getCasesForDate(toDateKey(date))));
+    const hours = getTimelineHours(casesByDate.flat());
+    const hasUnscheduled = casesByDate.some(dayCases =>
+      dayCases.some(caseItem => getProcedureHour(caseItem.timeOfProcedure) === null)
+    );
+    const isDayLayout = dates.length === 1;
+
+    const handleSlotClick = (event: React.MouseEvent, date: Date) => {
+      // Only book from empty space, not from an existing case
+      if ((event.target as HTMLElement).closest('.booking-item')) {
+        return;
+      }
+      if (onDateClick && selectedDepartment) {
+        onDateClick(new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12, 0, 0, 0), selectedDepartment);
+      }
+    };
+
+    // Dropping on an hour row moves the time too; the TBD row only changes the date
+    const renderSlotRow = (label: string, rowKey: string, hour: number | undefined, matchesRow: (caseItem: CaseBooking) => boolean) => (
+      <React.Fragment key={rowKey}>
+        <div className="calendar-timeline-hour">{label}</div>
+        {dates.map((date, index) => (
+          <div
+            key={`${rowKey}-${toDateKey(date)}`}
+            className={`calendar-timeline-slot ${toDateKey(date) === todayKey ? 'calendar-timeline-today' : ''} ${getDropTargetClass(`${rowKey}-${toDateKey(date)}`)}`}
+            onClick={(e) => handleSlotClick(e, date)}
+            {...getDropProps({ dateOfSurgery: toDateKey(date), hour }, `${rowKey}-${toDateKey(date)}`)}
+          >
+            {casesByDate[index].filter(matchesRow).map(renderBookingChip)}
+          </div>
+        ))}
+      </React.Fragment>
+    );
+
+    return (
+      <div
+        className={`calendar-timeline ${isDayLayout ? 'calendar-timeline-single' : ''}`}
+        style={{ gridTemplateColumns: `64px repeat(${dates.length}, minmax(${isDayLayout ? 240 : 130}px, 1fr))` }}
+      >
+        <div className="calendar-timeline-corner"></div>
+        {dates.map((date, index) => (
+          <div
+            key={`header-${toDateKey(date)}`}
+            className={`calendar-day-header ${toDateKey(date) === todayKey ? 'calendar-timeline-today' : ''}`}
+          >
+            <div>{date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' })}</div>
+            <small>{casesByDate[index].length} case{casesByDate[index].length === 1 ? '' : 's'}</small>
+            {viewMode === 'usage' && renderUsageSummary(date, isDayLayout)}
+          </div>
+        ))}
+        {hasUnscheduled && renderSlotRow('TBD', 'unscheduled', undefined, caseItem => getProcedureHour(caseItem.timeOfProcedure) === null)}
+        {hours.map(hour =>
+          renderSlotRow(formatHourLabel(hour), `hour-${hour}`, hour, caseItem => getProcedureHour(caseItem.timeOfProcedure) === hour)
+        )}
+      </div>
+    );
+  };
+
+  // Resource layout - one row per doctor, hospital or implant box across the week
+  const renderResourceView = () => {
+    const dates = getWeekDates(currentDate);
+    const todayKey = toDateKey(new Date());
+    const casesByDate = new Map(dates.map(date => [toDateKey(date), getCasesForDate(toDateKey(date))]));
+    const rows = groupCasesByResource(Array.from(casesByDate.values()).flat(), resourceType);
+
+    if (rows.length === 0) {
+      return (
+        <div className="calendar-resource-empty">
+          <p>No bookings this week for {selectedDepartment}.</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="calendar-resource-grid" style={{ gridTemplateColumns: `180px repeat(${dates.length}, minmax(120px, 1fr))` }}>
+        <div className="calendar-timeline-corner">
+          {resourceType === 'doctor' ? 'Doctor' : resourceType === 'hospital' ? 'Hospital' : 'Implant Box'}
+        </div>
+        {dates.map(date => (
+          <div
+            key={`header-${toDateKey(date)}`}
+            className={`calendar-day-header ${toDateKey(date) === todayKey ? 'calendar-timeline-today' : ''}`}
+          >
+            {date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' })}
+          </div>
+        ))}
+        {rows.map(row => (
+          <React.Fragment key={row.resource}>
+            <div className="calendar-resource-name" title={row.resource}>
+              {resourceType === 'doctor' && row.resource !== UNASSIGNED_RESOURCE ? formatDoctorName(row.resource) : row.resource}
+              <small>{row.cases.length} case{row.cases.length === 1 ? '' : 's'}</small>
+            </div>
+            {dates.map(date => {
+              const dateKey = toDateKey(date);
+              const cellCases = row.cases.filter(caseItem => caseItem.dateOfSurgery === dateKey);
+
+              if (viewMode === 'usage') {
+                const units = getResourceUsage(cellCases, row.resource, resourceType);
+                const owned = resourceType === 'implantBox' ? getOwnedQuantityForName(ownedInventory, row.resource) : undefined;
+                const isOverbooked = owned !== undefined && units > owned;
+                return (
+                  <div
+                    key={`${row.resource}-${dateKey}`}
+                    className={`calendar-resource-cell usage ${isOverbooked ? 'overbooked' : ''}`}
+                    title={isOverbooked ? `${units} booked but only ${owned} owned` : `${units} set(s)/box(es) booked`}
+                  >
+                    {units > 0 ? `${units}${owned !== undefined ? ` / ${owned}` : ''}` : ''}
+                  </div>
+                );
+              }
+
+              return (
+                <div
+                  key={`${row.resource}-${dateKey}`}
+                  className={`calendar-resource-cell ${dateKey === todayKey ? 'calendar-timeline-today' : ''} ${getDropTargetClass(`${row.resource}-${dateKey}`)}`}
+                  {...getDropProps({ dateOfSurgery: dateKey }, `${row.resource}-${dateKey}`)}
+                >
+                  {cellCases.map(renderBookingChip)}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  };
+
   if (!canViewCalendar) {
     return (
       <div className="permission-denied">
@@ -833,19 +1102,60 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
           </div>
         </div>
 
+        {/* Layout Toggle */}
+        <div className="view-mode-toggle calendar-layout-toggle">
+          <label>Layout:</label>
+          <div className="toggle-buttons">
+            {([
+              ['month', 'Month'],
+              ['week', 'Week'],
+              ['day', 'Day'],
+              ['resource', 'Resource']
+            ] as [CalendarLayout, string][]).map(([layout, label]) => (
+              <button
+                key={layout}
+                className={`toggle-button ${calendarLayout === layout ? 'active' : ''}`}
+                onClick={() => setCalendarLayout(layout)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {calendarLayout === 'resource' && (
+            <select
+              className="calendar-resource-type"
+              value={resourceType}
+              onChange={(e) => setResourceType(e.target.value as CalendarResourceType)}
+              aria-label="Resource rows"
+            >
+              <option value="doctor">By Doctor</option>
+              <option value="hospital">By Hospital</option>
+              <option value="implantBox">By Implant Box</option>
+            </select>
+          )}
+        </div>
+
+        {activeCountry && (
+          <CalendarExportPanel
+            cases={cases}
+            country={normalizeCountry(activeCountry)}
+            department={selectedDepartment}
+          />
+        )}
+
         <div className="calendar-navigation">
           <div className="nav-arrows">
             <button
-              onClick={() => navigateMonth('prev')}
+              onClick={() => navigatePeriod('prev')}
               className="nav-button"
-              title="Previous Month"
+              title={`Previous ${periodUnit}`}
             >
               ← Previous
             </button>
             <button
-              onClick={() => navigateMonth('next')}
+              onClick={() => navigatePeriod('next')}
               className="nav-button"
-              title="Next Month"
+              title={`Next ${periodUnit}`}
             >
               Next →
             </button>
@@ -853,7 +1163,7 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
 
           <div className="month-year-display">
             <h3 className="current-month" onClick={() => setShowDatePickers(!showDatePickers)}>
-              {getMonthName(currentDate)}
+              {calendarLayout === 'month' ? getMonthName(currentDate) : formatCalendarPeriod(calendarLayout, currentDate)}
               <span className="dropdown-indicator">{showDatePickers ? '▲' : '▼'}</span>
             </h3>
 
@@ -913,30 +1223,52 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
                   • Showing quantity aggregation for cases in "Preparing Order" status
                 </span>
               )}
-            </div>
-            <div className="desktop-calendar-view">
-              {viewMode === 'bookings' ? renderCalendarGrid() :
-               viewMode === 'usage' && isLoadingUsage ? (
-                 <div className="usage-loading">
-                   <div className="loading-spinner">⏳</div>
-                   <p>Loading usage data...</p>
-                 </div>
-               ) : (
-                 renderUsageCalendar()
-               )}
-            </div>
-            <div className="mobile-calendar-view">
-              {viewMode === 'bookings' ? (
-                renderMobileListView()
-              ) : viewMode === 'usage' && isLoadingUsage ? (
-                <div className="mobile-usage-loading">
-                  <div className="loading-spinner">⏳</div>
-                  <p>Loading usage data...</p>
-                </div>
-              ) : (
-                renderMobileUsageView()
+              {viewMode === 'bookings' && hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.AMEND_CASE) && (
+                <span className="usage-info">
+                  • Drag a case to another day{calendarLayout === 'week' || calendarLayout === 'day' ? ' or time slot' : ''} to reschedule it
+                </span>
               )}
             </div>
+            {calendarLayout !== 'month' ? (
+              <div className="calendar-layout-view">
+                {viewMode === 'usage' && isLoadingUsage ? (
+                  <div className="usage-loading">
+                    <div className="loading-spinner">⏳</div>
+                    <p>Loading usage data...</p>
+                  </div>
+                ) : calendarLayout === 'resource' ? (
+                  renderResourceView()
+                ) : (
+                  renderTimelineView(getVisibleDates(calendarLayout, currentDate))
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="desktop-calendar-view">
+                  {viewMode === 'bookings' ? renderCalendarGrid() :
+                   viewMode === 'usage' && isLoadingUsage ? (
+                     <div className="usage-loading">
+                       <div className="loading-spinner">⏳</div>
+                       <p>Loading usage data...</p>
+                     </div>
+                   ) : (
+                     renderUsageCalendar()
+                   )}
+                </div>
+                <div className="mobile-calendar-view">
+                  {viewMode === 'bookings' ? (
+                    renderMobileListView()
+                  ) : viewMode === 'usage' && isLoadingUsage ? (
+                    <div className="mobile-usage-loading">
+                      <div className="loading-spinner">⏳</div>
+                      <p>Loading usage data...</p>
+                    </div>
+                  ) : (
+                    renderMobileUsageView()
+                  )}
+                </div>
+              </>
+            )}
           </div>
         ) : (
           <div className="no-department-selected">
@@ -945,6 +1277,18 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
         )}
       </div>
 
+      {pendingReschedule && (
+        <RescheduleCaseModal
+          caseItem={pendingReschedule.caseItem}
+          changes={pendingReschedule.changes}
+          onClose={() => setPendingReschedule(null)}
+          onRescheduled={() => {
+            setPendingReschedule(null);
+            refreshCases();
+          }}
+        />
+      )}
+
       {/* More Cases Popup */}
       {showMoreCasesPopup && (
         <div className="more-cases-modal-overlay" onClick={() => setShowMoreCasesPopup(false)}>
@@ -1072,12 +1416,18 @@ const BookingCalendar: React.FC<BookingCalendarProps> = ({ onCaseClick, onDateCl
                 <div className="items-breakdown-section">
                   <h4>Items Breakdown</h4>
                   <div className="items-list">
-                    {usagePopupData.usage.top_items.map((item, index) => (
-                      <div key={index} className="usage-item-row">
-                        <span className="item-name">{item.item_name}</span>
-                        <span className="item-quantity">×{item.quantity}</span>
-                      </div>
-                    ))}
+                    {usagePopupData.usage.top_items.map((item, index) => {
+                      const owned = getOwnedQuantityForName(ownedInventory, item.item_name);
+                      const isOverbooked = owned !== undefined && item.quantity > owned;
+                      return (
+                        <div key={index} className={`usage-item-row ${isOverbooked ? 'overbooked' : ''}`}>
+                          <span className="item-name">{item.item_name}</span>
+                          <span className="item-quantity" title={isOverbooked ? 'Booked beyond owned stock' : undefined}>
+                            ×{item.quantity}{owned !== undefined && ` / ${owned} owned`}
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               )}
@@ -0,0 +1,156 @@
+/**
+ * CalendarExportPanel - ICS download and subscription links for the booking calendar
+ * Feeds are read-only and scoped to the user's own cases, a country or a department
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { CaseBooking } from '../types';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { useToast } from './ToastContainer';
+import {
+  CALENDAR_COUNTRY_SCOPE_ROLES,
+  CalendarExportScope,
+  CalendarFeed,
+  downloadCalendarExport,
+  createCalendarFeed,
+  getCalendarFeeds,
+  revokeCalendarFeed,
+  getCalendarFeedUrl
+} from '../utils/icsCalendarService';
+
+interface CalendarExportPanelProps {
+  cases: CaseBooking[];
+  country: string;
+  department: string;
+}
+
+const CalendarExportPanel: React.FC<CalendarExportPanelProps> = ({ cases, country, department }) => {
+  const currentUser = getCurrentUserSync();
+  const { showSuccess, showError } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<CalendarExportScope>('mine');
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [isCreatingFeed, setIsCreatingFeed] = useState(false);
+
+  const loadFeeds = useCallback(async () => {
+    if (!currentUser?.id) return;
+    try {
+      setFeeds(await getCalendarFeeds(currentUser.id));
+    } catch (error) {
+      console.error('Failed to load calendar feeds:', error);
+    }
+  }, [currentUser?.id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadFeeds();
+    }
+  }, [isOpen, loadFeeds]);
+
+  const scopeFilter = {
+    scope,
+    country,
+    department: department || undefined,
+    userId: currentUser?.id
+  };
+  const needsDepartment = scope === 'department' && !department;
+  // Other roles only see their assigned departments in the calendar - same for exports
+  const canExportCountry = !!currentUser && CALENDAR_COUNTRY_SCOPE_ROLES.includes(currentUser.role);
+
+  const handleDownload = () => {
+    const exported = downloadCalendarExport(cases, scopeFilter);
+    showSuccess('Calendar Exported', `${exported} booking${exported === 1 ? '' : 's'} exported. Import the .ics file into Outlook or Google Calendar.`);
+  };
+
+  const handleCopyUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(feed.token));
+      showSuccess('Link Copied', 'Paste it into "Subscribe from web" (Outlook) or "From URL" (Google Calendar).');
+    } catch (error) {
+      window.prompt('Copy the subscription link:', getCalendarFeedUrl(feed.token));
+    }
+  };
+
+  const handleCreateFeed = async () => {
+    if (!currentUser) return;
+    setIsCreatingFeed(true);
+    try {
+      const feed = await createCalendarFeed(scopeFilter, currentUser);
+      setFeeds(prev => [feed, ...prev]);
+      await handleCopyUrl(feed);
+    } catch (error) {
+      showError('Subscription Failed', error instanceof Error ? error.message : 'Could not create the subscription link.');
+    } finally {
+      setIsCreatingFeed(false);
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    try {
+      await revokeCalendarFeed(feed.id);
+      setFeeds(prev => prev.filter(item => item.id !== feed.id));
+      showSuccess('Subscription Revoked', `${feed.label} will no longer update.`);
+    } catch (error) {
+      showError('Revoke Failed', 'Could not revoke the subscription link.');
+    }
+  };
+
+  return (
+    <div className="calendar-export">
+      <button
+        className="toggle-button calendar-export-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Export or subscribe in Outlook / Google Calendar"
+      >
+        🗓️ Export / Subscribe
+      </button>
+
+      {isOpen && (
+        <div className="calendar-export-panel">
+          <div className="calendar-export-row">
+            <label htmlFor="calendar-export-scope">Bookings:</label>
+            <select
+              id="calendar-export-scope"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as CalendarExportScope)}
+            >
+              <option value="mine">My cases ({country})</option>
+              <option value="department">{department || 'Selected department'} ({country})</option>
+              {canExportCountry && <option value="country">All cases ({country})</option>}
+            </select>
+          </div>
+          {needsDepartment && (
+            <small className="calendar-export-hint">Select a department above first</small>
+          )}
+
+          <div className="calendar-export-row">
+            <button className="nav-button" onClick={handleDownload} disabled={needsDepartment}>
+              ⬇️ Download .ics
+            </button>
+            <button className="nav-button" onClick={handleCreateFeed} disabled={needsDepartment || isCreatingFeed}>
+              {isCreatingFeed ? 'Creating...' : '🔗 Create Subscription Link'}
+            </button>
+          </div>
+
+          {feeds.length > 0 && (
+            <div className="calendar-export-feeds">
+              <strong>Your subscription links</strong>
+              {feeds.map(feed => (
+                <div key={feed.id} className="calendar-export-feed">
+                  <span>{feed.label}</span>
+                  <button className="nav-button" onClick={() => handleCopyUrl(feed)}>Copy</button>
+                  <button className="nav-button danger" onClick={() => handleRevoke(feed)}>Revoke</button>
+                </div>
+              ))}
+              <small className="calendar-export-hint">
+                Anyone with a link can see its bookings - revoke links you no longer use.
+              </small>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarExportPanel;
@@ -11,7 +11,7 @@
  * NEVER use: caseId → USE: case_booking_id
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { CaseBooking } from '../types';
 import { getCurrentUserSync } from '../utils/authCompat';
 import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
@@ -23,8 +23,13 @@ import SimpleMultiSelectDropdown from './SimpleMultiSelectDropdown';
 import CustomModal from './CustomModal';
 import { useModal } from '../hooks/useModal';
 import FilterDatePicker from './FilterDatePicker';
-import { addDaysForInput, getTodayForInput } from '../utils/dateFormat';
+import { addDaysForInput, formatDate, getTodayForInput } from '../utils/dateFormat';
 import { normalizeCountry } from '../utils/countryUtils';
+import {
+  checkInventoryAvailability,
+  buildRequestedQuantities,
+  formatInventoryConflicts
+} from '../utils/inventoryAvailabilityService';
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
@@ -43,12 +48,27 @@ import {
   type ProcedureSet,
   type CaseQuantity
 } from '../utils/unifiedDataService';
+import {
+  BookingTemplate,
+  BookingTemplateDraft,
+  RecurrenceRule,
+  MAX_SERIES_OCCURRENCES,
+  generateRecurrenceDates,
+  validateRecurrenceRule,
+  describeRecurrenceRule,
+  applyTemplateSelection,
+  getBookingTemplates,
+  saveBookingTemplate,
+  bookCaseSeries
+} from '../utils/caseSeriesService';
+import { loadCloneDraft } from '../utils/caseCloneService';
 
 interface CaseBookingFormProps {
   onCaseSubmitted: () => void;
   prefillData?: {
     dateOfSurgery?: string;
     department?: string;
+    sourceCase?: CaseBooking; // Case being duplicated
   };
 }
 
@@ -57,7 +77,7 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
   const { modal, closeModal, showConfirm, showSuccess, showError } = useModal();
 
   // Real-time cases hook for saving and generating reference numbers
-  const { saveCase, generateCaseReferenceNumber } = useRealtimeCases({
+  const { saveCase, refreshCases } = useRealtimeCases({
     enableRealTime: true,
     enableTesting: true
   });
@@ -101,6 +121,26 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
   const [isLoadingProcedures, setIsLoadingProcedures] = useState(false);
   const [isLoadingSets, setIsLoadingSets] = useState(false);
 
+  // Booking templates - applying one walks the department > doctor > procedure > sets cascade
+  const [templates, setTemplates] = useState<BookingTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [newTemplateName, setNewTemplateName] = useState<string | null>(null);
+  const [templateRequestId, setTemplateRequestId] = useState(0);
+  const pendingTemplateRef = useRef<BookingTemplateDraft | null>(null);
+
+  // Set when duplicating a case - recorded on the new booking as cloned_from_id
+  const [clonedFrom, setClonedFrom] = useState<CaseBooking | null>(null);
+
+  // Recurring series - the surgery date above is the first case
+  const [recurrence, setRecurrence] = useState({
+    enabled: false,
+    type: 'weekly' as RecurrenceRule['type'],
+    occurrences: 4,
+    intervalWeeks: 1,
+    extraDates: [] as string[]
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
   // Helper function to format doctor display name consistently
   const formatDoctorDisplayName = (doctor: DepartmentDoctor): string => {
     if (!doctor.name) return '';
@@ -215,8 +255,21 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
         const doctors = await getDoctorsForDepartment(formData.department, normalizedCountry);
         setAvailableDoctors(doctors);
 
-        // Clear doctor selection when department changes
-        setFormData(prev => ({ ...prev, doctorId: '', doctorName: '' }));
+        // Clear doctor selection when department changes, unless a template is being applied
+        const template = pendingTemplateRef.current;
+        const templateDoctor = template && template.department === formData.department
+          ? doctors.find(d => d.id === template.doctorId || (!template.doctorId && d.name === template.doctorName))
+          : undefined;
+        if (template && templateDoctor) {
+          pendingTemplateRef.current = { ...template, doctorId: templateDoctor.id };
+          setFormData(prev => ({ ...prev, doctorId: templateDoctor.id, doctorName: templateDoctor.name }));
+        } else {
+          if (template) {
+            pendingTemplateRef.current = null;
+            showError(`${template.doctorName || 'The doctor'} from ${template.name} is no longer available in ${formData.department}. Please select a doctor.`, 'Doctor Not Found');
+          }
+          setFormData(prev => ({ ...prev, doctorId: '', doctorName: '' }));
+        }
 
       } catch (error) {
         // Error loading doctors for department
@@ -228,7 +281,7 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
 
     loadDoctorsForDepartment();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [formData.department, currentUser?.selectedCountry]);
+  }, [formData.department, currentUser?.selectedCountry, templateRequestId]);
 
   // Load procedures when doctor is selected
   useEffect(() => {
@@ -250,7 +303,15 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
         setAvailableDoctorProcedures(procedures);
 
         // Clear procedure selection and downstream data when doctor changes
-        setFormData(prev => ({ ...prev, procedureType: '', surgerySetSelection: [], implantBox: [], quantities: {} }));
+        const template = pendingTemplateRef.current;
+        const templateProcedure = template && template.doctorId === formData.doctorId &&
+          procedures.some(proc => proc.procedure_type === template.procedureType)
+          ? template.procedureType
+          : '';
+        if (template && !templateProcedure) {
+          pendingTemplateRef.current = null;
+        }
+        setFormData(prev => ({ ...prev, procedureType: templateProcedure, surgerySetSelection: [], implantBox: [], quantities: {} }));
         setAvailableProcedureSets([]);
 
       } catch (error) {
@@ -297,6 +358,14 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
           newQuantities[itemName] = 1;
         });
 
+        // A template being applied brings its own set list and quantities
+        const template = pendingTemplateRef.current;
+        if (template && template.doctorId === formData.doctorId && template.procedureType === formData.procedureType) {
+          pendingTemplateRef.current = null;
+          setFormData(prev => ({ ...prev, ...applyTemplateSelection(template, sets) }));
+          return;
+        }
+
         setFormData(prev => ({ 
           ...prev, 
           surgerySetSelection: surgerySetNames, 
@@ -459,6 +528,27 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentUser?.id, currentUser?.selectedCountry]);
 
+  // Duplicating a case prefills everything but the surgery date
+  useEffect(() => {
+    const sourceCase = prefillData?.sourceCase;
+    if (!sourceCase) return;
+
+    setClonedFrom(sourceCase);
+    loadCloneDraft(sourceCase)
+      .then(startTemplateCascade)
+      .catch(() => showError(`Could not load case ${sourceCase.caseReferenceNumber} for duplication.`));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [prefillData?.sourceCase?.id]);
+
+  // Load booking templates for the user's country
+  useEffect(() => {
+    if (!userCountry) return;
+
+    getBookingTemplates(userCountry)
+      .then(setTemplates)
+      .catch(() => setTemplates([]));
+  }, [userCountry]);
+
   // Check if user has permission to create cases
   const canCreateCase = currentUser ? hasPermission(currentUser.role, PERMISSION_ACTIONS.CREATE_CASE) : false;
 
@@ -507,6 +597,73 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
     return Object.keys(newErrors).length === 0;
   };
 
+  const startTemplateCascade = (template: BookingTemplateDraft) => {
+    // The cascade effects pick up the doctor, procedure and sets from the pending template
+    pendingTemplateRef.current = template;
+    setFormData(prev => ({
+      ...prev,
+      hospital: template.hospital || prev.hospital,
+      department: template.department,
+      doctorId: '',
+      doctorName: '',
+      procedureType: '',
+      procedureName: template.procedureName,
+      timeOfProcedure: template.timeOfProcedure,
+      specialInstruction: template.specialInstruction,
+      surgerySetSelection: [],
+      implantBox: [],
+      quantities: {}
+    }));
+    setErrors({});
+    setTemplateRequestId(prev => prev + 1);
+  };
+
+  const applyTemplate = () => {
+    const template = templates.find(t => t.id === selectedTemplateId);
+    if (template) {
+      startTemplateCascade(template);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!currentUser || !userCountry || newTemplateName === null) return;
+
+    try {
+      const template = await saveBookingTemplate({
+        country: userCountry,
+        name: newTemplateName,
+        hospital: formData.hospital,
+        department: formData.department,
+        doctorId: formData.doctorId,
+        doctorName: formData.doctorName,
+        procedureType: formData.procedureType,
+        procedureName: formData.procedureName,
+        timeOfProcedure: formData.timeOfProcedure,
+        surgerySetSelection: formData.surgerySetSelection,
+        implantBox: formData.implantBox,
+        quantities: formData.quantities,
+        specialInstruction: formData.specialInstruction
+      }, currentUser.name);
+
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedTemplateId(template.id);
+      setNewTemplateName(null);
+      showSuccess(`Template "${template.name}" saved for ${template.doctorName} - ${template.procedureType}.`, 'Template Saved');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to save the template.', 'Template Not Saved');
+    }
+  };
+
+  const getRecurrenceRule = (): RecurrenceRule =>
+    recurrence.type === 'weekly'
+      ? {
+          type: 'weekly',
+          startDate: formData.dateOfSurgery,
+          occurrences: recurrence.occurrences,
+          intervalWeeks: recurrence.intervalWeeks
+        }
+      : { type: 'dates', dates: [formData.dateOfSurgery, ...recurrence.extraDates] };
+
   const handleClearForm = () => {
     showConfirm(
       'Clear Form',
@@ -527,6 +684,7 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
           quantities: {}
         });
         setErrors({});
+        setClonedFrom(null);
 
         // Reset doctor hierarchy state
         setAvailableDoctorProcedures([]);
@@ -551,18 +709,144 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
       return;
     }
 
+    if (recurrence.enabled) {
+      const ruleErrors = validateRecurrenceRule(getRecurrenceRule(), getTodayForInput());
+      if (ruleErrors.length > 0) {
+        showError(ruleErrors.join('\n'), 'Invalid Repeat Schedule');
+        return;
+      }
+    }
+
+    // Check set/implant stock for each surgery date plus turnaround buffer
+    const userCountry = normalizeCountry(currentUser.selectedCountry || currentUser.countries?.[0] || '');
+    const requested = buildRequestedQuantities(formData.surgerySetSelection, formData.implantBox, formData.quantities);
+    const surgeryDates = recurrence.enabled ? generateRecurrenceDates(getRecurrenceRule()) : [formData.dateOfSurgery];
+    const checks = await Promise.all(surgeryDates.map(dateOfSurgery =>
+      checkInventoryAvailability({ country: userCountry, dateOfSurgery, requested })
+    ));
+    const submit = () => (recurrence.enabled ? submitSeries(userCountry, requested) : submitCase(userCountry));
+
+    const conflictingChecks = checks
+      .map((check, index) => ({ ...check, dateOfSurgery: surgeryDates[index] }))
+      .filter(check => check.conflicts.length > 0);
+
+    if (conflictingChecks.length > 0) {
+      const summary = conflictingChecks
+        .map(check => recurrence.enabled
+          ? `${formatDate(check.dateOfSurgery)}:\n${formatInventoryConflicts(check.conflicts)}`
+          : formatInventoryConflicts(check.conflicts))
+        .join('\n\n');
+      if (checks[0].settings.conflictMode === 'block') {
+        showError(`Not enough stock for this surgery date:\n\n${summary}\n\nPlease change the date or quantities.`, 'Set Unavailable');
+      } else {
+        showConfirm(
+          'Possible Double Booking',
+          `The following items may not be available:\n\n${summary}\n\nSubmit the case anyway?`,
+          submit
+        );
+      }
+      return;
+    }
+
+    await submit();
+  };
+
+  const resetForm = () => {
+    setFormData({
+      hospital: '',
+      department: '',
+      dateOfSurgery: getDefaultDate(),
+      procedureType: '',
+      procedureName: '',
+      doctorName: '',
+      doctorId: '',
+      timeOfProcedure: '',
+      surgerySetSelection: [],
+      implantBox: [],
+      specialInstruction: '',
+      quantities: {}
+    });
+    setRecurrence(prev => ({ ...prev, enabled: false, extraDates: [] }));
+    setClonedFrom(null);
+
+    // Reset doctor hierarchy state
+    setAvailableDoctorProcedures([]);
+    setAvailableProcedureSets([]);
+  };
+
+  const submitSeries = async (userCountry: string, quantities: CaseQuantity[]) => {
+    if (!currentUser) {
+      return;
+    }
+
+    setIsSubmitting(true);
     try {
-      const userCountry = normalizeCountry(currentUser.selectedCountry || currentUser.countries?.[0] || '');
-      const caseReferenceNumber = await generateCaseReferenceNumber();
+      const { dateOfSurgery, ...caseFields } = formData;
+      const { created, failedDates } = await bookCaseSeries({
+        baseCase: {
+          ...caseFields,
+          status: 'Case Booked',
+          submittedBy: currentUser.id, // Use ID for database foreign key constraint
+          country: userCountry,
+          clonedFromId: clonedFrom?.id
+        },
+        quantities,
+        rule: getRecurrenceRule(),
+        templateId: selectedTemplateId || undefined,
+        createdBy: currentUser.id
+      });
+
+      try {
+        const { auditCaseCreated } = await import('../utils/auditService');
+        for (const savedCase of created) {
+          await auditCaseCreated(
+            currentUser.name,
+            currentUser.id,
+            currentUser.role,
+            savedCase.id,
+            savedCase.caseReferenceNumber,
+            currentUser.selectedCountry,
+            savedCase.department
+          );
+        }
+      } catch (error) {
+        // Failed to log case creation audit
+      }
 
+      const booked = created
+        .map(savedCase => `${savedCase.caseReferenceNumber} (${formatDate(savedCase.dateOfSurgery)})`)
+        .join('\n');
+      const failed = failedDates.length > 0
+        ? `\n\nCould not book: ${failedDates.map(formatDate).join(', ')}`
+        : '';
+      showSuccess(`${created.length} cases booked:\n${booked}${failed}`, 'Series Booked');
+
+      resetForm();
+      await refreshCases();
+      onCaseSubmitted();
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to book the series. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitCase = async (userCountry: string) => {
+    // Using currentUser from component scope
+    if (!currentUser) {
+      return;
+    }
+
+    try {
       const newCase: CaseBooking = {
         id: '', // Will be generated by Supabase
-        caseReferenceNumber,
+        caseReferenceNumber: '', // Allocated atomically when the case is saved
         ...formData,
         status: 'Case Booked',
         submittedBy: currentUser.id, // Use ID for database foreign key constraint
         submittedAt: new Date().toISOString(),
-        country: userCountry
+        country: userCountry,
+        clonedFromId: clonedFrom?.id
       };
 
       const savedCase = await saveCase(newCase);
@@ -637,8 +921,8 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
           currentUser.name,
           currentUser.id,
           currentUser.role,
-          caseReferenceNumber, // Use the generated reference number since newCase.id is empty
-          caseReferenceNumber,
+          savedCase.id,
+          savedCase.caseReferenceNumber,
           currentUser.selectedCountry,
           newCase.department
         );
@@ -647,27 +931,9 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
       }
 
       // Enhanced email notification temporarily disabled during TypeScript cleanup
-      showSuccess('Case Submitted Successfully!', `Case ${newCase.caseReferenceNumber} has been submitted successfully.`);
-
-      setFormData({
-        hospital: '',
-        department: '',
-        dateOfSurgery: getDefaultDate(),
-        procedureType: '',
-        procedureName: '',
-        doctorName: '',
-        doctorId: '',
-        timeOfProcedure: '',
-        surgerySetSelection: [],
-        implantBox: [],
-        specialInstruction: '',
-        quantities: {}
-      });
-
-      // Reset doctor hierarchy state
-      setAvailableDoctorProcedures([]);
-      setAvailableProcedureSets([]);
+      showSuccess('Case Submitted Successfully!', `Case ${savedCase.caseReferenceNumber} has been submitted successfully.`);
 
+      resetForm();
       onCaseSubmitted();
     } catch (error: any) {
       // Error saving case
@@ -685,6 +951,74 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
 
       <div className="card-content">
         <form onSubmit={handleSubmit}>
+        {clonedFrom && (
+          <div className="booking-clone-notice">
+            <span>
+              📋 Duplicating case <strong>#{clonedFrom.caseReferenceNumber}</strong> - choose a new surgery date and review the details
+            </span>
+            <button type="button" onClick={() => setClonedFrom(null)} title="Book as an unrelated case">
+              ✕
+            </button>
+          </div>
+        )}
+
+        <div className="booking-template-bar">
+          <label htmlFor="bookingTemplate">Template</label>
+          <select
+            id="bookingTemplate"
+            value={selectedTemplateId}
+            onChange={(e) => setSelectedTemplateId(e.target.value)}
+          >
+            <option value="">{templates.length === 0 ? 'No saved templates' : 'Select a template...'}</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>
+                {template.name} - {template.doctorName} / {template.procedureType}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="btn btn-outline-secondary btn-sm"
+            onClick={applyTemplate}
+            disabled={!selectedTemplateId}
+          >
+            Apply
+          </button>
+          {newTemplateName === null ? (
+            <button
+              type="button"
+              className="btn btn-outline-secondary btn-sm"
+              onClick={() => setNewTemplateName('')}
+              disabled={!formData.doctorId || !formData.procedureType}
+              title={!formData.doctorId || !formData.procedureType ? 'Select a doctor and procedure type first' : undefined}
+            >
+              💾 Save as Template
+            </button>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={newTemplateName}
+                onChange={(e) => setNewTemplateName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSaveTemplate();
+                  }
+                }}
+                placeholder="Template name"
+                autoFocus
+              />
+              <button type="button" className="btn btn-primary btn-sm" onClick={handleSaveTemplate}>
+                Save
+              </button>
+              <button type="button" className="btn btn-outline-secondary btn-sm" onClick={() => setNewTemplateName(null)}>
+                Cancel
+              </button>
+            </>
+          )}
+        </div>
+
         <div className="form-row three-columns">
           <div className="form-group">
             <label htmlFor="hospital" className="required">Hospital</label>
@@ -932,6 +1266,101 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
           </div>
         )}
 
+        <div className="form-section-recurrence">
+          <label className="recurrence-toggle">
+            <input
+              type="checkbox"
+              checked={recurrence.enabled}
+              onChange={(e) => setRecurrence(prev => ({ ...prev, enabled: e.target.checked }))}
+            />
+            🔁 Repeat this booking
+          </label>
+
+          {recurrence.enabled && (
+            <div className="recurrence-options">
+              <div className="recurrence-type">
+                <label>
+                  <input
+                    type="radio"
+                    name="recurrenceType"
+                    checked={recurrence.type === 'weekly'}
+                    onChange={() => setRecurrence(prev => ({ ...prev, type: 'weekly' }))}
+                  />
+                  Weekly
+                </label>
+                <label>
+                  <input
+                    type="radio"
+                    name="recurrenceType"
+                    checked={recurrence.type === 'dates'}
+                    onChange={() => setRecurrence(prev => ({ ...prev, type: 'dates' }))}
+                  />
+                  Specific dates
+                </label>
+              </div>
+
+              {recurrence.type === 'weekly' ? (
+                <div className="recurrence-weekly">
+                  <label>
+                    Every
+                    <input
+                      type="number"
+                      min={1}
+                      value={recurrence.intervalWeeks}
+                      onChange={(e) => setRecurrence(prev => ({ ...prev, intervalWeeks: parseInt(e.target.value) || 1 }))}
+                    />
+                    week(s)
+                  </label>
+                  <label>
+                    for
+                    <input
+                      type="number"
+                      min={2}
+                      max={MAX_SERIES_OCCURRENCES}
+                      value={recurrence.occurrences}
+                      onChange={(e) => setRecurrence(prev => ({ ...prev, occurrences: parseInt(e.target.value) || 0 }))}
+                    />
+                    cases
+                  </label>
+                </div>
+              ) : (
+                <div className="recurrence-dates">
+                  <input
+                    type="date"
+                    min={getTodayForInput()}
+                    value=""
+                    onChange={(e) => {
+                      const date = e.target.value;
+                      if (date) {
+                        setRecurrence(prev => ({ ...prev, extraDates: [...prev.extraDates, date] }));
+                      }
+                    }}
+                  />
+                  <span className="help-text">Add the dates after the surgery date above</span>
+                </div>
+              )}
+
+              <div className="recurrence-preview">
+                <strong>{describeRecurrenceRule(getRecurrenceRule())}:</strong>
+                {generateRecurrenceDates(getRecurrenceRule()).map(date => (
+                  <span key={date} className="recurrence-date">
+                    {formatDate(date)}
+                    {recurrence.type === 'dates' && recurrence.extraDates.includes(date) && (
+                      <button
+                        type="button"
+                        onClick={() => setRecurrence(prev => ({ ...prev, extraDates: prev.extraDates.filter(d => d !== date) }))}
+                        aria-label={`Remove ${formatDate(date)}`}
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="form-group form-section-special-instructions">
           <label htmlFor="specialInstruction">Special Instructions</label>
           <textarea
@@ -951,8 +1380,8 @@ const CaseBookingForm: React.FC<CaseBookingFormProps> = ({ onCaseSubmitted, pref
             >
               🗑️ Clear Form
             </button>
-            <button type="submit" className="btn btn-primary btn-lg submit-button" data-testid="submit-case-button">
-              Submit Case Booking
+            <button type="submit" className="btn btn-primary btn-lg submit-button" data-testid="submit-case-button" disabled={isSubmitting}>
+              {isSubmitting ? 'Booking Series...' : recurrence.enabled ? 'Submit Series Booking' : 'Submit Case Booking'}
             </button>
           </div>
         </form>
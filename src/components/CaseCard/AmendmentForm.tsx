@@ -30,6 +30,15 @@ import {
   type UnifiedProcedure as DoctorProcedure,
   type ProcedureSet
 } from '../../utils/unifiedDataService';
+import {
+  checkInventoryAvailability,
+  buildRequestedQuantities,
+  formatInventoryConflicts,
+  type InventoryConflict,
+  type InventoryConflictMode
+} from '../../utils/inventoryAvailabilityService';
+import { useAmendmentAllowance } from '../../hooks/useAmendmentAllowance';
+import { describeAmendmentLimits } from '../../utils/amendmentPolicyService';
 
 const AmendmentForm: React.FC<AmendmentFormProps> = ({
   caseItem,
@@ -50,9 +59,15 @@ const AmendmentForm: React.FC<AmendmentFormProps> = ({
     specialInstruction: caseItem?.specialInstruction || '',
     surgerySetSelection: caseItem?.surgerySetSelection || [],
     implantBox: caseItem?.implantBox || [],
-    amendmentReason: ''
+    amendmentReason: '',
+    amendmentOverrideReason: '',
+    applyToSeries: false
   });
 
+  // Past the amendment window / count, only override holders may continue - with a reason
+  const { allowance: amendmentAllowance } = useAmendmentAllowance(caseItem);
+  const requiresOverride = !amendmentAllowance.allowed;
+
   // State for quantities - key is item name, value is quantity
   const [quantities, setQuantities] = useState<Record<string, number>>({});
 
@@ -63,6 +78,12 @@ const AmendmentForm: React.FC<AmendmentFormProps> = ({
   const [implantBoxOptions, setImplantBoxOptions] = useState<string[]>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoadingQuantities, setIsLoadingQuantities] = useState(false);
+
+  // Set/implant availability - in warn mode a second submit confirms the conflicts
+  const [inventoryConflicts, setInventoryConflicts] = useState<InventoryConflict[]>([]);
+  const [inventoryConflictMode, setInventoryConflictMode] = useState<InventoryConflictMode>('warn');
+  const [acknowledgedConflicts, setAcknowledgedConflicts] = useState('');
+  const [isCheckingAvailability, setIsCheckingAvailability] = useState(false);
   
   // New state for doctor hierarchy
   const [availableDoctors, setAvailableDoctors] = useState<DepartmentDoctor[]>([]);
@@ -368,20 +389,49 @@ const AmendmentForm: React.FC<AmendmentFormProps> = ({
       newErrors.amendmentReason = 'Amendment reason is required';
     }
 
+    if (requiresOverride && !formData.amendmentOverrideReason.trim()) {
+      newErrors.amendmentOverrideReason = 'A reason is required to override amendment limits';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (validateForm()) {
-      // Include quantities in the save data
-      const saveData = {
-        ...formData,
-        quantities
-      };
-      onSave(saveData);
+    if (!validateForm()) {
+      return;
     }
+
+    setIsCheckingAvailability(true);
+    try {
+      const { conflicts, settings } = await checkInventoryAvailability({
+        country: caseItem.country,
+        dateOfSurgery: formData.dateOfSurgery,
+        requested: buildRequestedQuantities(formData.surgerySetSelection, formData.implantBox, quantities),
+        excludeCaseId: caseItem.id
+      });
+
+      setInventoryConflicts(conflicts);
+      setInventoryConflictMode(settings.conflictMode);
+
+      if (conflicts.length > 0) {
+        const summary = formatInventoryConflicts(conflicts);
+        if (settings.conflictMode === 'block' || acknowledgedConflicts !== summary) {
+          setAcknowledgedConflicts(settings.conflictMode === 'block' ? '' : summary);
+          return;
+        }
+      }
+    } finally {
+      setIsCheckingAvailability(false);
+    }
+
+    // Include quantities in the save data
+    const saveData = {
+      ...formData,
+      quantities
+    };
+    onSave(saveData);
   };
 
   const handleInputChange = (field: string, value: any) => {
@@ -646,6 +696,48 @@ const AmendmentForm: React.FC<AmendmentFormProps> = ({
             {errors.amendmentReason && <span className="error-text">{errors.amendmentReason}</span>}
           </div>
 
+          {requiresOverride && (
+            <div className="form-group full-width">
+              <label className="required">Reason for Overriding Amendment Limits</label>
+              <small className="amendment-override-notice">
+                Limits exceeded: {describeAmendmentLimits(amendmentAllowance)}. This reason is recorded in the amendment history.
+              </small>
+              <textarea
+                value={formData.amendmentOverrideReason}
+                onChange={(e) => handleInputChange('amendmentOverrideReason', e.target.value)}
+                placeholder="Why must this case be amended outside the limits?"
+                rows={2}
+                className={errors.amendmentOverrideReason ? 'error' : ''}
+                required
+              />
+              {errors.amendmentOverrideReason && <span className="error-text">{errors.amendmentOverrideReason}</span>}
+            </div>
+          )}
+
+          {caseItem.seriesId && (
+            <div className="form-group full-width">
+              <label className="amendment-series-option">
+                <input
+                  type="checkbox"
+                  checked={formData.applyToSeries}
+                  onChange={(e) => handleInputChange('applyToSeries', e.target.checked)}
+                />
+                Apply to all upcoming cases in this series (each case keeps its own surgery date)
+              </label>
+            </div>
+          )}
+
+          {inventoryConflicts.length > 0 && (
+            <div className={`inventory-conflicts ${inventoryConflictMode === 'block' ? 'blocking' : ''}`}>
+              <strong>
+                {inventoryConflictMode === 'block'
+                  ? 'Not enough stock for this surgery date - change the date or quantities:'
+                  : 'Possible double booking - save again to confirm:'}
+              </strong>
+              <pre>{formatInventoryConflicts(inventoryConflicts)}</pre>
+            </div>
+          )}
+
           <div className="amendment-form-actions">
             <button
               type="button"
@@ -657,8 +749,9 @@ const AmendmentForm: React.FC<AmendmentFormProps> = ({
             <button
               type="submit"
               className="btn btn-primary"
+              disabled={isCheckingAvailability}
             >
-              Save Amendment
+              {inventoryConflicts.length > 0 && inventoryConflictMode === 'warn' ? 'Save Anyway' : 'Save Amendment'}
             </button>
           </div>
         </form>
@@ -5,9 +5,12 @@
 
 import React from 'react';
 import { StatusWorkflowProps } from './types';
-import { usePermissions } from '../../hooks';
+import { useStatusWorkflow } from '../../hooks';
 // Removed useCaseActions - now using useRealtimeCases directly
-import { CASE_STATUSES } from '../../constants';
+import { CASE_STATUSES, getStatusIcon, getStatusLabel } from '../../constants';
+import { CaseStatus } from '../../types';
+import { hasPermission } from '../../utils/permissions';
+import { getTransitionsFrom, isReinstateTransition, StatusWorkflowDefinition } from '../../utils/statusWorkflowService';
 
 const StatusWorkflow: React.FC<StatusWorkflowProps> = ({
   caseItem,
@@ -23,220 +26,41 @@ const StatusWorkflow: React.FC<StatusWorkflowProps> = ({
   onOrderDeliveredOffice,
   onToBeBilled
 }) => {
-  const permissions = usePermissions();
-  // Removed useCaseActions - now using functions passed via props
+  const workflow = useStatusWorkflow(caseItem.country);
 
   const getStatusActions = () => {
-    const actions = [];
-
-    // 🔍 DEBUG: Status Workflow Action Generation
-    console.log('🔄 STATUS WORKFLOW DEBUG - Action Generation Start:', {
-      timestamp: new Date().toISOString(),
-      caseId: caseItem.id,
-      caseRef: caseItem.caseReferenceNumber,
-      currentStatus: caseItem.status,
-      permissionsSnapshot: {
-        canProcessOrder: permissions.canProcessOrder,
-        canMarkDelivered: permissions.canMarkDelivered,
-        canSalesApproval: permissions.canSalesApproval,
-        canReceiveOrder: permissions.canReceiveOrder,
-        canDeliverToOffice: permissions.canDeliverToOffice,
-        canMarkToBilled: permissions.canMarkToBilled
-      },
-      userInfo: currentUser?.email || 'Unknown'
-    });
-
-    switch (caseItem.status) {
-      case CASE_STATUSES.CASE_BOOKED:
-        console.log('🔍 STATUS WORKFLOW DEBUG - Case Booked Handler:', {
-          status: caseItem.status,
-          canProcessOrder: permissions.canProcessOrder,
-          hasOnOrderProcessed: typeof onOrderProcessed === 'function',
-          onOrderProcessedFunction: onOrderProcessed?.toString().substring(0, 100) + '...'
-        });
-        
-        if (permissions.canProcessOrder) {
-          actions.push({
-            key: 'process',
-            label: 'Process Order',
-            action: onOrderProcessed,
-            className: 'btn btn-primary btn-sm',
-            icon: '📋'
-          });
-          
-          console.log('✅ STATUS WORKFLOW DEBUG - Added Process Order action:', {
-            actionKey: 'process',
-            actionLabel: 'Process Order',
-            hasActionFunction: typeof onOrderProcessed === 'function'
-          });
-        } else {
-          console.log('❌ STATUS WORKFLOW DEBUG - Process Order NOT ADDED:', {
-            reason: 'Missing canProcessOrder permission',
-            canProcessOrder: permissions.canProcessOrder
-          });
-        }
-        break;
-
-      case CASE_STATUSES.ORDER_PREPARATION:
-        if (permissions.canMarkDelivered) {
-          actions.push({
-            key: 'deliver',
-            label: 'Mark as Delivered to Hospital',
-            action: onOrderDelivered,
-            className: 'btn btn-warning btn-sm',
-            icon: '🚚'
-          });
-        }
-        break;
-
-      case CASE_STATUSES.ORDER_PREPARED:
-        console.log('🔍 STATUS WORKFLOW DEBUG - Order Prepared Handler:', {
-          status: caseItem.status,
-          canSalesApproval: permissions.canSalesApproval,
-          hasOnStatusChange: typeof onStatusChange === 'function',
-          onStatusChangeFunction: onStatusChange?.toString().substring(0, 100) + '...',
-          targetStatus: CASE_STATUSES.SALES_APPROVAL
-        });
-        
-        if (permissions.canSalesApproval) {
-          actions.push({
-            key: 'sales-approval',
-            label: 'Sales Approved',
-            action: () => onStatusChange?.(CASE_STATUSES.SALES_APPROVAL),
-            className: 'btn btn-success btn-sm',
-            icon: '👨‍💼'
-          });
-          
-          console.log('✅ STATUS WORKFLOW DEBUG - Added Sales Approved action:', {
-            actionKey: 'sales-approval',
-            actionLabel: 'Sales Approved',
-            targetStatus: CASE_STATUSES.SALES_APPROVAL,
-            hasStatusChangeFunction: typeof onStatusChange === 'function'
-          });
-        } else {
-          console.log('❌ STATUS WORKFLOW DEBUG - Sales Approved NOT ADDED:', {
-            reason: 'Missing canSalesApproval permission',
-            canSalesApproval: permissions.canSalesApproval
-          });
-        }
-        break;
-
-      case CASE_STATUSES.SALES_APPROVAL:
-        console.log('🔍 STATUS WORKFLOW DEBUG - Sales Approved Handler:', {
-          status: caseItem.status,
-          canMarkDelivered: permissions.canMarkDelivered,
-          hasOnOrderDelivered: typeof onOrderDelivered === 'function',
-          onOrderDeliveredFunction: onOrderDelivered?.toString().substring(0, 100) + '...'
-        });
-        
-        if (permissions.canMarkDelivered) {
-          actions.push({
-            key: 'deliver',
-            label: 'Mark as Delivered to Hospital',
-            action: onOrderDelivered,
-            className: 'btn btn-warning btn-sm',
-            icon: '🚚'
-          });
-          
-          console.log('✅ STATUS WORKFLOW DEBUG - Added Delivered Hospital action:', {
-            actionKey: 'deliver',
-            actionLabel: 'Mark as Delivered to Hospital',
-            hasActionFunction: typeof onOrderDelivered === 'function'
-          });
-        } else {
-          console.log('❌ STATUS WORKFLOW DEBUG - Delivered Hospital NOT ADDED:', {
-            reason: 'Missing canMarkDelivered permission',
-            canMarkDelivered: permissions.canMarkDelivered
-          });
-        }
-        break;
-
-      case CASE_STATUSES.DELIVERED_HOSPITAL:
-        if (permissions.canReceiveOrder) {
-          actions.push({
-            key: 'receive',
-            label: 'Mark as Received at Hospital',
-            action: onOrderReceived,
-            className: 'btn btn-info btn-sm',
-            icon: '📦'
-          });
-        }
-        break;
-
-      case CASE_STATUSES.CASE_COMPLETED:
-        if (permissions.canDeliverToOffice) {
-          actions.push({
-            key: 'office-delivery',
-            label: 'Mark as Delivered to Office',
-            action: onOrderDeliveredOffice,
-            className: 'btn btn-primary btn-sm',
-            icon: '🏢'
-          });
-        }
-        break;
-
-      case CASE_STATUSES.DELIVERED_OFFICE:
-        if (permissions.canMarkToBilled) {
-          actions.push({
-            key: 'billing',
-            label: 'Mark as To be Billed',
-            action: onToBeBilled,
-            className: 'btn btn-secondary btn-sm',
-            icon: '💰'
-          });
-        }
-        break;
-    }
-
-    // All users can mark as "To be billed" from certain statuses
-    console.log('🔍 STATUS WORKFLOW DEBUG - Global Billing Check:', {
-      canMarkToBilled: permissions.canMarkToBilled,
-      currentStatus: caseItem.status,
-      isNotToBeBilled: caseItem.status !== CASE_STATUSES.TO_BE_BILLED,
-      hasBillingAction: actions.some(a => a.key === 'billing'),
-      existingActions: actions.map(a => a.key),
-      willAddGlobalBilling: permissions.canMarkToBilled && 
-        caseItem.status !== CASE_STATUSES.TO_BE_BILLED && 
-        !actions.some(a => a.key === 'billing')
-    });
-    
-    if (
-      permissions.canMarkToBilled &&
-      caseItem.status !== CASE_STATUSES.TO_BE_BILLED &&
-      !actions.some(a => a.key === 'billing')
-    ) {
-      actions.push({
-        key: 'billing',
-        label: 'Mark as To be Billed',
-        action: onToBeBilled,
-        className: 'btn btn-outline-secondary btn-sm',
-        icon: '💰'
-      });
-      
-      console.log('✅ STATUS WORKFLOW DEBUG - Added Global Billing action:', {
-        actionKey: 'billing',
-        actionLabel: 'Mark as To be Billed',
-        className: 'btn btn-outline-secondary btn-sm',
-        hasActionFunction: typeof onToBeBilled === 'function'
+    // Transition handlers for statuses that need extra input; anything else is a plain status change
+    const transitionHandlers: Partial<Record<CaseStatus, { key: string; action: () => void; className: string; icon: string }>> = {
+      [CASE_STATUSES.ORDER_PREPARATION]: { key: 'process', action: onOrderProcessed, className: 'btn btn-primary btn-sm', icon: '📋' },
+      [CASE_STATUSES.PENDING_DELIVERY_HOSPITAL]: { key: 'deliver', action: onOrderDelivered, className: 'btn btn-warning btn-sm', icon: '🚚' },
+      [CASE_STATUSES.DELIVERED_HOSPITAL]: { key: 'receive', action: onOrderReceived, className: 'btn btn-info btn-sm', icon: '📦' },
+      [CASE_STATUSES.CASE_COMPLETED]: { key: 'complete', action: onCaseCompleted, className: 'btn btn-success btn-sm', icon: '✅' },
+      [CASE_STATUSES.DELIVERED_OFFICE]: { key: 'office-delivery', action: onOrderDeliveredOffice, className: 'btn btn-primary btn-sm', icon: '🏢' },
+      [CASE_STATUSES.TO_BE_BILLED]: { key: 'billing', action: onToBeBilled, className: 'btn btn-secondary btn-sm', icon: '💰' }
+    };
+
+    const actions = getTransitionsFrom(workflow, caseItem.status)
+      .filter(transition => transition.to !== CASE_STATUSES.CASE_CANCELLED)
+      .filter(transition => !isReinstateTransition(transition))
+      .filter(transition => hasPermission(currentUser?.role || '', transition.permission))
+      .map(transition => {
+        const handler = transitionHandlers[transition.to];
+        return {
+          key: handler?.key || transition.to,
+          label: transition.label,
+          action: handler?.action || (() => onStatusChange?.(transition.to)),
+          className: handler?.className || 'btn btn-success btn-sm',
+          icon: handler?.icon || getStatusIcon(transition.to)
+        };
       });
-    }
 
-    console.log('🔄 STATUS WORKFLOW DEBUG - Final Actions Generated:', {
+    // 🔍 DEBUG: Status Workflow Action Generation
+    console.log('🔄 STATUS WORKFLOW DEBUG - Actions Generated:', {
       caseId: caseItem.id,
       caseRef: caseItem.caseReferenceNumber,
+      country: workflow.country,
       currentStatus: caseItem.status,
-      totalActions: actions.length,
-      actionKeys: actions.map(a => a.key),
-      actionLabels: actions.map(a => a.label),
-      hasOrderProcessed: actions.some(a => a.key === 'process'),
-      hasSalesApproval: actions.some(a => a.key === 'sales-approval'),
-      salesApprovalCount: actions.filter(a => a.key === 'sales-approval').length,
-      allActions: actions.map(a => ({
-        key: a.key,
-        label: a.label,
-        className: a.className,
-        hasFunction: typeof a.action === 'function'
-      }))
+      actionKeys: actions.map(a => a.key)
     });
 
     return actions;
@@ -347,10 +171,10 @@ const StatusWorkflow: React.FC<StatusWorkflowProps> = ({
       {/* Workflow Progress Indicator */}
       <div className="workflow-progress">
         <div className="progress-track">
-          {getWorkflowSteps().map((step, index) => (
+          {getWorkflowSteps(workflow).map((step, index) => (
             <div
               key={step.status}
-              className={`progress-step ${getStepClassName(step.status, caseItem.status)}`}
+              className={`progress-step ${getStepClassName(workflow, step.status, caseItem.status)}`}
             >
               <div className="step-indicator">
                 <span className="step-icon">{step.icon}</span>
@@ -364,22 +188,15 @@ const StatusWorkflow: React.FC<StatusWorkflowProps> = ({
   );
 };
 
-// Helper function to get workflow steps
-const getWorkflowSteps = () => [
-  { status: CASE_STATUSES.CASE_BOOKED, icon: '📝', label: 'Booked' },
-  { status: CASE_STATUSES.ORDER_PREPARATION, icon: '📋', label: 'Preparing' },
-  { status: CASE_STATUSES.ORDER_PREPARED, icon: '✅', label: 'Prepared' },
-  { status: CASE_STATUSES.PENDING_DELIVERY_HOSPITAL, icon: '🚚', label: 'Pending' },
-  { status: CASE_STATUSES.DELIVERED_HOSPITAL, icon: '📦', label: 'Delivered' },
-  { status: CASE_STATUSES.CASE_COMPLETED, icon: '✅', label: 'Completed' },
-  { status: CASE_STATUSES.PENDING_DELIVERY_OFFICE, icon: '🚚', label: 'Office Pending' },
-  { status: CASE_STATUSES.DELIVERED_OFFICE, icon: '🏢', label: 'Office' },
-  { status: CASE_STATUSES.TO_BE_BILLED, icon: '💰', label: 'Billing' }
-];
+// Helper function to get workflow steps from the country's workflow definition
+const getWorkflowSteps = (workflow: StatusWorkflowDefinition) =>
+  workflow.statuses
+    .filter(status => status !== CASE_STATUSES.CASE_CLOSED)
+    .map(status => ({ status, icon: getStatusIcon(status), label: getStatusLabel(status) }));
 
 // Helper function to get step className
-const getStepClassName = (stepStatus: string, currentStatus: string) => {
-  const steps = getWorkflowSteps();
+const getStepClassName = (workflow: StatusWorkflowDefinition, stepStatus: string, currentStatus: string) => {
+  const steps = getWorkflowSteps(workflow);
   const stepIndex = steps.findIndex(s => s.status === stepStatus);
   const currentIndex = steps.findIndex(s => s.status === currentStatus);
 
@@ -388,4 +205,4 @@ const getStepClassName = (stepStatus: string, currentStatus: string) => {
   return 'pending';
 };
 
-export default React.memo(StatusWorkflow);
\ No newline at end of file
+export default React.memo(StatusWorkflow);
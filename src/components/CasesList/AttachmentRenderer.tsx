@@ -184,7 +184,7 @@ const AttachmentItem: React.FC<{
       <div className="file-attachment">
         <div className="file-icon">📄</div>
         <div className="attachment-info">
-          <div className="file-name" title={attachment.name}>{fileName}</div>
+          <a className="file-name" title={attachment.name} href={attachment.data} download={attachment.name}>{fileName}</a>
           <div className="file-size">({formatFileSize(attachment.size)})</div>
         </div>
       </div>
@@ -0,0 +1,45 @@
+/**
+ * BulkActionSummary - Per-case results of a bulk action on the cases list
+ * Rejected and failed cases are listed first with the reason, so they can be handled one by one.
+ */
+
+import React from 'react';
+import { BulkCaseSummary } from '../../utils/bulkCaseActionService';
+
+interface BulkActionSummaryProps {
+  summary: BulkCaseSummary;
+  onClose: () => void;
+}
+
+const BulkActionSummary: React.FC<BulkActionSummaryProps> = ({ summary, onClose }) => (
+  <div className="amendment-form-overlay" onClick={onClose}>
+    <div className="bulk-summary-modal" onClick={(e) => e.stopPropagation()}>
+      <div className="amendment-form-header">
+        <h3>{summary.title}</h3>
+        <button type="button" className="close-button" onClick={onClose}>✕</button>
+      </div>
+
+      <div className="bulk-summary-content">
+        <p className="bulk-summary-totals">
+          <span className="bulk-summary-succeeded">✅ {summary.succeeded} succeeded</span>
+          <span className="bulk-summary-failed">❌ {summary.failed} not done</span>
+        </p>
+
+        <ul className="bulk-summary-list">
+          {summary.outcomes.map(outcome => (
+            <li key={outcome.caseId} className={`bulk-summary-item ${outcome.success ? 'success' : 'failed'}`}>
+              <strong>{outcome.caseReferenceNumber}</strong>
+              <span>{outcome.message}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="bulk-summary-actions">
+          <button className="btn btn-primary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default BulkActionSummary;
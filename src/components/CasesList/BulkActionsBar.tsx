@@ -0,0 +1,430 @@
+/**
+ * BulkActionsBar - Actions for the cases selected in the cases list
+ * Status changes and department reassignment run case by case with the same checks as a
+ * single change; cases that cannot take the action are skipped and listed in the summary.
+ * Export and DO printing cover the whole selection.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CaseBooking, CaseStatus } from '../../types';
+import { getCurrentUserSync } from '../../utils/authCompat';
+import { hasPermission, PERMISSION_ACTIONS } from '../../utils/permissions';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { useModal } from '../../hooks/useModal';
+import CustomModal from '../CustomModal';
+import BulkActionSummary from './BulkActionSummary';
+import { amendCase } from '../../utils/realTimeStorage';
+import { auditCaseAmended, auditDataExport } from '../../utils/auditService';
+import { issueDeliveryOrder } from '../../utils/deliveryOrderService';
+import { getCaseValueEstimates } from '../../utils/priceListService';
+import { DETAILED_REPORT_HEADERS, buildDetailedReportRows, toReportCsv } from '../../utils/reportExportService';
+import { getDepartmentNamesForUser } from '../../utils/codeTable';
+import { normalizeCountry } from '../../utils/countryUtils';
+import {
+  BULK_CASE_ACTION_LABELS,
+  BulkCaseOutcome,
+  BulkCaseSummary,
+  BulkPrecheck,
+  combineDeliveryOrdersHtml,
+  getBulkStatusTargets,
+  getWorkflowsForCases,
+  precheckBulkDeliveryOrders,
+  precheckBulkDepartmentChange,
+  precheckBulkStatusChange,
+  runBulkCaseAction,
+  summarizeBulkOutcomes
+} from '../../utils/bulkCaseActionService';
+
+interface BulkActionsBarProps {
+  selectedCases: CaseBooking[];
+  pageCases: CaseBooking[];
+  onSelectPage: () => void;
+  onClearSelection: () => void;
+  // Status changes go through the cases hook so emails and history are written as for one case
+  onChangeStatus: (caseItem: CaseBooking, status: CaseStatus, details?: string) => Promise<void>;
+  onComplete: () => void;
+}
+
+const downloadCsv = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  selectedCases,
+  pageCases,
+  onSelectPage,
+  onClearSelection,
+  onChangeStatus,
+  onComplete
+}) => {
+  const currentUser = getCurrentUserSync();
+  const { addNotification } = useNotifications();
+  const { showConfirmWithCustomButtons, modal, closeModal } = useModal();
+
+  const [activeForm, setActiveForm] = useState<'status' | 'department' | null>(null);
+  const [targetStatus, setTargetStatus] = useState('');
+  const [comment, setComment] = useState('');
+  const [department, setDepartment] = useState('');
+  const [reason, setReason] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<BulkCaseSummary | null>(null);
+
+  const role = currentUser?.role || '';
+  const canChangeStatus = hasPermission(role, PERMISSION_ACTIONS.UPDATE_CASE_STATUS);
+  const canReassign = hasPermission(role, PERMISSION_ACTIONS.AMEND_CASE);
+  const canExport = hasPermission(role, PERMISSION_ACTIONS.EXPORT_DATA);
+  const isRunning = progress !== null;
+
+  const countries = useMemo(
+    () => Array.from(new Set(selectedCases.map(caseItem => normalizeCountry(caseItem.country)))).sort(),
+    [selectedCases]
+  );
+
+  const { data: workflowsByCountry = {} } = useQuery({
+    queryKey: ['bulk-status-workflows', countries],
+    queryFn: () => getWorkflowsForCases(selectedCases),
+    enabled: countries.length > 0
+  });
+
+  // Departments the user may assign cases to, per country of the selection
+  const { data: departmentsByCountry = {} } = useQuery({
+    queryKey: ['bulk-departments', countries, currentUser?.id],
+    queryFn: async () => {
+      const { getDepartmentsForCountry } = await import('../../utils/supabaseCodeTableService');
+      const departments = await Promise.all(countries.map(country => getDepartmentsForCountry(country)));
+      return countries.reduce<Record<string, string[]>>((acc, country, index) => {
+        const userDepartments = getDepartmentNamesForUser(currentUser?.departments || [], [country]);
+        acc[country] = role === 'admin' || role === 'it'
+          ? departments[index]
+          : departments[index].filter(dept => userDepartments.includes(dept));
+        return acc;
+      }, {});
+    },
+    enabled: activeForm === 'department' && countries.length > 0
+  });
+
+  const statusTargets = useMemo(
+    () => getBulkStatusTargets(selectedCases, workflowsByCountry, role),
+    [selectedCases, workflowsByCountry, role]
+  );
+  const departmentOptions = useMemo(
+    () => Array.from(new Set(Object.values(departmentsByCountry).flat())).sort(),
+    [departmentsByCountry]
+  );
+
+  const closeForm = () => {
+    setActiveForm(null);
+    setTargetStatus('');
+    setComment('');
+    setDepartment('');
+    setReason('');
+  };
+
+  // Confirm, run the eligible cases one at a time, then show the per-case summary
+  const confirmAndRun = (
+    title: string,
+    description: string,
+    precheck: BulkPrecheck,
+    action: (caseItem: CaseBooking) => Promise<string>
+  ) => {
+    if (precheck.eligible.length === 0) {
+      setSummary(summarizeBulkOutcomes(title, precheck.rejected));
+      return;
+    }
+
+    const skipped = precheck.rejected.length > 0
+      ? `\n\n${precheck.rejected.length} selected case(s) will be skipped - see the summary afterwards.`
+      : '';
+    showConfirmWithCustomButtons(title, `${description}${skipped}`, async () => {
+      setProgress({ done: 0, total: precheck.eligible.length });
+      try {
+        const outcomes: BulkCaseOutcome[] = await runBulkCaseAction(
+          precheck.eligible,
+          action,
+          (done, total) => setProgress({ done, total })
+        );
+        setSummary(summarizeBulkOutcomes(title, [...precheck.rejected, ...outcomes]));
+        closeForm();
+        onComplete();
+      } finally {
+        setProgress(null);
+      }
+    }, 'Apply');
+  };
+
+  const handleChangeStatus = () => {
+    if (!targetStatus) return;
+    const status = targetStatus as CaseStatus;
+    const details = comment.trim() ? JSON.stringify({ comments: comment.trim() }) : undefined;
+    const precheck = precheckBulkStatusChange({
+      cases: selectedCases,
+      targetStatus: status,
+      workflowsByCountry,
+      role,
+      payload: { details }
+    });
+
+    confirmAndRun(
+      `${BULK_CASE_ACTION_LABELS.status}: ${status}`,
+      `Change ${precheck.eligible.length} case(s) to "${status}"?`,
+      precheck,
+      async caseItem => {
+        await onChangeStatus(caseItem, status, details);
+        return `${caseItem.status} → ${status}`;
+      }
+    );
+  };
+
+  const handleReassignDepartment = () => {
+    if (!currentUser || !department || !reason.trim()) return;
+    const precheck = precheckBulkDepartmentChange(selectedCases, department, departmentsByCountry);
+    const amendmentReason = reason.trim();
+
+    confirmAndRun(
+      `${BULK_CASE_ACTION_LABELS.department}: ${department}`,
+      `Move ${precheck.eligible.length} case(s) to ${department}?`,
+      precheck,
+      async caseItem => {
+        const outcome = await amendCase(caseItem.id, { department }, { reason: amendmentReason });
+        if (!outcome) {
+          throw new Error('The amendment could not be saved');
+        }
+
+        // Cases past order preparation only get a change request - nothing is applied yet
+        if (outcome === 'pending-approval') {
+          addNotification({
+            title: 'Amendment Submitted',
+            message: `Moving case ${caseItem.caseReferenceNumber} to ${department} is awaiting operations approval`,
+            type: 'info'
+          }, 'case-amended', caseItem.country, caseItem.department);
+          return `Move to ${department} awaiting approval`;
+        }
+
+        addNotification({
+          title: 'Case Amended',
+          message: `Case ${caseItem.caseReferenceNumber} was moved from ${caseItem.department} to ${department} by ${currentUser.name}`,
+          type: 'success'
+        }, 'case-amended', caseItem.country, department);
+        await auditCaseAmended(
+          currentUser.name,
+          currentUser.id,
+          currentUser.role,
+          caseItem.caseReferenceNumber,
+          ['department'],
+          caseItem.country,
+          department
+        );
+        return `${caseItem.department} → ${department}`;
+      }
+    );
+  };
+
+  const handleExport = async () => {
+    if (!currentUser) return;
+    try {
+      const valueEstimates = await getCaseValueEstimates(selectedCases).catch(() => ({}));
+      const rows = buildDetailedReportRows(selectedCases, valueEstimates);
+      downloadCsv(
+        toReportCsv([DETAILED_REPORT_HEADERS, ...rows]),
+        `TM_Case_Selection_${new Date().toISOString().split('T')[0]}.csv`
+      );
+      await auditDataExport(
+        currentUser.name,
+        currentUser.id,
+        currentUser.role,
+        'Cases',
+        { caseReferenceNumbers: selectedCases.map(caseItem => caseItem.caseReferenceNumber) },
+        selectedCases.length,
+        currentUser.selectedCountry
+      );
+    } catch (error) {
+      addNotification({ title: 'Export Failed', message: 'Failed to export the selected cases.', type: 'error' });
+    }
+  };
+
+  const handlePrintDeliveryOrders = async () => {
+    if (!currentUser) return;
+    const title = BULK_CASE_ACTION_LABELS.printDeliveryOrders;
+    const precheck = precheckBulkDeliveryOrders(selectedCases);
+    if (precheck.eligible.length === 0) {
+      setSummary(summarizeBulkOutcomes(title, precheck.rejected));
+      return;
+    }
+
+    // Opened before anything is awaited so the browser does not block it
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      addNotification({ title: 'Print Blocked', message: 'Allow pop-ups for this site to print delivery orders.', type: 'warning' });
+      return;
+    }
+
+    setProgress({ done: 0, total: precheck.eligible.length });
+    try {
+      const documents: string[] = [];
+      const outcomes = await runBulkCaseAction(
+        precheck.eligible,
+        async caseItem => {
+          const deliveryOrder = await issueDeliveryOrder(caseItem, currentUser.name);
+          documents.push(deliveryOrder.html);
+          return deliveryOrder.doNumber;
+        },
+        (done, total) => setProgress({ done, total })
+      );
+
+      if (documents.length > 0) {
+        printWindow.document.write(combineDeliveryOrdersHtml(documents));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      } else {
+        printWindow.close();
+      }
+      setSummary(summarizeBulkOutcomes(title, [...precheck.rejected, ...outcomes]));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const allPageSelected = pageCases.length > 0 &&
+    pageCases.every(caseItem => selectedCases.some(selected => selected.id === caseItem.id));
+
+  return (
+    <div className="bulk-actions">
+      <div className="bulk-actions-bar">
+        <span className="bulk-actions-count">
+          {selectedCases.length > 0 ? `☑️ ${selectedCases.length} selected` : 'Select cases for bulk actions'}
+        </span>
+        <button className="btn btn-outline-secondary btn-sm" onClick={onSelectPage} disabled={allPageSelected || isRunning}>
+          Select Page
+        </button>
+        {selectedCases.length > 0 && (
+          <>
+            <button className="btn btn-outline-secondary btn-sm" onClick={onClearSelection} disabled={isRunning}>
+              Clear
+            </button>
+            <div className="bulk-actions-buttons">
+              {canChangeStatus && (
+                <button
+                  className="btn btn-outline-secondary btn-sm"
+                  onClick={() => setActiveForm(activeForm === 'status' ? null : 'status')}
+                  disabled={isRunning}
+                >
+                  🔄 {BULK_CASE_ACTION_LABELS.status}
+                </button>
+              )}
+              {canReassign && (
+                <button
+                  className="btn btn-outline-secondary btn-sm"
+                  onClick={() => setActiveForm(activeForm === 'department' ? null : 'department')}
+                  disabled={isRunning}
+                >
+                  🏥 {BULK_CASE_ACTION_LABELS.department}
+                </button>
+              )}
+              {canExport && (
+                <button className="btn btn-outline-secondary btn-sm" onClick={handleExport} disabled={isRunning}>
+                  📊 {BULK_CASE_ACTION_LABELS.export}
+                </button>
+              )}
+              <button className="btn btn-outline-secondary btn-sm" onClick={handlePrintDeliveryOrders} disabled={isRunning}>
+                🖨️ {BULK_CASE_ACTION_LABELS.printDeliveryOrders}
+              </button>
+            </div>
+          </>
+        )}
+        {progress && (
+          <span className="bulk-actions-progress">Working... {progress.done}/{progress.total}</span>
+        )}
+      </div>
+
+      {activeForm === 'status' && selectedCases.length > 0 && (
+        <div className="bulk-actions-form">
+          <label className="bulk-actions-field">
+            <span>New Status</span>
+            <select value={targetStatus} onChange={(e) => setTargetStatus(e.target.value)}>
+              <option value="">{statusTargets.length > 0 ? 'Select a status' : 'No status change available'}</option>
+              {statusTargets.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </label>
+          <label className="bulk-actions-field">
+            <span>Comments</span>
+            <input
+              type="text"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Added to each case's status history"
+            />
+          </label>
+          <div className="bulk-actions-form-buttons">
+            <button className="btn btn-primary btn-sm" onClick={handleChangeStatus} disabled={!targetStatus || isRunning}>
+              Apply
+            </button>
+            <button className="btn btn-outline-secondary btn-sm" onClick={closeForm}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {activeForm === 'department' && selectedCases.length > 0 && (
+        <div className="bulk-actions-form">
+          <label className="bulk-actions-field">
+            <span>Department</span>
+            <select value={department} onChange={(e) => setDepartment(e.target.value)}>
+              <option value="">Select a department</option>
+              {departmentOptions.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </label>
+          <label className="bulk-actions-field">
+            <span>Amendment Reason *</span>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Recorded in each case's amendment history"
+            />
+          </label>
+          <div className="bulk-actions-form-buttons">
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={handleReassignDepartment}
+              disabled={!department || !reason.trim() || isRunning}
+            >
+              Apply
+            </button>
+            <button className="btn btn-outline-secondary btn-sm" onClick={closeForm}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {summary && <BulkActionSummary summary={summary} onClose={() => setSummary(null)} />}
+
+      <CustomModal
+        isOpen={modal.isOpen}
+        title={modal.title}
+        onClose={closeModal}
+        message={modal.message}
+        actions={modal.type === 'confirm' ? [
+          { label: 'Cancel', onClick: closeModal, style: 'secondary' },
+          { label: modal.confirmLabel || 'Confirm', onClick: () => modal.onConfirm?.(), style: 'primary' }
+        ] : [
+          { label: 'OK', onClick: closeModal, style: 'primary' }
+        ]}
+      />
+    </div>
+  );
+};
+
+export default BulkActionsBar;
@@ -0,0 +1,101 @@
+/**
+ * CancelCaseModal - Reason prompt shown before a case, or every upcoming case of its
+ * recurring series, is cancelled
+ * Reasons come from the country's Cancellation Reasons code table
+ */
+
+import React, { useState, useEffect } from 'react';
+import { CaseBooking } from '../../types';
+import { getCancellationReasons, OTHER_CANCELLATION_REASON } from '../../utils/caseCancellationService';
+
+interface CancelCaseModalProps {
+  caseItem: CaseBooking;
+  series?: boolean; // Cancel the upcoming cases of caseItem's series with this reason
+  onClose: () => void;
+  onConfirm: (reason: string, note: string) => Promise<void>;
+}
+
+const CancelCaseModal: React.FC<CancelCaseModalProps> = ({ caseItem, series = false, onClose, onConfirm }) => {
+  const [reasons, setReasons] = useState<string[]>([]);
+  const [reason, setReason] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCancellationReasons(caseItem.country)
+      .then(loaded => !cancelled && setReasons(loaded))
+      .catch(error => console.error('Failed to load cancellation reasons:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [caseItem.country]);
+
+  const needsNote = reason === OTHER_CANCELLATION_REASON;
+
+  const handleConfirm = async () => {
+    if (!reason || (needsNote && !note.trim())) return;
+
+    setIsSaving(true);
+    try {
+      await onConfirm(reason, note);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="amendment-form-overlay" onClick={onClose}>
+      <div className="cancel-case-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="amendment-form-header">
+          <h3>{series ? 'Cancel Series' : 'Cancel Case'}: {caseItem.caseReferenceNumber}</h3>
+          <button type="button" className="close-button" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="cancel-case-content">
+          <p className="cancel-case-summary">
+            {series
+              ? 'Every upcoming case in this series is cancelled with this reason. Cases already delivered or completed are not affected.'
+              : `${caseItem.procedureType} at ${caseItem.hospital} - the case data is kept and can be reinstated later.`}
+          </p>
+
+          <label htmlFor="cancel-case-reason">Cancellation Reason *</label>
+          <select
+            id="cancel-case-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            autoFocus
+          >
+            <option value="">Select a reason</option>
+            {reasons.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+
+          <label htmlFor="cancel-case-note">Note {needsNote && '*'}</label>
+          <textarea
+            id="cancel-case-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={needsNote ? `Describe why the ${series ? 'series' : 'case'} is cancelled` : 'Optional details for the case history'}
+            rows={3}
+          />
+
+          <div className="cancel-case-actions">
+            <button className="btn btn-outline-secondary" onClick={onClose} disabled={isSaving}>{series ? 'Keep Series' : 'Keep Case'}</button>
+            <button
+              className="btn btn-danger"
+              onClick={handleConfirm}
+              disabled={isSaving || !reason || (needsNote && !note.trim())}
+            >
+              {isSaving ? 'Cancelling...' : series ? 'Cancel Series' : 'Cancel Case'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelCaseModal;
@@ -2,6 +2,19 @@ import React from 'react';
 import { CaseActionsProps } from './types';
 import { hasPermission, PERMISSION_ACTIONS } from '../../utils/permissions';
 import Tooltip from '../Tooltip';
+import { CaseStatus } from '../../types';
+import { useStatusWorkflow } from '../../hooks/useStatusWorkflow';
+import { getTransitionsFrom, findStatusTransition } from '../../utils/statusWorkflowService';
+import { getReinstateStatus } from '../../utils/caseCancellationService';
+import { useAmendmentAllowance } from '../../hooks/useAmendmentAllowance';
+import { formatAmendmentWindow, describeAmendmentLimits } from '../../utils/amendmentPolicyService';
+
+interface TransitionButton {
+  className: string;
+  tooltip: string;
+  deniedTooltip: string;
+  onClick: () => void;
+}
 
 const CaseActions: React.FC<CaseActionsProps> = ({
   caseItem,
@@ -20,198 +33,166 @@ const CaseActions: React.FC<CaseActionsProps> = ({
   onOrderDeliveredOffice,
   onToBeBilled,
   onCancelCase,
+  onCancelSeries,
+  onReinstateCase,
+  onDuplicateCase,
   canAmendCase
 }) => {
+  const workflow = useStatusWorkflow(caseItem.country);
+  const userRole = currentUser?.role || '';
+  const { allowance: amendmentAllowance, canOverride: canOverrideAmendmentLimits } = useAmendmentAllowance(caseItem);
+  const canAmendWithinLimits = amendmentAllowance.allowed || canOverrideAmendmentLimits;
+
+  const transitions = getTransitionsFrom(workflow, caseItem.status);
+  const forwardTransitions = transitions.filter(t => t.to !== 'Case Cancelled');
+  const cancelTransition = transitions.find(t => t.to === 'Case Cancelled');
+  const reinstateStatus = getReinstateStatus(caseItem);
+  const reinstateTransition = reinstateStatus ? findStatusTransition(workflow, caseItem.status, reinstateStatus) : undefined;
+
+  // Presentation and handler for each known target status - unknown targets fall back to a plain status change
+  const transitionButtons: Partial<Record<CaseStatus, TransitionButton>> = {
+    'Loaner Received': {
+      className: 'loaner-received-button',
+      tooltip: 'Mark Loaner Sets as Received',
+      deniedTooltip: 'You do not have permission to mark loaner sets as received',
+      onClick: () => onStatusChange(caseItem.id, 'Loaner Received')
+    },
+    'Preparing Order': {
+      className: 'process-order-button',
+      tooltip: 'Process Order',
+      deniedTooltip: 'You do not have permission to process orders',
+      onClick: () => onOrderProcessed(caseItem.id)
+    },
+    'Order Prepared': {
+      className: 'process-button',
+      tooltip: 'Mark as Order Prepared',
+      deniedTooltip: 'You do not have permission to mark orders as prepared',
+      onClick: () => onMarkOrderProcessed(caseItem.id)
+    },
+    'Sales Approved': {
+      className: 'sales-approval-button',
+      tooltip: 'Submit for Sales Approved',
+      deniedTooltip: 'You do not have permission to approve sales',
+      onClick: () => onSalesApproval(caseItem.id)
+    },
+    'Pending Delivery (Hospital)': {
+      className: 'deliver-button',
+      tooltip: 'Mark as Pending Delivery to Hospital',
+      deniedTooltip: 'You do not have permission to mark pending delivery to hospital',
+      onClick: () => onOrderDelivered(caseItem.id)
+    },
+    'Delivered (Hospital)': {
+      className: 'received-button',
+      tooltip: 'Mark as Delivered to Hospital',
+      deniedTooltip: 'You do not have permission to mark as delivered to hospital',
+      onClick: () => onOrderReceived(caseItem.id)
+    },
+    'Case Completed': {
+      className: 'complete-button',
+      tooltip: 'Mark as Case Completed',
+      deniedTooltip: 'You do not have permission to mark cases as completed',
+      onClick: () => onCaseCompleted(caseItem.id)
+    },
+    'Pending Delivery (Office)': {
+      className: 'pending-office-button',
+      tooltip: 'Mark as Pending Delivery to Office',
+      deniedTooltip: 'You do not have permission to mark as pending delivery to office',
+      onClick: () => onPendingDeliveryOffice(caseItem.id)
+    },
+    'Delivered (Office)': {
+      className: 'office-deliver-button',
+      tooltip: 'Mark as Delivered to Office',
+      deniedTooltip: 'You do not have permission to mark as delivered to office',
+      onClick: () => onOfficeDelivery(caseItem.id)
+    },
+    'To be billed': {
+      className: 'billing-button',
+      tooltip: 'Mark as To be Billed',
+      deniedTooltip: 'You do not have permission to mark as to be billed',
+      onClick: () => onToBeBilled(caseItem.id)
+    },
+    'Case Closed': {
+      className: 'case-closed-button',
+      tooltip: 'Mark as Case Closed',
+      deniedTooltip: 'You do not have permission to mark as case closed',
+      onClick: () => onStatusChange(caseItem.id, 'Case Closed')
+    }
+  };
+
   return (
     <div className="case-actions">
-      {/* Status transition buttons - hide for cancelled cases */}
+      {/* Status transition buttons - driven by the case country's workflow, hidden for cancelled cases */}
       {caseItem.status !== 'Case Cancelled' && (
       <div className="case-buttons">
-        {caseItem.status === 'Case Booked' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PROCESS_ORDER) ? 'Process Order' : 'You do not have permission to process orders'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PROCESS_ORDER)}
-          >
-            <button
-              onClick={() => onOrderProcessed(caseItem.id)}
-              className={`case-action-button process-order-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PROCESS_ORDER)
-                  ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PROCESS_ORDER)}
-            >
-              Process Order
-            </button>
-          </Tooltip>
-        )}
-
-        {caseItem.status === 'Preparing Order' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.ORDER_PROCESSED) ? 'Mark as Order Prepared' : 'You do not have permission to mark orders as prepared'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.ORDER_PROCESSED)}
-          >
-            <button
-              onClick={() => onMarkOrderProcessed(caseItem.id)}
-              className={`case-action-button process-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.ORDER_PROCESSED)
-                  ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.ORDER_PROCESSED)}
-            >
-              Order Prepared
-            </button>
-          </Tooltip>
-        )}
-
-        {caseItem.status === 'Order Prepared' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.SALES_APPROVAL) ? 'Submit for Sales Approved' : 'You do not have permission to approve sales'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.SALES_APPROVAL)}
-          >
-            <button
-              onClick={() => onSalesApproval(caseItem.id)}
-              className={`case-action-button sales-approval-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.SALES_APPROVAL) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.SALES_APPROVAL)}
-            >
-              Sales Approved
-            </button>
-          </Tooltip>
-        )}
+        {forwardTransitions.map(transition => {
+          const button = transitionButtons[transition.to] || {
+            className: 'status-transition-button',
+            tooltip: transition.label,
+            deniedTooltip: `You do not have permission to move cases to ${transition.to}`,
+            onClick: () => onStatusChange(caseItem.id, transition.to)
+          };
+          const allowed = hasPermission(userRole, transition.permission);
 
-        {caseItem.status === 'Sales Approved' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL) ? 'Mark as Pending Delivery to Hospital' : 'You do not have permission to mark pending delivery to hospital'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL)}
-          >
-            <button
-              onClick={() => onOrderDelivered(caseItem.id)}
-              className={`case-action-button deliver-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL)}
+          return (
+            <Tooltip
+              key={`${transition.from}-${transition.to}`}
+              content={allowed ? button.tooltip : button.deniedTooltip}
+              disabled={!allowed}
             >
-              Pending Delivery (Hospital)
-            </button>
-          </Tooltip>
-        )}
-
-        {caseItem.status === 'Pending Delivery (Hospital)' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_HOSPITAL) ? 'Mark as Delivered to Hospital' : 'You do not have permission to mark as delivered to hospital'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_HOSPITAL)}
-          >
-            <button
-              onClick={() => onOrderReceived(caseItem.id)}
-              className={`case-action-button received-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_HOSPITAL) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_HOSPITAL)}
-            >
-              Delivered (Hospital)
-            </button>
-          </Tooltip>
-        )}
-
-        {caseItem.status === 'Delivered (Hospital)' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_COMPLETED) ? 'Mark as Case Completed' : 'You do not have permission to mark cases as completed'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_COMPLETED)}
-          >
-            <button
-              onClick={() => onCaseCompleted(caseItem.id)}
-              className={`case-action-button complete-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_COMPLETED) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_COMPLETED)}
-            >
-              Mark as Case Completed
-            </button>
-          </Tooltip>
-        )}
-
-        {caseItem.status === 'Case Completed' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_OFFICE) ? 'Mark as Pending Delivery to Office' : 'You do not have permission to mark as pending delivery to office'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_OFFICE)}
-          >
-            <button
-              onClick={() => onPendingDeliveryOffice(caseItem.id)}
-              className={`case-action-button pending-office-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_OFFICE) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.PENDING_DELIVERY_OFFICE)}
-            >
-              Pending Delivery (Office)
-            </button>
-          </Tooltip>
-        )}
-
-        {caseItem.status === 'Pending Delivery (Office)' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_OFFICE) ? 'Mark as Delivered to Office' : 'You do not have permission to mark as delivered to office'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_OFFICE)}
-          >
-            <button
-              onClick={() => onOfficeDelivery(caseItem.id)}
-              className={`case-action-button office-deliver-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_OFFICE) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.DELIVERED_OFFICE)}
-            >
-              Delivered (Office)
-            </button>
-          </Tooltip>
-        )}
-
-        {caseItem.status === 'Delivered (Office)' && (
-          <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.TO_BE_BILLED) ? 'Mark as To be Billed' : 'You do not have permission to mark as to be billed'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.TO_BE_BILLED)}
-          >
-            <button
-              onClick={() => onToBeBilled(caseItem.id)}
-              className={`case-action-button billing-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.TO_BE_BILLED) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.TO_BE_BILLED)}
-            >
-              Mark as To be Billed
-            </button>
-          </Tooltip>
-        )}
+              <button
+                onClick={button.onClick}
+                className={`case-action-button ${button.className} ${!allowed ? 'disabled' : ''}`}
+                disabled={!allowed}
+              >
+                {transition.label}
+              </button>
+            </Tooltip>
+          );
+        })}
+      </div>
+      )}
 
-        {caseItem.status === 'To be billed' && (
+      {canAmendCase(caseItem) && caseItem.status !== 'Case Cancelled' && (
+        <>
           <Tooltip
-            content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_CLOSED) ? 'Mark as Case Closed' : 'You do not have permission to mark as case closed'}
-            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_CLOSED)}
+            content={
+              !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.AMEND_CASE)
+                ? 'You do not have permission to amend cases'
+                : amendmentAllowance.allowed
+                  ? 'Amend Case'
+                  : canOverrideAmendmentLimits
+                    ? `Override required: ${describeAmendmentLimits(amendmentAllowance)}`
+                    : `Cannot amend: ${describeAmendmentLimits(amendmentAllowance)}`
+            }
+            disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.AMEND_CASE) || !amendmentAllowance.allowed}
           >
             <button
-              onClick={() => onStatusChange(caseItem.id, 'Case Closed')}
-              className={`case-action-button case-closed-button ${
-                !hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_CLOSED) ? 'disabled' : ''
-              }`}
-              disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CASE_CLOSED)}
+              onClick={() => {onAmendCase(caseItem);
+              }}
+              className={`case-action-button amend-button ${!canAmendWithinLimits ? 'disabled' : ''}`}
+              disabled={!canAmendWithinLimits}
             >
-              Mark as Case Closed
+              {amendmentAllowance.allowed ? 'Amend Case' : canOverrideAmendmentLimits ? 'Amend Case (Override)' : 'Amendment Closed'}
             </button>
           </Tooltip>
-        )}
-      </div>
+          <span className={`amendment-allowance ${amendmentAllowance.allowed ? '' : 'expired'}`}>
+            {amendmentAllowance.withinTimeLimit
+              ? `${formatAmendmentWindow(amendmentAllowance.remainingMinutes)} left`
+              : 'Window closed'}
+            {' · '}
+            {amendmentAllowance.remainingAmendments}/{amendmentAllowance.maxAmendments} amendments left
+          </span>
+        </>
       )}
 
-      {canAmendCase(caseItem) && caseItem.status !== 'Case Cancelled' && (
-        <Tooltip
-          content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.AMEND_CASE) ? 'Amend Case' : 'You do not have permission to amend cases'}
-          disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.AMEND_CASE)}
-        >
+      {/* Duplicate Case - opens the booking form prefilled from this case */}
+      {onDuplicateCase && hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CREATE_CASE) && (
+        <Tooltip content="Book a new case with the same hospital, doctor, procedure, sets and quantities">
           <button
-            onClick={() => {onAmendCase(caseItem);
-            }}
-            className="case-action-button amend-button"
+            onClick={() => onDuplicateCase(caseItem)}
+            className="case-action-button duplicate-button"
           >
-            Amend Case
+            📋 Duplicate Case
           </button>
         </Tooltip>
       )}
@@ -233,8 +214,8 @@ const CaseActions: React.FC<CaseActionsProps> = ({
         </Tooltip>
       )}
 
-      {/* Cancel Case button - only show for specific statuses */}
-      {(['Case Booked', 'Preparing Order', 'Order Prepared', 'Sales Approved', 'Pending Delivery (Hospital)', 'Delivered (Hospital)'].includes(caseItem.status)) && hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CANCEL_CASE) && (
+      {/* Cancel Case button - only show where the workflow allows cancellation */}
+      {cancelTransition && hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CANCEL_CASE) && (
         <Tooltip
           content={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CANCEL_CASE) ? 'Cancel this case - will mark as cancelled (case data preserved)' : 'You do not have permission to cancel cases'}
           disabled={!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CANCEL_CASE)}
@@ -251,6 +232,30 @@ const CaseActions: React.FC<CaseActionsProps> = ({
         </Tooltip>
       )}
 
+      {/* Cancel Series button - cancels every upcoming case booked from the same recurrence */}
+      {caseItem.seriesId && onCancelSeries && cancelTransition && hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.CANCEL_CASE) && (
+        <Tooltip content="Cancel this case and all upcoming cases in its recurring series">
+          <button
+            onClick={() => onCancelSeries(caseItem)}
+            className="case-action-button cancel-button warning-action"
+          >
+            🔁 Cancel Series
+          </button>
+        </Tooltip>
+      )}
+
+      {/* Reinstate button - returns a cancelled case to the status it was cancelled from */}
+      {reinstateTransition && onReinstateCase && hasPermission(currentUser?.role || '', reinstateTransition.permission) && (
+        <Tooltip content={`Reinstate this case to ${reinstateTransition.to}`}>
+          <button
+            onClick={() => onReinstateCase(caseItem)}
+            className="case-action-button reinstate-button"
+          >
+            ↩️ Reinstate Case
+          </button>
+        </Tooltip>
+      )}
+
       {/* Delete button for cancelled cases (Admin/IT only) */}
       {caseItem.status === 'Case Cancelled' && (
         <Tooltip
@@ -25,6 +25,7 @@ import { supabase } from '../../lib/supabase';
 import { StatusAttachmentManager } from './StatusAttachmentManager';
 import { AttachmentRenderer, parseAttachments, type ParsedAttachment } from './AttachmentRenderer';
 import { EditableAttachmentRenderer } from './EditableAttachmentRenderer';
+import { PendingAmendmentRequests } from './PendingAmendmentRequests';
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
@@ -35,9 +36,21 @@ import {
   getDbField
 } from '../../utils/fieldMappings';
 import { getCaseQuantities } from '../../utils/unifiedDataService';
+import { parseProofOfDelivery, validateProofOfDelivery } from '../../utils/proofOfDeliveryService';
+import ProofOfDeliveryCapture from '../ProofOfDeliveryCapture';
+import ProofOfDeliveryDocument from '../ProofOfDeliveryDocument';
+import { getCaseCancellation } from '../../utils/caseCancellationService';
+import { formatSlaRemaining } from '../../utils/caseSlaService';
 
 const CaseCard: React.FC<CaseCardProps> = ({
   caseItem,
+  clonedFromCase,
+  clones = [],
+  onOpenCase,
+  slas = [],
+  slaNow,
+  isSelected = false,
+  onToggleSelect,
   currentUser,
   expandedCases,
   expandedStatusHistory,
@@ -60,6 +73,7 @@ const CaseCard: React.FC<CaseCardProps> = ({
   receivedCase,
   receivedDetails,
   receivedImage,
+  receivedProof,
   completedCase,
   attachments,
   orderSummary,
@@ -103,6 +117,9 @@ const CaseCard: React.FC<CaseCardProps> = ({
   onToBeBilled,
   onDeleteCase,
   onCancelCase,
+  onCancelSeries,
+  onReinstateCase,
+  onDuplicateCase,
   onAttachmentUpload,
   onRemoveAttachment,
   onAmendmentDataChange,
@@ -119,6 +136,7 @@ const CaseCard: React.FC<CaseCardProps> = ({
   onHospitalDeliveryCommentsChange,
   onReceivedDetailsChange,
   onReceivedImageChange,
+  onReceivedProofChange,
   onOrderSummaryChange,
   onDoNumberChange,
   onPendingOfficeAttachmentsChange,
@@ -158,6 +176,7 @@ const CaseCard: React.FC<CaseCardProps> = ({
 
   // State for case quantities
   const [caseQuantities, setCaseQuantities] = useState<Record<string, number>>({});
+  const [showProofOfDelivery, setShowProofOfDelivery] = useState(false);
 
   // Load case quantities when case changes
   useEffect(() => {
@@ -342,6 +361,13 @@ const CaseCard: React.FC<CaseCardProps> = ({
     }) || [];
   }, [caseItem.statusHistory]);
 
+  // Reason recorded on the latest cancellation - only shown while the case is cancelled
+  const cancellation = useMemo(
+    () => (caseItem.status === 'Case Cancelled' ? getCaseCancellation(caseItem) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [caseItem.status, caseItem.statusHistory]
+  );
+
   // Find the most recent attachments for statuses without active forms
   const currentAttachments = useMemo(() => {
     // Only show for specific statuses that don't have their own forms
@@ -437,10 +463,25 @@ const CaseCard: React.FC<CaseCardProps> = ({
     return null;
   };
 
+  // Open the printable proof of delivery from a hospital delivery history entry
+  const renderProofOfDeliveryButton = (historyItem: { status: string; details?: string }) => {
+    const pod = historyItem.status === 'Delivered (Hospital)' ? parseProofOfDelivery(historyItem.details) : null;
+    if (!pod) return null;
+
+    return (
+      <button
+        className="btn btn-outline-secondary btn-sm pod-view-button"
+        onClick={() => setShowProofOfDelivery(true)}
+      >
+        📄 Proof of Delivery ({pod.receiverName})
+      </button>
+    );
+  };
+
   return (
     <div
       id={`case-${caseItem.id}`}
-      className="case-card"
+      className={`case-card ${isSelected ? 'selected' : ''}`}
       data-case-id={caseItem.id}
       data-testid={`case-card-${caseItem.caseReferenceNumber}`}
       style={{ '--status-color': getStatusColor(caseItem.status) } as React.CSSProperties}
@@ -448,9 +489,31 @@ const CaseCard: React.FC<CaseCardProps> = ({
       <div className="case-summary" onClick={() => onToggleExpansion(caseItem.id)}>
         <div className="case-main-info">
           <div className="case-title">
+            {onToggleSelect && (
+              <input
+                type="checkbox"
+                className="case-select-checkbox"
+                checked={isSelected}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => onToggleSelect(caseItem)}
+                aria-label={`Select case ${caseItem.caseReferenceNumber}`}
+              />
+            )}
             <span className="case-title-label">Submitted by:</span>
             <strong>{getUserName(caseItem.submittedBy)}</strong>
             <span className="case-reference" data-testid="case-reference">#{caseItem.caseReferenceNumber}</span>
+            {caseItem.seriesId && (
+              <span className="case-series-badge" title="Booked as part of a recurring series">🔁 Series</span>
+            )}
+            {slas.filter(sla => sla.state !== 'on_track').map(sla => (
+              <span
+                key={sla.ruleId}
+                className={`case-sla-badge ${sla.state}`}
+                title={`${sla.ruleName}: reach ${sla.targetStatus} by ${formatDateTime(sla.dueAt)}`}
+              >
+                ⏰ {formatSlaRemaining(sla, slaNow || new Date())}
+              </span>
+            ))}
             <div className="case-status">
               <div
                 className="status-text"
@@ -539,6 +602,38 @@ const CaseCard: React.FC<CaseCardProps> = ({
                 })}
               </ul>
             </div>
+            {caseItem.clonedFromId && (
+              <div className="detail-item">
+                <span className="detail-label">Duplicated From: </span>
+                <span className="detail-value">
+                  {clonedFromCase ? (
+                    <button type="button" className="case-link" onClick={() => onOpenCase?.(clonedFromCase.id)}>
+                      #{clonedFromCase.caseReferenceNumber}
+                    </button>
+                  ) : 'Case no longer available'}
+                </span>
+              </div>
+            )}
+            {clones.length > 0 && (
+              <div className="detail-item">
+                <span className="detail-label">Duplicated As: </span>
+                <span className="detail-value case-links">
+                  {clones.map(clone => (
+                    <button key={clone.id} type="button" className="case-link" onClick={() => onOpenCase?.(clone.id)}>
+                      #{clone.caseReferenceNumber} ({formatDate(clone.dateOfSurgery)})
+                    </button>
+                  ))}
+                </span>
+              </div>
+            )}
+            {cancellation && (
+              <div className="detail-item full-width">
+                <span className="detail-label">Cancellation Reason: </span>
+                <span className="detail-value">
+                  {cancellation.reason}{cancellation.note && ` - ${cancellation.note}`}
+                </span>
+              </div>
+            )}
             {caseItem.specialInstruction && (
               <div className="detail-item full-width">
                 <span className="detail-label">Special Instructions: </span>
@@ -583,7 +678,9 @@ const CaseCard: React.FC<CaseCardProps> = ({
             )}
             
             {/* Removed duplicate status attachments section as they're already included in case attachments */}
-            
+
+            <PendingAmendmentRequests caseId={caseItem.id} />
+
             {caseItem.amendmentHistory && caseItem.amendmentHistory.length > 0 && (
               <div className="detail-item full-width amendment-history">
                 <div className="amendment-header-container">
@@ -809,6 +906,7 @@ const CaseCard: React.FC<CaseCardProps> = ({
                                 })()}
                               </div>
                             )}
+                            {renderProofOfDeliveryButton(historyItem)}
                             <StatusAttachmentManager
                               historyItem={{
                                 id: historyItem.id, // Use real database ID, not fake composite ID
@@ -950,6 +1048,7 @@ const CaseCard: React.FC<CaseCardProps> = ({
                                 })()}
                               </div>
                             )}
+                            {renderProofOfDeliveryButton(historyItem)}
                           </div>
                         </div>
                       ))
@@ -1358,6 +1457,11 @@ const CaseCard: React.FC<CaseCardProps> = ({
                   />
                 )}
               </div>
+              <small className="form-hint">
+                {caseItem.doNumber
+                  ? `Delivery order ${caseItem.doNumber} will be re-issued and attached.`
+                  : 'A numbered delivery order will be generated and attached.'}
+              </small>
               <div className="sales-approval-actions">
                 <button
                   onClick={() => onSaveHospitalDelivery(caseItem.id)}
@@ -1389,6 +1493,7 @@ const CaseCard: React.FC<CaseCardProps> = ({
                   className="received-details-input"
                 />
               </div>
+              <ProofOfDeliveryCapture value={receivedProof} onChange={onReceivedProofChange} />
               <div className="form-group">
                 <label>Delivery Image (Optional):</label>
                 <input
@@ -1414,7 +1519,7 @@ const CaseCard: React.FC<CaseCardProps> = ({
                 <button
                   onClick={() => onSaveOrderReceived(caseItem.id)}
                   className="btn btn-primary btn-md primary-button"
-                  disabled={!receivedDetails.trim()}
+                  disabled={!receivedDetails.trim() || validateProofOfDelivery(receivedProof).length > 0}
                 >
                   Confirm Received
                 </button>
@@ -1657,10 +1762,17 @@ const CaseCard: React.FC<CaseCardProps> = ({
             onOrderDeliveredOffice={onOrderDeliveredOffice}
             onToBeBilled={onToBeBilled}
             onCancelCase={onCancelCase}
+            onCancelSeries={onCancelSeries}
+            onReinstateCase={onReinstateCase}
+            onDuplicateCase={onDuplicateCase}
             canAmendCase={canAmendCase}
           />
         </div>
       )}
+
+      {showProofOfDelivery && (
+        <ProofOfDeliveryDocument caseItem={caseItem} onClose={() => setShowProofOfDelivery(false)} />
+      )}
     </div>
   );
 };
@@ -4,6 +4,9 @@ import FilterDatePicker from '../FilterDatePicker';
 import { statusOptions } from './utils';
 import { getCurrentUserSync } from '../../utils/auth';
 import SearchableDropdown from '../SearchableDropdown';
+import SavedViews from './SavedViews';
+import { CaseSortOrder } from '../../utils/caseQueryService';
+import { CaseView } from '../../utils/caseViewService';
 
 interface CasesFilterProps {
   filters: FilterOptions;
@@ -18,6 +21,11 @@ interface CasesFilterProps {
   onClearFilters: () => void;
   onToggleFilters: () => void;
   onQuickFilter: (filterKey: string, filterValue: string) => void;
+  sortOrder: CaseSortOrder;
+  expandCases: boolean;
+  onApplyView: (view: CaseView) => void;
+  onSortChange: (sortOrder: CaseSortOrder) => void;
+  onExpandCasesChange: (expandCases: boolean) => void;
 }
 
 const CasesFilter: React.FC<CasesFilterProps> = ({
@@ -32,7 +40,12 @@ const CasesFilter: React.FC<CasesFilterProps> = ({
   onApplyFilters,
   onClearFilters,
   onToggleFilters,
-  onQuickFilter
+  onQuickFilter,
+  sortOrder,
+  expandCases,
+  onApplyView,
+  onSortChange,
+  onExpandCasesChange
 }) => {
   const currentUser = getCurrentUserSync();
   // const [availableCountries, setAvailableCountries] = useState<string[]>([]); // Unused
@@ -58,6 +71,15 @@ const CasesFilter: React.FC<CasesFilterProps> = ({
         </button>
       </div>
 
+      <SavedViews
+        filters={filters}
+        sortOrder={sortOrder}
+        expandCases={expandCases}
+        onApplyView={onApplyView}
+        onSortChange={onSortChange}
+        onExpandCasesChange={onExpandCasesChange}
+      />
+
       {showFilters && (
         <div className="filters-content">
           <div className="filters-grid">
@@ -256,6 +278,12 @@ const CasesFilter: React.FC<CasesFilterProps> = ({
             >
               📅 Today
             </button>
+            <button
+              onClick={() => onQuickFilter('sla', 'breaching')}
+              className={`btn btn-sm quick-filter-button ${filters.sla === 'breaching' ? 'btn-danger' : 'btn-outline-danger'}`}
+            >
+              ⏰ Breaching SLA
+            </button>
           </div>
         </div>
       )}
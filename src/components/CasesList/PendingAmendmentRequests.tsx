@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useAmendmentRequests } from '../../hooks/useAmendmentRequests';
+import { formatDateTime } from './utils';
+
+interface PendingAmendmentRequestsProps {
+  caseId: string;
+}
+
+/**
+ * Amendments held for approval on a case - reviewers can approve (applies the change)
+ * or reject (case unchanged, reason required)
+ */
+export const PendingAmendmentRequests: React.FC<PendingAmendmentRequestsProps> = ({ caseId }) => {
+  const { pendingRequests, canReview, isReviewing, approveRequest, rejectRequest } = useAmendmentRequests(caseId);
+  const [rejectingRequestId, setRejectingRequestId] = useState<string | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+
+  if (pendingRequests.length === 0) {
+    return null;
+  }
+
+  const resetReview = () => {
+    setRejectingRequestId(null);
+    setReviewComment('');
+  };
+
+  const handleApprove = async (requestId: string) => {
+    try {
+      await approveRequest(requestId, reviewComment);
+      resetReview();
+    } catch (error) {
+      // Failure is reported by the hook's notification
+    }
+  };
+
+  const handleReject = async (requestId: string) => {
+    if (!reviewComment.trim()) {
+      return;
+    }
+    try {
+      await rejectRequest(requestId, reviewComment);
+      resetReview();
+    } catch (error) {
+      // Failure is reported by the hook's notification
+    }
+  };
+
+  return (
+    <div className="detail-item full-width pending-amendment-requests">
+      {pendingRequests.map(request => (
+        <div key={request.id} className="pending-amendment-request">
+          <div className="amendment-header">
+            <span className="pending-amendment-badge">AMENDMENT PENDING APPROVAL</span>
+            <div className="amendment-meta">
+              <span>By: {request.requestedBy}</span>
+              <span>At: {formatDateTime(request.requestedAt)}</span>
+            </div>
+          </div>
+
+          {request.reason && (
+            <div className="amendment-reason">
+              <strong>Reason:</strong> {request.reason}
+            </div>
+          )}
+
+          <div className="amendment-changes">
+            <strong>Requested changes:</strong>
+            <div className="changes-grid">
+              {request.changes.map((change, changeIndex) => (
+                <div key={changeIndex} className="change-item change-modification">
+                  <span className="change-field">{change.field}: </span>
+                  {change.oldValue && <span className="change-from">{change.oldValue} </span>}
+                  {change.oldValue && <span className="change-arrow"> → </span>}
+                  <span className="change-to">{change.newValue}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {canReview ? (
+            <div className="pending-amendment-actions">
+              <textarea
+                value={rejectingRequestId === request.id ? reviewComment : ''}
+                onFocus={() => setRejectingRequestId(request.id)}
+                onChange={(e) => {
+                  setRejectingRequestId(request.id);
+                  setReviewComment(e.target.value);
+                }}
+                placeholder="Review comment (required to reject)"
+                rows={2}
+                disabled={isReviewing}
+              />
+              <div className="pending-amendment-buttons">
+                <button
+                  type="button"
+                  className="btn btn-success btn-sm"
+                  onClick={() => handleApprove(request.id)}
+                  disabled={isReviewing}
+                >
+                  Approve &amp; Apply
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-danger btn-sm"
+                  onClick={() => handleReject(request.id)}
+                  disabled={isReviewing || rejectingRequestId !== request.id || !reviewComment.trim()}
+                  title="Enter a review comment to reject"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="pending-amendment-note">
+              Awaiting review by operations. The case will only change once the amendment is approved.
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+/**
+ * SavedViews - Named filter, sort and expand settings for the cases list
+ * Picking a view applies it; the user's default view (or their role's) is applied on load.
+ * Admins can publish views to roles and make one the landing view for those roles.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { FilterOptions } from '../../types';
+import { getCurrentUserSync } from '../../utils/authCompat';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { useModal } from '../../hooks/useModal';
+import CustomModal from '../CustomModal';
+import { getAllRoles } from '../../data/permissionMatrixData';
+import { CASE_SORT_OPTIONS, CaseSortOrder } from '../../utils/caseQueryService';
+import {
+  CASE_VIEW_DATE_RANGE_LABELS,
+  CaseView,
+  CaseViewDateRange,
+  EMPTY_CASE_VIEW,
+  canEditCaseView,
+  deleteCaseView,
+  getCaseViews,
+  getDefaultCaseViewId,
+  isCaseViewApplied,
+  isSharedCaseView,
+  pickDefaultCaseView,
+  saveCaseView,
+  setDefaultCaseViewId
+} from '../../utils/caseViewService';
+
+interface SavedViewsProps {
+  filters: FilterOptions;
+  sortOrder: CaseSortOrder;
+  expandCases: boolean;
+  onApplyView: (view: CaseView) => void;
+  onSortChange: (sortOrder: CaseSortOrder) => void;
+  onExpandCasesChange: (expandCases: boolean) => void;
+}
+
+const SavedViews: React.FC<SavedViewsProps> = ({
+  filters,
+  sortOrder,
+  expandCases,
+  onApplyView,
+  onSortChange,
+  onExpandCasesChange
+}) => {
+  const currentUser = getCurrentUserSync();
+  const { addNotification } = useNotifications();
+  const { showConfirm, modal, closeModal } = useModal();
+
+  const [view, setView] = useState<CaseView>(EMPTY_CASE_VIEW);
+  const [showEditor, setShowEditor] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const defaultAppliedRef = useRef(false);
+
+  const userRef = { id: currentUser?.id || '', role: currentUser?.role || '' };
+  const isAdmin = userRef.role === 'admin';
+  const canEdit = canEditCaseView(view, userRef);
+
+  const { data: views = [], isSuccess: viewsLoaded, refetch: refetchViews } = useQuery({
+    queryKey: ['case-views', userRef.id],
+    queryFn: () => getCaseViews(userRef),
+    enabled: !!currentUser
+  });
+  const { data: defaultViewId = null, isFetched: defaultLoaded, refetch: refetchDefault } = useQuery({
+    queryKey: ['case-views-default', userRef.id],
+    queryFn: () => getDefaultCaseViewId(userRef.id),
+    enabled: !!currentUser
+  });
+
+  // Land on the default view once - later changes are the user's own
+  useEffect(() => {
+    if (defaultAppliedRef.current || !viewsLoaded || !defaultLoaded) return;
+    defaultAppliedRef.current = true;
+
+    const landingView = pickDefaultCaseView(views, userRef, defaultViewId);
+    if (landingView) {
+      setView(landingView);
+      onApplyView(landingView);
+    }
+  }, [viewsLoaded, defaultLoaded, views, defaultViewId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const isModified = !!view.id && !isCaseViewApplied(view, { filters, sortOrder, expandCases });
+  const isDefault = !!view.id && view.id === defaultViewId;
+  const myViews = views.filter(item => !isSharedCaseView(item));
+  const sharedViews = views.filter(isSharedCaseView);
+
+  const updateView = (changes: Partial<CaseView>) => {
+    setView(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSelect = (viewId: string) => {
+    const selected = views.find(item => item.id === viewId);
+    if (!selected) {
+      setView(EMPTY_CASE_VIEW);
+      setShowEditor(false);
+      return;
+    }
+    setView(selected);
+    onApplyView(selected);
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    if (!currentUser) return;
+    if (!view.name.trim()) {
+      addNotification({ title: 'Name Required', message: 'Enter a name for the view before saving.', type: 'warning' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveCaseView(
+        { ...view, id: asNew ? undefined : view.id, filters, sortOrder, expandCases },
+        userRef
+      );
+      await refetchViews();
+      setView(saved);
+      setShowEditor(false);
+      // Relative date ranges replace the filtered dates
+      onApplyView(saved);
+      addNotification({ title: 'View Saved', message: `"${saved.name}" was saved with the current filters.`, type: 'success' });
+    } catch (error) {
+      addNotification({ title: 'Save Failed', message: 'Failed to save the view. Please check your permissions.', type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!view.id) return;
+    showConfirm(
+      '🗑️ Delete View',
+      `Delete the saved view "${view.name}"?${isSharedCaseView(view) ? '\n\nRoles it is published to will no longer see it.' : ''}`,
+      async () => {
+        try {
+          await deleteCaseView(view.id as string);
+          if (isDefault) {
+            await setDefaultCaseViewId(userRef.id, null);
+            await refetchDefault();
+          }
+          await refetchViews();
+          setView(EMPTY_CASE_VIEW);
+          setShowEditor(false);
+          addNotification({ title: 'View Deleted', message: `"${view.name}" was deleted.`, type: 'success' });
+        } catch (error) {
+          addNotification({ title: 'Delete Failed', message: 'Failed to delete the view.', type: 'error' });
+        }
+      }
+    );
+  };
+
+  const handleToggleDefault = async () => {
+    if (!view.id) return;
+    try {
+      await setDefaultCaseViewId(userRef.id, isDefault ? null : view.id);
+      await refetchDefault();
+      addNotification({
+        title: isDefault ? 'Default View Cleared' : 'Default View Set',
+        message: isDefault ? 'The cases list will open without a saved view.' : `The cases list will open with "${view.name}".`,
+        type: 'success'
+      });
+    } catch (error) {
+      addNotification({ title: 'Update Failed', message: 'Failed to update your default view.', type: 'error' });
+    }
+  };
+
+  const toggleSharedRole = (roleId: string) => {
+    updateView({
+      sharedRoles: view.sharedRoles.includes(roleId)
+        ? view.sharedRoles.filter(role => role !== roleId)
+        : [...view.sharedRoles, roleId]
+    });
+  };
+
+  return (
+    <div className="saved-views">
+      <div className="saved-views-bar">
+        <label className="saved-views-field">
+          <span>📌 View</span>
+          <select value={view.id || ''} onChange={(e) => handleSelect(e.target.value)}>
+            <option value="">Custom</option>
+            {myViews.length > 0 && (
+              <optgroup label="My Views">
+                {myViews.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}{item.id === defaultViewId ? ' ★' : ''}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {sharedViews.length > 0 && (
+              <optgroup label="Shared Views">
+                {sharedViews.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}{item.id === defaultViewId ? ' ★' : ''}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {isModified && <em className="saved-views-modified">modified</em>}
+        </label>
+
+        <label className="saved-views-field">
+          <span>↕️ Sort</span>
+          <select value={sortOrder} onChange={(e) => onSortChange(e.target.value as CaseSortOrder)}>
+            {(Object.keys(CASE_SORT_OPTIONS) as CaseSortOrder[]).map(key => (
+              <option key={key} value={key}>{CASE_SORT_OPTIONS[key].label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="saved-views-checkbox">
+          <input
+            type="checkbox"
+            checked={expandCases}
+            onChange={(e) => onExpandCasesChange(e.target.checked)}
+          />
+          Expand cases
+        </label>
+
+        <div className="saved-views-actions">
+          {view.id && (
+            <button className="btn btn-outline-secondary btn-sm" onClick={handleToggleDefault}>
+              {isDefault ? '★ Default View' : '☆ Make Default'}
+            </button>
+          )}
+          <button
+            className="btn btn-outline-secondary btn-sm"
+            onClick={() => setShowEditor(!showEditor)}
+          >
+            💾 Save View
+          </button>
+          {view.id && canEdit && (
+            <button className="btn btn-outline-danger btn-sm" onClick={handleDelete}>
+              🗑️
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showEditor && (
+        <div className="saved-views-editor">
+          <label className="saved-views-field">
+            <span>Name</span>
+            <input
+              type="text"
+              value={view.name}
+              onChange={(e) => updateView({ name: e.target.value })}
+              placeholder="e.g. Today's deliveries"
+              maxLength={80}
+            />
+          </label>
+          <label className="saved-views-field">
+            <span>Surgery Dates</span>
+            <select
+              value={view.dateRange}
+              onChange={(e) => updateView({ dateRange: e.target.value as CaseViewDateRange })}
+            >
+              {(Object.keys(CASE_VIEW_DATE_RANGE_LABELS) as CaseViewDateRange[]).map(key => (
+                <option key={key} value={key}>{CASE_VIEW_DATE_RANGE_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+
+          {isAdmin && (
+            <div className="saved-views-share">
+              <span>Publish to Roles</span>
+              <div className="saved-views-roles">
+                {getAllRoles().map(role => (
+                  <label key={role.id} className="saved-views-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={view.sharedRoles.includes(role.id)}
+                      onChange={() => toggleSharedRole(role.id)}
+                    />
+                    {role.displayName}
+                  </label>
+                ))}
+              </div>
+              <label className="saved-views-checkbox">
+                <input
+                  type="checkbox"
+                  checked={view.isRoleDefault}
+                  disabled={view.sharedRoles.length === 0}
+                  onChange={(e) => updateView({ isRoleDefault: e.target.checked })}
+                />
+                Landing view for these roles (users can still pick their own default)
+              </label>
+            </div>
+          )}
+
+          <div className="saved-views-actions">
+            {view.id && canEdit && (
+              <button className="btn btn-primary btn-sm" onClick={() => handleSave(false)} disabled={isSaving}>
+                Update "{view.name}"
+              </button>
+            )}
+            <button
+              className={`btn btn-sm ${view.id && canEdit ? 'btn-outline-secondary' : 'btn-primary'}`}
+              onClick={() => handleSave(true)}
+              disabled={isSaving}
+            >
+              Save as New View
+            </button>
+            <button className="btn btn-outline-secondary btn-sm" onClick={() => setShowEditor(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <CustomModal
+        isOpen={modal.isOpen}
+        title={modal.title}
+        onClose={closeModal}
+        message={modal.message}
+        actions={modal.type === 'confirm' ? [
+          { label: 'Cancel', onClick: closeModal, style: 'secondary' },
+          { label: modal.confirmLabel || 'Delete', onClick: () => modal.onConfirm?.(), style: 'danger' }
+        ] : [
+          { label: 'OK', onClick: closeModal, style: 'primary' }
+        ]}
+      />
+    </div>
+  );
+};
+
+export default SavedViews;
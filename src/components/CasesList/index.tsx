@@ -11,13 +11,36 @@
  * NEVER use: caseId → USE: case_booking_id
  */
 
-import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { CaseBooking, FilterOptions, CaseStatus } from '../../types';
 import { CASE_STATUSES } from '../../constants/statuses';
 import { getCurrentUserSync } from '../../utils/auth';
 import { hasPermission, PERMISSION_ACTIONS } from '../../utils/permissions';
+import { assertCaseStatusTransition, isStatusTransitionError } from '../../utils/statusTransitionGuard';
+import { DeliveryOrder, issueDeliveryOrder } from '../../utils/deliveryOrderService';
+import { getDeliveryOrderNumber } from '../../utils/driverManifestService';
+import { amendCaseSeries, cancelCaseSeries } from '../../utils/caseSeriesService';
+import { groupClonesBySource } from '../../utils/caseCloneService';
+import { isBreachingSla } from '../../utils/caseSlaService';
+import {
+  CaseSortOrder,
+  DEFAULT_CASE_SORT_ORDER,
+  getCaseAccessScope,
+  getCaseFilterOptions,
+  getCasesPage
+} from '../../utils/caseQueryService';
+import { CaseView, resolveCaseViewFilters } from '../../utils/caseViewService';
+import { buildCancellationDetails, buildReinstatementDetails, getReinstateStatus } from '../../utils/caseCancellationService';
+import {
+  ProofOfDeliveryDraft,
+  EMPTY_PROOF_OF_DELIVERY_DRAFT,
+  validateProofOfDelivery,
+  buildProofOfDelivery
+} from '../../utils/proofOfDeliveryService';
 import { useNotifications } from '../../contexts/NotificationContext';
 import { useRealtimeCases } from '../../hooks/useRealtimeCases';
+import { useCaseSlas, useSlaWatchCases } from '../../hooks/useCaseSlas';
 import { useRealtime } from '../RealtimeProvider';
 import { CasesListProps } from './types';
 import CasesFilter from './CasesFilter';
@@ -25,8 +48,9 @@ import CaseCard from './CaseCard';
 import StatusChangeSuccessPopup from '../StatusChangeSuccessPopup';
 import CustomModal from '../CustomModal';
 import AmendmentForm from '../CaseCard/AmendmentForm';
+import CancelCaseModal from './CancelCaseModal';
+import BulkActionsBar from './BulkActionsBar';
 import { useModal } from '../../hooks/useModal';
-import { normalizeCountry } from '../../utils/countryUtils';
 import { amendCase, processCaseOrder } from '../../utils/realTimeStorage'; // Using real-time storage instead
 import StatusLegend from '../StatusLegend';
 import { supabase } from '../../lib/supabase';
@@ -40,12 +64,39 @@ import {
   getDbField
 } from '../../utils/fieldMappings';
 
-const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highlightedCaseId, onClearHighlight, onNavigateToPermissions }) => {
+const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highlightedCaseId, onClearHighlight, onNavigateToPermissions, onDuplicateCase }) => {
   const { addNotification } = useNotifications();
   const { modal, closeModal, showConfirm, showConfirmWithCustomButtons } = useModal();
   const amendmentFormRef = useRef<HTMLDivElement>(null);
 
-  // REAL-TIME CASES HOOK - Always fresh data, no cache issues, comprehensive testing
+  // Real-time connection status - prioritize cases connection for this component
+  const { overallConnected, casesConnected, forceRefreshAll } = useRealtime();
+  const isConnected = casesConnected || overallConnected;
+  const [filters, setFilters] = useState<FilterOptions>({});
+  const [tempFilters, setTempFilters] = useState<FilterOptions>({});
+  const [sortOrder, setSortOrder] = useState<CaseSortOrder>(DEFAULT_CASE_SORT_ORDER);
+  const [expandCases, setExpandCases] = useState(false);
+
+  // Countries, statuses and departments this user may see - applied by the case queries
+  const accessScope = useMemo(() => getCaseAccessScope(currentUser), [currentUser]);
+
+  // Running SLAs for the country's open cases - drive the overdue badges and the
+  // "Breaching SLA" filter whichever page is on screen
+  const slaWatchCases = useSlaWatchCases(currentUser?.selectedCountry, accessScope);
+  const { slaByCase, now: slaNow } = useCaseSlas(slaWatchCases);
+  const breachingCaseIds = useMemo(() => (
+    filters.sla === 'breaching'
+      ? slaWatchCases.filter(caseItem => isBreachingSla(slaByCase.get(caseItem.id))).map(caseItem => caseItem.id)
+      : undefined
+  ), [filters.sla, slaWatchCases, slaByCase]);
+
+  // Everything except the SLA filter is a database condition
+  const queryFilters = useMemo(() => {
+    const { sla, ...rest } = filters;
+    return rest;
+  }, [filters]);
+
+  // REAL-TIME CASES HOOK - one page at a time, filtered in the database
   const {
     cases,
     isLoading,
@@ -54,12 +105,19 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     deleteCase,
     validateComponent,
     getTestingReport,
-    isMutating
+    isMutating,
+    pagination
   } = useRealtimeCases({
     enableRealTime: true,
     enableTesting: false,
     filters: {
       country: currentUser?.selectedCountry,
+    },
+    pagination: {
+      filters: queryFilters,
+      scope: accessScope,
+      caseIds: breachingCaseIds,
+      sortOrder
     }
   });
 
@@ -68,19 +126,20 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     if (cases.length > 0 && !isLoading) {
       console.log('📊 Cases loaded:', {
         count: cases.length,
-        completed: cases.filter(c => c.status === 'Case Completed').length,
+        total: pagination.totalCount,
         userRole: currentUser?.role
       });
     }
-  }, [cases.length, isLoading, currentUser?.role]); // Only log when count or loading changes
+  }, [cases.length, isLoading, currentUser?.role, pagination.totalCount]); // Only log when count or loading changes
 
-  // Real-time connection status - prioritize cases connection for this component
-  const { overallConnected, casesConnected, forceRefreshAll } = useRealtime();
-  const isConnected = casesConnected || overallConnected;
-  const [availableSubmitters, setAvailableSubmitters] = useState<string[]>([]);
-  const [availableHospitals, setAvailableHospitals] = useState<string[]>([]);
-  const [filters, setFilters] = useState<FilterOptions>({});
-  const [tempFilters, setTempFilters] = useState<FilterOptions>({});
+  // Submitter and hospital dropdowns cover every case of the country the user may see, not just this page
+  const { data: filterOptions } = useQuery({
+    queryKey: ['case-filter-options', currentUser?.selectedCountry || 'all', JSON.stringify(accessScope)],
+    queryFn: () => getCaseFilterOptions(currentUser?.selectedCountry, accessScope),
+    staleTime: 5 * 60 * 1000
+  });
+  const availableSubmitters = filterOptions?.submitters || [];
+  const availableHospitals = filterOptions?.hospitals || [];
   const [expandedCases, setExpandedCases] = useState<Set<string>>(new Set());
   const [expandedStatusHistory, setExpandedStatusHistory] = useState<Set<string>>(new Set());
   const [expandedAmendmentHistory, setExpandedAmendmentHistory] = useState<Set<string>>(new Set());
@@ -88,6 +147,8 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
   const [showAllCases, setShowAllCases] = useState(true);
   const [amendingCase, setAmendingCase] = useState<string | null>(null);
   const [amendmentData, setAmendmentData] = useState<Partial<CaseBooking>>({});
+  const [cancellingCase, setCancellingCase] = useState<CaseBooking | null>(null);
+  const [cancellingSeriesCase, setCancellingSeriesCase] = useState<CaseBooking | null>(null);
   const [processingCase, setProcessingCase] = useState<string | null>(null);
   const [processDetails, setProcessDetails] = useState('');
   const [deliveryCase] = useState<string | null>(null);
@@ -95,6 +156,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
   const [receivedCase, setReceivedCase] = useState<string | null>(null);
   const [receivedDetails, setReceivedDetails] = useState('');
   const [receivedImage, setReceivedImage] = useState('');
+  const [receivedProof, setReceivedProof] = useState<ProofOfDeliveryDraft>(EMPTY_PROOF_OF_DELIVERY_DRAFT);
   const [completedCase, setCompletedCase] = useState<string | null>(null);
   const [attachments, setAttachments] = useState<string[]>([]);
   const [orderSummary, setOrderSummary] = useState('');
@@ -110,71 +172,6 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
   const [orderPreparedAttachments, setOrderPreparedAttachments] = useState<string[]>([]);
   const [orderPreparedComments, setOrderPreparedComments] = useState('');
 
-  // PERFORMANCE: Optimized filter function - single pass instead of multiple filter chains
-  const filterCasesLocally = useCallback((casesToFilter: CaseBooking[], filterOptions: FilterOptions, userRole?: string) => {
-    // Pre-compute filter conditions to avoid repeated calculations
-    const searchTerm = filterOptions.search?.toLowerCase();
-    const hasDriverRestriction = userRole === 'driver';
-    const deliveryStatuses = hasDriverRestriction ? new Set([
-      'Pending Delivery (Hospital)',
-      'Delivered (Hospital)',
-      'Pending Delivery (Office)',
-      'Delivered (Office)'
-    ]) : null;
-
-    // Single pass filtering for optimal performance
-    return casesToFilter.filter(caseItem => {
-      // Driver role filtering - only show delivery-related cases
-      if (hasDriverRestriction && !deliveryStatuses!.has(caseItem.status)) {
-        return false;
-      }
-
-      // Apply search filter
-      if (searchTerm) {
-        const matches = [
-          caseItem.caseReferenceNumber.toLowerCase(),
-          caseItem.hospital.toLowerCase(),
-          caseItem.doctorName?.toLowerCase() || '',
-          caseItem.procedureType.toLowerCase(),
-          caseItem.procedureName.toLowerCase(),
-          caseItem.submittedBy.toLowerCase()
-        ].some(field => field.includes(searchTerm));
-        
-        if (!matches) return false;
-      }
-
-      // Apply status filter
-      if (filterOptions.status && caseItem.status !== filterOptions.status) {
-        return false;
-      }
-
-      // Apply submitter filter
-      if (filterOptions.submitter && caseItem.submittedBy !== filterOptions.submitter) {
-        return false;
-      }
-
-      // Apply hospital filter
-      if (filterOptions.hospital && caseItem.hospital !== filterOptions.hospital) {
-        return false;
-      }
-
-      // Apply country filter
-      if (filterOptions.country && caseItem.country !== filterOptions.country) {
-        return false;
-      }
-
-      // Apply date range filters
-      if (filterOptions.dateFrom && caseItem.dateOfSurgery < filterOptions.dateFrom) {
-        return false;
-      }
-
-      if (filterOptions.dateTo && caseItem.dateOfSurgery > filterOptions.dateTo) {
-        return false;
-      }
-
-      return true;
-    });
-  }, []); // No dependencies needed since we're using string literals
   const [hospitalDeliveryAttachments, setHospitalDeliveryAttachments] = useState<string[]>([]);
   const [hospitalDeliveryComments, setHospitalDeliveryComments] = useState('');
   const [hospitalDeliveryCase, setHospitalDeliveryCase] = useState<string | null>(null);
@@ -185,11 +182,25 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
   const [pendingOfficeAttachments, setPendingOfficeAttachments] = useState<string[]>([]);
   const [pendingOfficeComments, setPendingOfficeComments] = useState('');
 
-  const [currentPage, setCurrentPage] = useState(1);
-  const [casesPerPage] = useState(5);
   const [showSuccessPopup, setShowSuccessPopup] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
 
+  // Cases selected for bulk actions - kept while paging so a selection can span pages
+  const [selectedCases, setSelectedCases] = useState<Map<string, CaseBooking>>(new Map());
+  const canUseBulkActions = hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.BULK_CASE_ACTIONS);
+  const selectedCaseList = useMemo(() => Array.from(selectedCases.values()), [selectedCases]);
+
+  // Keep selected cases current when the page shows a newer copy of them
+  useEffect(() => {
+    setSelectedCases(prev => {
+      const stale = cases.filter(caseItem => prev.has(caseItem.id) && prev.get(caseItem.id) !== caseItem);
+      if (stale.length === 0) return prev;
+      const next = new Map(prev);
+      stale.forEach(caseItem => next.set(caseItem.id, caseItem));
+      return next;
+    });
+  }, [cases]);
+
   const handleAttachmentUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files) {
@@ -213,21 +224,12 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
+  // A view with "Expand cases" opens every case card on each page it shows
   useEffect(() => {
-    // Cases are automatically loaded by useRealtimeCases hook (live data)
-    // Update available options when cases change
-    if (cases.length > 0) {
-      const uniqueSubmitters = Array.from(new Set(cases.map(caseItem => caseItem.submittedBy)))
-        .filter(submitter => submitter && submitter.trim())
-        .sort();
-      setAvailableSubmitters(uniqueSubmitters);
-
-      const uniqueHospitals = Array.from(new Set(cases.map(caseItem => caseItem.hospital)))
-        .filter(hospital => hospital && hospital.trim())
-        .sort();
-      setAvailableHospitals(uniqueHospitals);
+    if (expandCases && cases.length > 0) {
+      setExpandedCases(prev => new Set([...Array.from(prev), ...cases.map(caseItem => caseItem.id)]));
     }
-  }, [cases]);
+  }, [expandCases, cases]);
 
   // Auto-apply filters for Driver role - only once when component mounts
   useEffect(() => {
@@ -254,101 +256,41 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     }
   }, []); // Run only once on mount
 
-  // PERFORMANCE: Memoize normalized countries to avoid repeated normalization
-  const normalizedUserCountries = useMemo(() => {
-    const currentUser = getCurrentUserSync();
-    if (!currentUser?.countries || currentUser.role === 'admin') {
-      return [];
-    }
-    return currentUser.countries.map(country => normalizeCountry(country));
-  }, [currentUser?.countries, currentUser?.role]);
-
-  // PERFORMANCE: Memoize normalized case countries to avoid repeated normalization
-  const normalizedCaseCountries = useMemo(() => {
-    const countryMap = new Map<string, string>();
-    cases.forEach(caseItem => {
-      if (caseItem.country && !countryMap.has(caseItem.country)) {
-        countryMap.set(caseItem.country, normalizeCountry(caseItem.country));
-      }
-    });
-    return countryMap;
-  }, [cases]);
-
-  // Use useMemo to calculate filtered cases without causing re-renders
-  const filteredCases = useMemo(() => {
-    const currentUser = getCurrentUserSync();
-    let filteredResults = filterCasesLocally(cases, filters, currentUser?.role);
+  // Links between duplicated cases and their source
+  const clonesBySource = useMemo(() => groupClonesBySource(cases), [cases]);
+  const [focusedCaseId, setFocusedCaseId] = useState<string | null>(null);
+  const searchedCaseIdRef = useRef<string | null>(null);
 
-    // Driver users only see specific statuses
-    if (currentUser?.role === 'driver') {
-      const driverVisibleStatuses = [
-        'Sales Approved',
-        'Pending Delivery (Hospital)', 
-        'Case Completed',
-        'Pending Collection (At Hospital)'
-      ];
-      
-      // Filter to only show driver-relevant statuses
-      filteredResults = filteredResults.filter(caseItem => 
-        driverVisibleStatuses.includes(caseItem.status)
-      );
-    }
-
-    // Admin users see ALL cases without country/department restrictions
-    if (currentUser?.role === 'admin') {
-      // Admin sees everything - no additional filtering
-      return filteredResults;
-    }
-
-    // Non-admin users: Apply country and department restrictions
-    if (currentUser) {
-      // Country filtering
-      if (normalizedUserCountries.length > 0) {
-        // PERFORMANCE: Use pre-normalized countries for efficient filtering
-        filteredResults = filteredResults.filter(caseItem => {
-          const normalizedCaseCountry = normalizedCaseCountries.get(caseItem.country);
-          return normalizedCaseCountry && normalizedUserCountries.includes(normalizedCaseCountry);
-        });
-      }
-
-      // Department-based filtering for non-admin users (excluding Operations Managers who have broader access)
-      const hasFullAccess = currentUser.role === 'operations-manager' || currentUser.role === 'it';
-
-      if (currentUser.departments && currentUser.departments.length > 0 && !hasFullAccess) {
-        // Clean department names - remove country prefixes like "Singapore:", "Malaysia:"
-        const cleanDepartmentName = (department: string) => {
-          return department.replace(/^[A-Za-z\s]+:/, '').trim();
-        };
-
-        const userDepartments = currentUser.departments.map(cleanDepartmentName);
-
-        filteredResults = filteredResults.filter(caseItem =>
-          userDepartments.includes(cleanDepartmentName(caseItem.department))
-        );
-      }
-    }
-
-    return filteredResults;
-  }, [cases, filters, filterCasesLocally, normalizedUserCountries, normalizedCaseCountries]); // Calculate whenever dependencies change
-
-  // Handle highlighted case from calendar
+  // Handle highlighted case from calendar, or a case opened from a duplicate link
   useEffect(() => {
-    if (highlightedCaseId) {
+    const caseToHighlight = highlightedCaseId || focusedCaseId;
+    if (caseToHighlight && !isLoading) {
       // Use a timeout for DOM manipulation and pagination
       const timeoutId = setTimeout(() => {
-        // Find which page the highlighted case is on
-        const caseIndex = cases.findIndex(c => c.id === highlightedCaseId);
-        if (caseIndex !== -1) {
-          const targetPage = Math.ceil((caseIndex + 1) / casesPerPage);
-          setCurrentPage(targetPage);
+        // A case on another page is brought up by searching for its reference
+        if (!cases.some(c => c.id === caseToHighlight)) {
+          if (searchedCaseIdRef.current !== caseToHighlight) {
+            searchedCaseIdRef.current = caseToHighlight;
+            getCasesPage({ filters: {}, caseIds: [caseToHighlight], pageSize: 1 })
+              .then(({ cases: [found] }) => {
+                if (found) {
+                  const searchFilters = { search: found.caseReferenceNumber };
+                  setFilters(searchFilters);
+                  setTempFilters(searchFilters);
+                }
+              })
+              .catch(error => console.error('Failed to find the highlighted case:', error));
+          }
+          return;
         }
-        
+
         // Auto-expand the highlighted case
-        setExpandedCases(prev => new Set([...Array.from(prev), highlightedCaseId]));
+        searchedCaseIdRef.current = null;
+        setExpandedCases(prev => new Set([...Array.from(prev), caseToHighlight]));
 
         // Scroll to the case after a small delay to ensure it's rendered
         setTimeout(() => {
-          const caseElement = document.getElementById(`case-${highlightedCaseId}`);
+          const caseElement = document.getElementById(`case-${caseToHighlight}`);
           if (caseElement) {
             caseElement.scrollIntoView({
               behavior: 'smooth',
@@ -359,6 +301,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
             setTimeout(() => {
               caseElement.classList.remove('highlighted-case');
               onClearHighlight?.();
+              setFocusedCaseId(null);
             }, 3000);
           }
         }, 100);
@@ -366,7 +309,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
 
       return () => clearTimeout(timeoutId);
     }
-  }, [highlightedCaseId, onClearHighlight, casesPerPage, cases]); // Depends on cases, not filteredCases
+  }, [highlightedCaseId, focusedCaseId, onClearHighlight, cases, isLoading]);
 
   const handleFilterChange = (field: keyof FilterOptions, value: string) => {
     setTempFilters(prev => ({
@@ -384,6 +327,21 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     setTempFilters({});
   };
 
+  const applyCaseView = (view: CaseView) => {
+    const viewFilters = resolveCaseViewFilters(view);
+    setFilters(viewFilters);
+    setTempFilters(viewFilters);
+    setSortOrder(view.sortOrder);
+    handleExpandCasesChange(view.expandCases);
+  };
+
+  const handleExpandCasesChange = (expand: boolean) => {
+    setExpandCases(expand);
+    if (!expand) {
+      setExpandedCases(new Set());
+    }
+  };
+
   const handleQuickFilter = (filterKey: string, filterValue: string) => {
     const newFilters = { [filterKey]: filterValue };
     setTempFilters(newFilters);
@@ -442,6 +400,19 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     });
   };
 
+  // Show why the transition guard rejected a status change - returns false for other errors
+  const notifyStatusTransitionError = (error: unknown): boolean => {
+    if (!isStatusTransitionError(error)) {
+      return false;
+    }
+    addNotification({
+      title: 'Status Change Rejected',
+      message: error.message,
+      type: 'error'
+    });
+    return true;
+  };
+
   const handleStatusChange = async (caseId: string, newStatus: CaseStatus) => {
     const currentUser = getCurrentUserSync();
     if (!currentUser) {
@@ -496,11 +467,14 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
         errorStack: error instanceof Error ? error.stack : undefined,
         timestamp: new Date().toISOString()
       });
+      if (notifyStatusTransitionError(error)) {
+        return;
+      }
       throw error;
     }
 
     // Reset to page 1 and expand the updated case
-    setCurrentPage(1);
+    pagination.firstPage();
     setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
     // Show success popup
@@ -515,6 +489,46 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     });
   };
 
+  const toggleCaseSelection = (caseItem: CaseBooking) => {
+    setSelectedCases(prev => {
+      const next = new Map(prev);
+      if (next.has(caseItem.id)) {
+        next.delete(caseItem.id);
+      } else {
+        next.set(caseItem.id, caseItem);
+      }
+      return next;
+    });
+  };
+
+  const selectPageCases = () => {
+    setSelectedCases(prev => {
+      const next = new Map(prev);
+      cases.forEach(caseItem => next.set(caseItem.id, caseItem));
+      return next;
+    });
+  };
+
+  // One case of a bulk status change - notified and audited like a single change
+  // Audited by updateCaseStatus, as a single status change is
+  const handleBulkStatusChange = async (caseItem: CaseBooking, newStatus: CaseStatus, details?: string) => {
+    const updated = await updateCaseStatus(caseItem.id, newStatus, details);
+    if (!updated) {
+      throw new Error('Failed to update case status');
+    }
+
+    addNotification({
+      title: 'Case Status Updated',
+      message: `Case ${caseItem.caseReferenceNumber} status changed to ${newStatus}`,
+      type: 'success'
+    });
+  };
+
+  const handleBulkActionComplete = () => {
+    setSelectedCases(new Map());
+    refreshCases();
+  };
+
   const handleAmendCase = (caseItem: CaseBooking) => {
     // Prevent multiple clicks from opening multiple amendment forms
     if (amendingCase) {
@@ -561,7 +575,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     try {
       // Extract caseId from amendmentFormData if provided, otherwise use amendingCase
       const caseId = amendmentFormData.caseId || amendingCase;
-      const { caseId: _, ...amendments } = amendmentFormData; // Remove caseId from amendments
+      const { caseId: _, applyToSeries, amendmentReason, amendmentOverrideReason, ...amendments } = amendmentFormData; // Remove caseId from amendments
 
       console.log('🔧 UI AMENDMENT DEBUG - Processed amendment data:', {
         caseId,
@@ -573,18 +587,52 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       const caseItem = cases.find(c => c.id === caseId);
 
       // Validate that amendment reason is provided
-      if (!amendments.amendmentReason || !amendments.amendmentReason.trim()) {
+      if (!amendmentReason || !amendmentReason.trim()) {
         throw new Error('Amendment reason is required');
       }
+      const amendOptions = {
+        reason: amendmentReason.trim(),
+        ...(amendmentOverrideReason?.trim() ? { overrideReason: amendmentOverrideReason.trim() } : {})
+      };
+
+      const outcome = await amendCase(caseId, amendments, amendOptions); // Real-time amendCase handles user automatically
+      if (!outcome) {
+        throw new Error('The amendment could not be saved. Please try again.');
+      }
 
-      await amendCase(caseId, amendments); // Real-time amendCase handles user automatically
+      // Carry the same change to the rest of the series - each case keeps its own date
+      if (applyToSeries && caseItem?.seriesId) {
+        const seriesResult = await amendCaseSeries(caseItem.seriesId, amendments, currentUser.name, { ...amendOptions, excludeCaseId: caseId });
+        const failed = seriesResult.failed.map(item => `${item.caseReferenceNumber}: ${item.reason}`);
+        addNotification({
+          title: 'Series Amended',
+          message: `${seriesResult.updated.length} upcoming case(s) amended` +
+            (seriesResult.pendingApproval.length > 0 ? `, ${seriesResult.pendingApproval.length} awaiting approval` : '') +
+            (failed.length > 0 ? `. Not amended - ${failed.join('; ')}` : ''),
+          type: failed.length > 0 ? 'warning' : 'success'
+        }, 'case-amended', caseItem.country, caseItem.department);
+      }
 
       setAmendingCase(null);
       setAmendmentData({});
       refreshCases();
 
+      // Cases past order preparation only get a change request - nothing is applied yet
+      if (outcome === 'pending-approval') {
+        setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
+        setSuccessMessage('Amendment submitted for approval. Operations will review it before the case is changed.');
+        setShowSuccessPopup(true);
+
+        addNotification({
+          title: 'Amendment Submitted',
+          message: `Amendment for case ${caseItem?.caseReferenceNumber || caseId} is awaiting operations approval`,
+          type: 'info'
+        }, 'case-amended', caseItem?.country, caseItem?.department);
+        return;
+      }
+
       // Reset to page 1 and expand the updated case AND amendment history
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
       setExpandedAmendmentHistory(prev => new Set([...Array.from(prev), caseId]));
 
@@ -601,7 +649,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
 
       // Add audit log
       const { auditCaseAmended } = await import('../../utils/auditService');
-      const changes = Object.keys(amendments).filter(key => amendments[key as keyof typeof amendments] && key !== 'amendmentReason');
+      const changes = Object.keys(amendments).filter(key => amendments[key as keyof typeof amendments]);
       await auditCaseAmended(
         currentUser.name,
         currentUser.id,
@@ -685,7 +733,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       refreshCases();
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -703,6 +751,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       // in the updateCaseStatus function - no hardcoded logic needed here
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
@@ -736,6 +785,9 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       });
     } catch (error) {
       console.error('Failed to save order prepared details:', error);
+      if (notifyStatusTransitionError(error)) {
+        return;
+      }
       addNotification({
         title: 'Error',
         message: 'Failed to save order prepared details',
@@ -818,7 +870,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       setSalesApprovalCase(null);
       setSalesApprovalComments('');
       setSalesApprovalAttachments([]);
-      setCurrentPage(1);
+      pagination.firstPage();
       
       // Optimize set operation
       setExpandedCases(prev => {
@@ -841,6 +893,9 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
 
     } catch (error) {
       console.error('❌ SALES APPROVED DEBUG - Error occurred:', error);
+      if (notifyStatusTransitionError(error)) {
+        return;
+      }
       addNotification({
         title: 'Sales Approved Failed',
         message: 'Failed to approve case. Please try again.',
@@ -871,12 +926,49 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     if (!currentUser || !hasPermission(currentUser.role, PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL)) {
       return;
     }
+    const caseItem = cases.find(c => c.id === caseId);
+    if (!caseItem) {
+      return;
+    }
+
+    const attachments = [...hospitalDeliveryAttachments];
+    try {
+      // Check the move before a DO number is allocated, so a rejected move does not use
+      // one up. This step issues the DO number, so a required one is checked on the final write.
+      await assertCaseStatusTransition(caseId, CASE_STATUSES.PENDING_DELIVERY_HOSPITAL, {
+        details: JSON.stringify({ comments: hospitalDeliveryComments, doNumber: caseItem.doNumber }),
+        attachments
+      }, { deferredFields: ['doNumber'] });
+    } catch (error) {
+      if (!notifyStatusTransitionError(error)) {
+        addNotification({
+          title: 'Status Change Failed',
+          message: error instanceof Error ? error.message : 'Could not check the status change',
+          type: 'error'
+        });
+      }
+      return;
+    }
+
+    let deliveryOrder: DeliveryOrder;
+    try {
+      deliveryOrder = await issueDeliveryOrder(caseItem, currentUser.name);
+    } catch (error) {
+      addNotification({
+        title: 'Delivery Order Failed',
+        message: `Could not generate the delivery order for ${caseItem.caseReferenceNumber}: ${error instanceof Error ? error.message : 'unknown error'}`,
+        type: 'error'
+      });
+      return;
+    }
+
     try {
-      const caseItem = cases.find(c => c.id === caseId);
       const additionalData = {
-        attachments: hospitalDeliveryAttachments,
-        comments: hospitalDeliveryComments
+        attachments: [...attachments, deliveryOrder.attachment],
+        comments: hospitalDeliveryComments,
+        doNumber: deliveryOrder.doNumber
       };
+      // change_case_status saves the DO number on the case together with the status
       await updateCaseStatus(caseId, 'Pending Delivery (Hospital)', JSON.stringify(additionalData));
       setHospitalDeliveryCase(null);
       setHospitalDeliveryAttachments([]);
@@ -884,7 +976,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       refreshCases();
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -894,11 +986,12 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       // Add notification for status change
       addNotification({
         title: 'Pending Delivery to Hospital',
-        message: `Case ${caseItem?.caseReferenceNumber || caseId} has been delivered to hospital by ${currentUser.name}`,
+        message: `Case ${caseItem.caseReferenceNumber} has been delivered to hospital by ${currentUser.name} (${deliveryOrder.doNumber})`,
         type: 'success'
       });
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
@@ -907,6 +1000,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     setReceivedCase(caseId);
     setReceivedDetails('');
     setReceivedImage('');
+    setReceivedProof(EMPTY_PROOF_OF_DELIVERY_DRAFT);
   };
 
   const handleSaveOrderReceived = async (caseId: string) => {
@@ -917,6 +1011,9 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     if (!receivedDetails.trim()) {
       return;
     }
+    if (validateProofOfDelivery(receivedProof).length > 0) {
+      return;
+    }
     try {
       const caseItem = cases.find(c => c.id === caseId);
 
@@ -935,16 +1032,18 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
 
       const additionalData = {
         comments: receivedDetails,
-        attachments: attachments
+        attachments: attachments,
+        proofOfDelivery: buildProofOfDelivery(receivedProof, currentUser.name)
       };
       await updateCaseStatus(caseId, 'Delivered (Hospital)', JSON.stringify(additionalData));
       setReceivedCase(null);
       setReceivedDetails('');
       setReceivedImage('');
+      setReceivedProof(EMPTY_PROOF_OF_DELIVERY_DRAFT);
       refreshCases();
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -959,15 +1058,17 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       });
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
   // Case Completed workflow
   const handleCaseCompleted = (caseId: string) => {
+    const caseItem = cases.find(c => c.id === caseId);
     setCompletedCase(caseId);
     setAttachments([]);
     setOrderSummary('');
-    setDoNumber('');
+    setDoNumber(caseItem ? getDeliveryOrderNumber(caseItem) || '' : '');
   };
 
   const handleSaveCaseCompleted = async (caseId: string) => {
@@ -993,7 +1094,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       refreshCases();
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -1008,6 +1109,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       });
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
@@ -1023,7 +1125,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       refreshCases();
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -1038,6 +1140,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       });
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
@@ -1053,7 +1156,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       refreshCases();
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -1068,6 +1171,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       });
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
@@ -1096,7 +1200,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       refreshCases();
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -1111,6 +1215,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       });
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
@@ -1146,7 +1251,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       setOfficeDeliveryComments('');
 
       // Reset to page 1 and expand the updated case
-      setCurrentPage(1);
+      pagination.firstPage();
       setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
 
       // Show success popup
@@ -1161,6 +1266,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
       });
     } catch (error) {
       // Failed to update case status
+      notifyStatusTransitionError(error);
     }
   };
 
@@ -1170,45 +1276,116 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     setOfficeDeliveryComments('');
   };
 
-  // Cancel case workflow
+  // Cancel case workflow - a reason is picked in CancelCaseModal before the status changes
   const handleCancelCase = (caseId: string) => {
+    const caseItem = cases.find(c => c.id === caseId);
+    if (!getCurrentUserSync() || !caseItem) {
+      return;
+    }
+    setCancellingCase(caseItem);
+  };
+
+  const handleConfirmCancelCase = async (reason: string, note: string) => {
     const currentUser = getCurrentUserSync();
-    if (!currentUser) {
+    if (!currentUser || !cancellingCase) {
       return;
     }
 
-    const caseItem = cases.find(c => c.id === caseId);
-    const confirmMessage = `Are you sure you want to cancel case "${caseItem?.caseReferenceNumber}"?\n\nThis action will mark the case as cancelled and cannot be undone.`;
+    const caseItem = cancellingCase;
+    try {
+      await updateCaseStatus(caseItem.id, 'Case Cancelled', buildCancellationDetails(reason, note));
+      setCancellingCase(null);
+      refreshCases();
 
-    showConfirmWithCustomButtons('Cancel Case', confirmMessage, async () => {
+      // Reset to page 1 and expand the updated case
+      pagination.firstPage();
+      setExpandedCases(prev => new Set([...Array.from(prev), caseItem.id]));
+
+      // Show success popup
+      setSuccessMessage('Case successfully cancelled');
+      setShowSuccessPopup(true);
+
+      // Add notification for status change
+      addNotification({
+        title: 'Case Cancelled',
+        message: `Case ${caseItem.caseReferenceNumber} has been cancelled by ${currentUser.name} (${reason})`,
+        type: 'warning'
+      });
+    } catch (error) {
+      // Failed to cancel case
+      notifyStatusTransitionError(error);
+    }
+  };
+
+  // Return a cancelled case to the status it was cancelled from
+  const handleReinstateCase = (caseItem: CaseBooking) => {
+    const currentUser = getCurrentUserSync();
+    const previousStatus = getReinstateStatus(caseItem);
+    if (!currentUser || !previousStatus) {
+      return;
+    }
+
+    const confirmMessage = `Reinstate case "${caseItem.caseReferenceNumber}" to "${previousStatus}"?\n\nThe cancellation stays in the status history.`;
+
+    showConfirmWithCustomButtons('Reinstate Case', confirmMessage, async () => {
       try {
-        await updateCaseStatus(caseId, 'Case Cancelled', 'Case cancelled by user request');
+        await updateCaseStatus(caseItem.id, previousStatus, buildReinstatementDetails(previousStatus));
         refreshCases();
 
-        // Reset to page 1 and expand the updated case
-        setCurrentPage(1);
-        setExpandedCases(prev => new Set([...Array.from(prev), caseId]));
-
-        // Show success popup
-        setSuccessMessage('Case successfully cancelled');
+        setExpandedCases(prev => new Set([...Array.from(prev), caseItem.id]));
+        setSuccessMessage(`Case reinstated to ${previousStatus}`);
         setShowSuccessPopup(true);
 
-        // Add notification for status change
         addNotification({
-          title: 'Case Cancelled',
-          message: `Case ${caseItem?.caseReferenceNumber || caseId} has been cancelled by ${currentUser.name}`,
-          type: 'warning'
+          title: 'Case Reinstated',
+          message: `Case ${caseItem.caseReferenceNumber} has been reinstated to ${previousStatus} by ${currentUser.name}`,
+          type: 'info'
         });
       } catch (error) {
-        // Failed to cancel case
+        notifyStatusTransitionError(error);
       }
-    }, 'Cancel Case');
+    }, 'Reinstate');
+  };
+
+  // Cancel every upcoming case of a recurring series - one reason is picked for all of them
+  const handleCancelSeries = (caseItem: CaseBooking) => {
+    if (!getCurrentUserSync() || !caseItem.seriesId) {
+      return;
+    }
+    setCancellingSeriesCase(caseItem);
+  };
+
+  const handleConfirmCancelSeries = async (reason: string, note: string) => {
+    const currentUser = getCurrentUserSync();
+    if (!currentUser || !cancellingSeriesCase?.seriesId) {
+      return;
+    }
+
+    try {
+      const result = await cancelCaseSeries(cancellingSeriesCase.seriesId, currentUser.name, { reason, note });
+      setCancellingSeriesCase(null);
+      refreshCases();
+
+      setSuccessMessage(`${result.updated.length} case(s) in the series cancelled`);
+      setShowSuccessPopup(true);
+
+      const failed = result.failed.map(item => `${item.caseReferenceNumber}: ${item.reason}`);
+      addNotification({
+        title: 'Series Cancelled',
+        message: `${result.updated.length} case(s) cancelled by ${currentUser.name} (${reason})` +
+          (failed.length > 0 ? `. Not cancelled - ${failed.join('; ')}` : ''),
+        type: 'warning'
+      });
+    } catch (error) {
+      notifyStatusTransitionError(error);
+    }
   };
 
   const handleCancelReceived = () => {
     setReceivedCase(null);
     setReceivedDetails('');
     setReceivedImage('');
+    setReceivedProof(EMPTY_PROOF_OF_DELIVERY_DRAFT);
   };
 
   const handleCancelCompleted = () => {
@@ -1275,7 +1452,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
 
         if (success) {
           // Reset to page 1 (case was deleted, so no need to expand)
-          setCurrentPage(1);
+          pagination.firstPage();
 
           // Add notification
           addNotification({
@@ -1300,18 +1477,11 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
     });
   };
 
-  // Pagination helpers for cases
-  const getCurrentPageCases = () => {
-    const indexOfLastCase = currentPage * casesPerPage;
-    const indexOfFirstCase = indexOfLastCase - casesPerPage;
-    return filteredCases.slice(indexOfFirstCase, indexOfLastCase);
-  };
-
-  const totalCasePages = Math.ceil(filteredCases.length / casesPerPage);
-
-  const handleCasePageChange = (pageNumber: number) => {
-    setCurrentPage(pageNumber);
-  };
+  // Position of the current page in the filtered cases, for the "Showing x to y" line
+  const firstCaseNumber = (pagination.pageNumber - 1) * pagination.pageSize + 1;
+  const totalCasePages = pagination.totalCount !== null
+    ? Math.max(Math.ceil(pagination.totalCount / pagination.pageSize), 1)
+    : null;
 
   return (
     <div className="cases-list" data-testid="cases-list">
@@ -1351,15 +1521,31 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
         showFilters={showFilters}
         availableSubmitters={availableSubmitters}
         availableHospitals={availableHospitals}
-        filteredCasesCount={filteredCases.length}
-        totalCasesCount={cases.length}
+        filteredCasesCount={pagination.totalCount ?? cases.length}
+        totalCasesCount={pagination.totalCount ?? cases.length}
         onFilterChange={handleFilterChange}
         onApplyFilters={applyFilters}
         onClearFilters={clearFilters}
         onToggleFilters={() => setShowFilters(!showFilters)}
         onQuickFilter={handleQuickFilter}
+        sortOrder={sortOrder}
+        expandCases={expandCases}
+        onApplyView={applyCaseView}
+        onSortChange={setSortOrder}
+        onExpandCasesChange={handleExpandCasesChange}
       />
 
+      {canUseBulkActions && (
+        <BulkActionsBar
+          selectedCases={selectedCaseList}
+          pageCases={cases}
+          onSelectPage={selectPageCases}
+          onClearSelection={() => setSelectedCases(new Map())}
+          onChangeStatus={handleBulkStatusChange}
+          onComplete={handleBulkActionComplete}
+        />
+      )}
+
       <div className="collapsible-section">
         <div className="section-header" onClick={() => setShowAllCases(!showAllCases)}>
           <h3>All Cases</h3>
@@ -1368,17 +1554,26 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
         {showAllCases && (
           <>
             <div className="cases-count">
-              Showing {((currentPage - 1) * casesPerPage) + 1} to {Math.min(currentPage * casesPerPage, filteredCases.length)} of {filteredCases.length} cases (Total: {cases.length})
+              {cases.length === 0
+                ? 'Showing 0 cases'
+                : `Showing ${firstCaseNumber} to ${firstCaseNumber + cases.length - 1}${pagination.totalCount !== null ? ` of ${pagination.totalCount}` : ''} cases`}
             </div>
 
             <div className="cases-container">
-              {filteredCases.length === 0 ? (
+              {cases.length === 0 ? (
                 <div className="no-cases">No cases found matching the current filters.</div>
               ) : (
-                getCurrentPageCases().map(caseItem => (
+                cases.map(caseItem => (
                   <CaseCard
                     key={caseItem.id}
                     caseItem={caseItem}
+                    clonedFromCase={caseItem.clonedFromId ? cases.find(c => c.id === caseItem.clonedFromId) : undefined}
+                    clones={clonesBySource.get(caseItem.id)}
+                    onOpenCase={setFocusedCaseId}
+                    slas={slaByCase.get(caseItem.id)}
+                    slaNow={slaNow}
+                    isSelected={selectedCases.has(caseItem.id)}
+                    onToggleSelect={canUseBulkActions ? toggleCaseSelection : undefined}
                     currentUser={currentUser}
                     expandedCases={expandedCases}
                     expandedStatusHistory={expandedStatusHistory}
@@ -1397,6 +1592,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
                     receivedCase={receivedCase}
                     receivedDetails={receivedDetails}
                     receivedImage={receivedImage}
+                    receivedProof={receivedProof}
                     completedCase={completedCase}
                     attachments={attachments}
                     orderSummary={orderSummary}
@@ -1446,6 +1642,9 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
                     onToBeBilled={handleToBeBilled}
                     onDeleteCase={handleDeleteCase}
                     onCancelCase={handleCancelCase}
+                    onCancelSeries={handleCancelSeries}
+                    onReinstateCase={handleReinstateCase}
+                    onDuplicateCase={onDuplicateCase}
                     onAttachmentUpload={handleAttachmentUpload}
                     onRemoveAttachment={removeAttachment}
                     onAmendmentDataChange={setAmendmentData}
@@ -1462,6 +1661,7 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
                     onHospitalDeliveryCommentsChange={setHospitalDeliveryComments}
                     onReceivedDetailsChange={setReceivedDetails}
                     onReceivedImageChange={setReceivedImage}
+                    onReceivedProofChange={setReceivedProof}
                     onOrderSummaryChange={setOrderSummary}
                     onDoNumberChange={setDoNumber}
                     onPendingOfficeAttachmentsChange={setPendingOfficeAttachments}
@@ -1476,57 +1676,33 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
               )}
             </div>
 
-            {totalCasePages > 1 && (
+            {(pagination.hasPreviousPage || pagination.hasNextPage) && (
               <div className="pagination-container">
                 <div className="pagination-info">
-                  Page {currentPage} of {totalCasePages}
+                  Page {pagination.pageNumber}{totalCasePages !== null && ` of ${totalCasePages}`}
                 </div>
                 <div className="pagination-controls">
                   <button
                     className="btn btn-outline-secondary btn-sm"
-                    onClick={() => handleCasePageChange(1)}
-                    disabled={currentPage === 1}
+                    onClick={pagination.firstPage}
+                    disabled={!pagination.hasPreviousPage}
                   >
                     First
                   </button>
                   <button
                     className="btn btn-outline-secondary btn-sm"
-                    onClick={() => handleCasePageChange(currentPage - 1)}
-                    disabled={currentPage === 1}
+                    onClick={pagination.previousPage}
+                    disabled={!pagination.hasPreviousPage}
                   >
                     Previous
                   </button>
-                  {[...Array(totalCasePages)].map((_, index) => {
-                    const pageNumber = index + 1;
-                    if (pageNumber === 1 || pageNumber === totalCasePages || (pageNumber >= currentPage - 2 && pageNumber <= currentPage + 2)) {
-                      return (
-                        <button
-                          key={pageNumber}
-                          className={`btn btn-sm ${pageNumber === currentPage ? 'btn-primary' : 'btn-outline-secondary'}`}
-                          onClick={() => handleCasePageChange(pageNumber)}
-                        >
-                          {pageNumber}
-                        </button>
-                      );
-                    } else if (pageNumber === currentPage - 3 || pageNumber === currentPage + 3) {
-                      return <span key={pageNumber} className="pagination-ellipsis">...</span>;
-                    }
-                    return null;
-                  })}
                   <button
                     className="btn btn-outline-secondary btn-sm"
-                    onClick={() => handleCasePageChange(currentPage + 1)}
-                    disabled={currentPage === totalCasePages}
+                    onClick={pagination.nextPage}
+                    disabled={!pagination.hasNextPage}
                   >
                     Next
                   </button>
-                  <button
-                    className="btn btn-outline-secondary btn-sm"
-                    onClick={() => handleCasePageChange(totalCasePages)}
-                    disabled={currentPage === totalCasePages}
-                  >
-                    Last
-                  </button>
                 </div>
               </div>
             )}
@@ -1560,6 +1736,23 @@ const CasesList: React.FC<CasesListProps> = ({ onProcessCase, currentUser, highl
         ] : undefined}
       />
 
+      {cancellingCase && (
+        <CancelCaseModal
+          caseItem={cancellingCase}
+          onClose={() => setCancellingCase(null)}
+          onConfirm={handleConfirmCancelCase}
+        />
+      )}
+
+      {cancellingSeriesCase && (
+        <CancelCaseModal
+          caseItem={cancellingSeriesCase}
+          series
+          onClose={() => setCancellingSeriesCase(null)}
+          onConfirm={handleConfirmCancelSeries}
+        />
+      )}
+
       {/* Amendment Form Modal */}
       {amendingCase && (() => {
         const caseToAmend = cases.find(c => c.id === amendingCase);
@@ -1,4 +1,6 @@
 import { CaseBooking, CaseStatus, User } from '../../types';
+import { ProofOfDeliveryDraft } from '../../utils/proofOfDeliveryService';
+import { CaseSlaResult } from '../../utils/caseSlaService';
 
 export interface CasesListProps {
   onProcessCase: (caseData: CaseBooking) => void;
@@ -6,10 +8,18 @@ export interface CasesListProps {
   highlightedCaseId?: string | null;
   onClearHighlight?: () => void;
   onNavigateToPermissions?: () => void;
+  onDuplicateCase?: (caseItem: CaseBooking) => void;
 }
 
 export interface CaseCardProps {
   caseItem: CaseBooking;
+  clonedFromCase?: CaseBooking;
+  clones?: CaseBooking[];
+  onOpenCase?: (caseId: string) => void;
+  slas?: CaseSlaResult[];
+  slaNow?: Date;
+  isSelected?: boolean;
+  onToggleSelect?: (caseItem: CaseBooking) => void;
   currentUser: User | null;
   expandedCases: Set<string>;
   expandedStatusHistory: Set<string>;
@@ -34,6 +44,7 @@ export interface CaseCardProps {
   receivedCase: string | null;
   receivedDetails: string;
   receivedImage: string;
+  receivedProof: ProofOfDeliveryDraft;
   completedCase: string | null;
   attachments: string[];
   orderSummary: string;
@@ -79,6 +90,9 @@ export interface CaseCardProps {
   onToBeBilled: (caseId: string) => void;
   onDeleteCase: (caseId: string, caseItem: CaseBooking) => void;
   onCancelCase: (caseId: string) => void;
+  onCancelSeries?: (caseItem: CaseBooking) => void;
+  onReinstateCase?: (caseItem: CaseBooking) => void;
+  onDuplicateCase?: (caseItem: CaseBooking) => void;
   onAttachmentUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onRemoveAttachment: (index: number) => void;
   onAmendmentDataChange: (data: Partial<CaseBooking>) => void;
@@ -93,6 +107,7 @@ export interface CaseCardProps {
   onHospitalDeliveryCommentsChange: (comments: string) => void;
   onReceivedDetailsChange: (details: string) => void;
   onReceivedImageChange: (image: string) => void;
+  onReceivedProofChange: (proof: ProofOfDeliveryDraft) => void;
   onOrderSummaryChange: (summary: string) => void;
   onDoNumberChange: (doNumber: string) => void;
   onPendingOfficeAttachmentsChange: (attachments: string[]) => void;
@@ -121,5 +136,8 @@ export interface CaseActionsProps {
   onOrderDeliveredOffice: (caseId: string) => void;
   onToBeBilled: (caseId: string) => void;
   onCancelCase: (caseId: string) => void;
+  onCancelSeries?: (caseItem: CaseBooking) => void;
+  onReinstateCase?: (caseItem: CaseBooking) => void;
+  onDuplicateCase?: (caseItem: CaseBooking) => void;
   canAmendCase: (caseItem: CaseBooking) => boolean;
 }
\ No newline at end of file
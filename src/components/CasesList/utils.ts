@@ -3,6 +3,7 @@ import { formatDateTime as formatDateTimeUtil } from '../../utils/dateFormat';
 
 export const statusOptions: CaseStatus[] = [
   'Case Booked',
+  'Loaner Received',
   'Preparing Order',
   'Order Prepared',
   'Pending Delivery (Hospital)',
@@ -19,6 +20,8 @@ export const getNextResponsibleRole = (status: CaseStatus): string | null => {
   switch (status) {
     case 'Case Booked':
       return 'Operations / Operations Manager';
+    case 'Loaner Received':
+      return 'Operations Team';
     case 'Preparing Order':
       return 'Operations Team';
     case 'Order Prepared':
@@ -65,6 +68,7 @@ export const formatDateTime = (dateTime: string) => {
 export const getStatusColor = (status: CaseStatus): string => {
   switch (status) {
     case 'Case Booked': return '#ff9800';
+    case 'Loaner Received': return '#5c6bc0';
     case 'Preparing Order': return '#e91e63';
     case 'Order Prepared': return '#9c27b0';
     case 'Pending Delivery (Hospital)': return '#4caf50';
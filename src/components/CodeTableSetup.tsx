@@ -22,6 +22,16 @@ import { useModal } from '../hooks/useModal';
 
 interface CodeTableSetupProps {}
 
+// Tables maintained per country - shown empty until the country has items
+const COUNTRY_BASED_TABLES: CodeTable[] = [
+  { id: 'hospitals', name: 'Hospitals', description: 'Manage hospitals for each country', items: [] },
+  { id: 'departments', name: 'Departments', description: 'Manage departments for each country', items: [] },
+  { id: 'cancellation_reasons', name: 'Cancellation Reasons', description: 'Manage case cancellation reasons for each country', items: [] }
+];
+
+const buildCountryBasedTables = (countryData: CodeTable[] = []): CodeTable[] =>
+  COUNTRY_BASED_TABLES.map(table => countryData.find(t => t.id === table.id) || { ...table, items: [] });
+
 const CodeTableSetup: React.FC<CodeTableSetupProps> = () => {
   const { modal, closeModal, showConfirm, showError } = useModal();
   const [countryBasedTables, setCountryBasedTables] = useState<CodeTable[]>([]);
@@ -144,41 +154,14 @@ const CodeTableSetup: React.FC<CodeTableSetupProps> = () => {
             const countryData = await getSupabaseCodeTables(selectedCountry);
             
             // Find existing tables or create empty ones
-            const hospitalsTable = countryData.find(t => t.id === 'hospitals') || {
-              id: 'hospitals',
-              name: 'Hospitals',
-              description: 'Manage hospitals for each country',
-              items: []
-            };
-
-            const departmentsTable = countryData.find(t => t.id === 'departments') || {
-              id: 'departments',
-              name: 'Departments',
-              description: 'Manage departments for each country',
-              items: []
-            };
-
-            countryBasedTablesData = [hospitalsTable, departmentsTable];
+            countryBasedTablesData = buildCountryBasedTables(countryData);
             
             // Cache the result for future use
             setCountryDataCache(prev => new Map(prev).set(selectedCountry, countryBasedTablesData));
 
           } catch (error) {
             // Fallback to empty tables
-            countryBasedTablesData = [
-              {
-                id: 'hospitals',
-                name: 'Hospitals',
-                description: 'Manage hospitals for each country',
-                items: []
-              },
-              {
-                id: 'departments',
-                name: 'Departments',
-                description: 'Manage departments for each country',
-                items: []
-              }
-            ];
+            countryBasedTablesData = buildCountryBasedTables();
             
             // Cache the fallback data too
             setCountryDataCache(prev => new Map(prev).set(selectedCountry, countryBasedTablesData));
@@ -442,21 +425,9 @@ const CodeTableSetup: React.FC<CodeTableSetupProps> = () => {
       // CRITICAL FIX: Update local state after database deletion
       // Reload the table data to reflect the deletion in the UI
       const updatedCountryData = await getSupabaseCodeTables(selectedCountry);
-      const hospitalsTable = updatedCountryData.find(t => t.id === 'hospitals') || {
-        id: 'hospitals',
-        name: 'Hospitals',
-        description: 'Manage hospitals for each country',
-        items: []
-      };
-      const departmentsTable = updatedCountryData.find(t => t.id === 'departments') || {
-        id: 'departments',
-        name: 'Departments',
-        description: 'Manage departments for each country',
-        items: []
-      };
-      
+
       // Update the country-based tables state to reflect the deletion
-      setCountryBasedTables([hospitalsTable, departmentsTable]);
+      setCountryBasedTables(buildCountryBasedTables(updatedCountryData));
 
       playSound.delete();
       showSuccess('Item Deleted', `"${itemName}" has been removed from ${table.name}`);
@@ -641,21 +612,7 @@ const CodeTableSetup: React.FC<CodeTableSetupProps> = () => {
                       setGlobalTables(filteredGlobalTables);
 
                       // Create generic country-based tables structure
-                      const genericCountryTables = [
-                        {
-                          id: 'hospitals',
-                          name: 'Hospitals',
-                          description: 'Manage hospitals for each country',
-                          items: []
-                        },
-                        {
-                          id: 'departments',
-                          name: 'Departments',
-                          description: 'Manage departments for each country',
-                          items: []
-                        }
-                      ];
-                      setCountryBasedTables(genericCountryTables);
+                      setCountryBasedTables(buildCountryBasedTables());
 
                     } catch (error) {
                     }
@@ -0,0 +1,355 @@
+/**
+ * DriverManifest - Daily delivery and collection route sheet for drivers
+ * Stops are grouped by hospital, printable (or saved as PDF from the print dialog),
+ * and each entry is marked delivered/collected through the normal status update path.
+ * Deliveries need the receiver's name and signature before they can be marked done.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
+import { useRealtimeCases } from '../hooks/useRealtimeCases';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useToast } from './ToastContainer';
+import { normalizeCountry } from '../utils/countryUtils';
+import { isStatusTransitionError } from '../utils/statusTransitionGuard';
+import { toDateKey } from '../utils/calendarViewUtils';
+import { formatScheduleLabel } from '../utils/caseRescheduleService';
+import {
+  ProofOfDeliveryDraft,
+  EMPTY_PROOF_OF_DELIVERY_DRAFT,
+  validateProofOfDelivery,
+  buildProofOfDelivery,
+  getCaseProofOfDelivery
+} from '../utils/proofOfDeliveryService';
+import ProofOfDeliveryCapture from './ProofOfDeliveryCapture';
+import ProofOfDeliveryDocument from './ProofOfDeliveryDocument';
+import {
+  ManifestEntry,
+  ManifestStop,
+  MANIFEST_TRANSITIONS,
+  selectManifestCases,
+  buildManifestStops,
+  getCurrentStopIndex,
+  moveManifestStop,
+  getManifestQuantities
+} from '../utils/driverManifestService';
+import { CaseBooking } from '../types';
+import '../assets/components/DriverManifest.css';
+
+// Same permission as the matching CasesList status buttons
+const ENTRY_PERMISSIONS = {
+  delivery: PERMISSION_ACTIONS.DELIVERED_HOSPITAL,
+  collection: PERMISSION_ACTIONS.DELIVERED_OFFICE
+};
+
+const DriverManifest: React.FC = () => {
+  const currentUser = getCurrentUserSync();
+  const { addNotification } = useNotifications();
+  const { showSuccess, showError } = useToast();
+
+  const country = normalizeCountry(currentUser?.selectedCountry || currentUser?.countries?.[0] || '');
+  const [manifestDate, setManifestDate] = useState<string>(toDateKey(new Date()));
+  const [stopOrder, setStopOrder] = useState<string[]>([]);
+  const [stopNotes, setStopNotes] = useState<Record<string, string>>({});
+  const [savingCaseId, setSavingCaseId] = useState<string | null>(null);
+  const [podTarget, setPodTarget] = useState<{ entry: ManifestEntry; stop: ManifestStop; stopNumber: number } | null>(null);
+  const [podDraft, setPodDraft] = useState<ProofOfDeliveryDraft>(EMPTY_PROOF_OF_DELIVERY_DRAFT);
+  const [podCase, setPodCase] = useState<CaseBooking | null>(null);
+
+  const { cases = [], updateCaseStatus, refreshCases, isLoading } = useRealtimeCases({
+    enableRealTime: true,
+    enableTesting: false,
+    filters: { country }
+  });
+
+  const manifestCases = useMemo(() => selectManifestCases(cases, manifestDate), [cases, manifestDate]);
+  const caseIds = useMemo(() => manifestCases.map(caseItem => caseItem.id).sort(), [manifestCases]);
+
+  const { data: quantitiesByCase = {} } = useQuery({
+    queryKey: ['manifest-quantities', caseIds],
+    queryFn: () => getManifestQuantities(caseIds),
+    enabled: caseIds.length > 0
+  });
+
+  const stops = useMemo(
+    () => buildManifestStops(manifestCases, quantitiesByCase, stopOrder),
+    [manifestCases, quantitiesByCase, stopOrder]
+  );
+  const currentStopIndex = getCurrentStopIndex(stops);
+  const pendingEntries = stops.flatMap(stop => stop.entries).filter(entry => !entry.completed);
+  const deliveryCount = pendingEntries.filter(entry => entry.type === 'delivery').length;
+  const collectionCount = pendingEntries.filter(entry => entry.type === 'collection').length;
+
+  const handleDateChange = (date: string) => {
+    setManifestDate(date);
+    setStopOrder([]);
+    setStopNotes({});
+  };
+
+  const handleStartDelivery = (entry: ManifestEntry, stop: ManifestStop, stopNumber: number) => {
+    setPodDraft(EMPTY_PROOF_OF_DELIVERY_DRAFT);
+    setPodTarget({ entry, stop, stopNumber });
+  };
+
+  const handleMarkDone = async (
+    entry: ManifestEntry,
+    stop: ManifestStop,
+    stopNumber: number,
+    proof?: ProofOfDeliveryDraft
+  ): Promise<boolean> => {
+    if (!currentUser || !hasPermission(currentUser.role, ENTRY_PERMISSIONS[entry.type])) {
+      return false;
+    }
+    if (entry.type === 'delivery' && (!proof || validateProofOfDelivery(proof).length > 0)) {
+      return false;
+    }
+
+    const { caseItem, type } = entry;
+    const action = type === 'delivery' ? 'Delivered' : 'Collected';
+    const note = stopNotes[stop.hospital]?.trim();
+
+    setSavingCaseId(caseItem.id);
+    try {
+      const additionalData = {
+        comments: `${action} at ${stop.hospital} (manifest stop ${stopNumber})${note ? ` - ${note}` : ''}`,
+        attachments: [],
+        ...(proof ? { proofOfDelivery: buildProofOfDelivery(proof, currentUser.name) } : {})
+      };
+      const updated = await updateCaseStatus(caseItem.id, MANIFEST_TRANSITIONS[type].to, JSON.stringify(additionalData));
+      if (!updated) {
+        throw new Error('The status could not be updated. Please try again.');
+      }
+      refreshCases();
+
+      showSuccess(action, `${caseItem.caseReferenceNumber} marked as ${MANIFEST_TRANSITIONS[type].to}`);
+      addNotification({
+        title: type === 'delivery' ? 'Delivered at Hospital' : 'Delivered to Office',
+        message: `Case ${caseItem.caseReferenceNumber} has been ${type === 'delivery' ? 'delivered to' : 'collected from'} ${stop.hospital} by ${currentUser.name}`,
+        type: 'success'
+      });
+      return true;
+    } catch (error) {
+      showError(
+        isStatusTransitionError(error) ? 'Status Change Rejected' : 'Update Failed',
+        error instanceof Error ? error.message : 'Could not update the case status.'
+      );
+      return false;
+    } finally {
+      setSavingCaseId(null);
+    }
+  };
+
+  const handleConfirmDelivery = async () => {
+    if (!podTarget) return;
+    const delivered = await handleMarkDone(podTarget.entry, podTarget.stop, podTarget.stopNumber, podDraft);
+    if (delivered) {
+      setPodTarget(null);
+    }
+  };
+
+  if (!currentUser || !hasPermission(currentUser.role, PERMISSION_ACTIONS.DRIVER_MANIFEST)) {
+    return (
+      <div className="permission-denied">
+        <div className="permission-denied-content">
+          <h2>🚫 Access Denied</h2>
+          <p>You don't have permission to view the driver manifest.</p>
+          <p>Contact your administrator to request access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="driver-manifest">
+      <div className="driver-manifest-header">
+        <div>
+          <h2>🚚 Driver Manifest</h2>
+          <p>
+            {country} • {formatScheduleLabel(manifestDate)} • {stops.length} stop{stops.length === 1 ? '' : 's'} •{' '}
+            {deliveryCount} to deliver • {collectionCount} to collect
+          </p>
+        </div>
+        <div className="driver-manifest-controls">
+          <label htmlFor="manifest-date">Date:</label>
+          <input
+            id="manifest-date"
+            type="date"
+            value={manifestDate}
+            onChange={(e) => e.target.value && handleDateChange(e.target.value)}
+          />
+          <button className="btn btn-outline-secondary" onClick={() => handleDateChange(toDateKey(new Date()))}>
+            Today
+          </button>
+          <button className="btn btn-primary" onClick={() => window.print()} disabled={stops.length === 0}>
+            🖨️ Print / Save PDF
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="driver-manifest-empty">Loading manifest...</div>
+      ) : stops.length === 0 ? (
+        <div className="driver-manifest-empty">No deliveries or collections for {formatScheduleLabel(manifestDate)}.</div>
+      ) : (
+        <ol className="driver-manifest-stops">
+          {stops.map((stop, index) => {
+            const isCurrent = index === currentStopIndex;
+            const isDone = stop.entries.every(entry => entry.completed);
+
+            return (
+              <li
+                key={stop.hospital}
+                className={`driver-manifest-stop ${isCurrent ? 'current' : ''} ${isDone ? 'done' : ''}`}
+              >
+                <div className="driver-manifest-stop-header">
+                  <h3>
+                    <span className="driver-manifest-stop-number">{index + 1}</span>
+                    {stop.hospital}
+                    {isDone && <span className="driver-manifest-stop-status">✓ Done</span>}
+                  </h3>
+                  <div className="driver-manifest-stop-order">
+                    <button
+                      className="btn btn-sm btn-outline-secondary"
+                      onClick={() => setStopOrder(moveManifestStop(stops, index, 'up'))}
+                      disabled={index === 0}
+                      title="Move stop earlier"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="btn btn-sm btn-outline-secondary"
+                      onClick={() => setStopOrder(moveManifestStop(stops, index, 'down'))}
+                      disabled={index === stops.length - 1}
+                      title="Move stop later"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </div>
+
+                <table className="driver-manifest-table">
+                  <thead>
+                    <tr>
+                      <th>Type</th>
+                      <th>Case / DO</th>
+                      <th>Surgery</th>
+                      <th>Sets &amp; Implant Boxes</th>
+                      <th className="driver-manifest-action-column">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stop.entries.map(entry => (
+                      <tr key={entry.caseItem.id} className={entry.completed ? 'done' : ''}>
+                        <td>
+                          <span className={`driver-manifest-type ${entry.type}`}>
+                            {entry.type === 'delivery' ? 'Deliver' : 'Collect'}
+                          </span>
+                        </td>
+                        <td>
+                          <strong>{entry.caseItem.caseReferenceNumber}</strong>
+                          <div>DO: {entry.doNumber || '—'}</div>
+                          <small>{entry.caseItem.department}</small>
+                        </td>
+                        <td>
+                          {formatScheduleLabel(entry.caseItem.dateOfSurgery, entry.caseItem.timeOfProcedure)}
+                          <div><small>{entry.caseItem.doctorName || 'No doctor assigned'}</small></div>
+                        </td>
+                        <td>
+                          {entry.items.length > 0 ? (
+                            <ul className="driver-manifest-items">
+                              {entry.items.map(item => (
+                                <li key={`${item.type}-${item.name}`}>
+                                  {item.type === 'surgery_set' ? '🏥' : '📦'} {item.name} <strong>× {item.quantity}</strong>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <small>No sets or boxes</small>
+                          )}
+                        </td>
+                        <td className="driver-manifest-action-column">
+                          {entry.completed ? (
+                            <>
+                              <span className="driver-manifest-done">✓ {entry.caseItem.status}</span>
+                              {entry.type === 'delivery' && getCaseProofOfDelivery(entry.caseItem) && (
+                                <button className="btn btn-sm btn-outline-secondary" onClick={() => setPodCase(entry.caseItem)}>
+                                  📄 POD
+                                </button>
+                              )}
+                            </>
+                          ) : (
+                            <button
+                              className="btn btn-sm btn-success"
+                              onClick={() =>
+                                entry.type === 'delivery'
+                                  ? handleStartDelivery(entry, stop, index + 1)
+                                  : handleMarkDone(entry, stop, index + 1)
+                              }
+                              disabled={
+                                !isCurrent ||
+                                savingCaseId !== null ||
+                                !hasPermission(currentUser.role, ENTRY_PERMISSIONS[entry.type])
+                              }
+                              title={isCurrent ? undefined : 'Finish the earlier stops first, or move this stop up'}
+                            >
+                              {savingCaseId === entry.caseItem.id
+                                ? 'Saving...'
+                                : entry.type === 'delivery' ? 'Mark Delivered' : 'Mark Collected'}
+                            </button>
+                          )}
+                          <span className="driver-manifest-signature">
+                            Received by: {getCaseProofOfDelivery(entry.caseItem)?.pod.receiverName || '____________'}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {isCurrent && (
+                  <input
+                    className="driver-manifest-note"
+                    type="text"
+                    value={stopNotes[stop.hospital] || ''}
+                    onChange={(e) => setStopNotes(prev => ({ ...prev, [stop.hospital]: e.target.value }))}
+                    placeholder="Optional note for this stop (e.g. left with OT nurse)"
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {podTarget && (
+        <div className="pod-overlay" onClick={() => setPodTarget(null)}>
+          <div className="pod-document pod-capture-modal" onClick={(e) => e.stopPropagation()}>
+            <h2>Proof of Delivery</h2>
+            <p className="pod-document-reference">
+              {podTarget.entry.caseItem.caseReferenceNumber} • {podTarget.stop.hospital}
+            </p>
+            <ProofOfDeliveryCapture value={podDraft} onChange={setPodDraft} disabled={savingCaseId !== null} />
+            <div className="pod-document-actions">
+              <button className="btn btn-outline-secondary" onClick={() => setPodTarget(null)} disabled={savingCaseId !== null}>
+                Cancel
+              </button>
+              <button
+                className="btn btn-success"
+                onClick={handleConfirmDelivery}
+                disabled={savingCaseId !== null || validateProofOfDelivery(podDraft).length > 0}
+              >
+                {savingCaseId ? 'Saving...' : 'Confirm Delivered'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {podCase && <ProofOfDeliveryDocument caseItem={podCase} onClose={() => setPodCase(null)} />}
+    </div>
+  );
+};
+
+export default DriverManifest;
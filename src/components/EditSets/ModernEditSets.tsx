@@ -84,6 +84,7 @@ interface SurgerySetRecord {
   procedure_type: string;
   country: string;
   is_active: boolean;
+  quantity_owned?: number | null;
 }
 
 interface ImplantBoxRecord {
@@ -94,6 +95,7 @@ interface ImplantBoxRecord {
   procedure_type: string;
   country: string;
   is_active: boolean;
+  quantity_owned?: number | null;
 }
 
 interface SurgeryImplantRecord {
@@ -356,7 +358,7 @@ const ModernEditSets: React.FC = () => {
       try {
         const { data, error } = await supabase
           .from('surgery_sets')
-          .select('id, name, description, doctor_id, procedure_type, country, is_active, sort_order')
+          .select('id, name, description, doctor_id, procedure_type, country, is_active, sort_order, quantity_owned')
           .eq('country', normalizedCountry)
           .eq(SURGERY_SETS_FIELDS.isActive, true)
           .order('sort_order', { ascending: true, nullsFirst: false })
@@ -384,7 +386,7 @@ const ModernEditSets: React.FC = () => {
       try {
         const { data, error } = await supabase
           .from('implant_boxes')
-          .select('id, name, description, doctor_id, procedure_type, country, is_active, sort_order')
+          .select('id, name, description, doctor_id, procedure_type, country, is_active, sort_order, quantity_owned')
           .eq('country', normalizedCountry)
           .eq(IMPLANT_BOXES_FIELDS.isActive, true)
           .order('sort_order', { ascending: true, nullsFirst: false })
@@ -913,6 +915,55 @@ const ModernEditSets: React.FC = () => {
     }
   }, [surgeryImplantMode, showSuccess, playSound, handleError]);
 
+  // Set owned quantity used by the booking availability check (blank = not tracked)
+  const handleEditOwnedQuantity = useCallback(async (item: SurgerySetRecord | ImplantBoxRecord) => {
+    const itemType = surgeryImplantMode === 'surgery' ? 'Surgery Set' : 'Implant Box';
+    const input = window.prompt(
+      `Units of "${item.name}" owned (leave blank to stop tracking availability):`,
+      item.quantity_owned != null ? String(item.quantity_owned) : ''
+    );
+
+    if (input === null) return;
+
+    const trimmed = input.trim();
+    const quantityOwned = trimmed === '' ? null : parseInt(trimmed, 10);
+    if (quantityOwned !== null && (isNaN(quantityOwned) || quantityOwned < 0)) {
+      handleError(new Error('Owned quantity must be a whole number of 0 or more'), `Failed to update ${itemType.toLowerCase()}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const tableName = surgeryImplantMode === 'surgery' ? 'surgery_sets' : 'implant_boxes';
+      const quantityField = surgeryImplantMode === 'surgery' ? SURGERY_SETS_FIELDS.quantityOwned : IMPLANT_BOXES_FIELDS.quantityOwned;
+
+      // The same physical item may be linked to several doctors/procedures - keep all rows in sync
+      const { error } = await supabase
+        .from(tableName)
+        .update({ [quantityField]: quantityOwned })
+        .eq('country', normalizedCountry)
+        .eq('name', item.name);
+
+      if (error) throw error;
+
+      showSuccess('Success', `${itemType} owned quantity updated`);
+      playSound?.success();
+
+      const applyQuantity = <T extends SurgerySetRecord | ImplantBoxRecord>(records: T[]) =>
+        records.map(r => r.name === item.name ? { ...r, quantity_owned: quantityOwned } : r);
+      if (surgeryImplantMode === 'surgery') {
+        setSurgerySets(prev => applyQuantity(prev));
+      } else {
+        setImplantBoxes(prev => applyQuantity(prev));
+      }
+
+    } catch (error) {
+      handleError(error, `Failed to update ${itemType.toLowerCase()}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [surgeryImplantMode, normalizedCountry, showSuccess, playSound, handleError]);
+
   // Delete surgery set or implant box
   const handleDeleteItem = useCallback(async (item: SurgerySetRecord | ImplantBoxRecord) => {
     const itemType = surgeryImplantMode === 'surgery' ? 'Surgery Set' : 'Implant Box';
@@ -1423,6 +1474,7 @@ const ModernEditSets: React.FC = () => {
                 <>
                   <h4>{item.name}</h4>
                   <p>Procedure: {item.procedure_type}</p>
+                  <p>Owned: {item.quantity_owned != null ? item.quantity_owned : 'Not tracked'}</p>
                 </>
               )}
               
@@ -1463,6 +1515,20 @@ const ModernEditSets: React.FC = () => {
                   </button>
                 </>
               )}
+              {activeTab === TABS.SURGERY_IMPLANTS && (
+                <button
+                  className="edit-button"
+                  aria-label={`Set owned quantity for ${item.name}`}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleEditOwnedQuantity(item);
+                  }}
+                  disabled={isSubmitting}
+                  title="Set owned quantity"
+                >
+                  📦
+                </button>
+              )}
               <button
                 className="edit-button"
                 aria-label={`Edit ${item.name || item.procedure_type}`}
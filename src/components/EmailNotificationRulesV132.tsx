@@ -17,7 +17,8 @@ const WORKFLOW_ORDER = [
   'To be billed',
   'Case Closed',
   'Case Cancelled', // At the end
-  'Amendments'
+  'Amendments',
+  'SLA Escalation'
 ];
 
 interface EmailNotificationRulesProps {
@@ -0,0 +1,156 @@
+/**
+ * GlobalSearch - Header search box across every case the user can see
+ * Matches case fields, status history, amendment reasons and attachment names, tolerating
+ * typos. Picking a result opens the case in the cases list, highlighted.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { formatDate } from '../utils/dateFormat';
+import { useDebounce } from '../hooks/useDebounce';
+import { getCaseAccessScope } from '../utils/caseQueryService';
+import {
+  CASE_SEARCH_SOURCE_LABELS,
+  CaseSearchResult,
+  getSearchSnippet,
+  getSearchTerms,
+  highlightSearchText,
+  searchCases
+} from '../utils/caseSearchService';
+import '../assets/components/GlobalSearch.css';
+
+// Matched texts shown under each result - the best ones first
+const MATCHES_PER_RESULT = 2;
+
+interface GlobalSearchProps {
+  onSelectCase: (caseId: string) => void;
+}
+
+const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {highlightSearchText(text, terms).map((segment, index) =>
+      segment.highlighted ? <mark key={index}>{segment.text}</mark> : <span key={index}>{segment.text}</span>
+    )}
+  </>
+);
+
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ onSelectCase }) => {
+  const currentUser = getCurrentUserSync();
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const searchRef = useRef<HTMLDivElement>(null);
+
+  const debouncedQuery = useDebounce(query.trim(), 300);
+  const terms = useMemo(() => getSearchTerms(debouncedQuery), [debouncedQuery]);
+  const scope = useMemo(() => getCaseAccessScope(currentUser), [currentUser]);
+
+  const { data: results = [], isFetching, isError } = useQuery({
+    queryKey: ['case-search', debouncedQuery, scope],
+    queryFn: () => searchCases(debouncedQuery, scope),
+    enabled: terms.length > 0,
+    staleTime: 30 * 1000
+  });
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  // Close the results when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (searchRef.current && !searchRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleSelect = (result: CaseSearchResult) => {
+    onSelectCase(result.caseId);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      setIsOpen(false);
+    } else if (event.key === 'ArrowDown' && results.length > 0) {
+      event.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => (index + 1) % results.length);
+    } else if (event.key === 'ArrowUp' && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter' && isOpen && results[activeIndex]) {
+      event.preventDefault();
+      handleSelect(results[activeIndex]);
+    }
+  };
+
+  const showResults = isOpen && terms.length > 0;
+
+  return (
+    <div className="global-search" ref={searchRef}>
+      <input
+        type="search"
+        className="global-search-input"
+        placeholder="🔍 Search cases, DO numbers, notes..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        aria-label="Search all cases"
+      />
+
+      {showResults && (
+        <div className="global-search-results" role="listbox">
+          {isFetching && results.length === 0 && (
+            <div className="global-search-message">Searching...</div>
+          )}
+          {isError && (
+            <div className="global-search-message">Search is unavailable right now</div>
+          )}
+          {!isFetching && !isError && results.length === 0 && (
+            <div className="global-search-message">No cases match "{debouncedQuery}"</div>
+          )}
+          {results.map((result, index) => (
+            <button
+              key={result.caseId}
+              type="button"
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`global-search-result ${index === activeIndex ? 'active' : ''}`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => handleSelect(result)}
+            >
+              <div className="global-search-result-header">
+                <strong><HighlightedText text={result.caseReferenceNumber} terms={terms} /></strong>
+                <span className="global-search-result-status">{result.status}</span>
+              </div>
+              <div className="global-search-result-summary">
+                <HighlightedText text={result.hospital} terms={terms} />
+                {result.doctorName && <> · <HighlightedText text={result.doctorName} terms={terms} /></>}
+                {result.dateOfSurgery && <> · {formatDate(result.dateOfSurgery)}</>}
+              </div>
+              {result.matches.slice(0, MATCHES_PER_RESULT).map((match, matchIndex) => (
+                <div key={matchIndex} className="global-search-match">
+                  <span className="global-search-match-source">{CASE_SEARCH_SOURCE_LABELS[match.source]}</span>
+                  <HighlightedText text={getSearchSnippet(match.text, terms)} terms={terms} />
+                </div>
+              ))}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
@@ -3,7 +3,7 @@ import { User } from '../types';
 import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
 import '../assets/components/MobileNavigation.css';
 
-type ActivePage = 'booking' | 'cases' | 'process' | 'users' | 'sets' | 'reports' | 'calendar' | 'permissions' | 'codetables' | 'audit-logs' | 'email-config' | 'data-import' | 'system-settings';
+type ActivePage = 'booking' | 'cases' | 'process' | 'users' | 'sets' | 'reports' | 'calendar' | 'permissions' | 'codetables' | 'audit-logs' | 'email-config' | 'data-import' | 'system-settings' | 'manifest' | 'billing' | 'price-lists';
 
 interface MobileNavigationProps {
   user: User;
@@ -118,6 +118,13 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
       icon: '📅',
       permission: PERMISSION_ACTIONS.BOOKING_CALENDAR,
       primary: true
+    },
+    {
+      id: 'manifest',
+      label: 'Manifest',
+      icon: '🚚',
+      permission: PERMISSION_ACTIONS.DRIVER_MANIFEST,
+      primary: true
     }
   ];
 
@@ -200,13 +207,24 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                       Edit Sets
                     </button>
                   )}
+                  {hasPermission(user.role, PERMISSION_ACTIONS.BILLING_EXPORT) && (
+                    <button
+                      onClick={() => handleMenuNavigate('billing')}
+                      className={`mobile-menu-item ${activePage === 'billing' ? 'active' : ''}`}
+                    >
+                      <span className="mobile-menu-icon">💰</span>
+                      Billing Export
+                    </button>
+                  )}
                 </div>
 
                 {/* Removed "More" section since StatusLegend is hidden in mobile view */}
 
                 {(hasPermission(user.role, PERMISSION_ACTIONS.VIEW_USERS) ||
                   hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS) ||
+                  hasPermission(user.role, PERMISSION_ACTIONS.DELIVERY_ORDER_TEMPLATE) ||
                   hasPermission(user.role, PERMISSION_ACTIONS.CODE_TABLE_SETUP) ||
+                  hasPermission(user.role, PERMISSION_ACTIONS.PRICE_LISTS) ||
                   hasPermission(user.role, PERMISSION_ACTIONS.VIEW_REPORTS)) && (
                   <div className="mobile-menu-section">
                     <h3>Administration</h3>
@@ -219,7 +237,8 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                         Reports
                       </button>
                     )}
-                    {hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS) && (
+                    {(hasPermission(user.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS) ||
+                      hasPermission(user.role, PERMISSION_ACTIONS.DELIVERY_ORDER_TEMPLATE)) && (
                       <button
                         onClick={() => handleMenuNavigate('system-settings')}
                         className={`mobile-menu-item ${activePage === 'system-settings' ? 'active' : ''}`}
@@ -246,6 +265,15 @@ const MobileNavigation: React.FC<MobileNavigationProps> = ({
                         Code Tables
                       </button>
                     )}
+                    {hasPermission(user.role, PERMISSION_ACTIONS.PRICE_LISTS) && (
+                      <button
+                        onClick={() => handleMenuNavigate('price-lists')}
+                        className={`mobile-menu-item ${activePage === 'price-lists' ? 'active' : ''}`}
+                      >
+                        <span className="mobile-menu-icon">💲</span>
+                        Price Lists
+                      </button>
+                    )}
                     {hasPermission(user.role, PERMISSION_ACTIONS.PERMISSION_MATRIX) && (
                       <button
                         onClick={() => handleMenuNavigate('permissions')}
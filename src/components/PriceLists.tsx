@@ -0,0 +1,372 @@
+/**
+ * PriceLists - Per-country and per-hospital price lists
+ * Unit prices for surgery sets and implant boxes, used to estimate case values in Reports
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
+import { SUPPORTED_COUNTRIES, normalizeCountry } from '../utils/countryUtils';
+import { formatDate } from '../utils/dateFormat';
+import { getHospitalsForCountry } from '../utils/supabaseCodeTableService';
+import { getSurgerySets, getImplantBoxes } from '../utils/realTimeStorage';
+import {
+  PriceList,
+  PriceListDraft,
+  PriceListItem,
+  PriceItemType,
+  validatePriceList,
+  getPriceLists,
+  savePriceList,
+  deletePriceList
+} from '../utils/priceListService';
+import { useToast } from './ToastContainer';
+import { useModal } from '../hooks/useModal';
+import CustomModal from './CustomModal';
+import '../assets/components/PriceLists.css';
+
+const ITEM_TYPE_LABELS: Record<PriceItemType, string> = {
+  surgery_set: 'Surgery Set',
+  implant_box: 'Implant Box'
+};
+
+const createEmptyDraft = (country: string): PriceListDraft => ({
+  country,
+  hospital: null,
+  name: '',
+  currency: '',
+  effectiveFrom: new Date().toISOString().split('T')[0],
+  effectiveTo: null,
+  items: []
+});
+
+const PriceLists: React.FC = () => {
+  const currentUser = getCurrentUserSync();
+  const { showSuccess, showError } = useToast();
+  const { modal, closeModal, showConfirm } = useModal();
+
+  const [country, setCountry] = useState<string>(
+    normalizeCountry(currentUser?.selectedCountry || SUPPORTED_COUNTRIES[0])
+  );
+  const [draft, setDraft] = useState<PriceListDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: priceLists = [], refetch } = useQuery({
+    queryKey: ['price-lists', country],
+    queryFn: () => getPriceLists(country)
+  });
+
+  const { data: options = { hospitals: [], surgerySets: [], implantBoxes: [] } } = useQuery({
+    queryKey: ['price-list-options', country],
+    queryFn: async () => {
+      const [hospitals, surgerySets, implantBoxes] = await Promise.all([
+        getHospitalsForCountry(country),
+        getSurgerySets(country),
+        getImplantBoxes(country)
+      ]);
+      // The same set can be linked to several doctors, so names repeat
+      return {
+        hospitals,
+        surgerySets: Array.from(new Set(surgerySets)),
+        implantBoxes: Array.from(new Set(implantBoxes))
+      };
+    }
+  });
+
+  const updateItem = (index: number, changes: Partial<PriceListItem>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      items: prev.items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    });
+  };
+
+  const addMissingItems = () => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const priced = new Set(prev.items.map(item => `${item.itemType}:${item.itemName.toLowerCase()}`));
+      const missing: PriceListItem[] = [
+        ...options.surgerySets.map(name => ({ itemType: 'surgery_set' as const, itemName: name, unitPrice: 0 })),
+        ...options.implantBoxes.map(name => ({ itemType: 'implant_box' as const, itemName: name, unitPrice: 0 }))
+      ].filter(item => !priced.has(`${item.itemType}:${item.itemName.toLowerCase()}`));
+      return { ...prev, items: [...prev.items, ...missing] };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !currentUser) return;
+
+    const errors = validatePriceList(draft, priceLists);
+    if (errors.length > 0) {
+      showError('Invalid Price List', errors.join('. '));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await savePriceList(draft, currentUser.name);
+      await refetch();
+      setDraft(null);
+      showSuccess('Price List Saved', `"${draft.name}" applies to ${draft.hospital || `all ${country} hospitals`} from ${formatDate(draft.effectiveFrom)}.`);
+    } catch (error) {
+      showError('Save Failed', error instanceof Error ? error.message : 'Failed to save the price list.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (list: PriceList) => {
+    showConfirm(
+      'Delete Price List',
+      `Delete "${list.name}"? Cases it priced will show as unpriced in reports.`,
+      async () => {
+        try {
+          await deletePriceList(list.id);
+          await refetch();
+          showSuccess('Price List Deleted', `"${list.name}" was removed.`);
+        } catch (error) {
+          showError('Delete Failed', 'Failed to delete the price list.');
+        }
+      }
+    );
+  };
+
+  if (!currentUser || (currentUser.role !== 'admin' && !hasPermission(currentUser.role, PERMISSION_ACTIONS.PRICE_LISTS))) {
+    return (
+      <div className="permission-denied">
+        <div className="permission-denied-content">
+          <h2>🚫 Access Denied</h2>
+          <p>You don't have permission to manage price lists.</p>
+          <p>Contact your administrator to request access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="price-lists">
+      <div className="price-lists-header">
+        <div>
+          <h2>💲 Price Lists</h2>
+          <p>Hospital lists override the country list; unpriced items are flagged in reports.</p>
+        </div>
+        <div className="price-lists-controls">
+          <select
+            value={country}
+            onChange={(e) => {
+              setCountry(e.target.value);
+              setDraft(null);
+            }}
+            disabled={!!draft}
+          >
+            {SUPPORTED_COUNTRIES.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          {!draft && (
+            <button className="btn btn-primary" onClick={() => setDraft(createEmptyDraft(country))}>
+              + New Price List
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft ? (
+        <div className="price-lists-panel">
+          <h3>{draft.id ? `Edit ${draft.name}` : 'New Price List'}</h3>
+          <div className="price-lists-form">
+            <label>
+              Name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. 2026 Standard Prices"
+              />
+            </label>
+            <label>
+              Hospital
+              <select
+                value={draft.hospital || ''}
+                onChange={(e) => setDraft({ ...draft, hospital: e.target.value || null })}
+              >
+                <option value="">All hospitals (country default)</option>
+                {options.hospitals.map(hospital => (
+                  <option key={hospital} value={hospital}>{hospital}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Currency
+              <input
+                type="text"
+                value={draft.currency}
+                maxLength={3}
+                onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })}
+                placeholder="SGD"
+              />
+            </label>
+            <label>
+              Effective From
+              <input
+                type="date"
+                value={draft.effectiveFrom}
+                onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+              />
+            </label>
+            <label>
+              Effective To
+              <input
+                type="date"
+                value={draft.effectiveTo || ''}
+                min={draft.effectiveFrom || undefined}
+                onChange={(e) => setDraft({ ...draft, effectiveTo: e.target.value || null })}
+              />
+              <small>Leave empty for no end date</small>
+            </label>
+          </div>
+
+          <table className="price-lists-table">
+            <thead>
+              <tr>
+                <th>Type</th>
+                <th>Item</th>
+                <th>Unit Price {draft.currency && `(${draft.currency})`}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.items.map((item, index) => (
+                <tr key={index}>
+                  <td>
+                    <select
+                      value={item.itemType}
+                      onChange={(e) => updateItem(index, { itemType: e.target.value as PriceItemType })}
+                    >
+                      {(Object.keys(ITEM_TYPE_LABELS) as PriceItemType[]).map(type => (
+                        <option key={type} value={type}>{ITEM_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={item.itemName}
+                      list={`price-list-${item.itemType}`}
+                      onChange={(e) => updateItem(index, { itemName: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={Number.isNaN(item.unitPrice) ? '' : item.unitPrice}
+                      onChange={(e) => updateItem(index, { unitPrice: parseFloat(e.target.value) })}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      className="btn btn-sm btn-outline-danger"
+                      onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="price-list-surgery_set">
+            {options.surgerySets.map(name => <option key={name} value={name} />)}
+          </datalist>
+          <datalist id="price-list-implant_box">
+            {options.implantBoxes.map(name => <option key={name} value={name} />)}
+          </datalist>
+
+          <div className="price-lists-item-actions">
+            <button
+              className="btn btn-sm btn-outline-secondary"
+              onClick={() => setDraft({ ...draft, items: [...draft.items, { itemType: 'surgery_set', itemName: '', unitPrice: 0 }] })}
+            >
+              + Add Item
+            </button>
+            <button className="btn btn-sm btn-outline-secondary" onClick={addMissingItems}>
+              + Add All {country} Sets &amp; Boxes
+            </button>
+          </div>
+
+          <div className="price-lists-panel-actions">
+            <button className="btn btn-outline-secondary" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn btn-primary" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Price List'}
+            </button>
+          </div>
+        </div>
+      ) : priceLists.length === 0 ? (
+        <div className="price-lists-empty">No price lists for {country} yet.</div>
+      ) : (
+        <table className="price-lists-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Hospital</th>
+              <th>Currency</th>
+              <th>Effective</th>
+              <th>Items</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {priceLists.map(list => (
+              <tr key={list.id}>
+                <td><strong>{list.name}</strong></td>
+                <td>{list.hospital || <em>All hospitals</em>}</td>
+                <td>{list.currency}</td>
+                <td>
+                  {formatDate(list.effectiveFrom)} – {list.effectiveTo ? formatDate(list.effectiveTo) : 'open'}
+                </td>
+                <td>{list.items.length}</td>
+                <td className="price-lists-row-actions">
+                  <button
+                    className="btn btn-sm btn-outline-secondary"
+                    onClick={() => setDraft({ ...list, items: list.items.map(item => ({ ...item })) })}
+                  >
+                    Edit
+                  </button>
+                  <button className="btn btn-sm btn-outline-danger" onClick={() => handleDelete(list)}>
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <CustomModal
+        isOpen={modal.isOpen}
+        onClose={closeModal}
+        title={modal.title}
+        message={modal.message}
+        type={modal.type}
+        actions={modal.type === 'confirm' ? [
+          {
+            label: 'Cancel',
+            onClick: closeModal,
+            style: 'secondary'
+          },
+          {
+            label: 'Delete',
+            onClick: modal.onConfirm || closeModal,
+            style: 'danger'
+          }
+        ] : undefined}
+      />
+    </div>
+  );
+};
+
+export default PriceLists;
@@ -3,6 +3,7 @@ import { CaseBooking } from '../types';
 import { useRealtimeCases } from '../hooks/useRealtimeCases';
 import { getCurrentUser } from '../utils/authCompat';
 import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
+import { isStatusTransitionError } from '../utils/statusTransitionGuard';
 import { formatDateTime } from '../utils/dateFormat';
 import { useUserNames } from '../hooks/useUserNames';
 
@@ -84,7 +85,9 @@ const ProcessOrderPage: React.FC<ProcessOrderPageProps> = ({
       }, 1000);
     } catch (error) {
       setIsProcessing(false);
-      alert('An error occurred while processing the order. Please try again.');
+      alert(isStatusTransitionError(error)
+        ? error.message
+        : 'An error occurred while processing the order. Please try again.');
     }
   };
 
@@ -0,0 +1,91 @@
+/**
+ * ProofOfDeliveryCapture - Receiver name, drawn signature and optional geotag
+ * Shared by the CasesList "Order Received" form and the driver manifest
+ */
+
+import React, { useState } from 'react';
+import SignaturePad from './common/SignaturePad';
+import {
+  ProofOfDeliveryDraft,
+  captureDeviceLocation,
+  formatPodLocation
+} from '../utils/proofOfDeliveryService';
+import '../assets/components/ProofOfDelivery.css';
+
+interface ProofOfDeliveryCaptureProps {
+  value: ProofOfDeliveryDraft;
+  onChange: (value: ProofOfDeliveryDraft) => void;
+  disabled?: boolean;
+}
+
+const ProofOfDeliveryCapture: React.FC<ProofOfDeliveryCaptureProps> = ({ value, onChange, disabled = false }) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState('');
+
+  const handleAttachLocation = async () => {
+    setIsLocating(true);
+    setLocationError('');
+    try {
+      const location = await captureDeviceLocation();
+      onChange({ ...value, location });
+    } catch (error) {
+      setLocationError(error instanceof Error ? error.message : 'Could not determine the current location');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <div className="pod-capture">
+      <div className="form-group">
+        <label htmlFor="pod-receiver-name">Received By *</label>
+        <input
+          id="pod-receiver-name"
+          type="text"
+          value={value.receiverName}
+          onChange={(e) => onChange({ ...value, receiverName: e.target.value })}
+          placeholder="Full name of the person receiving the items"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="form-group">
+        <label>Receiver Signature *</label>
+        <SignaturePad
+          value={value.signature}
+          onChange={(signature) => onChange({ ...value, signature })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="form-group pod-location">
+        <label>Location (Optional)</label>
+        {value.location ? (
+          <div className="pod-location-value">
+            <span>📍 {formatPodLocation(value.location)}</span>
+            <button
+              type="button"
+              className="btn btn-sm btn-outline-secondary"
+              onClick={() => onChange({ ...value, location: undefined })}
+              disabled={disabled}
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-secondary"
+            onClick={handleAttachLocation}
+            disabled={disabled || isLocating}
+          >
+            {isLocating ? 'Locating...' : '📍 Attach Current Location'}
+          </button>
+        )}
+        {locationError && <small className="pod-location-error">{locationError}</small>}
+      </div>
+    </div>
+  );
+};
+
+export default ProofOfDeliveryCapture;
@@ -0,0 +1,127 @@
+/**
+ * ProofOfDeliveryDocument - Printable proof of delivery for one case
+ * Printed (or saved as PDF from the print dialog) with only the document visible
+ */
+
+import React, { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CaseBooking } from '../types';
+import { formatDate, formatDateTime } from '../utils/dateFormat';
+import { formatScheduleLabel } from '../utils/caseRescheduleService';
+import {
+  buildManifestItems,
+  getDeliveryOrderNumber,
+  getManifestQuantities
+} from '../utils/driverManifestService';
+import {
+  getCaseProofOfDelivery,
+  formatPodLocation,
+  getPodMapLink
+} from '../utils/proofOfDeliveryService';
+import '../assets/components/ProofOfDelivery.css';
+
+interface ProofOfDeliveryDocumentProps {
+  caseItem: CaseBooking;
+  onClose: () => void;
+}
+
+const ProofOfDeliveryDocument: React.FC<ProofOfDeliveryDocumentProps> = ({ caseItem, onClose }) => {
+  const proof = getCaseProofOfDelivery(caseItem);
+
+  const { data: quantitiesByCase = {} } = useQuery({
+    queryKey: ['manifest-quantities', [caseItem.id]],
+    queryFn: () => getManifestQuantities([caseItem.id])
+  });
+  const items = buildManifestItems(caseItem, quantitiesByCase[caseItem.id] || {});
+  const doNumber = getDeliveryOrderNumber(caseItem);
+
+  // Print rules only apply while the document is open
+  useEffect(() => {
+    document.body.classList.add('printing-pod');
+    return () => document.body.classList.remove('printing-pod');
+  }, []);
+
+  let deliveryComments = '';
+  try {
+    deliveryComments = proof ? JSON.parse(proof.historyItem.details || '{}').comments || '' : '';
+  } catch {
+    // Details without JSON never carry a proof of delivery
+  }
+
+  return (
+    <div className="pod-overlay" onClick={onClose}>
+      <div className="pod-document" onClick={(e) => e.stopPropagation()}>
+        <div className="pod-document-actions">
+          <button className="btn btn-primary" onClick={() => window.print()} disabled={!proof}>
+            🖨️ Print / Save PDF
+          </button>
+          <button className="btn btn-outline-secondary" onClick={onClose}>Close</button>
+        </div>
+
+        <h2>Proof of Delivery</h2>
+        <p className="pod-document-reference">
+          {caseItem.caseReferenceNumber} • DO: {doNumber || '—'}
+        </p>
+
+        {!proof ? (
+          <p className="pod-document-missing">No proof of delivery was captured for this case.</p>
+        ) : (
+          <>
+            <table className="pod-document-table">
+              <tbody>
+                <tr><th>Hospital</th><td>{caseItem.hospital}</td></tr>
+                <tr><th>Department</th><td>{caseItem.department}</td></tr>
+                <tr><th>Doctor</th><td>{caseItem.doctorName || '—'}</td></tr>
+                <tr><th>Procedure</th><td>{caseItem.procedureType} - {caseItem.procedureName}</td></tr>
+                <tr><th>Surgery</th><td>{formatScheduleLabel(caseItem.dateOfSurgery, caseItem.timeOfProcedure)}</td></tr>
+                <tr><th>Delivered</th><td>{formatDateTime(proof.pod.capturedAt)}</td></tr>
+                <tr><th>Delivered By</th><td>{proof.pod.capturedBy}</td></tr>
+                <tr>
+                  <th>Location</th>
+                  <td>
+                    {proof.pod.location ? (
+                      <a href={getPodMapLink(proof.pod.location)} target="_blank" rel="noopener noreferrer">
+                        {formatPodLocation(proof.pod.location)}
+                      </a>
+                    ) : 'Not recorded'}
+                  </td>
+                </tr>
+                {deliveryComments && <tr><th>Delivery Notes</th><td>{deliveryComments}</td></tr>}
+              </tbody>
+            </table>
+
+            <h3>Items Delivered</h3>
+            {items.length > 0 ? (
+              <table className="pod-document-items">
+                <thead>
+                  <tr><th>Item</th><th>Type</th><th>Qty</th></tr>
+                </thead>
+                <tbody>
+                  {items.map(item => (
+                    <tr key={`${item.type}-${item.name}`}>
+                      <td>{item.name}</td>
+                      <td>{item.type === 'surgery_set' ? 'Surgery Set' : 'Implant Box'}</td>
+                      <td>{item.quantity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p>No sets or implant boxes on this case.</p>
+            )}
+
+            <div className="pod-document-receiver">
+              <div>
+                <strong>Received By:</strong> {proof.pod.receiverName}
+              </div>
+              <img src={proof.pod.signature} alt={`Signature of ${proof.pod.receiverName}`} className="pod-document-signature" />
+              <small>Signed {formatDate(proof.pod.capturedAt)}</small>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProofOfDeliveryDocument;
@@ -0,0 +1,431 @@
+/**
+ * ReportBuilder - Pivot table and chart over the filtered cases
+ * Rows, columns and the measure are picked here; the Reports page filters decide which
+ * cases are included. Saved definitions keep those filters and can be shared by role.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CaseBooking, CaseStatus } from '../types';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { useToast } from './ToastContainer';
+import { useModal } from '../hooks/useModal';
+import CustomModal from './CustomModal';
+import { getAllRoles } from '../data/permissionMatrixData';
+import { getManifestQuantities } from '../utils/driverManifestService';
+import { ReportFilters, toReportCsv } from '../utils/reportExportService';
+import {
+  DEFAULT_REPORT_DEFINITION,
+  PIVOT_DIMENSION_LABELS,
+  PIVOT_MEASURE_LABELS,
+  PivotChartType,
+  PivotDimension,
+  PivotMeasure,
+  PivotTable,
+  ReportDefinition,
+  buildPivot,
+  buildPivotRows,
+  canEditReportDefinition,
+  deleteReportDefinition,
+  getReportDefinitions,
+  saveReportDefinition
+} from '../utils/reportBuilderService';
+
+// Bars and line points beyond this are left out of the chart - the table shows everything
+const CHART_ROW_LIMIT = 24;
+const CHART_SERIES_LIMIT = 6;
+const SERIES_COLORS = ['#20b2aa', '#007bff', '#fd7e14', '#6f42c1', '#28a745', '#dc3545'];
+
+const formatMeasure = (value: number, measure: PivotMeasure) =>
+  measure === 'cancellationRate' ? `${value}%` : value.toLocaleString();
+
+interface ReportBuilderProps {
+  cases: CaseBooking[];
+  statusOrder: CaseStatus[];
+  getUserName: (userId: string) => string;
+  canExport: boolean;
+  appliedFilters: ReportFilters;
+  onLoadFilters: (filters: ReportFilters) => void;
+}
+
+const ReportBuilder: React.FC<ReportBuilderProps> = ({
+  cases,
+  statusOrder,
+  getUserName,
+  canExport,
+  appliedFilters,
+  onLoadFilters
+}) => {
+  const currentUser = getCurrentUserSync();
+  const { showSuccess, showError } = useToast();
+  const { showConfirm, modal, closeModal } = useModal();
+
+  const [definition, setDefinition] = useState<ReportDefinition>(DEFAULT_REPORT_DEFINITION);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const userRef = { id: currentUser?.id || '', role: currentUser?.role || '' };
+  const canEdit = canEditReportDefinition(definition, userRef);
+
+  const { data: definitions = [], refetch: refetchDefinitions } = useQuery({
+    queryKey: ['report-definitions', userRef.id],
+    queryFn: () => getReportDefinitions(userRef),
+    enabled: !!currentUser
+  });
+
+  // Booked quantities are only needed for the set and implant measures
+  const needsQuantities = definition.measure === 'setQuantity' || definition.measure === 'implantQuantity';
+  const caseIds = useMemo(() => cases.map(caseItem => caseItem.id), [cases]);
+  const { data: quantitiesByCase = {} } = useQuery({
+    queryKey: ['report-builder-quantities', caseIds],
+    queryFn: () => getManifestQuantities(caseIds),
+    enabled: needsQuantities
+  });
+
+  const pivot = useMemo(() => buildPivot({
+    cases,
+    rowDimension: definition.rowDimension,
+    columnDimension: definition.columnDimension,
+    measure: definition.measure,
+    getUserName,
+    quantitiesByCase: needsQuantities ? quantitiesByCase : {},
+    statusOrder
+  }), [cases, definition.rowDimension, definition.columnDimension, definition.measure, getUserName, needsQuantities, quantitiesByCase, statusOrder]);
+
+  const updateDefinition = (changes: Partial<ReportDefinition>) => {
+    setDefinition(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleLoad = (definitionId: string) => {
+    const selected = definitions.find(item => item.id === definitionId);
+    if (!selected) {
+      setDefinition(DEFAULT_REPORT_DEFINITION);
+      return;
+    }
+    setDefinition(selected);
+    onLoadFilters(selected.filters);
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    if (!currentUser) return;
+    if (!definition.name.trim()) {
+      showError('Name Required', 'Enter a name for the report before saving.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveReportDefinition(
+        { ...definition, id: asNew ? undefined : definition.id, filters: appliedFilters },
+        currentUser.id
+      );
+      await refetchDefinitions();
+      setDefinition(saved);
+      showSuccess('Report Saved', `"${saved.name}" was saved with the current filters.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save the report definition. Please check your permissions.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!definition.id) return;
+    showConfirm(
+      '🗑️ Delete Report',
+      `Delete the saved report "${definition.name}"?\n\nUsers it is shared with will no longer see it.`,
+      async () => {
+        try {
+          await deleteReportDefinition(definition.id as string);
+          await refetchDefinitions();
+          setDefinition(DEFAULT_REPORT_DEFINITION);
+          showSuccess('Report Deleted', `"${definition.name}" was deleted.`);
+        } catch (error) {
+          showError('Delete Failed', 'Failed to delete the report definition.');
+        }
+      }
+    );
+  };
+
+  const toggleSharedRole = (roleId: string) => {
+    updateDefinition({
+      sharedRoles: definition.sharedRoles.includes(roleId)
+        ? definition.sharedRoles.filter(role => role !== roleId)
+        : [...definition.sharedRoles, roleId]
+    });
+  };
+
+  const exportPivot = () => {
+    const csvContent = toReportCsv(buildPivotRows(pivot, definition));
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', `${(definition.name.trim() || 'custom_report').replace(/[^A-Za-z0-9-]+/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const dimensionOptions = (Object.keys(PIVOT_DIMENSION_LABELS) as PivotDimension[]).map(key => (
+    <option key={key} value={key}>{PIVOT_DIMENSION_LABELS[key]}</option>
+  ));
+
+  return (
+    <div className="performance-metrics report-builder">
+      <h3>🧩 Report Builder</h3>
+      <p className="workflow-performance-note">
+        {PIVOT_MEASURE_LABELS[definition.measure]} by {PIVOT_DIMENSION_LABELS[definition.rowDimension]}
+        {definition.columnDimension && ` and ${PIVOT_DIMENSION_LABELS[definition.columnDimension]}`} over {cases.length} cases
+        matching the applied filters.
+      </p>
+
+      <div className="performance-section report-builder-config">
+        <div className="report-builder-fields">
+          <label>
+            Saved Report
+            <select value={definition.id || ''} onChange={(e) => handleLoad(e.target.value)}>
+              <option value="">New report</option>
+              {definitions.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.name}{item.createdBy === userRef.id ? '' : ' (shared)'}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Rows
+            <select
+              value={definition.rowDimension}
+              onChange={(e) => updateDefinition({ rowDimension: e.target.value as PivotDimension })}
+            >
+              {dimensionOptions}
+            </select>
+          </label>
+          <label>
+            Columns
+            <select
+              value={definition.columnDimension}
+              onChange={(e) => updateDefinition({ columnDimension: e.target.value as PivotDimension | '' })}
+            >
+              <option value="">None (totals only)</option>
+              {dimensionOptions}
+            </select>
+          </label>
+          <label>
+            Measure
+            <select value={definition.measure} onChange={(e) => updateDefinition({ measure: e.target.value as PivotMeasure })}>
+              {(Object.keys(PIVOT_MEASURE_LABELS) as PivotMeasure[]).map(key => (
+                <option key={key} value={key}>{PIVOT_MEASURE_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Chart
+            <select value={definition.chartType} onChange={(e) => updateDefinition({ chartType: e.target.value as PivotChartType })}>
+              <option value="bar">Bar chart</option>
+              <option value="line">Line chart</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="report-builder-fields">
+          <label>
+            Name
+            <input
+              type="text"
+              value={definition.name}
+              onChange={(e) => updateDefinition({ name: e.target.value })}
+              placeholder="e.g. Implants by hospital per month"
+            />
+          </label>
+          <div className="report-builder-share">
+            <span>Share with roles</span>
+            <div className="report-builder-roles">
+              {getAllRoles().filter(role => role.id !== 'admin').map(role => (
+                <label key={role.id} className="report-builder-role">
+                  <input
+                    type="checkbox"
+                    checked={definition.sharedRoles.includes(role.id)}
+                    onChange={() => toggleSharedRole(role.id)}
+                  />
+                  {role.displayName}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="scheduled-report-actions">
+          {definition.id && canEdit && (
+            <button className="btn btn-outline-danger btn-sm" onClick={handleDelete} disabled={isSaving}>
+              Delete
+            </button>
+          )}
+          {definition.id && (
+            <button className="btn btn-outline-secondary btn-sm" onClick={() => handleSave(true)} disabled={isSaving}>
+              Save as New
+            </button>
+          )}
+          {canEdit && (
+            <button className="btn btn-primary btn-sm" onClick={() => handleSave(false)} disabled={isSaving}>
+              {isSaving ? 'Saving...' : definition.id ? 'Save Changes' : 'Save Report'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="performance-section">
+        <div className="workflow-performance-header">
+          <h4>📈 Chart</h4>
+        </div>
+        {pivot.rowKeys.length === 0 ? (
+          <div className="value-empty">No cases match the applied filters</div>
+        ) : (
+          <PivotChart pivot={pivot} definition={definition} />
+        )}
+      </div>
+
+      <div className="performance-section">
+        <div className="workflow-performance-header">
+          <h4>🧮 Pivot Table</h4>
+          {canExport && (
+            <button className="btn btn-outline-primary btn-sm" onClick={exportPivot} disabled={pivot.rowKeys.length === 0}>
+              📤 Export
+            </button>
+          )}
+        </div>
+        {pivot.rowKeys.length > 0 && (
+          <div className="detailed-table-container">
+            <table className="detailed-table report-builder-pivot">
+              <thead>
+                <tr>
+                  <th>{PIVOT_DIMENSION_LABELS[definition.rowDimension]}</th>
+                  {pivot.columnKeys.map(columnKey => (
+                    <th key={columnKey}>{columnKey}</th>
+                  ))}
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pivot.rowKeys.map(rowKey => (
+                  <tr key={rowKey}>
+                    <td>{rowKey}</td>
+                    {pivot.columnKeys.map(columnKey => (
+                      <td key={columnKey}>{formatMeasure(pivot.cells[rowKey]?.[columnKey] ?? 0, definition.measure)}</td>
+                    ))}
+                    <td className="report-builder-total">{formatMeasure(pivot.rowTotals[rowKey], definition.measure)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="report-builder-total">
+                  <td>Total</td>
+                  {pivot.columnKeys.map(columnKey => (
+                    <td key={columnKey}>{formatMeasure(pivot.columnTotals[columnKey], definition.measure)}</td>
+                  ))}
+                  <td>{formatMeasure(pivot.grandTotal, definition.measure)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <CustomModal
+        isOpen={modal.isOpen}
+        title={modal.title}
+        onClose={closeModal}
+        message={modal.message}
+        actions={modal.type === 'confirm' ? [
+          { label: 'Cancel', onClick: closeModal, style: 'secondary' },
+          { label: modal.confirmLabel || 'Confirm', onClick: () => modal.onConfirm?.(), style: 'danger' }
+        ] : [
+          { label: 'OK', onClick: closeModal, style: 'primary' }
+        ]}
+      />
+    </div>
+  );
+};
+
+// Bar chart of the row totals, or a line per column value (row totals without columns)
+const PivotChart: React.FC<{ pivot: PivotTable; definition: ReportDefinition }> = ({ pivot, definition }) => {
+  const rowKeys = pivot.rowKeys.slice(0, CHART_ROW_LIMIT);
+
+  if (definition.chartType === 'bar') {
+    const maxValue = Math.max(...rowKeys.map(rowKey => pivot.rowTotals[rowKey]), 1);
+    return (
+      <div className="chart-container report-builder-bars">
+        {rowKeys.map(rowKey => (
+          <div key={rowKey} className="report-builder-bar-row">
+            <span className="report-builder-bar-label" title={rowKey}>{rowKey}</span>
+            <div className="report-builder-bar-track">
+              <div
+                className="report-builder-bar-fill"
+                style={{ width: `${Math.max((pivot.rowTotals[rowKey] / maxValue) * 100, 1)}%` }}
+              ></div>
+            </div>
+            <span className="report-builder-bar-value">{formatMeasure(pivot.rowTotals[rowKey], definition.measure)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const series = pivot.columnKeys.length > 0
+    ? pivot.columnKeys.slice(0, CHART_SERIES_LIMIT).map(columnKey => ({
+        name: columnKey,
+        values: rowKeys.map(rowKey => pivot.cells[rowKey]?.[columnKey] ?? 0)
+      }))
+    : [{ name: 'Total', values: rowKeys.map(rowKey => pivot.rowTotals[rowKey]) }];
+
+  const width = 640;
+  const height = 240;
+  const padding = 32;
+  const maxValue = Math.max(...series.flatMap(item => item.values), 1);
+  const x = (index: number) => padding + (rowKeys.length > 1 ? (index * (width - padding * 2)) / (rowKeys.length - 1) : (width - padding * 2) / 2);
+  const y = (value: number) => height - padding - (value / maxValue) * (height - padding * 2);
+  const labelStep = Math.ceil(rowKeys.length / 12);
+
+  return (
+    <div className="chart-container report-builder-line">
+      <svg viewBox={`0 0 ${width} ${height}`} role="img" aria-label={`${PIVOT_MEASURE_LABELS[definition.measure]} line chart`}>
+        <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#dee2e6" />
+        <text x={padding} y={padding - 12} fontSize="11" fill="#6c757d">{formatMeasure(maxValue, definition.measure)}</text>
+        {series.map((item, seriesIndex) => (
+          <g key={item.name}>
+            <polyline
+              fill="none"
+              stroke={SERIES_COLORS[seriesIndex % SERIES_COLORS.length]}
+              strokeWidth="2"
+              points={item.values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+            />
+            {item.values.map((value, index) => (
+              <circle key={rowKeys[index]} cx={x(index)} cy={y(value)} r="3" fill={SERIES_COLORS[seriesIndex % SERIES_COLORS.length]}>
+                <title>{`${rowKeys[index]} · ${item.name}: ${formatMeasure(value, definition.measure)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+        {rowKeys.map((rowKey, index) => index % labelStep === 0 && (
+          <text key={rowKey} x={x(index)} y={height - padding + 16} fontSize="10" fill="#6c757d" textAnchor="middle">
+            {rowKey.length > 12 ? `${rowKey.slice(0, 11)}…` : rowKey}
+          </text>
+        ))}
+      </svg>
+      {series.length > 1 && (
+        <div className="report-builder-legend">
+          {series.map((item, seriesIndex) => (
+            <span key={item.name}>
+              <span className="report-builder-swatch" style={{ backgroundColor: SERIES_COLORS[seriesIndex % SERIES_COLORS.length] }}></span>
+              {item.name}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportBuilder;
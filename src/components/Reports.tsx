@@ -8,7 +8,36 @@ import { formatDate } from '../utils/dateFormat';
 import { useUserNames } from '../hooks/useUserNames';
 import FilterDatePicker from './FilterDatePicker';
 import SearchableDropdown from './SearchableDropdown';
+import ScheduledReports from './ScheduledReports';
+import ReportBuilder from './ReportBuilder';
 import dynamicConstantsService from '../services/dynamicConstantsService';
+import {
+  CaseValueEstimate,
+  CaseValueSummary,
+  formatCurrencyTotals,
+  formatMoney,
+  getCaseValueEstimates,
+  summarizeCaseValues
+} from '../utils/priceListService';
+import { CancellationReasonCount, summarizeCancellationReasons } from '../utils/caseCancellationService';
+import {
+  StatusStay,
+  WorkflowGroupBy,
+  buildDurationTrend,
+  formatDurationHours,
+  getAverageCycleDays,
+  getSlowestStays,
+  getStatusStays,
+  summarizeStageDurations
+} from '../utils/workflowPerformanceService';
+import {
+  DEFAULT_REPORT_FILTERS,
+  DETAILED_REPORT_HEADERS,
+  ReportFilters,
+  buildDetailedReportRows,
+  filterReportCases,
+  toReportCsv
+} from '../utils/reportExportService';
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
@@ -20,16 +49,6 @@ import {
 } from '../utils/fieldMappings';
 import '../assets/components/Reports.css';
 
-interface ReportFilters {
-  dateFrom: string;
-  dateTo: string;
-  status: CaseStatus | '';
-  country: string;
-  department: string;
-  submitter: string;
-  reportType: 'overview' | 'workflow' | 'performance' | 'detailed';
-}
-
 interface ReportData {
   totalCases: number;
   statusBreakdown: Record<CaseStatus, number>;
@@ -40,6 +59,8 @@ interface ReportData {
   averageProcessingTime: number;
   urgentCases: number;
   completionRate: number;
+  valueSummary: CaseValueSummary;
+  cancellationReasons: CancellationReasonCount[];
 }
 
 const Reports: React.FC = () => {
@@ -47,27 +68,13 @@ const Reports: React.FC = () => {
   const [filteredCases, setFilteredCases] = useState<CaseBooking[]>([]);
   const [currentUser] = useState(getCurrentUser());
   const [showFilters, setShowFilters] = useState(true);
+  const [showSchedules, setShowSchedules] = useState(false);
   const [globalCountries, setGlobalCountries] = useState<string[]>([]);
   const [globalDepartments, setGlobalDepartments] = useState<string[]>([]);
   const [caseStatuses, setCaseStatuses] = useState<any[]>([]);
-  const [filters, setFilters] = useState<ReportFilters>({
-    dateFrom: '',
-    dateTo: '',
-    status: '',
-    country: '',
-    department: '',
-    submitter: '',
-    reportType: 'overview'
-  });
-  const [tempFilters, setTempFilters] = useState<ReportFilters>({
-    dateFrom: '',
-    dateTo: '',
-    status: '',
-    country: '',
-    department: '',
-    submitter: '',
-    reportType: 'overview'
-  });
+  const [valueEstimates, setValueEstimates] = useState<Record<string, CaseValueEstimate>>({});
+  const [filters, setFilters] = useState<ReportFilters>(DEFAULT_REPORT_FILTERS);
+  const [tempFilters, setTempFilters] = useState<ReportFilters>(DEFAULT_REPORT_FILTERS);
 
   // Extract user IDs for name resolution - memoized to prevent infinite re-renders
   const userIds = useMemo(() => {
@@ -76,6 +83,7 @@ const Reports: React.FC = () => {
       if (caseItem.submittedBy) uniqueUserIds.add(caseItem.submittedBy);
       if (caseItem.processedBy) uniqueUserIds.add(caseItem.processedBy);
       if (caseItem.amendedBy) uniqueUserIds.add(caseItem.amendedBy);
+      caseItem.statusHistory?.forEach(entry => entry.processedBy && uniqueUserIds.add(entry.processedBy));
     });
     return Array.from(uniqueUserIds);
   }, [cases]);
@@ -121,6 +129,21 @@ const Reports: React.FC = () => {
     loadConstants();
   }, []);
 
+  // Estimated case values from price lists and booked quantities
+  useEffect(() => {
+    let cancelled = false;
+    getCaseValueEstimates(cases)
+      .then(estimates => {
+        if (!cancelled) setValueEstimates(estimates);
+      })
+      .catch(() => {
+        if (!cancelled) setValueEstimates({});
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cases]);
+
   // Cases are automatically loaded by useRealtimeCases hook (live data)
   // Apply initial filter when cases are loaded
   useEffect(() => {
@@ -133,43 +156,9 @@ const Reports: React.FC = () => {
   }, [filters]);
 
   // Apply filters whenever filters change - memoized to prevent infinite loops
-  const applyFiltersToCase = useCallback((cases: CaseBooking[], filters: ReportFilters) => {
-    let filtered = [...cases];
-
-    // Date range filter
-    if (filters.dateFrom) {
-      filtered = filtered.filter(c => c.dateOfSurgery >= filters.dateFrom);
-    }
-    if (filters.dateTo) {
-      filtered = filtered.filter(c => c.dateOfSurgery <= filters.dateTo);
-    }
-
-    // Status filter
-    if (filters.status) {
-      filtered = filtered.filter(c => c.status === filters.status);
-    }
-
-    // Country filter
-    if (filters.country) {
-      filtered = filtered.filter(c => c.country === filters.country);
-    }
-
-    // Department filter
-    if (filters.department) {
-      filtered = filtered.filter(c => c.department === filters.department);
-    }
-
-    // Submitter filter
-    if (filters.submitter) {
-      filtered = filtered.filter(c => {
-        const userName = getUserName(c.submittedBy);
-        return userName.toLowerCase().includes(filters.submitter.toLowerCase()) ||
-               c.submittedBy.toLowerCase().includes(filters.submitter.toLowerCase());
-      });
-    }
-
-    return filtered;
-  }, [getUserName]);
+  const applyFiltersToCase = useCallback((cases: CaseBooking[], filters: ReportFilters) =>
+    filterReportCases(cases, filters, getUserName),
+  [getUserName]);
 
   useEffect(() => {
     const filtered = applyFiltersToCase(cases, filters);
@@ -177,20 +166,24 @@ const Reports: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [cases, filters]); // Removed applyFiltersToCase from dependencies to prevent infinite loop
 
-  // Generate report data
-  const reportData: ReportData = useMemo(() => {
-    const totalCases = filteredCases.length;
-
-    // Status breakdown - use dynamic case statuses with fallback
-    const statusBreakdown: Record<CaseStatus, number> = {} as Record<CaseStatus, number>;
-    const allStatuses = caseStatuses.length > 0
+  // Dynamic case statuses (in workflow order) with fallback
+  const allStatuses = useMemo(() => (
+    caseStatuses.length > 0
       ? caseStatuses.map(s => s.status || s.display_name) as CaseStatus[]
       : [
           'Case Booked', 'Preparing Order', 'Order Prepared',
           'Pending Delivery (Hospital)', 'Delivered (Hospital)',
           'Case Completed', 'Pending Delivery (Office)', 'Delivered (Office)',
           'To be billed', 'Case Closed', 'Case Cancelled'
-        ] as CaseStatus[];
+        ] as CaseStatus[]
+  ), [caseStatuses]);
+
+  // Generate report data
+  const reportData: ReportData = useMemo(() => {
+    const totalCases = filteredCases.length;
+
+    // Status breakdown
+    const statusBreakdown: Record<CaseStatus, number> = {} as Record<CaseStatus, number>;
 
     allStatuses.forEach(status => {
       statusBreakdown[status] = filteredCases.filter(c => c.status === status).length;
@@ -243,8 +236,11 @@ const Reports: React.FC = () => {
       return daysUntil <= 3 && daysUntil >= 0 && c.status !== 'Case Completed';
     }).length;
 
-    // Calculate average processing time (mock calculation)
-    const averageProcessingTime = 2.5; // days
+    // Average days from first to last status change
+    const averageProcessingTime = getAverageCycleDays(filteredCases);
+
+    const valueSummary = summarizeCaseValues(filteredCases, valueEstimates);
+    const cancellationReasons = summarizeCancellationReasons(filteredCases);
 
     return {
       totalCases,
@@ -255,9 +251,11 @@ const Reports: React.FC = () => {
       topSubmitters,
       averageProcessingTime,
       urgentCases,
-      completionRate
+      completionRate,
+      valueSummary,
+      cancellationReasons
     };
-  }, [filteredCases, globalCountries, globalDepartments, caseStatuses, getUserName]);
+  }, [filteredCases, globalCountries, globalDepartments, allStatuses, getUserName, valueEstimates]);
 
   // Get available options for dropdowns
   const availableSubmitters = useMemo(() => {
@@ -295,17 +293,8 @@ const Reports: React.FC = () => {
   };
 
   const clearFilters = () => {
-    const defaultFilters: ReportFilters = {
-      dateFrom: '',
-      dateTo: '',
-      status: '',
-      country: '',
-      department: '',
-      submitter: '',
-      reportType: 'overview'
-    };
-    setTempFilters(defaultFilters);
-    setFilters(defaultFilters);
+    setTempFilters(DEFAULT_REPORT_FILTERS);
+    setFilters(DEFAULT_REPORT_FILTERS);
   };
 
   const exportReport = () => {
@@ -367,45 +356,7 @@ const Reports: React.FC = () => {
     // Use provided cases or fall back to filteredCases
     const exportCases = casesToExport || filteredCases;
     
-    // Enhanced headers with more details
-    const headers = [
-      'Case Reference', 'Hospital', 'Department', 'Date of Surgery', 'Time of Procedure',
-      'Procedure Type', 'Procedure Name', 'Doctor', 'Status', 'Country',
-      'Surgery Sets', 'Implant Boxes', 'Special Instructions',
-      'Submitted By', 'Submitted At', 'Processed By', 'Processed At',
-      'Amended By', 'Amended At', 'Is Amended', 'DO Number',
-      'Delivery Details', 'Order Summary'
-    ];
-
-    const rows = exportCases.map(c => [
-      c.caseReferenceNumber || '',
-      c.hospital || '',
-      c.department || '',
-      c.dateOfSurgery || '',
-      c.timeOfProcedure || '',
-      c.procedureType || '',
-      c.procedureName || '',
-      c.doctorName || '',
-      c.status || '',
-      c.country || '',
-      Array.isArray(c.surgerySetSelection) ? c.surgerySetSelection.join('; ') : '',
-      Array.isArray(c.implantBox) ? c.implantBox.join('; ') : '',
-      c.specialInstruction || '',
-      c.submittedBy || '',
-      c.submittedAt ? formatDate(new Date(c.submittedAt)) : '',
-      c.processedBy || '',
-      c.processedAt ? formatDate(new Date(c.processedAt)) : '',
-      c.amendedBy || '',
-      c.amendedAt ? formatDate(new Date(c.amendedAt)) : '',
-      c.isAmended ? 'Yes' : 'No',
-      c.doNumber || '',
-      c.deliveryDetails || '',
-      c.orderSummary || ''
-    ]);
-
-    return [headers, ...rows].map(row =>
-      row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(',')
-    ).join('\n');
+    return toReportCsv([DETAILED_REPORT_HEADERS, ...buildDetailedReportRows(exportCases, valueEstimates)]);
   };
 
   if (!hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.VIEW_REPORTS)) {
@@ -428,6 +379,15 @@ const Reports: React.FC = () => {
           <p>Comprehensive case booking analytics and insights</p>
         </div>
         <div className="reports-actions">
+          {hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.SCHEDULE_REPORTS) && (
+            <button
+              onClick={() => setShowSchedules(prev => !prev)}
+              className={`btn ${showSchedules ? 'btn-secondary' : 'btn-outline-secondary'}`}
+              title="Email this report on a schedule"
+            >
+              🗓️ Schedules
+            </button>
+          )}
           {hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.EXPORT_DATA) && (
             <button
               onClick={exportReport}
@@ -476,8 +436,10 @@ const Reports: React.FC = () => {
                         options={[
                           { value: 'overview', label: '📊 Overview Dashboard' },
                           { value: 'workflow', label: '⚡ Workflow Analysis' },
+                          { value: 'workflowPerformance', label: '⏱️ Workflow Performance' },
                           { value: 'performance', label: '📈 Performance Metrics' },
-                          { value: 'detailed', label: '📋 Detailed Report' }
+                          { value: 'detailed', label: '📋 Detailed Report' },
+                          { value: 'builder', label: '🧩 Report Builder' }
                         ]}
                         value={tempFilters.reportType}
                         onChange={(value) => handleFilterChange('reportType', value)}
@@ -648,12 +610,24 @@ const Reports: React.FC = () => {
               >
                 ⚡ Workflow
               </button>
+              <button
+                onClick={() => handleFilterChange('reportType', 'workflowPerformance')}
+                className="btn btn-outline-secondary btn-sm quick-filter-button"
+              >
+                ⏱️ Cycle Times
+              </button>
               <button
                 onClick={() => handleFilterChange('reportType', 'performance')}
                 className="btn btn-outline-secondary btn-sm quick-filter-button"
               >
                 📈 Performance
               </button>
+              <button
+                onClick={() => handleFilterChange('reportType', 'builder')}
+                className="btn btn-outline-secondary btn-sm quick-filter-button"
+              >
+                🧩 Builder
+              </button>
               <button
                 onClick={() => {
                   const today = new Date().toISOString().split('T')[0];
@@ -669,6 +643,10 @@ const Reports: React.FC = () => {
         )}
       </div>
 
+      {showSchedules && hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.SCHEDULE_REPORTS) && (
+        <ScheduledReports currentFilters={filters} />
+      )}
+
       {/* Report Content */}
       <div className="reports-content">
         {filters.reportType === 'overview' && (
@@ -677,11 +655,29 @@ const Reports: React.FC = () => {
         {filters.reportType === 'workflow' && (
           <WorkflowAnalysis data={reportData} />
         )}
+        {filters.reportType === 'workflowPerformance' && (
+          <WorkflowPerformanceReport
+            cases={filteredCases}
+            statusOrder={allStatuses}
+            getUserName={getUserName}
+            canExport={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.EXPORT_DATA)}
+          />
+        )}
         {filters.reportType === 'performance' && (
           <PerformanceMetrics data={reportData} />
         )}
         {filters.reportType === 'detailed' && (
-          <DetailedReport cases={filteredCases} getUserName={getUserName} />
+          <DetailedReport cases={filteredCases} getUserName={getUserName} valueEstimates={valueEstimates} />
+        )}
+        {filters.reportType === 'builder' && (
+          <ReportBuilder
+            cases={filteredCases}
+            statusOrder={allStatuses}
+            getUserName={getUserName}
+            canExport={hasPermission(currentUser?.role || '', PERMISSION_ACTIONS.EXPORT_DATA)}
+            appliedFilters={filters}
+            onLoadFilters={(savedFilters) => setFilters({ ...savedFilters, reportType: 'builder' })}
+          />
         )}
       </div>
     </div>
@@ -725,6 +721,40 @@ const OverviewDashboard: React.FC<{ data: ReportData }> = ({ data }) => (
       </div>
     </div>
 
+    <div className="metrics-grid">
+      <div className="metric-card primary">
+        <div className="metric-icon">💲</div>
+        <div className="metric-content">
+          <div className="metric-value money">{formatCurrencyTotals(data.valueSummary.bookedValue)}</div>
+          <div className="metric-label">Booked Value</div>
+        </div>
+      </div>
+
+      <div className="metric-card success">
+        <div className="metric-icon">🧾</div>
+        <div className="metric-content">
+          <div className="metric-value money">{formatCurrencyTotals(data.valueSummary.billedValue)}</div>
+          <div className="metric-label">Billed Value</div>
+        </div>
+      </div>
+
+      <div className="metric-card warning">
+        <div className="metric-icon">⏳</div>
+        <div className="metric-content">
+          <div className="metric-value money">{formatCurrencyTotals(data.valueSummary.pendingBillingValue)}</div>
+          <div className="metric-label">Pending Billing</div>
+        </div>
+      </div>
+
+      <div className="metric-card info">
+        <div className="metric-icon">❔</div>
+        <div className="metric-content">
+          <div className="metric-value">{data.valueSummary.unpricedCases}</div>
+          <div className="metric-label">Cases Missing Prices</div>
+        </div>
+      </div>
+    </div>
+
     <div className="charts-grid">
       <div className="chart-container">
         <h4>📈 Status Distribution</h4>
@@ -766,6 +796,46 @@ const OverviewDashboard: React.FC<{ data: ReportData }> = ({ data }) => (
           ))}
         </div>
       </div>
+
+      <div className="chart-container">
+        <h4>💲 Booked Value by Department</h4>
+        <div className="country-breakdown">
+          {Object.keys(data.valueSummary.departmentValue).length === 0 ? (
+            <div className="value-empty">No priced cases - add price lists to see department revenue</div>
+          ) : (
+            Object.entries(data.valueSummary.departmentValue)
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([department, totals]) => (
+                <div key={department} className="country-item">
+                  <span className="country-name">{department}</span>
+                  <span className="department-value">{formatCurrencyTotals(totals)}</span>
+                </div>
+              ))
+          )}
+        </div>
+      </div>
+
+      <div className="chart-container">
+        <h4>🚫 Cancellation Reasons</h4>
+        <div className="country-breakdown">
+          {data.cancellationReasons.length === 0 ? (
+            <div className="value-empty">No cancelled cases in this selection</div>
+          ) : (
+            data.cancellationReasons.map(({ reason, count, percentage }) => (
+              <div key={reason} className="country-item">
+                <span className="country-name">{reason}</span>
+                <div className="country-bar">
+                  <div
+                    className="country-bar-fill"
+                    style={{ width: `${percentage}%`, backgroundColor: getStatusColor('Case Cancelled') }}
+                  ></div>
+                </div>
+                <span className="country-count">{count}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
     </div>
   </div>
 );
@@ -808,6 +878,211 @@ const WorkflowAnalysis: React.FC<{ data: ReportData }> = ({ data }) => (
   </div>
 );
 
+const downloadCsv = (rows: Array<Array<string | number>>, fileName: string) => {
+  const csvContent = toReportCsv(rows);
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const WORKFLOW_GROUP_LABELS: Record<WorkflowGroupBy, string> = {
+  status: 'Status only',
+  country: 'Country',
+  department: 'Department',
+  hospital: 'Hospital',
+  processedBy: 'Processed By'
+};
+
+// Workflow Performance Component - time in status from status history
+const WorkflowPerformanceReport: React.FC<{
+  cases: CaseBooking[];
+  statusOrder: CaseStatus[];
+  getUserName: (userId: string) => string;
+  canExport: boolean;
+}> = ({ cases, statusOrder, getUserName, canExport }) => {
+  const [groupBy, setGroupBy] = useState<WorkflowGroupBy>('status');
+  const [selectedRow, setSelectedRow] = useState<{ status: CaseStatus; group: string } | null>(null);
+
+  const stays = useMemo(() => getStatusStays(cases), [cases]);
+  const rows = useMemo(() => summarizeStageDurations(stays, groupBy, statusOrder), [stays, groupBy, statusOrder]);
+
+  // A selected breakdown row narrows the trend and the slowest cases
+  const selectedStays = useMemo(() => (
+    selectedRow
+      ? stays.filter(stay =>
+          stay.status === selectedRow.status &&
+          (groupBy === 'status' || (stay[groupBy] || '') === selectedRow.group))
+      : stays
+  ), [stays, selectedRow, groupBy]);
+  const trend = useMemo(() => buildDurationTrend(selectedStays), [selectedStays]);
+  const slowest = useMemo(() => getSlowestStays(selectedStays), [selectedStays]);
+
+  const groupLabel = (group: string) => (groupBy === 'processedBy' ? getUserName(group) : group) || '—';
+  const selectionLabel = selectedRow
+    ? `${selectedRow.status}${groupBy === 'status' ? '' : ` · ${groupLabel(selectedRow.group)}`}`
+    : 'All statuses';
+  const maxTrendHours = Math.max(...trend.map(point => point.medianHours), 1);
+  const today = new Date().toISOString().split('T')[0];
+
+  const exportBreakdown = () => downloadCsv([
+    ['Status', ...(groupBy === 'status' ? [] : [WORKFLOW_GROUP_LABELS[groupBy]]), 'Stays', 'Median Hours', 'P90 Hours'],
+    ...rows.map(row => [row.status, ...(groupBy === 'status' ? [] : [groupLabel(row.group)]), row.count, row.medianHours, row.p90Hours])
+  ], `workflow_performance_${groupBy}_${today}.csv`);
+
+  const exportTrend = () => downloadCsv([
+    ['Month', 'Selection', 'Stays', 'Median Hours', 'P90 Hours'],
+    ...trend.map(point => [point.period, selectionLabel, point.count, point.medianHours, point.p90Hours])
+  ], `workflow_performance_trend_${today}.csv`);
+
+  const exportSlowest = () => downloadCsv([
+    ['Case Reference', 'Status', 'Hospital', 'Department', 'Country', 'Processed By', 'Entered At', 'Left At', 'Hours'],
+    ...slowest.map((stay: StatusStay) => [
+      stay.caseReferenceNumber, stay.status, stay.hospital, stay.department, stay.country,
+      getUserName(stay.processedBy), stay.enteredAt, stay.leftAt, Math.round(stay.hours * 10) / 10
+    ])
+  ], `workflow_performance_slowest_${today}.csv`);
+
+  const handleGroupByChange = (value: WorkflowGroupBy) => {
+    setGroupBy(value);
+    setSelectedRow(null);
+  };
+
+  return (
+    <div className="performance-metrics workflow-performance">
+      <h3>⏱️ Workflow Performance</h3>
+      <p className="workflow-performance-note">
+        Time each case spent in a status before moving on, from {stays.length} finished status changes in {cases.length} cases.
+      </p>
+
+      <div className="performance-section">
+        <div className="workflow-performance-header">
+          <h4>📊 Time in Status</h4>
+          <div className="workflow-performance-controls">
+            <select value={groupBy} onChange={(e) => handleGroupByChange(e.target.value as WorkflowGroupBy)}>
+              {(Object.keys(WORKFLOW_GROUP_LABELS) as WorkflowGroupBy[]).map(key => (
+                <option key={key} value={key}>{key === 'status' ? WORKFLOW_GROUP_LABELS[key] : `By ${WORKFLOW_GROUP_LABELS[key]}`}</option>
+              ))}
+            </select>
+            {canExport && (
+              <button className="btn btn-outline-primary btn-sm" onClick={exportBreakdown} disabled={rows.length === 0}>
+                📤 Export
+              </button>
+            )}
+          </div>
+        </div>
+        {rows.length === 0 ? (
+          <div className="value-empty">No status changes in this selection</div>
+        ) : (
+          <div className="detailed-table-container">
+            <table className="detailed-table">
+              <thead>
+                <tr>
+                  <th>Status</th>
+                  {groupBy !== 'status' && <th>{WORKFLOW_GROUP_LABELS[groupBy]}</th>}
+                  <th>Stays</th>
+                  <th>Median</th>
+                  <th>P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const isSelected = selectedRow?.status === row.status && selectedRow.group === row.group;
+                  return (
+                    <tr
+                      key={`${row.status}|${row.group}`}
+                      className={`workflow-performance-row ${isSelected ? 'selected' : ''}`}
+                      onClick={() => setSelectedRow(isSelected ? null : { status: row.status, group: row.group })}
+                      title="Show the trend and slowest cases for this row"
+                    >
+                      <td>{row.status}</td>
+                      {groupBy !== 'status' && <td>{groupLabel(row.group)}</td>}
+                      <td>{row.count}</td>
+                      <td>{formatDurationHours(row.medianHours)}</td>
+                      <td>{formatDurationHours(row.p90Hours)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="performance-section">
+        <div className="workflow-performance-header">
+          <h4>📅 Median Time Trend - {selectionLabel}</h4>
+          {canExport && (
+            <button className="btn btn-outline-primary btn-sm" onClick={exportTrend} disabled={trend.length === 0}>
+              📤 Export
+            </button>
+          )}
+        </div>
+        <div className="monthly-trends">
+          {trend.map(point => (
+            <div key={point.period} className="month-item" title={`P90 ${formatDurationHours(point.p90Hours)} over ${point.count} stays`}>
+              <div className="month-name">{point.period}</div>
+              <div className="month-bar">
+                <div
+                  className="month-bar-fill"
+                  style={{
+                    height: `${Math.max((point.medianHours / maxTrendHours) * 100, 5)}%`,
+                    backgroundColor: '#20b2aa'
+                  }}
+                ></div>
+              </div>
+              <div className="month-count">{formatDurationHours(point.medianHours)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="performance-section">
+        <div className="workflow-performance-header">
+          <h4>🐢 Slowest Cases - {selectionLabel}</h4>
+          {canExport && (
+            <button className="btn btn-outline-primary btn-sm" onClick={exportSlowest} disabled={slowest.length === 0}>
+              📤 Export
+            </button>
+          )}
+        </div>
+        <div className="detailed-table-container">
+          <table className="detailed-table">
+            <thead>
+              <tr>
+                <th>Case Reference</th>
+                <th>Status</th>
+                <th>Hospital</th>
+                <th>Processed By</th>
+                <th>Entered</th>
+                <th>Time in Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {slowest.map(stay => (
+                <tr key={`${stay.caseId}|${stay.enteredAt}`}>
+                  <td className="case-ref">{stay.caseReferenceNumber}</td>
+                  <td>{stay.status}</td>
+                  <td>{stay.hospital}</td>
+                  <td>{getUserName(stay.processedBy)}</td>
+                  <td>{formatDate(new Date(stay.enteredAt))}</td>
+                  <td>{formatDurationHours(stay.hours)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // Performance Metrics Component
 const PerformanceMetrics: React.FC<{ data: ReportData }> = ({ data }) => (
   <div className="performance-metrics">
@@ -850,7 +1125,11 @@ const PerformanceMetrics: React.FC<{ data: ReportData }> = ({ data }) => (
 );
 
 // Detailed Report Component
-const DetailedReport: React.FC<{ cases: CaseBooking[]; getUserName: (userId: string) => string }> = ({ cases, getUserName }) => (
+const DetailedReport: React.FC<{
+  cases: CaseBooking[];
+  getUserName: (userId: string) => string;
+  valueEstimates: Record<string, CaseValueEstimate>;
+}> = ({ cases, getUserName, valueEstimates }) => (
   <div className="detailed-report">
     <h3>📋 Detailed Case Report</h3>
     <div className="detailed-table-container">
@@ -865,6 +1144,7 @@ const DetailedReport: React.FC<{ cases: CaseBooking[]; getUserName: (userId: str
             <th>Status</th>
             <th>Country</th>
             <th>Submitted By</th>
+            <th>Est. Value</th>
           </tr>
         </thead>
         <tbody>
@@ -896,6 +1176,17 @@ const DetailedReport: React.FC<{ cases: CaseBooking[]; getUserName: (userId: str
               </td>
               <td>{caseItem.country}</td>
               <td>{getUserName(caseItem.submittedBy)}</td>
+              <td
+                className="case-value"
+                title={valueEstimates[caseItem.id]?.unpricedItems.length
+                  ? `No price for: ${valueEstimates[caseItem.id].unpricedItems.join(', ')}`
+                  : undefined}
+              >
+                {valueEstimates[caseItem.id]?.currency
+                  ? formatMoney(valueEstimates[caseItem.id].value, valueEstimates[caseItem.id].currency as string)
+                  : '—'}
+                {!!valueEstimates[caseItem.id]?.unpricedItems.length && ' ⚠️'}
+              </td>
             </tr>
           ))}
         </tbody>
@@ -0,0 +1,191 @@
+/**
+ * RescheduleCaseModal - Reason prompt for a case dropped on another day or time slot
+ * Saves through the normal amendment path; set/implant conflicts are shown before saving
+ */
+
+import React, { useState, useEffect } from 'react';
+import { CaseBooking } from '../types';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
+import { useToast } from './ToastContainer';
+import { useNotifications } from '../contexts/NotificationContext';
+import { isAmendmentLimitError } from '../utils/amendmentPolicyService';
+import type { AmendmentOutcome } from '../utils/amendmentApprovalService';
+import {
+  formatInventoryConflicts,
+  type InventoryConflict,
+  type InventoryConflictMode
+} from '../utils/inventoryAvailabilityService';
+import {
+  RescheduleChanges,
+  checkRescheduleAvailability,
+  rescheduleCase,
+  formatScheduleLabel
+} from '../utils/caseRescheduleService';
+
+interface RescheduleCaseModalProps {
+  caseItem: CaseBooking;
+  changes: RescheduleChanges;
+  onClose: () => void;
+  onRescheduled: (outcome: AmendmentOutcome) => void;
+}
+
+const RescheduleCaseModal: React.FC<RescheduleCaseModalProps> = ({ caseItem, changes, onClose, onRescheduled }) => {
+  const currentUser = getCurrentUserSync();
+  const { showSuccess, showError } = useToast();
+  const { addNotification } = useNotifications();
+  const canOverride = !!currentUser?.role && hasPermission(currentUser.role, PERMISSION_ACTIONS.OVERRIDE_AMENDMENT_LIMITS);
+
+  const [reason, setReason] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
+  const [limitMessage, setLimitMessage] = useState('');
+  const [conflicts, setConflicts] = useState<InventoryConflict[]>([]);
+  const [conflictMode, setConflictMode] = useState<InventoryConflictMode>('warn');
+  const [isChecking, setIsChecking] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkRescheduleAvailability(caseItem, changes)
+      .then(({ conflicts: found, settings }) => {
+        if (cancelled) return;
+        setConflicts(found);
+        setConflictMode(settings.conflictMode);
+      })
+      .catch(error => console.error('Failed to check availability for reschedule:', error))
+      .finally(() => !cancelled && setIsChecking(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [caseItem, changes]);
+
+  const isBlocked = conflicts.length > 0 && conflictMode === 'block';
+  const needsOverrideReason = !!limitMessage && canOverride;
+
+  const handleSave = async () => {
+    if (!reason.trim() || isBlocked || (needsOverrideReason && !overrideReason.trim())) return;
+
+    setIsSaving(true);
+    try {
+      const outcome = await rescheduleCase(caseItem, changes, {
+        amendmentReason: reason,
+        amendmentOverrideReason: needsOverrideReason ? overrideReason : undefined
+      });
+
+      if (!outcome) {
+        throw new Error('The amendment could not be saved. Please try again.');
+      }
+      // Same notifications as an amendment saved from the form
+      if (outcome === 'pending-approval') {
+        showSuccess('Reschedule Submitted', `Moving ${caseItem.caseReferenceNumber} is awaiting operations approval.`);
+        addNotification({
+          title: 'Amendment Submitted',
+          message: `Amendment for case ${caseItem.caseReferenceNumber} is awaiting operations approval`,
+          type: 'info'
+        }, 'case-amended', caseItem.country, caseItem.department);
+      } else if (outcome === 'applied') {
+        showSuccess('Case Rescheduled', `${caseItem.caseReferenceNumber} moved to ${formatScheduleLabel(changes.dateOfSurgery, changes.timeOfProcedure || caseItem.timeOfProcedure)}.`);
+        addNotification({
+          title: 'Case Amended',
+          message: `Case ${caseItem.caseReferenceNumber} has been successfully amended by ${currentUser?.name}`,
+          type: 'success'
+        }, 'case-amended', caseItem.country, caseItem.department);
+      }
+      onRescheduled(outcome);
+    } catch (error) {
+      if (isAmendmentLimitError(error)) {
+        // Limit holders can retry with an override reason, everyone else is stopped here
+        setLimitMessage(error.message);
+        if (!canOverride) {
+          showError('Reschedule Not Allowed', error.message);
+        }
+      } else {
+        showError('Reschedule Failed', error instanceof Error ? error.message : 'Could not reschedule the case.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="more-cases-modal-overlay" onClick={onClose}>
+      <div className="more-cases-modal reschedule-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="more-cases-header">
+          <h3>Reschedule {caseItem.caseReferenceNumber}</h3>
+          <button className="close-button" onClick={onClose}>✕</button>
+        </div>
+
+        <div className="reschedule-content">
+          <p className="reschedule-summary">
+            <span>{formatScheduleLabel(caseItem.dateOfSurgery, caseItem.timeOfProcedure)}</span>
+            <span> → </span>
+            <strong>{formatScheduleLabel(changes.dateOfSurgery, changes.timeOfProcedure || caseItem.timeOfProcedure)}</strong>
+          </p>
+          <p className="reschedule-details">{caseItem.procedureType} at {caseItem.hospital}</p>
+
+          {isChecking ? (
+            <p className="reschedule-checking">Checking set and implant availability...</p>
+          ) : conflicts.length > 0 && (
+            <div className={`inventory-conflicts ${isBlocked ? 'blocking' : ''}`}>
+              <strong>
+                {isBlocked
+                  ? 'Cannot move - not enough sets/implants on the new date:'
+                  : 'Warning - not enough sets/implants on the new date:'}
+              </strong>
+              <pre>{formatInventoryConflicts(conflicts)}</pre>
+            </div>
+          )}
+
+          <label htmlFor="reschedule-reason">Amendment Reason *</label>
+          <textarea
+            id="reschedule-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this case being moved?"
+            rows={3}
+            autoFocus
+          />
+
+          {limitMessage && (
+            <div className="reschedule-limit">
+              <small>{limitMessage}</small>
+              {canOverride && (
+                <>
+                  <label htmlFor="reschedule-override-reason">Override Reason *</label>
+                  <textarea
+                    id="reschedule-override-reason"
+                    value={overrideReason}
+                    onChange={(e) => setOverrideReason(e.target.value)}
+                    placeholder="This reason is recorded in the amendment history"
+                    rows={2}
+                  />
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="reschedule-actions">
+            <button className="nav-button" onClick={onClose} disabled={isSaving}>Cancel</button>
+            <button
+              className="nav-button"
+              onClick={handleSave}
+              disabled={
+                isSaving ||
+                isChecking ||
+                isBlocked ||
+                !reason.trim() ||
+                (!!limitMessage && !canOverride) ||
+                (needsOverrideReason && !overrideReason.trim())
+              }
+            >
+              {isSaving ? 'Saving...' : conflicts.length > 0 ? 'Move Anyway' : 'Move Case'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RescheduleCaseModal;
@@ -0,0 +1,384 @@
+/**
+ * ScheduledReports - Saved report definitions emailed on a schedule
+ * Shown on the Reports page: new schedules start from the filters currently applied,
+ * and the run history shows every delivery with its failure reason
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { useToast } from './ToastContainer';
+import { useModal } from '../hooks/useModal';
+import CustomModal from './CustomModal';
+import { formatDateTime } from '../utils/dateFormat';
+import { getCountryTimeZone } from '../utils/icsCalendarService';
+import { COUNTRY_TIME_ZONES } from '../utils/timeZones';
+import { REPORT_TYPE_LABELS, ReportFilters } from '../utils/reportExportService';
+import {
+  DEFAULT_REPORT_SCHEDULE,
+  ReportFormat,
+  ReportFrequency,
+  ReportSchedule,
+  deleteReportSchedule,
+  getReportRuns,
+  getReportSchedules,
+  parseRecipients,
+  runReportSchedule,
+  saveReportSchedule,
+  validateReportSchedule
+} from '../utils/scheduledReportService';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  xlsx: 'Excel (XLSX) attachment',
+  csv: 'CSV attachment',
+  html: 'HTML summary in the email'
+};
+
+const TIME_ZONES = Array.from(new Set(Object.values(COUNTRY_TIME_ZONES)));
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+const describeSchedule = (schedule: ReportSchedule): string => {
+  const at = `${formatHour(schedule.hour)} (${schedule.timeZone})`;
+  if (schedule.frequency === 'daily') return `Daily at ${at}`;
+  if (schedule.frequency === 'weekly') return `${WEEKDAYS[schedule.dayOfWeek]}s at ${at}`;
+  return `Day ${schedule.dayOfMonth} of each month at ${at}`;
+};
+
+interface ScheduledReportsProps {
+  currentFilters: ReportFilters;
+}
+
+const ScheduledReports: React.FC<ScheduledReportsProps> = ({ currentFilters }) => {
+  const currentUser = getCurrentUserSync();
+  const { showSuccess, showError } = useToast();
+  const { showConfirm, modal, closeModal } = useModal();
+
+  const [draft, setDraft] = useState<ReportSchedule | null>(null);
+  const [recipientsText, setRecipientsText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyScheduleId, setBusyScheduleId] = useState<string | null>(null);
+
+  const { data: schedules = [], refetch: refetchSchedules } = useQuery({
+    queryKey: ['report-schedules'],
+    queryFn: getReportSchedules
+  });
+
+  const { data: runs = [], refetch: refetchRuns } = useQuery({
+    queryKey: ['report-runs'],
+    queryFn: () => getReportRuns()
+  });
+
+  const scheduleNames = new Map(schedules.map(schedule => [schedule.id, schedule.name]));
+
+  const startNewSchedule = () => {
+    setDraft({
+      ...DEFAULT_REPORT_SCHEDULE,
+      filters: currentFilters,
+      timeZone: currentFilters.country ? getCountryTimeZone(currentFilters.country) : DEFAULT_REPORT_SCHEDULE.timeZone
+    });
+    setRecipientsText(currentUser?.email || '');
+  };
+
+  const editSchedule = (schedule: ReportSchedule) => {
+    setDraft(schedule);
+    setRecipientsText(schedule.recipients.join('\n'));
+  };
+
+  const updateDraft = (changes: Partial<ReportSchedule>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft || !currentUser) return;
+
+    const schedule = { ...draft, recipients: parseRecipients(recipientsText) };
+    const errors = validateReportSchedule(schedule);
+    if (errors.length > 0) {
+      showError('Invalid Schedule', errors.join('. '));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveReportSchedule(schedule, currentUser.name);
+      await refetchSchedules();
+      setDraft(null);
+      showSuccess('Schedule Saved', `"${saved.name}" will next be sent ${saved.nextRunAt ? formatDateTime(saved.nextRunAt) : 'soon'}.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save the report schedule. Please check your permissions.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (schedule: ReportSchedule) => {
+    if (!currentUser) return;
+
+    setBusyScheduleId(schedule.id || null);
+    try {
+      await saveReportSchedule({ ...schedule, enabled: !schedule.enabled }, currentUser.name);
+      await refetchSchedules();
+    } catch (error) {
+      showError('Update Failed', 'Failed to update the report schedule.');
+    } finally {
+      setBusyScheduleId(null);
+    }
+  };
+
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setBusyScheduleId(schedule.id || null);
+    try {
+      const run = await runReportSchedule(schedule);
+      await Promise.all([refetchSchedules(), refetchRuns()]);
+      if (run.status === 'success') {
+        showSuccess('Report Sent', `"${schedule.name}" was sent to ${run.recipients.length} recipient(s).`);
+      } else {
+        showError('Report Failed', run.error || `"${schedule.name}" could not be sent.`);
+      }
+    } catch (error) {
+      showError('Report Failed', `"${schedule.name}" could not be sent. Please check your permissions.`);
+    } finally {
+      setBusyScheduleId(null);
+    }
+  };
+
+  const handleDelete = (schedule: ReportSchedule) => {
+    showConfirm(
+      '🗑️ Delete Schedule',
+      `Stop sending "${schedule.name}" and delete the schedule?\n\nIts run history is kept.`,
+      async () => {
+        try {
+          await deleteReportSchedule(schedule.id as string);
+          await refetchSchedules();
+          showSuccess('Schedule Deleted', `"${schedule.name}" will no longer be sent.`);
+        } catch (error) {
+          showError('Delete Failed', 'Failed to delete the report schedule.');
+        }
+      }
+    );
+  };
+
+  return (
+    <div className="scheduled-reports">
+      <div className="scheduled-reports-header">
+        <div>
+          <h3>🗓️ Scheduled Reports</h3>
+          <p>Email a saved report to a recipient list daily, weekly or monthly through the admin mailbox.</p>
+        </div>
+        {!draft && (
+          <button className="btn btn-primary btn-sm" onClick={startNewSchedule}>
+            + Schedule Current Report
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="scheduled-report-form">
+          <div className="scheduled-report-filters">
+            {REPORT_TYPE_LABELS[draft.filters.reportType]}
+            {draft.filters.country && ` · ${draft.filters.country}`}
+            {draft.filters.department && ` · ${draft.filters.department}`}
+            {draft.filters.status && ` · ${draft.filters.status}`}
+            {draft.filters.submitter && ` · ${draft.filters.submitter}`}
+            {(draft.filters.dateFrom || draft.filters.dateTo) && ` · ${draft.filters.dateFrom || '…'} to ${draft.filters.dateTo || '…'}`}
+            {draft.id && (
+              <button className="btn btn-outline-secondary btn-sm" onClick={() => updateDraft({ filters: currentFilters })}>
+                Use Current Filters
+              </button>
+            )}
+          </div>
+          <div className="scheduled-report-fields">
+            <label>
+              Name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="e.g. Monday cases to be billed"
+              />
+            </label>
+            <label>
+              Frequency
+              <select value={draft.frequency} onChange={(e) => updateDraft({ frequency: e.target.value as ReportFrequency })}>
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </label>
+            {draft.frequency === 'weekly' && (
+              <label>
+                Day
+                <select value={draft.dayOfWeek} onChange={(e) => updateDraft({ dayOfWeek: parseInt(e.target.value) })}>
+                  {WEEKDAYS.map((day, index) => (
+                    <option key={day} value={index}>{day}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {draft.frequency === 'monthly' && (
+              <label>
+                Day of Month
+                <input
+                  type="number"
+                  min="1"
+                  max="28"
+                  value={draft.dayOfMonth}
+                  onChange={(e) => updateDraft({ dayOfMonth: parseInt(e.target.value) || 1 })}
+                />
+              </label>
+            )}
+            <label>
+              Send At
+              <select value={draft.hour} onChange={(e) => updateDraft({ hour: parseInt(e.target.value) })}>
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour)}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Time Zone
+              <select value={draft.timeZone} onChange={(e) => updateDraft({ timeZone: e.target.value })}>
+                {(TIME_ZONES.includes(draft.timeZone) ? TIME_ZONES : [draft.timeZone, ...TIME_ZONES]).map(timeZone => (
+                  <option key={timeZone} value={timeZone}>{timeZone}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Format
+              <select value={draft.format} onChange={(e) => updateDraft({ format: e.target.value as ReportFormat })}>
+                {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(format => (
+                  <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="scheduled-report-recipients">
+              Recipients
+              <textarea
+                value={recipientsText}
+                onChange={(e) => setRecipientsText(e.target.value)}
+                placeholder="One email address per line"
+                rows={3}
+              />
+            </label>
+          </div>
+          <div className="scheduled-report-actions">
+            <button className="btn btn-outline-secondary btn-sm" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Schedule'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {schedules.length === 0 ? (
+        <div className="value-empty">No scheduled reports yet</div>
+      ) : (
+        <div className="detailed-table-container">
+          <table className="detailed-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Report</th>
+                <th>Schedule</th>
+                <th>Recipients</th>
+                <th>Next Send</th>
+                <th>Last Run</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map(schedule => (
+                <tr key={schedule.id} className={schedule.enabled ? '' : 'scheduled-report-disabled'}>
+                  <td className="case-ref">{schedule.name}</td>
+                  <td>{REPORT_TYPE_LABELS[schedule.filters.reportType]} ({schedule.format.toUpperCase()})</td>
+                  <td>{describeSchedule(schedule)}</td>
+                  <td title={schedule.recipients.join(', ')}>{schedule.recipients.length}</td>
+                  <td>{schedule.enabled && schedule.nextRunAt ? formatDateTime(schedule.nextRunAt) : 'Paused'}</td>
+                  <td>
+                    {schedule.lastRunAt ? (
+                      <span className={`scheduled-report-status ${schedule.lastRunStatus}`}>
+                        {schedule.lastRunStatus === 'success' ? '✅' : '❌'} {formatDateTime(schedule.lastRunAt)}
+                      </span>
+                    ) : '—'}
+                  </td>
+                  <td className="scheduled-report-row-actions">
+                    <button
+                      className="btn btn-outline-primary btn-sm"
+                      onClick={() => handleSendNow(schedule)}
+                      disabled={busyScheduleId === schedule.id}
+                    >
+                      {busyScheduleId === schedule.id ? 'Sending...' : 'Send Now'}
+                    </button>
+                    <button className="btn btn-outline-secondary btn-sm" onClick={() => editSchedule(schedule)}>Edit</button>
+                    <button
+                      className="btn btn-outline-secondary btn-sm"
+                      onClick={() => handleToggleEnabled(schedule)}
+                      disabled={busyScheduleId === schedule.id}
+                    >
+                      {schedule.enabled ? 'Pause' : 'Resume'}
+                    </button>
+                    <button className="btn btn-outline-danger btn-sm" onClick={() => handleDelete(schedule)}>Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h4>📜 Run History</h4>
+      {runs.length === 0 ? (
+        <div className="value-empty">No reports have been sent yet</div>
+      ) : (
+        <div className="detailed-table-container">
+          <table className="detailed-table">
+            <thead>
+              <tr>
+                <th>Sent</th>
+                <th>Schedule</th>
+                <th>Trigger</th>
+                <th>Cases</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(run => (
+                <tr key={run.id} className={run.status === 'failed' ? 'scheduled-report-failed' : ''}>
+                  <td>{formatDateTime(run.startedAt)}</td>
+                  <td>{scheduleNames.get(run.scheduleId) || 'Deleted schedule'}</td>
+                  <td>{run.trigger === 'manual' ? 'Send Now' : 'Scheduled'}</td>
+                  <td>{run.caseCount}</td>
+                  <td>
+                    {run.status === 'success'
+                      ? `✅ Sent to ${run.recipients.length} recipient(s)`
+                      : `❌ ${run.error || 'Failed'}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <CustomModal
+        isOpen={modal.isOpen}
+        title={modal.title}
+        onClose={closeModal}
+        message={modal.message}
+        actions={modal.type === 'confirm' ? [
+          { label: 'Cancel', onClick: closeModal, style: 'secondary' },
+          { label: modal.confirmLabel || 'Confirm', onClick: () => modal.onConfirm?.(), style: 'danger' }
+        ] : [
+          { label: 'OK', onClick: closeModal, style: 'primary' }
+        ]}
+      />
+    </div>
+  );
+};
+
+export default ScheduledReports;
@@ -16,6 +16,7 @@ const StatusLegend: React.FC = () => {
 
   const statusList: { status: CaseStatus; description: string }[] = [
     { status: 'Case Booked', description: 'Initial case submission' },
+    { status: 'Loaner Received', description: 'Loaner sets received from supplier' },
     { status: 'Preparing Order', description: 'Processing order details' },
     { status: 'Order Prepared', description: 'Ready for sales approved' },
     { status: 'Sales Approved', description: 'Sales team has approved the order' },
@@ -16,6 +16,60 @@ import {
   resetSystemConfig,
   applySystemConfig
 } from '../utils/systemSettingsService';
+import {
+  InventorySettings,
+  DEFAULT_INVENTORY_SETTINGS,
+  getInventorySettings,
+  saveInventorySettings
+} from '../utils/inventoryAvailabilityService';
+import {
+  CaseReferenceFormat,
+  DEFAULT_CASE_REFERENCE_FORMAT,
+  getCaseReferenceFormat,
+  saveCaseReferenceFormat,
+  formatCaseReference,
+  validateCaseReferenceFormat
+} from '../utils/caseReferenceService';
+import {
+  AmendmentApprovalSettings,
+  DEFAULT_AMENDMENT_APPROVAL_SETTINGS,
+  getAmendmentApprovalSettings,
+  saveAmendmentApprovalSettings
+} from '../utils/amendmentApprovalService';
+import {
+  DeliveryOrderTemplate,
+  DEFAULT_DELIVERY_ORDER_TEMPLATE,
+  DELIVERY_ORDER_PLACEHOLDERS,
+  getDeliveryOrderTemplate,
+  saveDeliveryOrderTemplate,
+  formatDeliveryOrderNumber,
+  validateDeliveryOrderTemplate
+} from '../utils/deliveryOrderService';
+import {
+  DEFAULT_SLA_SETTINGS,
+  SLA_DUE_SOON_HOURS,
+  SLA_ESCALATION_NOTIFICATION_RULE,
+  SlaRule,
+  SlaSettings,
+  getSlaSettings,
+  saveSlaSettings,
+  validateSlaSettings
+} from '../utils/caseSlaService';
+import {
+  StatusTransitionDefinition,
+  StatusWorkflowDefinition,
+  WORKFLOW_PERMISSION_OPTIONS,
+  WORKFLOW_STATUS_OPTIONS,
+  WorkflowRequiredField,
+  clearStatusWorkflowCache,
+  getDefaultStatusWorkflow,
+  getStatusWorkflow,
+  saveStatusWorkflow,
+  validateWorkflowDefinition
+} from '../utils/statusWorkflowService';
+import { getAllRoles, permissionActions } from '../data/permissionMatrixData';
+import { CaseStatus } from '../types';
+import { SUPPORTED_COUNTRIES, normalizeCountry } from '../utils/countryUtils';
 import { getAppVersion, getBuildInfo } from '../utils/version';
 import '../assets/components/AdminComponents.css';
 import '../assets/components/SystemSettings.css';
@@ -36,6 +90,11 @@ const SystemSettings: React.FC = () => {
     performance: boolean;
     security: boolean;
     amendment: boolean;
+    workflow: boolean;
+    sla: boolean;
+    inventory: boolean;
+    caseReference: boolean;
+    deliveryOrder: boolean;
     notification: boolean;
     ui: boolean;
   }>({
@@ -43,12 +102,63 @@ const SystemSettings: React.FC = () => {
     performance: false,
     security: false,
     amendment: false,
+    workflow: false,
+    sla: false,
+    inventory: false,
+    caseReference: false,
+    deliveryOrder: false,
     notification: false,
     ui: false
   });
 
+  // Per-country set/implant availability rules (saved separately from the global config)
+  const [inventoryCountry, setInventoryCountry] = useState<string>(
+    normalizeCountry(currentUser?.selectedCountry || SUPPORTED_COUNTRIES[0])
+  );
+  const [inventorySettings, setInventorySettings] = useState<InventorySettings>(DEFAULT_INVENTORY_SETTINGS);
+  const [isSavingInventory, setIsSavingInventory] = useState(false);
+
+  // Per-country amendment approval threshold (saved separately from the global config)
+  const [approvalCountry, setApprovalCountry] = useState<string>(
+    normalizeCountry(currentUser?.selectedCountry || SUPPORTED_COUNTRIES[0])
+  );
+  const [approvalSettings, setApprovalSettings] = useState<AmendmentApprovalSettings>(DEFAULT_AMENDMENT_APPROVAL_SETTINGS);
+  const [approvalStatuses, setApprovalStatuses] = useState<CaseStatus[]>([]);
+  const [isSavingApproval, setIsSavingApproval] = useState(false);
+
+  // Per-country status workflow (statuses, transitions and their permissions)
+  const [workflowCountry, setWorkflowCountry] = useState<string>(
+    normalizeCountry(currentUser?.selectedCountry || SUPPORTED_COUNTRIES[0])
+  );
+  const [workflowDraft, setWorkflowDraft] = useState<StatusWorkflowDefinition | null>(null);
+  const [isSavingWorkflow, setIsSavingWorkflow] = useState(false);
+
+  // Per-country SLA rules and escalation role
+  const [slaCountry, setSlaCountry] = useState<string>(
+    normalizeCountry(currentUser?.selectedCountry || SUPPORTED_COUNTRIES[0])
+  );
+  const [slaSettings, setSlaSettings] = useState<SlaSettings>(DEFAULT_SLA_SETTINGS);
+  const [slaStatuses, setSlaStatuses] = useState<CaseStatus[]>([]);
+  const [isSavingSla, setIsSavingSla] = useState(false);
+
+  // Per-country case reference format (applies to new cases only)
+  const [referenceCountry, setReferenceCountry] = useState<string>(
+    normalizeCountry(currentUser?.selectedCountry || SUPPORTED_COUNTRIES[0])
+  );
+  const [referenceFormat, setReferenceFormat] = useState<CaseReferenceFormat>(DEFAULT_CASE_REFERENCE_FORMAT);
+  const [isSavingReferenceFormat, setIsSavingReferenceFormat] = useState(false);
+  const [departmentCodesText, setDepartmentCodesText] = useState('');
+
+  // Per-country delivery order template (operations can edit this without full settings access)
+  const [doTemplateCountry, setDoTemplateCountry] = useState<string>(
+    normalizeCountry(currentUser?.selectedCountry || SUPPORTED_COUNTRIES[0])
+  );
+  const [doTemplate, setDoTemplate] = useState<DeliveryOrderTemplate>(DEFAULT_DELIVERY_ORDER_TEMPLATE);
+  const [isSavingDoTemplate, setIsSavingDoTemplate] = useState(false);
+
   // Check permissions - admin override
   const canManageSettings = currentUser ? (currentUser.role === 'admin' || hasPermission(currentUser.role, PERMISSION_ACTIONS.SYSTEM_SETTINGS)) : false;
+  const canManageDoTemplate = canManageSettings || (!!currentUser && hasPermission(currentUser.role, PERMISSION_ACTIONS.DELIVERY_ORDER_TEMPLATE));
 
   const loadSystemConfig = useCallback(async () => {
     setIsLoading(true);
@@ -98,6 +208,223 @@ const SystemSettings: React.FC = () => {
     }
   }, [canManageSettings, loadSystemConfig]);
 
+  useEffect(() => {
+    if (canManageSettings) {
+      getInventorySettings(inventoryCountry).then(setInventorySettings);
+    }
+  }, [canManageSettings, inventoryCountry]);
+
+  useEffect(() => {
+    if (canManageSettings) {
+      getAmendmentApprovalSettings(approvalCountry).then(setApprovalSettings);
+      getStatusWorkflow(approvalCountry).then(workflow => setApprovalStatuses(workflow.statuses));
+    }
+  }, [canManageSettings, approvalCountry]);
+
+  useEffect(() => {
+    if (canManageSettings) {
+      // Always edit the stored definition, not a copy cached before another admin's save
+      clearStatusWorkflowCache(workflowCountry);
+      getStatusWorkflow(workflowCountry).then(setWorkflowDraft);
+    }
+  }, [canManageSettings, workflowCountry]);
+
+  useEffect(() => {
+    if (canManageSettings) {
+      getSlaSettings(slaCountry).then(setSlaSettings);
+      getStatusWorkflow(slaCountry).then(workflow => setSlaStatuses(workflow.statuses));
+    }
+  }, [canManageSettings, slaCountry]);
+
+  useEffect(() => {
+    if (canManageSettings) {
+      getCaseReferenceFormat(referenceCountry).then(format => {
+        setReferenceFormat(format);
+        setDepartmentCodesText(
+          Object.entries(format.departmentCodes)
+            .map(([department, code]) => `${department}=${code}`)
+            .join('\n')
+        );
+      });
+    }
+  }, [canManageSettings, referenceCountry]);
+
+  useEffect(() => {
+    if (canManageDoTemplate) {
+      getDeliveryOrderTemplate(doTemplateCountry).then(setDoTemplate);
+    }
+  }, [canManageDoTemplate, doTemplateCountry]);
+
+  const handleSaveDoTemplate = async () => {
+    const templateErrors = validateDeliveryOrderTemplate(doTemplate);
+    if (templateErrors.length > 0) {
+      showError('Invalid Template', templateErrors.join('. '));
+      return;
+    }
+
+    setIsSavingDoTemplate(true);
+    try {
+      await saveDeliveryOrderTemplate(doTemplateCountry, doTemplate);
+      showSuccess('Settings Saved', `New ${doTemplateCountry} delivery orders will be numbered like ${formatDeliveryOrderNumber(doTemplate, doTemplateCountry, 1)}.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save the delivery order template. Please check your permissions.');
+    } finally {
+      setIsSavingDoTemplate(false);
+    }
+  };
+
+  const handleSaveReferenceFormat = async () => {
+    const formatErrors = validateCaseReferenceFormat(referenceFormat);
+    if (formatErrors.length > 0) {
+      showError('Invalid Format', formatErrors.join('. '));
+      return;
+    }
+
+    setIsSavingReferenceFormat(true);
+    try {
+      await saveCaseReferenceFormat(referenceCountry, referenceFormat);
+      showSuccess('Settings Saved', `New ${referenceCountry} cases will use references like ${formatCaseReference({ format: referenceFormat, country: referenceCountry, counter: 1, department: 'Orthopedics' })}.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save case reference format. Please check your permissions.');
+    } finally {
+      setIsSavingReferenceFormat(false);
+    }
+  };
+
+  const handleDepartmentCodesChange = (text: string) => {
+    setDepartmentCodesText(text);
+    const departmentCodes: Record<string, string> = {};
+    text.split('\n').forEach(line => {
+      const [department, code] = line.split('=');
+      if (department && department.trim() && code !== undefined) {
+        departmentCodes[department.trim()] = code.trim();
+      }
+    });
+    setReferenceFormat(prev => ({ ...prev, departmentCodes }));
+  };
+
+  const toggleWorkflowStatus = (status: CaseStatus) => {
+    setWorkflowDraft(prev => prev ? ({
+      ...prev,
+      statuses: prev.statuses.includes(status)
+        ? prev.statuses.filter(s => s !== status)
+        : WORKFLOW_STATUS_OPTIONS.filter(s => s === status || prev.statuses.includes(s))
+    }) : prev);
+  };
+
+  const updateWorkflowTransition = (index: number, changes: Partial<StatusTransitionDefinition>) => {
+    setWorkflowDraft(prev => prev ? ({
+      ...prev,
+      transitions: prev.transitions.map((transition, i) => (i === index ? { ...transition, ...changes } : transition))
+    }) : prev);
+  };
+
+  const toggleTransitionRequiredField = (index: number, field: WorkflowRequiredField) => {
+    const requiredFields = workflowDraft?.transitions[index]?.requiredFields || [];
+    updateWorkflowTransition(index, {
+      requiredFields: requiredFields.includes(field)
+        ? requiredFields.filter(f => f !== field)
+        : [...requiredFields, field]
+    });
+  };
+
+  const handleAddWorkflowTransition = () => {
+    setWorkflowDraft(prev => prev ? ({
+      ...prev,
+      transitions: [
+        ...prev.transitions,
+        { from: prev.statuses[0], to: prev.statuses[1] || prev.statuses[0], permission: WORKFLOW_PERMISSION_OPTIONS[0], label: '' }
+      ]
+    }) : prev);
+  };
+
+  const handleRemoveWorkflowTransition = (index: number) => {
+    setWorkflowDraft(prev => prev ? ({ ...prev, transitions: prev.transitions.filter((_, i) => i !== index) }) : prev);
+  };
+
+  const handleSaveWorkflow = async () => {
+    if (!workflowDraft) return;
+
+    const workflowErrors = validateWorkflowDefinition(workflowDraft);
+    if (workflowErrors.length > 0) {
+      showError('Invalid Workflow', workflowErrors.join('. '));
+      return;
+    }
+
+    setIsSavingWorkflow(true);
+    try {
+      await saveStatusWorkflow({ ...workflowDraft, country: workflowCountry });
+      showSuccess('Settings Saved', `The ${workflowCountry} status workflow has been updated.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save the status workflow. Please check your permissions.');
+    } finally {
+      setIsSavingWorkflow(false);
+    }
+  };
+
+  const updateSlaRule = (ruleId: string, changes: Partial<SlaRule>) => {
+    setSlaSettings(prev => ({
+      ...prev,
+      rules: prev.rules.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule))
+    }));
+  };
+
+  const handleAddSlaRule = () => {
+    setSlaSettings(prev => ({
+      ...prev,
+      rules: [
+        ...prev.rules,
+        { id: `sla-${Date.now()}`, name: '', targetStatus: slaStatuses[1] || 'Order Prepared', anchor: 'before_surgery', hours: 24 }
+      ]
+    }));
+  };
+
+  const handleRemoveSlaRule = (ruleId: string) => {
+    setSlaSettings(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== ruleId) }));
+  };
+
+  const handleSaveSlaSettings = async () => {
+    const slaErrors = validateSlaSettings(slaSettings, slaStatuses);
+    if (slaErrors.length > 0) {
+      showError('Invalid SLA Rules', slaErrors.join('. '));
+      return;
+    }
+
+    setIsSavingSla(true);
+    try {
+      await saveSlaSettings(slaCountry, slaSettings);
+      showSuccess('Settings Saved', `SLA rules for ${slaCountry} have been updated.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save SLA rules. Please check your permissions.');
+    } finally {
+      setIsSavingSla(false);
+    }
+  };
+
+  const handleSaveApprovalSettings = async () => {
+    setIsSavingApproval(true);
+    try {
+      await saveAmendmentApprovalSettings(approvalCountry, approvalSettings);
+      showSuccess('Settings Saved', `Amendment approval rules for ${approvalCountry} have been updated.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save amendment approval rules. Please check your permissions.');
+    } finally {
+      setIsSavingApproval(false);
+    }
+  };
+
+  const handleSaveInventorySettings = async () => {
+    setIsSavingInventory(true);
+    try {
+      await saveInventorySettings(inventoryCountry, inventorySettings);
+      showSuccess('Settings Saved', `Set availability rules for ${inventoryCountry} have been updated.`);
+    } catch (error) {
+      showError('Save Failed', 'Failed to save set availability rules. Please check your permissions.');
+    } finally {
+      setIsSavingInventory(false);
+    }
+  };
+
   // Check for changes
   useEffect(() => {
     if (config && originalConfig) {
@@ -258,6 +585,151 @@ const SystemSettings: React.FC = () => {
     );
   };
 
+  const renderDoTemplateFields = () => (
+    <>
+      <div className="setting-item">
+        <label>Country</label>
+        <select
+          value={doTemplateCountry}
+          onChange={(e) => setDoTemplateCountry(e.target.value)}
+        >
+          {SUPPORTED_COUNTRIES.map(country => (
+            <option key={country} value={country}>{country}</option>
+          ))}
+        </select>
+        <small>Changes apply to delivery orders issued from now on</small>
+      </div>
+      <div className="setting-item">
+        <label>DO Number Prefix</label>
+        <input
+          type="text"
+          value={doTemplate.numberPrefix}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, numberPrefix: e.target.value }))}
+          maxLength={10}
+        />
+        <small>Letters and numbers only, e.g. DO</small>
+      </div>
+      <div className="setting-item">
+        <label>Year Format</label>
+        <select
+          value={doTemplate.yearFormat}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, yearFormat: e.target.value as DeliveryOrderTemplate['yearFormat'] }))}
+        >
+          <option value="YYYY">Four digits (2026)</option>
+          <option value="YY">Two digits (26)</option>
+          <option value="none">Not included</option>
+        </select>
+        <small>The DO sequence restarts each year unless the year is not included</small>
+      </div>
+      <div className="setting-item">
+        <label>Number Padding</label>
+        <input
+          type="number"
+          value={doTemplate.padding}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, padding: parseInt(e.target.value) || 1 }))}
+          min="1"
+          max="8"
+        />
+      </div>
+      <div className="setting-item">
+        <label>Document Title</label>
+        <input
+          type="text"
+          value={doTemplate.title}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, title: e.target.value }))}
+        />
+      </div>
+      <div className="setting-item">
+        <label>Company Name</label>
+        <input
+          type="text"
+          value={doTemplate.companyName}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, companyName: e.target.value }))}
+        />
+      </div>
+      <div className="setting-item">
+        <label>Company Details</label>
+        <textarea
+          value={doTemplate.companyDetails}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, companyDetails: e.target.value }))}
+          rows={3}
+          placeholder={'Address\nPhone / Email\nCompany registration no.'}
+        />
+      </div>
+      <div className="setting-item">
+        <label>Header Note</label>
+        <textarea
+          value={doTemplate.headerNote}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, headerNote: e.target.value }))}
+          rows={2}
+        />
+      </div>
+      <div className="setting-item">
+        <label>Footer Note</label>
+        <textarea
+          value={doTemplate.footerNote}
+          onChange={(e) => setDoTemplate(prev => ({ ...prev, footerNote: e.target.value }))}
+          rows={3}
+        />
+        <small>Placeholders: {DELIVERY_ORDER_PLACEHOLDERS.map(name => `{{${name}}}`).join(' ')}</small>
+      </div>
+      <div className="setting-item">
+        <label>
+          <input
+            type="checkbox"
+            checked={doTemplate.showDoctor}
+            onChange={(e) => setDoTemplate(prev => ({ ...prev, showDoctor: e.target.checked }))}
+          />
+          Show Doctor
+        </label>
+      </div>
+      <div className="setting-item">
+        <label>
+          <input
+            type="checkbox"
+            checked={doTemplate.showSignatureBlock}
+            onChange={(e) => setDoTemplate(prev => ({ ...prev, showSignatureBlock: e.target.checked }))}
+          />
+          Show Signature Block
+        </label>
+        <small>Issued by / delivered by / received by lines at the bottom of the DO</small>
+      </div>
+      <div className="setting-item">
+        <label>Preview</label>
+        <input
+          type="text"
+          value={formatDeliveryOrderNumber(doTemplate, doTemplateCountry, 1)}
+          disabled
+        />
+        <small>Example for the first DO of the year</small>
+      </div>
+      <div className="setting-item">
+        <button
+          onClick={handleSaveDoTemplate}
+          disabled={isSavingDoTemplate}
+          className="btn btn-primary"
+        >
+          {isSavingDoTemplate ? 'Saving...' : `Save ${doTemplateCountry} Template`}
+        </button>
+      </div>
+    </>
+  );
+
+  // Delivery order template holders without full settings access only see their section
+  if (!canManageSettings && canManageDoTemplate) {
+    return (
+      <div className="admin-container">
+        <div className="admin-header">
+          <h2>Delivery Order Template</h2>
+          <p>Per-country delivery order layout and DO number format.</p>
+        </div>
+        <div className="admin-section">
+          {renderDoTemplateFields()}
+        </div>
+      </div>
+    );
+  }
+
   if (!canManageSettings) {
     return (
       <div className="admin-container">
@@ -587,8 +1059,467 @@ const SystemSettings: React.FC = () => {
           />
           <small>Maximum number of amendments allowed per case (1-20)</small>
         </div>
+        <div className="setting-item">
+          <label>Approval Rules Country</label>
+          <select
+            value={approvalCountry}
+            onChange={(e) => setApprovalCountry(e.target.value)}
+          >
+            {SUPPORTED_COUNTRIES.map(country => (
+              <option key={country} value={country}>{country}</option>
+            ))}
+          </select>
+          <small>Amendment approval is configured per country and saved separately</small>
+        </div>
+        <div className="setting-item">
+          <label>
+            <input
+              type="checkbox"
+              checked={approvalSettings.enabled}
+              onChange={(e) => setApprovalSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+            />
+            Require Approval for Late Amendments
+          </label>
+          <small>Amendments become change requests that operations must approve before they apply</small>
+        </div>
+        <div className="setting-item">
+          <label>Approval Required From Status</label>
+          <select
+            value={approvalSettings.fromStatus}
+            onChange={(e) => setApprovalSettings(prev => ({ ...prev, fromStatus: e.target.value as CaseStatus }))}
+            disabled={!approvalSettings.enabled}
+          >
+            {approvalStatuses.map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+          <small>Cases at this status or later in the {approvalCountry} workflow need approval</small>
+        </div>
+        <div className="setting-item">
+          <button
+            onClick={handleSaveApprovalSettings}
+            disabled={isSavingApproval}
+            className="btn btn-primary"
+          >
+            {isSavingApproval ? 'Saving...' : `Save ${approvalCountry} Approval Rules`}
+          </button>
+        </div>
+      </CollapsibleSection>
+
+        {/* Status Workflow Settings */}
+        <CollapsibleSection
+          title="Status Workflow"
+          description="Case statuses, allowed transitions and the permission each one needs"
+          sectionKey="workflow"
+          icon="🔀"
+        >
+        <div className="setting-item">
+          <label>Country</label>
+          <select
+            value={workflowCountry}
+            onChange={(e) => setWorkflowCountry(e.target.value)}
+          >
+            {SUPPORTED_COUNTRIES.map(country => (
+              <option key={country} value={country}>{country}</option>
+            ))}
+          </select>
+          <small>Each country has its own lifecycle; changes apply to the next status change</small>
+        </div>
+        {workflowDraft && (
+          <>
+            <div className="setting-item">
+              <label>Statuses</label>
+              <div className="workflow-status-options">
+                {WORKFLOW_STATUS_OPTIONS.map(status => (
+                  <label key={status}>
+                    <input
+                      type="checkbox"
+                      checked={workflowDraft.statuses.includes(status)}
+                      onChange={() => toggleWorkflowStatus(status)}
+                    />
+                    {status}
+                  </label>
+                ))}
+              </div>
+              <small>Case Cancelled is always available for cancel and reinstate transitions</small>
+            </div>
+            {workflowDraft.transitions.map((transition, index) => (
+              <div key={index} className="setting-item workflow-transition-row">
+                <select
+                  value={transition.from}
+                  onChange={(e) => updateWorkflowTransition(index, { from: e.target.value as CaseStatus })}
+                  title="From status"
+                >
+                  {[...workflowDraft.statuses, ...(workflowDraft.legacyStatuses || []), 'Case Cancelled' as CaseStatus].map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
+                </select>
+                <span>→</span>
+                <select
+                  value={transition.to}
+                  onChange={(e) => updateWorkflowTransition(index, { to: e.target.value as CaseStatus })}
+                  title="To status"
+                >
+                  {[...workflowDraft.statuses, ...(workflowDraft.legacyStatuses || []), 'Case Cancelled' as CaseStatus].map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={transition.label}
+                  onChange={(e) => updateWorkflowTransition(index, { label: e.target.value })}
+                  placeholder="Button label"
+                />
+                <select
+                  value={transition.permission}
+                  onChange={(e) => updateWorkflowTransition(index, { permission: e.target.value })}
+                  title="Required permission"
+                >
+                  {WORKFLOW_PERMISSION_OPTIONS.map(permission => (
+                    <option key={permission} value={permission}>
+                      {permissionActions.find(action => action.id === permission)?.name || permission}
+                    </option>
+                  ))}
+                </select>
+                {(['doNumber', 'attachments', 'comments'] as WorkflowRequiredField[]).map(field => (
+                  <label key={field}>
+                    <input
+                      type="checkbox"
+                      checked={(transition.requiredFields || []).includes(field)}
+                      onChange={() => toggleTransitionRequiredField(index, field)}
+                    />
+                    {field === 'doNumber' ? 'DO number' : field}
+                  </label>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveWorkflowTransition(index)}
+                  className="btn btn-outline-danger btn-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="setting-item">
+              <button type="button" onClick={handleAddWorkflowTransition} className="btn btn-outline-secondary btn-sm">
+                + Add Transition
+              </button>
+              <button
+                type="button"
+                onClick={() => setWorkflowDraft(getDefaultStatusWorkflow(workflowCountry))}
+                className="btn btn-outline-secondary btn-sm"
+              >
+                Reset to Default
+              </button>
+              <small>Reset loads the built-in workflow; it is not stored until you save</small>
+            </div>
+            <div className="setting-item">
+              <button
+                onClick={handleSaveWorkflow}
+                disabled={isSavingWorkflow}
+                className="btn btn-primary"
+              >
+                {isSavingWorkflow ? 'Saving...' : `Save ${workflowCountry} Workflow`}
+              </button>
+            </div>
+          </>
+        )}
+      </CollapsibleSection>
+
+        {/* Case SLA Settings */}
+        <CollapsibleSection
+          title="Case SLAs"
+          description="Deadlines per workflow stage and who is alerted when a case runs late"
+          sectionKey="sla"
+          icon="⏰"
+        >
+        <div className="setting-item">
+          <label>Country</label>
+          <select
+            value={slaCountry}
+            onChange={(e) => setSlaCountry(e.target.value)}
+          >
+            {SUPPORTED_COUNTRIES.map(country => (
+              <option key={country} value={country}>{country}</option>
+            ))}
+          </select>
+          <small>SLA rules are configured per country</small>
+        </div>
+        <div className="setting-item">
+          <label>
+            <input
+              type="checkbox"
+              checked={slaSettings.enabled}
+              onChange={(e) => setSlaSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+            />
+            Track SLAs
+          </label>
+          <small>Shows overdue badges on case cards and enables the Breaching SLA filter</small>
+        </div>
+        <div className="setting-item">
+          <label>Escalate Breaches To</label>
+          <select
+            value={slaSettings.escalationRole}
+            onChange={(e) => setSlaSettings(prev => ({ ...prev, escalationRole: e.target.value }))}
+            disabled={!slaSettings.enabled}
+          >
+            <option value="">Select a role</option>
+            {getAllRoles().map(role => (
+              <option key={role.id} value={role.id}>{role.displayName}</option>
+            ))}
+          </select>
+          <small>Checked every 15 minutes and sent once per breach using the "{SLA_ESCALATION_NOTIFICATION_RULE}" email notification rule for {slaCountry}</small>
+        </div>
+        {slaSettings.rules.map(rule => (
+          <div key={rule.id} className="setting-item sla-rule-row">
+            <input
+              type="text"
+              value={rule.name}
+              onChange={(e) => updateSlaRule(rule.id, { name: e.target.value })}
+              placeholder="Rule name"
+            />
+            <select
+              value={rule.targetStatus}
+              onChange={(e) => updateSlaRule(rule.id, { targetStatus: e.target.value as CaseStatus })}
+              title="Status the case must reach"
+            >
+              {slaStatuses.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={rule.hours}
+              onChange={(e) => updateSlaRule(rule.id, { hours: parseInt(e.target.value) || 0 })}
+              min="1"
+              title="Hours"
+            />
+            <select
+              value={rule.anchor}
+              onChange={(e) => updateSlaRule(rule.id, {
+                anchor: e.target.value as SlaRule['anchor'],
+                anchorStatus: e.target.value === 'after_status' ? rule.anchorStatus || slaStatuses[0] : undefined
+              })}
+            >
+              <option value="before_surgery">hours before surgery</option>
+              <option value="after_status">hours after entering</option>
+            </select>
+            {rule.anchor === 'after_status' && (
+              <select
+                value={rule.anchorStatus || ''}
+                onChange={(e) => updateSlaRule(rule.id, { anchorStatus: e.target.value as CaseStatus })}
+              >
+                {slaStatuses.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+            )}
+            <button
+              type="button"
+              onClick={() => handleRemoveSlaRule(rule.id)}
+              className="btn btn-outline-danger btn-sm"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="setting-item">
+          <button type="button" onClick={handleAddSlaRule} className="btn btn-outline-secondary btn-sm">
+            + Add SLA Rule
+          </button>
+          <small>Cases within {SLA_DUE_SOON_HOURS} hours of a deadline are flagged as due soon</small>
+        </div>
+        <div className="setting-item">
+          <button
+            onClick={handleSaveSlaSettings}
+            disabled={isSavingSla}
+            className="btn btn-primary"
+          >
+            {isSavingSla ? 'Saving...' : `Save ${slaCountry} SLA Rules`}
+          </button>
+        </div>
+      </CollapsibleSection>
+
+        {/* Set Availability Settings */}
+        <CollapsibleSection
+          title="Set Availability"
+          description="Double-booking checks for surgery sets and implant boxes"
+          sectionKey="inventory"
+          icon="📦"
+        >
+        <div className="setting-item">
+          <label>Country</label>
+          <select
+            value={inventoryCountry}
+            onChange={(e) => setInventoryCountry(e.target.value)}
+          >
+            {SUPPORTED_COUNTRIES.map(country => (
+              <option key={country} value={country}>{country}</option>
+            ))}
+          </select>
+          <small>Availability rules are configured per country</small>
+        </div>
+        <div className="setting-item">
+          <label>Turnaround Buffer (days)</label>
+          <input
+            type="number"
+            value={inventorySettings.turnaroundDays}
+            onChange={(e) => setInventorySettings(prev => ({ ...prev, turnaroundDays: parseInt(e.target.value) || 0 }))}
+            min="0"
+            max="14"
+          />
+          <small>Days a set stays unavailable after its surgery date for return and reprocessing (0-14)</small>
+        </div>
+        <div className="setting-item">
+          <label>When Stock Is Exceeded</label>
+          <select
+            value={inventorySettings.conflictMode}
+            onChange={(e) => setInventorySettings(prev => ({ ...prev, conflictMode: e.target.value as InventorySettings['conflictMode'] }))}
+          >
+            <option value="warn">Warn and allow booking</option>
+            <option value="block">Block the booking</option>
+          </select>
+          <small>Only items with an owned quantity set in Edit Sets are checked</small>
+        </div>
+        <div className="setting-item">
+          <button
+            onClick={handleSaveInventorySettings}
+            disabled={isSavingInventory}
+            className="btn btn-primary"
+          >
+            {isSavingInventory ? 'Saving...' : `Save ${inventoryCountry} Rules`}
+          </button>
+        </div>
+      </CollapsibleSection>
+
+        {/* Case Reference Format Settings */}
+        <CollapsibleSection
+          title="Case Reference Format"
+          description="Per-country pattern for new case reference numbers"
+          sectionKey="caseReference"
+          icon="🔢"
+        >
+        <div className="setting-item">
+          <label>Country</label>
+          <select
+            value={referenceCountry}
+            onChange={(e) => setReferenceCountry(e.target.value)}
+          >
+            {SUPPORTED_COUNTRIES.map(country => (
+              <option key={country} value={country}>{country}</option>
+            ))}
+          </select>
+          <small>Changes apply to new cases only - existing references are kept</small>
+        </div>
+        <div className="setting-item">
+          <label>Prefix</label>
+          <input
+            type="text"
+            value={referenceFormat.prefix}
+            onChange={(e) => setReferenceFormat(prev => ({ ...prev, prefix: e.target.value }))}
+            maxLength={10}
+          />
+          <small>Letters and numbers only, e.g. TMC</small>
+        </div>
+        <div className="setting-item">
+          <label>Country Segment</label>
+          <select
+            value={referenceFormat.countrySegment}
+            onChange={(e) => setReferenceFormat(prev => ({ ...prev, countrySegment: e.target.value as CaseReferenceFormat['countrySegment'] }))}
+          >
+            <option value="name">Country name</option>
+            <option value="code">Country code</option>
+            <option value="none">Not included</option>
+          </select>
+        </div>
+        <div className="setting-item">
+          <label>Year Format</label>
+          <select
+            value={referenceFormat.yearFormat}
+            onChange={(e) => setReferenceFormat(prev => ({ ...prev, yearFormat: e.target.value as CaseReferenceFormat['yearFormat'] }))}
+          >
+            <option value="YYYY">Four digits (2026)</option>
+            <option value="YY">Two digits (26)</option>
+            <option value="none">Not included</option>
+          </select>
+          <small>Numbering restarts each year unless the year is not included</small>
+        </div>
+        <div className="setting-item">
+          <label>Number Padding</label>
+          <input
+            type="number"
+            value={referenceFormat.padding}
+            onChange={(e) => setReferenceFormat(prev => ({ ...prev, padding: parseInt(e.target.value) || 1 }))}
+            min="1"
+            max="8"
+          />
+          <small>Minimum digits in the running number (1-8)</small>
+        </div>
+        <div className="setting-item">
+          <label>Separator</label>
+          <select
+            value={referenceFormat.separator}
+            onChange={(e) => setReferenceFormat(prev => ({ ...prev, separator: e.target.value }))}
+          >
+            <option value="-">Dash (-)</option>
+            <option value="_">Underscore (_)</option>
+            <option value="/">Slash (/)</option>
+            <option value="">None</option>
+          </select>
+        </div>
+        <div className="setting-item">
+          <label>
+            <input
+              type="checkbox"
+              checked={referenceFormat.includeDepartmentCode}
+              onChange={(e) => setReferenceFormat(prev => ({ ...prev, includeDepartmentCode: e.target.checked }))}
+            />
+            Include Department Code
+          </label>
+          <small>Unmapped departments use their initials</small>
+        </div>
+        {referenceFormat.includeDepartmentCode && (
+          <div className="setting-item">
+            <label>Department Codes</label>
+            <textarea
+              value={departmentCodesText}
+              onChange={(e) => handleDepartmentCodesChange(e.target.value)}
+              rows={4}
+              placeholder={'Orthopedics=ORT\nSpine=SPN'}
+            />
+            <small>One per line as Department=CODE</small>
+          </div>
+        )}
+        <div className="setting-item">
+          <label>Preview</label>
+          <input
+            type="text"
+            value={formatCaseReference({ format: referenceFormat, country: referenceCountry, counter: 1, department: 'Orthopedics' })}
+            disabled
+          />
+          <small>Example for the first Orthopedics case</small>
+        </div>
+        <div className="setting-item">
+          <button
+            onClick={handleSaveReferenceFormat}
+            disabled={isSavingReferenceFormat}
+            className="btn btn-primary"
+          >
+            {isSavingReferenceFormat ? 'Saving...' : `Save ${referenceCountry} Format`}
+          </button>
+        </div>
       </CollapsibleSection>
 
+        {/* Delivery Order Template Settings */}
+        <CollapsibleSection
+          title="Delivery Order Template"
+          description="Per-country DO document layout and DO number sequence"
+          sectionKey="deliveryOrder"
+          icon="📄"
+        >
+          {renderDoTemplateFields()}
+        </CollapsibleSection>
+
       </div>
 
       {/* Modal Component */}
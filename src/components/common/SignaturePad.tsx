@@ -0,0 +1,110 @@
+import React, { useRef, useEffect } from 'react';
+
+interface SignaturePadProps {
+  value: string; // PNG data URL, empty when nothing is drawn
+  onChange: (value: string) => void;
+  height?: number;
+  disabled?: boolean;
+}
+
+const SignaturePad: React.FC<SignaturePadProps> = ({
+  value,
+  onChange,
+  height = 160,
+  disabled = false
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+  const hasStrokes = useRef(false);
+
+  // Match the canvas to its rendered width so strokes line up with the pointer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.width = canvas.offsetWidth;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#1a1a1a';
+    }
+  }, [height]);
+
+  // Parent cleared the value (e.g. form reset) - wipe the drawing too
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!value && canvas && hasStrokes.current) {
+      canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      hasStrokes.current = false;
+    }
+  }, [value]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPoint(e);
+    context.beginPath();
+    context.moveTo(x, y);
+    isDrawing.current = true;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+    hasStrokes.current = true;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    if (hasStrokes.current) {
+      onChange(e.currentTarget.toDataURL('image/png'));
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    hasStrokes.current = false;
+    onChange('');
+  };
+
+  return (
+    <div className={`signature-pad ${disabled ? 'disabled' : ''}`}>
+      <canvas
+        ref={canvasRef}
+        className="signature-pad-canvas"
+        style={{ height: `${height}px` }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        aria-label="Signature pad"
+      />
+      <div className="signature-pad-footer">
+        <small>{value ? 'Signed' : 'Sign above with a finger or mouse'}</small>
+        <button type="button" className="btn btn-sm btn-outline-secondary" onClick={handleClear} disabled={disabled || !value}>
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
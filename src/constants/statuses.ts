@@ -8,6 +8,7 @@ import { CaseStatus } from '../types';
 // Case Status Constants (matching the actual CaseStatus type)
 export const CASE_STATUSES = {
   CASE_BOOKED: 'Case Booked' as CaseStatus,
+  LOANER_RECEIVED: 'Loaner Received' as CaseStatus,
   ORDER_PREPARATION: 'Preparing Order' as CaseStatus,
   ORDER_PREPARED: 'Order Prepared' as CaseStatus,
   SALES_APPROVAL: 'Sales Approved' as CaseStatus,
@@ -21,7 +22,7 @@ export const CASE_STATUSES = {
   CASE_CANCELLED: 'Case Cancelled' as CaseStatus
 } as const;
 
-// Status workflow order
+// Default status workflow order - per-country workflows are defined in utils/statusWorkflowService
 export const STATUS_WORKFLOW: readonly CaseStatus[] = [
   CASE_STATUSES.CASE_BOOKED,
   CASE_STATUSES.ORDER_PREPARATION,
@@ -39,6 +40,7 @@ export const STATUS_WORKFLOW: readonly CaseStatus[] = [
 // Status colors mapping
 export const STATUS_COLORS = {
   [CASE_STATUSES.CASE_BOOKED]: '#1976d2',
+  [CASE_STATUSES.LOANER_RECEIVED]: '#5c6bc0',
   [CASE_STATUSES.ORDER_PREPARATION]: '#f57c00',
   [CASE_STATUSES.ORDER_PREPARED]: '#ff9800',
   [CASE_STATUSES.PENDING_DELIVERY_HOSPITAL]: '#7b1fa2',
@@ -55,6 +57,7 @@ export const STATUS_COLORS = {
 // Status icons mapping
 export const STATUS_ICONS = {
   [CASE_STATUSES.CASE_BOOKED]: '📝',
+  [CASE_STATUSES.LOANER_RECEIVED]: '📥',
   [CASE_STATUSES.ORDER_PREPARATION]: '📋',
   [CASE_STATUSES.ORDER_PREPARED]: '✅',
   [CASE_STATUSES.SALES_APPROVAL]: '👨‍💼',
@@ -71,6 +74,7 @@ export const STATUS_ICONS = {
 // Status labels for display
 export const STATUS_LABELS = {
   [CASE_STATUSES.CASE_BOOKED]: 'Booked',
+  [CASE_STATUSES.LOANER_RECEIVED]: 'Loaner Received',
   [CASE_STATUSES.ORDER_PREPARATION]: 'Preparing',
   [CASE_STATUSES.ORDER_PREPARED]: 'Prepared',
   [CASE_STATUSES.SALES_APPROVAL]: 'Sales Approved',
@@ -87,6 +91,7 @@ export const STATUS_LABELS = {
 // Status descriptions
 export const STATUS_DESCRIPTIONS = {
   [CASE_STATUSES.CASE_BOOKED]: 'Case has been submitted and is awaiting order preparation',
+  [CASE_STATUSES.LOANER_RECEIVED]: 'Loaner sets have been received from the supplier',
   [CASE_STATUSES.ORDER_PREPARATION]: 'Order is being prepared by operations team',
   [CASE_STATUSES.ORDER_PREPARED]: 'Order has been prepared and is ready for sales approved',
   [CASE_STATUSES.SALES_APPROVAL]: 'Order has been approved by sales team for delivery',
@@ -150,6 +155,7 @@ export const isValidStatusTransition = (from: CaseStatus, to: CaseStatus): boole
 export const STATUS_GROUPS = {
   ACTIVE: [
     CASE_STATUSES.CASE_BOOKED,
+    CASE_STATUSES.LOANER_RECEIVED,
     CASE_STATUSES.ORDER_PREPARATION,
     CASE_STATUSES.ORDER_PREPARED,
     CASE_STATUSES.PENDING_DELIVERY_HOSPITAL,
@@ -77,6 +77,18 @@ export const permissionActions: PermissionAction[] = [
     description: 'Modify existing case booking details including procedures, dates, special instructions, and requirements. Changes are tracked with user attribution and audit trail.',
     category: 'Case Management'
   },
+  {
+    id: 'override-amendment-limits',
+    name: 'Override Amendment Limits',
+    description: 'Amend cases after the amendment time limit has passed or the maximum number of amendments has been reached. A reason is mandatory and recorded in the amendment history.',
+    category: 'Case Management'
+  },
+  {
+    id: 'approve-amendments',
+    name: 'Approve Amendments',
+    description: 'Approve or reject amendments raised on cases past order preparation. Only approved amendments are applied to the case. Amendments made by holders of this permission apply directly.',
+    category: 'Case Management'
+  },
   {
     id: 'update-case-status',
     name: 'Update Case Status',
@@ -109,6 +121,12 @@ export const permissionActions: PermissionAction[] = [
   },
 
   // Status Transitions
+  {
+    id: 'loaner-received',
+    name: 'Loaner Received',
+    description: 'Case Booked → Loaner Received (countries using the loaner workflow)',
+    category: 'Status Transitions'
+  },
   {
     id: 'process-order',
     name: 'Process Order',
@@ -175,6 +193,18 @@ export const permissionActions: PermissionAction[] = [
     description: 'Cancel cases in Process Order, Order Prepared, Pending Delivery, or Delivered status',
     category: 'Case Management'
   },
+  {
+    id: 'reinstate-case',
+    name: 'Reinstate Case',
+    description: 'Return a cancelled case to the status it had before it was cancelled',
+    category: 'Case Management'
+  },
+  {
+    id: 'bulk-case-actions',
+    name: 'Bulk Case Actions',
+    description: 'Select several cases in the cases list to change their status, reassign their department, export them or print their delivery orders at once. Each case is still checked against the permissions for the action.',
+    category: 'Case Management'
+  },
 
   // Data Operations
   {
@@ -195,6 +225,12 @@ export const permissionActions: PermissionAction[] = [
     description: 'Access reporting and analytics',
     category: 'Data Operations'
   },
+  {
+    id: 'schedule-reports',
+    name: 'Schedule Reports',
+    description: 'Save report definitions and email them to recipients daily, weekly or monthly',
+    category: 'Data Operations'
+  },
 
   // User Management
   {
@@ -247,6 +283,12 @@ export const permissionActions: PermissionAction[] = [
     description: 'Configure system-wide settings',
     category: 'System Settings'
   },
+  {
+    id: 'delivery-order-template',
+    name: 'Delivery Order Template',
+    description: 'Edit the per-country delivery order template and DO number format in System Settings',
+    category: 'System Settings'
+  },
   {
     id: 'email-config',
     name: 'Email Configuration',
@@ -265,12 +307,30 @@ export const permissionActions: PermissionAction[] = [
     description: 'Manage global code tables that apply across all countries such as countries list, procedure types, and system-wide reference data. Requires additional confirmation for modifications.',
     category: 'Code Table Management'
   },
+  {
+    id: 'price-lists',
+    name: 'Price Lists',
+    description: 'Manage per-country and per-hospital price lists used to estimate case values in reports',
+    category: 'Code Table Management'
+  },
   {
     id: 'booking-calendar',
     name: 'Booking Calendar',
     description: 'View and manage booking calendar',
     category: 'Case Management'
   },
+  {
+    id: 'driver-manifest',
+    name: 'Driver Manifest',
+    description: 'View and print the daily delivery and collection route sheet',
+    category: 'Case Management'
+  },
+  {
+    id: 'billing-export',
+    name: 'Billing Export',
+    description: 'Export "To be billed" cases as ERP billing batches and close them on confirmation',
+    category: 'Case Management'
+  },
   {
     id: 'audit-logs',
     name: 'Audit Logs',
@@ -321,25 +381,35 @@ export const permissions: Permission[] = [
   { actionId: 'create-case', roleId: 'operations', allowed: true },
   { actionId: 'view-cases', roleId: 'operations', allowed: true },
   { actionId: 'amend-case', roleId: 'operations', allowed: true },
+  { actionId: 'approve-amendments', roleId: 'operations', allowed: true },
   { actionId: 'update-case-status', roleId: 'operations', allowed: true },
   { actionId: 'booking-calendar', roleId: 'operations', allowed: true },
+  { actionId: 'driver-manifest', roleId: 'operations', allowed: true },
+  { actionId: 'delivery-order-template', roleId: 'operations', allowed: true },
+  { actionId: 'loaner-received', roleId: 'operations', allowed: true },
   { actionId: 'process-order', roleId: 'operations', allowed: true },
   { actionId: 'order-processed', roleId: 'operations', allowed: true },
   { actionId: 'pending-delivery-hospital', roleId: 'operations', allowed: true },
   { actionId: 'upload-files', roleId: 'operations', allowed: true },
   { actionId: 'download-files', roleId: 'operations', allowed: true },
   { actionId: 'view-reports', roleId: 'operations', allowed: true },
+  { actionId: 'bulk-case-actions', roleId: 'operations', allowed: true },
 
   // Operations Manager - Operations + additional oversight
   { actionId: 'create-case', roleId: 'operations-manager', allowed: true },
   { actionId: 'view-cases', roleId: 'operations-manager', allowed: true },
   { actionId: 'amend-case', roleId: 'operations-manager', allowed: true },
+  { actionId: 'override-amendment-limits', roleId: 'operations-manager', allowed: true },
+  { actionId: 'approve-amendments', roleId: 'operations-manager', allowed: true },
   { actionId: 'update-case-status', roleId: 'operations-manager', allowed: true },
   { actionId: 'delete-case', roleId: 'operations-manager', allowed: true },
   { actionId: 'manage-doctors', roleId: 'operations-manager', allowed: true },
   { actionId: 'manage-procedure-types', roleId: 'operations-manager', allowed: true },
   { actionId: 'manage-surgery-implants', roleId: 'operations-manager', allowed: true },
   { actionId: 'booking-calendar', roleId: 'operations-manager', allowed: true },
+  { actionId: 'driver-manifest', roleId: 'operations-manager', allowed: true },
+  { actionId: 'delivery-order-template', roleId: 'operations-manager', allowed: true },
+  { actionId: 'loaner-received', roleId: 'operations-manager', allowed: true },
   { actionId: 'process-order', roleId: 'operations-manager', allowed: true },
   { actionId: 'order-processed', roleId: 'operations-manager', allowed: true },
   { actionId: 'pending-delivery-hospital', roleId: 'operations-manager', allowed: true },
@@ -347,8 +417,11 @@ export const permissions: Permission[] = [
   { actionId: 'download-files', roleId: 'operations-manager', allowed: true },
   { actionId: 'manage-attachments', roleId: 'operations-manager', allowed: true },
   { actionId: 'view-reports', roleId: 'operations-manager', allowed: true },
+  { actionId: 'schedule-reports', roleId: 'operations-manager', allowed: true },
   { actionId: 'export-data', roleId: 'operations-manager', allowed: true },
   { actionId: 'cancel-case', roleId: 'operations-manager', allowed: true },
+  { actionId: 'reinstate-case', roleId: 'operations-manager', allowed: true },
+  { actionId: 'bulk-case-actions', roleId: 'operations-manager', allowed: true },
 
   // Sales - Case completion and office delivery
   { actionId: 'create-case', roleId: 'sales', allowed: true },
@@ -365,11 +438,13 @@ export const permissions: Permission[] = [
   { actionId: 'upload-files', roleId: 'sales', allowed: true },
   { actionId: 'download-files', roleId: 'sales', allowed: true },
   { actionId: 'view-reports', roleId: 'sales', allowed: true },
+  { actionId: 'bulk-case-actions', roleId: 'sales', allowed: true },
 
   // Sales Manager - Sales + additional oversight
   { actionId: 'create-case', roleId: 'sales-manager', allowed: true },
   { actionId: 'view-cases', roleId: 'sales-manager', allowed: true },
   { actionId: 'amend-case', roleId: 'sales-manager', allowed: true },
+  { actionId: 'override-amendment-limits', roleId: 'sales-manager', allowed: true },
   { actionId: 'update-case-status', roleId: 'sales-manager', allowed: true },
   { actionId: 'booking-calendar', roleId: 'sales-manager', allowed: true },
   { actionId: 'sales-approval', roleId: 'sales-manager', allowed: true },
@@ -378,16 +453,21 @@ export const permissions: Permission[] = [
   { actionId: 'delivered-office', roleId: 'sales-manager', allowed: true },
   { actionId: 'to-be-billed', roleId: 'sales-manager', allowed: true },
   { actionId: 'case-closed', roleId: 'sales-manager', allowed: true },
+  { actionId: 'billing-export', roleId: 'sales-manager', allowed: true },
+  { actionId: 'price-lists', roleId: 'sales-manager', allowed: true },
   { actionId: 'upload-files', roleId: 'sales-manager', allowed: true },
   { actionId: 'download-files', roleId: 'sales-manager', allowed: true },
   { actionId: 'manage-attachments', roleId: 'sales-manager', allowed: true },
   { actionId: 'view-reports', roleId: 'sales-manager', allowed: true },
+  { actionId: 'schedule-reports', roleId: 'sales-manager', allowed: true },
   { actionId: 'export-data', roleId: 'sales-manager', allowed: true },
+  { actionId: 'bulk-case-actions', roleId: 'sales-manager', allowed: true },
 
   // Driver - Delivery operations only
   { actionId: 'view-cases', roleId: 'driver', allowed: true },
   { actionId: 'update-case-status', roleId: 'driver', allowed: true },
   { actionId: 'booking-calendar', roleId: 'driver', allowed: true },
+  { actionId: 'driver-manifest', roleId: 'driver', allowed: true },
   { actionId: 'pending-delivery-hospital', roleId: 'driver', allowed: true },
   { actionId: 'delivered-hospital', roleId: 'driver', allowed: true },
   { actionId: 'pending-delivery-office', roleId: 'driver', allowed: true },
@@ -405,6 +485,7 @@ export const permissions: Permission[] = [
   { actionId: 'manage-doctors', roleId: 'it', allowed: true },
   { actionId: 'manage-procedure-types', roleId: 'it', allowed: true },
   { actionId: 'manage-surgery-implants', roleId: 'it', allowed: true },
+  { actionId: 'loaner-received', roleId: 'it', allowed: true },
   { actionId: 'process-order', roleId: 'it', allowed: true },
   { actionId: 'order-processed', roleId: 'it', allowed: true },
   { actionId: 'pending-delivery-hospital', roleId: 'it', allowed: true },
@@ -414,6 +495,8 @@ export const permissions: Permission[] = [
   { actionId: 'delivered-office', roleId: 'it', allowed: true },
   { actionId: 'to-be-billed', roleId: 'it', allowed: true },
   { actionId: 'case-closed', roleId: 'it', allowed: true },
+  { actionId: 'billing-export', roleId: 'it', allowed: true },
+  { actionId: 'price-lists', roleId: 'it', allowed: true },
   { actionId: 'view-users', roleId: 'it', allowed: true },
   { actionId: 'create-user', roleId: 'it', allowed: true },
   { actionId: 'edit-user', roleId: 'it', allowed: true },
@@ -422,6 +505,7 @@ export const permissions: Permission[] = [
   { actionId: 'delete-user', roleId: 'it', allowed: true },
   { actionId: 'enable-disable-user', roleId: 'it', allowed: true },
   { actionId: 'system-settings', roleId: 'it', allowed: true },
+  { actionId: 'delivery-order-template', roleId: 'it', allowed: true },
   { actionId: 'email-config', roleId: 'it', allowed: true },
   { actionId: 'code-table-setup', roleId: 'it', allowed: true },
   { actionId: 'global-tables', roleId: 'it', allowed: true },
@@ -12,4 +12,8 @@ export { useRealtimePermissions } from './useRealtimePermissions';
 export { useRealtimeSettings } from './useRealtimeSettings';
 export { useNotifications } from './useNotifications';
 export { usePermissions } from './usePermissions';
+export { useStatusWorkflow } from './useStatusWorkflow';
+export { useAmendmentAllowance } from './useAmendmentAllowance';
+export { useAmendmentRequests } from './useAmendmentRequests';
+export { useCaseSlas } from './useCaseSlas';
 export { useDebounce, useDebouncedCallback } from './useDebounce';
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * useAmendmentAllowance Hook - Remaining amendment window and count for a case
+ * Uses the SystemConfig limits enforced by amendSupabaseCase
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CaseBooking } from '../types';
+import { getSystemConfig } from '../utils/systemSettingsService';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
+import { getAmendmentAllowance, AmendmentAllowance, DEFAULT_AMENDMENT_LIMITS } from '../utils/amendmentPolicyService';
+
+export interface AmendmentAllowanceState {
+  allowance: AmendmentAllowance;
+  canOverride: boolean;
+}
+
+export const useAmendmentAllowance = (caseItem: Pick<CaseBooking, 'submittedAt' | 'amendmentHistory'>): AmendmentAllowanceState => {
+  const { data: config } = useQuery({
+    queryKey: ['system-config', 'amendment-limits'],
+    queryFn: async () => {
+      const { amendmentTimeLimit, maxAmendmentsPerCase } = await getSystemConfig();
+      return { amendmentTimeLimit, maxAmendmentsPerCase };
+    },
+    staleTime: 5 * 60 * 1000 // Limits change rarely
+  });
+
+  const currentUser = getCurrentUserSync();
+  const canOverride = !!currentUser?.role && hasPermission(currentUser.role, PERMISSION_ACTIONS.OVERRIDE_AMENDMENT_LIMITS);
+  const amendmentCount = caseItem.amendmentHistory?.length || 0;
+
+  const allowance = useMemo(() => getAmendmentAllowance({
+    submittedAt: caseItem.submittedAt,
+    amendmentCount,
+    config: config || DEFAULT_AMENDMENT_LIMITS
+  }), [caseItem.submittedAt, amendmentCount, config]);
+
+  return { allowance, canOverride };
+};
@@ -0,0 +1,74 @@
+/**
+ * useAmendmentRequests Hook - Pending amendment requests for a case
+ * Approve / reject actions for reviewers holding APPROVE_AMENDMENTS
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getCurrentUserSync } from '../utils/authCompat';
+import { hasPermission, PERMISSION_ACTIONS } from '../utils/permissions';
+import {
+  getAmendmentRequests,
+  approveAmendmentRequest,
+  rejectAmendmentRequest,
+  AmendmentRequest
+} from '../utils/amendmentApprovalService';
+import { useNotifications } from '../contexts/NotificationContext';
+
+export const useAmendmentRequests = (caseId: string) => {
+  const queryClient = useQueryClient();
+  const { addNotification } = useNotifications();
+  const currentUser = getCurrentUserSync();
+  const canReview = !!currentUser?.role && hasPermission(currentUser.role, PERMISSION_ACTIONS.APPROVE_AMENDMENTS);
+
+  const { data: pendingRequests = [], isLoading } = useQuery<AmendmentRequest[]>({
+    queryKey: ['amendment-requests', caseId, 'pending'],
+    queryFn: () => getAmendmentRequests(caseId, 'pending'),
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false,
+    retry: 1
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (action: { type: 'approve' | 'reject'; requestId: string; comment?: string }) => {
+      const reviewer = currentUser?.name || 'Unknown';
+      if (action.type === 'approve') {
+        await approveAmendmentRequest(action.requestId, reviewer, action.comment);
+      } else {
+        await rejectAmendmentRequest(action.requestId, reviewer, action.comment || '');
+      }
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ['amendment-requests', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+
+      addNotification({
+        title: action.type === 'approve' ? 'Amendment Approved' : 'Amendment Rejected',
+        message: action.type === 'approve'
+          ? 'The amendment has been applied to the case'
+          : 'The amendment was rejected and the case is unchanged',
+        type: action.type === 'approve' ? 'success' : 'info'
+      });
+    },
+    onError: (error) => {
+      // The request may have been reviewed by someone else - show the current state
+      queryClient.invalidateQueries({ queryKey: ['amendment-requests', caseId] });
+
+      addNotification({
+        title: 'Amendment Review Failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        type: 'error'
+      });
+    }
+  });
+
+  return {
+    pendingRequests,
+    isLoading,
+    canReview,
+    isReviewing: reviewMutation.isPending,
+    approveRequest: (requestId: string, comment?: string) =>
+      reviewMutation.mutateAsync({ type: 'approve', requestId, comment }),
+    rejectRequest: (requestId: string, comment: string) =>
+      reviewMutation.mutateAsync({ type: 'reject', requestId, comment })
+  };
+};
@@ -0,0 +1,84 @@
+/**
+ * useCaseSlas Hook - Running SLAs for a list of cases
+ * Loads each country's SLA settings and workflow once, re-evaluates every minute.
+ * useSlaWatchCases loads every open case SLAs are tracked for, independent of the
+ * page of cases on screen - only the status, surgery time and status entry times.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CaseStatus } from '../types';
+import { getStatusWorkflow } from '../utils/statusWorkflowService';
+import { CaseSlaResult, SlaSettings, evaluateCaseSlas, getSlaSettings } from '../utils/caseSlaService';
+import { CaseAccessScope, SlaWatchCase, getSlaWatchCases } from '../utils/caseQueryService';
+
+export interface CountrySlaConfig {
+  settings: SlaSettings;
+  workflowStatuses: CaseStatus[];
+}
+
+export interface CaseSlasState {
+  slaByCase: Map<string, CaseSlaResult[]>;
+  configByCountry: Record<string, CountrySlaConfig>;
+  now: Date;
+}
+
+const SLA_REFRESH_INTERVAL = 60 * 1000;
+
+// Deadlines only move when a case changes, and case changes invalidate ['cases'] queries -
+// the timer just catches changes made elsewhere
+const SLA_WATCH_REFETCH_INTERVAL = 5 * 60 * 1000;
+const SLA_CLOSED_STATUSES: CaseStatus[] = ['Case Closed', 'Case Cancelled'];
+
+/**
+ * Open cases of a country that SLAs are evaluated for
+ */
+export const useSlaWatchCases = (country: string | undefined, scope: CaseAccessScope): SlaWatchCase[] => {
+  const { data = [] } = useQuery({
+    queryKey: ['cases', 'sla-watch', country || 'all', JSON.stringify(scope)],
+    queryFn: () => getSlaWatchCases(country, scope, SLA_CLOSED_STATUSES),
+    refetchInterval: SLA_WATCH_REFETCH_INTERVAL
+  });
+  return data;
+};
+
+export const useCaseSlas = (cases: SlaWatchCase[]): CaseSlasState => {
+  const countries = useMemo(
+    () => Array.from(new Set(cases.map(caseItem => caseItem.country).filter(Boolean))).sort(),
+    [cases]
+  );
+
+  const { data: configByCountry = {} } = useQuery({
+    queryKey: ['case-sla-config', countries],
+    queryFn: async () => {
+      const entries = await Promise.all(countries.map(async country => {
+        const [settings, workflow] = await Promise.all([getSlaSettings(country), getStatusWorkflow(country)]);
+        return [country, { settings, workflowStatuses: workflow.statuses }] as const;
+      }));
+      return Object.fromEntries(entries) as Record<string, CountrySlaConfig>;
+    },
+    enabled: countries.length > 0,
+    staleTime: 5 * 60 * 1000 // SLA settings change rarely
+  });
+
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), SLA_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const slaByCase = useMemo(() => {
+    const results = new Map<string, CaseSlaResult[]>();
+    cases.forEach(caseItem => {
+      const config = configByCountry[caseItem.country];
+      if (!config) return;
+      const slas = evaluateCaseSlas({ caseItem, settings: config.settings, workflowStatuses: config.workflowStatuses, now });
+      if (slas.length > 0) {
+        results.set(caseItem.id, slas);
+      }
+    });
+    return results;
+  }, [cases, configByCountry, now]);
+
+  return { slaByCase, configByCountry, now };
+};
@@ -4,11 +4,24 @@
  * Integrated with testing framework for validation
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { CaseBooking, CaseStatus, FilterOptions } from '../types';
 import { realtimeCaseService } from '../services/realtimeCaseService';
-import { useRealtimeCasesQuery, useOptimisticCaseMutation } from '../services/realtimeQueryService';
+import { useRealtimeCasesQuery, useRealtimeCasesPageQuery, useOptimisticCaseMutation } from '../services/realtimeQueryService';
+import {
+  CaseAccessScope,
+  CasePage,
+  CasePageCursor,
+  CaseSortOrder,
+  CasePageQuery,
+  DEFAULT_CASE_PAGE_SIZE,
+  matchesCasePageQuery,
+  mergeInsertedCase,
+  subscribeToCaseInserts
+} from '../utils/caseQueryService';
 import { useTestingValidation } from './useTestingValidation';
+import { isStatusTransitionError } from '../utils/statusTransitionGuard';
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
@@ -25,6 +38,14 @@ interface UseRealtimeCasesOptions {
   enableRealTime?: boolean;
   filters?: FilterOptions;
   enableTesting?: boolean;
+  /** Load one keyset page at a time with these filters applied in the database */
+  pagination?: {
+    filters: FilterOptions;
+    scope?: CaseAccessScope;
+    caseIds?: string[];
+    sortOrder?: CaseSortOrder;
+    pageSize?: number;
+  };
 }
 
 export const useRealtimeCases = (options: UseRealtimeCasesOptions = {}) => {
@@ -33,18 +54,77 @@ export const useRealtimeCases = (options: UseRealtimeCasesOptions = {}) => {
     refreshInterval = 30000,
     enableRealTime = true,
     filters,
-    enableTesting = true
+    enableTesting = true,
+    pagination
   } = options;
 
+  // Paged mode - one cursor per visited page, the first page has none
+  const [cursors, setCursors] = useState<Array<CasePageCursor | null>>([null]);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const pagingKey = pagination ? JSON.stringify({ country: filters?.country, ...pagination }) : '';
+
+  // Changing the filters starts again from the first page
+  useEffect(() => {
+    setCursors([null]);
+  }, [pagingKey]);
+
+  const pageQuery = useMemo<CasePageQuery | null>(() => pagination ? {
+    country: filters?.country,
+    filters: pagination.filters,
+    scope: pagination.scope,
+    caseIds: pagination.caseIds,
+    sortOrder: pagination.sortOrder,
+    pageSize: pagination.pageSize || DEFAULT_CASE_PAGE_SIZE,
+    cursor: cursors[cursors.length - 1]
+  } : null, [pagingKey, cursors]); // eslint-disable-line react-hooks/exhaustive-deps
+
   // Real-time query for cases - always fresh data
-  const {
-    data: cases = [],
-    isLoading,
-    error,
-    refetch,
-    isError,
-    isSuccess
-  } = useRealtimeCasesQuery(filters);
+  const listQuery = useRealtimeCasesQuery(filters, !pagination);
+  const pageResult = useRealtimeCasesPageQuery(pageQuery);
+  const activeQuery = pagination ? pageResult : listQuery;
+  const page = pageResult.data as CasePage | undefined;
+  const cases: CaseBooking[] = (pagination ? page?.cases : listQuery.data) || [];
+  const { isLoading, error, refetch, isError, isSuccess } = activeQuery;
+
+  useEffect(() => {
+    if (page && page.totalCount !== null) {
+      setTotalCount(page.totalCount);
+    }
+  }, [page]);
+
+  // Merge newly booked cases into the visible first page
+  const queryClient = useQueryClient();
+  const pageQueryRef = useRef(pageQuery);
+  pageQueryRef.current = pageQuery;
+  const isPaged = !!pagination;
+  useEffect(() => {
+    if (!isPaged || !enableRealTime) return;
+
+    return subscribeToCaseInserts(inserted => {
+      const currentQuery = pageQueryRef.current;
+      if (!currentQuery || !matchesCasePageQuery(inserted, currentQuery)) return;
+
+      setTotalCount(prev => (prev === null ? prev : prev + 1));
+      queryClient.setQueryData(['cases', 'page', JSON.stringify(currentQuery)], (old: CasePage | undefined) =>
+        old ? { ...old, cases: mergeInsertedCase(old.cases, inserted, currentQuery) } : old
+      );
+    });
+  }, [isPaged, enableRealTime, queryClient]);
+
+  const goToNextPage = useCallback(() => {
+    if (page?.nextCursor) {
+      const nextCursor = page.nextCursor;
+      setCursors(prev => [...prev, nextCursor]);
+    }
+  }, [page]);
+
+  const goToPreviousPage = useCallback(() => {
+    setCursors(prev => (prev.length > 1 ? prev.slice(0, -1) : prev));
+  }, []);
+
+  const goToFirstPage = useCallback(() => {
+    setCursors([null]);
+  }, []);
 
   // Optimistic mutations for instant UI updates
   const caseMutation = useOptimisticCaseMutation();
@@ -125,6 +205,11 @@ export const useRealtimeCases = (options: UseRealtimeCasesOptions = {}) => {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to update case status';
       setLocalError(errorMessage);
+
+      // Rejected transitions are surfaced to the caller so the UI can explain why
+      if (isStatusTransitionError(error)) {
+        throw error;
+      }
       // Failed to update case
       return false;
     }
@@ -295,7 +380,19 @@ export const useRealtimeCases = (options: UseRealtimeCasesOptions = {}) => {
 
     // Connection status (for RealtimeProvider compatibility)
     isConnected: isSuccess && !isError,
-    reconnectAttempts: isError ? 1 : 0
+    reconnectAttempts: isError ? 1 : 0,
+
+    // Paging (paged mode only)
+    pagination: {
+      pageNumber: cursors.length,
+      pageSize: pageQuery?.pageSize || DEFAULT_CASE_PAGE_SIZE,
+      totalCount,
+      hasNextPage: !!page?.nextCursor,
+      hasPreviousPage: cursors.length > 1,
+      nextPage: goToNextPage,
+      previousPage: goToPreviousPage,
+      firstPage: goToFirstPage
+    }
   };
 };
 
@@ -0,0 +1,25 @@
+/**
+ * useStatusWorkflow Hook - Per-country status workflow definition
+ * Falls back to the built-in default while the stored definition loads
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  getStatusWorkflow,
+  getDefaultStatusWorkflow,
+  StatusWorkflowDefinition
+} from '../utils/statusWorkflowService';
+
+export const useStatusWorkflow = (country?: string): StatusWorkflowDefinition => {
+  const { data } = useQuery({
+    queryKey: ['status-workflow', country],
+    queryFn: () => getStatusWorkflow(country),
+    enabled: !!country,
+    staleTime: 5 * 60 * 1000 // Workflow definitions change rarely
+  });
+
+  const fallback = useMemo(() => getDefaultStatusWorkflow(country), [country]);
+
+  return data || fallback;
+};
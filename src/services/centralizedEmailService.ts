@@ -18,6 +18,13 @@ export interface AdminEmailCredentials {
   fromName: string;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  /** Base64 encoded file content */
+  contentBase64: string;
+}
+
 export interface CentralizedEmailConfig {
   country: string;
   adminCredentials: AdminEmailCredentials;
@@ -139,6 +146,7 @@ class CentralizedEmailService {
       subject: string;
       body: string;
       replyTo?: string;
+      attachments?: EmailAttachment[];
     }
   ): Promise<{ success: boolean; error?: string }> {
     try {
@@ -183,6 +191,7 @@ class CentralizedEmailService {
         bcc: emailData.bcc,
         subject: emailData.subject,
         body: emailData.body,
+        attachments: emailData.attachments,
         fromEmail: adminCredentials.fromEmail,
         fromName: adminCredentials.fromName,
         accessToken: adminCredentials.accessToken,
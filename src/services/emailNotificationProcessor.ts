@@ -32,14 +32,31 @@ interface EmailConfig {
   [status: string]: NotificationRule;
 }
 
+/**
+ * Notification rules are keyed by case status, plus rules for events that are not a
+ * status change
+ */
+export type NotificationRuleKey = CaseStatus | 'Amendments' | 'SLA Escalation';
+
+/**
+ * Extra recipients and template values for notifications that are not plain status changes
+ */
+export interface EmailNotificationOptions {
+  /** Roles notified in addition to the rule's roles (e.g. an SLA escalation role) */
+  recipientRoles?: string[];
+  /** Additional {{placeholders}} available to the rule's template */
+  variables?: Record<string, string>;
+}
+
 /**
  * Process email notifications for case status changes
  */
 export const processEmailNotifications = async (
   caseData: CaseBooking,
-  newStatus: CaseStatus,
+  newStatus: NotificationRuleKey,
   oldStatus?: CaseStatus,
-  changedBy?: string
+  changedBy?: string,
+  options: EmailNotificationOptions = {}
 ): Promise<void> => {
   console.log('📧 EMAIL PROCESSOR DEBUG - Function Entry:', {
     timestamp: new Date().toISOString(),
@@ -201,8 +218,9 @@ export const processEmailNotifications = async (
         }
 
         // Only check roles if department filter passed
-        if (departmentPassed && notificationRule.recipients.roles && notificationRule.recipients.roles.length > 0) {
-          if (notificationRule.recipients.roles.includes(user.role)) {
+        const recipientRoles: string[] = [...(notificationRule.recipients.roles || []), ...(options.recipientRoles || [])];
+        if (departmentPassed && recipientRoles.length > 0) {
+          if (recipientRoles.includes(user.role)) {
             shouldIncludeUser = true;
             console.log(`📧 EMAIL DEBUG - User ${user.email} included by role: ${user.role}`);
           }
@@ -258,8 +276,8 @@ export const processEmailNotifications = async (
       templateSource: 'database_notification_rules'
     });
     
-    const subject = await replaceTemplateVariables(notificationRule.template.subject, caseData, changedBy);
-    const body = await replaceTemplateVariables(notificationRule.template.body, caseData, changedBy);
+    const subject = replaceOptionVariables(await replaceTemplateVariables(notificationRule.template.subject, caseData, changedBy), options.variables);
+    const body = replaceOptionVariables(await replaceTemplateVariables(notificationRule.template.body, caseData, changedBy), options.variables);
     
     console.log('🔍 TEMPLATE DEBUG - Final template after variable replacement:', {
       status: newStatus,
@@ -449,6 +467,15 @@ const replaceTemplateVariables = async (
     .replace(/\n/g, '<br>'); // Convert line breaks to HTML breaks
 };
 
+/**
+ * Replace caller-supplied {{placeholders}} (see EmailNotificationOptions.variables)
+ */
+const replaceOptionVariables = (text: string, variables?: Record<string, string>): string =>
+  Object.entries(variables || {}).reduce(
+    (result, [key, value]) => result.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value),
+    text
+  );
+
 /**
  * Get submitter name from user ID
  */
@@ -9,6 +9,9 @@ import { auditCaseAmended } from '../utils/auditService';
 import userService from './userService';
 import notificationService from './notificationService';
 import { hasPermission } from '../utils/permissions';
+import { isStatusTransitionError } from '../utils/statusTransitionGuard';
+import { isAmendmentLimitError } from '../utils/amendmentPolicyService';
+import type { AmendCaseOptions, AmendmentOutcome } from '../utils/amendmentApprovalService';
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
@@ -98,7 +101,7 @@ class RealtimeCaseService {
       if (savedCase) {// Send notifications - but no cache updates needed
         notificationService.addNotification({
           title: 'Case Saved',
-          message: `Case ${caseData.caseReferenceNumber} has been saved successfully`,
+          message: `Case ${savedCase.caseReferenceNumber} has been saved successfully`,
           type: 'success',
           timestamp: new Date().toISOString(), // ⚠️ timestamp field
           read: false
@@ -131,19 +134,35 @@ class RealtimeCaseService {
 
       return true;
     } catch (error) {
+      // Rejected transitions carry a user-facing reason - let the caller show it
+      if (isStatusTransitionError(error)) {
+        throw error;
+      }
       return false;
     }
   }
 
   /**
    * Amend case - Direct database operation
+   * Returns false on failure, otherwise whether the change was applied or is awaiting approval
    */
   async amendCase(
     caseId: string,
     amendmentData: Partial<CaseBooking>,
-    userInfo: { id: string; name: string }
-  ): Promise<boolean> {try {
-      await amendSupabaseCase(caseId, amendmentData, userInfo.name);
+    userInfo: { id: string; name: string },
+    options: AmendCaseOptions = {}
+  ): Promise<AmendmentOutcome | false> {try {
+      const outcome = await amendSupabaseCase(caseId, amendmentData, userInfo.name, options);
+      if (outcome === 'pending-approval') {
+        notificationService.addNotification({
+          title: 'Amendment Submitted',
+          message: `Amendment for case ${caseId} is awaiting operations approval`,
+          type: 'info',
+          timestamp: new Date().toISOString(),
+          read: false
+        });
+        return outcome;
+      }
       
       // Get case to determine country and department
       const caseData = await this.getCaseById(caseId);
@@ -162,8 +181,12 @@ class RealtimeCaseService {
         read: false
       });
 
-      return true;
+      return outcome;
     } catch (error) {
+      // Amendment limit rejections carry a user-facing reason - let the caller show it
+      if (isAmendmentLimitError(error)) {
+        throw error;
+      }
       return false;
     }
   }
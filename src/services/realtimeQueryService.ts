@@ -27,6 +27,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { CaseBooking, User, CaseStatus } from '../types';
 import { useCallback } from 'react';
+import { applyCaseStatusTransition, assertCaseStatusTransition, isStatusTransitionError } from '../utils/statusTransitionGuard';
+import { CasePage, CasePageQuery, getCasesPage } from '../utils/caseQueryService';
 
 /**
  * Get current user name for email notifications and status history
@@ -44,7 +46,6 @@ const getCurrentUserName = async (): Promise<string> => {
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
-  STATUS_HISTORY_FIELDS, 
   AMENDMENT_HISTORY_FIELDS,
   PROFILES_FIELDS,
   DOCTORS_FIELDS,
@@ -58,6 +59,8 @@ interface QueryConfig {
   refetchOnWindowFocus?: boolean;
   refetchInterval?: number;
   retry?: number | boolean;
+  enabled?: boolean;
+  placeholderData?: (previousData: any) => any;
 }
 
 /**
@@ -98,7 +101,7 @@ export const useRealtimeCasesQuery = (filters?: {
   submitter?: string;
   dateFrom?: string;
   dateTo?: string;
-}) => {
+}, enabled = true) => {
   const queryKey = ['cases', 'realtime', JSON.stringify(filters || {})];
 
   const queryFn = useCallback(async (): Promise<CaseBooking[]> => {
@@ -161,6 +164,7 @@ export const useRealtimeCasesQuery = (filters?: {
       procedureType: caseData.procedure_type,
       procedureName: caseData.procedure_name,
       doctorName: caseData.doctor_name,
+      doctorId: caseData.doctor_id || undefined,
       timeOfProcedure: caseData.time_of_procedure,
       surgerySetSelection: caseData.surgery_set_selection || [],
       implantBox: caseData.implant_box || [],
@@ -180,6 +184,8 @@ export const useRealtimeCasesQuery = (filters?: {
       attachments: caseData.attachments || [],
       orderSummary: caseData.order_summary,
       doNumber: caseData.do_number,
+      seriesId: caseData.series_id || undefined,
+      clonedFromId: caseData.cloned_from_id || undefined,
       statusHistory: caseData.status_history?.map((history: any) => ({
         status: history.status as CaseStatus,
         timestamp: history.timestamp, // ⚠️ timestamp field
@@ -199,6 +205,25 @@ export const useRealtimeCasesQuery = (filters?: {
 
   return useRealtimeQuery(queryKey, queryFn, {
     refetchInterval: 30000, // Fallback polling every 30 seconds
+    enabled
+  });
+};
+
+/**
+ * Real-time Cases Page - one keyset page with the filters applied in the database
+ */
+export const useRealtimeCasesPageQuery = (query: CasePageQuery | null) => {
+  const queryKey = ['cases', 'page', JSON.stringify(query || {})];
+
+  const queryFn = useCallback(
+    (): Promise<CasePage> => getCasesPage(query as CasePageQuery),
+    [query]
+  );
+
+  return useRealtimeQuery(queryKey, queryFn, {
+    refetchInterval: 30000, // Fallback polling every 30 seconds
+    enabled: !!query,
+    placeholderData: (previousPage) => previousPage // Keep showing the last page while the next one loads
   });
 };
 
@@ -327,65 +352,21 @@ export const useOptimisticCaseMutation = () => {
       const { caseId, status, data, details, attachments } = variables;
 
       if (status) {
-        // ⚡ PERFORMANCE OPTIMIZATION: Parallel execution for maximum speed
-        const timestamp = new Date().toISOString();
-        
-        // Prepare case update data
-        const caseUpdateData = { 
-          [CASE_BOOKINGS_FIELDS.status]: status, 
-          [CASE_BOOKINGS_FIELDS.updatedAt]: timestamp 
-        };
+        // Reject illegal jumps / missing permissions before anything is written
+        await assertCaseStatusTransition(caseId, status, { details, attachments });
 
         // Simple and fast detail extraction - no complex parsing
         const statusDetails = details || 'Status updated via real-time system';
-        const statusAttachments = attachments || null;
-
-        // Get current user name once (cached)
-        const currentUserName = await getCurrentUserName();
-
-        // Prepare status history data
-        const statusHistoryData = {
-          [STATUS_HISTORY_FIELDS.caseId]: caseId,
-          [STATUS_HISTORY_FIELDS.status]: status,
-          [STATUS_HISTORY_FIELDS.timestamp]: timestamp,
-          [STATUS_HISTORY_FIELDS.processedBy]: currentUserName,
-          [STATUS_HISTORY_FIELDS.details]: statusDetails,
-          [STATUS_HISTORY_FIELDS.attachments]: statusAttachments
-        };
-
-        // ⚡ EXECUTE BOTH OPERATIONS IN PARALLEL FOR MAXIMUM SPEED
-        const [caseUpdateResult, historyResult] = await Promise.allSettled([
-          supabase
-            .from('case_bookings')
-            .update(caseUpdateData)
-            .eq('id', caseId)
-            .select('id, status'),
-          
-          supabase
-            .from('status_history')
-            .insert(statusHistoryData)
-            .select('id')
-        ]);
-
-        // Check case update result
-        if (caseUpdateResult.status === 'rejected') {
-          console.error('Case status update failed:', caseUpdateResult.reason);
-          throw new Error(`Failed to update case status: ${caseUpdateResult.reason}`);
-        }
 
-        if (caseUpdateResult.value.error) {
-          console.error('Case status update failed:', caseUpdateResult.value.error.message);
-          throw caseUpdateResult.value.error;
-        }
-
-        // Log history result (non-blocking for better performance)
-        if (historyResult.status === 'rejected' || historyResult.value.error) {
-          console.warn('Status history insertion failed (non-critical):', 
-            historyResult.status === 'rejected' ? historyResult.reason : historyResult.value.error?.message);
-          // Don't throw - history is important but not critical enough to block the UI
-        }
+        // The database re-validates the transition and writes the case and its history row together
+        await applyCaseStatusTransition({
+          caseId,
+          targetStatus: status,
+          details: statusDetails,
+          attachments: attachments || null
+        });
 
-        console.log(`⚡ Status update completed in parallel for case ${caseId}: ${status}`);
+        console.log(`⚡ Status update completed for case ${caseId}: ${status}`);
       }
 
       if (data) {
@@ -545,6 +526,8 @@ export const useOptimisticCaseMutation = () => {
       // The real-time subscription will automatically update the cache
       // Case mutation succeeded
     },
+    // Rejected transitions are deterministic - retrying them only repeats the rejection
+    retry: (failureCount, error) => !isStatusTransitionError(error) && failureCount < 1,
   });
 };
 
@@ -0,0 +1,65 @@
+/**
+ * Amendment Approval Test Suite
+ * Validates which case statuses hold amendments for operations approval
+ */
+
+import {
+  requiresAmendmentApproval,
+  buildApprovalChange,
+  DEFAULT_AMENDMENT_APPROVAL_SETTINGS,
+  AMENDMENT_APPROVAL_FIELD
+} from '../utils/amendmentApprovalService';
+import { getDefaultStatusWorkflow } from '../utils/statusWorkflowService';
+
+describe('Amendment Approval Tests', () => {
+  const standardStatuses = getDefaultStatusWorkflow('Singapore').statuses;
+  const loanerStatuses = getDefaultStatusWorkflow('Malaysia').statuses;
+
+  it('should apply amendments directly before Order Prepared', () => {
+    for (const status of ['Case Booked', 'Preparing Order'] as const) {
+      expect(requiresAmendmentApproval({
+        status,
+        settings: DEFAULT_AMENDMENT_APPROVAL_SETTINGS,
+        workflowStatuses: standardStatuses
+      })).toBe(false);
+    }
+  });
+
+  it('should require approval from Order Prepared onwards', () => {
+    for (const status of ['Order Prepared', 'Sales Approved', 'Delivered (Hospital)'] as const) {
+      expect(requiresAmendmentApproval({
+        status,
+        settings: DEFAULT_AMENDMENT_APPROVAL_SETTINGS,
+        workflowStatuses: standardStatuses
+      })).toBe(true);
+    }
+  });
+
+  it('should never require approval when disabled or outside the lifecycle', () => {
+    expect(requiresAmendmentApproval({
+      status: 'Order Prepared',
+      settings: { ...DEFAULT_AMENDMENT_APPROVAL_SETTINGS, enabled: false },
+      workflowStatuses: standardStatuses
+    })).toBe(false);
+
+    expect(requiresAmendmentApproval({
+      status: 'Case Cancelled',
+      settings: DEFAULT_AMENDMENT_APPROVAL_SETTINGS,
+      workflowStatuses: standardStatuses
+    })).toBe(false);
+  });
+
+  it('should fall back to the default threshold when the configured status is not in the workflow', () => {
+    const settings = { enabled: true, fromStatus: 'Sales Approved' as const };
+
+    expect(requiresAmendmentApproval({ status: 'Loaner Received', settings, workflowStatuses: loanerStatuses })).toBe(false);
+    expect(requiresAmendmentApproval({ status: 'Order Prepared', settings, workflowStatuses: loanerStatuses })).toBe(true);
+  });
+
+  it('should record the reviewer and comment in the approval entry', () => {
+    const change = buildApprovalChange({ reviewedBy: 'Ops Lead', reviewComment: 'Kit re-picked' });
+
+    expect(change.field).toBe(AMENDMENT_APPROVAL_FIELD);
+    expect(change.newValue).toBe('Approved by Ops Lead - Kit re-picked');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Amendment Policy Test Suite
+ * Validates amendment time limit / max count enforcement and overrides
+ */
+
+import {
+  getAmendmentAllowance,
+  validateAmendmentLimits,
+  formatAmendmentWindow,
+  isAmendmentLimitError
+} from '../utils/amendmentPolicyService';
+
+describe('Amendment Policy Tests', () => {
+  const config = { amendmentTimeLimit: 60, maxAmendmentsPerCase: 2 };
+  const submittedAt = '2026-01-01T00:00:00.000Z';
+
+  it('should report the remaining window and count', () => {
+    const allowance = getAmendmentAllowance({ submittedAt, amendmentCount: 1, config, now: new Date('2026-01-01T00:15:00.000Z') });
+
+    expect(allowance).toMatchObject({ allowed: true, remainingMinutes: 45, remainingAmendments: 1 });
+    expect(validateAmendmentLimits({ allowance, canOverride: false })).toBe(false);
+  });
+
+  it('should reject amendments after the time limit without override permission', () => {
+    const allowance = getAmendmentAllowance({ submittedAt, amendmentCount: 0, config, now: new Date('2026-01-01T02:00:00.000Z') });
+
+    let thrown: unknown;
+    try {
+      validateAmendmentLimits({ allowance, canOverride: false });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(allowance.withinTimeLimit).toBe(false);
+    expect(isAmendmentLimitError(thrown) && thrown.code).toBe('TIME_LIMIT_EXCEEDED');
+  });
+
+  it('should reject amendments once the maximum count is reached', () => {
+    const allowance = getAmendmentAllowance({ submittedAt, amendmentCount: 2, config, now: new Date('2026-01-01T00:10:00.000Z') });
+
+    expect(() => validateAmendmentLimits({ allowance, canOverride: false })).toThrow('maximum of 2 amendments');
+  });
+
+  it('should require a reason to override and accept one when given', () => {
+    const allowance = getAmendmentAllowance({ submittedAt, amendmentCount: 5, config, now: new Date('2026-02-01T00:00:00.000Z') });
+
+    expect(() => validateAmendmentLimits({ allowance, canOverride: true, override: { reason: '  ' } })).toThrow('reason is required');
+    expect(validateAmendmentLimits({ allowance, canOverride: true, override: { reason: 'Surgeon rescheduled' } })).toBe(true);
+  });
+
+  it('should format the remaining window compactly', () => {
+    expect(formatAmendmentWindow(0)).toBe('closed');
+    expect(formatAmendmentWindow(45)).toBe('45m');
+    expect(formatAmendmentWindow(125)).toBe('2h 5m');
+    expect(formatAmendmentWindow(1440 * 2 + 180)).toBe('2d 3h');
+  });
+});
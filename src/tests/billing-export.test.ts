@@ -0,0 +1,90 @@
+/**
+ * Billing Export Test Suite
+ * Validates billing lines, CSV/XML output, column mapping checks and batch locking
+ */
+
+import {
+  BillingBatch,
+  BillingExportSettings,
+  DEFAULT_BILLING_EXPORT_SETTINGS,
+  buildBillingLines,
+  toBillingCsv,
+  toBillingXml,
+  toXmlElementName,
+  validateBillingExportSettings,
+  formatBillingBatchNumber,
+  getLockedCaseIds
+} from '../utils/billingExportService';
+import { createTestCase } from './utils/testHelpers';
+
+const caseItem = createTestCase({
+  id: 'case-1',
+  doNumber: 'DO-SG-2026-00042',
+  hospital: 'General Hospital, East Wing',
+  doctorName: 'Dr. "Tan" & Lee',
+  status: 'To be billed'
+});
+
+const settings: BillingExportSettings = {
+  ...DEFAULT_BILLING_EXPORT_SETTINGS,
+  columns: [
+    { field: 'doNumber', header: 'DONo' },
+    { field: 'hospital', header: 'Customer' },
+    { field: 'doctor', header: 'Doctor Name' },
+    { field: 'surgeryDate', header: 'Date' },
+    { field: 'itemName', header: 'Item' },
+    { field: 'quantity', header: 'Qty' }
+  ],
+  dateFormat: 'DD/MM/YYYY'
+};
+
+describe('Billing Export Tests', () => {
+  const lines = buildBillingLines([caseItem], { 'case-1': { 'Knee Set A': 2 } }, 'BILL-SG-20261018-090000');
+
+  it('should build one line per set and implant box with quantities', () => {
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ doNumber: 'DO-SG-2026-00042', itemType: 'Surgery Set', itemName: 'Knee Set A', quantity: 2 });
+    expect(lines[1]).toMatchObject({ itemType: 'Implant Box', itemName: 'Implant Box 1', quantity: 1 });
+  });
+
+  it('should write mapped CSV columns with quoting and date format', () => {
+    const csv = toBillingCsv(lines, settings).split('\r\n');
+
+    expect(csv[0]).toBe('DONo,Customer,Doctor Name,Date,Item,Qty');
+    expect(csv[1]).toBe('DO-SG-2026-00042,"General Hospital, East Wing","Dr. ""Tan"" & Lee",20/10/2026,Knee Set A,2');
+    expect(toBillingCsv(lines, { ...settings, delimiter: ';' }).split('\r\n')[1])
+      .toBe('DO-SG-2026-00042;General Hospital, East Wing;"Dr. ""Tan"" & Lee";20/10/2026;Knee Set A;2');
+  });
+
+  it('should write escaped XML with safe element names', () => {
+    const xml = toBillingXml(lines, settings, 'BILL-SG-20261018-090000');
+
+    expect(xml).toContain('<BillingBatch batchNumber="BILL-SG-20261018-090000" lineCount="2">');
+    expect(xml).toContain('<Doctor_Name>Dr. &quot;Tan&quot; &amp; Lee</Doctor_Name>');
+    expect(xml).toContain('<Qty>2</Qty>');
+    expect(toXmlElementName('1st Item')).toBe('_1st_Item');
+  });
+
+  it('should reject incomplete column mappings', () => {
+    expect(validateBillingExportSettings(DEFAULT_BILLING_EXPORT_SETTINGS)).toEqual([]);
+    expect(validateBillingExportSettings({
+      ...settings,
+      columns: [{ field: 'doNumber', header: 'Qty' }, { field: 'quantity', header: 'qty' }, { field: 'hospital', header: ' ' }],
+      xmlRootElement: 'Billing Batch'
+    })).toEqual([
+      'Every column needs a header',
+      'Column headers must be unique',
+      'XML element names must start with a letter and contain only letters, numbers, "_", "-" or "."'
+    ]);
+  });
+
+  it('should number batches and lock cases only while exported', () => {
+    expect(formatBillingBatchNumber('Singapore', 2026, 42)).toBe('BILL-SG-2026-00042');
+
+    const batch = (id: string, status: BillingBatch['status'], caseIds: string[]) =>
+      ({ id, status, caseIds } as BillingBatch);
+    const locked = getLockedCaseIds([batch('b1', 'exported', ['case-1']), batch('b2', 'cancelled', ['case-2']), batch('b3', 'confirmed', ['case-3'])]);
+
+    expect(Array.from(locked)).toEqual(['case-1']);
+  });
+});
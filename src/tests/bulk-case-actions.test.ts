@@ -0,0 +1,139 @@
+/**
+ * Bulk Case Actions Test Suite
+ * Validates per-case prechecks, status targets, sequential runs and combined DO printing
+ */
+
+import {
+  combineDeliveryOrdersHtml,
+  getBulkStatusTargets,
+  precheckBulkDeliveryOrders,
+  precheckBulkDepartmentChange,
+  precheckBulkStatusChange,
+  runBulkCaseAction,
+  summarizeBulkOutcomes
+} from '../utils/bulkCaseActionService';
+import { getDefaultStatusWorkflow } from '../utils/statusWorkflowService';
+import { PERMISSION_ACTIONS } from '../utils/permissions';
+import { CaseBooking } from '../types';
+import { createPermissionChecker, createTestCase } from './utils/testHelpers';
+
+const makeCase = (id: string, changes: Partial<CaseBooking> = {}): CaseBooking =>
+  createTestCase({ id, caseReferenceNumber: `TMC-${id}`, ...changes });
+
+const permissionChecker = createPermissionChecker({
+  operations: [
+    PERMISSION_ACTIONS.PROCESS_ORDER,
+    PERMISSION_ACTIONS.ORDER_PROCESSED,
+    PERMISSION_ACTIONS.LOANER_RECEIVED,
+    PERMISSION_ACTIONS.CANCEL_CASE
+  ]
+});
+
+const workflowsByCountry = {
+  Singapore: getDefaultStatusWorkflow('Singapore'),
+  Malaysia: getDefaultStatusWorkflow('Malaysia')
+};
+
+describe('Bulk Case Actions Tests', () => {
+  const singaporeBooked = makeCase('1');
+  const malaysiaBooked = makeCase('2', { country: 'Malaysia' });
+  const singaporePreparing = makeCase('3', { status: 'Preparing Order' });
+
+  it('should offer the permitted next statuses of the selection, without cancelling', () => {
+    const targets = getBulkStatusTargets(
+      [singaporeBooked, malaysiaBooked, singaporePreparing],
+      workflowsByCountry,
+      'operations',
+      permissionChecker
+    );
+
+    expect(targets).toEqual(['Preparing Order', 'Order Prepared', 'Loaner Received']);
+    expect(targets).not.toContain('Case Cancelled');
+    expect(getBulkStatusTargets([singaporeBooked], workflowsByCountry, 'sales', permissionChecker)).toEqual([]);
+  });
+
+  it('should validate each case of a status change against its own workflow', () => {
+    const { eligible, rejected } = precheckBulkStatusChange({
+      cases: [singaporeBooked, makeCase('2', { country: 'Malaysia', status: 'Order Prepared' }), singaporePreparing, makeCase('4', { country: 'Japan' })],
+      targetStatus: 'Preparing Order',
+      workflowsByCountry,
+      role: 'operations',
+      permissionChecker
+    });
+
+    expect(eligible.map(caseItem => caseItem.id)).toEqual(['1']);
+    expect(rejected.map(outcome => outcome.caseId)).toEqual(['2', '3', '4']);
+    expect(rejected[0].message).toContain('not part of the Malaysia workflow');
+    expect(rejected[1].message).toBe('Already "Preparing Order"');
+    expect(rejected[2].message).toContain('No status workflow');
+
+    const denied = precheckBulkStatusChange({
+      cases: [singaporeBooked],
+      targetStatus: 'Preparing Order',
+      workflowsByCountry,
+      role: 'sales',
+      permissionChecker
+    });
+    expect(denied.eligible).toHaveLength(0);
+    expect(denied.rejected[0].message).toContain('does not have permission');
+  });
+
+  it('should skip department and DO actions for cases they do not apply to', () => {
+    const departments = precheckBulkDepartmentChange(
+      [singaporeBooked, malaysiaBooked, makeCase('5', { department: 'Spine' })],
+      'Spine',
+      { Singapore: ['Orthopedics', 'Spine'], Malaysia: ['Orthopedics'] }
+    );
+    expect(departments.eligible.map(caseItem => caseItem.id)).toEqual(['1']);
+    expect(departments.rejected.map(outcome => outcome.message)).toEqual([
+      'Spine is not a department in Malaysia',
+      'Already in Spine'
+    ]);
+
+    const deliveryOrders = precheckBulkDeliveryOrders([
+      makeCase('6', { doNumber: 'DO-001' }),
+      makeCase('7', { statusHistory: [{ status: 'Pending Delivery (Hospital)', details: JSON.stringify({ doNumber: 'DO-002' }) }] as any }),
+      singaporeBooked
+    ]);
+    expect(deliveryOrders.eligible.map(caseItem => caseItem.doNumber)).toEqual(['DO-001', 'DO-002']);
+    expect(deliveryOrders.rejected.map(outcome => outcome.caseId)).toEqual(['1']);
+  });
+
+  it('should run cases one at a time and keep going after a failure', async () => {
+    const order: string[] = [];
+    const progress: number[] = [];
+    const outcomes = await runBulkCaseAction(
+      [singaporeBooked, malaysiaBooked, singaporePreparing],
+      async caseItem => {
+        order.push(caseItem.id);
+        if (caseItem.id === '2') {
+          throw new Error('Case is locked');
+        }
+        return 'Done';
+      },
+      done => progress.push(done)
+    );
+
+    expect(order).toEqual(['1', '2', '3']);
+    expect(progress).toEqual([1, 2, 3]);
+    expect(outcomes.map(outcome => outcome.success)).toEqual([true, false, true]);
+    expect(outcomes[1]).toMatchObject({ caseReferenceNumber: 'TMC-2', message: 'Case is locked' });
+
+    const summary = summarizeBulkOutcomes('Change Status', outcomes);
+    expect(summary.succeeded).toBe(2);
+    expect(summary.failed).toBe(1);
+    expect(summary.outcomes[0].caseId).toBe('2');
+  });
+
+  it('should print every delivery order on its own page with the template styles', () => {
+    const html = combineDeliveryOrdersHtml([
+      '<!DOCTYPE html><html><head><style>h1 { color: red; }</style></head><body><h1>DO-001</h1></body></html>',
+      '<!DOCTYPE html><html><head><style>h1 { color: red; }</style></head><body><h1>DO-002</h1></body></html>'
+    ]);
+
+    expect(html.match(/h1 \{ color: red; \}/g)).toHaveLength(1);
+    expect(html.match(/class="delivery-order-page"/g)).toHaveLength(2);
+    expect(html.indexOf('DO-001')).toBeLessThan(html.indexOf('DO-002'));
+    expect(html).toContain('page-break-after: always');
+  });
+});
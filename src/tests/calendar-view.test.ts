@@ -0,0 +1,94 @@
+/**
+ * Calendar View Test Suite
+ * Validates week/day timelines and resource rows for the booking calendar
+ */
+
+import {
+  toDateKey,
+  getWeekDates,
+  getVisibleDates,
+  shiftCalendarDate,
+  getTimelineHours,
+  sortCasesByTime,
+  groupCasesByResource,
+  getResourceUsage,
+  UNASSIGNED_RESOURCE
+} from '../utils/calendarViewUtils';
+import { CaseBooking } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const buildCase = (overrides: Partial<CaseBooking> = {}): CaseBooking =>
+  createTestCase({ id: 'case-1', doctorName: 'Dr. Tan', timeOfProcedure: '14:30', quantities: { 'Knee Set A': 2 }, ...overrides });
+
+describe('Calendar View Tests', () => {
+  it('should build Sunday-to-Saturday weeks across month boundaries', () => {
+    const week = getWeekDates(new Date(2026, 9, 1));
+
+    expect(week.map(toDateKey)).toEqual([
+      '2026-09-27', '2026-09-28', '2026-09-29', '2026-09-30',
+      '2026-10-01', '2026-10-02', '2026-10-03'
+    ]);
+    expect(getVisibleDates('resource', new Date(2026, 9, 1))).toHaveLength(7);
+    expect(getVisibleDates('day', new Date(2026, 9, 18)).map(toDateKey)).toEqual(['2026-10-18']);
+    expect(getVisibleDates('month', new Date(2026, 1, 10))).toHaveLength(28);
+  });
+
+  it('should step by the period of the current layout', () => {
+    const date = new Date(2026, 0, 31);
+
+    expect(toDateKey(shiftCalendarDate(date, 'day', 'next'))).toBe('2026-02-01');
+    expect(toDateKey(shiftCalendarDate(date, 'week', 'prev'))).toBe('2026-01-24');
+    expect(toDateKey(shiftCalendarDate(date, 'month', 'next'))).toBe('2026-02-01');
+  });
+
+  it('should widen the timeline to cover early and late procedures', () => {
+    const hours = getTimelineHours([
+      { timeOfProcedure: '06:15' },
+      { timeOfProcedure: '9:00 PM' },
+      { timeOfProcedure: 'TBC' }
+    ]);
+
+    expect(hours[0]).toBe(6);
+    expect(hours[hours.length - 1]).toBe(21);
+    expect(getTimelineHours([])).toEqual(Array.from({ length: 13 }, (_, index) => index + 7));
+  });
+
+  it('should sort by procedure time with unscheduled cases last', () => {
+    const sorted = sortCasesByTime([
+      buildCase({ id: 'tbd', timeOfProcedure: undefined }),
+      buildCase({ id: 'pm', timeOfProcedure: '1:00 PM' }),
+      buildCase({ id: 'am', timeOfProcedure: '08:00' })
+    ]);
+
+    expect(sorted.map(c => c.id)).toEqual(['am', 'pm', 'tbd']);
+  });
+
+  it('should group cases into doctor, hospital and implant box rows', () => {
+    const cases = [
+      buildCase(),
+      buildCase({ id: 'case-2', doctorName: '', hospital: 'City Hospital', implantBox: ['Implant Box 1', 'Implant Box 2'] }),
+      buildCase({ id: 'case-3', doctorName: 'Dr. Lim', implantBox: [] })
+    ];
+
+    expect(groupCasesByResource(cases, 'doctor').map(row => row.resource)).toEqual(['Dr. Lim', 'Dr. Tan', UNASSIGNED_RESOURCE]);
+    expect(groupCasesByResource(cases, 'hospital').map(row => [row.resource, row.cases.length])).toEqual([
+      ['City Hospital', 1],
+      ['General Hospital', 2]
+    ]);
+    expect(groupCasesByResource(cases, 'implantBox').map(row => [row.resource, row.cases.length])).toEqual([
+      ['Implant Box 1', 2],
+      ['Implant Box 2', 1],
+      [UNASSIGNED_RESOURCE, 1]
+    ]);
+  });
+
+  it('should count booked units per resource row', () => {
+    const cases = [
+      buildCase({ quantities: { 'Knee Set A': 2, 'Implant Box 1': 3 } }),
+      buildCase({ id: 'case-2' })
+    ];
+
+    expect(getResourceUsage(cases, 'Implant Box 1', 'implantBox')).toBe(4);
+    expect(getResourceUsage(cases, 'Dr. Tan', 'doctor')).toBe(8);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Case Cancellation Test Suite
+ * Validates cancellation details, reinstate targets, reason breakdowns and reinstate transitions
+ */
+
+import {
+  buildCancellationDetails,
+  getCaseCancellation,
+  getReinstateStatus,
+  summarizeCancellationReasons,
+  UNSPECIFIED_CANCELLATION_REASON
+} from '../utils/caseCancellationService';
+import { getDefaultStatusWorkflow, findStatusTransition, isReinstateTransition } from '../utils/statusWorkflowService';
+import { PERMISSION_ACTIONS } from '../utils/permissions';
+import { CaseBooking, CaseStatus, StatusHistory } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const entry = (status: CaseStatus, timestamp: string, details?: string): StatusHistory => ({
+  status,
+  timestamp,
+  processedBy: 'user-1',
+  details
+});
+
+const makeCase = (id: string, status: CaseStatus, statusHistory: StatusHistory[]): CaseBooking =>
+  createTestCase({ id, status, statusHistory });
+
+describe('Case Cancellation Tests', () => {
+  it('should read the reason and note of the latest cancellation', () => {
+    const caseItem = makeCase('a', 'Case Cancelled', [
+      entry('Case Booked', '2026-10-01T01:00:00Z'),
+      entry('Case Cancelled', '2026-10-02T01:00:00Z', buildCancellationDetails('Patient Unfit', '  High fever ')),
+      entry('Case Booked', '2026-10-03T01:00:00Z'),
+      entry('Case Cancelled', '2026-10-04T01:00:00Z', buildCancellationDetails('Hospital Rescheduled', ''))
+    ]);
+
+    expect(getCaseCancellation(caseItem)).toEqual({
+      reason: 'Hospital Rescheduled',
+      note: '',
+      cancelledBy: 'user-1',
+      cancelledAt: '2026-10-04T01:00:00Z'
+    });
+    expect(JSON.parse(buildCancellationDetails('Patient Unfit', '  High fever ')))
+      .toEqual({ cancellationReason: 'Patient Unfit', cancellationNote: 'High fever' });
+    expect(getCaseCancellation(makeCase('b', 'Case Cancelled', [
+      entry('Case Cancelled', '2026-10-02T01:00:00Z', 'Case cancelled by user request')
+    ]))?.reason).toBe(UNSPECIFIED_CANCELLATION_REASON);
+    expect(getCaseCancellation(makeCase('c', 'Case Booked', []))).toBeNull();
+  });
+
+  it('should reinstate to the status held before the latest cancellation', () => {
+    expect(getReinstateStatus(makeCase('a', 'Case Cancelled', [
+      entry('Case Cancelled', '2026-10-03T01:00:00Z'),
+      entry('Case Booked', '2026-10-01T01:00:00Z'),
+      entry('Order Prepared', '2026-10-02T01:00:00Z')
+    ]))).toBe('Order Prepared');
+    expect(getReinstateStatus(makeCase('b', 'Case Cancelled', [entry('Case Cancelled', '2026-10-03T01:00:00Z')]))).toBeNull();
+    expect(getReinstateStatus(makeCase('c', 'Order Prepared', [entry('Order Prepared', '2026-10-03T01:00:00Z')]))).toBeNull();
+  });
+
+  it('should break down cancelled cases by reason', () => {
+    const cancelled = (id: string, reason?: string) => makeCase(id, 'Case Cancelled', [
+      entry('Case Booked', '2026-10-01T01:00:00Z'),
+      entry('Case Cancelled', '2026-10-02T01:00:00Z', reason && buildCancellationDetails(reason, ''))
+    ]);
+
+    expect(summarizeCancellationReasons([
+      cancelled('a', 'Surgeon Unavailable'),
+      cancelled('b', 'Patient Unfit'),
+      cancelled('c', 'Surgeon Unavailable'),
+      cancelled('d'),
+      makeCase('e', 'Case Booked', [])
+    ])).toEqual([
+      { reason: 'Surgeon Unavailable', count: 2, percentage: 50 },
+      { reason: UNSPECIFIED_CANCELLATION_REASON, count: 1, percentage: 25 },
+      { reason: 'Patient Unfit', count: 1, percentage: 25 }
+    ]);
+  });
+
+  it('should only allow reinstating to statuses a case can be cancelled from', () => {
+    const workflow = getDefaultStatusWorkflow('Singapore');
+    const reinstate = findStatusTransition(workflow, 'Case Cancelled', 'Sales Approved');
+
+    expect(reinstate?.permission).toBe(PERMISSION_ACTIONS.REINSTATE_CASE);
+    expect(reinstate && isReinstateTransition(reinstate)).toBe(true);
+    expect(findStatusTransition(workflow, 'Case Cancelled', 'Case Closed')).toBeUndefined();
+    expect(findStatusTransition(getDefaultStatusWorkflow('Malaysia'), 'Case Cancelled', 'Loaner Received')).toBeDefined();
+  });
+});
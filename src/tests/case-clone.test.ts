@@ -0,0 +1,51 @@
+/**
+ * Case Clone Test Suite
+ * Validates duplicate booking drafts and grouping of clones by source case
+ */
+
+import { buildCloneDraft, groupClonesBySource } from '../utils/caseCloneService';
+import { CaseBooking } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const makeCase = (overrides: Partial<CaseBooking>): CaseBooking =>
+  createTestCase({ id: 'case-1', doctorId: 'doctor-1', doctorName: 'Dr. Tan', status: 'Case Cancelled', ...overrides });
+
+describe('Case Clone Tests', () => {
+  it('should copy booking fields and quantities but not the date or status', () => {
+    const draft = buildCloneDraft(makeCase({ specialInstruction: 'Left knee' }), [
+      { item_type: 'surgery_set', item_name: 'Knee Set A', quantity: 2 },
+      { item_type: 'implant_box', item_name: 'Implant Box 1', quantity: 1 }
+    ]);
+
+    expect(draft).toEqual({
+      country: 'Singapore',
+      name: 'case TMC-Singapore-2026-001',
+      hospital: 'General Hospital',
+      department: 'Orthopedics',
+      doctorId: 'doctor-1',
+      doctorName: 'Dr. Tan',
+      procedureType: 'Knee',
+      procedureName: 'TKR',
+      timeOfProcedure: '',
+      surgerySetSelection: ['Knee Set A'],
+      implantBox: ['Implant Box 1'],
+      quantities: { 'Knee Set A': 2, 'Implant Box 1': 1 },
+      specialInstruction: 'Left knee'
+    });
+    expect(draft).not.toHaveProperty('dateOfSurgery');
+    expect(draft).not.toHaveProperty('status');
+  });
+
+  it('should group clones under their source case, oldest first', () => {
+    const clones = groupClonesBySource([
+      makeCase({ id: 'source' }),
+      makeCase({ id: 'second', clonedFromId: 'source', submittedAt: '2026-10-05T00:00:00.000Z' }),
+      makeCase({ id: 'first', clonedFromId: 'source', submittedAt: '2026-10-03T00:00:00.000Z' }),
+      makeCase({ id: 'nested', clonedFromId: 'first', submittedAt: '2026-10-04T00:00:00.000Z' })
+    ]);
+
+    expect(clones.get('source')?.map(c => c.id)).toEqual(['first', 'second']);
+    expect(clones.get('first')?.map(c => c.id)).toEqual(['nested']);
+    expect(clones.has('second')).toBe(false);
+  });
+});
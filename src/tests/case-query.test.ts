@@ -0,0 +1,74 @@
+/**
+ * Case Query Test Suite
+ * Validates access scopes, search and keyset conditions, and realtime page merging
+ */
+
+import {
+  DRIVER_VISIBLE_STATUSES,
+  buildCaseSearchCondition,
+  buildKeysetCondition,
+  getCaseAccessScope,
+  matchesCasePageQuery,
+  mergeInsertedCase
+} from '../utils/caseQueryService';
+import { CaseBooking } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const makeCase = (id: string, changes: Partial<CaseBooking> = {}): CaseBooking =>
+  createTestCase({ id, caseReferenceNumber: `TMC-${id}`, ...changes });
+
+describe('Case Query Tests', () => {
+  it('should scope non-admin users by country, status and department', () => {
+    expect(getCaseAccessScope({ role: 'admin', countries: ['Singapore'] })).toEqual({});
+
+    const driverScope = getCaseAccessScope({ role: 'driver', countries: ['Singapore'], departments: ['Singapore: Orthopedics'] });
+    expect(driverScope.countries).toContain('Singapore');
+    expect(driverScope.statuses).toEqual(DRIVER_VISIBLE_STATUSES);
+    expect(driverScope.departments).toEqual(['Singapore: Orthopedics', 'Orthopedics']);
+
+    expect(getCaseAccessScope({ role: 'operations-manager', departments: ['Orthopedics'] }).departments).toBeUndefined();
+  });
+
+  it('should build search and keyset conditions for the database query', () => {
+    expect(buildCaseSearchCondition('  ')).toBeNull();
+    expect(buildCaseSearchCondition('%*')).toBeNull();
+
+    const search = buildCaseSearchCondition('knee') as string;
+    expect(search.split(',')).toHaveLength(6);
+    expect(search).toContain('.ilike."*knee*"');
+
+    expect(buildKeysetCondition({ sortValue: '2026-10-01T00:00:00Z', id: 'abc' })).toBe(
+      'created_at.lt."2026-10-01T00:00:00Z",and(created_at.eq."2026-10-01T00:00:00Z",id.lt."abc")'
+    );
+    expect(buildKeysetCondition({ sortValue: '2026-10-20', id: 'abc' }, 'surgeryDateAsc')).toBe(
+      'date_of_surgery.gt."2026-10-20",and(date_of_surgery.eq."2026-10-20",id.gt."abc")'
+    );
+  });
+
+  it('should match cases against filters, scope and search in memory', () => {
+    const caseItem = makeCase('1', { doctorName: 'Dr Tan' });
+
+    expect(matchesCasePageQuery(caseItem, { filters: { search: 'tan' }, pageSize: 5 })).toBe(true);
+    expect(matchesCasePageQuery(caseItem, { filters: { search: 'hip' }, pageSize: 5 })).toBe(false);
+    expect(matchesCasePageQuery(caseItem, { filters: { dateFrom: '2026-10-21' }, pageSize: 5 })).toBe(false);
+    expect(matchesCasePageQuery(caseItem, { filters: {}, scope: { statuses: DRIVER_VISIBLE_STATUSES }, pageSize: 5 })).toBe(false);
+    expect(matchesCasePageQuery(caseItem, { filters: {}, country: 'Malaysia', pageSize: 5 })).toBe(false);
+    expect(matchesCasePageQuery(caseItem, { filters: { country: 'Malaysia' }, pageSize: 5 })).toBe(false);
+  });
+
+  it('should merge matching inserts into the first page only', () => {
+    const page = [makeCase('1'), makeCase('2')];
+    const query = { filters: { hospital: 'General Hospital' }, pageSize: 2 };
+
+    expect(mergeInsertedCase(page, makeCase('3'), query).map(c => c.id)).toEqual(['3', '1']);
+    expect(mergeInsertedCase(page, makeCase('3', { hospital: 'NUH' }), query)).toBe(page);
+    expect(mergeInsertedCase(page, makeCase('1'), query)).toBe(page);
+
+    // Sorted by surgery date, an insert takes its place in the page or stays off it
+    const bySurgery = { ...query, sortOrder: 'surgeryDateAsc' as const };
+    const surgeryPage = [makeCase('1', { dateOfSurgery: '2026-10-10' }), makeCase('2', { dateOfSurgery: '2026-10-20' })];
+    expect(mergeInsertedCase(surgeryPage, makeCase('3', { dateOfSurgery: '2026-10-15' }), bySurgery).map(c => c.id)).toEqual(['1', '3']);
+    expect(mergeInsertedCase(surgeryPage, makeCase('3', { dateOfSurgery: '2026-10-25' }), bySurgery)).toBe(surgeryPage);
+    expect(mergeInsertedCase(page, makeCase('3'), { ...query, cursor: { sortValue: 'x', id: 'y' } })).toBe(page);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Case Reference Test Suite
+ * Validates configurable reference formatting and format validation
+ */
+
+import {
+  DEFAULT_CASE_REFERENCE_FORMAT,
+  formatCaseReference,
+  getCounterYear,
+  getDepartmentCode,
+  validateCaseReferenceFormat
+} from '../utils/caseReferenceService';
+
+describe('Case Reference Tests', () => {
+  const date = new Date(2026, 4, 1);
+
+  it('should keep the historical format by default', () => {
+    expect(formatCaseReference({ format: DEFAULT_CASE_REFERENCE_FORMAT, country: 'Singapore', counter: 7, date }))
+      .toBe('TMC-Singapore-2026-007');
+  });
+
+  it('should apply prefix, country code, short year, padding and department code', () => {
+    const format = {
+      ...DEFAULT_CASE_REFERENCE_FORMAT,
+      prefix: 'CB',
+      countrySegment: 'code' as const,
+      yearFormat: 'YY' as const,
+      padding: 5,
+      includeDepartmentCode: true,
+      departmentCodes: { Spine: 'SPN' }
+    };
+
+    expect(formatCaseReference({ format, country: 'Malaysia', counter: 42, department: 'Spine', date })).toBe('CB-MY-26-SPN-00042');
+    expect(formatCaseReference({ format, country: 'Malaysia', counter: 42, department: 'Hand Surgery', date })).toBe('CB-MY-26-HS-00042');
+  });
+
+  it('should derive department codes from initials when unmapped', () => {
+    expect(getDepartmentCode('Orthopedics', DEFAULT_CASE_REFERENCE_FORMAT)).toBe('ORT');
+    expect(getDepartmentCode('Cranio-Maxillo Facial', DEFAULT_CASE_REFERENCE_FORMAT)).toBe('CMF');
+  });
+
+  it('should use a non-resetting counter bucket when the year is omitted', () => {
+    expect(getCounterYear(DEFAULT_CASE_REFERENCE_FORMAT, date)).toBe(2026);
+    expect(getCounterYear({ ...DEFAULT_CASE_REFERENCE_FORMAT, yearFormat: 'none' }, date)).toBe(0);
+  });
+
+  it('should reject invalid formats', () => {
+    expect(validateCaseReferenceFormat(DEFAULT_CASE_REFERENCE_FORMAT)).toEqual([]);
+    expect(validateCaseReferenceFormat({ ...DEFAULT_CASE_REFERENCE_FORMAT, prefix: 'T M C' })).toHaveLength(1);
+    expect(validateCaseReferenceFormat({ ...DEFAULT_CASE_REFERENCE_FORMAT, padding: 0 })).toHaveLength(1);
+    expect(validateCaseReferenceFormat({
+      ...DEFAULT_CASE_REFERENCE_FORMAT,
+      prefix: '',
+      countrySegment: 'none',
+      yearFormat: 'none'
+    })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Case Reschedule Test Suite
+ * Validates the amendment fields built for calendar drag-and-drop moves
+ */
+
+import { buildRescheduleChanges, formatScheduleLabel } from '../utils/caseRescheduleService';
+
+describe('Case Reschedule Tests', () => {
+  const caseItem = { dateOfSurgery: '2026-10-20', timeOfProcedure: '14:30' };
+
+  it('should only change the date when dropped on a day cell', () => {
+    expect(buildRescheduleChanges(caseItem, { dateOfSurgery: '2026-10-22' })).toEqual({ dateOfSurgery: '2026-10-22' });
+  });
+
+  it('should move the hour and keep the minutes when dropped on a time slot', () => {
+    expect(buildRescheduleChanges(caseItem, { dateOfSurgery: '2026-10-20', hour: 9 })).toEqual({
+      dateOfSurgery: '2026-10-20',
+      timeOfProcedure: '09:30'
+    });
+    expect(buildRescheduleChanges({ dateOfSurgery: '2026-10-20', timeOfProcedure: '' }, { dateOfSurgery: '2026-10-21', hour: 8 })).toEqual({
+      dateOfSurgery: '2026-10-21',
+      timeOfProcedure: '08:00'
+    });
+  });
+
+  it('should ignore drops that do not move the case', () => {
+    expect(buildRescheduleChanges(caseItem, { dateOfSurgery: '2026-10-20' })).toBeNull();
+    expect(buildRescheduleChanges(caseItem, { dateOfSurgery: '2026-10-20', hour: 14 })).toBeNull();
+  });
+
+  it('should format schedule labels for the reason prompt', () => {
+    expect(formatScheduleLabel('2026-10-20', '14:30')).toBe('20/10/2026 14:30');
+    expect(formatScheduleLabel('2026-10-20')).toBe('20/10/2026');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Case Search Test Suite
+ * Validates search terms, typo-tolerant highlighting, snippets and result grouping
+ */
+
+import {
+  getEditDistance,
+  getSearchSnippet,
+  getSearchTerms,
+  groupSearchRows,
+  highlightSearchText,
+  termMatchesWord
+} from '../utils/caseSearchService';
+
+const makeRow = (caseId: string, source: string, field: string, content: string, score: number, changes: Record<string, any> = {}) => ({
+  case_id: caseId,
+  source,
+  field,
+  content,
+  score,
+  country: 'Singapore',
+  case_reference_number: `TMC-${caseId}`,
+  hospital: 'SGH',
+  doctor_name: 'Dr Johnson',
+  date_of_surgery: '2026-10-20',
+  status: 'Case Booked',
+  department: 'Orthopedics',
+  ...changes
+});
+
+describe('Case Search Tests', () => {
+  it('should split queries into unique search terms', () => {
+    expect(getSearchTerms('  DO-12345 Johnson johnson x ')).toEqual(['do', '12345', 'johnson']);
+    expect(getSearchTerms('a')).toEqual([]);
+  });
+
+  it('should tolerate typos in longer terms only', () => {
+    expect(getEditDistance('jhonson', 'johnson')).toBe(2);
+    expect(termMatchesWord('jhonson', 'Johnson')).toBe(true);
+    expect(termMatchesWord('jonson', 'Johnson')).toBe(true);
+    expect(termMatchesWord('johns', 'Johnsonville')).toBe(true);
+    expect(termMatchesWord('knee', 'Kneel')).toBe(true);
+    expect(termMatchesWord('hip', 'hop')).toBe(false);
+  });
+
+  it('should highlight matching words and cut long text around the first match', () => {
+    expect(highlightSearchText('Call Dr Johnson, then Jonson.', ['jhonson'])).toEqual([
+      { text: 'Call Dr ', highlighted: false },
+      { text: 'Johnson', highlighted: true },
+      { text: ', then ', highlighted: false },
+      { text: 'Jonson', highlighted: true },
+      { text: '.', highlighted: false }
+    ]);
+
+    const longText = `${'x '.repeat(100)}deliver to loading bay ${'y '.repeat(100)}`;
+    const snippet = getSearchSnippet(longText, ['loading'], 20);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('loading');
+    expect(getSearchSnippet('short text', ['text'])).toBe('short text');
+  });
+
+  it('should group rows per case, best match first, within the user scope', () => {
+    const results = groupSearchRows([
+      makeRow('1', 'case', 'hospital', 'SGH', 0.4),
+      makeRow('2', 'status_history', 'details', 'Handed to Dr Johnson', 0.9),
+      makeRow('1', 'attachment', 'file_name', 'johnson-consent.pdf', 0.7),
+      makeRow('1', 'attachment', 'file_name', 'johnson-consent.pdf', 0.7),
+      makeRow('3', 'case', 'doctor_name', 'Dr Johnson', 1, { status: 'Order Prepared' })
+    ], { statuses: ['Case Booked'] });
+
+    expect(results.map(result => result.caseId)).toEqual(['2', '1']);
+    expect(results[1].score).toBe(0.7);
+    expect(results[1].matches.map(match => match.source)).toEqual(['attachment', 'case']);
+    expect(results[0]).toMatchObject({ caseReferenceNumber: 'TMC-2', doctorName: 'Dr Johnson', country: 'Singapore' });
+  });
+});
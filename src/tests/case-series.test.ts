@@ -0,0 +1,77 @@
+/**
+ * Case Series Test Suite
+ * Validates recurrence dates, rule validation, template set selection and upcoming series cases
+ */
+
+import {
+  generateRecurrenceDates,
+  validateRecurrenceRule,
+  validateBookingTemplate,
+  applyTemplateSelection,
+  getUpcomingSeriesCases,
+  MAX_SERIES_OCCURRENCES
+} from '../utils/caseSeriesService';
+import { CaseStatus } from '../types';
+
+describe('Case Series Tests', () => {
+  it('should generate weekly dates across month and year ends', () => {
+    expect(generateRecurrenceDates({ type: 'weekly', startDate: '2026-12-15', occurrences: 4, intervalWeeks: 1 }))
+      .toEqual(['2026-12-15', '2026-12-22', '2026-12-29', '2027-01-05']);
+    expect(generateRecurrenceDates({ type: 'weekly', startDate: '2026-10-20', occurrences: 3, intervalWeeks: 2 }))
+      .toEqual(['2026-10-20', '2026-11-03', '2026-11-17']);
+    expect(generateRecurrenceDates({ type: 'dates', dates: ['2026-11-10', '2026-10-27', '2026-11-10', ''] }))
+      .toEqual(['2026-10-27', '2026-11-10']);
+  });
+
+  it('should reject invalid recurrence rules', () => {
+    expect(validateRecurrenceRule({ type: 'weekly', startDate: '2026-10-20', occurrences: 4, intervalWeeks: 1 }, '2026-10-18'))
+      .toEqual([]);
+    expect(validateRecurrenceRule({ type: 'weekly', startDate: '2026-10-20', occurrences: MAX_SERIES_OCCURRENCES + 1, intervalWeeks: 0 }, '2026-10-18'))
+      .toEqual([
+        `Number of cases must be between 2 and ${MAX_SERIES_OCCURRENCES}`,
+        'Repeat interval must be at least 1 week'
+      ]);
+    expect(validateRecurrenceRule({ type: 'dates', dates: ['2026-10-20'] }, '2026-10-18')).toEqual(['Pick at least two dates']);
+    expect(validateRecurrenceRule({ type: 'dates', dates: ['2026-10-01', '2026-10-20'] }, '2026-10-18'))
+      .toEqual(['Series dates cannot be in the past']);
+  });
+
+  it('should apply only the template sets still configured for the procedure', () => {
+    const selection = applyTemplateSelection(
+      { surgerySetSelection: ['Knee Set A', 'Retired Set'], implantBox: ['Implant Box 1'], quantities: { 'Knee Set A': 2 } },
+      [
+        { item_type: 'surgery_set', item_name: 'Knee Set A' },
+        { item_type: 'implant_box', item_name: 'Implant Box 1' }
+      ]
+    );
+
+    expect(selection).toEqual({
+      surgerySetSelection: ['Knee Set A'],
+      implantBox: ['Implant Box 1'],
+      quantities: { 'Knee Set A': 2, 'Implant Box 1': 1 }
+    });
+    expect(validateBookingTemplate({
+      country: 'Singapore', name: ' ', hospital: '', department: 'Orthopedics', doctorId: '', doctorName: '',
+      procedureType: 'Knee', procedureName: '', timeOfProcedure: '', surgerySetSelection: [], implantBox: [],
+      quantities: {}, specialInstruction: ''
+    })).toEqual([
+      'Template name is required',
+      'Select a department, doctor and procedure type before saving a template'
+    ]);
+  });
+
+  it('should only treat future undelivered cases as upcoming', () => {
+    const seriesCase = (id: string, dateOfSurgery: string, status: CaseStatus, seriesId = 'series-1') =>
+      ({ id, seriesId, dateOfSurgery, status });
+    const cases = [
+      seriesCase('d', '2026-11-03', 'Order Prepared'),
+      seriesCase('a', '2026-10-13', 'Case Booked'),
+      seriesCase('b', '2026-10-20', 'Case Booked'),
+      seriesCase('c', '2026-10-27', 'Delivered (Hospital)'),
+      seriesCase('e', '2026-11-10', 'Case Cancelled'),
+      seriesCase('f', '2026-10-20', 'Case Booked', 'series-2')
+    ];
+
+    expect(getUpcomingSeriesCases(cases, 'series-1', '2026-10-18').map(c => c.id)).toEqual(['b', 'd']);
+  });
+});
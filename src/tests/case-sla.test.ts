@@ -0,0 +1,85 @@
+/**
+ * Case SLA Test Suite
+ * Validates SLA deadlines, states, badge text and settings validation
+ */
+
+import {
+  DEFAULT_SLA_SETTINGS,
+  evaluateCaseSlas,
+  formatSlaRemaining,
+  isBreachingSla,
+  validateSlaSettings
+} from '../utils/caseSlaService';
+import { getDefaultStatusWorkflow } from '../utils/statusWorkflowService';
+import { CaseBooking, CaseStatus, StatusHistory } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const workflowStatuses = getDefaultStatusWorkflow('Singapore').statuses;
+
+const makeCase = (status: CaseStatus, statusHistory: StatusHistory[] = []): CaseBooking =>
+  createTestCase({ status, timeOfProcedure: '10:00', statusHistory });
+
+const evaluate = (caseItem: CaseBooking, now: Date) =>
+  evaluateCaseSlas({ caseItem, settings: DEFAULT_SLA_SETTINGS, workflowStatuses, now });
+
+describe('Case SLA Tests', () => {
+  it('should time order preparation against the surgery start in the case country', () => {
+    const booked = makeCase('Case Booked');
+
+    // 10:00 in Singapore is 02:00 UTC, whatever the test machine's time zone
+    expect(evaluate(booked, new Date('2026-10-18T02:00:00.000Z'))[0]).toMatchObject({
+      ruleId: 'order-prepared-before-surgery',
+      dueAt: '2026-10-19T02:00:00.000Z',
+      state: 'on_track'
+    });
+    expect(evaluate(booked, new Date('2026-10-18T23:00:00.000Z'))[0].state).toBe('due_soon');
+    expect(isBreachingSla(evaluate(booked, new Date('2026-10-19T03:00:00.000Z')))).toBe(true);
+    expect(evaluate({ ...booked, country: 'Vietnam' }, new Date('2026-10-18T02:00:00.000Z'))[0].dueAt).toBe('2026-10-19T03:00:00.000Z');
+  });
+
+  it('should start after_status clocks from the status history', () => {
+    const completed = makeCase('Case Completed', [
+      { status: 'Case Completed', timestamp: '2026-10-20T06:00:00.000Z', processedBy: 'user-1' }
+    ]);
+    const results = evaluate(completed, new Date('2026-10-22T07:00:00.000Z'));
+
+    expect(results).toEqual([{
+      ruleId: 'collection-after-completion',
+      ruleName: 'Collection after completion',
+      targetStatus: 'Pending Delivery (Office)',
+      dueAt: '2026-10-22T06:00:00.000Z',
+      state: 'breached'
+    }]);
+    expect(formatSlaRemaining(results[0], new Date('2026-10-22T11:00:00.000Z'))).toBe('Overdue 5h');
+    expect(formatSlaRemaining({ ...results[0], state: 'due_soon' }, new Date('2026-10-22T03:00:00.000Z'))).toBe('Due in 3h');
+  });
+
+  it('should skip reached targets, unstarted clocks and cancelled cases', () => {
+    const now = new Date(2026, 9, 25);
+
+    expect(evaluate(makeCase('Order Prepared'), now)).toEqual([]);
+    expect(evaluate(makeCase('Case Completed'), now)).toEqual([]);
+    expect(evaluate(makeCase('Case Cancelled'), now)).toEqual([]);
+    expect(evaluateCaseSlas({
+      caseItem: makeCase('Case Booked'),
+      settings: { ...DEFAULT_SLA_SETTINGS, enabled: false },
+      workflowStatuses,
+      now
+    })).toEqual([]);
+  });
+
+  it('should reject rules that do not fit the workflow', () => {
+    expect(validateSlaSettings(DEFAULT_SLA_SETTINGS, workflowStatuses)).toEqual([]);
+    expect(validateSlaSettings({
+      enabled: true,
+      escalationRole: '',
+      rules: [
+        { id: 'a', name: 'Backwards', targetStatus: 'Order Prepared', anchor: 'after_status', anchorStatus: 'Case Completed', hours: 0 }
+      ]
+    }, workflowStatuses)).toEqual([
+      'Choose the role that SLA breaches are escalated to',
+      'Backwards: hours must be more than 0',
+      'Backwards: the clock must start at a status before "Order Prepared"'
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Case Views Test Suite
+ * Validates relative date ranges, stored filters, applied-view detection, access and landing views
+ */
+
+import {
+  EMPTY_CASE_VIEW,
+  canEditCaseView,
+  canViewCaseView,
+  getStoredCaseViewFilters,
+  isCaseViewApplied,
+  pickDefaultCaseView,
+  resolveCaseViewFilters
+} from '../utils/caseViewService';
+
+const today = new Date('2026-10-18T09:00:00Z');
+
+const personalView = { ...EMPTY_CASE_VIEW, id: 'view-1', name: 'Mine', ownerId: 'owner' };
+const driverView = {
+  ...EMPTY_CASE_VIEW,
+  id: 'view-2',
+  name: 'Today + Pending Delivery',
+  ownerId: 'admin-1',
+  filters: { status: 'Pending Delivery (Hospital)' as const },
+  dateRange: 'today' as const,
+  sharedRoles: ['driver'],
+  isRoleDefault: true
+};
+
+describe('Case Views Tests', () => {
+  it('should resolve relative date ranges when a view is applied', () => {
+    expect(resolveCaseViewFilters(driverView, today)).toEqual({
+      status: 'Pending Delivery (Hospital)',
+      dateFrom: '2026-10-18',
+      dateTo: '2026-10-18'
+    });
+    expect(resolveCaseViewFilters({ ...driverView, dateRange: 'next7Days' }, today)).toMatchObject({
+      dateFrom: '2026-10-18',
+      dateTo: '2026-10-24'
+    });
+    expect(resolveCaseViewFilters({ ...personalView, filters: { dateFrom: '2026-01-01' } }, today)).toEqual({ dateFrom: '2026-01-01' });
+  });
+
+  it('should store filters without empty values or dates covered by a relative range', () => {
+    const filters = { status: 'Case Booked' as const, hospital: '', dateFrom: '2026-10-18', dateTo: '2026-10-18' };
+    expect(getStoredCaseViewFilters(filters, 'today')).toEqual({ status: 'Case Booked' });
+    expect(getStoredCaseViewFilters(filters, 'fixed')).toEqual({ status: 'Case Booked', dateFrom: '2026-10-18', dateTo: '2026-10-18' });
+  });
+
+  it('should tell whether the list still shows a view', () => {
+    const state = {
+      filters: { status: 'Pending Delivery (Hospital)' as const, dateFrom: '2026-10-18', dateTo: '2026-10-18', search: '' },
+      sortOrder: 'newest' as const,
+      expandCases: false
+    };
+    expect(isCaseViewApplied(driverView, state, today)).toBe(true);
+    expect(isCaseViewApplied(driverView, { ...state, sortOrder: 'surgeryDateAsc' }, today)).toBe(false);
+    expect(isCaseViewApplied(driverView, { ...state, filters: { ...state.filters, hospital: 'SGH' } }, today)).toBe(false);
+  });
+
+  it('should limit views to owners, published roles and admins', () => {
+    expect(canViewCaseView(personalView, { id: 'owner', role: 'sales' })).toBe(true);
+    expect(canViewCaseView(personalView, { id: 'other', role: 'admin' })).toBe(false);
+    expect(canViewCaseView(driverView, { id: 'driver-1', role: 'driver' })).toBe(true);
+    expect(canViewCaseView(driverView, { id: 'sales-1', role: 'sales' })).toBe(false);
+
+    expect(canEditCaseView(driverView, { id: 'driver-1', role: 'driver' })).toBe(false);
+    expect(canEditCaseView(driverView, { id: 'admin-2', role: 'admin' })).toBe(true);
+    expect(canEditCaseView(EMPTY_CASE_VIEW, { id: 'driver-1', role: 'driver' })).toBe(true);
+  });
+
+  it('should land on the personal default, then the role default', () => {
+    const views = [personalView, driverView];
+    expect(pickDefaultCaseView(views, { id: 'owner', role: 'driver' }, 'view-1')).toBe(personalView);
+    expect(pickDefaultCaseView(views, { id: 'owner', role: 'driver' }, 'deleted-view')).toBe(driverView);
+    expect(pickDefaultCaseView(views, { id: 'owner', role: 'sales' }, null)).toBeNull();
+  });
+});
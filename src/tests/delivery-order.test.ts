@@ -0,0 +1,91 @@
+/**
+ * Delivery Order Test Suite
+ * Validates DO numbering, template validation and document rendering
+ */
+
+import {
+  DEFAULT_DELIVERY_ORDER_TEMPLATE,
+  formatDeliveryOrderNumber,
+  validateDeliveryOrderTemplate,
+  fillDeliveryOrderPlaceholders,
+  getDeliveryOrderPlaceholderValues,
+  renderDeliveryOrderHtml,
+  buildDeliveryOrderAttachment
+} from '../utils/deliveryOrderService';
+import { createTestCase } from './utils/testHelpers';
+
+const caseItem = createTestCase({
+  id: 'case-1',
+  doctorName: 'Dr. <Tan>',
+  timeOfProcedure: '14:30',
+  status: 'Order Prepared'
+});
+
+describe('Delivery Order Tests', () => {
+  const issuedAt = new Date(2026, 9, 19, 8, 0);
+
+  it('should number DOs with prefix, country code, year and padding', () => {
+    expect(formatDeliveryOrderNumber(DEFAULT_DELIVERY_ORDER_TEMPLATE, 'Singapore', 42, issuedAt)).toBe('DO-SG-2026-00042');
+    expect(formatDeliveryOrderNumber({ ...DEFAULT_DELIVERY_ORDER_TEMPLATE, yearFormat: 'none', padding: 3 }, 'Singapore', 7, issuedAt))
+      .toBe('DO-SG-007');
+  });
+
+  it('should reject invalid templates and unknown placeholders', () => {
+    expect(validateDeliveryOrderTemplate(DEFAULT_DELIVERY_ORDER_TEMPLATE)).toEqual([]);
+    expect(validateDeliveryOrderTemplate({
+      ...DEFAULT_DELIVERY_ORDER_TEMPLATE,
+      numberPrefix: 'D O',
+      title: ' ',
+      footerNote: 'Call {{salesRep}}'
+    })).toEqual([
+      'DO number prefix may only contain letters and numbers',
+      'Document title is required',
+      'Unknown placeholders: {{salesRep}}'
+    ]);
+  });
+
+  it('should fill placeholders from the case', () => {
+    const values = getDeliveryOrderPlaceholderValues({ template: DEFAULT_DELIVERY_ORDER_TEMPLATE, caseItem, doNumber: 'DO-SG-2026-00001', issuedAt });
+
+    expect(fillDeliveryOrderPlaceholders('{{doNumber}} for {{ hospital }} on {{surgeryDate}} {{other}}', values))
+      .toBe('DO-SG-2026-00001 for General Hospital on 20/10/2026 14:30 {{other}}');
+    expect(values.issueDate).toBe('19/10/2026');
+  });
+
+  it('should render items with quantities and escape case data', () => {
+    const html = renderDeliveryOrderHtml({
+      template: DEFAULT_DELIVERY_ORDER_TEMPLATE,
+      caseItem,
+      doNumber: 'DO-SG-2026-00001',
+      items: [{ name: 'Knee Set A', type: 'surgery_set', quantity: 2 }],
+      issuedAt,
+      issuedBy: 'Ops User'
+    });
+
+    expect(html).toContain('<h1>DELIVERY ORDER</h1>');
+    expect(html).toContain('<td>Knee Set A</td><td>Surgery Set</td><td class="qty">2</td>');
+    expect(html).toContain('Dr. &lt;Tan&gt;');
+    expect(html).not.toContain('Dr. <Tan>');
+    expect(html).toContain('Issued by: Ops User');
+
+    const withoutDoctor = renderDeliveryOrderHtml({
+      template: { ...DEFAULT_DELIVERY_ORDER_TEMPLATE, showDoctor: false, showSignatureBlock: false },
+      caseItem,
+      doNumber: 'DO-SG-2026-00001',
+      items: [],
+      issuedAt,
+      issuedBy: 'Ops User'
+    });
+    expect(withoutDoctor).not.toContain('<th>Doctor</th>');
+    expect(withoutDoctor).not.toContain('Issued by:');
+    expect(withoutDoctor).toContain('No sets or implant boxes');
+  });
+
+  it('should wrap the document as a status history attachment', () => {
+    const attachment = JSON.parse(buildDeliveryOrderAttachment('<p>DO</p>', 'DO-SG-2026-00001', issuedAt));
+
+    expect(attachment.name).toBe('DO-SG-2026-00001.html');
+    expect(attachment.type).toBe('text/html');
+    expect(decodeURIComponent(attachment.data.replace('data:text/html;charset=utf-8,', ''))).toBe('<p>DO</p>');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Driver Manifest Test Suite
+ * Validates case selection, hospital stops and sequencing for the route sheet
+ */
+
+import {
+  selectManifestCases,
+  buildManifestStops,
+  getCurrentStopIndex,
+  moveManifestStop,
+  getDeliveryOrderNumber
+} from '../utils/driverManifestService';
+import { CaseBooking, CaseStatus } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const buildCase = (overrides: Partial<CaseBooking> = {}): CaseBooking =>
+  createTestCase({
+    id: 'case-1',
+    doctorName: 'Dr. Tan',
+    timeOfProcedure: '14:30',
+    status: 'Pending Delivery (Hospital)',
+    ...overrides
+  });
+
+describe('Driver Manifest Tests', () => {
+  it('should select deliveries for the date and outstanding collections', () => {
+    const cases = [
+      buildCase(),
+      buildCase({ id: 'other-day', dateOfSurgery: '2026-10-21' }),
+      buildCase({ id: 'collect-old', status: 'Pending Collection (At Hospital)' as CaseStatus, dateOfSurgery: '2026-10-15' }),
+      buildCase({ id: 'collect-future', status: 'Pending Collection (At Hospital)' as CaseStatus, dateOfSurgery: '2026-10-25' }),
+      buildCase({ id: 'collect-legacy', status: 'Pending Delivery (Office)', dateOfSurgery: '2026-10-19' }),
+      buildCase({ id: 'booked', status: 'Case Booked' })
+    ];
+
+    expect(selectManifestCases(cases, '2026-10-20').map(c => c.id)).toEqual(['case-1', 'collect-old', 'collect-legacy']);
+  });
+
+  it('should keep entries completed on the manifest date', () => {
+    const delivered = buildCase({
+      status: 'Delivered (Hospital)',
+      statusHistory: [{ status: 'Delivered (Hospital)', timestamp: new Date(2026, 9, 20, 9, 0).toISOString(), processedBy: 'driver' }]
+    });
+
+    expect(selectManifestCases([delivered], '2026-10-20')).toHaveLength(1);
+    expect(selectManifestCases([delivered], '2026-10-21')).toHaveLength(0);
+    expect(buildManifestStops([delivered], {})[0].entries[0].completed).toBe(true);
+  });
+
+  it('should group by hospital with quantities and order stops by earliest delivery', () => {
+    const cases = [
+      buildCase({ id: 'late', hospital: 'City Hospital', timeOfProcedure: '16:00' }),
+      buildCase({ id: 'early', timeOfProcedure: '08:00' }),
+      buildCase({ id: 'collect', hospital: 'Bay Hospital', status: 'Pending Collection (At Hospital)' as CaseStatus })
+    ];
+
+    const stops = buildManifestStops(cases, { early: { 'Knee Set A': 3 } });
+
+    expect(stops.map(stop => stop.hospital)).toEqual(['General Hospital', 'City Hospital', 'Bay Hospital']);
+    expect(stops[0].entries[0].items).toEqual([
+      { name: 'Knee Set A', type: 'surgery_set', quantity: 3 },
+      { name: 'Implant Box 1', type: 'implant_box', quantity: 1 }
+    ]);
+  });
+
+  it('should follow a manual stop sequence and find the current stop', () => {
+    const cases = [
+      buildCase({ id: 'a', hospital: 'A Hospital', status: 'Delivered (Hospital)', statusHistory: [] }),
+      buildCase({ id: 'b', hospital: 'B Hospital' })
+    ];
+    const stops = buildManifestStops(cases, {}, moveManifestStop(buildManifestStops(cases, {}), 0, 'down'));
+
+    expect(stops.map(stop => stop.hospital)).toEqual(['B Hospital', 'A Hospital']);
+    expect(getCurrentStopIndex(stops)).toBe(0);
+    expect(getCurrentStopIndex([stops[1]])).toBe(-1);
+  });
+
+  it('should read the DO number from the case or its status history', () => {
+    expect(getDeliveryOrderNumber({ doNumber: 'DO-1' })).toBe('DO-1');
+    expect(getDeliveryOrderNumber({
+      statusHistory: [
+        { status: 'Case Completed', timestamp: '2026-10-20T00:00:00Z', processedBy: 'x', details: '{"doNumber":"DO-2"}' },
+        { status: 'Case Booked', timestamp: '2026-10-01T00:00:00Z', processedBy: 'x', details: 'plain text' }
+      ]
+    })).toBe('DO-2');
+  });
+});
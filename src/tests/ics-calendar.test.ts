@@ -0,0 +1,103 @@
+/**
+ * ICS Calendar Test Suite
+ * Validates iCalendar generation for booking calendar exports and feeds
+ */
+
+import {
+  generateIcsCalendar,
+  buildCaseEvent,
+  foldIcsLine,
+  escapeIcsText,
+  parseProcedureTime,
+  filterCasesForCalendar,
+  getCalendarFeedAccessError
+} from '../utils/icsCalendarService';
+import { CaseBooking } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const buildCase = (overrides: Partial<CaseBooking> = {}): CaseBooking =>
+  createTestCase({ id: 'case-1', doctorName: 'Dr. Tan', timeOfProcedure: '14:30', quantities: { 'Knee Set A': 2 }, ...overrides });
+
+describe('ICS Calendar Tests', () => {
+  const now = new Date('2026-10-18T00:00:00.000Z');
+
+  it('should emit timed events in the country time zone with case details', () => {
+    const event = buildCaseEvent(buildCase(), now).join('\n');
+
+    expect(event).toContain('DTSTART;TZID=Asia/Singapore:20261020T143000');
+    expect(event).toContain('DTEND;TZID=Asia/Singapore:20261020T163000');
+    expect(event).toContain('UID:case-1@tm-case-booking');
+    expect(event).toContain('Knee Set A x2');
+    expect(event).toContain('Doctor: Dr. Tan');
+    expect(event).toContain('STATUS:CONFIRMED');
+  });
+
+  it('should emit all-day events when there is no procedure time', () => {
+    const event = buildCaseEvent(buildCase({ timeOfProcedure: undefined, dateOfSurgery: '2026-12-31' }), now);
+
+    expect(event).toContain('DTSTART;VALUE=DATE:20261231');
+    expect(event).toContain('DTEND;VALUE=DATE:20270101');
+  });
+
+  it('should mark cancelled cases as STATUS:CANCELLED', () => {
+    const event = buildCaseEvent(buildCase({ status: 'Case Cancelled' }), now);
+
+    expect(event).toContain('STATUS:CANCELLED');
+    expect(event).toContain('SEQUENCE:1');
+  });
+
+  it('should escape text and fold long lines with CRLF', () => {
+    expect(escapeIcsText('a,b;c\nd')).toBe('a\\,b\\;c\\nd');
+
+    const folded = foldIcsLine(`DESCRIPTION:${'x'.repeat(200)}`);
+    expect(folded.split('\r\n ').every(part => part.length <= 75)).toBe(true);
+
+    const calendar = generateIcsCalendar([buildCase()], { calendarName: 'Test', country: 'Singapore', now });
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('should parse 24-hour and 12-hour procedure times', () => {
+    expect(parseProcedureTime('09:05')).toEqual({ hours: 9, minutes: 5 });
+    expect(parseProcedureTime('2:30 PM')).toEqual({ hours: 14, minutes: 30 });
+    expect(parseProcedureTime('TBC')).toBeNull();
+  });
+
+  it('should scope cases by user, department and recent dates', () => {
+    const cases = [
+      buildCase(),
+      buildCase({ id: 'case-2', submittedBy: 'user-2', department: 'Spine' }),
+      buildCase({ id: 'case-3', dateOfSurgery: '2026-01-01' }),
+      buildCase({ id: 'case-4', country: 'Malaysia' })
+    ];
+
+    expect(filterCasesForCalendar(cases, { scope: 'mine', country: 'Singapore', userId: 'user-1' }, now).map(c => c.id)).toEqual(['case-1']);
+    expect(filterCasesForCalendar(cases, { scope: 'department', country: 'Singapore', department: 'Spine' }, now).map(c => c.id)).toEqual(['case-2']);
+    expect(filterCasesForCalendar(cases, { scope: 'country', country: 'Singapore' }, now).map(c => c.id)).toEqual(['case-1', 'case-2']);
+  });
+
+  it('should define a VTIMEZONE for every TZID in the calendar', () => {
+    const calendar = generateIcsCalendar(
+      [buildCase(), buildCase({ id: 'case-2', country: 'Vietnam' }), buildCase({ id: 'case-3', country: 'Malaysia', timeOfProcedure: undefined })],
+      { calendarName: 'Case Bookings', country: 'Singapore', now }
+    );
+
+    expect(calendar.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2);
+    expect(calendar).toContain('TZID:Asia/Singapore\r\nBEGIN:STANDARD\r\nDTSTART:19700101T000000\r\nTZOFFSETFROM:+0800');
+    expect(calendar).toContain('TZID:Asia/Ho_Chi_Minh');
+    expect(calendar).toContain('TZOFFSETTO:+0700');
+    expect(calendar).not.toContain('TZID:Asia/Kuala_Lumpur');
+  });
+
+  it('should only allow feeds for scopes the user can see', () => {
+    const user = { role: 'sales', countries: ['Singapore'], departments: ['Orthopedics'], enabled: true };
+
+    expect(getCalendarFeedAccessError(user, { scope: 'mine', country: 'Singapore' })).toBeNull();
+    expect(getCalendarFeedAccessError(user, { scope: 'department', country: 'Singapore', department: 'Orthopedics' })).toBeNull();
+    expect(getCalendarFeedAccessError(user, { scope: 'department', country: 'Singapore', department: 'Spine' })).toContain('Spine');
+    expect(getCalendarFeedAccessError(user, { scope: 'country', country: 'Singapore' })).toContain('Only admin and IT');
+    expect(getCalendarFeedAccessError(user, { scope: 'mine', country: 'Malaysia' })).toContain('Malaysia');
+    expect(getCalendarFeedAccessError({ ...user, enabled: false }, { scope: 'mine', country: 'Singapore' })).toContain('disabled');
+    expect(getCalendarFeedAccessError({ ...user, role: 'admin', countries: [] }, { scope: 'country', country: 'Malaysia' })).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Inventory Availability Test Suite
+ * Validates set/implant double-booking detection with the turnaround buffer
+ */
+
+import {
+  detectInventoryConflicts,
+  buildRequestedQuantities,
+  shiftDate,
+  BookedInventoryEntry
+} from '../utils/inventoryAvailabilityService';
+
+const booking = (overrides: Partial<BookedInventoryEntry>): BookedInventoryEntry => ({
+  caseId: 'case-1',
+  caseReferenceNumber: 'TMC0001',
+  dateOfSurgery: '2025-03-10',
+  itemType: 'implant_box',
+  itemName: 'Spine Implant Box 1',
+  quantity: 1,
+  ...overrides
+});
+
+describe('Inventory Availability Tests', () => {
+  const owned = new Map([['implant_box:spine implant box 1', 1]]);
+  const requested = buildRequestedQuantities([], ['Spine Implant Box 1'], {});
+
+  it('should flag a second booking of a single-unit item on the same day', () => {
+    const conflicts = detectInventoryConflicts({
+      dateOfSurgery: '2025-03-10',
+      requested,
+      owned,
+      booked: [booking({})],
+      turnaroundDays: 0
+    });
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ owned: 1, alreadyBooked: 1, conflictDate: '2025-03-10', conflictingCases: ['TMC0001'] });
+  });
+
+  it('should respect the turnaround buffer in both directions', () => {
+    const params = { requested, owned, turnaroundDays: 2 };
+
+    expect(detectInventoryConflicts({ ...params, dateOfSurgery: '2025-03-12', booked: [booking({})] })).toHaveLength(1);
+    expect(detectInventoryConflicts({ ...params, dateOfSurgery: '2025-03-08', booked: [booking({})] })).toHaveLength(1);
+    expect(detectInventoryConflicts({ ...params, dateOfSurgery: '2025-03-13', booked: [booking({})] })).toHaveLength(0);
+  });
+
+  it('should use peak concurrent usage rather than summing the whole window', () => {
+    const conflicts = detectInventoryConflicts({
+      dateOfSurgery: '2025-03-10',
+      requested,
+      owned: new Map([['implant_box:spine implant box 1', 2]]),
+      booked: [
+        booking({ dateOfSurgery: '2025-03-09', caseReferenceNumber: 'TMC0001' }),
+        booking({ dateOfSurgery: '2025-03-11', caseReferenceNumber: 'TMC0002' })
+      ],
+      turnaroundDays: 1
+    });
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should ignore items without an owned quantity and match names case-insensitively', () => {
+    const untracked = detectInventoryConflicts({
+      dateOfSurgery: '2025-03-10',
+      requested: buildRequestedQuantities(['Basic Set'], [], { 'Basic Set': 5 }),
+      owned,
+      booked: [booking({ itemType: 'surgery_set', itemName: 'Basic Set', quantity: 5 })],
+      turnaroundDays: 0
+    });
+    const caseInsensitive = detectInventoryConflicts({
+      dateOfSurgery: '2025-03-10',
+      requested,
+      owned,
+      booked: [booking({ itemName: 'spine implant box 1 ' })],
+      turnaroundDays: 0
+    });
+
+    expect(untracked).toEqual([]);
+    expect(caseInsensitive).toHaveLength(1);
+  });
+
+  it('should shift dates across month boundaries', () => {
+    expect(shiftDate('2025-03-01', -1)).toBe('2025-02-28');
+    expect(shiftDate('2025-12-31', 1)).toBe('2026-01-01');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Price List Test Suite
+ * Validates price list resolution, case value estimation, value summaries and validation
+ */
+
+import {
+  PriceList,
+  resolvePriceLists,
+  estimateCaseValue,
+  summarizeCaseValues,
+  formatCurrencyTotals,
+  validatePriceList
+} from '../utils/priceListService';
+import { CaseBooking } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const makeCase = (overrides: Partial<CaseBooking>): CaseBooking =>
+  createTestCase({ id: 'case-1', ...overrides });
+
+const countryList: PriceList = {
+  id: 'list-country',
+  country: 'Singapore',
+  hospital: null,
+  name: '2026 Standard',
+  currency: 'SGD',
+  effectiveFrom: '2026-01-01',
+  effectiveTo: null,
+  items: [
+    { itemType: 'surgery_set', itemName: 'Knee Set A', unitPrice: 1000 },
+    { itemType: 'implant_box', itemName: 'Implant Box 1', unitPrice: 250.5 }
+  ]
+};
+
+const hospitalList: PriceList = {
+  id: 'list-hospital',
+  country: 'Singapore',
+  hospital: 'General Hospital',
+  name: 'General Hospital Contract',
+  currency: 'SGD',
+  effectiveFrom: '2026-06-01',
+  effectiveTo: '2026-12-31',
+  items: [{ itemType: 'surgery_set', itemName: 'knee set a', unitPrice: 800 }]
+};
+
+describe('Price List Tests', () => {
+  it('should prefer the hospital list and fall back to the country list', () => {
+    expect(resolvePriceLists([countryList, hospitalList], makeCase({})).map(list => list.id))
+      .toEqual(['list-hospital', 'list-country']);
+    expect(resolvePriceLists([countryList, hospitalList], makeCase({ dateOfSurgery: '2027-01-05' })).map(list => list.id))
+      .toEqual(['list-country']);
+    expect(resolvePriceLists([countryList], makeCase({ dateOfSurgery: '2025-12-31' }))).toEqual([]);
+  });
+
+  it('should estimate case value from booked quantities', () => {
+    const estimate = estimateCaseValue(makeCase({}), { 'Knee Set A': 2 }, [countryList, hospitalList]);
+
+    // 2 x 800 (hospital price) + 1 x 250.50 (country price)
+    expect(estimate).toEqual({ caseId: 'case-1', currency: 'SGD', value: 1850.5, pricedItems: 2, unpricedItems: [] });
+
+    const unpriced = estimateCaseValue(makeCase({ implantBox: ['Hip Box'] }), {}, [countryList]);
+    expect(unpriced.value).toBe(1000);
+    expect(unpriced.unpricedItems).toEqual(['Hip Box']);
+  });
+
+  it('should summarize booked, billed and pending billing value', () => {
+    const cases = [
+      makeCase({ id: 'a', status: 'Case Booked', department: 'Orthopedics' }),
+      makeCase({ id: 'b', status: 'To be billed', department: 'Spine' }),
+      makeCase({ id: 'c', status: 'Case Closed', department: 'Spine' }),
+      makeCase({ id: 'd', status: 'Case Cancelled', department: 'Spine' }),
+      makeCase({ id: 'e', status: 'Case Booked', department: 'Spine', country: 'Malaysia' })
+    ];
+    const estimate = (caseId: string, value: number, currency: string | null = 'SGD') =>
+      ({ caseId, currency, value, pricedItems: 1, unpricedItems: [] });
+    const summary = summarizeCaseValues(cases, {
+      a: estimate('a', 100),
+      b: estimate('b', 200),
+      c: estimate('c', 300),
+      d: estimate('d', 400),
+      e: estimate('e', 0, null)
+    });
+
+    expect(summary.bookedValue).toEqual({ SGD: 600 });
+    expect(summary.billedValue).toEqual({ SGD: 300 });
+    expect(summary.pendingBillingValue).toEqual({ SGD: 200 });
+    expect(summary.departmentValue).toEqual({ Orthopedics: { SGD: 100 }, Spine: { SGD: 500 } });
+    expect(summary.unpricedCases).toBe(1);
+    expect(formatCurrencyTotals({ SGD: 1234.5, MYR: 10 })).toBe('MYR 10.00 · SGD 1,234.50');
+  });
+
+  it('should reject invalid and overlapping price lists', () => {
+    expect(validatePriceList({ ...countryList, id: undefined, effectiveFrom: '2027-01-01' }, [])).toEqual([]);
+    expect(validatePriceList({
+      ...hospitalList,
+      id: undefined,
+      currency: 'sg',
+      effectiveFrom: '2026-09-01',
+      items: [
+        { itemType: 'surgery_set', itemName: 'Knee Set A', unitPrice: -1 },
+        { itemType: 'surgery_set', itemName: 'KNEE SET A', unitPrice: 5 }
+      ]
+    }, [countryList, hospitalList])).toEqual([
+      'Currency must be a 3-letter code such as SGD',
+      'Unit prices must be zero or more',
+      'Each set or implant box can only be priced once per list',
+      'Dates overlap with the "General Hospital Contract" price list'
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Proof of Delivery Test Suite
+ * Validates capture rules and reading the proof back from status history
+ */
+
+import {
+  validateProofOfDelivery,
+  buildProofOfDelivery,
+  parseProofOfDelivery,
+  getCaseProofOfDelivery,
+  formatPodLocation,
+  EMPTY_PROOF_OF_DELIVERY_DRAFT
+} from '../utils/proofOfDeliveryService';
+
+describe('Proof of Delivery Tests', () => {
+  const draft = {
+    receiverName: '  Nurse Lim ',
+    signature: 'data:image/png;base64,AAAA',
+    location: { latitude: 1.352083, longitude: 103.819836, accuracy: 12.4 }
+  };
+
+  it('should require a receiver name and a drawn signature', () => {
+    expect(validateProofOfDelivery(EMPTY_PROOF_OF_DELIVERY_DRAFT)).toEqual([
+      'Receiver name is required',
+      'Receiver signature is required'
+    ]);
+    expect(validateProofOfDelivery(draft)).toEqual([]);
+  });
+
+  it('should stamp the proof with the capturing user and time', () => {
+    const pod = buildProofOfDelivery(draft, 'Driver Tan', new Date('2026-10-20T03:15:00.000Z'));
+
+    expect(pod).toEqual({
+      receiverName: 'Nurse Lim',
+      signature: draft.signature,
+      capturedAt: '2026-10-20T03:15:00.000Z',
+      capturedBy: 'Driver Tan',
+      location: draft.location
+    });
+    expect(buildProofOfDelivery({ ...draft, location: undefined }, 'Driver Tan')).not.toHaveProperty('location');
+  });
+
+  it('should read the proof from delivered status history details', () => {
+    const pod = buildProofOfDelivery(draft, 'Driver Tan');
+    const details = JSON.stringify({ comments: 'Left at OT', attachments: [], proofOfDelivery: pod });
+
+    expect(parseProofOfDelivery(details)).toEqual(pod);
+    expect(parseProofOfDelivery('plain text')).toBeNull();
+    expect(parseProofOfDelivery('{"comments":"no proof"}')).toBeNull();
+
+    const result = getCaseProofOfDelivery({
+      statusHistory: [
+        { status: 'Delivered (Hospital)', timestamp: '2026-10-20T03:15:00Z', processedBy: 'x', details },
+        { status: 'Case Completed', timestamp: '2026-10-20T09:00:00Z', processedBy: 'x', details }
+      ]
+    });
+    expect(result?.pod.receiverName).toBe('Nurse Lim');
+    expect(result?.historyItem.status).toBe('Delivered (Hospital)');
+    expect(getCaseProofOfDelivery({ statusHistory: [] })).toBeNull();
+  });
+
+  it('should format the geotag for display', () => {
+    expect(formatPodLocation(draft.location)).toBe('1.35208, 103.81984 (±12 m)');
+    expect(formatPodLocation({ latitude: 1, longitude: 2 })).toBe('1.00000, 2.00000');
+  });
+});
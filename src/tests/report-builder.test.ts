@@ -0,0 +1,111 @@
+/**
+ * Report Builder Test Suite
+ * Validates pivot grouping, measures, totals, CSV rows and definition sharing
+ */
+
+import {
+  DEFAULT_REPORT_DEFINITION,
+  PIVOT_EMPTY_LABEL,
+  buildPivot,
+  buildPivotRows,
+  canEditReportDefinition,
+  canViewReportDefinition,
+  getCaseItemQuantities
+} from '../utils/reportBuilderService';
+import { CaseBooking } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const makeCase = (
+  id: string,
+  country: string,
+  dateOfSurgery: string,
+  status: CaseBooking['status'],
+  changes: Partial<CaseBooking> = {}
+): CaseBooking => createTestCase({
+  id,
+  caseReferenceNumber: `TMC-${id}`,
+  country,
+  dateOfSurgery,
+  status,
+  surgerySetSelection: ['Knee Set'],
+  implantBox: ['Implant A', 'Implant B'],
+  ...changes
+});
+
+const cases = [
+  makeCase('1', 'Singapore', '2026-09-03', 'Case Booked'),
+  makeCase('2', 'Singapore', '2026-10-05', 'Case Cancelled'),
+  makeCase('3', 'Malaysia', '2026-10-07', 'Case Completed', { doctorName: 'Dr Tan' }),
+  makeCase('4', 'Singapore', '2026-10-09', 'Case Completed')
+];
+const getUserName = (id: string) => (id === 'user-1' ? 'Alice' : id);
+
+describe('Report Builder Tests', () => {
+  it('should count cases by row and column dimension with totals', () => {
+    const pivot = buildPivot({ cases, rowDimension: 'country', columnDimension: 'month', measure: 'caseCount', getUserName });
+
+    expect(pivot.rowKeys).toEqual(['Singapore', 'Malaysia']);
+    expect(pivot.columnKeys).toEqual(['2026-09', '2026-10']);
+    expect(pivot.cells.Singapore).toEqual({ '2026-09': 1, '2026-10': 2 });
+    expect(pivot.cells.Malaysia['2026-09']).toBeUndefined();
+    expect(pivot.columnTotals).toEqual({ '2026-09': 1, '2026-10': 3 });
+    expect(pivot.grandTotal).toBe(4);
+
+    expect(buildPivotRows(pivot, { rowDimension: 'country', measure: 'caseCount' })).toEqual([
+      ['Country', '2026-09', '2026-10', 'Total Case Count'],
+      ['Singapore', 1, 2, 3],
+      ['Malaysia', 0, 1, 1],
+      ['Total', 1, 3, 4]
+    ]);
+  });
+
+  it('should group missing values last and resolve submitters to names', () => {
+    const byDoctor = buildPivot({ cases, rowDimension: 'doctor', columnDimension: '', measure: 'caseCount', getUserName });
+    expect(byDoctor.rowKeys).toEqual(['Dr Tan', PIVOT_EMPTY_LABEL]);
+    expect(byDoctor.rowTotals[PIVOT_EMPTY_LABEL]).toBe(3);
+    expect(byDoctor.columnKeys).toEqual([]);
+
+    const byStatus = buildPivot({
+      cases,
+      rowDimension: 'status',
+      columnDimension: 'submitter',
+      measure: 'caseCount',
+      getUserName,
+      statusOrder: ['Case Booked', 'Case Completed', 'Case Cancelled']
+    });
+    expect(byStatus.rowKeys).toEqual(['Case Booked', 'Case Completed', 'Case Cancelled']);
+    expect(byStatus.columnKeys).toEqual(['Alice']);
+  });
+
+  it('should sum booked quantities and compute the overall cancellation rate', () => {
+    expect(getCaseItemQuantities(cases[0], { 'Knee Set': 2, 'Implant A': 3 })).toEqual({ sets: 2, implants: 4 });
+
+    const implants = buildPivot({
+      cases,
+      rowDimension: 'country',
+      columnDimension: '',
+      measure: 'implantQuantity',
+      getUserName,
+      quantitiesByCase: { '1': { 'Implant A': 5 } }
+    });
+    expect(implants.rowTotals).toEqual({ Singapore: 10, Malaysia: 2 });
+    expect(implants.grandTotal).toBe(12);
+
+    const cancellations = buildPivot({ cases, rowDimension: 'country', columnDimension: '', measure: 'cancellationRate', getUserName });
+    expect(cancellations.rowTotals).toEqual({ Singapore: 33.3, Malaysia: 0 });
+    expect(cancellations.grandTotal).toBe(25);
+  });
+
+  it('should let owners, admins and shared roles open a definition', () => {
+    const definition = { ...DEFAULT_REPORT_DEFINITION, id: 'def-1', createdBy: 'owner', sharedRoles: ['sales'] };
+
+    expect(canViewReportDefinition(definition, { id: 'owner', role: 'driver' })).toBe(true);
+    expect(canViewReportDefinition(definition, { id: 'other', role: 'sales' })).toBe(true);
+    expect(canViewReportDefinition(definition, { id: 'other', role: 'driver' })).toBe(false);
+    expect(canViewReportDefinition(definition, { id: 'other', role: 'admin' })).toBe(true);
+
+    expect(canEditReportDefinition(definition, { id: 'other', role: 'sales' })).toBe(false);
+    expect(canEditReportDefinition(definition, { id: 'owner', role: 'sales' })).toBe(true);
+    expect(canEditReportDefinition(DEFAULT_REPORT_DEFINITION, { id: 'other', role: 'sales' })).toBe(true);
+  });
+});
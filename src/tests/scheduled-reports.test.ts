@@ -0,0 +1,147 @@
+/**
+ * Scheduled Reports Test Suite
+ * Validates send times, schedule validation, and the rendered report emails and XLSX
+ * writer of the scheduled-reports edge function
+ */
+
+import {
+  DEFAULT_REPORT_SCHEDULE,
+  getNextRunAt,
+  parseRecipients,
+  validateReportSchedule,
+  ReportSchedule
+} from '../utils/scheduledReportService';
+import { DEFAULT_REPORT_FILTERS } from '../utils/reportExportService';
+// The edge function's own report code - it imports nothing Deno-specific
+import {
+  CaseRow,
+  ScheduleRow,
+  buildDetailedReportRows,
+  matchesSubmitter,
+  renderReport
+} from '../../supabase/functions/_shared/scheduledReport';
+import { buildXlsx, crc32, encodeUtf8, getColumnName } from '../../supabase/functions/_shared/xlsx';
+
+const makeCaseRow = (id: string, changes: Partial<CaseRow> = {}): CaseRow => ({
+  id,
+  case_reference_number: `TMC-${id}`,
+  hospital: 'SGH',
+  department: 'Orthopedics',
+  country: 'Singapore',
+  status: 'Case Booked',
+  date_of_surgery: '2026-10-20',
+  time_of_procedure: null,
+  procedure_type: 'Knee',
+  procedure_name: 'Total Knee "Left"',
+  doctor_name: null,
+  surgery_set_selection: [],
+  implant_box: [],
+  special_instruction: null,
+  submitted_by: 'user-1',
+  submitted_at: '2026-10-01T00:00:00Z',
+  processed_by: null,
+  processed_at: null,
+  amended_by: null,
+  amended_at: null,
+  is_amended: false,
+  do_number: null,
+  delivery_details: null,
+  order_summary: null,
+  ...changes
+});
+
+const scheduleRow = (changes: Partial<ScheduleRow> = {}): ScheduleRow => ({
+  id: 'schedule-1',
+  name: 'Weekly SG cases',
+  filters: { country: 'Singapore', reportType: 'detailed' },
+  frequency: 'weekly',
+  day_of_week: 1,
+  day_of_month: 1,
+  hour: 8,
+  timezone: 'Asia/Singapore',
+  format: 'xlsx',
+  recipients: ['manager@example.com'],
+  enabled: true,
+  next_run_at: '2026-10-19T00:00:00Z',
+  ...changes
+});
+
+const schedule = (changes: Partial<ReportSchedule> = {}): ReportSchedule => ({
+  ...DEFAULT_REPORT_SCHEDULE,
+  id: 'schedule-1',
+  name: 'Weekly SG cases',
+  recipients: ['manager@example.com'],
+  filters: { ...DEFAULT_REPORT_FILTERS, country: 'Singapore', reportType: 'detailed' },
+  ...changes
+});
+
+describe('Scheduled Reports Tests', () => {
+  it('should find the next daily, weekly and monthly send time in the schedule time zone', () => {
+    const sunday = new Date('2026-10-18T01:30:00Z'); // Sunday 18 Oct 2026, 09:30 in Singapore
+    const at = (changes: Partial<ReportSchedule>, after: Date = sunday) =>
+      getNextRunAt({ frequency: 'daily', dayOfWeek: 1, dayOfMonth: 1, hour: 8, timeZone: 'Asia/Singapore', ...changes }, after).toISOString();
+
+    expect(at({ hour: 8 })).toBe('2026-10-19T00:00:00.000Z');
+    expect(at({ hour: 10 })).toBe('2026-10-18T02:00:00.000Z');
+    expect(at({ frequency: 'weekly', dayOfWeek: 1 })).toBe('2026-10-19T00:00:00.000Z');
+    expect(at({ frequency: 'weekly', dayOfWeek: 0 })).toBe('2026-10-25T00:00:00.000Z');
+    expect(at({ frequency: 'monthly', dayOfMonth: 18, hour: 10 })).toBe('2026-10-18T02:00:00.000Z');
+    expect(at({ frequency: 'monthly', dayOfMonth: 1 }, new Date('2026-12-05T00:00:00Z'))).toBe('2027-01-01T00:00:00.000Z');
+
+    // Same wall-clock hour in another zone, and "today" taken from the zone rather than UTC
+    expect(at({ timeZone: 'Asia/Bangkok' })).toBe('2026-10-19T01:00:00.000Z');
+    expect(at({ hour: 8 }, new Date('2026-10-18T17:00:00Z'))).toBe('2026-10-19T00:00:00.000Z');
+  });
+
+  it('should validate schedules and parse recipient lists', () => {
+    expect(parseRecipients('a@example.com, b@example.com;\na@example.com')).toEqual(['a@example.com', 'b@example.com']);
+    expect(validateReportSchedule(schedule())).toEqual([]);
+    expect(validateReportSchedule(schedule({ name: ' ', recipients: ['not-an-email'], frequency: 'monthly', dayOfMonth: 31 }))).toEqual([
+      'Schedule name is required',
+      'Invalid email address: not-an-email',
+      'Day of month must be between 1 and 28'
+    ]);
+    expect(validateReportSchedule(schedule({ timeZone: 'Not/AZone' }))).toEqual(['Choose a time zone']);
+  });
+
+  it('should render the detailed export as a CSV attachment or an HTML table, dated in the schedule time zone', () => {
+    const cases = [makeCaseRow('1')];
+    const rows = buildDetailedReportRows(cases, {}, 'Asia/Singapore');
+    const now = new Date('2026-10-18T16:30:00Z'); // Monday 19 Oct 2026, 00:30 in Singapore
+
+    const csvReport = renderReport(scheduleRow({ format: 'csv' }), cases, rows, now);
+    expect(csvReport.subject).toBe('📊 Weekly SG cases - Mon, 19/10/2026');
+    expect(csvReport.attachment?.filename).toBe('Weekly_SG_cases_2026-10-19.csv');
+    const csv = decodeURIComponent(escape(atob(csvReport.attachment?.contentBase64 || '')));
+    expect(csv.split('\n')).toHaveLength(2);
+    expect(csv).toContain('"Total Knee ""Left"""');
+    expect(csv).toContain('"Thu, 01/10/2026"');
+
+    const htmlReport = renderReport(scheduleRow({ format: 'html' }), cases, rows, now);
+    expect(htmlReport.attachment).toBeUndefined();
+    expect(htmlReport.body).toContain('<td>TMC-1</td>');
+    expect(htmlReport.body).toContain('Country: Singapore');
+    expect(htmlReport.body).toContain('Total Knee &quot;Left&quot;');
+  });
+
+  it('should match the submitter filter on user names as well as ids', () => {
+    const userNames = new Map([['user-1', 'Jane Tan']]);
+
+    expect(matchesSubmitter(makeCaseRow('1'), 'jane', userNames)).toBe(true);
+    expect(matchesSubmitter(makeCaseRow('1'), 'USER-1', userNames)).toBe(true);
+    expect(matchesSubmitter(makeCaseRow('1'), 'john', userNames)).toBe(false);
+  });
+
+  it('should write a valid single-sheet XLSX archive', () => {
+    expect(crc32(encodeUtf8('123456789'))).toBe(0xcbf43926);
+    expect(getColumnName(0)).toBe('A');
+    expect(getColumnName(27)).toBe('AB');
+
+    const xlsx = buildXlsx('Report', [['Case', 'Value'], ['TMC-1', 12.5]]);
+    const text = Array.from(xlsx).map(byte => String.fromCharCode(byte)).join('');
+    expect(text.slice(0, 2)).toBe('PK');
+    expect(text).toContain('xl/worksheets/sheet1.xml');
+    expect(text).toContain('<c r="B2"><v>12.5</v></c>');
+    expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">TMC-1</t></is></c>');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Status Transition Guard Test Suite
+ * Validates illegal status jumps are rejected without a live database
+ */
+
+import { validateStatusTransition, StatusTransitionError, isStatusTransitionError } from '../utils/statusTransitionGuard';
+import { getDefaultStatusWorkflow } from '../utils/statusWorkflowService';
+import { PERMISSION_ACTIONS } from '../utils/permissions';
+import { createPermissionChecker } from './utils/testHelpers';
+
+describe('Status Transition Guard Tests', () => {
+  const workflow = getDefaultStatusWorkflow('Singapore');
+  const permissionChecker = createPermissionChecker({
+    sales: [PERMISSION_ACTIONS.SALES_APPROVAL, PERMISSION_ACTIONS.CASE_COMPLETED, PERMISSION_ACTIONS.CASE_CLOSED],
+    operations: [PERMISSION_ACTIONS.PROCESS_ORDER, PERMISSION_ACTIONS.ORDER_PROCESSED, PERMISSION_ACTIONS.REINSTATE_CASE]
+  });
+
+  const captureError = (fn: () => void): StatusTransitionError => {
+    try {
+      fn();
+    } catch (error) {
+      if (isStatusTransitionError(error)) {
+        return error;
+      }
+      throw error;
+    }
+    throw new Error('Expected a StatusTransitionError');
+  };
+
+  it('should reject jumping from Case Booked straight to Case Closed', () => {
+    const error = captureError(() => validateStatusTransition({
+      currentStatus: 'Case Booked',
+      targetStatus: 'Case Closed',
+      role: 'sales',
+      workflow,
+      permissionChecker
+    }));
+
+    expect(error).toBeInstanceOf(StatusTransitionError);
+    expect(error.code).toBe('INVALID_TRANSITION');
+    expect(error.fromStatus).toBe('Case Booked');
+    expect(error.toStatus).toBe('Case Closed');
+  });
+
+  it('should reject a valid step when the role lacks the transition permission', () => {
+    const error = captureError(() => validateStatusTransition({
+      currentStatus: 'Case Booked',
+      targetStatus: 'Preparing Order',
+      role: 'sales',
+      workflow,
+      permissionChecker
+    }));
+
+    expect(error.code).toBe('PERMISSION_DENIED');
+    expect(error.requiredPermission).toBe(PERMISSION_ACTIONS.PROCESS_ORDER);
+  });
+
+  it('should reject when no role is known', () => {
+    const error = captureError(() => validateStatusTransition({
+      currentStatus: 'Case Booked',
+      targetStatus: 'Preparing Order',
+      role: undefined,
+      workflow,
+      permissionChecker
+    }));
+
+    expect(error.code).toBe('PERMISSION_DENIED');
+  });
+
+  it('should reject when required fields are missing', () => {
+    const error = captureError(() => validateStatusTransition({
+      currentStatus: 'Delivered (Hospital)',
+      targetStatus: 'Case Completed',
+      role: 'sales',
+      workflow,
+      payload: { details: JSON.stringify({ orderSummary: 'Implants used' }) },
+      permissionChecker
+    }));
+
+    expect(error.code).toBe('MISSING_REQUIRED_FIELDS');
+    expect(error.missingFields).toEqual(['doNumber']);
+    expect(error.message).toContain('DO number');
+  });
+
+  it('should leave a field the step supplies itself to the final write', () => {
+    const transition = validateStatusTransition({
+      currentStatus: 'Delivered (Hospital)',
+      targetStatus: 'Case Completed',
+      role: 'sales',
+      workflow,
+      payload: { details: JSON.stringify({ comments: 'DO issued with this step' }) },
+      deferredFields: ['doNumber'],
+      permissionChecker
+    });
+
+    expect(transition.requiredFields).toEqual(['doNumber']);
+  });
+
+  it('should allow a permitted next step and return its definition', () => {
+    const transition = validateStatusTransition({
+      currentStatus: 'Case Booked',
+      targetStatus: 'Preparing Order',
+      role: 'operations',
+      workflow,
+      permissionChecker
+    });
+
+    expect(transition.permission).toBe(PERMISSION_ACTIONS.PROCESS_ORDER);
+  });
+
+  it('should validate against the country workflow', () => {
+    const malaysiaWorkflow = getDefaultStatusWorkflow('Malaysia');
+
+    const error = captureError(() => validateStatusTransition({
+      currentStatus: 'Order Prepared',
+      targetStatus: 'Sales Approved',
+      role: 'sales',
+      workflow: malaysiaWorkflow,
+      permissionChecker
+    }));
+
+    expect(error.code).toBe('INVALID_TRANSITION');
+  });
+
+  it('should only reinstate a cancelled case to the status it had before cancellation', () => {
+    const reinstate = (targetStatus: 'Preparing Order' | 'Sales Approved', reinstateStatus?: 'Preparing Order' | null) =>
+      () => validateStatusTransition({
+        currentStatus: 'Case Cancelled',
+        targetStatus,
+        role: 'operations',
+        workflow,
+        reinstateStatus,
+        permissionChecker
+      });
+
+    expect(reinstate('Preparing Order', 'Preparing Order')().to).toBe('Preparing Order');
+
+    const skipped = captureError(reinstate('Sales Approved', 'Preparing Order'));
+    expect(skipped.code).toBe('INVALID_TRANSITION');
+    expect(skipped.message).toContain('"Preparing Order"');
+
+    expect(captureError(reinstate('Preparing Order', null)).code).toBe('INVALID_TRANSITION');
+    expect(captureError(reinstate('Preparing Order')).code).toBe('INVALID_TRANSITION');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Status Workflow Test Suite
+ * Validates the per-country workflow definitions and transition checks
+ */
+
+import {
+  getDefaultStatusWorkflow,
+  findStatusTransition,
+  getTransitionsFrom,
+  getMissingRequiredFields,
+  validateWorkflowDefinition
+} from '../utils/statusWorkflowService';
+
+describe('Status Workflow Tests', () => {
+  describe('Default Workflows', () => {
+    it('should include Sales Approved for standard countries', () => {
+      const workflow = getDefaultStatusWorkflow('Singapore');
+
+      expect(workflow.statuses).toContain('Sales Approved');
+      expect(workflow.statuses).not.toContain('Loaner Received');
+      expect(findStatusTransition(workflow, 'Order Prepared', 'Sales Approved')).toBeDefined();
+    });
+
+    it('should skip Sales Approved and add Loaner Received for Malaysia and Vietnam', () => {
+      for (const country of ['Malaysia', 'Vietnam']) {
+        const workflow = getDefaultStatusWorkflow(country);
+
+        expect(workflow.statuses).not.toContain('Sales Approved');
+        expect(workflow.statuses).toContain('Loaner Received');
+        expect(findStatusTransition(workflow, 'Case Booked', 'Loaner Received')).toBeDefined();
+        expect(findStatusTransition(workflow, 'Order Prepared', 'Pending Delivery (Hospital)')).toBeDefined();
+      }
+    });
+
+    it('should keep the standard next step for Malaysia cases booked or sales approved before loaners', () => {
+      const workflow = getDefaultStatusWorkflow('Malaysia');
+
+      expect(workflow.legacyStatuses).toEqual(['Sales Approved']);
+      expect(findStatusTransition(workflow, 'Case Booked', 'Preparing Order')).toBeDefined();
+      expect(getTransitionsFrom(workflow, 'Sales Approved').map(t => t.to)).toEqual(['Pending Delivery (Hospital)', 'Case Cancelled']);
+      expect(findStatusTransition(workflow, 'Case Cancelled', 'Sales Approved')).toBeDefined();
+    });
+
+    it('should normalize legacy country codes', () => {
+      expect(getDefaultStatusWorkflow('MY').country).toBe('Malaysia');
+    });
+
+    it('should produce structurally valid definitions for every default', () => {
+      for (const country of ['Singapore', 'Malaysia', 'Vietnam']) {
+        expect(validateWorkflowDefinition(getDefaultStatusWorkflow(country))).toEqual([]);
+      }
+    });
+
+    it('should reject transitions with a permission that does not exist', () => {
+      const workflow = getDefaultStatusWorkflow('Singapore');
+      const edited = {
+        ...workflow,
+        transitions: [...workflow.transitions, { from: 'Case Booked' as const, to: 'Order Prepared' as const, permission: 'skip-ahead', label: 'Skip' }]
+      };
+
+      expect(validateWorkflowDefinition(edited)).toEqual(['Transition "Case Booked" → "Order Prepared" uses unknown permission "skip-ahead"']);
+    });
+
+    it('should only allow cancellation before the case is completed', () => {
+      const workflow = getDefaultStatusWorkflow('Singapore');
+
+      expect(getTransitionsFrom(workflow, 'Case Booked').map(t => t.to)).toContain('Case Cancelled');
+      expect(getTransitionsFrom(workflow, 'To be billed').map(t => t.to)).not.toContain('Case Cancelled');
+    });
+  });
+
+  describe('Transition Checks', () => {
+    const workflow = getDefaultStatusWorkflow('Singapore');
+
+    it('should not define transitions that skip steps', () => {
+      expect(findStatusTransition(workflow, 'Case Booked', 'Case Closed')).toBeUndefined();
+    });
+
+    it('should require a DO number to complete a case', () => {
+      const transition = findStatusTransition(workflow, 'Delivered (Hospital)', 'Case Completed')!;
+
+      expect(getMissingRequiredFields(transition, { details: JSON.stringify({ orderSummary: 'ok' }) })).toEqual(['doNumber']);
+      expect(getMissingRequiredFields(transition, { details: JSON.stringify({ doNumber: 'DO-001' }) })).toEqual([]);
+    });
+
+    it('should accept attachments from either the payload or JSON details', () => {
+      const transition = { ...findStatusTransition(workflow, 'Case Booked', 'Preparing Order')!, requiredFields: ['attachments' as const] };
+
+      expect(getMissingRequiredFields(transition, {})).toEqual(['attachments']);
+      expect(getMissingRequiredFields(transition, { attachments: ['file'] })).toEqual([]);
+      expect(getMissingRequiredFields(transition, { details: JSON.stringify({ attachments: ['file'] }) })).toEqual([]);
+    });
+
+    it('should define the next configured step', () => {
+      expect(findStatusTransition(workflow, 'Case Booked', 'Preparing Order')?.permission).toBe('process-order');
+    });
+  });
+});
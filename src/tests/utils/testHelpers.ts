@@ -2,6 +2,8 @@
  * Test Helper Utilities
  */
 
+import { CaseBooking } from '../../types';
+
 /**
  * Generate a valid UUID v4 for testing
  */
@@ -43,16 +45,30 @@ export function createTestUser(overrides?: Partial<any>) {
 }
 
 /**
- * Create a test case with valid UUID
+ * Create a test case with valid UUID - a complete booking, so tests only set the fields they check
  */
-export function createTestCase(overrides?: Partial<any>) {
+export function createTestCase(overrides?: Partial<CaseBooking>): CaseBooking {
   return {
     id: generateTestUUID(),
-    caseReferenceNumber: `TC-${Date.now()}`,
-    hospital: 'Test Hospital',
+    caseReferenceNumber: 'TMC-Singapore-2026-001',
+    hospital: 'General Hospital',
+    department: 'Orthopedics',
+    dateOfSurgery: '2026-10-20',
+    procedureType: 'Knee',
+    procedureName: 'TKR',
+    surgerySetSelection: ['Knee Set A'],
+    implantBox: ['Implant Box 1'],
     status: 'Case Booked',
+    submittedBy: 'user-1',
+    submittedAt: '2026-10-01T00:00:00.000Z',
     country: 'Singapore',
-    created_at: new Date().toISOString(),
     ...overrides
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Permission checker backed by a fixed role → actions map instead of the database cache
+ */
+export function createPermissionChecker(grants: Record<string, string[]>) {
+  return (roleId: string, actionId: string): boolean => (grants[roleId] || []).includes(actionId);
+}
@@ -0,0 +1,83 @@
+/**
+ * Workflow Performance Test Suite
+ * Validates status stays, median/p90 breakdowns, trends and cycle times
+ */
+
+import {
+  buildDurationTrend,
+  formatDurationHours,
+  getAverageCycleDays,
+  getSlowestStays,
+  getStatusStays,
+  percentile,
+  summarizeStageDurations
+} from '../utils/workflowPerformanceService';
+import { CaseBooking, CaseStatus } from '../types';
+import { createTestCase } from './utils/testHelpers';
+
+const makeCase = (id: string, hospital: string, history: Array<[CaseStatus, string, string]>): CaseBooking =>
+  createTestCase({
+    id,
+    caseReferenceNumber: `TMC-${id}`,
+    hospital,
+    status: history[history.length - 1][0],
+    statusHistory: history.map(([status, timestamp, processedBy]) => ({ status, timestamp, processedBy }))
+  });
+
+const cases = [
+  makeCase('1', 'SGH', [
+    ['Case Booked', '2026-09-01T00:00:00Z', 'sales-1'],
+    ['Order Prepared', '2026-09-01T10:00:00Z', 'ops-1'],
+    ['Case Closed', '2026-09-03T10:00:00Z', 'ops-2']
+  ]),
+  makeCase('2', 'NUH', [
+    ['Order Prepared', '2026-10-02T04:00:00Z', 'ops-1'],
+    ['Case Booked', '2026-10-02T00:00:00Z', 'sales-1']
+  ]),
+  makeCase('3', 'NUH', [
+    ['Case Booked', '2026-10-05T00:00:00Z', 'sales-2'],
+    ['Order Prepared', '2026-10-06T00:00:00Z', 'ops-2']
+  ])
+];
+
+describe('Workflow Performance Tests', () => {
+  it('should measure finished stays and credit the user who moved the case on', () => {
+    const stays = getStatusStays(cases);
+
+    expect(stays).toHaveLength(4);
+    expect(stays[0]).toMatchObject({ caseId: '1', status: 'Case Booked', processedBy: 'ops-1', hours: 10 });
+    expect(stays.find(stay => stay.caseId === '2')).toMatchObject({ status: 'Case Booked', hours: 4 });
+    expect(stays.some(stay => stay.status === 'Case Closed')).toBe(false);
+  });
+
+  it('should summarize median and p90 per status and group', () => {
+    const stays = getStatusStays(cases);
+
+    expect(percentile([4, 10, 24], 50)).toBe(10);
+    expect(percentile([4, 10, 24], 90)).toBe(24);
+    expect(percentile([], 90)).toBe(0);
+    expect(summarizeStageDurations(stays, 'status', ['Case Booked', 'Order Prepared'])).toEqual([
+      { status: 'Case Booked', group: '', count: 3, medianHours: 10, p90Hours: 24 },
+      { status: 'Order Prepared', group: '', count: 1, medianHours: 48, p90Hours: 48 }
+    ]);
+    expect(summarizeStageDurations(stays, 'hospital').map(row => [row.status, row.group, row.count])).toEqual([
+      ['Case Booked', 'NUH', 2],
+      ['Case Booked', 'SGH', 1],
+      ['Order Prepared', 'SGH', 1]
+    ]);
+  });
+
+  it('should trend by month, rank the slowest stays and average cycle days', () => {
+    const stays = getStatusStays(cases);
+
+    expect(buildDurationTrend(stays)).toEqual([
+      { period: '2026-09', count: 2, medianHours: 10, p90Hours: 48 },
+      { period: '2026-10', count: 2, medianHours: 4, p90Hours: 24 }
+    ]);
+    expect(getSlowestStays(stays, 2).map(stay => stay.hours)).toEqual([48, 24]);
+    expect(getAverageCycleDays(cases)).toBe(1.2);
+    expect(formatDurationHours(0.5)).toBe('30m');
+    expect(formatDurationHours(36.25)).toBe('36.3h');
+    expect(formatDurationHours(60)).toBe('2.5d');
+  });
+});
@@ -3,6 +3,7 @@ import { SUPPORTED_COUNTRIES } from '../utils/countryUtils';
 
 export type CaseStatus =
   | 'Case Booked'
+  | 'Loaner Received'
   | 'Preparing Order'
   | 'Order Prepared'
   | 'Pending Delivery (Hospital)'
@@ -143,6 +144,8 @@ export interface CaseBooking {
   attachments?: string[];
   orderSummary?: string;
   doNumber?: string;
+  seriesId?: string; // Recurring series this case was generated from
+  clonedFromId?: string; // Case this booking was duplicated from
   originalValues?: {
     hospital?: string;
     department?: string;
@@ -166,6 +169,7 @@ export interface FilterOptions {
   dateFrom?: string;
   dateTo?: string;
   search?: string;
+  sla?: 'breaching';
 }
 
 export interface Notification {
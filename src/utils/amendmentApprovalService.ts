@@ -0,0 +1,332 @@
+/**
+ * Amendment Approval Service - Change requests for cases past order preparation
+ *
+ * Once a case reaches the configured status (per country, default "Order Prepared")
+ * operations may already have picked the kit, so amendments are no longer applied
+ * directly. amendSupabaseCase stores them in amendment_requests instead, and only an
+ * approval replays them through amendSupabaseCase. Rejections leave the case untouched.
+ *
+ * Roles holding APPROVE_AMENDMENTS apply their own amendments directly - they are the
+ * reviewers the request would go to.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseStatus } from '../types';
+import { hasPermission, PERMISSION_ACTIONS } from './permissions';
+import { AMENDMENT_REQUESTS_FIELDS } from './fieldMappings';
+import { countrySettingsStore } from './countrySettingsStore';
+import { getStatusWorkflow } from './statusWorkflowService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type AmendmentRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export type AmendmentOutcome = 'applied' | 'pending-approval' | 'unchanged';
+
+/**
+ * How an amendment is applied - kept apart from the case fields being changed
+ */
+export interface AmendCaseOptions {
+  /** Why the case is being amended - recorded in the amendment history */
+  reason?: string;
+  /** Reason for going past the amendment time limit / max amendments */
+  overrideReason?: string;
+  /** Set when an approved request is replayed */
+  approvedRequest?: AmendmentRequest;
+}
+
+export interface AmendmentChange {
+  field: string;
+  oldValue: string;
+  newValue: string;
+}
+
+export interface AmendmentRequest {
+  id: string;
+  caseId: string;
+  requestedBy: string;
+  requestedAt: string;
+  reason: string;
+  /** Amendment payload exactly as submitted - replayed through amendSupabaseCase on approval */
+  proposedChanges: Record<string, any>;
+  /** Field-level diff against the case at the time of the request */
+  changes: AmendmentChange[];
+  status: AmendmentRequestStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+}
+
+export interface AmendmentApprovalSettings {
+  enabled: boolean;
+  /** Amendments to cases at or past this status (in workflow order) need approval */
+  fromStatus: CaseStatus;
+}
+
+export const DEFAULT_AMENDMENT_APPROVAL_SETTINGS: AmendmentApprovalSettings = {
+  enabled: true,
+  fromStatus: 'Order Prepared'
+};
+
+/**
+ * Label used for the approval entry in amendment_history changes
+ */
+export const AMENDMENT_APPROVAL_FIELD = 'Amendment Approval';
+
+/**
+ * Email notification rule (per country) sent when a request is raised
+ */
+export const AMENDMENTS_NOTIFICATION_RULE = 'Amendments';
+
+const APPROVAL_SETTING_PREFIX = 'amendment_approval_';
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Whether a case in this status needs approval for amendments.
+ * Statuses outside the lifecycle (e.g. Case Cancelled) never do; a threshold that is
+ * not part of the country's workflow falls back to the default threshold.
+ */
+export const requiresAmendmentApproval = (params: {
+  status: CaseStatus;
+  settings: AmendmentApprovalSettings;
+  workflowStatuses: CaseStatus[];
+}): boolean => {
+  const { status, settings, workflowStatuses } = params;
+
+  if (!settings.enabled) {
+    return false;
+  }
+
+  const statusIndex = workflowStatuses.indexOf(status);
+  let thresholdIndex = workflowStatuses.indexOf(settings.fromStatus);
+  if (thresholdIndex === -1) {
+    thresholdIndex = workflowStatuses.indexOf(DEFAULT_AMENDMENT_APPROVAL_SETTINGS.fromStatus);
+  }
+
+  return statusIndex !== -1 && thresholdIndex !== -1 && statusIndex >= thresholdIndex;
+};
+
+/**
+ * History entry recording who approved an amendment
+ */
+export const buildApprovalChange = (request: Pick<AmendmentRequest, 'reviewedBy' | 'reviewComment'>): AmendmentChange => ({
+  field: AMENDMENT_APPROVAL_FIELD,
+  oldValue: '',
+  newValue: `Approved by ${request.reviewedBy || 'Unknown'}${request.reviewComment ? ` - ${request.reviewComment}` : ''}`
+});
+
+const mapAmendmentRequest = (row: any): AmendmentRequest => ({
+  id: row.id,
+  caseId: row.case_id,
+  requestedBy: row.requested_by,
+  requestedAt: row.requested_at,
+  reason: row.reason || '',
+  proposedChanges: row.proposed_changes || {},
+  changes: row.changes || [],
+  status: row.status,
+  reviewedBy: row.reviewed_by || undefined,
+  reviewedAt: row.reviewed_at || undefined,
+  reviewComment: row.review_comment || undefined
+});
+
+// ================================================
+// SETTINGS
+// ================================================
+
+const approvalSettingsStore = countrySettingsStore<AmendmentApprovalSettings>({
+  prefix: APPROVAL_SETTING_PREFIX,
+  label: 'Amendment approval settings',
+  defaults: () => DEFAULT_AMENDMENT_APPROVAL_SETTINGS
+});
+
+/**
+ * Get the approval settings for a country - stored settings or the default
+ */
+export const getAmendmentApprovalSettings = (country: string): Promise<AmendmentApprovalSettings> =>
+  approvalSettingsStore.get(country);
+
+/**
+ * Save the approval settings for a country
+ */
+export const saveAmendmentApprovalSettings = async (country: string, settings: AmendmentApprovalSettings): Promise<void> => {
+  await approvalSettingsStore.save(country, settings);
+};
+
+/**
+ * Whether the current user's amendment to a case in this status must go through approval
+ */
+export const shouldRequestAmendmentApproval = async (country: string, status: CaseStatus): Promise<boolean> => {
+  const { getCurrentUser } = await import('./authCompat');
+  const currentUser = getCurrentUser();
+
+  if (currentUser?.role && hasPermission(currentUser.role, PERMISSION_ACTIONS.APPROVE_AMENDMENTS)) {
+    return false;
+  }
+
+  const [settings, workflow] = await Promise.all([
+    getAmendmentApprovalSettings(country),
+    getStatusWorkflow(country)
+  ]);
+
+  return requiresAmendmentApproval({ status, settings, workflowStatuses: workflow.statuses });
+};
+
+// ================================================
+// REQUESTS
+// ================================================
+
+/**
+ * Amendment requests for a case, newest first
+ */
+export const getAmendmentRequests = async (caseId: string, status?: AmendmentRequestStatus): Promise<AmendmentRequest[]> => {
+  let query = supabase
+    .from('amendment_requests')
+    .select('*')
+    .eq(AMENDMENT_REQUESTS_FIELDS.caseId, caseId);
+
+  if (status) {
+    query = query.eq(AMENDMENT_REQUESTS_FIELDS.status, status);
+  }
+
+  const { data, error } = await query.order(AMENDMENT_REQUESTS_FIELDS.requestedAt, { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).map(mapAmendmentRequest);
+};
+
+/**
+ * Store an amendment as a pending request. Only one request per case may be pending,
+ * otherwise approving them in turn would replay changes against a moved target.
+ */
+export const createAmendmentRequest = async (params: {
+  caseId: string;
+  requestedBy: string;
+  reason: string;
+  proposedChanges: Record<string, any>;
+  changes: AmendmentChange[];
+}): Promise<AmendmentRequest> => {
+  const { caseId, requestedBy, reason, proposedChanges, changes } = params;
+
+  const pending = await getAmendmentRequests(caseId, 'pending');
+  if (pending.length > 0) {
+    throw new Error('An amendment for this case is already awaiting approval');
+  }
+
+  const { data, error } = await supabase
+    .from('amendment_requests')
+    .insert([{
+      [AMENDMENT_REQUESTS_FIELDS.caseId]: caseId,
+      [AMENDMENT_REQUESTS_FIELDS.requestedBy]: requestedBy,
+      [AMENDMENT_REQUESTS_FIELDS.requestedAt]: new Date().toISOString(),
+      [AMENDMENT_REQUESTS_FIELDS.reason]: reason,
+      [AMENDMENT_REQUESTS_FIELDS.proposedChanges]: proposedChanges,
+      [AMENDMENT_REQUESTS_FIELDS.changes]: changes,
+      [AMENDMENT_REQUESTS_FIELDS.status]: 'pending'
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return mapAmendmentRequest(data);
+};
+
+/**
+ * Move a pending request to its final status. Conditional on it still being pending,
+ * so two reviewers acting at once cannot both decide it.
+ */
+const claimAmendmentRequest = async (
+  requestId: string,
+  status: Exclude<AmendmentRequestStatus, 'pending'>,
+  reviewedBy: string,
+  reviewComment?: string
+): Promise<AmendmentRequest> => {
+  const { data, error } = await supabase
+    .from('amendment_requests')
+    .update({
+      [AMENDMENT_REQUESTS_FIELDS.status]: status,
+      [AMENDMENT_REQUESTS_FIELDS.reviewedBy]: reviewedBy,
+      [AMENDMENT_REQUESTS_FIELDS.reviewedAt]: new Date().toISOString(),
+      [AMENDMENT_REQUESTS_FIELDS.reviewComment]: reviewComment?.trim() || null
+    })
+    .eq(AMENDMENT_REQUESTS_FIELDS.id, requestId)
+    .eq(AMENDMENT_REQUESTS_FIELDS.status, 'pending')
+    .select();
+
+  if (error) {
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    throw new Error('This amendment request has already been reviewed');
+  }
+  return mapAmendmentRequest(data[0]);
+};
+
+const assertCanReviewAmendments = async (): Promise<void> => {
+  const { getCurrentUser } = await import('./authCompat');
+  const currentUser = getCurrentUser();
+
+  if (!currentUser?.role || !hasPermission(currentUser.role, PERMISSION_ACTIONS.APPROVE_AMENDMENTS)) {
+    throw new Error('You do not have permission to review amendment requests');
+  }
+};
+
+/**
+ * Approve a pending request and apply it to the case
+ */
+export const approveAmendmentRequest = async (
+  requestId: string,
+  reviewedBy: string,
+  reviewComment?: string
+): Promise<void> => {
+  await assertCanReviewAmendments();
+
+  const request = await claimAmendmentRequest(requestId, 'approved', reviewedBy, reviewComment);
+
+  try {
+    const { amendSupabaseCase } = await import('./supabaseCaseService');
+    const outcome = await amendSupabaseCase(request.caseId, request.proposedChanges, request.requestedBy, {
+      reason: request.reason,
+      approvedRequest: request
+    });
+    if (outcome === 'unchanged') {
+      throw new Error('The case already matches this amendment, so nothing was changed. Reject the request instead.');
+    }
+  } catch (error) {
+    // Hand the request back so it can be reviewed again
+    await supabase
+      .from('amendment_requests')
+      .update({
+        [AMENDMENT_REQUESTS_FIELDS.status]: 'pending',
+        [AMENDMENT_REQUESTS_FIELDS.reviewedBy]: null,
+        [AMENDMENT_REQUESTS_FIELDS.reviewedAt]: null,
+        [AMENDMENT_REQUESTS_FIELDS.reviewComment]: null
+      })
+      .eq(AMENDMENT_REQUESTS_FIELDS.id, requestId);
+    throw error;
+  }
+};
+
+/**
+ * Reject a pending request - the case is left unchanged
+ */
+export const rejectAmendmentRequest = async (
+  requestId: string,
+  reviewedBy: string,
+  reviewComment: string
+): Promise<void> => {
+  if (!reviewComment || !reviewComment.trim()) {
+    throw new Error('A reason is required to reject an amendment request');
+  }
+
+  await assertCanReviewAmendments();
+  await claimAmendmentRequest(requestId, 'rejected', reviewedBy, reviewComment);
+};
@@ -0,0 +1,210 @@
+/**
+ * Amendment Policy Service - Enforces SystemConfig amendment limits
+ *
+ * amendmentTimeLimit (minutes after submission) and maxAmendmentsPerCase are
+ * checked in amendSupabaseCase before anything is written. Roles holding
+ * OVERRIDE_AMENDMENT_LIMITS may bypass them, but only with a reason, which is
+ * recorded as a change entry in amendment_history.
+ *
+ * getAmendmentAllowance / validateAmendmentLimits are pure so the case card and
+ * unit tests can use them without a database.
+ */
+
+import { supabase } from '../lib/supabase';
+import { hasPermission, PERMISSION_ACTIONS } from './permissions';
+import { AMENDMENT_HISTORY_FIELDS } from './fieldMappings';
+import type { SystemConfig } from './systemSettingsService';
+
+export type AmendmentLimitErrorCode =
+  | 'TIME_LIMIT_EXCEEDED'
+  | 'MAX_AMENDMENTS_REACHED'
+  | 'OVERRIDE_REASON_REQUIRED';
+
+/**
+ * Typed error thrown when an amendment is outside the configured limits
+ */
+export class AmendmentLimitError extends Error {
+  readonly code: AmendmentLimitErrorCode;
+  readonly allowance: AmendmentAllowance;
+
+  constructor(code: AmendmentLimitErrorCode, message: string, allowance: AmendmentAllowance) {
+    super(message);
+    this.name = 'AmendmentLimitError';
+    this.code = code;
+    this.allowance = allowance;
+    Object.setPrototypeOf(this, AmendmentLimitError.prototype);
+  }
+}
+
+export const isAmendmentLimitError = (error: unknown): error is AmendmentLimitError =>
+  error instanceof AmendmentLimitError;
+
+export type AmendmentLimitConfig = Pick<SystemConfig, 'amendmentTimeLimit' | 'maxAmendmentsPerCase'>;
+
+export interface AmendmentAllowance {
+  amendmentCount: number;
+  maxAmendments: number;
+  remainingAmendments: number;
+  /** ISO timestamp after which the case can no longer be amended */
+  deadline: string;
+  remainingMinutes: number;
+  withinTimeLimit: boolean;
+  underCountLimit: boolean;
+  allowed: boolean;
+}
+
+export interface AmendmentLimitOverride {
+  reason?: string;
+}
+
+/**
+ * Mirrors the SystemConfig defaults - used until the stored config has loaded
+ */
+export const DEFAULT_AMENDMENT_LIMITS: AmendmentLimitConfig = {
+  amendmentTimeLimit: 1440,
+  maxAmendmentsPerCase: 5
+};
+
+/**
+ * Label used for the override entry in amendment_history changes
+ */
+export const AMENDMENT_OVERRIDE_FIELD = 'Amendment Limit Override';
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Work out how much of the amendment window and count a case has left
+ */
+export const getAmendmentAllowance = (params: {
+  submittedAt: string;
+  amendmentCount: number;
+  config: AmendmentLimitConfig;
+  now?: Date;
+}): AmendmentAllowance => {
+  const { submittedAt, amendmentCount, config, now = new Date() } = params;
+
+  const deadlineMs = new Date(submittedAt).getTime() + config.amendmentTimeLimit * 60 * 1000;
+  const remainingMinutes = Math.max(0, Math.floor((deadlineMs - now.getTime()) / 60000));
+  const remainingAmendments = Math.max(0, config.maxAmendmentsPerCase - amendmentCount);
+  const withinTimeLimit = now.getTime() <= deadlineMs;
+  const underCountLimit = remainingAmendments > 0;
+
+  return {
+    amendmentCount,
+    maxAmendments: config.maxAmendmentsPerCase,
+    remainingAmendments,
+    deadline: new Date(deadlineMs).toISOString(),
+    remainingMinutes,
+    withinTimeLimit,
+    underCountLimit,
+    allowed: withinTimeLimit && underCountLimit
+  };
+};
+
+/**
+ * Short human readable duration, e.g. "2d 3h", "5h 20m", "45m"
+ */
+export const formatAmendmentWindow = (minutes: number): string => {
+  if (minutes <= 0) return 'closed';
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  return `${mins}m`;
+};
+
+/**
+ * Describe which limits an allowance breaches
+ */
+export const describeAmendmentLimits = (allowance: AmendmentAllowance): string => {
+  const reasons: string[] = [];
+  if (!allowance.withinTimeLimit) {
+    reasons.push(`the amendment window closed on ${new Date(allowance.deadline).toLocaleString()}`);
+  }
+  if (!allowance.underCountLimit) {
+    reasons.push(`the maximum of ${allowance.maxAmendments} amendments has been reached`);
+  }
+  return reasons.join(' and ');
+};
+
+/**
+ * Decide whether an amendment may proceed - throws AmendmentLimitError when it may not.
+ * Returns true when the limits were bypassed via override.
+ */
+export const validateAmendmentLimits = (params: {
+  allowance: AmendmentAllowance;
+  canOverride: boolean;
+  override?: AmendmentLimitOverride;
+}): boolean => {
+  const { allowance, canOverride, override } = params;
+
+  if (allowance.allowed) {
+    return false;
+  }
+
+  const breach = describeAmendmentLimits(allowance);
+
+  if (!canOverride) {
+    throw new AmendmentLimitError(
+      allowance.withinTimeLimit ? 'MAX_AMENDMENTS_REACHED' : 'TIME_LIMIT_EXCEEDED',
+      `This case can no longer be amended: ${breach}`,
+      allowance
+    );
+  }
+
+  if (!override?.reason || !override.reason.trim()) {
+    throw new AmendmentLimitError(
+      'OVERRIDE_REASON_REQUIRED',
+      `A reason is required to override amendment limits (${breach})`,
+      allowance
+    );
+  }
+
+  return true;
+};
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+/**
+ * Number of amendments recorded for a case (one history row per amendment)
+ */
+export const getAmendmentCount = async (caseId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('amendment_history')
+    .select(AMENDMENT_HISTORY_FIELDS.id, { count: 'exact', head: true })
+    .eq(AMENDMENT_HISTORY_FIELDS.caseId, caseId);
+
+  if (error) {
+    throw error;
+  }
+  return count || 0;
+};
+
+/**
+ * Check the current user may amend a case now.
+ * Returns the allowance plus whether an override was applied.
+ */
+export const assertAmendmentAllowed = async (
+  caseId: string,
+  submittedAt: string,
+  override?: AmendmentLimitOverride
+): Promise<{ allowance: AmendmentAllowance; overridden: boolean }> => {
+  const { getSystemConfig } = await import('./systemSettingsService');
+  const { getCurrentUser } = await import('./authCompat');
+
+  const [config, amendmentCount] = await Promise.all([getSystemConfig(), getAmendmentCount(caseId)]);
+  const currentUser = getCurrentUser();
+
+  const allowance = getAmendmentAllowance({ submittedAt, amendmentCount, config });
+  const canOverride = !!currentUser?.role && hasPermission(currentUser.role, PERMISSION_ACTIONS.OVERRIDE_AMENDMENT_LIMITS);
+  const overridden = validateAmendmentLimits({ allowance, canOverride, override });
+
+  return { allowance, overridden };
+};
@@ -31,6 +31,7 @@ import {
 
 const STORAGE_KEY = 'case-booking-users';
 const CURRENT_USER_KEY = 'current-user';
+const SESSION_TOKEN_KEY = 'session-token';
 
 // Simple auth functions - replace deleted supabaseAuthService functions
 export const checkUsersExist = async (): Promise<boolean> => {
@@ -119,12 +120,21 @@ export const createSession = async (userId: string): Promise<void> => {
       throw new Error('Database session creation failed');
     }
 
-    // Session stored in database only - no browser storage
+    // The token identifies the user to database functions such as change_case_status()
+    await SafeStorage.setItem(SESSION_TOKEN_KEY, sessionToken, {
+      tags: ['session'],
+      ttl: 24 * 60 * 60 * 1000 // 24 hours, same as the database session
+    });
   } catch (error) {
     throw error; // Let calling code handle the error
   }
 };
 
+export const getCurrentSessionToken = async (): Promise<string | null> => {
+  const sessionToken = await SafeStorage.getItem(SESSION_TOKEN_KEY);
+  return typeof sessionToken === 'string' ? sessionToken : null;
+};
+
 export const deleteSession = async (sessionToken: string): Promise<void> => {
   try {
     if (sessionToken) {
@@ -375,10 +385,10 @@ export const getCurrentUserSync = (): User | null => {
 export const logout = async (): Promise<void> => {
   try {
     // Get current session token from secure storage
-    const sessionToken = await SafeStorage.getItem('session-token');
-    if (sessionToken && typeof sessionToken === 'string') {
+    const sessionToken = await getCurrentSessionToken();
+    if (sessionToken) {
       await deleteSession(sessionToken);
-      await SafeStorage.removeItem('session-token');
+      await SafeStorage.removeItem(SESSION_TOKEN_KEY);
     }
 
     // Clear secure storage session
@@ -0,0 +1,398 @@
+/**
+ * Billing Export Service - ERP billing files for "To be billed" cases
+ *
+ * A billing batch is a snapshot of selected cases as one line per surgery set or
+ * implant box with its quantity. The batch is saved in billing_batches together with
+ * the column mapping it was exported with, so CSV and XML files can be downloaded
+ * again unchanged. Confirming a batch closes its cases ("Case Closed"); until then
+ * the cases stay locked to the batch and cannot be exported twice - checked when the
+ * batch is created and enforced by a trigger on billing_batches.
+ * Batch numbers come from a per-country, per-year counter (billing_batch_counters).
+ *
+ * The column mapping (which fields, in which order, under which header) is stored
+ * per country in system_settings.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking } from '../types';
+import { CASE_STATUSES } from '../constants/statuses';
+import { normalizeCountry, getLegacyCountryCode } from './countryUtils';
+import { BILLING_BATCHES_FIELDS } from './fieldMappings';
+import { countrySettingsStore } from './countrySettingsStore';
+import { allocateCountryCounter } from './caseReferenceService';
+import { buildManifestItems, getDeliveryOrderNumber } from './driverManifestService';
+import { escapeHtml } from './deliveryOrderService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type BillingField =
+  | 'batchNumber'
+  | 'caseReference'
+  | 'doNumber'
+  | 'hospital'
+  | 'department'
+  | 'doctor'
+  | 'surgeryDate'
+  | 'procedureType'
+  | 'procedureName'
+  | 'itemType'
+  | 'itemName'
+  | 'quantity'
+  | 'country';
+
+export type BillingLine = Record<BillingField, string | number>;
+
+export interface BillingColumn {
+  field: BillingField;
+  /** CSV header; also the XML element name once made XML-safe */
+  header: string;
+}
+
+export interface BillingExportSettings {
+  columns: BillingColumn[];
+  delimiter: ',' | ';' | '\t';
+  dateFormat: 'YYYY-MM-DD' | 'DD/MM/YYYY';
+  xmlRootElement: string;
+  xmlRecordElement: string;
+}
+
+export type BillingBatchStatus = 'exported' | 'confirmed' | 'cancelled';
+
+export interface BillingBatch {
+  id: string;
+  batchNumber: string;
+  country: string;
+  caseIds: string[];
+  caseReferences: string[];
+  lines: BillingLine[];
+  settings: BillingExportSettings;
+  status: BillingBatchStatus;
+  createdBy: string;
+  createdAt: string;
+  confirmedBy?: string;
+  confirmedAt?: string;
+}
+
+export const BILLING_FIELD_LABELS: Record<BillingField, string> = {
+  batchNumber: 'Batch Number',
+  caseReference: 'Case Reference',
+  doNumber: 'DO Number',
+  hospital: 'Hospital',
+  department: 'Department',
+  doctor: 'Doctor',
+  surgeryDate: 'Surgery Date',
+  procedureType: 'Procedure Type',
+  procedureName: 'Procedure Name',
+  itemType: 'Item Type',
+  itemName: 'Item',
+  quantity: 'Quantity',
+  country: 'Country'
+};
+
+export const DEFAULT_BILLING_EXPORT_SETTINGS: BillingExportSettings = {
+  columns: [
+    { field: 'batchNumber', header: 'BatchNo' },
+    { field: 'caseReference', header: 'CaseRef' },
+    { field: 'doNumber', header: 'DONo' },
+    { field: 'hospital', header: 'Customer' },
+    { field: 'doctor', header: 'Doctor' },
+    { field: 'surgeryDate', header: 'SurgeryDate' },
+    { field: 'itemType', header: 'ItemType' },
+    { field: 'itemName', header: 'Item' },
+    { field: 'quantity', header: 'Qty' }
+  ],
+  delimiter: ',',
+  dateFormat: 'YYYY-MM-DD',
+  xmlRootElement: 'BillingBatch',
+  xmlRecordElement: 'Line'
+};
+
+const BILLING_SETTING_PREFIX = 'billing_export_settings_';
+const XML_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+export const isBillableCase = (caseItem: Pick<CaseBooking, 'status'>): boolean =>
+  caseItem.status === CASE_STATUSES.TO_BE_BILLED;
+
+/**
+ * Case ids held by batches that were exported but not yet confirmed or cancelled
+ */
+export const getLockedCaseIds = (batches: BillingBatch[]): Set<string> =>
+  new Set(batches.filter(batch => batch.status === 'exported').flatMap(batch => batch.caseIds));
+
+/**
+ * BILL-{country code}-{YYYY}-{counter, 5 digits}
+ */
+export const formatBillingBatchNumber = (country: string, year: number, counter: number): string => {
+  const code = getLegacyCountryCode(normalizeCountry(country)) || normalizeCountry(country).slice(0, 3).toUpperCase();
+  return `BILL-${code}-${year}-${counter.toString().padStart(5, '0')}`;
+};
+
+export const formatBillingDate = (date: string, dateFormat: BillingExportSettings['dateFormat']): string => {
+  if (dateFormat === 'DD/MM/YYYY') {
+    const [year, month, day] = date.split('-');
+    return year && month && day ? `${day}/${month}/${year}` : date;
+  }
+  return date;
+};
+
+/**
+ * One billing line per surgery set or implant box, with booked quantities
+ */
+export const buildBillingLines = (
+  cases: CaseBooking[],
+  quantitiesByCase: Record<string, Record<string, number>>,
+  batchNumber: string
+): BillingLine[] =>
+  cases.flatMap(caseItem =>
+    buildManifestItems(caseItem, quantitiesByCase[caseItem.id] || {}).map(item => ({
+      batchNumber,
+      caseReference: caseItem.caseReferenceNumber,
+      doNumber: getDeliveryOrderNumber(caseItem) || '',
+      hospital: caseItem.hospital,
+      department: caseItem.department,
+      doctor: caseItem.doctorName || '',
+      surgeryDate: caseItem.dateOfSurgery,
+      procedureType: caseItem.procedureType,
+      procedureName: caseItem.procedureName,
+      itemType: item.type === 'surgery_set' ? 'Surgery Set' : 'Implant Box',
+      itemName: item.name,
+      quantity: item.quantity,
+      country: caseItem.country
+    }))
+  );
+
+const getColumnValue = (line: BillingLine, column: BillingColumn, settings: BillingExportSettings): string => {
+  const value = line[column.field];
+  return column.field === 'surgeryDate' ? formatBillingDate(String(value), settings.dateFormat) : String(value ?? '');
+};
+
+export const toBillingCsv = (lines: BillingLine[], settings: BillingExportSettings): string => {
+  const escape = (value: string) =>
+    /["\r\n]/.test(value) || value.includes(settings.delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  return [
+    settings.columns.map(column => escape(column.header)).join(settings.delimiter),
+    ...lines.map(line => settings.columns.map(column => escape(getColumnValue(line, column, settings))).join(settings.delimiter))
+  ].join('\r\n');
+};
+
+/**
+ * Column header as an XML element name - invalid characters become underscores
+ */
+export const toXmlElementName = (header: string): string => {
+  const name = header.trim().replace(/[^A-Za-z0-9_.-]/g, '_');
+  return XML_NAME_PATTERN.test(name) ? name : `_${name}`;
+};
+
+export const toBillingXml = (lines: BillingLine[], settings: BillingExportSettings, batchNumber: string): string => {
+  const records = lines.map(line => {
+    const fields = settings.columns
+      .map(column => {
+        const element = toXmlElementName(column.header);
+        return `    <${element}>${escapeHtml(getColumnValue(line, column, settings))}</${element}>`;
+      })
+      .join('\n');
+    return `  <${settings.xmlRecordElement}>\n${fields}\n  </${settings.xmlRecordElement}>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<${settings.xmlRootElement} batchNumber="${escapeHtml(batchNumber)}" lineCount="${lines.length}">`,
+    ...records,
+    `</${settings.xmlRootElement}>`
+  ].join('\n');
+};
+
+/**
+ * Structural checks before a column mapping is saved
+ */
+export const validateBillingExportSettings = (settings: BillingExportSettings): string[] => {
+  const errors: string[] = [];
+
+  if (settings.columns.length === 0) {
+    errors.push('At least one column is required');
+  }
+  if (settings.columns.some(column => !column.header.trim())) {
+    errors.push('Every column needs a header');
+  }
+
+  const headers = settings.columns.map(column => column.header.trim().toLowerCase());
+  if (new Set(headers).size !== headers.length) {
+    errors.push('Column headers must be unique');
+  }
+  if (!XML_NAME_PATTERN.test(settings.xmlRootElement) || !XML_NAME_PATTERN.test(settings.xmlRecordElement)) {
+    errors.push('XML element names must start with a letter and contain only letters, numbers, "_", "-" or "."');
+  }
+
+  return errors;
+};
+
+const mapBillingBatch = (row: any): BillingBatch => ({
+  id: row.id,
+  batchNumber: row.batch_number,
+  country: row.country,
+  caseIds: row.case_ids || [],
+  caseReferences: row.case_references || [],
+  lines: row.lines || [],
+  settings: { ...DEFAULT_BILLING_EXPORT_SETTINGS, ...(row.settings || {}) },
+  status: row.status,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  confirmedBy: row.confirmed_by || undefined,
+  confirmedAt: row.confirmed_at || undefined
+});
+
+// ================================================
+// SETTINGS
+// ================================================
+
+const billingSettingsStore = countrySettingsStore<BillingExportSettings>({
+  prefix: BILLING_SETTING_PREFIX,
+  label: 'Billing export column mapping',
+  defaults: () => DEFAULT_BILLING_EXPORT_SETTINGS,
+  validate: validateBillingExportSettings,
+  normalize: settings => ({
+    ...settings,
+    columns: settings.columns.map(column => ({ ...column, header: column.header.trim() }))
+  })
+});
+
+/**
+ * Get the billing column mapping for a country - stored mapping or the default
+ */
+export const getBillingExportSettings = (country: string): Promise<BillingExportSettings> =>
+  billingSettingsStore.get(country);
+
+/**
+ * Save the billing column mapping for a country (applies to new batches only)
+ */
+export const saveBillingExportSettings = async (country: string, settings: BillingExportSettings): Promise<void> => {
+  await billingSettingsStore.save(country, settings);
+};
+
+// ================================================
+// BATCHES
+// ================================================
+
+/**
+ * Recent billing batches for a country, newest first
+ */
+export const getBillingBatches = async (country: string, limit: number = 20): Promise<BillingBatch[]> => {
+  const { data, error } = await supabase
+    .from('billing_batches')
+    .select('*')
+    .eq(BILLING_BATCHES_FIELDS.country, normalizeCountry(country))
+    .order(BILLING_BATCHES_FIELDS.createdAt, { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).map(mapBillingBatch);
+};
+
+/**
+ * Snapshot the selected cases into a new batch
+ */
+export const createBillingBatch = async (params: {
+  country: string;
+  cases: CaseBooking[];
+  quantitiesByCase: Record<string, Record<string, number>>;
+  settings: BillingExportSettings;
+  createdBy: string;
+}): Promise<BillingBatch> => {
+  const { country, cases, quantitiesByCase, settings, createdBy } = params;
+
+  const notBillable = cases.filter(caseItem => !isBillableCase(caseItem));
+  if (notBillable.length > 0) {
+    throw new Error(`Only "To be billed" cases can be exported: ${notBillable.map(c => c.caseReferenceNumber).join(', ')}`);
+  }
+
+  const caseIds = cases.map(caseItem => caseItem.id);
+  const { data: openBatches, error: openBatchesError } = await supabase
+    .from('billing_batches')
+    .select(`${BILLING_BATCHES_FIELDS.batchNumber}, ${BILLING_BATCHES_FIELDS.caseIds}`)
+    .eq(BILLING_BATCHES_FIELDS.status, 'exported')
+    .overlaps(BILLING_BATCHES_FIELDS.caseIds, caseIds);
+
+  if (openBatchesError) {
+    throw openBatchesError;
+  }
+  const alreadyBatched = cases.filter(caseItem =>
+    (openBatches || []).some((batch: any) => (batch.case_ids || []).includes(caseItem.id))
+  );
+  if (alreadyBatched.length > 0) {
+    const batchNumbers = Array.from(new Set((openBatches || []).map((batch: any) => batch.batch_number)));
+    throw new Error(`Already in an open billing batch (${batchNumbers.join(', ')}): ${alreadyBatched.map(c => c.caseReferenceNumber).join(', ')}`);
+  }
+
+  const createdAt = new Date();
+  const normalizedCountry = normalizeCountry(country);
+  const counter = await allocateCountryCounter('billing_batch_counters', normalizedCountry, createdAt.getFullYear());
+  const batchNumber = formatBillingBatchNumber(normalizedCountry, createdAt.getFullYear(), counter);
+
+  const { data, error } = await supabase
+    .from('billing_batches')
+    .insert([{
+      [BILLING_BATCHES_FIELDS.batchNumber]: batchNumber,
+      [BILLING_BATCHES_FIELDS.country]: normalizedCountry,
+      [BILLING_BATCHES_FIELDS.caseIds]: caseIds,
+      [BILLING_BATCHES_FIELDS.caseReferences]: cases.map(caseItem => caseItem.caseReferenceNumber),
+      [BILLING_BATCHES_FIELDS.lines]: buildBillingLines(cases, quantitiesByCase, batchNumber),
+      [BILLING_BATCHES_FIELDS.settings]: settings,
+      [BILLING_BATCHES_FIELDS.status]: 'exported',
+      [BILLING_BATCHES_FIELDS.createdBy]: createdBy,
+      [BILLING_BATCHES_FIELDS.createdAt]: createdAt.toISOString()
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  console.log(`💰 BILLING - Created batch ${batchNumber} with ${cases.length} case(s)`);
+  return mapBillingBatch(data);
+};
+
+/**
+ * Move an exported batch to confirmed or cancelled - only exported batches change
+ */
+const closeBillingBatch = async (
+  batchId: string,
+  status: Exclude<BillingBatchStatus, 'exported'>,
+  closedBy: string
+): Promise<void> => {
+  const { data, error } = await supabase
+    .from('billing_batches')
+    .update({
+      [BILLING_BATCHES_FIELDS.status]: status,
+      [BILLING_BATCHES_FIELDS.confirmedBy]: closedBy,
+      [BILLING_BATCHES_FIELDS.confirmedAt]: new Date().toISOString()
+    })
+    .eq(BILLING_BATCHES_FIELDS.id, batchId)
+    .eq(BILLING_BATCHES_FIELDS.status, 'exported')
+    .select(BILLING_BATCHES_FIELDS.id);
+
+  if (error) {
+    throw error;
+  }
+  if (!data || data.length === 0) {
+    throw new Error('This billing batch has already been confirmed or cancelled');
+  }
+};
+
+export const confirmBillingBatch = (batchId: string, confirmedBy: string): Promise<void> =>
+  closeBillingBatch(batchId, 'confirmed', confirmedBy);
+
+/**
+ * Release the cases of an exported batch so they can be exported again
+ */
+export const cancelBillingBatch = (batchId: string, cancelledBy: string): Promise<void> =>
+  closeBillingBatch(batchId, 'cancelled', cancelledBy);
@@ -0,0 +1,263 @@
+/**
+ * Bulk Case Action Service - Status changes, department reassignment, export and DO
+ * printing for a selection of cases
+ *
+ * Every case is still handled on its own: status changes go through the same transition
+ * guard (workflow, role permission, required fields) as a single change, and the caller's
+ * per-case action keeps firing that case's notifications and audit entries. Cases that
+ * cannot take the action are rejected up front with the reason, and the rest run one at
+ * a time so a failure only affects its own case. The summary lists both.
+ */
+
+import { CaseBooking, CaseStatus } from '../types';
+import { CASE_STATUSES } from '../constants/statuses';
+import { hasPermission } from './permissions';
+import {
+  StatusWorkflowDefinition,
+  TransitionPayload,
+  getStatusWorkflow,
+  getTransitionsFrom,
+  isReinstateTransition
+} from './statusWorkflowService';
+import { validateStatusTransition } from './statusTransitionGuard';
+import { normalizeCountry } from './countryUtils';
+import { getDeliveryOrderNumber } from './driverManifestService';
+import { getReinstateStatus } from './caseCancellationService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type BulkCaseActionType = 'status' | 'department' | 'export' | 'printDeliveryOrders';
+
+export interface BulkCaseOutcome {
+  caseId: string;
+  caseReferenceNumber: string;
+  success: boolean;
+  message: string;
+}
+
+export interface BulkCaseSummary {
+  title: string;
+  outcomes: BulkCaseOutcome[];
+  succeeded: number;
+  failed: number;
+}
+
+export interface BulkPrecheck {
+  eligible: CaseBooking[];
+  rejected: BulkCaseOutcome[];
+}
+
+// ================================================
+// CONSTANTS
+// ================================================
+
+export const BULK_CASE_ACTION_LABELS: Record<BulkCaseActionType, string> = {
+  status: 'Change Status',
+  department: 'Reassign Department',
+  export: 'Export Selection',
+  printDeliveryOrders: 'Print Delivery Orders'
+};
+
+// Cancelling asks for a reason code per case, so it stays a single-case action
+const BULK_EXCLUDED_STATUSES: CaseStatus[] = [CASE_STATUSES.CASE_CANCELLED];
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+const getWorkflow = (
+  workflowsByCountry: Record<string, StatusWorkflowDefinition>,
+  country: string
+): StatusWorkflowDefinition | undefined => workflowsByCountry[normalizeCountry(country)];
+
+const rejectCase = (caseItem: CaseBooking, message: string): BulkCaseOutcome => ({
+  caseId: caseItem.id,
+  caseReferenceNumber: caseItem.caseReferenceNumber,
+  success: false,
+  message
+});
+
+/**
+ * Statuses at least one selected case can move to with the user's role, in workflow order
+ */
+export const getBulkStatusTargets = (
+  cases: CaseBooking[],
+  workflowsByCountry: Record<string, StatusWorkflowDefinition>,
+  role: string,
+  permissionChecker: (roleId: string, actionId: string) => boolean = hasPermission
+): CaseStatus[] => {
+  const targets = new Set<CaseStatus>();
+  const order: CaseStatus[] = [];
+
+  cases.forEach(caseItem => {
+    const workflow = getWorkflow(workflowsByCountry, caseItem.country);
+    if (!workflow) return;
+
+    workflow.statuses.forEach(status => {
+      if (!order.includes(status)) order.push(status);
+    });
+    getTransitionsFrom(workflow, caseItem.status)
+      .filter(transition => !isReinstateTransition(transition) && !BULK_EXCLUDED_STATUSES.includes(transition.to))
+      .filter(transition => permissionChecker(role, transition.permission))
+      .forEach(transition => targets.add(transition.to));
+  });
+
+  return Array.from(targets).sort((a, b) => order.indexOf(a) - order.indexOf(b));
+};
+
+/**
+ * Split the selection into cases the status change is valid for and rejected cases,
+ * using the same validation as a single status change
+ */
+export const precheckBulkStatusChange = (params: {
+  cases: CaseBooking[];
+  targetStatus: CaseStatus;
+  workflowsByCountry: Record<string, StatusWorkflowDefinition>;
+  role: string;
+  payload?: TransitionPayload;
+  permissionChecker?: (roleId: string, actionId: string) => boolean;
+}): BulkPrecheck => {
+  const { cases, targetStatus, workflowsByCountry, role, payload, permissionChecker } = params;
+  const result: BulkPrecheck = { eligible: [], rejected: [] };
+
+  cases.forEach(caseItem => {
+    if (caseItem.status === targetStatus) {
+      result.rejected.push(rejectCase(caseItem, `Already "${targetStatus}"`));
+      return;
+    }
+    const workflow = getWorkflow(workflowsByCountry, caseItem.country);
+    if (!workflow) {
+      result.rejected.push(rejectCase(caseItem, `No status workflow loaded for ${caseItem.country}`));
+      return;
+    }
+
+    try {
+      validateStatusTransition({
+        currentStatus: caseItem.status,
+        targetStatus,
+        role,
+        workflow,
+        payload,
+        reinstateStatus: getReinstateStatus(caseItem),
+        permissionChecker
+      });
+      result.eligible.push(caseItem);
+    } catch (error) {
+      result.rejected.push(rejectCase(caseItem, error instanceof Error ? error.message : 'Status change not allowed'));
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Split the selection for a department reassignment - cases already in the department, or
+ * in a country without it, are skipped
+ */
+export const precheckBulkDepartmentChange = (
+  cases: CaseBooking[],
+  department: string,
+  departmentsByCountry: Record<string, string[]>
+): BulkPrecheck => {
+  const result: BulkPrecheck = { eligible: [], rejected: [] };
+  cases.forEach(caseItem => {
+    if (caseItem.department === department) {
+      result.rejected.push(rejectCase(caseItem, `Already in ${department}`));
+    } else if (!(departmentsByCountry[normalizeCountry(caseItem.country)] || []).includes(department)) {
+      result.rejected.push(rejectCase(caseItem, `${department} is not a department in ${caseItem.country}`));
+    } else {
+      result.eligible.push(caseItem);
+    }
+  });
+  return result;
+};
+
+/**
+ * Split the selection for DO printing - only cases with an issued DO can be printed
+ */
+export const precheckBulkDeliveryOrders = (cases: CaseBooking[]): BulkPrecheck => {
+  const result: BulkPrecheck = { eligible: [], rejected: [] };
+  cases.forEach(caseItem => {
+    const doNumber = getDeliveryOrderNumber(caseItem);
+    if (doNumber) {
+      // Re-issued under the same number - never allocates a new one
+      result.eligible.push({ ...caseItem, doNumber });
+    } else {
+      result.rejected.push(rejectCase(caseItem, 'No delivery order has been issued yet'));
+    }
+  });
+  return result;
+};
+
+/**
+ * Summary of a bulk run - rejected and failed cases are listed first
+ */
+export const summarizeBulkOutcomes = (title: string, outcomes: BulkCaseOutcome[]): BulkCaseSummary => {
+  const sorted = [...outcomes].sort((a, b) => Number(a.success) - Number(b.success));
+  const succeeded = outcomes.filter(outcome => outcome.success).length;
+  return { title, outcomes: sorted, succeeded, failed: outcomes.length - succeeded };
+};
+
+/**
+ * One printable document from several DO documents - each DO starts on a new page
+ */
+export const combineDeliveryOrdersHtml = (documents: string[]): string => {
+  const getPart = (html: string, tag: 'head' | 'body') => {
+    const match = html.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*)</${tag}>`, 'i'));
+    return match ? match[1] : (tag === 'body' ? html : '');
+  };
+
+  const bodies = documents.map(html => `<section class="delivery-order-page">${getPart(html, 'body')}</section>`);
+  return `<!DOCTYPE html>
+<html>
+<head>
+${getPart(documents[0] || '', 'head')}
+<style>.delivery-order-page { page-break-after: always; } .delivery-order-page:last-child { page-break-after: auto; }</style>
+</head>
+<body>
+${bodies.join('\n')}
+</body>
+</html>`;
+};
+
+// ================================================
+// RUNNER
+// ================================================
+
+/**
+ * Status workflows for every country in the selection, keyed by normalized country
+ */
+export const getWorkflowsForCases = async (cases: CaseBooking[]): Promise<Record<string, StatusWorkflowDefinition>> => {
+  const countries = Array.from(new Set(cases.map(caseItem => normalizeCountry(caseItem.country))));
+  const workflows = await Promise.all(countries.map(country => getStatusWorkflow(country)));
+  return countries.reduce<Record<string, StatusWorkflowDefinition>>((acc, country, index) => {
+    acc[country] = workflows[index];
+    return acc;
+  }, {});
+};
+
+/**
+ * Run an action for each case, one at a time. The action returns the success message;
+ * a thrown error marks only that case as failed.
+ */
+export const runBulkCaseAction = async (
+  cases: CaseBooking[],
+  action: (caseItem: CaseBooking) => Promise<string>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkCaseOutcome[]> => {
+  const outcomes: BulkCaseOutcome[] = [];
+
+  for (const caseItem of cases) {
+    try {
+      const message = await action(caseItem);
+      outcomes.push({ caseId: caseItem.id, caseReferenceNumber: caseItem.caseReferenceNumber, success: true, message });
+    } catch (error) {
+      outcomes.push(rejectCase(caseItem, error instanceof Error ? error.message : 'Unknown error'));
+    }
+    onProgress?.(outcomes.length, cases.length);
+  }
+
+  return outcomes;
+};
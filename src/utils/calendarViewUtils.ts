@@ -0,0 +1,184 @@
+/**
+ * Calendar View Utilities - Date ranges, time slots and resource rows for BookingCalendar
+ *
+ * Pure helpers shared by the month, week, day and resource layouts. Dates are handled
+ * as local YYYY-MM-DD keys to match case_bookings.date_of_surgery.
+ */
+
+import { CaseBooking } from '../types';
+import { parseProcedureTime } from './icsCalendarService';
+
+export type CalendarLayout = 'month' | 'week' | 'day' | 'resource';
+
+export type CalendarResourceType = 'doctor' | 'hospital' | 'implantBox';
+
+export interface CalendarResourceRow {
+  resource: string;
+  cases: CaseBooking[];
+}
+
+// Working hours always shown on the timeline - widened when a case falls outside
+const DEFAULT_TIMELINE_START_HOUR = 7;
+const DEFAULT_TIMELINE_END_HOUR = 19;
+
+export const UNASSIGNED_RESOURCE = 'Unassigned';
+
+/**
+ * Local YYYY-MM-DD key (toISOString would shift the day in UTC+ time zones)
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+/**
+ * Sunday-to-Saturday week containing the date, matching the month grid
+ */
+export const getWeekDates = (date: Date): Date[] => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+  return Array.from({ length: 7 }, (_, index) =>
+    new Date(start.getFullYear(), start.getMonth(), start.getDate() + index)
+  );
+};
+
+/**
+ * Dates shown by a layout - the resource view spans a week
+ */
+export const getVisibleDates = (layout: CalendarLayout, date: Date): Date[] => {
+  if (layout === 'day') {
+    return [new Date(date.getFullYear(), date.getMonth(), date.getDate())];
+  }
+  if (layout === 'week' || layout === 'resource') {
+    return getWeekDates(date);
+  }
+
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return Array.from({ length: daysInMonth }, (_, index) =>
+    new Date(date.getFullYear(), date.getMonth(), index + 1)
+  );
+};
+
+/**
+ * Move the calendar one period back or forward for the current layout
+ */
+export const shiftCalendarDate = (date: Date, layout: CalendarLayout, direction: 'prev' | 'next'): Date => {
+  const step = direction === 'prev' ? -1 : 1;
+
+  if (layout === 'day') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + step);
+  }
+  if (layout === 'week' || layout === 'resource') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + step * 7);
+  }
+  // Clamp to the 1st so e.g. 31 Jan + 1 month doesn't roll into March
+  return new Date(date.getFullYear(), date.getMonth() + step, 1);
+};
+
+/**
+ * Hour slot for a case - null when the procedure time is missing or unparseable
+ */
+export const getProcedureHour = (time?: string): number | null => {
+  const parsed = parseProcedureTime(time);
+  return parsed ? parsed.hours : null;
+};
+
+/**
+ * Hour rows for the week/day timeline, covering working hours and every booked hour
+ */
+export const getTimelineHours = (cases: Pick<CaseBooking, 'timeOfProcedure'>[]): number[] => {
+  let start = DEFAULT_TIMELINE_START_HOUR;
+  let end = DEFAULT_TIMELINE_END_HOUR;
+
+  cases.forEach(caseItem => {
+    const hour = getProcedureHour(caseItem.timeOfProcedure);
+    if (hour !== null) {
+      start = Math.min(start, hour);
+      end = Math.max(end, hour);
+    }
+  });
+
+  return Array.from({ length: end - start + 1 }, (_, index) => start + index);
+};
+
+/**
+ * Sort by procedure time, cases without a time last
+ */
+export const sortCasesByTime = (cases: CaseBooking[]): CaseBooking[] =>
+  [...cases].sort((a, b) => {
+    const timeA = parseProcedureTime(a.timeOfProcedure);
+    const timeB = parseProcedureTime(b.timeOfProcedure);
+    const minutesA = timeA ? timeA.hours * 60 + timeA.minutes : Number.MAX_SAFE_INTEGER;
+    const minutesB = timeB ? timeB.hours * 60 + timeB.minutes : Number.MAX_SAFE_INTEGER;
+    return minutesA - minutesB;
+  });
+
+/**
+ * Resources a case occupies - a case with several implant boxes appears on each row
+ */
+export const getResourceKeys = (caseItem: CaseBooking, type: CalendarResourceType): string[] => {
+  if (type === 'doctor') {
+    return [caseItem.doctorName?.trim() || UNASSIGNED_RESOURCE];
+  }
+  if (type === 'hospital') {
+    return [caseItem.hospital?.trim() || UNASSIGNED_RESOURCE];
+  }
+  return caseItem.implantBox && caseItem.implantBox.length > 0 ? caseItem.implantBox : [UNASSIGNED_RESOURCE];
+};
+
+/**
+ * One row per resource, alphabetical with Unassigned last
+ */
+export const groupCasesByResource = (cases: CaseBooking[], type: CalendarResourceType): CalendarResourceRow[] => {
+  const rows = new Map<string, CaseBooking[]>();
+
+  cases.forEach(caseItem => {
+    getResourceKeys(caseItem, type).forEach(resource => {
+      rows.set(resource, [...(rows.get(resource) || []), caseItem]);
+    });
+  });
+
+  return Array.from(rows.entries())
+    .map(([resource, resourceCases]) => ({ resource, cases: sortCasesByTime(resourceCases) }))
+    .sort((a, b) => {
+      if (a.resource === UNASSIGNED_RESOURCE) return 1;
+      if (b.resource === UNASSIGNED_RESOURCE) return -1;
+      return a.resource.localeCompare(b.resource);
+    });
+};
+
+/**
+ * Units booked on a resource row - the box's own quantity for implant boxes,
+ * otherwise every set and box on the row's cases
+ */
+export const getResourceUsage = (cases: CaseBooking[], resource: string, type: CalendarResourceType): number =>
+  cases.reduce((total, caseItem) => {
+    if (type === 'implantBox') {
+      return resource === UNASSIGNED_RESOURCE ? total : total + (caseItem.quantities?.[resource] || 1);
+    }
+    const items = [...(caseItem.surgerySetSelection || []), ...(caseItem.implantBox || [])];
+    return total + items.reduce((sum, item) => sum + (caseItem.quantities?.[item] || 1), 0);
+  }, 0);
+
+/**
+ * Header label for the visible period
+ */
+export const formatCalendarPeriod = (layout: CalendarLayout, date: Date): string => {
+  if (layout === 'day') {
+    return date.toLocaleDateString('en-GB', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  }
+  if (layout === 'week' || layout === 'resource') {
+    const week = getWeekDates(date);
+    const first = week[0];
+    const last = week[6];
+    const firstLabel = first.toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      ...(first.getFullYear() !== last.getFullYear() ? { year: 'numeric' as const } : {})
+    });
+    return `${firstLabel} – ${last.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`;
+  }
+  return date.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * "07:00" style label for a timeline row
+ */
+export const formatHourLabel = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`;
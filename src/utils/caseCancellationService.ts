@@ -0,0 +1,148 @@
+/**
+ * Case Cancellation Service - Cancellation reasons and case reinstatement
+ *
+ * Cancelling a case records a reason code (from the per-country `cancellation_reasons`
+ * code table) and an optional note as JSON details on the Case Cancelled history entry.
+ * Reinstating a case returns it to the status it had before that entry; the reinstatement
+ * is written as a normal status change so the full history is kept.
+ */
+
+import { CaseBooking, CaseStatus, StatusHistory } from '../types';
+import { getCancellationReasonsForCountry } from './supabaseCodeTableService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export interface CaseCancellation {
+  reason: string;
+  note: string;
+  cancelledBy: string;
+  cancelledAt: string;
+}
+
+export interface CancellationReasonCount {
+  reason: string;
+  count: number;
+  percentage: number;
+}
+
+// Reason that needs a note to explain it
+export const OTHER_CANCELLATION_REASON = 'Other';
+
+// Used until a country maintains its own Cancellation Reasons code table
+export const DEFAULT_CANCELLATION_REASONS = [
+  'Patient Unfit',
+  'Surgeon Unavailable',
+  'Hospital Rescheduled',
+  OTHER_CANCELLATION_REASON
+];
+
+// Shown for cases cancelled before reasons were recorded
+export const UNSPECIFIED_CANCELLATION_REASON = 'Not specified';
+
+const CASE_CANCELLED: CaseStatus = 'Case Cancelled';
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Status history details for a cancellation
+ */
+export const buildCancellationDetails = (reason: string, note: string): string =>
+  JSON.stringify({
+    cancellationReason: reason,
+    ...(note.trim() ? { cancellationNote: note.trim() } : {})
+  });
+
+/**
+ * Status history details for a reinstatement
+ */
+export const buildReinstatementDetails = (reinstatedTo: CaseStatus): string =>
+  JSON.stringify({ reinstatedFrom: CASE_CANCELLED, reinstatedTo });
+
+const sortHistory = (history: StatusHistory[]): StatusHistory[] =>
+  [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+const findLastCancellationIndex = (history: StatusHistory[]): number => {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].status === CASE_CANCELLED) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Reason and note of the case's latest cancellation - null when it was never cancelled
+ */
+export const getCaseCancellation = (caseItem: Pick<CaseBooking, 'statusHistory'>): CaseCancellation | null => {
+  const history = sortHistory(caseItem.statusHistory || []);
+  const entry = history[findLastCancellationIndex(history)];
+  if (!entry) {
+    return null;
+  }
+
+  let reason = UNSPECIFIED_CANCELLATION_REASON;
+  let note = '';
+  if (entry.details) {
+    try {
+      const parsed = JSON.parse(entry.details);
+      reason = parsed.cancellationReason || UNSPECIFIED_CANCELLATION_REASON;
+      note = parsed.cancellationNote || '';
+    } catch (e) {
+      // Cancellations made before reason codes stored a plain-text message
+      note = entry.details;
+    }
+  }
+
+  return { reason, note, cancelledBy: entry.processedBy, cancelledAt: entry.timestamp };
+};
+
+/**
+ * Status a cancelled case returns to when reinstated - null when the case is not
+ * cancelled or its history does not show what it was cancelled from
+ */
+export const getReinstateStatus = (caseItem: Pick<CaseBooking, 'status' | 'statusHistory'>): CaseStatus | null => {
+  if (caseItem.status !== CASE_CANCELLED) {
+    return null;
+  }
+
+  const history = sortHistory(caseItem.statusHistory || []);
+  const cancelledIndex = findLastCancellationIndex(history);
+  const previous = cancelledIndex > 0 ? history[cancelledIndex - 1] : undefined;
+  return previous && previous.status !== CASE_CANCELLED ? previous.status : null;
+};
+
+/**
+ * Count currently cancelled cases by reason, most frequent first
+ */
+export const summarizeCancellationReasons = (cases: CaseBooking[]): CancellationReasonCount[] => {
+  const cancelled = cases.filter(caseItem => caseItem.status === CASE_CANCELLED);
+  const counts: Record<string, number> = {};
+  cancelled.forEach(caseItem => {
+    const reason = getCaseCancellation(caseItem)?.reason || UNSPECIFIED_CANCELLATION_REASON;
+    counts[reason] = (counts[reason] || 0) + 1;
+  });
+
+  return Object.entries(counts)
+    .map(([reason, count]) => ({
+      reason,
+      count,
+      percentage: Math.round((count / cancelled.length) * 1000) / 10
+    }))
+    .sort((a, b) => b.count - a.count || a.reason.localeCompare(b.reason));
+};
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+/**
+ * Cancellation reasons offered for a country's cases
+ */
+export const getCancellationReasons = async (country: string): Promise<string[]> => {
+  const reasons = await getCancellationReasonsForCountry(country);
+  return reasons.length > 0 ? reasons : DEFAULT_CANCELLATION_REASONS;
+};
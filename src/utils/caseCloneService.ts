@@ -0,0 +1,67 @@
+/**
+ * Case Clone Service - Duplicate an existing case into a new booking
+ *
+ * A duplicate copies the booking fields of the source case - hospital, department, doctor,
+ * procedure, sets, implant boxes and quantities - but not its date, status, history or
+ * delivery details. The new case stores case_bookings.cloned_from_id so the source case
+ * can link to its clones.
+ */
+
+import { CaseBooking } from '../types';
+import { BookingTemplateDraft } from './caseSeriesService';
+import { getCaseQuantities, type CaseQuantity } from './unifiedDataService';
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Booking form values for a duplicate of the case. Shaped like a booking template
+ * so the form can walk the same department > doctor > procedure > sets cascade.
+ */
+export const buildCloneDraft = (caseItem: CaseBooking, quantities: CaseQuantity[]): BookingTemplateDraft => {
+  const quantityByItem: Record<string, number> = {};
+  quantities.forEach(item => {
+    quantityByItem[item.item_name] = item.quantity;
+  });
+
+  return {
+    country: caseItem.country,
+    name: `case ${caseItem.caseReferenceNumber}`,
+    hospital: caseItem.hospital,
+    department: caseItem.department,
+    doctorId: caseItem.doctorId || '',
+    doctorName: caseItem.doctorName || '',
+    procedureType: caseItem.procedureType,
+    procedureName: caseItem.procedureName,
+    timeOfProcedure: caseItem.timeOfProcedure || '',
+    surgerySetSelection: [...(caseItem.surgerySetSelection || [])],
+    implantBox: [...(caseItem.implantBox || [])],
+    quantities: quantityByItem,
+    specialInstruction: caseItem.specialInstruction || ''
+  };
+};
+
+/**
+ * Clones of each case, keyed by source case id and oldest first
+ */
+export const groupClonesBySource = (cases: CaseBooking[]): Map<string, CaseBooking[]> => {
+  const clones = new Map<string, CaseBooking[]>();
+  cases
+    .filter(caseItem => caseItem.clonedFromId)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt))
+    .forEach(caseItem => {
+      const sourceId = caseItem.clonedFromId as string;
+      clones.set(sourceId, [...(clones.get(sourceId) || []), caseItem]);
+    });
+  return clones;
+};
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+export const loadCloneDraft = async (caseItem: CaseBooking): Promise<BookingTemplateDraft> => {
+  const quantities = await getCaseQuantities(caseItem.id);
+  return buildCloneDraft(caseItem, quantities);
+};
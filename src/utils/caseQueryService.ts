@@ -0,0 +1,459 @@
+/**
+ * Case Query Service - Paged case queries with the filters applied in the database
+ *
+ * Pages are ordered by (sort column, id) - newest bookings first unless a sort order is
+ * given - and fetched with keyset
+ * pagination: the cursor is the last row of the previous page, so a deep page costs
+ * the same as the first one and newly booked cases don't shift the pages behind it.
+ * FilterOptions (status, hospital, department, submitter, surgery date range, search)
+ * and the user's access scope become query conditions instead of in-memory filters.
+ *
+ * New cases arrive through a realtime INSERT subscription and are merged into the first
+ * page when they match the query - matchesCasePageQuery mirrors the database conditions.
+ *
+ * The SLA watch list and the filter dropdown values come from database functions
+ * (case_sla_watch, case_filter_options) that return only the columns they need.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking, CaseStatus, FilterOptions, StatusHistory } from '../types';
+import { CASE_BOOKINGS_FIELDS } from './fieldMappings';
+import { getLegacyCountryCode, normalizeCountry } from './countryUtils';
+import { CASE_WITH_HISTORY_SELECT, mapSupabaseCaseRow } from './supabaseCaseService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type CaseSortOrder = 'newest' | 'oldest' | 'surgeryDateAsc' | 'surgeryDateDesc';
+
+/**
+ * Last row of a page - its sort column value and id
+ */
+export interface CasePageCursor {
+  sortValue: string;
+  id: string;
+}
+
+/**
+ * Limits from the user's role - countries, statuses and departments they may see
+ */
+export interface CaseAccessScope {
+  countries?: string[];
+  statuses?: CaseStatus[];
+  departments?: string[];
+}
+
+export interface CasePageQuery {
+  country?: string;
+  filters: FilterOptions;
+  scope?: CaseAccessScope;
+  excludedStatuses?: CaseStatus[];
+  /** Only these cases - e.g. the ones breaching an SLA */
+  caseIds?: string[];
+  sortOrder?: CaseSortOrder;
+  pageSize: number;
+  cursor?: CasePageCursor | null;
+}
+
+export interface CasePage {
+  cases: CaseBooking[];
+  nextCursor: CasePageCursor | null;
+  /** Cases matching the query across all pages - only counted for the first page */
+  totalCount: number | null;
+}
+
+/**
+ * What SLA evaluation reads from a case. statusHistory only holds the latest entry
+ * into each status.
+ */
+export type SlaWatchCase = Pick<CaseBooking, 'id' | 'country' | 'status' | 'dateOfSurgery' | 'timeOfProcedure' | 'statusHistory'>;
+
+export interface CaseFilterValues {
+  submitters: string[];
+  hospitals: string[];
+}
+
+export const DEFAULT_CASE_PAGE_SIZE = 5;
+
+const SLA_WATCH_PAGE_SIZE = 1000;
+
+export const DEFAULT_CASE_SORT_ORDER: CaseSortOrder = 'newest';
+
+export const CASE_SORT_OPTIONS: Record<CaseSortOrder, { label: string; column: string; ascending: boolean }> = {
+  newest: { label: 'Newest Bookings First', column: CASE_BOOKINGS_FIELDS.createdAt, ascending: false },
+  oldest: { label: 'Oldest Bookings First', column: CASE_BOOKINGS_FIELDS.createdAt, ascending: true },
+  surgeryDateAsc: { label: 'Surgery Date (Soonest First)', column: CASE_BOOKINGS_FIELDS.dateOfSurgery, ascending: true },
+  surgeryDateDesc: { label: 'Surgery Date (Latest First)', column: CASE_BOOKINGS_FIELDS.dateOfSurgery, ascending: false }
+};
+
+// Statuses drivers work with - the case list shows them nothing else
+export const DRIVER_VISIBLE_STATUSES: CaseStatus[] = [
+  'Sales Approved',
+  'Pending Delivery (Hospital)',
+  'Case Completed',
+  'Pending Collection (At Hospital)' as CaseStatus
+];
+
+// Operations Managers and IT see every department
+const FULL_DEPARTMENT_ACCESS_ROLES = ['operations-manager', 'it'];
+
+const SEARCH_FIELDS = [
+  CASE_BOOKINGS_FIELDS.caseReferenceNumber,
+  CASE_BOOKINGS_FIELDS.hospital,
+  CASE_BOOKINGS_FIELDS.doctorName,
+  CASE_BOOKINGS_FIELDS.procedureType,
+  CASE_BOOKINGS_FIELDS.procedureName,
+  CASE_BOOKINGS_FIELDS.submittedBy
+] as const;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Country values to match - the normalized name and its legacy code, if any
+ */
+export const getCountryValues = (country: string): string[] => {
+  const normalizedCountry = normalizeCountry(country);
+  const legacyCountryCode = getLegacyCountryCode(normalizedCountry);
+  return legacyCountryCode && legacyCountryCode !== normalizedCountry
+    ? [normalizedCountry, legacyCountryCode]
+    : [normalizedCountry];
+};
+
+/**
+ * Country values a query may match - the country's values within the scope, the scope
+ * alone without a country, or null for no limit
+ */
+const getScopedCountryValues = (country: string | undefined, scope: CaseAccessScope): string[] | null => {
+  if (!country) {
+    return scope.countries || null;
+  }
+  const values = getCountryValues(country);
+  return scope.countries ? values.filter(value => scope.countries?.includes(value)) : values;
+};
+
+/**
+ * Department names without a country prefix - "Singapore: Orthopedics" => "Orthopedics"
+ */
+export const cleanDepartmentName = (department: string): string =>
+  department.replace(/^[A-Za-z\s]+:/, '').trim();
+
+/**
+ * Countries, statuses and departments a user may see - admins are not limited
+ */
+export const getCaseAccessScope = (
+  user: { role: string; countries?: string[]; departments?: string[] } | null
+): CaseAccessScope => {
+  if (!user || user.role === 'admin') {
+    return {};
+  }
+
+  const scope: CaseAccessScope = {};
+  if (user.countries && user.countries.length > 0) {
+    scope.countries = Array.from(new Set(user.countries.flatMap(getCountryValues)));
+  }
+  if (user.role === 'driver') {
+    scope.statuses = DRIVER_VISIBLE_STATUSES;
+  }
+  if (user.departments && user.departments.length > 0 && !FULL_DEPARTMENT_ACCESS_ROLES.includes(user.role)) {
+    // Stored department values may or may not carry the country prefix
+    scope.departments = Array.from(new Set([...user.departments, ...user.departments.map(cleanDepartmentName)]));
+  }
+  return scope;
+};
+
+/**
+ * Quote a value for a PostgREST or() condition
+ */
+const quoteFilterValue = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * or() condition matching the search text in any searchable column - null for no search
+ */
+export const buildCaseSearchCondition = (search?: string): string | null => {
+  // Wildcards typed by the user are searched for literally by dropping them
+  const term = (search || '').replace(/[*%]/g, '').trim();
+  if (!term) {
+    return null;
+  }
+  return SEARCH_FIELDS.map(field => `${field}.ilike.${quoteFilterValue(`*${term}*`)}`).join(',');
+};
+
+/**
+ * or() condition selecting the rows after the cursor in (sort column, id) order
+ */
+export const buildKeysetCondition = (cursor: CasePageCursor, sortOrder: CaseSortOrder = DEFAULT_CASE_SORT_ORDER): string => {
+  const { column, ascending } = CASE_SORT_OPTIONS[sortOrder];
+  const operator = ascending ? 'gt' : 'lt';
+  const sortValue = quoteFilterValue(cursor.sortValue);
+  return `${column}.${operator}.${sortValue},` +
+    `and(${column}.eq.${sortValue},${CASE_BOOKINGS_FIELDS.id}.${operator}.${quoteFilterValue(cursor.id)})`;
+};
+
+/**
+ * Comparator for a sort order - booking time is read from submittedAt, which is set
+ * together with created_at
+ */
+const compareCases = (sortOrder: CaseSortOrder) => (a: CaseBooking, b: CaseBooking): number => {
+  const { column, ascending } = CASE_SORT_OPTIONS[sortOrder];
+  const getValue = (caseItem: CaseBooking) =>
+    (column === CASE_BOOKINGS_FIELDS.dateOfSurgery ? caseItem.dateOfSurgery : caseItem.submittedAt) || '';
+  const difference = getValue(a).localeCompare(getValue(b)) || a.id.localeCompare(b.id);
+  return ascending ? difference : -difference;
+};
+
+/**
+ * Whether a case satisfies a page query - the in-memory mirror of the database conditions
+ */
+export const matchesCasePageQuery = (caseItem: CaseBooking, query: CasePageQuery): boolean => {
+  const { filters, scope = {} } = query;
+
+  if (query.country && normalizeCountry(caseItem.country) !== normalizeCountry(query.country)) return false;
+  if (query.caseIds && !query.caseIds.includes(caseItem.id)) return false;
+  if (query.excludedStatuses?.includes(caseItem.status)) return false;
+  if (scope.countries && !scope.countries.map(normalizeCountry).includes(normalizeCountry(caseItem.country))) return false;
+  if (scope.statuses && !scope.statuses.includes(caseItem.status)) return false;
+  if (scope.departments && !scope.departments.includes(caseItem.department)) return false;
+
+  if (filters.country && normalizeCountry(caseItem.country) !== normalizeCountry(filters.country)) return false;
+  if (filters.status && caseItem.status !== filters.status) return false;
+  if (filters.hospital && caseItem.hospital !== filters.hospital) return false;
+  if (filters.department && caseItem.department !== filters.department) return false;
+  if (filters.submitter && caseItem.submittedBy !== filters.submitter) return false;
+  if (filters.dateFrom && caseItem.dateOfSurgery < filters.dateFrom) return false;
+  if (filters.dateTo && caseItem.dateOfSurgery > filters.dateTo) return false;
+
+  const term = (filters.search || '').replace(/[*%]/g, '').trim().toLowerCase();
+  if (term) {
+    const matches = [
+      caseItem.caseReferenceNumber,
+      caseItem.hospital,
+      caseItem.doctorName,
+      caseItem.procedureType,
+      caseItem.procedureName,
+      caseItem.submittedBy
+    ].some(field => (field || '').toLowerCase().includes(term));
+    if (!matches) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Add a newly booked case to the first page when it matches the query and sorts
+ * within the page. Returns the same array when nothing changes.
+ */
+export const mergeInsertedCase = (pageCases: CaseBooking[], inserted: CaseBooking, query: CasePageQuery): CaseBooking[] => {
+  if (query.cursor || !matchesCasePageQuery(inserted, query) || pageCases.some(caseItem => caseItem.id === inserted.id)) {
+    return pageCases;
+  }
+  // A new booking has the latest created_at, so newest-first always puts it on top
+  const sortOrder = query.sortOrder || DEFAULT_CASE_SORT_ORDER;
+  const insertAt = sortOrder === 'newest'
+    ? 0
+    : pageCases.findIndex(caseItem => compareCases(sortOrder)(inserted, caseItem) < 0);
+  if (insertAt === -1) {
+    // Sorts after the whole page - it only belongs here when the page is the last one
+    return pageCases.length < query.pageSize ? [...pageCases, inserted] : pageCases;
+  }
+  return [...pageCases.slice(0, insertAt), inserted, ...pageCases.slice(insertAt)].slice(0, query.pageSize);
+};
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+/**
+ * One page of cases, newest first, with the filters applied in the database
+ */
+export const getCasesPage = async (query: CasePageQuery): Promise<CasePage> => {
+  const { filters, scope = {} } = query;
+  const sortOrder = query.sortOrder || DEFAULT_CASE_SORT_ORDER;
+  const sort = CASE_SORT_OPTIONS[sortOrder];
+
+  try {
+    let request = supabase
+      .from('case_bookings')
+      .select(CASE_WITH_HISTORY_SELECT, query.cursor ? undefined : { count: 'exact' })
+      .order(sort.column, { ascending: sort.ascending })
+      .order(CASE_BOOKINGS_FIELDS.id, { ascending: sort.ascending })
+      .limit(query.pageSize + 1); // One extra row tells whether there is a next page
+
+    if (query.country) {
+      request = request.in(CASE_BOOKINGS_FIELDS.country, getCountryValues(query.country));
+    }
+    if (query.caseIds) {
+      request = request.in(CASE_BOOKINGS_FIELDS.id, query.caseIds);
+    }
+    if (query.excludedStatuses && query.excludedStatuses.length > 0) {
+      request = request.not(CASE_BOOKINGS_FIELDS.status, 'in', `(${query.excludedStatuses.map(quoteFilterValue).join(',')})`);
+    }
+    if (scope.countries) {
+      request = request.in(CASE_BOOKINGS_FIELDS.country, scope.countries);
+    }
+    if (scope.statuses) {
+      request = request.in(CASE_BOOKINGS_FIELDS.status, scope.statuses);
+    }
+    if (scope.departments) {
+      request = request.in(CASE_BOOKINGS_FIELDS.department, scope.departments);
+    }
+
+    if (filters.country) {
+      request = request.in(CASE_BOOKINGS_FIELDS.country, getCountryValues(filters.country));
+    }
+    if (filters.status) {
+      request = request.eq(CASE_BOOKINGS_FIELDS.status, filters.status);
+    }
+    if (filters.hospital) {
+      request = request.eq(CASE_BOOKINGS_FIELDS.hospital, filters.hospital);
+    }
+    if (filters.department) {
+      request = request.eq(CASE_BOOKINGS_FIELDS.department, filters.department);
+    }
+    if (filters.submitter) {
+      request = request.eq(CASE_BOOKINGS_FIELDS.submittedBy, filters.submitter);
+    }
+    if (filters.dateFrom) {
+      request = request.gte(CASE_BOOKINGS_FIELDS.dateOfSurgery, filters.dateFrom);
+    }
+    if (filters.dateTo) {
+      request = request.lte(CASE_BOOKINGS_FIELDS.dateOfSurgery, filters.dateTo);
+    }
+
+    // Search and the keyset each need an or() group - PostgREST ANDs separate groups
+    const searchCondition = buildCaseSearchCondition(filters.search);
+    if (searchCondition) {
+      request = request.or(searchCondition);
+    }
+    if (query.cursor) {
+      request = request.or(buildKeysetCondition(query.cursor, sortOrder));
+    }
+
+    const { data, error, count } = await request;
+
+    if (error) {
+      throw error;
+    }
+
+    const rows = data || [];
+    const pageRows = rows.slice(0, query.pageSize);
+    const lastRow: any = pageRows[pageRows.length - 1];
+
+    return {
+      cases: pageRows.map(mapSupabaseCaseRow),
+      nextCursor: rows.length > query.pageSize && lastRow
+        ? { sortValue: lastRow[sort.column], id: lastRow[CASE_BOOKINGS_FIELDS.id] }
+        : null,
+      totalCount: count ?? null
+    };
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Every case in the country and scope not in one of the excluded statuses, with only
+ * the fields SLAs are evaluated from
+ */
+export const getSlaWatchCases = async (
+  country: string | undefined,
+  scope: CaseAccessScope,
+  excludedStatuses: CaseStatus[]
+): Promise<SlaWatchCase[]> => {
+  const countries = getScopedCountryValues(country, scope);
+  if (countries && countries.length === 0) {
+    return [];
+  }
+
+  try {
+    const watchCases: SlaWatchCase[] = [];
+    for (let from = 0; ; from += SLA_WATCH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .rpc('case_sla_watch', {
+          p_countries: countries,
+          p_statuses: scope.statuses || null,
+          p_departments: scope.departments || null,
+          p_excluded_statuses: excludedStatuses
+        })
+        .range(from, from + SLA_WATCH_PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      const rows: any[] = data || [];
+      rows.forEach(row => watchCases.push({
+        id: row.id,
+        country: row.country,
+        status: row.status,
+        dateOfSurgery: row.date_of_surgery,
+        timeOfProcedure: row.time_of_procedure || undefined,
+        statusHistory: Object.entries(row.status_entered || {}).map(([status, timestamp]): StatusHistory => ({
+          status: status as CaseStatus,
+          timestamp: timestamp as string,
+          processedBy: ''
+        }))
+      }));
+
+      if (rows.length < SLA_WATCH_PAGE_SIZE) {
+        return watchCases;
+      }
+    }
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Submitters and hospitals for the filter dropdowns - the distinct values across every
+ * case in the country and scope
+ */
+export const getCaseFilterOptions = async (country: string | undefined, scope: CaseAccessScope = {}): Promise<CaseFilterValues> => {
+  const countries = getScopedCountryValues(country, scope);
+  if (countries && countries.length === 0) {
+    return { submitters: [], hospitals: [] };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('case_filter_options', {
+      p_countries: countries,
+      p_statuses: scope.statuses || null,
+      p_departments: scope.departments || null
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      submitters: data?.submitters || [],
+      hospitals: data?.hospitals || []
+    };
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Listen for newly booked cases - returns the unsubscribe function
+ */
+export const subscribeToCaseInserts = (onInsert: (caseItem: CaseBooking) => void): (() => void) => {
+  const channel = supabase
+    .channel(`case_inserts_${Math.random().toString(36).substr(2, 9)}`)
+    .on(
+      'postgres_changes' as any,
+      { event: 'INSERT', schema: 'public', table: 'case_bookings' },
+      (payload: any) => {
+        if (payload.new) {
+          onInsert(mapSupabaseCaseRow(payload.new));
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
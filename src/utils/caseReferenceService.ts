@@ -0,0 +1,293 @@
+/**
+ * Case Reference Service - Atomic, per-country configurable reference numbers
+ *
+ * Counters live in case_counters (one row per country + year). Allocation is a
+ * compare-and-swap: the update only succeeds if current_counter still holds the
+ * value we read, so two concurrent bookings can never receive the same number.
+ * Lost races and references that already exist are retried.
+ *
+ * The format is stored per country in system_settings. Changing it only affects
+ * new cases - existing references are never rewritten or re-validated.
+ */
+
+import { supabase } from '../lib/supabase';
+import { normalizeCountry, getLegacyCountryCode } from './countryUtils';
+import { CASE_BOOKINGS_FIELDS, CASE_COUNTERS_FIELDS } from './fieldMappings';
+import { countrySettingsStore } from './countrySettingsStore';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type CaseReferenceYearFormat = 'YYYY' | 'YY' | 'none';
+
+export type CaseReferenceCountrySegment = 'name' | 'code' | 'none';
+
+export interface CaseReferenceFormat {
+  prefix: string;
+  separator: string;
+  countrySegment: CaseReferenceCountrySegment;
+  yearFormat: CaseReferenceYearFormat;
+  padding: number;
+  includeDepartmentCode: boolean;
+  /** Department name → code overrides; unmapped departments use their initials */
+  departmentCodes: Record<string, string>;
+}
+
+/**
+ * Matches the historical TMC-{Country}-{YYYY}-{NNN} format
+ */
+export const DEFAULT_CASE_REFERENCE_FORMAT: CaseReferenceFormat = {
+  prefix: 'TMC',
+  separator: '-',
+  countrySegment: 'name',
+  yearFormat: 'YYYY',
+  padding: 3,
+  includeDepartmentCode: false,
+  departmentCodes: {}
+};
+
+const REFERENCE_FORMAT_SETTING_PREFIX = 'case_reference_format_';
+const MAX_ALLOCATION_ATTEMPTS = 5;
+const MAX_PADDING = 8;
+
+// Counters for formats without a year never reset, so they share a fixed bucket
+const NO_YEAR_COUNTER_BUCKET = 0;
+
+// ================================================
+// FORMATTING
+// ================================================
+
+/**
+ * Department code used in references - explicit mapping, else initials (max 4 chars)
+ */
+export const getDepartmentCode = (department: string, format: CaseReferenceFormat): string => {
+  const trimmed = department.trim();
+  const mapped = format.departmentCodes[trimmed];
+  if (mapped && mapped.trim()) {
+    return mapped.trim().toUpperCase();
+  }
+
+  const words = trimmed.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const initials = words.length > 1
+    ? words.map(word => word[0]).join('')
+    : (words[0] || '').slice(0, 3);
+
+  return initials.slice(0, 4).toUpperCase();
+};
+
+/**
+ * Counter bucket for a format - the year, or a fixed bucket when the year is not shown
+ */
+export const getCounterYear = (format: CaseReferenceFormat, date: Date = new Date()): number =>
+  format.yearFormat === 'none' ? NO_YEAR_COUNTER_BUCKET : date.getFullYear();
+
+/**
+ * Build a reference from its parts - pure, used for both generation and previews
+ */
+export const formatCaseReference = (params: {
+  format: CaseReferenceFormat;
+  country: string;
+  counter: number;
+  department?: string;
+  date?: Date;
+}): string => {
+  const { format, country, counter, department, date = new Date() } = params;
+  const segments: string[] = [];
+
+  if (format.prefix.trim()) {
+    segments.push(format.prefix.trim());
+  }
+
+  if (format.countrySegment === 'name') {
+    segments.push(country);
+  } else if (format.countrySegment === 'code') {
+    segments.push(getLegacyCountryCode(normalizeCountry(country)) || country);
+  }
+
+  if (format.yearFormat === 'YYYY') {
+    segments.push(String(date.getFullYear()));
+  } else if (format.yearFormat === 'YY') {
+    segments.push(String(date.getFullYear()).slice(-2));
+  }
+
+  if (format.includeDepartmentCode && department && department.trim()) {
+    const code = getDepartmentCode(department, format);
+    if (code) {
+      segments.push(code);
+    }
+  }
+
+  const padding = Math.min(MAX_PADDING, Math.max(1, Math.floor(format.padding)));
+  segments.push(counter.toString().padStart(padding, '0'));
+
+  return segments.join(format.separator);
+};
+
+/**
+ * Structural checks before a format is saved
+ */
+export const validateCaseReferenceFormat = (format: CaseReferenceFormat): string[] => {
+  const errors: string[] = [];
+
+  if (!/^[A-Za-z0-9]*$/.test(format.prefix.trim())) {
+    errors.push('Prefix may only contain letters and numbers');
+  }
+  if (!['-', '_', '/', ''].includes(format.separator)) {
+    errors.push('Separator must be "-", "_", "/" or empty');
+  }
+  if (!Number.isInteger(format.padding) || format.padding < 1 || format.padding > MAX_PADDING) {
+    errors.push(`Padding must be between 1 and ${MAX_PADDING}`);
+  }
+  if (!format.prefix.trim() && format.countrySegment === 'none' && format.yearFormat === 'none') {
+    errors.push('At least one of prefix, country or year is required');
+  }
+
+  return errors;
+};
+
+// ================================================
+// SETTINGS
+// ================================================
+
+const referenceFormatStore = countrySettingsStore<CaseReferenceFormat>({
+  prefix: REFERENCE_FORMAT_SETTING_PREFIX,
+  label: 'Case reference number format',
+  defaults: () => DEFAULT_CASE_REFERENCE_FORMAT,
+  validate: validateCaseReferenceFormat,
+  normalize: format => ({ ...format, prefix: format.prefix.trim() })
+});
+
+/**
+ * Get the reference format for a country - stored format or the historical default
+ */
+export const getCaseReferenceFormat = (country: string): Promise<CaseReferenceFormat> =>
+  referenceFormatStore.get(country);
+
+/**
+ * Save the reference format for a country (applies to new cases only)
+ */
+export const saveCaseReferenceFormat = async (country: string, format: CaseReferenceFormat): Promise<void> => {
+  await referenceFormatStore.save(country, format);
+};
+
+// ================================================
+// ALLOCATION
+// ================================================
+
+/**
+ * Counter tables sharing the case_counters layout (country, year, current_counter)
+ */
+export type CountryCounterTable = 'case_counters' | 'delivery_order_counters' | 'billing_batch_counters';
+
+/**
+ * Atomically take the next counter value for a country + year bucket.
+ * The update is conditional on the value we read; if another booking got there
+ * first no row matches and we re-read and try again.
+ */
+export const allocateCountryCounter = async (
+  table: CountryCounterTable,
+  country: string,
+  year: number
+): Promise<number> => {
+  for (let attempt = 1; attempt <= MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const { data: counterRow, error: readError } = await supabase
+      .from(table)
+      .select(CASE_COUNTERS_FIELDS.currentCounter)
+      .eq(CASE_COUNTERS_FIELDS.country, country)
+      .eq(CASE_COUNTERS_FIELDS.year, year)
+      .maybeSingle();
+
+    if (readError) {
+      throw readError;
+    }
+
+    if (!counterRow) {
+      const { error: insertError } = await supabase
+        .from(table)
+        .insert([{
+          [CASE_COUNTERS_FIELDS.country]: country,
+          [CASE_COUNTERS_FIELDS.year]: year,
+          [CASE_COUNTERS_FIELDS.currentCounter]: 1
+        }]);
+
+      if (!insertError) {
+        return 1;
+      }
+      // 23505 = another booking created the row first - retry against it
+      if (insertError.code !== '23505') {
+        throw insertError;
+      }
+      continue;
+    }
+
+    const currentCounter: number | null = counterRow.current_counter;
+    const nextCounter = (currentCounter || 0) + 1;
+
+    let updateQuery = supabase
+      .from(table)
+      .update({
+        [CASE_COUNTERS_FIELDS.currentCounter]: nextCounter,
+        [CASE_COUNTERS_FIELDS.updatedAt]: new Date().toISOString()
+      })
+      .eq(CASE_COUNTERS_FIELDS.country, country)
+      .eq(CASE_COUNTERS_FIELDS.year, year);
+
+    updateQuery = currentCounter === null
+      ? updateQuery.is(CASE_COUNTERS_FIELDS.currentCounter, null)
+      : updateQuery.eq(CASE_COUNTERS_FIELDS.currentCounter, currentCounter);
+
+    const { data: updatedRows, error: updateError } = await updateQuery.select(CASE_COUNTERS_FIELDS.currentCounter);
+
+    if (updateError) {
+      throw updateError;
+    }
+    if (updatedRows && updatedRows.length > 0) {
+      return nextCounter;
+    }
+
+    console.log(`🔁 COUNTER - ${table} race for ${country}/${year}, retrying (attempt ${attempt})`);
+  }
+
+  throw new Error(`Could not allocate the next ${table} number for ${country} after ${MAX_ALLOCATION_ATTEMPTS} attempts`);
+};
+
+export const allocateCaseCounter = (country: string, year: number): Promise<number> =>
+  allocateCountryCounter('case_counters', country, year);
+
+const caseReferenceExists = async (caseReferenceNumber: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('case_bookings')
+    .select(CASE_BOOKINGS_FIELDS.id)
+    .eq(CASE_BOOKINGS_FIELDS.caseReferenceNumber, caseReferenceNumber)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return !!data;
+};
+
+/**
+ * Allocate the next unused reference for a country (and department, if the format uses it).
+ * Skips numbers that already exist, e.g. after a format change or a manually reset counter.
+ */
+export const generateCaseReference = async (country: string, department?: string): Promise<string> => {
+  const normalizedCountry = normalizeCountry(country.trim());
+  const format = await getCaseReferenceFormat(normalizedCountry);
+  const now = new Date();
+  const year = getCounterYear(format, now);
+
+  for (let attempt = 1; attempt <= MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const counter = await allocateCaseCounter(normalizedCountry, year);
+    const reference = formatCaseReference({ format, country: normalizedCountry, counter, department, date: now });
+
+    if (!(await caseReferenceExists(reference))) {
+      return reference;
+    }
+
+    console.log(`🔁 CASE REFERENCE - ${reference} already exists, allocating the next number`);
+  }
+
+  throw new Error(`Could not find an unused case reference number for ${normalizedCountry}`);
+};
@@ -0,0 +1,152 @@
+/**
+ * Case Reschedule Service - Drag-and-drop date/time moves from BookingCalendar
+ *
+ * A drop is saved as an ordinary amendment through realTimeStorage.amendCase ->
+ * amendSupabaseCase, so amendment limits, operations approval, amendment_history
+ * and notifications behave exactly as for AmendmentForm. Availability is checked
+ * with the same set/implant conflict rules before anything is written.
+ */
+
+import { CaseBooking, CaseStatus } from '../types';
+import { hasPermission, PERMISSION_ACTIONS } from './permissions';
+import { CASE_STATUSES } from '../constants/statuses';
+import { parseProcedureTime } from './icsCalendarService';
+import {
+  checkInventoryAvailability,
+  buildRequestedQuantities,
+  type InventoryAvailabilityResult
+} from './inventoryAvailabilityService';
+import type { AmendmentOutcome } from './amendmentApprovalService';
+
+export interface RescheduleTarget {
+  dateOfSurgery: string;
+  /** Hour row the case was dropped on - omitted for day cells and the TBD row */
+  hour?: number;
+}
+
+export interface RescheduleChanges {
+  dateOfSurgery: string;
+  timeOfProcedure?: string;
+}
+
+// Statuses a case can no longer be moved from
+const NON_RESCHEDULABLE_STATUSES: CaseStatus[] = [
+  CASE_STATUSES.CASE_CANCELLED,
+  CASE_STATUSES.CASE_COMPLETED,
+  CASE_STATUSES.TO_BE_BILLED
+];
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Whether the user may drag a case - same permission as the Amend button
+ */
+export const canRescheduleCase = (caseItem: Pick<CaseBooking, 'status'>, role?: string): boolean =>
+  !!role &&
+  hasPermission(role, PERMISSION_ACTIONS.AMEND_CASE) &&
+  !NON_RESCHEDULABLE_STATUSES.includes(caseItem.status);
+
+/**
+ * Amendment fields for a drop, keeping the minutes when only the hour changes.
+ * Returns null when the case would not move.
+ */
+export const buildRescheduleChanges = (
+  caseItem: Pick<CaseBooking, 'dateOfSurgery' | 'timeOfProcedure'>,
+  target: RescheduleTarget
+): RescheduleChanges | null => {
+  const changes: RescheduleChanges = { dateOfSurgery: target.dateOfSurgery };
+
+  if (target.hour !== undefined) {
+    const minutes = parseProcedureTime(caseItem.timeOfProcedure)?.minutes || 0;
+    const time = `${target.hour.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+    if (time !== caseItem.timeOfProcedure) {
+      changes.timeOfProcedure = time;
+    }
+  }
+
+  if (changes.dateOfSurgery === caseItem.dateOfSurgery && changes.timeOfProcedure === undefined) {
+    return null;
+  }
+  return changes;
+};
+
+/**
+ * "20/10/2026 14:30" style label for the reason prompt
+ */
+export const formatScheduleLabel = (dateOfSurgery: string, timeOfProcedure?: string): string => {
+  const [year, month, day] = dateOfSurgery.split('-');
+  return `${day}/${month}/${year}${timeOfProcedure ? ` ${timeOfProcedure}` : ''}`;
+};
+
+// ================================================
+// SAVE
+// ================================================
+
+/**
+ * Set/implant conflicts on the new date, ignoring the case's own booking
+ */
+export const checkRescheduleAvailability = async (
+  caseItem: CaseBooking,
+  changes: RescheduleChanges
+): Promise<InventoryAvailabilityResult> =>
+  checkInventoryAvailability({
+    country: caseItem.country,
+    dateOfSurgery: changes.dateOfSurgery,
+    requested: buildRequestedQuantities(
+      caseItem.surgerySetSelection || [],
+      caseItem.implantBox || [],
+      caseItem.quantities || {}
+    ),
+    excludeCaseId: caseItem.id
+  });
+
+/**
+ * Save a drop as an amendment and audit it like a form amendment. The caller sends the
+ * 'case-amended' notification, as CasesList does for the form.
+ */
+export const rescheduleCase = async (
+  caseItem: CaseBooking,
+  changes: RescheduleChanges,
+  reason: { amendmentReason: string; amendmentOverrideReason?: string }
+): Promise<AmendmentOutcome | false> => {
+  try {
+    if (!reason.amendmentReason.trim()) {
+      throw new Error('Amendment reason is required');
+    }
+
+    const { getCurrentUserSync } = await import('./authCompat');
+    const currentUser = getCurrentUserSync();
+    if (!currentUser || !canRescheduleCase(caseItem, currentUser.role)) {
+      throw new Error('You do not have permission to reschedule this case');
+    }
+
+    const { amendCase } = await import('./realTimeStorage');
+    const outcome = await amendCase(
+      caseItem.id,
+      changes,
+      {
+        reason: reason.amendmentReason.trim(),
+        ...(reason.amendmentOverrideReason?.trim() ? { overrideReason: reason.amendmentOverrideReason.trim() } : {})
+      }
+    );
+
+    if (outcome === 'applied') {
+      const { auditCaseAmended } = await import('./auditService');
+      await auditCaseAmended(
+        currentUser.name,
+        currentUser.id,
+        currentUser.role,
+        caseItem.caseReferenceNumber,
+        Object.keys(changes),
+        caseItem.country,
+        caseItem.department
+      );
+    }
+
+    return outcome;
+  } catch (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,262 @@
+/**
+ * Case Search Service - Global search across cases, status history, amendments and attachments
+ *
+ * Searchable text lives in the case_search_index table: case fields (reference, DO number,
+ * hospital, doctor, procedure, special instructions), status history details, amendment
+ * reasons and attachment file names. Database triggers keep it current
+ * (supabase/migrations/20261018130000_case_search_index.sql). The search_cases() database
+ * function matches it with trigram similarity, so a misspelled doctor's name still finds
+ * the case. It applies the user's scope and limits by case, returning one row per
+ * matching text of the best cases. Rows are grouped here into one result per case, and
+ * the matched words are highlighted with the same typo tolerance the database applies.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseStatus } from '../types';
+import { CASE_BOOKINGS_FIELDS, CASE_SEARCH_INDEX_FIELDS } from './fieldMappings';
+import { CaseAccessScope } from './caseQueryService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type CaseSearchSource = 'case' | 'status_history' | 'amendment' | 'attachment';
+
+export interface CaseSearchMatch {
+  source: CaseSearchSource;
+  field: string;
+  text: string;
+  score: number;
+}
+
+export interface CaseSearchResult {
+  caseId: string;
+  caseReferenceNumber: string;
+  hospital: string;
+  doctorName?: string;
+  dateOfSurgery: string;
+  status: CaseStatus;
+  department: string;
+  country: string;
+  /** Best match score - trigram word similarity, 0-1 */
+  score: number;
+  matches: CaseSearchMatch[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// ================================================
+// CONSTANTS
+// ================================================
+
+export const MIN_SEARCH_LENGTH = 2;
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+export const CASE_SEARCH_SOURCE_LABELS: Record<CaseSearchSource, string> = {
+  case: 'Case',
+  status_history: 'Status History',
+  amendment: 'Amendment',
+  attachment: 'Attachment'
+};
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Lowercased, de-duplicated words of a search query - single characters are dropped
+ */
+export const getSearchTerms = (query: string): string[] =>
+  Array.from(new Set(
+    (query.toLowerCase().match(/\w+/g) || []).filter(term => term.length >= MIN_SEARCH_LENGTH)
+  ));
+
+/**
+ * Levenshtein distance between two words
+ */
+export const getEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Typos allowed for a search term - none for short terms, where one edit changes the word
+ */
+const getAllowedTypos = (term: string): number => {
+  if (term.length <= 3) return 0;
+  if (term.length <= 6) return 1;
+  return 2;
+};
+
+/**
+ * Whether a word matches a search term - contains it, or is within the allowed typos
+ * of it (comparing against the start of the word, so partly typed words match too)
+ */
+export const termMatchesWord = (term: string, word: string): boolean => {
+  const lowerWord = word.toLowerCase();
+  if (lowerWord.includes(term)) {
+    return true;
+  }
+
+  const allowedTypos = getAllowedTypos(term);
+  if (allowedTypos === 0) {
+    return false;
+  }
+  return getEditDistance(term, lowerWord) <= allowedTypos ||
+    (lowerWord.length > term.length && getEditDistance(term, lowerWord.slice(0, term.length)) <= allowedTypos);
+};
+
+/**
+ * Split text into highlighted and plain segments - words matching any term are highlighted
+ */
+export const highlightSearchText = (text: string, terms: string[]): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  const push = (segmentText: string, highlighted: boolean) => {
+    if (!segmentText) return;
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === highlighted) {
+      last.text += segmentText;
+    } else {
+      segments.push({ text: segmentText, highlighted });
+    }
+  };
+
+  const wordPattern = /\w+/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    push(text.slice(lastIndex, match.index), false);
+    push(match[0], terms.some(term => termMatchesWord(term, match![0])));
+    lastIndex = match.index + match[0].length;
+  }
+  push(text.slice(lastIndex), false);
+
+  return segments;
+};
+
+/**
+ * Shorten long text to the part around the first matching word
+ */
+export const getSearchSnippet = (text: string, terms: string[], radius = 60): string => {
+  if (text.length <= radius * 2) {
+    return text;
+  }
+
+  const wordPattern = /\w+/g;
+  let matchIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    if (terms.some(term => termMatchesWord(term, match![0]))) {
+      matchIndex = match.index;
+      break;
+    }
+  }
+
+  const start = Math.max(matchIndex - radius, 0);
+  const end = Math.min(start + radius * 2, text.length);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Group search_cases() rows into one result per case, best match first.
+ * Statuses and departments outside the user's scope are dropped - search_cases()
+ * already leaves them out, this keeps the results right for any rows passed in.
+ */
+export const groupSearchRows = (rows: any[], scope: CaseAccessScope = {}): CaseSearchResult[] => {
+  const resultsByCase = new Map<string, CaseSearchResult>();
+
+  rows.forEach(row => {
+    const caseId = row[CASE_SEARCH_INDEX_FIELDS.caseId];
+    const status = row[CASE_BOOKINGS_FIELDS.status];
+    const department = row[CASE_BOOKINGS_FIELDS.department];
+    if (scope.statuses && !scope.statuses.includes(status)) return;
+    if (scope.departments && !scope.departments.includes(department)) return;
+
+    let result = resultsByCase.get(caseId);
+    if (!result) {
+      result = {
+        caseId,
+        caseReferenceNumber: row[CASE_BOOKINGS_FIELDS.caseReferenceNumber],
+        hospital: row[CASE_BOOKINGS_FIELDS.hospital],
+        doctorName: row[CASE_BOOKINGS_FIELDS.doctorName] || undefined,
+        dateOfSurgery: row[CASE_BOOKINGS_FIELDS.dateOfSurgery],
+        status,
+        department,
+        country: row[CASE_SEARCH_INDEX_FIELDS.country],
+        score: 0,
+        matches: []
+      };
+      resultsByCase.set(caseId, result);
+    }
+
+    const match: CaseSearchMatch = {
+      source: row[CASE_SEARCH_INDEX_FIELDS.source],
+      field: row[CASE_SEARCH_INDEX_FIELDS.field],
+      text: row[CASE_SEARCH_INDEX_FIELDS.content] || '',
+      score: Number(row[CASE_SEARCH_INDEX_FIELDS.score]) || 0
+    };
+    const isDuplicate = result.matches.some(existing =>
+      existing.source === match.source && existing.field === match.field && existing.text === match.text
+    );
+    if (!isDuplicate) {
+      result.matches.push(match);
+      result.score = Math.max(result.score, match.score);
+    }
+  });
+
+  const results = Array.from(resultsByCase.values());
+  results.forEach(result => result.matches.sort((a, b) => b.score - a.score));
+  // Equal scores show the most recent surgery first
+  return results.sort((a, b) => b.score - a.score || (b.dateOfSurgery || '').localeCompare(a.dateOfSurgery || ''));
+};
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+/**
+ * Search the case index - empty when the query has no searchable words
+ */
+export const searchCases = async (
+  query: string,
+  scope: CaseAccessScope = {},
+  limit = DEFAULT_SEARCH_LIMIT
+): Promise<CaseSearchResult[]> => {
+  if (getSearchTerms(query).length === 0) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('search_cases', {
+      search_query: query.trim(),
+      country_filter: scope.countries || null,
+      status_filter: scope.statuses || null,
+      department_filter: scope.departments || null,
+      result_limit: limit
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return groupSearchRows(data || [], scope).slice(0, limit);
+  } catch (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,458 @@
+/**
+ * Case Series Service - Booking templates and recurring case series
+ *
+ * A booking template is a named copy of the booking form (doctor, procedure, sets and
+ * quantities) stored per country in booking_templates. A recurrence rule - weekly for
+ * N weeks or a list of specific dates - books one case per date through
+ * saveSupabaseCase, so every case gets its own reference number. Generated cases carry
+ * case_bookings.series_id pointing at their case_series row, which lets the upcoming
+ * cases of a series be amended or cancelled together.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking, CaseStatus } from '../types';
+import { CASE_STATUSES } from '../constants/statuses';
+import { normalizeCountry } from './countryUtils';
+import { formatDate } from './dateFormat';
+import { BOOKING_TEMPLATES_FIELDS, CASE_BOOKINGS_FIELDS, CASE_SERIES_FIELDS } from './fieldMappings';
+import { saveSupabaseCase, amendSupabaseCase, updateSupabaseCaseStatus } from './supabaseCaseService';
+import { saveCaseQuantities, type CaseQuantity } from './unifiedDataService';
+import type { AmendCaseOptions } from './amendmentApprovalService';
+import { buildCancellationDetails } from './caseCancellationService';
+import { toDateKey } from './calendarViewUtils';
+
+// ================================================
+// TYPES
+// ================================================
+
+export interface BookingTemplate {
+  id: string;
+  country: string;
+  name: string;
+  hospital: string;
+  department: string;
+  doctorId: string;
+  doctorName: string;
+  procedureType: string;
+  procedureName: string;
+  timeOfProcedure: string;
+  surgerySetSelection: string[];
+  implantBox: string[];
+  quantities: Record<string, number>;
+  specialInstruction: string;
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+export type BookingTemplateDraft = Omit<BookingTemplate, 'id' | 'createdBy' | 'updatedAt'> & { id?: string };
+
+export type RecurrenceRule =
+  | { type: 'weekly'; startDate: string; occurrences: number; intervalWeeks: number }
+  | { type: 'dates'; dates: string[] };
+
+export type CaseSeriesStatus = 'active' | 'cancelled';
+
+export interface CaseSeries {
+  id: string;
+  country: string;
+  recurrence: RecurrenceRule;
+  templateId?: string;
+  status: CaseSeriesStatus;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type NewSeriesCase = Omit<CaseBooking, 'id' | 'caseReferenceNumber' | 'submittedAt' | 'statusHistory' | 'dateOfSurgery'>;
+
+export interface SeriesBookingResult {
+  series: CaseSeries;
+  created: CaseBooking[];
+  failedDates: string[];
+}
+
+export interface SeriesUpdateResult {
+  updated: string[];
+  failed: Array<{ caseReferenceNumber: string; reason: string }>;
+}
+
+export interface SeriesAmendResult extends SeriesUpdateResult {
+  /** Cases past order preparation - the change waits for operations approval */
+  pendingApproval: string[];
+}
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/** Cases that have not been delivered yet can still be changed with their series */
+export const SERIES_EDITABLE_STATUSES: CaseStatus[] = [
+  CASE_STATUSES.CASE_BOOKED,
+  CASE_STATUSES.LOANER_RECEIVED,
+  CASE_STATUSES.ORDER_PREPARATION,
+  CASE_STATUSES.ORDER_PREPARED,
+  CASE_STATUSES.SALES_APPROVAL
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Surgery dates produced by a rule, sorted and without duplicates
+ */
+export const generateRecurrenceDates = (rule: RecurrenceRule): string[] => {
+  if (rule.type === 'weekly') {
+    if (!DATE_PATTERN.test(rule.startDate)) return [];
+    const count = Math.min(Math.max(Math.floor(rule.occurrences), 0), MAX_SERIES_OCCURRENCES);
+    const interval = Math.max(Math.floor(rule.intervalWeeks), 1);
+    return Array.from({ length: count }, (_, i) => addDays(rule.startDate, i * 7 * interval));
+  }
+
+  return Array.from(new Set(rule.dates.filter(date => DATE_PATTERN.test(date)))).sort();
+};
+
+export const validateRecurrenceRule = (rule: RecurrenceRule, today: string): string[] => {
+  const errors: string[] = [];
+
+  if (rule.type === 'weekly') {
+    if (!DATE_PATTERN.test(rule.startDate)) {
+      errors.push('A start date is required');
+    }
+    if (!Number.isInteger(rule.occurrences) || rule.occurrences < 2 || rule.occurrences > MAX_SERIES_OCCURRENCES) {
+      errors.push(`Number of cases must be between 2 and ${MAX_SERIES_OCCURRENCES}`);
+    }
+    if (!Number.isInteger(rule.intervalWeeks) || rule.intervalWeeks < 1) {
+      errors.push('Repeat interval must be at least 1 week');
+    }
+  } else if (generateRecurrenceDates(rule).length < 2) {
+    errors.push('Pick at least two dates');
+  } else if (generateRecurrenceDates(rule).length > MAX_SERIES_OCCURRENCES) {
+    errors.push(`A series can have at most ${MAX_SERIES_OCCURRENCES} cases`);
+  }
+
+  const dates = generateRecurrenceDates(rule);
+  if (dates.some(date => date < today)) {
+    errors.push('Series dates cannot be in the past');
+  }
+
+  return errors;
+};
+
+export const describeRecurrenceRule = (rule: RecurrenceRule): string => {
+  const dates = generateRecurrenceDates(rule);
+  if (rule.type === 'weekly') {
+    const every = rule.intervalWeeks > 1 ? `Every ${rule.intervalWeeks} weeks` : 'Every week';
+    return `${every}, ${dates.length} cases from ${formatDate(rule.startDate)}`;
+  }
+  return `${dates.length} specific dates`;
+};
+
+/**
+ * Cases of a series that are still ahead and not yet delivered
+ */
+export const getUpcomingSeriesCases = <T extends Pick<CaseBooking, 'seriesId' | 'dateOfSurgery' | 'status'>>(
+  cases: T[],
+  seriesId: string,
+  today: string
+): T[] =>
+  cases
+    .filter(caseItem => caseItem.seriesId === seriesId)
+    .filter(caseItem => caseItem.dateOfSurgery >= today && SERIES_EDITABLE_STATUSES.includes(caseItem.status))
+    .sort((a, b) => a.dateOfSurgery.localeCompare(b.dateOfSurgery));
+
+export const validateBookingTemplate = (draft: BookingTemplateDraft): string[] => {
+  const errors: string[] = [];
+  if (!draft.name.trim()) {
+    errors.push('Template name is required');
+  }
+  if (!draft.department || !draft.doctorId || !draft.procedureType) {
+    errors.push('Select a department, doctor and procedure type before saving a template');
+  }
+  return errors;
+};
+
+/**
+ * The template's sets and quantities, limited to what is still configured
+ * for the doctor and procedure
+ */
+export const applyTemplateSelection = (
+  template: Pick<BookingTemplate, 'surgerySetSelection' | 'implantBox' | 'quantities'>,
+  availableSets: Array<{ item_type: string; item_name: string }>
+): { surgerySetSelection: string[]; implantBox: string[]; quantities: Record<string, number> } => {
+  const isAvailable = (itemType: string, name: string) =>
+    availableSets.some(set => set.item_type === itemType && set.item_name === name);
+
+  const surgerySetSelection = template.surgerySetSelection.filter(name => isAvailable('surgery_set', name));
+  const implantBox = template.implantBox.filter(name => isAvailable('implant_box', name));
+  const quantities: Record<string, number> = {};
+  [...surgerySetSelection, ...implantBox].forEach(name => {
+    quantities[name] = template.quantities[name] || 1;
+  });
+
+  return { surgerySetSelection, implantBox, quantities };
+};
+
+const mapBookingTemplate = (row: any): BookingTemplate => ({
+  id: row.id,
+  country: row.country,
+  name: row.name,
+  hospital: row.hospital || '',
+  department: row.department,
+  doctorId: row.doctor_id,
+  doctorName: row.doctor_name || '',
+  procedureType: row.procedure_type,
+  procedureName: row.procedure_name || '',
+  timeOfProcedure: row.time_of_procedure || '',
+  surgerySetSelection: row.surgery_set_selection || [],
+  implantBox: row.implant_box || [],
+  quantities: row.quantities || {},
+  specialInstruction: row.special_instruction || '',
+  createdBy: row.created_by || undefined,
+  updatedAt: row.updated_at || undefined
+});
+
+const mapCaseSeries = (row: any): CaseSeries => ({
+  id: row.id,
+  country: row.country,
+  recurrence: row.recurrence,
+  templateId: row.template_id || undefined,
+  status: row.status,
+  createdBy: row.created_by,
+  createdAt: row.created_at
+});
+
+// ================================================
+// TEMPLATES
+// ================================================
+
+/**
+ * Booking templates for a country, sorted by name
+ */
+export const getBookingTemplates = async (country: string): Promise<BookingTemplate[]> => {
+  const { data, error } = await supabase
+    .from('booking_templates')
+    .select('*')
+    .eq(BOOKING_TEMPLATES_FIELDS.country, normalizeCountry(country))
+    .order(BOOKING_TEMPLATES_FIELDS.name);
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).map(mapBookingTemplate);
+};
+
+export const saveBookingTemplate = async (draft: BookingTemplateDraft, savedBy: string): Promise<BookingTemplate> => {
+  const errors = validateBookingTemplate(draft);
+  if (errors.length > 0) {
+    throw new Error(errors.join('. '));
+  }
+
+  try {
+    const row = {
+      [BOOKING_TEMPLATES_FIELDS.country]: normalizeCountry(draft.country),
+      [BOOKING_TEMPLATES_FIELDS.name]: draft.name.trim(),
+      [BOOKING_TEMPLATES_FIELDS.hospital]: draft.hospital || null,
+      [BOOKING_TEMPLATES_FIELDS.department]: draft.department,
+      [BOOKING_TEMPLATES_FIELDS.doctorId]: draft.doctorId,
+      [BOOKING_TEMPLATES_FIELDS.doctorName]: draft.doctorName,
+      [BOOKING_TEMPLATES_FIELDS.procedureType]: draft.procedureType,
+      [BOOKING_TEMPLATES_FIELDS.procedureName]: draft.procedureName || null,
+      [BOOKING_TEMPLATES_FIELDS.timeOfProcedure]: draft.timeOfProcedure || null,
+      [BOOKING_TEMPLATES_FIELDS.surgerySetSelection]: draft.surgerySetSelection,
+      [BOOKING_TEMPLATES_FIELDS.implantBox]: draft.implantBox,
+      [BOOKING_TEMPLATES_FIELDS.quantities]: draft.quantities,
+      [BOOKING_TEMPLATES_FIELDS.specialInstruction]: draft.specialInstruction || null,
+      [BOOKING_TEMPLATES_FIELDS.updatedAt]: new Date().toISOString()
+    };
+
+    const { data, error } = draft.id
+      ? await supabase.from('booking_templates').update(row).eq(BOOKING_TEMPLATES_FIELDS.id, draft.id).select().single()
+      : await supabase.from('booking_templates').insert([{ ...row, [BOOKING_TEMPLATES_FIELDS.createdBy]: savedBy }]).select().single();
+
+    if (error) {
+      throw error;
+    }
+
+    console.log(`📋 TEMPLATE - Saved "${draft.name}" for ${draft.doctorName} / ${draft.procedureType}`);
+    return mapBookingTemplate(data);
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const deleteBookingTemplate = async (templateId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('booking_templates')
+    .delete()
+    .eq(BOOKING_TEMPLATES_FIELDS.id, templateId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// ================================================
+// SERIES
+// ================================================
+
+/**
+ * Book one case per rule date. Dates that fail are reported instead of
+ * rolling back the cases already booked.
+ */
+export const bookCaseSeries = async (params: {
+  baseCase: NewSeriesCase;
+  quantities: CaseQuantity[];
+  rule: RecurrenceRule;
+  templateId?: string;
+  createdBy: string;
+}): Promise<SeriesBookingResult> => {
+  const { baseCase, quantities, rule, templateId, createdBy } = params;
+  const dates = generateRecurrenceDates(rule);
+
+  try {
+    const { data, error } = await supabase
+      .from('case_series')
+      .insert([{
+        [CASE_SERIES_FIELDS.country]: normalizeCountry(baseCase.country),
+        [CASE_SERIES_FIELDS.recurrence]: rule,
+        [CASE_SERIES_FIELDS.templateId]: templateId || null,
+        [CASE_SERIES_FIELDS.status]: 'active',
+        [CASE_SERIES_FIELDS.createdBy]: createdBy
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const series = mapCaseSeries(data);
+    const created: CaseBooking[] = [];
+    const failedDates: string[] = [];
+
+    for (const dateOfSurgery of dates) {
+      try {
+        const savedCase = await saveSupabaseCase({ ...baseCase, dateOfSurgery, seriesId: series.id });
+        if (quantities.length > 0) {
+          await saveCaseQuantities(savedCase.id, quantities);
+        }
+        created.push(savedCase);
+      } catch (caseError) {
+        console.error(`🔁 SERIES - Failed to book ${dateOfSurgery}:`, caseError);
+        failedDates.push(dateOfSurgery);
+      }
+    }
+
+    if (created.length === 0) {
+      await supabase.from('case_series').delete().eq(CASE_SERIES_FIELDS.id, series.id);
+      throw new Error('None of the series cases could be booked');
+    }
+
+    console.log(`🔁 SERIES - Booked ${created.length}/${dates.length} cases in series ${series.id}`);
+    return { series, created, failedDates };
+  } catch (error) {
+    throw error;
+  }
+};
+
+const getSeriesCases = async (seriesId: string): Promise<Array<Pick<CaseBooking, 'id' | 'caseReferenceNumber' | 'seriesId' | 'dateOfSurgery' | 'status'>>> => {
+  const { data, error } = await supabase
+    .from('case_bookings')
+    .select(`${CASE_BOOKINGS_FIELDS.id}, ${CASE_BOOKINGS_FIELDS.caseReferenceNumber}, ${CASE_BOOKINGS_FIELDS.dateOfSurgery}, ${CASE_BOOKINGS_FIELDS.status}`)
+    .eq(CASE_BOOKINGS_FIELDS.seriesId, seriesId);
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    caseReferenceNumber: row.case_reference_number,
+    seriesId,
+    dateOfSurgery: row.date_of_surgery,
+    status: row.status as CaseStatus
+  }));
+};
+
+const getFailureReason = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Apply the same amendment to the upcoming cases of a series. Each case keeps its
+ * own surgery date; amendment limits and approval thresholds apply per case.
+ */
+export const amendCaseSeries = async (
+  seriesId: string,
+  amendments: Partial<CaseBooking>,
+  amendedBy: string,
+  options: AmendCaseOptions & { excludeCaseId?: string; today?: string } = {}
+): Promise<SeriesAmendResult> => {
+  const { excludeCaseId, today: todayOption, ...amendOptions } = options;
+  const today = todayOption || toDateKey(new Date());
+  const { dateOfSurgery: _, ...seriesAmendments } = amendments;
+  const result: SeriesAmendResult = { updated: [], pendingApproval: [], failed: [] };
+
+  const upcoming = getUpcomingSeriesCases(await getSeriesCases(seriesId), seriesId, today)
+    .filter(caseItem => caseItem.id !== excludeCaseId);
+
+  for (const caseItem of upcoming) {
+    try {
+      const outcome = await amendSupabaseCase(caseItem.id, seriesAmendments, amendedBy, amendOptions);
+      if (outcome === 'applied') {
+        result.updated.push(caseItem.caseReferenceNumber);
+      } else if (outcome === 'pending-approval') {
+        result.pendingApproval.push(caseItem.caseReferenceNumber);
+      }
+    } catch (error) {
+      result.failed.push({ caseReferenceNumber: caseItem.caseReferenceNumber, reason: getFailureReason(error) });
+    }
+  }
+  return result;
+};
+
+/**
+ * Cancel every upcoming case of a series with one reason code and note, and close the series
+ */
+export const cancelCaseSeries = async (
+  seriesId: string,
+  cancelledBy: string,
+  options: { reason: string; note?: string; today?: string }
+): Promise<SeriesUpdateResult> => {
+  const today = options.today || toDateKey(new Date());
+  const details = buildCancellationDetails(options.reason, options.note || '');
+  const result: SeriesUpdateResult = { updated: [], failed: [] };
+
+  try {
+    for (const caseItem of getUpcomingSeriesCases(await getSeriesCases(seriesId), seriesId, today)) {
+      try {
+        await updateSupabaseCaseStatus(caseItem.id, CASE_STATUSES.CASE_CANCELLED, cancelledBy, details);
+        result.updated.push(caseItem.caseReferenceNumber);
+      } catch (error) {
+        result.failed.push({ caseReferenceNumber: caseItem.caseReferenceNumber, reason: getFailureReason(error) });
+      }
+    }
+
+    if (result.failed.length === 0) {
+      const { error } = await supabase
+        .from('case_series')
+        .update({
+          [CASE_SERIES_FIELDS.status]: 'cancelled',
+          [CASE_SERIES_FIELDS.cancelledBy]: cancelledBy,
+          [CASE_SERIES_FIELDS.cancelledAt]: new Date().toISOString()
+        })
+        .eq(CASE_SERIES_FIELDS.id, seriesId);
+
+      if (error) {
+        throw error;
+      }
+    }
+
+    console.log(`🔁 SERIES - Cancelled ${result.updated.length} case(s) in series ${seriesId}`);
+    return result;
+  } catch (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,222 @@
+/**
+ * Case SLA Service - Per-country deadlines for reaching workflow stages
+ *
+ * Each rule says a case must reach a status either a number of hours before surgery
+ * (e.g. Order Prepared 24h before dateOfSurgery) or within a number of hours of
+ * entering another status (e.g. collected within 48h of Case Completed). Start times
+ * come from status_history timestamps. Settings are stored per country in
+ * system_settings under `case_sla_<country>`.
+ *
+ * Breaches are escalated once per case and rule through the country's "SLA Escalation"
+ * email notification rule, addressed to the configured escalation role, by the
+ * sla-escalations edge function on a 15 minute schedule - not from the browser. It
+ * mirrors evaluateCaseSlas; keep them in step.
+ *
+ * evaluateCaseSlas is pure so the case list and unit tests can use it without a database.
+ */
+
+import { CaseBooking, CaseStatus, StatusHistory } from '../types';
+import { countrySettingsStore } from './countrySettingsStore';
+import { normalizeCountry } from './countryUtils';
+import { getCountryTimeZone, zonedTimeToUtc } from './timeZones';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type SlaAnchor = 'before_surgery' | 'after_status';
+
+export interface SlaRule {
+  id: string;
+  name: string;
+  /** Status the case has to reach (or pass, in workflow order) */
+  targetStatus: CaseStatus;
+  anchor: SlaAnchor;
+  /** Status whose entry starts the clock - only for after_status rules */
+  anchorStatus?: CaseStatus;
+  hours: number;
+}
+
+export interface SlaSettings {
+  enabled: boolean;
+  /** Role emailed when a case breaches an SLA */
+  escalationRole: string;
+  rules: SlaRule[];
+}
+
+export type SlaState = 'on_track' | 'due_soon' | 'breached';
+
+export interface CaseSlaResult {
+  ruleId: string;
+  ruleName: string;
+  targetStatus: CaseStatus;
+  dueAt: string;
+  state: SlaState;
+}
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  enabled: true,
+  escalationRole: 'operations-manager',
+  rules: [
+    { id: 'order-prepared-before-surgery', name: 'Order prepared before surgery', targetStatus: 'Order Prepared', anchor: 'before_surgery', hours: 24 },
+    { id: 'collection-after-completion', name: 'Collection after completion', targetStatus: 'Pending Delivery (Office)', anchor: 'after_status', anchorStatus: 'Case Completed', hours: 48 }
+  ]
+};
+
+/**
+ * Cases this close to an SLA deadline are flagged as due soon
+ */
+export const SLA_DUE_SOON_HOURS = 4;
+
+/**
+ * Email notification rule (per country) used for escalations
+ */
+export const SLA_ESCALATION_NOTIFICATION_RULE = 'SLA Escalation';
+
+const SLA_SETTING_PREFIX = 'case_sla_';
+const HOUR_MS = 60 * 60 * 1000;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Surgery start in the case country's time zone, whatever the browser's zone is -
+ * midnight when no procedure time is booked
+ */
+export const getSurgeryStart = (caseItem: Pick<CaseBooking, 'country' | 'dateOfSurgery' | 'timeOfProcedure'>): Date => {
+  const [hours = '00', minutes = '00'] = (caseItem.timeOfProcedure || '').split(':');
+  return zonedTimeToUtc(
+    caseItem.dateOfSurgery,
+    parseInt(hours, 10) || 0,
+    parseInt(minutes, 10) || 0,
+    getCountryTimeZone(normalizeCountry(caseItem.country))
+  );
+};
+
+/**
+ * When the case last entered a status, from its status history
+ */
+export const getStatusEnteredAt = (history: StatusHistory[] | undefined, status: CaseStatus): string | null => {
+  const entries = (history || []).filter(entry => entry.status === status);
+  if (entries.length === 0) {
+    return null;
+  }
+  return entries.reduce((latest, entry) => (entry.timestamp > latest ? entry.timestamp : latest), entries[0].timestamp);
+};
+
+/**
+ * SLAs still running for a case. Rules whose target the case has already reached,
+ * or whose clock has not started, are left out; cancelled cases have none.
+ */
+export const evaluateCaseSlas = (params: {
+  caseItem: Pick<CaseBooking, 'status' | 'country' | 'dateOfSurgery' | 'timeOfProcedure' | 'statusHistory'>;
+  settings: SlaSettings;
+  workflowStatuses: CaseStatus[];
+  now: Date;
+}): CaseSlaResult[] => {
+  const { caseItem, settings, workflowStatuses, now } = params;
+  const currentIndex = workflowStatuses.indexOf(caseItem.status);
+
+  if (!settings.enabled || currentIndex === -1) {
+    return [];
+  }
+
+  return settings.rules.flatMap(rule => {
+    const targetIndex = workflowStatuses.indexOf(rule.targetStatus);
+    if (targetIndex === -1 || currentIndex >= targetIndex) {
+      return [];
+    }
+
+    let due: Date;
+    if (rule.anchor === 'before_surgery') {
+      due = new Date(getSurgeryStart(caseItem).getTime() - rule.hours * HOUR_MS);
+    } else {
+      const anchorIndex = rule.anchorStatus ? workflowStatuses.indexOf(rule.anchorStatus) : -1;
+      const startedAt = rule.anchorStatus && currentIndex >= anchorIndex
+        ? getStatusEnteredAt(caseItem.statusHistory, rule.anchorStatus)
+        : null;
+      if (anchorIndex === -1 || !startedAt) {
+        return [];
+      }
+      due = new Date(new Date(startedAt).getTime() + rule.hours * HOUR_MS);
+    }
+
+    const remaining = due.getTime() - now.getTime();
+    const state: SlaState = remaining < 0 ? 'breached' : remaining <= SLA_DUE_SOON_HOURS * HOUR_MS ? 'due_soon' : 'on_track';
+
+    return [{
+      ruleId: rule.id,
+      ruleName: rule.name,
+      targetStatus: rule.targetStatus,
+      dueAt: due.toISOString(),
+      state
+    }];
+  });
+};
+
+export const isBreachingSla = (results: CaseSlaResult[] | undefined): boolean =>
+  !!results && results.some(result => result.state === 'breached');
+
+/**
+ * Short badge text, e.g. "Overdue 5h" or "Due in 3h"
+ */
+export const formatSlaRemaining = (result: CaseSlaResult, now: Date): string => {
+  const hours = Math.round(Math.abs(new Date(result.dueAt).getTime() - now.getTime()) / HOUR_MS);
+  const label = hours >= 48 ? `${Math.round(hours / 24)}d` : `${Math.max(hours, 1)}h`;
+  return result.state === 'breached' ? `Overdue ${label}` : `Due in ${label}`;
+};
+
+/**
+ * Check SLA settings before saving - returns error messages
+ */
+export const validateSlaSettings = (settings: SlaSettings, workflowStatuses: CaseStatus[]): string[] => {
+  const errors: string[] = [];
+
+  if (settings.enabled && !settings.escalationRole) {
+    errors.push('Choose the role that SLA breaches are escalated to');
+  }
+  settings.rules.forEach(rule => {
+    const label = rule.name.trim() || 'Unnamed rule';
+    if (!rule.name.trim()) {
+      errors.push('Every SLA rule needs a name');
+    }
+    if (!workflowStatuses.includes(rule.targetStatus)) {
+      errors.push(`${label}: "${rule.targetStatus}" is not part of this country's workflow`);
+    }
+    if (!Number.isFinite(rule.hours) || rule.hours <= 0) {
+      errors.push(`${label}: hours must be more than 0`);
+    }
+    if (rule.anchor === 'after_status') {
+      const anchorIndex = rule.anchorStatus ? workflowStatuses.indexOf(rule.anchorStatus) : -1;
+      if (anchorIndex === -1 || anchorIndex >= workflowStatuses.indexOf(rule.targetStatus)) {
+        errors.push(`${label}: the clock must start at a status before "${rule.targetStatus}"`);
+      }
+    }
+  });
+
+  return errors;
+};
+
+// ================================================
+// SETTINGS
+// ================================================
+
+const slaSettingsStore = countrySettingsStore<SlaSettings>({
+  prefix: SLA_SETTING_PREFIX,
+  label: 'Case SLA rules',
+  defaults: () => DEFAULT_SLA_SETTINGS
+});
+
+/**
+ * Get the SLA settings for a country - stored settings or the default
+ */
+export const getSlaSettings = (country: string): Promise<SlaSettings> =>
+  slaSettingsStore.get(country);
+
+/**
+ * Save the SLA settings for a country
+ */
+export const saveSlaSettings = async (country: string, settings: SlaSettings): Promise<void> => {
+  await slaSettingsStore.save(country, settings);
+};
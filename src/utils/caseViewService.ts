@@ -0,0 +1,287 @@
+/**
+ * Case View Service - Saved filters, sort order and expanded state for the cases list
+ *
+ * Views are personal unless an admin publishes them to roles. A view's date range can be
+ * relative ("today", "tomorrow", "next 7 days") so a morning view stays current without
+ * being edited. Each user's default view is kept in app_settings; users without one land
+ * on the view published as the default for their role.
+ */
+
+import { supabase } from '../lib/supabase';
+import { FilterOptions } from '../types';
+import { APP_SETTINGS_FIELDS, CASE_VIEWS_FIELDS } from './fieldMappings';
+import { addDaysForInput } from './dateFormat';
+import { CaseSortOrder, DEFAULT_CASE_SORT_ORDER } from './caseQueryService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type CaseViewDateRange = 'fixed' | 'today' | 'tomorrow' | 'next7Days';
+
+export interface CaseView {
+  id?: string;
+  name: string;
+  filters: FilterOptions;
+  dateRange: CaseViewDateRange;
+  sortOrder: CaseSortOrder;
+  expandCases: boolean;
+  ownerId?: string;
+  sharedRoles: string[];
+  isRoleDefault: boolean;
+  updatedAt?: string;
+}
+
+/**
+ * What the cases list currently shows - compared against a view to tell if it is applied
+ */
+export interface CaseViewState {
+  filters: FilterOptions;
+  sortOrder: CaseSortOrder;
+  expandCases: boolean;
+}
+
+type ViewUser = { id: string; role: string };
+
+// ================================================
+// CONSTANTS
+// ================================================
+
+export const DEFAULT_CASE_VIEW_SETTING_KEY = 'cases_default_view';
+
+export const CASE_VIEW_DATE_RANGE_LABELS: Record<CaseViewDateRange, string> = {
+  fixed: 'Dates as filtered',
+  today: 'Today',
+  tomorrow: 'Tomorrow',
+  next7Days: 'Next 7 days'
+};
+
+export const EMPTY_CASE_VIEW: CaseView = {
+  name: '',
+  filters: {},
+  dateRange: 'fixed',
+  sortOrder: DEFAULT_CASE_SORT_ORDER,
+  expandCases: false,
+  sharedRoles: [],
+  isRoleDefault: false
+};
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Filters to apply for a view - relative date ranges are resolved against `today`
+ */
+export const resolveCaseViewFilters = (view: CaseView, today: Date = new Date()): FilterOptions => {
+  const filters: FilterOptions = { ...view.filters };
+
+  if (view.dateRange === 'today') {
+    filters.dateFrom = addDaysForInput(0, today);
+    filters.dateTo = filters.dateFrom;
+  } else if (view.dateRange === 'tomorrow') {
+    filters.dateFrom = addDaysForInput(1, today);
+    filters.dateTo = filters.dateFrom;
+  } else if (view.dateRange === 'next7Days') {
+    filters.dateFrom = addDaysForInput(0, today);
+    filters.dateTo = addDaysForInput(6, today);
+  }
+
+  return filters;
+};
+
+/**
+ * Filters to store for a view - dates covered by a relative range are left out
+ */
+export const getStoredCaseViewFilters = (filters: FilterOptions, dateRange: CaseViewDateRange): FilterOptions => {
+  const stored: FilterOptions = {};
+  (Object.keys(filters) as Array<keyof FilterOptions>).forEach(key => {
+    const value = filters[key];
+    const isRelativeDate = dateRange !== 'fixed' && (key === 'dateFrom' || key === 'dateTo');
+    if (value && !isRelativeDate) {
+      (stored as any)[key] = value;
+    }
+  });
+  return stored;
+};
+
+/**
+ * Whether the cases list shows exactly what the view would - empty filter values are ignored
+ */
+export const isCaseViewApplied = (view: CaseView, state: CaseViewState, today: Date = new Date()): boolean => {
+  const viewFilters = getStoredCaseViewFilters(resolveCaseViewFilters(view, today), 'fixed');
+  const currentFilters = getStoredCaseViewFilters(state.filters, 'fixed');
+  const keys = Array.from(new Set([...Object.keys(viewFilters), ...Object.keys(currentFilters)])) as Array<keyof FilterOptions>;
+
+  return keys.every(key => viewFilters[key] === currentFilters[key]) &&
+    view.sortOrder === state.sortOrder &&
+    view.expandCases === state.expandCases;
+};
+
+export const isSharedCaseView = (view: CaseView): boolean => view.sharedRoles.length > 0;
+
+/**
+ * Owners see their own views, everyone sees views published to their role, and
+ * admins see every published view
+ */
+export const canViewCaseView = (view: CaseView, user: ViewUser): boolean =>
+  view.ownerId === user.id ||
+  view.sharedRoles.includes(user.role) ||
+  (user.role === 'admin' && isSharedCaseView(view));
+
+/**
+ * Owners edit their own views and admins edit published ones - unsaved views are always editable
+ */
+export const canEditCaseView = (view: CaseView, user: ViewUser): boolean =>
+  !view.id || view.ownerId === user.id || (user.role === 'admin' && isSharedCaseView(view));
+
+/**
+ * Landing view - the user's own default if they can still open it, otherwise the first
+ * view published as the default for their role
+ */
+export const pickDefaultCaseView = (
+  views: CaseView[],
+  user: ViewUser,
+  personalDefaultId: string | null
+): CaseView | null => {
+  const personalDefault = personalDefaultId ? views.find(view => view.id === personalDefaultId) : undefined;
+  if (personalDefault) {
+    return personalDefault;
+  }
+  return views.find(view => view.isRoleDefault && view.sharedRoles.includes(user.role)) || null;
+};
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+const rowToView = (row: any): CaseView => ({
+  id: row[CASE_VIEWS_FIELDS.id],
+  name: row[CASE_VIEWS_FIELDS.name],
+  filters: row[CASE_VIEWS_FIELDS.filters] || {},
+  dateRange: row[CASE_VIEWS_FIELDS.dateRange] || 'fixed',
+  sortOrder: row[CASE_VIEWS_FIELDS.sortOrder] || DEFAULT_CASE_SORT_ORDER,
+  expandCases: !!row[CASE_VIEWS_FIELDS.expandCases],
+  ownerId: row[CASE_VIEWS_FIELDS.ownerId],
+  sharedRoles: row[CASE_VIEWS_FIELDS.sharedRoles] || [],
+  isRoleDefault: !!row[CASE_VIEWS_FIELDS.isRoleDefault],
+  updatedAt: row[CASE_VIEWS_FIELDS.updatedAt]
+});
+
+/**
+ * Views the user can open, by name
+ */
+export const getCaseViews = async (user: ViewUser): Promise<CaseView[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('case_views')
+      .select('*')
+      .order(CASE_VIEWS_FIELDS.name);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(rowToView).filter(view => canViewCaseView(view, user));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Create or update a view - only admins can publish it to roles
+ */
+export const saveCaseView = async (view: CaseView, user: ViewUser): Promise<CaseView> => {
+  const sharedRoles = user.role === 'admin' ? view.sharedRoles : [];
+  const row = {
+    [CASE_VIEWS_FIELDS.name]: view.name.trim(),
+    [CASE_VIEWS_FIELDS.filters]: getStoredCaseViewFilters(view.filters, view.dateRange),
+    [CASE_VIEWS_FIELDS.dateRange]: view.dateRange,
+    [CASE_VIEWS_FIELDS.sortOrder]: view.sortOrder,
+    [CASE_VIEWS_FIELDS.expandCases]: view.expandCases,
+    [CASE_VIEWS_FIELDS.sharedRoles]: sharedRoles,
+    [CASE_VIEWS_FIELDS.isRoleDefault]: sharedRoles.length > 0 && view.isRoleDefault,
+    [CASE_VIEWS_FIELDS.updatedAt]: new Date().toISOString()
+  };
+
+  try {
+    const { data, error } = view.id
+      ? await supabase
+          .from('case_views')
+          .update(row)
+          .eq(CASE_VIEWS_FIELDS.id, view.id)
+          .select()
+          .single()
+      : await supabase
+          .from('case_views')
+          .insert([{ ...row, [CASE_VIEWS_FIELDS.ownerId]: user.id }])
+          .select()
+          .single();
+
+    if (error) {
+      throw error;
+    }
+    return rowToView(data);
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const deleteCaseView = async (viewId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('case_views')
+      .delete()
+      .eq(CASE_VIEWS_FIELDS.id, viewId);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * The user's own default view id - null when they have not picked one
+ */
+export const getDefaultCaseViewId = async (userId: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select(APP_SETTINGS_FIELDS.settingValue)
+      .eq(APP_SETTINGS_FIELDS.settingKey, DEFAULT_CASE_VIEW_SETTING_KEY)
+      .eq(APP_SETTINGS_FIELDS.userId, userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return (data as any)?.[APP_SETTINGS_FIELDS.settingValue]?.viewId || null;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Set or clear (null) the user's default view
+ */
+export const setDefaultCaseViewId = async (userId: string, viewId: string | null): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('app_settings')
+      .upsert({
+        [APP_SETTINGS_FIELDS.userId]: userId,
+        [APP_SETTINGS_FIELDS.settingKey]: DEFAULT_CASE_VIEW_SETTING_KEY,
+        [APP_SETTINGS_FIELDS.settingValue]: { viewId },
+        [APP_SETTINGS_FIELDS.updatedAt]: new Date().toISOString()
+      }, {
+        onConflict: `${APP_SETTINGS_FIELDS.userId},${APP_SETTINGS_FIELDS.settingKey}`
+      });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,115 @@
+/**
+ * Country Settings Store - Per-country settings kept as JSONB in system_settings
+ * Each store reads and writes `<prefix><country>` rows (e.g. `case_sla_malaysia`),
+ * caches them for 5 minutes and falls back to the defaults when nothing is stored
+ * or the read fails.
+ */
+
+import { supabase } from '../lib/supabase';
+import { normalizeCountry } from './countryUtils';
+import { SYSTEM_SETTINGS_FIELDS } from './fieldMappings';
+
+// ================================================
+// TYPES
+// ================================================
+
+export interface CountrySettingsStoreOptions<T> {
+  prefix: string;
+  label: string; // e.g. 'Case SLA rules' - used in the row description and error messages
+  defaults: (country: string) => T;
+  validate?: (settings: T) => string[];
+  // Stored value -> settings; defaults to merging the stored object over the defaults
+  parse?: (stored: any, country: string) => T;
+  // Clean up settings before they are saved (trim text, clamp numbers, ...)
+  normalize?: (settings: T, country: string) => T;
+}
+
+export interface CountrySettingsStore<T> {
+  get: (country: string) => Promise<T>;
+  save: (country: string, settings: T) => Promise<T>;
+  clearCache: (country?: string) => void;
+}
+
+// ================================================
+// STORE
+// ================================================
+
+const SETTINGS_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+export const getCountrySettingKey = (prefix: string, country: string): string =>
+  `${prefix}${normalizeCountry(country).toLowerCase().replace(/\s+/g, '_')}`;
+
+export const countrySettingsStore = <T>(options: CountrySettingsStoreOptions<T>): CountrySettingsStore<T> => {
+  const {
+    prefix,
+    label,
+    defaults,
+    validate,
+    parse = (stored: any, country: string) => ({ ...defaults(country), ...(stored || {}) }),
+    normalize = (settings: T) => settings
+  } = options;
+  const cache = new Map<string, { settings: T; timestamp: number }>();
+
+  const get = async (country: string): Promise<T> => {
+    const normalizedCountry = normalizeCountry(country);
+    const cached = cache.get(normalizedCountry);
+    if (cached && Date.now() - cached.timestamp < SETTINGS_CACHE_DURATION) {
+      return cached.settings;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select(SYSTEM_SETTINGS_FIELDS.settingValue)
+        .eq(SYSTEM_SETTINGS_FIELDS.settingKey, getCountrySettingKey(prefix, normalizedCountry))
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      const settings = parse(data?.setting_value, normalizedCountry);
+      cache.set(normalizedCountry, { settings, timestamp: Date.now() });
+      return settings;
+    } catch (error) {
+      console.error(`Failed to load ${label.toLowerCase()}, using default:`, error);
+      return defaults(normalizedCountry);
+    }
+  };
+
+  const save = async (country: string, settings: T): Promise<T> => {
+    const errors = validate ? validate(settings) : [];
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${label.toLowerCase()}: ${errors.join('; ')}`);
+    }
+
+    const normalizedCountry = normalizeCountry(country);
+    const toSave = normalize(settings, normalizedCountry);
+
+    const { error } = await supabase
+      .from('system_settings')
+      .upsert({
+        [SYSTEM_SETTINGS_FIELDS.settingKey]: getCountrySettingKey(prefix, normalizedCountry),
+        [SYSTEM_SETTINGS_FIELDS.settingValue]: toSave,
+        [SYSTEM_SETTINGS_FIELDS.description]: `${label} for ${normalizedCountry}`,
+        [SYSTEM_SETTINGS_FIELDS.updatedAt]: new Date().toISOString()
+      }, { onConflict: SYSTEM_SETTINGS_FIELDS.settingKey });
+
+    if (error) {
+      throw error;
+    }
+
+    cache.set(normalizedCountry, { settings: toSave, timestamp: Date.now() });
+    return toSave;
+  };
+
+  const clearCache = (country?: string): void => {
+    if (country) {
+      cache.delete(normalizeCountry(country));
+    } else {
+      cache.clear();
+    }
+  };
+
+  return { get, save, clearCache };
+};
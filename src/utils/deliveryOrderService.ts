@@ -0,0 +1,334 @@
+/**
+ * Delivery Order Service - Template-driven DO documents with a per-country DO sequence
+ *
+ * When a case moves to "Pending Delivery (Hospital)" a DO is rendered from the
+ * country's template as a standalone HTML file (open it and print / save as PDF)
+ * and attached to that status history entry; the number is saved on the case by that
+ * same status change. DO numbers come from
+ * delivery_order_counters with the same compare-and-swap allocation as case
+ * references; a case that already has a DO number keeps it when re-issued.
+ *
+ * Templates are stored per country in system_settings. Header and footer notes
+ * accept {{placeholders}} filled from the case - see DELIVERY_ORDER_PLACEHOLDERS.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking } from '../types';
+import { normalizeCountry } from './countryUtils';
+import { CASE_BOOKINGS_FIELDS } from './fieldMappings';
+import { countrySettingsStore } from './countrySettingsStore';
+import {
+  CaseReferenceFormat,
+  CaseReferenceYearFormat,
+  allocateCountryCounter,
+  formatCaseReference,
+  getCounterYear,
+  validateCaseReferenceFormat
+} from './caseReferenceService';
+import { ManifestItem, buildManifestItems, getManifestQuantities } from './driverManifestService';
+import { formatScheduleLabel } from './caseRescheduleService';
+import { toDateKey } from './calendarViewUtils';
+
+// ================================================
+// TYPES
+// ================================================
+
+export interface DeliveryOrderTemplate {
+  numberPrefix: string;
+  yearFormat: CaseReferenceYearFormat;
+  padding: number;
+  title: string;
+  companyName: string;
+  /** Address, phone and registration lines printed under the company name */
+  companyDetails: string;
+  headerNote: string;
+  footerNote: string;
+  showDoctor: boolean;
+  showSignatureBlock: boolean;
+}
+
+export interface DeliveryOrder {
+  doNumber: string;
+  html: string;
+  /** Attachment JSON string in the format stored on status history entries */
+  attachment: string;
+}
+
+export const DEFAULT_DELIVERY_ORDER_TEMPLATE: DeliveryOrderTemplate = {
+  numberPrefix: 'DO',
+  yearFormat: 'YYYY',
+  padding: 5,
+  title: 'DELIVERY ORDER',
+  companyName: 'Transmedic',
+  companyDetails: '',
+  headerNote: 'Delivery for case {{caseReference}} - surgery on {{surgeryDate}}',
+  footerNote: 'Goods remain the property of {{companyName}} until returned. Please check all items on receipt.',
+  showDoctor: true,
+  showSignatureBlock: true
+};
+
+/**
+ * Placeholders accepted in the header and footer notes
+ */
+export const DELIVERY_ORDER_PLACEHOLDERS = [
+  'doNumber',
+  'caseReference',
+  'hospital',
+  'department',
+  'doctor',
+  'procedure',
+  'surgeryDate',
+  'issueDate',
+  'country',
+  'companyName'
+] as const;
+
+export type DeliveryOrderPlaceholder = typeof DELIVERY_ORDER_PLACEHOLDERS[number];
+
+const TEMPLATE_SETTING_PREFIX = 'delivery_order_template_';
+const MAX_ALLOCATION_ATTEMPTS = 5;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * DO numbers reuse the case reference formatter: {prefix}-{country code}-{year}-{NNNNN}
+ */
+export const getDeliveryOrderNumberFormat = (template: DeliveryOrderTemplate): CaseReferenceFormat => ({
+  prefix: template.numberPrefix.trim(),
+  separator: '-',
+  countrySegment: 'code',
+  yearFormat: template.yearFormat,
+  padding: template.padding,
+  includeDepartmentCode: false,
+  departmentCodes: {}
+});
+
+export const formatDeliveryOrderNumber = (
+  template: DeliveryOrderTemplate,
+  country: string,
+  counter: number,
+  date: Date = new Date()
+): string => formatCaseReference({ format: getDeliveryOrderNumberFormat(template), country, counter, date });
+
+/**
+ * Structural checks before a template is saved
+ */
+export const validateDeliveryOrderTemplate = (template: DeliveryOrderTemplate): string[] => {
+  const errors = validateCaseReferenceFormat(getDeliveryOrderNumberFormat(template))
+    .map(error => error.replace('Prefix', 'DO number prefix'));
+
+  if (!template.title.trim()) {
+    errors.push('Document title is required');
+  }
+
+  const unknown = Array.from(`${template.headerNote} ${template.footerNote}`.matchAll(/\{\{\s*(\w+)\s*\}\}/g))
+    .map(match => match[1])
+    .filter(name => !(DELIVERY_ORDER_PLACEHOLDERS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholders: ${Array.from(new Set(unknown)).map(name => `{{${name}}}`).join(', ')}`);
+  }
+
+  return errors;
+};
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Replace {{placeholders}}; unknown names are left as typed
+ */
+export const fillDeliveryOrderPlaceholders = (
+  text: string,
+  values: Record<DeliveryOrderPlaceholder, string>
+): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in values ? values[name as DeliveryOrderPlaceholder] : match
+  );
+
+export const getDeliveryOrderPlaceholderValues = (params: {
+  template: DeliveryOrderTemplate;
+  caseItem: CaseBooking;
+  doNumber: string;
+  issuedAt: Date;
+}): Record<DeliveryOrderPlaceholder, string> => {
+  const { template, caseItem, doNumber, issuedAt } = params;
+  return {
+    doNumber,
+    caseReference: caseItem.caseReferenceNumber,
+    hospital: caseItem.hospital,
+    department: caseItem.department,
+    doctor: caseItem.doctorName || '',
+    procedure: [caseItem.procedureType, caseItem.procedureName].filter(Boolean).join(' - '),
+    surgeryDate: formatScheduleLabel(caseItem.dateOfSurgery, caseItem.timeOfProcedure),
+    issueDate: formatScheduleLabel(toDateKey(issuedAt)),
+    country: caseItem.country,
+    companyName: template.companyName
+  };
+};
+
+/**
+ * Standalone, printable HTML document for a DO
+ */
+export const renderDeliveryOrderHtml = (params: {
+  template: DeliveryOrderTemplate;
+  caseItem: CaseBooking;
+  doNumber: string;
+  items: ManifestItem[];
+  issuedAt: Date;
+  issuedBy: string;
+}): string => {
+  const { template, caseItem, doNumber, items, issuedAt, issuedBy } = params;
+  const values = getDeliveryOrderPlaceholderValues({ template, caseItem, doNumber, issuedAt });
+  const text = (value: string) => escapeHtml(value).replace(/\n/g, '<br>');
+  const note = (value: string) => value.trim() ? `<p class="note">${text(fillDeliveryOrderPlaceholders(value, values))}</p>` : '';
+
+  const detailRows: Array<[string, string]> = [
+    ['DO Number', doNumber],
+    ['Date', values.issueDate],
+    ['Case Reference', values.caseReference],
+    ['Hospital', values.hospital],
+    ['Department', values.department],
+    ...(template.showDoctor ? [['Doctor', values.doctor || '-'] as [string, string]] : []),
+    ['Procedure', values.procedure],
+    ['Surgery', values.surgeryDate]
+  ];
+
+  const itemRows = items.length > 0
+    ? items.map((item, index) => `<tr><td>${index + 1}</td><td>${escapeHtml(item.name)}</td><td>${item.type === 'surgery_set' ? 'Surgery Set' : 'Implant Box'}</td><td class="qty">${item.quantity}</td></tr>`).join('')
+    : '<tr><td colspan="4">No sets or implant boxes</td></tr>';
+
+  const signatureBlock = template.showSignatureBlock
+    ? `<table class="signatures"><tr><td>Issued by: ${escapeHtml(issuedBy)}</td><td>Delivered by:</td><td>Received by (name, signature, date):</td></tr></table>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(template.title)} ${escapeHtml(doNumber)}</title>
+<style>
+body { font-family: Arial, sans-serif; font-size: 13px; color: #000; margin: 24px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.company { margin-bottom: 16px; }
+.company strong { font-size: 16px; }
+table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+th, td { border: 1px solid #999; padding: 6px 8px; text-align: left; vertical-align: top; }
+.details th { width: 160px; background: #f2f2f2; }
+.items th { background: #f2f2f2; }
+.qty { text-align: right; width: 60px; }
+.note { margin: 12px 0; }
+.signatures td { height: 70px; width: 33%; border: none; border-top: 1px solid #000; }
+</style>
+</head>
+<body>
+<div class="company"><strong>${text(template.companyName)}</strong>${template.companyDetails.trim() ? `<br>${text(template.companyDetails)}` : ''}</div>
+<h1>${escapeHtml(template.title)}</h1>
+${note(template.headerNote)}
+<table class="details">${detailRows.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>
+<table class="items"><thead><tr><th>#</th><th>Item</th><th>Type</th><th class="qty">Qty</th></tr></thead><tbody>${itemRows}</tbody></table>
+${note(template.footerNote)}
+${signatureBlock}
+</body>
+</html>`;
+};
+
+/**
+ * Wrap the rendered HTML as a status history attachment
+ */
+export const buildDeliveryOrderAttachment = (html: string, doNumber: string, issuedAt: Date = new Date()): string =>
+  JSON.stringify({
+    name: `${doNumber.replace(/[^A-Za-z0-9_-]+/g, '_')}.html`,
+    type: 'text/html',
+    size: html.length,
+    data: `data:text/html;charset=utf-8,${encodeURIComponent(html)}`,
+    uploadedAt: issuedAt.toISOString()
+  });
+
+// ================================================
+// SETTINGS
+// ================================================
+
+const templateStore = countrySettingsStore<DeliveryOrderTemplate>({
+  prefix: TEMPLATE_SETTING_PREFIX,
+  label: 'Delivery order template',
+  defaults: () => DEFAULT_DELIVERY_ORDER_TEMPLATE,
+  validate: validateDeliveryOrderTemplate,
+  normalize: template => ({ ...template, numberPrefix: template.numberPrefix.trim(), title: template.title.trim() })
+});
+
+/**
+ * Get the DO template for a country - stored template or the default
+ */
+export const getDeliveryOrderTemplate = (country: string): Promise<DeliveryOrderTemplate> =>
+  templateStore.get(country);
+
+/**
+ * Save the DO template for a country (applies to DOs issued from now on)
+ */
+export const saveDeliveryOrderTemplate = async (country: string, template: DeliveryOrderTemplate): Promise<void> => {
+  await templateStore.save(country, template);
+};
+
+// ================================================
+// ISSUING
+// ================================================
+
+const doNumberExists = async (doNumber: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('case_bookings')
+    .select(CASE_BOOKINGS_FIELDS.id)
+    .eq(CASE_BOOKINGS_FIELDS.doNumber, doNumber)
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).length > 0;
+};
+
+/**
+ * Allocate the next unused DO number for a country
+ */
+export const allocateDeliveryOrderNumber = async (country: string, template: DeliveryOrderTemplate, date: Date = new Date()): Promise<string> => {
+  const normalizedCountry = normalizeCountry(country.trim());
+  const year = getCounterYear(getDeliveryOrderNumberFormat(template), date);
+
+  for (let attempt = 1; attempt <= MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const counter = await allocateCountryCounter('delivery_order_counters', normalizedCountry, year);
+    const doNumber = formatDeliveryOrderNumber(template, normalizedCountry, counter, date);
+
+    if (!(await doNumberExists(doNumber))) {
+      return doNumber;
+    }
+
+    console.log(`🔁 DELIVERY ORDER - ${doNumber} already exists, allocating the next number`);
+  }
+
+  throw new Error(`Could not find an unused delivery order number for ${normalizedCountry}`);
+};
+
+/**
+ * Render the DO for a case, allocating a number when it has none. Nothing is written
+ * here - the number is saved on the case by the status change that carries it in its
+ * details (change_case_status), so validate that change before issuing.
+ * Cases that already carry a DO number are re-issued under the same number.
+ */
+export const issueDeliveryOrder = async (caseItem: CaseBooking, issuedBy: string): Promise<DeliveryOrder> => {
+  const issuedAt = new Date();
+  const template = await getDeliveryOrderTemplate(caseItem.country);
+  const doNumber = caseItem.doNumber || await allocateDeliveryOrderNumber(caseItem.country, template, issuedAt);
+
+  const quantities = await getManifestQuantities([caseItem.id]);
+  const items = buildManifestItems(caseItem, quantities[caseItem.id] || {});
+  const html = renderDeliveryOrderHtml({ template, caseItem, doNumber, items, issuedAt, issuedBy });
+
+  console.log(`📄 DELIVERY ORDER - Issued ${doNumber} for ${caseItem.caseReferenceNumber}`);
+  return { doNumber, html, attachment: buildDeliveryOrderAttachment(html, doNumber, issuedAt) };
+};
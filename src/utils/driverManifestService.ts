@@ -0,0 +1,225 @@
+/**
+ * Driver Manifest Service - Daily delivery and collection route sheet
+ *
+ * Deliveries are cases in "Pending Delivery (Hospital)" whose surgery is on the
+ * chosen date; collections are cases in "Pending Collection (At Hospital)" whose
+ * surgery was on or before it, since they stay outstanding until picked up.
+ * Entries completed on the chosen date stay on the sheet so the route reads in full.
+ * Stops are grouped by hospital; quantities come from case_booking_quantities.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking, CaseStatus } from '../types';
+import { CASE_STATUSES } from '../constants/statuses';
+import { CASE_QUANTITIES_FIELDS } from './fieldMappings';
+import { parseProcedureTime } from './icsCalendarService';
+import { toDateKey } from './calendarViewUtils';
+
+export type ManifestEntryType = 'delivery' | 'collection';
+
+export interface ManifestItem {
+  name: string;
+  type: 'surgery_set' | 'implant_box';
+  quantity: number;
+}
+
+export interface ManifestEntry {
+  caseItem: CaseBooking;
+  type: ManifestEntryType;
+  items: ManifestItem[];
+  doNumber?: string;
+  completed: boolean;
+}
+
+export interface ManifestStop {
+  hospital: string;
+  entries: ManifestEntry[];
+}
+
+/**
+ * Status a manifest entry waits in and the status it moves to when done
+ */
+export const MANIFEST_TRANSITIONS: Record<ManifestEntryType, { from: CaseStatus; to: CaseStatus }> = {
+  delivery: { from: CASE_STATUSES.PENDING_DELIVERY_HOSPITAL, to: CASE_STATUSES.DELIVERED_HOSPITAL },
+  collection: { from: CASE_STATUSES.PENDING_DELIVERY_OFFICE, to: CASE_STATUSES.DELIVERED_OFFICE }
+};
+
+// The CasesList "Pending Delivery (Office)" button still saves the older label for collections
+const COLLECTION_PENDING_STATUSES: CaseStatus[] = [CASE_STATUSES.PENDING_DELIVERY_OFFICE, 'Pending Delivery (Office)'];
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Manifest entry type for a pending or completed status - null when the case is not on a route
+ */
+export const getManifestEntryType = (status: CaseStatus): ManifestEntryType | null => {
+  if (status === MANIFEST_TRANSITIONS.delivery.from || status === MANIFEST_TRANSITIONS.delivery.to) return 'delivery';
+  if (COLLECTION_PENDING_STATUSES.includes(status) || status === MANIFEST_TRANSITIONS.collection.to) return 'collection';
+  return null;
+};
+
+export const isManifestEntryCompleted = (status: CaseStatus): boolean =>
+  status === MANIFEST_TRANSITIONS.delivery.to || status === MANIFEST_TRANSITIONS.collection.to;
+
+/**
+ * Local YYYY-MM-DD on which the case last entered a status
+ */
+const getStatusDate = (caseItem: Pick<CaseBooking, 'statusHistory'>, status: CaseStatus): string | undefined => {
+  const entry = [...(caseItem.statusHistory || [])].reverse().find(history => history.status === status);
+  return entry ? toDateKey(new Date(entry.timestamp)) : undefined;
+};
+
+/**
+ * Cases that belong on the manifest for a YYYY-MM-DD date
+ */
+export const selectManifestCases = (cases: CaseBooking[], date: string): CaseBooking[] =>
+  cases.filter(caseItem => {
+    const type = getManifestEntryType(caseItem.status);
+    if (!type) return false;
+
+    if (isManifestEntryCompleted(caseItem.status)) {
+      return getStatusDate(caseItem, caseItem.status) === date;
+    }
+    return type === 'delivery' ? caseItem.dateOfSurgery === date : caseItem.dateOfSurgery <= date;
+  });
+
+/**
+ * DO number from the case, falling back to the latest status history entry that recorded one
+ */
+export const getDeliveryOrderNumber = (caseItem: Pick<CaseBooking, 'doNumber' | 'statusHistory'>): string | undefined => {
+  if (caseItem.doNumber) {
+    return caseItem.doNumber;
+  }
+
+  const history = [...(caseItem.statusHistory || [])].reverse();
+  for (const entry of history) {
+    if (!entry.details) continue;
+    try {
+      const parsed = JSON.parse(entry.details);
+      if (parsed?.doNumber) {
+        return String(parsed.doNumber);
+      }
+    } catch {
+      // Plain-text details never carry a DO number
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Sets and implant boxes for a case with their booked quantities
+ */
+export const buildManifestItems = (caseItem: CaseBooking, quantities: Record<string, number>): ManifestItem[] => [
+  ...(caseItem.surgerySetSelection || []).map(name => ({ name, type: 'surgery_set' as const, quantity: quantities[name] || 1 })),
+  ...(caseItem.implantBox || []).map(name => ({ name, type: 'implant_box' as const, quantity: quantities[name] || 1 }))
+];
+
+const getEntryMinutes = (entry: ManifestEntry): number => {
+  const time = parseProcedureTime(entry.caseItem.timeOfProcedure);
+  return time ? time.hours * 60 + time.minutes : Number.MAX_SAFE_INTEGER;
+};
+
+/**
+ * Group manifest cases into hospital stops. Without a saved sequence, stops with the
+ * earliest delivery come first so sets arrive before surgery; collection-only stops follow.
+ */
+export const buildManifestStops = (
+  cases: CaseBooking[],
+  quantitiesByCase: Record<string, Record<string, number>>,
+  stopOrder: string[] = []
+): ManifestStop[] => {
+  const stops = new Map<string, ManifestEntry[]>();
+
+  cases.forEach(caseItem => {
+    const type = getManifestEntryType(caseItem.status);
+    if (!type) return;
+
+    const entry: ManifestEntry = {
+      caseItem,
+      type,
+      items: buildManifestItems(caseItem, quantitiesByCase[caseItem.id] || {}),
+      doNumber: getDeliveryOrderNumber(caseItem),
+      completed: isManifestEntryCompleted(caseItem.status)
+    };
+    stops.set(caseItem.hospital, [...(stops.get(caseItem.hospital) || []), entry]);
+  });
+
+  const earliestDelivery = (entries: ManifestEntry[]): number =>
+    Math.min(...entries.filter(entry => entry.type === 'delivery').map(getEntryMinutes), Number.MAX_SAFE_INTEGER);
+
+  return Array.from(stops.entries())
+    .map(([hospital, entries]) => ({
+      hospital,
+      // Deliveries before collections, each by procedure time
+      entries: entries.sort((a, b) =>
+        a.type !== b.type ? (a.type === 'delivery' ? -1 : 1) : getEntryMinutes(a) - getEntryMinutes(b)
+      )
+    }))
+    .sort((a, b) => {
+      const orderA = stopOrder.indexOf(a.hospital);
+      const orderB = stopOrder.indexOf(b.hospital);
+      if (orderA !== -1 || orderB !== -1) {
+        if (orderA === -1) return 1;
+        if (orderB === -1) return -1;
+        return orderA - orderB;
+      }
+      return earliestDelivery(a.entries) - earliestDelivery(b.entries) || a.hospital.localeCompare(b.hospital);
+    });
+};
+
+/**
+ * Index of the first stop with outstanding entries - -1 when the route is finished
+ */
+export const getCurrentStopIndex = (stops: ManifestStop[]): number =>
+  stops.findIndex(stop => stop.entries.some(entry => !entry.completed));
+
+/**
+ * Move a stop one place up or down and return the new hospital sequence
+ */
+export const moveManifestStop = (stops: ManifestStop[], index: number, direction: 'up' | 'down'): string[] => {
+  const order = stops.map(stop => stop.hospital);
+  const target = direction === 'up' ? index - 1 : index + 1;
+  if (target < 0 || target >= order.length) {
+    return order;
+  }
+  [order[index], order[target]] = [order[target], order[index]];
+  return order;
+};
+
+// ================================================
+// DATA
+// ================================================
+
+/**
+ * Booked quantities for many cases in one query, keyed by case id then item name
+ */
+export const getManifestQuantities = async (caseIds: string[]): Promise<Record<string, Record<string, number>>> => {
+  try {
+    if (caseIds.length === 0) {
+      return {};
+    }
+
+    const { data, error } = await supabase
+      .from('case_booking_quantities')
+      .select(`${CASE_QUANTITIES_FIELDS.caseBookingId}, ${CASE_QUANTITIES_FIELDS.itemName}, ${CASE_QUANTITIES_FIELDS.quantity}`)
+      .in(CASE_QUANTITIES_FIELDS.caseBookingId, caseIds);
+
+    if (error) {
+      throw error;
+    }
+
+    const quantities: Record<string, Record<string, number>> = {};
+    (data || []).forEach((row: any) => {
+      const caseId = row[CASE_QUANTITIES_FIELDS.caseBookingId];
+      quantities[caseId] = {
+        ...(quantities[caseId] || {}),
+        [row[CASE_QUANTITIES_FIELDS.itemName]]: row[CASE_QUANTITIES_FIELDS.quantity]
+      };
+    });
+    return quantities;
+  } catch (error) {
+    throw error;
+  }
+};
@@ -368,6 +368,31 @@ Case {{caseReference}} has been cancelled.
 
 Please take note of this cancellation and make necessary adjustments.
 
+Best regards,
+TM Case Booking System`
+  },
+
+  'SLA Escalation': {
+    subject: '⏰ SLA Breached: {{caseReference}} - {{slaName}}',
+    body: `Dear Team,
+
+Case {{caseReference}} has missed its SLA and needs attention.
+
+⏰ SLA DETAILS:
+• SLA: {{slaName}}
+• Required Status: {{slaTargetStatus}}
+• Was Due: {{slaDueAt}}
+• Current Status: {{status}}
+
+📋 CASE DETAILS:
+• Hospital: {{hospital}}
+• Department: {{department}}
+• Surgery Date: {{dateOfSurgery}}
+• Surgery Time: {{timeOfProcedure}}
+• Doctor: {{doctorName}}
+
+Please follow up with the team handling this case.
+
 Best regards,
 TM Case Booking System`
   }
@@ -64,6 +64,8 @@ export const CASE_BOOKINGS_FIELDS = {
   attachments: 'attachments',
   orderSummary: 'order_summary',
   doNumber: 'do_number',
+  seriesId: 'series_id',                        // case_series.id when generated by a recurrence rule
+  clonedFromId: 'cloned_from_id',               // case_bookings.id of the case this booking was duplicated from
   quantitiesMigrated: 'quantities_migrated'
 } as const;
 
@@ -106,6 +108,229 @@ export const AMENDMENT_HISTORY_FIELDS = {
   changes: 'changes'
 } as const;
 
+// ================================================
+// AMENDMENT REQUESTS TABLE MAPPINGS
+// ================================================
+
+export const AMENDMENT_REQUESTS_FIELDS = {
+  id: 'id',
+  caseId: 'case_id',                            // ⚠️ CRITICAL: FK to case_bookings
+  requestedBy: 'requested_by',
+  requestedAt: 'requested_at',
+  reason: 'reason',
+  proposedChanges: 'proposed_changes',          // JSONB - amendment payload as submitted
+  changes: 'changes',                           // JSONB - [{ field, oldValue, newValue }]
+  status: 'status',                             // pending | approved | rejected
+  reviewedBy: 'reviewed_by',
+  reviewedAt: 'reviewed_at',
+  reviewComment: 'review_comment'
+} as const;
+
+// ================================================
+// CALENDAR FEEDS TABLE MAPPINGS
+// ================================================
+
+export const CALENDAR_FEEDS_FIELDS = {
+  id: 'id',
+  token: 'token',                               // ⚠️ Secret - the only credential for the feed URL
+  userId: 'user_id',
+  scope: 'scope',                               // mine | country | department
+  country: 'country',
+  department: 'department',
+  label: 'label',
+  createdAt: 'created_at',
+  revokedAt: 'revoked_at'
+} as const;
+
+// ================================================
+// BILLING BATCHES TABLE MAPPINGS
+// ================================================
+
+export const BILLING_BATCHES_FIELDS = {
+  id: 'id',
+  batchNumber: 'batch_number',
+  country: 'country',
+  caseIds: 'case_ids',                          // UUID[] - cases exported in this batch
+  caseReferences: 'case_references',            // TEXT[] - kept for readability after cases change
+  lines: 'lines',                               // JSONB - exported billing lines snapshot
+  settings: 'settings',                         // JSONB - column mapping and file options used
+  status: 'status',                             // exported | confirmed | cancelled
+  createdBy: 'created_by',
+  createdAt: 'created_at',
+  confirmedBy: 'confirmed_by',
+  confirmedAt: 'confirmed_at'
+} as const;
+
+// ================================================
+// PRICE LISTS TABLE MAPPINGS
+// ================================================
+
+export const PRICE_LISTS_FIELDS = {
+  id: 'id',
+  country: 'country',
+  hospital: 'hospital',                         // null = country-wide default list
+  name: 'name',
+  currency: 'currency',                         // ISO 4217 code, e.g. SGD
+  effectiveFrom: 'effective_from',              // DATE - first surgery date the prices apply to
+  effectiveTo: 'effective_to',                  // DATE - last surgery date, null = open-ended
+  createdBy: 'created_by',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+} as const;
+
+export const PRICE_LIST_ITEMS_FIELDS = {
+  id: 'id',
+  priceListId: 'price_list_id',
+  itemType: 'item_type',                        // surgery_set | implant_box
+  itemName: 'item_name',
+  unitPrice: 'unit_price'                       // NUMERIC(12,2) - price per booked unit
+} as const;
+
+// ================================================
+// BOOKING TEMPLATES & CASE SERIES TABLE MAPPINGS
+// ================================================
+
+export const BOOKING_TEMPLATES_FIELDS = {
+  id: 'id',
+  country: 'country',
+  name: 'name',
+  hospital: 'hospital',
+  department: 'department',
+  doctorId: 'doctor_id',
+  doctorName: 'doctor_name',
+  procedureType: 'procedure_type',
+  procedureName: 'procedure_name',
+  timeOfProcedure: 'time_of_procedure',
+  surgerySetSelection: 'surgery_set_selection',
+  implantBox: 'implant_box',
+  quantities: 'quantities',                     // JSONB - item name -> quantity
+  specialInstruction: 'special_instruction',
+  createdBy: 'created_by',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+} as const;
+
+export const CASE_SERIES_FIELDS = {
+  id: 'id',
+  country: 'country',
+  recurrence: 'recurrence',                     // JSONB - RecurrenceRule the cases were generated from
+  templateId: 'template_id',                    // booking_templates.id, null when booked from a blank form
+  status: 'status',                             // active | cancelled
+  createdBy: 'created_by',
+  createdAt: 'created_at',
+  cancelledBy: 'cancelled_by',
+  cancelledAt: 'cancelled_at'
+} as const;
+
+// ================================================
+// SLA ESCALATIONS TABLE MAPPINGS
+// ================================================
+
+export const SLA_ESCALATIONS_FIELDS = {
+  id: 'id',
+  caseId: 'case_id',
+  ruleId: 'rule_id',                            // SlaRule.id from the country's SLA settings
+  status: 'status',                             // case status when the breach was escalated
+  dueAt: 'due_at',
+  escalatedAt: 'escalated_at',                  // UNIQUE (case_id, rule_id, due_at) - one escalation per breach
+  sentAt: 'sent_at',                            // null while the email is pending - retried by sla-escalations
+  attempts: 'attempts',
+  lastError: 'last_error'
+} as const;
+
+// ================================================
+// REPORT SCHEDULES TABLE MAPPINGS
+// ================================================
+
+export const REPORT_SCHEDULES_FIELDS = {
+  id: 'id',
+  name: 'name',
+  filters: 'filters',                           // JSONB - ReportFilters incl. report type
+  frequency: 'frequency',                       // daily | weekly | monthly
+  dayOfWeek: 'day_of_week',                     // 0-6 (Sunday = 0), weekly only
+  dayOfMonth: 'day_of_month',                   // 1-28, monthly only
+  hour: 'hour',                                 // hour of day to send, in timezone
+  timezone: 'timezone',                         // IANA zone, e.g. Asia/Singapore
+  format: 'format',                             // csv | xlsx | html
+  recipients: 'recipients',                     // TEXT[] - email addresses
+  enabled: 'enabled',
+  nextRunAt: 'next_run_at',                     // claimed by moving it forward before sending
+  lastRunAt: 'last_run_at',
+  lastRunStatus: 'last_run_status',             // success | failed
+  createdBy: 'created_by',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+} as const;
+
+// ================================================
+// REPORT RUNS TABLE MAPPINGS
+// ================================================
+
+export const REPORT_RUNS_FIELDS = {
+  id: 'id',
+  scheduleId: 'schedule_id',
+  startedAt: 'started_at',
+  finishedAt: 'finished_at',
+  status: 'status',                             // success | failed
+  trigger: 'trigger',                           // schedule | manual
+  caseCount: 'case_count',
+  recipients: 'recipients',                     // TEXT[] - who it was sent to
+  error: 'error'
+} as const;
+
+// ================================================
+// REPORT DEFINITIONS TABLE MAPPINGS
+// ================================================
+
+export const REPORT_DEFINITIONS_FIELDS = {
+  id: 'id',
+  name: 'name',
+  rowDimension: 'row_dimension',                // pivot rows - country, hospital, month, ...
+  columnDimension: 'column_dimension',          // pivot columns, empty for a single total column
+  measure: 'measure',                           // caseCount | setQuantity | implantQuantity | cancellationRate
+  chartType: 'chart_type',                      // bar | line
+  filters: 'filters',                           // JSONB - ReportFilters applied when loaded
+  sharedRoles: 'shared_roles',                  // TEXT[] - roles that can open the definition
+  createdBy: 'created_by',                      // user id of the owner
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+} as const;
+
+// ================================================
+// CASE VIEWS TABLE MAPPINGS
+// ================================================
+
+export const CASE_VIEWS_FIELDS = {
+  id: 'id',
+  name: 'name',
+  filters: 'filters',                           // JSONB - FilterOptions applied when the view is picked
+  dateRange: 'date_range',                      // fixed | today | tomorrow | next7Days
+  sortOrder: 'sort_order',                      // newest | oldest | surgeryDateAsc | surgeryDateDesc
+  expandCases: 'expand_cases',                  // open every case card on the page
+  ownerId: 'owner_id',                          // user id of the owner
+  sharedRoles: 'shared_roles',                  // TEXT[] - roles the view is published to, empty for personal views
+  isRoleDefault: 'is_role_default',             // landing view for the shared roles
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+} as const;
+
+// ================================================
+// CASE SEARCH INDEX MAPPINGS
+// ================================================
+
+// One row per searchable text - case fields, status history details, amendment
+// reasons and attachment file names. Kept current by database triggers and
+// queried through the search_cases() function, which also returns the case
+// summary columns from CASE_BOOKINGS_FIELDS.
+export const CASE_SEARCH_INDEX_FIELDS = {
+  caseId: 'case_id',                            // ⚠️ CRITICAL: FK to case_bookings
+  source: 'source',                             // case | status_history | amendment | attachment
+  field: 'field',                               // column the text came from, e.g. do_number, details
+  content: 'content',                           // indexed text - trigram indexed for typo-tolerant matching
+  country: 'country',
+  score: 'score'                                // search_cases() only - trigram word similarity, 0-1
+} as const;
+
 // ================================================
 // UTILITY FUNCTIONS
 // ================================================
@@ -251,6 +476,7 @@ export const SURGERY_SETS_FIELDS = {
   doctorId: 'doctor_id',
   procedureType: 'procedure_type',
   sortOrder: 'sort_order',
+  quantityOwned: 'quantity_owned', // Physical units owned - null means not tracked
   createdAt: 'created_at',
   updatedAt: 'updated_at'
 } as const;
@@ -264,6 +490,7 @@ export const IMPLANT_BOXES_FIELDS = {
   doctorId: 'doctor_id',
   procedureType: 'procedure_type',
   sortOrder: 'sort_order',
+  quantityOwned: 'quantity_owned', // Physical units owned - null means not tracked
   createdAt: 'created_at',
   updatedAt: 'updated_at'
 } as const;
@@ -0,0 +1,450 @@
+/**
+ * ICS Calendar Service - iCalendar export and subscription feeds for case bookings
+ *
+ * Export builds an .ics file in the browser from the cases already loaded by the
+ * booking calendar. Subscription feeds are tokenized, read-only URLs served by the
+ * calendar-feed edge function, which reads case_bookings with the scope stored
+ * against the token - Outlook / Google poll it, so no login is involved. Feeds can only
+ * be created for a scope the user can see, and the edge function re-checks the owner's
+ * profile on every fetch, so a feed stops serving once its owner is disabled or loses
+ * access to the country / department.
+ *
+ * The event format here must stay in step with supabase/functions/calendar-feed.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking, User } from '../types';
+import { normalizeCountry } from './countryUtils';
+import { CALENDAR_FEEDS_FIELDS } from './fieldMappings';
+import { getCountryTimeZone as getZoneForCountry, getTimeZoneUtcOffset } from './timeZones';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type CalendarExportScope = 'mine' | 'country' | 'department';
+
+export interface CalendarScopeFilter {
+  scope: CalendarExportScope;
+  country: string;
+  department?: string;
+  userId?: string;
+}
+
+export interface CalendarFeed {
+  id: string;
+  token: string;
+  userId: string;
+  scope: CalendarExportScope;
+  country: string;
+  department?: string;
+  label: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+const ICS_PRODUCT_ID = '-//Transmedic//Case Booking//EN';
+const ICS_UID_DOMAIN = 'tm-case-booking';
+const DEFAULT_EVENT_DURATION_MINUTES = 120;
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Past bookings included in exports and feeds - older cases are of no use in a calendar
+ */
+export const CALENDAR_HISTORY_DAYS = 90;
+
+/**
+ * Roles that may export or subscribe to every case in a country; other roles only see
+ * their assigned departments
+ */
+export const CALENDAR_COUNTRY_SCOPE_ROLES = ['admin', 'it'];
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * IANA time zone for a country - surgery times are local to the hospital
+ */
+export const getCountryTimeZone = (country: string): string =>
+  getZoneForCountry(normalizeCountry(country));
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Fold a content line at 75 octets, continuation lines start with a space
+ */
+export const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of Array.from(line)) {
+    const charOctets = utf8Length(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Parse "14:30", "2:30 PM" etc. into hours/minutes - null when not a time
+ */
+export const parseProcedureTime = (time?: string): { hours: number; minutes: number } | null => {
+  if (!time) return null;
+
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const meridiem = match[3]?.toUpperCase();
+
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const formatIcsDate = (date: string): string => date.slice(0, 10).replace(/-/g, '');
+
+const formatIcsUtcTimestamp = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const addDaysToIcsDate = (date: string, days: number): string => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + days));
+  return `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+};
+
+/**
+ * Local wall-clock start/end for a timed event, carried with the country's TZID
+ */
+const formatLocalDateTimes = (date: string, time: { hours: number; minutes: number }): { start: string; end: string } => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const start = new Date(Date.UTC(year, month - 1, day, time.hours, time.minutes));
+  const end = new Date(start.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60 * 1000);
+
+  const format = (value: Date) =>
+    `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}T` +
+    `${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}00`;
+
+  return { start: format(start), end: format(end) };
+};
+
+const formatItemsWithQuantities = (items: string[] = [], quantities?: Record<string, number>): string =>
+  items.length > 0
+    ? items.map(item => (quantities?.[item] && quantities[item] > 1 ? `${item} x${quantities[item]}` : item)).join(', ')
+    : 'None';
+
+/**
+ * VTIMEZONE definition for a TZID used by timed events
+ */
+const buildTimeZoneComponent = (timeZone: string): string[] => {
+  const offset = getTimeZoneUtcOffset(timeZone);
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    `TZNAME:${offset.slice(0, 3)}`,
+    'END:STANDARD',
+    'END:VTIMEZONE'
+  ];
+};
+
+/**
+ * Content lines for one case as a VEVENT
+ */
+export const buildCaseEvent = (caseItem: CaseBooking, now: Date = new Date()): string[] => {
+  const isCancelled = caseItem.status === 'Case Cancelled';
+  const time = parseProcedureTime(caseItem.timeOfProcedure);
+  const timeZone = getCountryTimeZone(caseItem.country);
+  const lastModified = caseItem.amendedAt || caseItem.processedAt || caseItem.submittedAt;
+
+  const description = [
+    `Case Reference: ${caseItem.caseReferenceNumber}`,
+    `Status: ${caseItem.status}`,
+    `Hospital: ${caseItem.hospital}`,
+    `Department: ${caseItem.department}`,
+    `Doctor: ${caseItem.doctorName || 'Not specified'}`,
+    `Procedure: ${caseItem.procedureType}${caseItem.procedureName ? ` - ${caseItem.procedureName}` : ''}`,
+    `Time of Procedure: ${caseItem.timeOfProcedure || 'Not specified'}`,
+    `Surgery Sets: ${formatItemsWithQuantities(caseItem.surgerySetSelection, caseItem.quantities)}`,
+    `Implant Boxes: ${formatItemsWithQuantities(caseItem.implantBox, caseItem.quantities)}`,
+    ...(caseItem.specialInstruction ? [`Special Instruction: ${caseItem.specialInstruction}`] : [])
+  ].join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${caseItem.id}@${ICS_UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsUtcTimestamp(now)}`,
+    // Bumped on cancellation so clients replace the event they already hold
+    `SEQUENCE:${isCancelled ? 1 : 0}`
+  ];
+
+  if (time) {
+    const { start, end } = formatLocalDateTimes(caseItem.dateOfSurgery, time);
+    lines.push(`DTSTART;TZID=${timeZone}:${start}`, `DTEND;TZID=${timeZone}:${end}`);
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatIcsDate(caseItem.dateOfSurgery)}`,
+      `DTEND;VALUE=DATE:${addDaysToIcsDate(caseItem.dateOfSurgery, 1)}`
+    );
+  }
+
+  if (lastModified && !isNaN(new Date(lastModified).getTime())) {
+    lines.push(`LAST-MODIFIED:${formatIcsUtcTimestamp(new Date(lastModified))}`);
+  }
+
+  lines.push(
+    `SUMMARY:${escapeIcsText(`${caseItem.caseReferenceNumber} - ${caseItem.procedureType} - ${caseItem.hospital}`)}`,
+    `LOCATION:${escapeIcsText(caseItem.hospital)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `CATEGORIES:${escapeIcsText(caseItem.department)}`,
+    `STATUS:${isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT'
+  );
+
+  return lines;
+};
+
+/**
+ * Full VCALENDAR document (CRLF line endings, folded lines)
+ */
+export const generateIcsCalendar = (
+  cases: CaseBooking[],
+  options: { calendarName: string; country: string; now?: Date }
+): string => {
+  const { calendarName, country, now = new Date() } = options;
+  // Every TZID referenced by a DTSTART / DTEND needs its VTIMEZONE in the calendar
+  const timeZones = Array.from(new Set(
+    cases
+      .filter(caseItem => parseProcedureTime(caseItem.timeOfProcedure))
+      .map(caseItem => getCountryTimeZone(caseItem.country))
+  ));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    `X-WR-TIMEZONE:${getCountryTimeZone(country)}`,
+    ...timeZones.flatMap(buildTimeZoneComponent),
+    ...cases.flatMap(caseItem => buildCaseEvent(caseItem, now)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Cases belonging to an export scope, from CALENDAR_HISTORY_DAYS ago onwards.
+ * Cancelled cases are kept so calendars drop them via STATUS:CANCELLED.
+ */
+export const filterCasesForCalendar = (
+  cases: CaseBooking[],
+  filter: CalendarScopeFilter,
+  now: Date = new Date()
+): CaseBooking[] => {
+  const since = new Date(now.getTime() - CALENDAR_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const country = normalizeCountry(filter.country);
+
+  return cases.filter(caseItem => {
+    if (normalizeCountry(caseItem.country) !== country) return false;
+    if (!caseItem.dateOfSurgery || caseItem.dateOfSurgery.slice(0, 10) < since) return false;
+    if (filter.scope === 'mine') return !!filter.userId && caseItem.submittedBy === filter.userId;
+    if (filter.scope === 'department') return !!filter.department && caseItem.department === filter.department;
+    return true;
+  });
+};
+
+/**
+ * Why a user may not subscribe to a scope, or null when they may. The calendar-feed edge
+ * function applies the same rules to the feed owner on every fetch - keep them in step.
+ */
+export const getCalendarFeedAccessError = (
+  user: Pick<User, 'role' | 'countries' | 'departments' | 'enabled'>,
+  filter: CalendarScopeFilter
+): string | null => {
+  if (user.enabled === false) {
+    return 'Your account is disabled';
+  }
+  if (filter.scope === 'department' && !filter.department) {
+    return 'Select a department to subscribe to';
+  }
+  if (CALENDAR_COUNTRY_SCOPE_ROLES.includes(user.role)) {
+    return null;
+  }
+
+  const country = normalizeCountry(filter.country);
+  if (!(user.countries || []).some(userCountry => normalizeCountry(userCountry) === country)) {
+    return `You do not have access to ${country}`;
+  }
+  if (filter.scope === 'country') {
+    return 'Only admin and IT users can subscribe to every case in a country';
+  }
+  if (filter.scope === 'department' && !(user.departments || []).includes(filter.department!)) {
+    return `You do not have access to the ${filter.department} department`;
+  }
+  return null;
+};
+
+/**
+ * Human readable name for a scope, used for the calendar and file names
+ */
+export const describeCalendarScope = (filter: CalendarScopeFilter): string => {
+  const country = normalizeCountry(filter.country);
+  if (filter.scope === 'mine') return `My Cases (${country})`;
+  if (filter.scope === 'department') return `${filter.department} (${country})`;
+  return `All Cases (${country})`;
+};
+
+// ================================================
+// EXPORT
+// ================================================
+
+/**
+ * Download an .ics file for the given scope
+ */
+export const downloadCalendarExport = (cases: CaseBooking[], filter: CalendarScopeFilter): number => {
+  const scopedCases = filterCasesForCalendar(cases, filter);
+  const calendarName = `Case Bookings - ${describeCalendarScope(filter)}`;
+  const content = generateIcsCalendar(scopedCases, { calendarName, country: filter.country });
+
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${calendarName.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '')}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return scopedCases.length;
+};
+
+// ================================================
+// SUBSCRIPTION FEEDS
+// ================================================
+
+const generateFeedToken = (): string => {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const mapCalendarFeed = (row: any): CalendarFeed => ({
+  id: row.id,
+  token: row.token,
+  userId: row.user_id,
+  scope: row.scope,
+  country: row.country,
+  department: row.department || undefined,
+  label: row.label,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at || undefined
+});
+
+/**
+ * Public URL for a feed - paste into Outlook "Subscribe from web" / Google "From URL"
+ */
+export const getCalendarFeedUrl = (token: string): string => {
+  const baseUrl = process.env.REACT_APP_SUPABASE_URL || 'http://localhost:54321';
+  return `${baseUrl}/functions/v1/calendar-feed?token=${token}`;
+};
+
+/**
+ * Active feeds created by a user
+ */
+export const getCalendarFeeds = async (userId: string): Promise<CalendarFeed[]> => {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq(CALENDAR_FEEDS_FIELDS.userId, userId)
+    .is(CALENDAR_FEEDS_FIELDS.revokedAt, null)
+    .order(CALENDAR_FEEDS_FIELDS.createdAt, { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).map(mapCalendarFeed);
+};
+
+/**
+ * Create a read-only feed for a scope the user can see. The token is the only
+ * credential, so it is long and random; revoke the feed to invalidate a leaked URL.
+ */
+export const createCalendarFeed = async (filter: CalendarScopeFilter, user: User): Promise<CalendarFeed> => {
+  const accessError = getCalendarFeedAccessError(user, filter);
+  if (accessError) {
+    throw new Error(accessError);
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert([{
+      [CALENDAR_FEEDS_FIELDS.token]: generateFeedToken(),
+      [CALENDAR_FEEDS_FIELDS.userId]: user.id,
+      [CALENDAR_FEEDS_FIELDS.scope]: filter.scope,
+      [CALENDAR_FEEDS_FIELDS.country]: normalizeCountry(filter.country),
+      [CALENDAR_FEEDS_FIELDS.department]: filter.scope === 'department' ? filter.department : null,
+      [CALENDAR_FEEDS_FIELDS.label]: `Case Bookings - ${describeCalendarScope(filter)}`,
+      [CALENDAR_FEEDS_FIELDS.createdAt]: new Date().toISOString()
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return mapCalendarFeed(data);
+};
+
+/**
+ * Revoke a feed - its URL stops returning events immediately
+ */
+export const revokeCalendarFeed = async (feedId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .update({ [CALENDAR_FEEDS_FIELDS.revokedAt]: new Date().toISOString() })
+    .eq(CALENDAR_FEEDS_FIELDS.id, feedId);
+
+  if (error) {
+    throw error;
+  }
+};
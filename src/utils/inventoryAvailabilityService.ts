@@ -0,0 +1,366 @@
+/**
+ * Inventory Availability Service - Set/implant double-booking detection
+ *
+ * surgery_sets / implant_boxes carry an optional quantity_owned (physical units).
+ * A booked item is unavailable on its surgery date and for the country's
+ * turnaround buffer afterwards (return, reprocessing, sterilisation).
+ * Only cases whose items are still out count as bookings - from booking until the
+ * items are back at the office (HOLDING_STATUSES).
+ * Requested quantities come from case_booking_quantities; cases saved before
+ * quantities were tracked count 1 per selected item.
+ *
+ * detectInventoryConflicts is pure so it can be unit tested without a database.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseStatus } from '../types';
+import { normalizeCountry } from './countryUtils';
+import { getCountryValues } from './caseQueryService';
+import {
+  CASE_BOOKINGS_FIELDS,
+  CASE_QUANTITIES_FIELDS,
+  SURGERY_SETS_FIELDS,
+  IMPLANT_BOXES_FIELDS
+} from './fieldMappings';
+import { countrySettingsStore } from './countrySettingsStore';
+import type { CaseQuantity } from './unifiedDataService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type InventoryItemType = CaseQuantity['item_type'];
+
+export type InventoryConflictMode = 'warn' | 'block';
+
+export interface InventorySettings {
+  turnaroundDays: number;
+  conflictMode: InventoryConflictMode;
+}
+
+export interface BookedInventoryEntry {
+  caseId: string;
+  caseReferenceNumber: string;
+  dateOfSurgery: string;
+  itemType: InventoryItemType;
+  itemName: string;
+  quantity: number;
+}
+
+export interface InventoryConflict {
+  itemType: InventoryItemType;
+  itemName: string;
+  requested: number;
+  owned: number;
+  /** Peak units already reserved by other cases while this case needs the item */
+  alreadyBooked: number;
+  /** Peak date (YYYY-MM-DD) on which the shortfall occurs */
+  conflictDate: string;
+  conflictingCases: string[];
+}
+
+export interface InventoryAvailabilityResult {
+  conflicts: InventoryConflict[];
+  settings: InventorySettings;
+}
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  turnaroundDays: 1,
+  conflictMode: 'warn'
+};
+
+const INVENTORY_SETTING_PREFIX = 'inventory_availability_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses in which a case's sets and implants are reserved or out - once they are back
+// at the office (Delivered (Office) onwards) or the case is cancelled they are free again
+const HOLDING_STATUSES: CaseStatus[] = [
+  'Case Booked',
+  'Loaner Received',
+  'Preparing Order',
+  'Order Prepared',
+  'Sales Approved',
+  'Pending Delivery (Hospital)',
+  'Delivered (Hospital)',
+  'Case Completed',
+  'Pending Delivery (Office)'
+];
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+const toDayNumber = (date: string): number => Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+
+const fromDayNumber = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const getItemKey = (itemType: InventoryItemType, itemName: string): string =>
+  `${itemType}:${itemName.trim().toLowerCase()}`;
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export const shiftDate = (date: string, days: number): string => fromDayNumber(toDayNumber(date) + days);
+
+/**
+ * Find items whose requested quantity exceeds what is left after other bookings.
+ * A booking on day D holds its units from D through D + turnaroundDays, so the
+ * new case (held from its own date through the same buffer) is checked against
+ * the peak concurrent usage across that window.
+ * Items without an owned quantity are not tracked and never conflict.
+ */
+export const detectInventoryConflicts = (params: {
+  dateOfSurgery: string;
+  requested: CaseQuantity[];
+  owned: Map<string, number>;
+  booked: BookedInventoryEntry[];
+  turnaroundDays: number;
+}): InventoryConflict[] => {
+  const { dateOfSurgery, requested, owned, booked } = params;
+  const buffer = Math.max(0, Math.floor(params.turnaroundDays));
+  const startDay = toDayNumber(dateOfSurgery);
+  const conflicts: InventoryConflict[] = [];
+
+  requested.forEach(item => {
+    const key = getItemKey(item.item_type, item.item_name);
+    const ownedQuantity = owned.get(key);
+    if (ownedQuantity === undefined || item.quantity <= 0) {
+      return;
+    }
+
+    const entries = booked.filter(entry => getItemKey(entry.itemType, entry.itemName) === key);
+    let peakUsage = 0;
+    let peakDay = startDay;
+    let peakCases: string[] = [];
+
+    for (let day = startDay; day <= startDay + buffer; day++) {
+      const holding = entries.filter(entry => {
+        const entryDay = toDayNumber(entry.dateOfSurgery);
+        return entryDay <= day && day <= entryDay + buffer;
+      });
+      const usage = holding.reduce((sum, entry) => sum + entry.quantity, 0);
+      if (usage > peakUsage) {
+        peakUsage = usage;
+        peakDay = day;
+        peakCases = holding.map(entry => entry.caseReferenceNumber);
+      }
+    }
+
+    if (peakUsage + item.quantity > ownedQuantity) {
+      conflicts.push({
+        itemType: item.item_type,
+        itemName: item.item_name,
+        requested: item.quantity,
+        owned: ownedQuantity,
+        alreadyBooked: peakUsage,
+        conflictDate: fromDayNumber(peakDay),
+        conflictingCases: Array.from(new Set(peakCases))
+      });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Owned quantity for an item when only its name is known (e.g. daily usage top items)
+ */
+export const getOwnedQuantityForName = (owned: Map<string, number>, itemName: string): number | undefined =>
+  owned.get(getItemKey('surgery_set', itemName)) ?? owned.get(getItemKey('implant_box', itemName));
+
+/**
+ * Human readable summary for confirm/error dialogs
+ */
+export const formatInventoryConflicts = (conflicts: InventoryConflict[]): string =>
+  conflicts
+    .map(conflict => {
+      const available = Math.max(0, conflict.owned - conflict.alreadyBooked);
+      const cases = conflict.conflictingCases.length > 0 ? ` (booked by ${conflict.conflictingCases.join(', ')})` : '';
+      return `• ${conflict.itemName}: requested ${conflict.requested}, ${available} of ${conflict.owned} available on ${conflict.conflictDate}${cases}`;
+    })
+    .join('\n');
+
+/**
+ * Convert form selections + quantity map into CaseQuantity rows
+ */
+export const buildRequestedQuantities = (
+  surgerySets: string[],
+  implantBoxes: string[],
+  quantities: Record<string, number>
+): CaseQuantity[] => [
+  ...surgerySets.map(name => ({ item_type: 'surgery_set' as const, item_name: name, quantity: quantities[name] || 1 })),
+  ...implantBoxes.map(name => ({ item_type: 'implant_box' as const, item_name: name, quantity: quantities[name] || 1 }))
+];
+
+// ================================================
+// SETTINGS
+// ================================================
+
+const inventorySettingsStore = countrySettingsStore<InventorySettings>({
+  prefix: INVENTORY_SETTING_PREFIX,
+  label: 'Set/implant availability rules',
+  defaults: () => DEFAULT_INVENTORY_SETTINGS,
+  normalize: settings => ({
+    turnaroundDays: Math.max(0, Math.floor(settings.turnaroundDays)),
+    conflictMode: settings.conflictMode === 'block' ? 'block' : 'warn'
+  })
+});
+
+/**
+ * Get the turnaround buffer and conflict mode for a country
+ */
+export const getInventorySettings = (country: string): Promise<InventorySettings> =>
+  inventorySettingsStore.get(country);
+
+/**
+ * Save the turnaround buffer and conflict mode for a country
+ */
+export const saveInventorySettings = async (country: string, settings: InventorySettings): Promise<void> => {
+  await inventorySettingsStore.save(country, settings);
+};
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+/**
+ * Owned quantity per item for a country, keyed by item type + name.
+ * The same physical set can be linked to several doctors/procedures, so the
+ * highest recorded quantity wins rather than summing duplicate rows.
+ */
+export const getOwnedInventory = async (country: string): Promise<Map<string, number>> => {
+  const normalizedCountry = normalizeCountry(country);
+  const owned = new Map<string, number>();
+
+  const sources: Array<{ table: string; itemType: InventoryItemType; fields: typeof SURGERY_SETS_FIELDS | typeof IMPLANT_BOXES_FIELDS }> = [
+    { table: 'surgery_sets', itemType: 'surgery_set', fields: SURGERY_SETS_FIELDS },
+    { table: 'implant_boxes', itemType: 'implant_box', fields: IMPLANT_BOXES_FIELDS }
+  ];
+
+  for (const source of sources) {
+    const { data, error } = await supabase
+      .from(source.table)
+      .select(`${source.fields.name}, ${source.fields.quantityOwned}`)
+      .eq(source.fields.country, normalizedCountry)
+      .eq(source.fields.isActive, true)
+      .not(source.fields.quantityOwned, 'is', null);
+
+    if (error) {
+      throw error;
+    }
+
+    (data || []).forEach((row: any) => {
+      const key = getItemKey(source.itemType, row.name);
+      owned.set(key, Math.max(owned.get(key) ?? 0, row.quantity_owned || 0));
+    });
+  }
+
+  return owned;
+};
+
+/**
+ * Items held by cases with a surgery date in [startDate, endDate] - cases under the
+ * country's legacy code included
+ */
+export const getBookedInventory = async (
+  country: string,
+  startDate: string,
+  endDate: string,
+  excludeCaseId?: string
+): Promise<BookedInventoryEntry[]> => {
+  let caseQuery = supabase
+    .from('case_bookings')
+    .select(`${CASE_BOOKINGS_FIELDS.id}, ${CASE_BOOKINGS_FIELDS.caseReferenceNumber}, ${CASE_BOOKINGS_FIELDS.dateOfSurgery}, ${CASE_BOOKINGS_FIELDS.surgerySetSelection}, ${CASE_BOOKINGS_FIELDS.implantBox}`)
+    .in(CASE_BOOKINGS_FIELDS.country, getCountryValues(country))
+    .gte(CASE_BOOKINGS_FIELDS.dateOfSurgery, startDate)
+    .lte(CASE_BOOKINGS_FIELDS.dateOfSurgery, endDate)
+    .in(CASE_BOOKINGS_FIELDS.status, HOLDING_STATUSES);
+
+  if (excludeCaseId) {
+    caseQuery = caseQuery.neq(CASE_BOOKINGS_FIELDS.id, excludeCaseId);
+  }
+
+  const { data: cases, error: casesError } = await caseQuery;
+  if (casesError) {
+    throw casesError;
+  }
+  if (!cases || cases.length === 0) {
+    return [];
+  }
+
+  const { data: quantityRows, error: quantitiesError } = await supabase
+    .from('case_booking_quantities')
+    .select(`${CASE_QUANTITIES_FIELDS.caseBookingId}, ${CASE_QUANTITIES_FIELDS.itemType}, ${CASE_QUANTITIES_FIELDS.itemName}, ${CASE_QUANTITIES_FIELDS.quantity}`)
+    .in(CASE_QUANTITIES_FIELDS.caseBookingId, cases.map((c: any) => c.id));
+
+  if (quantitiesError) {
+    throw quantitiesError;
+  }
+
+  const quantitiesByCase = new Map<string, CaseQuantity[]>();
+  (quantityRows || []).forEach((row: any) => {
+    const list = quantitiesByCase.get(row.case_booking_id) || [];
+    list.push({ item_type: row.item_type, item_name: row.item_name, quantity: row.quantity || 1 });
+    quantitiesByCase.set(row.case_booking_id, list);
+  });
+
+  return cases.flatMap((caseRow: any) => {
+    const quantities = quantitiesByCase.get(caseRow.id)
+      || buildRequestedQuantities(caseRow.surgery_set_selection || [], caseRow.implant_box || [], {});
+
+    return quantities.map(q => ({
+      caseId: caseRow.id,
+      caseReferenceNumber: caseRow.case_reference_number,
+      dateOfSurgery: caseRow.date_of_surgery,
+      itemType: q.item_type,
+      itemName: q.item_name,
+      quantity: q.quantity
+    }));
+  });
+};
+
+/**
+ * Check requested quantities against stock for the surgery date plus turnaround buffer.
+ * Pass excludeCaseId when amending so the case does not conflict with itself.
+ */
+export const checkInventoryAvailability = async (params: {
+  country: string;
+  dateOfSurgery: string;
+  requested: CaseQuantity[];
+  excludeCaseId?: string;
+}): Promise<InventoryAvailabilityResult> => {
+  const settings = await getInventorySettings(params.country);
+
+  if (!params.dateOfSurgery || params.requested.length === 0) {
+    return { conflicts: [], settings };
+  }
+
+  try {
+    const owned = await getOwnedInventory(params.country);
+    const tracked = params.requested.filter(item => owned.has(getItemKey(item.item_type, item.item_name)));
+    if (tracked.length === 0) {
+      return { conflicts: [], settings };
+    }
+
+    const booked = await getBookedInventory(
+      params.country,
+      shiftDate(params.dateOfSurgery, -settings.turnaroundDays),
+      shiftDate(params.dateOfSurgery, settings.turnaroundDays),
+      params.excludeCaseId
+    );
+
+    const conflicts = detectInventoryConflicts({
+      dateOfSurgery: params.dateOfSurgery,
+      requested: tracked,
+      owned,
+      booked,
+      turnaroundDays: settings.turnaroundDays
+    });
+
+    return { conflicts, settings };
+  } catch (error) {
+    // Availability is advisory when the lookup itself fails - never block a booking on a query error
+    console.error('❌ INVENTORY - Availability check failed:', error);
+    return { conflicts: [], settings };
+  }
+};
@@ -7,12 +7,14 @@ import { supabase } from '../lib/supabase';
 import { CaseBooking, CaseStatus } from '../types';
 import { processEmailNotifications } from '../services/emailNotificationProcessor';
 import { logger } from './logger';
+import { applyCaseStatusTransition, assertCaseStatusTransition } from './statusTransitionGuard';
 
 interface OptimizedStatusUpdateOptions {
   details?: string;
   attachments?: string[];
   skipEmailNotifications?: boolean;
   skipDuplicateCheck?: boolean;
+  transitionValidated?: boolean; // Caller already ran the transition guard
 }
 
 /**
@@ -28,9 +30,13 @@ export const updateCaseStatusOptimized = async (
   changedBy: string,
   options: OptimizedStatusUpdateOptions = {}
 ): Promise<void> => {
-  const { details, attachments, skipEmailNotifications = false, skipDuplicateCheck = false } = options;
+  const { details, attachments, skipEmailNotifications = false, skipDuplicateCheck = false, transitionValidated = false } = options;
   
   try {
+    if (!transitionValidated) {
+      await assertCaseStatusTransition(caseId, newStatus, { details, attachments });
+    }
+
     // OPTIMIZATION 1: Single query to get current case data and recent history
     const { data: caseWithHistory, error: fetchError } = await supabase
       .from('case_bookings')
@@ -103,54 +109,24 @@ export const updateCaseStatusOptimized = async (
       }
     }
 
-    // Perform both updates in parallel for better performance
-    const [caseUpdateResult, historyInsertResult] = await Promise.all([
-      // Update case status
-      supabase
-        .from('case_bookings')
-        .update({
-          status: newStatus,
-          updated_at: currentTimestamp
-        })
-        .eq('id', caseId)
-        .select('id, case_reference_number, status, country, hospital, department')
-        .single(),
-      
-      // Insert status history
-      supabase
-        .from('status_history')
-        .insert({
-          case_id: caseId,
-          status: newStatus,
-          processed_by: actualUser,
-          timestamp: currentTimestamp,
-          details: details || null,
-          attachments: attachments || null
-        })
-        .select('id')
-        .single()
-    ]);
-
-    // Check for errors in either operation
-    if (caseUpdateResult.error) {
-      logger.error('Failed to update case status', {
+    // The database re-validates the transition and writes the case and its history row together
+    try {
+      await applyCaseStatusTransition({
         caseId,
-        error: caseUpdateResult.error,
-        newStatus
+        targetStatus: newStatus,
+        details: details || null,
+        attachments: attachments || null
       });
-      throw caseUpdateResult.error;
-    }
-
-    if (historyInsertResult.error) {
-      logger.error('Failed to insert status history', {
+    } catch (updateError) {
+      logger.error('Failed to update case status', {
         caseId,
-        error: historyInsertResult.error,
+        error: updateError,
         newStatus
       });
-      // Don't throw here - the case update succeeded, history is secondary
+      throw updateError;
     }
 
-    const updatedCase = caseUpdateResult.data;
+    const updatedCase = { ...currentCase, status: newStatus };
 
     logger.info(`Status updated successfully: ${currentCase.case_reference_number} -> ${newStatus}`, {
       caseId,
@@ -132,7 +132,7 @@ export const hasPermissionForUser = (roleId: string, actionId: string, userId: s
     }
     
     // Allow admin access to all status transition actions 
-    const statusTransitionActions = ['process-order', 'order-processed', 'sales-approval', 'pending-delivery-hospital', 'delivered-hospital', 'case-completed', 'pending-delivery-office', 'delivered-office', 'to-be-billed', 'case-closed'];
+    const statusTransitionActions = ['loaner-received', 'process-order', 'order-processed', 'sales-approval', 'pending-delivery-hospital', 'delivered-hospital', 'case-completed', 'pending-delivery-office', 'delivered-office', 'to-be-billed', 'case-closed'];
     if (roleId === 'admin' && statusTransitionActions.includes(actionId)) {
       // Trigger async refresh but don't wait for it
       initializePermissions(false).catch(error => {
@@ -282,9 +282,13 @@ export const PERMISSION_ACTIONS = {
   CREATE_CASE: 'create-case',
   VIEW_CASES: 'view-cases',
   AMEND_CASE: 'amend-case',
+  OVERRIDE_AMENDMENT_LIMITS: 'override-amendment-limits',
+  APPROVE_AMENDMENTS: 'approve-amendments',
   DELETE_CASE: 'delete-case',
   UPDATE_CASE_STATUS: 'update-case-status',
   CANCEL_CASE: 'cancel-case',
+  REINSTATE_CASE: 'reinstate-case',
+  BULK_CASE_ACTIONS: 'bulk-case-actions',
   // Split Edit Sets into granular permissions
   MANAGE_DOCTORS: 'manage-doctors',
   MANAGE_PROCEDURE_TYPES: 'manage-procedure-types',
@@ -292,8 +296,12 @@ export const PERMISSION_ACTIONS = {
   // Deprecated - keeping for backward compatibility
   EDIT_SETS: 'edit-sets',
   BOOKING_CALENDAR: 'booking-calendar',
+  DRIVER_MANIFEST: 'driver-manifest',
+  BILLING_EXPORT: 'billing-export',
+  SCHEDULE_REPORTS: 'schedule-reports',
 
   // Status Transitions
+  LOANER_RECEIVED: 'loaner-received',
   PROCESS_ORDER: 'process-order',
   ORDER_PROCESSED: 'order-processed',
   SALES_APPROVAL: 'sales-approval',
@@ -317,8 +325,10 @@ export const PERMISSION_ACTIONS = {
 
   // System Settings
   SYSTEM_SETTINGS: 'system-settings',
+  DELIVERY_ORDER_TEMPLATE: 'delivery-order-template',
   EMAIL_CONFIG: 'email-config',
   CODE_TABLE_SETUP: 'code-table-setup',
+  PRICE_LISTS: 'price-lists',
   AUDIT_LOGS: 'audit-logs',
   PERMISSION_MATRIX: 'permission-matrix',
 
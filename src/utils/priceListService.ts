@@ -0,0 +1,379 @@
+/**
+ * Price List Service - Per-hospital price lists and case value estimation
+ *
+ * Surgery sets and implant boxes carry no money, so prices live in price_lists
+ * (one row per country, optional hospital, currency and effective date range) with
+ * their unit prices in price_list_items. A hospital list overrides the country-wide
+ * list; items missing from the hospital list fall back to the country list when
+ * both use the same currency.
+ *
+ * A case's estimated value is its booked quantities (case_booking_quantities,
+ * 1 per item for older cases) times the unit prices in effect on the surgery date.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking, CaseStatus } from '../types';
+import { CASE_STATUSES } from '../constants/statuses';
+import { normalizeCountry } from './countryUtils';
+import { PRICE_LISTS_FIELDS, PRICE_LIST_ITEMS_FIELDS } from './fieldMappings';
+import { buildManifestItems, getManifestQuantities } from './driverManifestService';
+import type { CaseQuantity } from './unifiedDataService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type PriceItemType = CaseQuantity['item_type'];
+
+export interface PriceListItem {
+  itemType: PriceItemType;
+  itemName: string;
+  unitPrice: number;
+}
+
+export interface PriceList {
+  id: string;
+  country: string;
+  /** null for the country-wide default list */
+  hospital: string | null;
+  name: string;
+  currency: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  items: PriceListItem[];
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+export type PriceListDraft = Omit<PriceList, 'id' | 'createdBy' | 'updatedAt'> & { id?: string };
+
+export interface CaseValueEstimate {
+  caseId: string;
+  /** null when no price list applies to the case */
+  currency: string | null;
+  value: number;
+  pricedItems: number;
+  unpricedItems: string[];
+}
+
+/** Amounts keyed by currency code - lists in different currencies are never added together */
+export type CurrencyTotals = Record<string, number>;
+
+export interface CaseValueSummary {
+  bookedValue: CurrencyTotals;
+  billedValue: CurrencyTotals;
+  pendingBillingValue: CurrencyTotals;
+  departmentValue: Record<string, CurrencyTotals>;
+  unpricedCases: number;
+}
+
+/** Completed work that has not been billed yet */
+export const PENDING_BILLING_STATUSES: CaseStatus[] = [
+  CASE_STATUSES.CASE_COMPLETED,
+  CASE_STATUSES.PENDING_DELIVERY_OFFICE,
+  CASE_STATUSES.DELIVERED_OFFICE,
+  CASE_STATUSES.TO_BE_BILLED
+];
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const QUANTITY_CHUNK_SIZE = 200;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+const getItemKey = (itemType: PriceItemType, itemName: string): string =>
+  `${itemType}:${itemName.trim().toLowerCase()}`;
+
+const isSameHospital = (a: string | null, b: string | null): boolean =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+export const isPriceListEffective = (list: Pick<PriceList, 'effectiveFrom' | 'effectiveTo'>, date: string): boolean => {
+  const day = date.slice(0, 10);
+  return list.effectiveFrom <= day && (!list.effectiveTo || list.effectiveTo >= day);
+};
+
+/**
+ * Lists that price a case, most specific first: the hospital list, then the
+ * country-wide list in the same currency. The latest effective list wins at each level.
+ */
+export const resolvePriceLists = (
+  priceLists: PriceList[],
+  caseItem: Pick<CaseBooking, 'country' | 'hospital' | 'dateOfSurgery'>
+): PriceList[] => {
+  const candidates = priceLists
+    .filter(list => normalizeCountry(list.country) === normalizeCountry(caseItem.country))
+    .filter(list => isPriceListEffective(list, caseItem.dateOfSurgery))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  const hospitalList = candidates.find(list => list.hospital && isSameHospital(list.hospital, caseItem.hospital));
+  const countryList = candidates.find(list => !list.hospital && (!hospitalList || list.currency === hospitalList.currency));
+
+  return [hospitalList, countryList].filter((list): list is PriceList => !!list);
+};
+
+/**
+ * Estimated value of a case from its booked quantities
+ */
+export const estimateCaseValue = (
+  caseItem: CaseBooking,
+  quantities: Record<string, number>,
+  priceLists: PriceList[]
+): CaseValueEstimate => {
+  const lists = resolvePriceLists(priceLists, caseItem);
+  const prices = lists.map(list => new Map(list.items.map(item => [getItemKey(item.itemType, item.itemName), item.unitPrice])));
+
+  let value = 0;
+  let pricedItems = 0;
+  const unpricedItems: string[] = [];
+
+  buildManifestItems(caseItem, quantities).forEach(item => {
+    const key = getItemKey(item.type, item.name);
+    const unitPrice = prices.map(priceMap => priceMap.get(key)).find(price => price !== undefined);
+
+    if (unitPrice === undefined) {
+      unpricedItems.push(item.name);
+      return;
+    }
+    value += unitPrice * item.quantity;
+    pricedItems++;
+  });
+
+  return {
+    caseId: caseItem.id,
+    currency: lists[0]?.currency || null,
+    value: Math.round(value * 100) / 100,
+    pricedItems,
+    unpricedItems
+  };
+};
+
+const addToTotals = (totals: CurrencyTotals, estimate: CaseValueEstimate): void => {
+  if (!estimate.currency) return;
+  totals[estimate.currency] = Math.round(((totals[estimate.currency] || 0) + estimate.value) * 100) / 100;
+};
+
+/**
+ * Booked (all but cancelled), billed (closed) and pending billing value per currency
+ */
+export const summarizeCaseValues = (
+  cases: CaseBooking[],
+  estimates: Record<string, CaseValueEstimate>
+): CaseValueSummary => {
+  const summary: CaseValueSummary = {
+    bookedValue: {},
+    billedValue: {},
+    pendingBillingValue: {},
+    departmentValue: {},
+    unpricedCases: 0
+  };
+
+  cases.forEach(caseItem => {
+    const estimate = estimates[caseItem.id];
+    if (!estimate || caseItem.status === CASE_STATUSES.CASE_CANCELLED) return;
+
+    if (!estimate.currency || estimate.unpricedItems.length > 0) {
+      summary.unpricedCases++;
+    }
+
+    addToTotals(summary.bookedValue, estimate);
+    summary.departmentValue[caseItem.department] = summary.departmentValue[caseItem.department] || {};
+    addToTotals(summary.departmentValue[caseItem.department], estimate);
+
+    if (caseItem.status === CASE_STATUSES.CASE_CLOSED) {
+      addToTotals(summary.billedValue, estimate);
+    } else if (PENDING_BILLING_STATUSES.includes(caseItem.status)) {
+      addToTotals(summary.pendingBillingValue, estimate);
+    }
+  });
+
+  return summary;
+};
+
+export const formatMoney = (amount: number, currency: string): string =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const formatCurrencyTotals = (totals: CurrencyTotals): string => {
+  const entries = Object.entries(totals).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? entries.map(([currency, amount]) => formatMoney(amount, currency)).join(' · ') : '—';
+};
+
+/**
+ * Checks before a price list is saved. Lists for the same country and hospital
+ * may not overlap in time, so exactly one list applies on any surgery date.
+ */
+export const validatePriceList = (draft: PriceListDraft, existingLists: PriceList[]): string[] => {
+  const errors: string[] = [];
+
+  if (!draft.name.trim()) {
+    errors.push('Price list name is required');
+  }
+  if (!CURRENCY_PATTERN.test(draft.currency)) {
+    errors.push('Currency must be a 3-letter code such as SGD');
+  }
+  if (!draft.effectiveFrom) {
+    errors.push('Effective from date is required');
+  } else if (draft.effectiveTo && draft.effectiveTo < draft.effectiveFrom) {
+    errors.push('Effective to date cannot be before the effective from date');
+  }
+
+  if (draft.items.length === 0) {
+    errors.push('Add at least one priced item');
+  }
+  if (draft.items.some(item => !item.itemName.trim())) {
+    errors.push('Every item needs a name');
+  }
+  if (draft.items.some(item => !Number.isFinite(item.unitPrice) || item.unitPrice < 0)) {
+    errors.push('Unit prices must be zero or more');
+  }
+  const keys = draft.items.map(item => getItemKey(item.itemType, item.itemName));
+  if (new Set(keys).size !== keys.length) {
+    errors.push('Each set or implant box can only be priced once per list');
+  }
+
+  if (draft.effectiveFrom) {
+    const overlapping = existingLists.find(list =>
+      list.id !== draft.id &&
+      normalizeCountry(list.country) === normalizeCountry(draft.country) &&
+      isSameHospital(list.hospital, draft.hospital) &&
+      list.effectiveFrom <= (draft.effectiveTo || '9999-12-31') &&
+      (list.effectiveTo || '9999-12-31') >= draft.effectiveFrom
+    );
+    if (overlapping) {
+      errors.push(`Dates overlap with the "${overlapping.name}" price list`);
+    }
+  }
+
+  return errors;
+};
+
+const mapPriceList = (row: any): PriceList => ({
+  id: row.id,
+  country: row.country,
+  hospital: row.hospital || null,
+  name: row.name,
+  currency: row.currency,
+  effectiveFrom: row.effective_from,
+  effectiveTo: row.effective_to || null,
+  items: (row.price_list_items || []).map((item: any) => ({
+    itemType: item.item_type,
+    itemName: item.item_name,
+    unitPrice: Number(item.unit_price)
+  })),
+  createdBy: row.created_by || undefined,
+  updatedAt: row.updated_at || undefined
+});
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+/**
+ * All price lists for a country with their items, newest first
+ */
+export const getPriceLists = async (country: string): Promise<PriceList[]> => {
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select('*, price_list_items(*)')
+    .eq(PRICE_LISTS_FIELDS.country, normalizeCountry(country))
+    .order(PRICE_LISTS_FIELDS.effectiveFrom, { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+  return (data || []).map(mapPriceList);
+};
+
+/**
+ * Create or update a price list and replace its items
+ */
+export const savePriceList = async (draft: PriceListDraft, savedBy: string): Promise<void> => {
+  const country = normalizeCountry(draft.country);
+  const errors = validatePriceList(draft, await getPriceLists(country));
+  if (errors.length > 0) {
+    throw new Error(errors.join('. '));
+  }
+
+  try {
+    const row = {
+      [PRICE_LISTS_FIELDS.country]: country,
+      [PRICE_LISTS_FIELDS.hospital]: draft.hospital?.trim() || null,
+      [PRICE_LISTS_FIELDS.name]: draft.name.trim(),
+      [PRICE_LISTS_FIELDS.currency]: draft.currency,
+      [PRICE_LISTS_FIELDS.effectiveFrom]: draft.effectiveFrom,
+      [PRICE_LISTS_FIELDS.effectiveTo]: draft.effectiveTo || null,
+      [PRICE_LISTS_FIELDS.updatedAt]: new Date().toISOString()
+    };
+
+    const { data, error } = draft.id
+      ? await supabase.from('price_lists').update(row).eq(PRICE_LISTS_FIELDS.id, draft.id).select(PRICE_LISTS_FIELDS.id).single()
+      : await supabase.from('price_lists').insert([{ ...row, [PRICE_LISTS_FIELDS.createdBy]: savedBy }]).select(PRICE_LISTS_FIELDS.id).single();
+
+    if (error) {
+      throw error;
+    }
+
+    const priceListId = data.id;
+    const { error: deleteError } = await supabase
+      .from('price_list_items')
+      .delete()
+      .eq(PRICE_LIST_ITEMS_FIELDS.priceListId, priceListId);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    const { error: insertError } = await supabase
+      .from('price_list_items')
+      .insert(draft.items.map(item => ({
+        [PRICE_LIST_ITEMS_FIELDS.priceListId]: priceListId,
+        [PRICE_LIST_ITEMS_FIELDS.itemType]: item.itemType,
+        [PRICE_LIST_ITEMS_FIELDS.itemName]: item.itemName.trim(),
+        [PRICE_LIST_ITEMS_FIELDS.unitPrice]: item.unitPrice
+      })));
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    console.log(`💲 PRICE LIST - Saved "${draft.name}" for ${country}${draft.hospital ? ` / ${draft.hospital}` : ''}`);
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const deletePriceList = async (priceListId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('price_lists')
+    .delete()
+    .eq(PRICE_LISTS_FIELDS.id, priceListId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+/**
+ * Estimated values for many cases, keyed by case id.
+ * Price lists are loaded once per country and quantities in chunks.
+ */
+export const getCaseValueEstimates = async (cases: CaseBooking[]): Promise<Record<string, CaseValueEstimate>> => {
+  try {
+    const countries = Array.from(new Set(cases.map(caseItem => normalizeCountry(caseItem.country))));
+    const priceLists = (await Promise.all(countries.map(getPriceLists))).flat();
+
+    const quantitiesByCase: Record<string, Record<string, number>> = {};
+    for (let i = 0; i < cases.length; i += QUANTITY_CHUNK_SIZE) {
+      const chunk = cases.slice(i, i + QUANTITY_CHUNK_SIZE).map(caseItem => caseItem.id);
+      Object.assign(quantitiesByCase, await getManifestQuantities(chunk));
+    }
+
+    const estimates: Record<string, CaseValueEstimate> = {};
+    cases.forEach(caseItem => {
+      estimates[caseItem.id] = estimateCaseValue(caseItem, quantitiesByCase[caseItem.id] || {}, priceLists);
+    });
+    return estimates;
+  } catch (error) {
+    throw error;
+  }
+};
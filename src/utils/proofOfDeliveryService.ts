@@ -0,0 +1,143 @@
+/**
+ * Proof of Delivery Service - Receiver signature, geotag and timestamp for hospital deliveries
+ *
+ * The proof is saved as a `proofOfDelivery` object inside the JSON details of the
+ * "Delivered (Hospital)" status history entry, next to the existing comments and
+ * attachments, so it travels with the status change and needs no extra table.
+ * Location is optional - a denied or unavailable GPS never blocks a delivery.
+ */
+
+import { CaseBooking, StatusHistory } from '../types';
+import { CASE_STATUSES } from '../constants/statuses';
+
+export interface ProofOfDeliveryLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // metres
+}
+
+export interface ProofOfDelivery {
+  receiverName: string;
+  signature: string; // PNG data URL drawn on the signature pad
+  capturedAt: string; // ISO timestamp
+  capturedBy: string;
+  location?: ProofOfDeliveryLocation;
+}
+
+/**
+ * What the delivery form holds before the proof is stamped and saved
+ */
+export interface ProofOfDeliveryDraft {
+  receiverName: string;
+  signature: string;
+  location?: ProofOfDeliveryLocation;
+}
+
+export const EMPTY_PROOF_OF_DELIVERY_DRAFT: ProofOfDeliveryDraft = {
+  receiverName: '',
+  signature: ''
+};
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Validation messages for a draft - empty when it can be saved
+ */
+export const validateProofOfDelivery = (draft: ProofOfDeliveryDraft): string[] => {
+  const errors: string[] = [];
+  if (!draft.receiverName.trim()) {
+    errors.push('Receiver name is required');
+  }
+  if (!draft.signature.startsWith('data:image/')) {
+    errors.push('Receiver signature is required');
+  }
+  return errors;
+};
+
+/**
+ * Stamp a draft with who captured it and when
+ */
+export const buildProofOfDelivery = (
+  draft: ProofOfDeliveryDraft,
+  capturedBy: string,
+  capturedAt: Date = new Date()
+): ProofOfDelivery => ({
+  receiverName: draft.receiverName.trim(),
+  signature: draft.signature,
+  capturedAt: capturedAt.toISOString(),
+  capturedBy,
+  ...(draft.location ? { location: draft.location } : {})
+});
+
+/**
+ * Proof of delivery stored in status history details - null for plain text or older entries
+ */
+export const parseProofOfDelivery = (details?: string): ProofOfDelivery | null => {
+  if (!details) {
+    return null;
+  }
+  try {
+    const pod = JSON.parse(details)?.proofOfDelivery;
+    return pod && typeof pod.receiverName === 'string' && typeof pod.signature === 'string' ? pod : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Latest hospital delivery entry of a case that carries a proof of delivery
+ */
+export const getCaseProofOfDelivery = (
+  caseItem: Pick<CaseBooking, 'statusHistory'>
+): { pod: ProofOfDelivery; historyItem: StatusHistory } | null => {
+  const history = [...(caseItem.statusHistory || [])].reverse();
+  for (const historyItem of history) {
+    if (historyItem.status !== CASE_STATUSES.DELIVERED_HOSPITAL) continue;
+    const pod = parseProofOfDelivery(historyItem.details);
+    if (pod) {
+      return { pod, historyItem };
+    }
+  }
+  return null;
+};
+
+/**
+ * "1.35210, 103.81980 (±12 m)"
+ */
+export const formatPodLocation = (location: ProofOfDeliveryLocation): string =>
+  `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}` +
+  (location.accuracy !== undefined ? ` (±${Math.round(location.accuracy)} m)` : '');
+
+export const getPodMapLink = (location: ProofOfDeliveryLocation): string =>
+  `https://www.google.com/maps?q=${location.latitude},${location.longitude}`;
+
+// ================================================
+// DEVICE
+// ================================================
+
+/**
+ * Current device position - rejects with a readable message when unsupported or denied
+ */
+export const captureDeviceLocation = (timeoutMs: number = 10000): Promise<ProofOfDeliveryLocation> =>
+  new Promise((resolve, reject) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      reject(new Error('Location is not supported on this device'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy
+      }),
+      error => reject(new Error(
+        error.code === error.PERMISSION_DENIED
+          ? 'Location permission was denied'
+          : 'Could not determine the current location'
+      )),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
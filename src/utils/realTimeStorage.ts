@@ -9,6 +9,7 @@ import { realtimeCaseService } from '../services/realtimeCaseService';
 import { supabase } from '../lib/supabase';
 import { getCurrentUserSync } from './authCompat';
 import { CASE_STATUSES } from '../constants';
+import type { AmendCaseOptions, AmendmentOutcome } from './amendmentApprovalService';
 import { 
   CASE_BOOKINGS_FIELDS, 
   CASE_QUANTITIES_FIELDS, 
@@ -132,8 +133,9 @@ export const getImplantBoxes = async (country: string): Promise<string[]> => {tr
 // Amend case - direct database operation
 export const amendCase = async (
   caseId: string,
-  amendmentData: Partial<CaseBooking>
-): Promise<boolean> => {try {
+  amendmentData: Partial<CaseBooking>,
+  options: AmendCaseOptions = {}
+): Promise<AmendmentOutcome | false> => {try {
     const currentUser = getCurrentUserSync();
     if (!currentUser) {
       throw new Error('No current user found');
@@ -142,7 +144,7 @@ export const amendCase = async (
     return await realtimeCaseService.amendCase(caseId, amendmentData, {
       id: currentUser.id,
       name: currentUser.name
-    });
+    }, options);
   } catch (error) {
     throw error; // No localStorage fallback - fail fast
   }
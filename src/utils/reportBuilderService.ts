@@ -0,0 +1,356 @@
+/**
+ * Report Builder Service - User-defined pivot reports
+ *
+ * A definition picks a row dimension, an optional column dimension and one measure,
+ * and stores the ReportFilters that were applied when it was saved. Cases are
+ * filtered with the same filter model as the fixed reports, then grouped into a pivot
+ * table. Definitions belong to the user who saved them and can be shared with roles.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseBooking, CaseStatus } from '../types';
+import { REPORT_DEFINITIONS_FIELDS } from './fieldMappings';
+import { DEFAULT_REPORT_FILTERS, ReportFilters } from './reportExportService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type PivotDimension =
+  | 'country'
+  | 'department'
+  | 'hospital'
+  | 'doctor'
+  | 'procedureType'
+  | 'status'
+  | 'month'
+  | 'submitter';
+
+export type PivotMeasure = 'caseCount' | 'setQuantity' | 'implantQuantity' | 'cancellationRate';
+
+export type PivotChartType = 'bar' | 'line';
+
+export interface ReportDefinition {
+  id?: string;
+  name: string;
+  rowDimension: PivotDimension;
+  /** Empty for a single total column */
+  columnDimension: PivotDimension | '';
+  measure: PivotMeasure;
+  chartType: PivotChartType;
+  filters: ReportFilters;
+  sharedRoles: string[];
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+export interface PivotTable {
+  rowKeys: string[];
+  columnKeys: string[];
+  /** cells[rowKey][columnKey] - only filled when there is a column dimension */
+  cells: Record<string, Record<string, number>>;
+  rowTotals: Record<string, number>;
+  columnTotals: Record<string, number>;
+  grandTotal: number;
+}
+
+export const PIVOT_DIMENSION_LABELS: Record<PivotDimension, string> = {
+  country: 'Country',
+  department: 'Department',
+  hospital: 'Hospital',
+  doctor: 'Doctor',
+  procedureType: 'Procedure Type',
+  status: 'Status',
+  month: 'Month',
+  submitter: 'Submitter'
+};
+
+export const PIVOT_MEASURE_LABELS: Record<PivotMeasure, string> = {
+  caseCount: 'Case Count',
+  setQuantity: 'Set Quantity',
+  implantQuantity: 'Implant Quantity',
+  cancellationRate: 'Cancellation Rate (%)'
+};
+
+export const DEFAULT_REPORT_DEFINITION: ReportDefinition = {
+  name: '',
+  rowDimension: 'country',
+  columnDimension: '',
+  measure: 'caseCount',
+  chartType: 'bar',
+  filters: { ...DEFAULT_REPORT_FILTERS, reportType: 'builder' },
+  sharedRoles: []
+};
+
+// Shown for cases with no value for a dimension (e.g. no doctor recorded)
+export const PIVOT_EMPTY_LABEL = '(none)';
+
+const CASE_CANCELLED: CaseStatus = 'Case Cancelled';
+
+interface PivotAccumulator {
+  cases: number;
+  cancelled: number;
+  sets: number;
+  implants: number;
+}
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * The value a case is grouped under for a dimension
+ */
+export const getDimensionValue = (
+  caseItem: CaseBooking,
+  dimension: PivotDimension,
+  getUserName: (userId: string) => string
+): string => {
+  const value = (() => {
+    switch (dimension) {
+      case 'doctor':
+        return caseItem.doctorName;
+      case 'month':
+        return caseItem.dateOfSurgery?.slice(0, 7);
+      case 'submitter':
+        return caseItem.submittedBy ? getUserName(caseItem.submittedBy) : '';
+      default:
+        return caseItem[dimension];
+    }
+  })();
+  return value?.trim() || PIVOT_EMPTY_LABEL;
+};
+
+/**
+ * Booked set and implant quantities - selected items without a quantity row count once
+ */
+export const getCaseItemQuantities = (
+  caseItem: CaseBooking,
+  quantities: Record<string, number> = {}
+): { sets: number; implants: number } => {
+  const sum = (items: string[] | undefined) =>
+    (items || []).reduce((total, item) => total + (quantities[item] ?? 1), 0);
+  return { sets: sum(caseItem.surgerySetSelection), implants: sum(caseItem.implantBox) };
+};
+
+const measureValue = (accumulator: PivotAccumulator | undefined, measure: PivotMeasure): number => {
+  if (!accumulator) return 0;
+  switch (measure) {
+    case 'setQuantity':
+      return accumulator.sets;
+    case 'implantQuantity':
+      return accumulator.implants;
+    case 'cancellationRate':
+      return accumulator.cases > 0 ? Math.round((accumulator.cancelled / accumulator.cases) * 1000) / 10 : 0;
+    default:
+      return accumulator.cases;
+  }
+};
+
+const sortKeys = (
+  keys: string[],
+  dimension: PivotDimension,
+  totals: Record<string, number>,
+  statusOrder: CaseStatus[]
+): string[] =>
+  [...keys].sort((a, b) => {
+    if (a === PIVOT_EMPTY_LABEL || b === PIVOT_EMPTY_LABEL) {
+      return a === PIVOT_EMPTY_LABEL ? 1 : -1;
+    }
+    if (dimension === 'month') {
+      return a.localeCompare(b);
+    }
+    if (dimension === 'status' && statusOrder.length > 0) {
+      const rank = (status: string) => {
+        const index = statusOrder.indexOf(status as CaseStatus);
+        return index === -1 ? statusOrder.length : index;
+      };
+      return rank(a) - rank(b) || a.localeCompare(b);
+    }
+    return totals[b] - totals[a] || a.localeCompare(b);
+  });
+
+/**
+ * Group cases into a pivot table. Totals are computed from the underlying cases,
+ * so a cancellation rate total is the overall rate rather than a sum of rates.
+ */
+export const buildPivot = (params: {
+  cases: CaseBooking[];
+  rowDimension: PivotDimension;
+  columnDimension: PivotDimension | '';
+  measure: PivotMeasure;
+  getUserName: (userId: string) => string;
+  quantitiesByCase?: Record<string, Record<string, number>>;
+  statusOrder?: CaseStatus[];
+}): PivotTable => {
+  const { cases, rowDimension, columnDimension, measure, getUserName, quantitiesByCase = {}, statusOrder = [] } = params;
+
+  const cellAccumulators: Record<string, Record<string, PivotAccumulator>> = {};
+  const rowAccumulators: Record<string, PivotAccumulator> = {};
+  const columnAccumulators: Record<string, PivotAccumulator> = {};
+  const grandAccumulator: PivotAccumulator = { cases: 0, cancelled: 0, sets: 0, implants: 0 };
+
+  const add = (accumulator: PivotAccumulator, caseItem: CaseBooking, sets: number, implants: number) => {
+    accumulator.cases += 1;
+    accumulator.cancelled += caseItem.status === CASE_CANCELLED ? 1 : 0;
+    accumulator.sets += sets;
+    accumulator.implants += implants;
+  };
+  const empty = (): PivotAccumulator => ({ cases: 0, cancelled: 0, sets: 0, implants: 0 });
+
+  cases.forEach(caseItem => {
+    const { sets, implants } = getCaseItemQuantities(caseItem, quantitiesByCase[caseItem.id]);
+    const rowKey = getDimensionValue(caseItem, rowDimension, getUserName);
+
+    add(rowAccumulators[rowKey] = rowAccumulators[rowKey] || empty(), caseItem, sets, implants);
+    add(grandAccumulator, caseItem, sets, implants);
+
+    if (columnDimension) {
+      const columnKey = getDimensionValue(caseItem, columnDimension, getUserName);
+      add(columnAccumulators[columnKey] = columnAccumulators[columnKey] || empty(), caseItem, sets, implants);
+      cellAccumulators[rowKey] = cellAccumulators[rowKey] || {};
+      add(cellAccumulators[rowKey][columnKey] = cellAccumulators[rowKey][columnKey] || empty(), caseItem, sets, implants);
+    }
+  });
+
+  const toValues = (accumulators: Record<string, PivotAccumulator>) =>
+    Object.fromEntries(Object.entries(accumulators).map(([key, accumulator]) => [key, measureValue(accumulator, measure)]));
+
+  const rowTotals = toValues(rowAccumulators);
+  const columnTotals = toValues(columnAccumulators);
+  const cells = Object.fromEntries(
+    Object.entries(cellAccumulators).map(([rowKey, columns]) => [rowKey, toValues(columns)])
+  );
+
+  return {
+    rowKeys: sortKeys(Object.keys(rowTotals), rowDimension, rowTotals, statusOrder),
+    columnKeys: columnDimension ? sortKeys(Object.keys(columnTotals), columnDimension, columnTotals, statusOrder) : [],
+    cells,
+    rowTotals,
+    columnTotals,
+    grandTotal: measureValue(grandAccumulator, measure)
+  };
+};
+
+/**
+ * Header and data rows of a pivot table, for CSV export
+ */
+export const buildPivotRows = (
+  pivot: PivotTable,
+  definition: Pick<ReportDefinition, 'rowDimension' | 'measure'>
+): Array<Array<string | number>> => [
+  [PIVOT_DIMENSION_LABELS[definition.rowDimension], ...pivot.columnKeys, `Total ${PIVOT_MEASURE_LABELS[definition.measure]}`],
+  ...pivot.rowKeys.map(rowKey => [
+    rowKey,
+    ...pivot.columnKeys.map(columnKey => pivot.cells[rowKey]?.[columnKey] ?? 0),
+    pivot.rowTotals[rowKey]
+  ]),
+  ['Total', ...pivot.columnKeys.map(columnKey => pivot.columnTotals[columnKey]), pivot.grandTotal]
+];
+
+/**
+ * Owners, admins and the roles a definition is shared with can open it
+ */
+export const canViewReportDefinition = (
+  definition: ReportDefinition,
+  user: { id: string; role: string }
+): boolean =>
+  user.role === 'admin' || definition.createdBy === user.id || definition.sharedRoles.includes(user.role);
+
+/**
+ * Only the owner (or an admin) can change or delete a definition
+ */
+export const canEditReportDefinition = (
+  definition: ReportDefinition,
+  user: { id: string; role: string }
+): boolean =>
+  user.role === 'admin' || !definition.id || definition.createdBy === user.id;
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+const rowToDefinition = (row: any): ReportDefinition => ({
+  id: row[REPORT_DEFINITIONS_FIELDS.id],
+  name: row[REPORT_DEFINITIONS_FIELDS.name],
+  rowDimension: row[REPORT_DEFINITIONS_FIELDS.rowDimension],
+  columnDimension: row[REPORT_DEFINITIONS_FIELDS.columnDimension] || '',
+  measure: row[REPORT_DEFINITIONS_FIELDS.measure],
+  chartType: row[REPORT_DEFINITIONS_FIELDS.chartType] || 'bar',
+  filters: { ...DEFAULT_REPORT_DEFINITION.filters, ...(row[REPORT_DEFINITIONS_FIELDS.filters] || {}) },
+  sharedRoles: row[REPORT_DEFINITIONS_FIELDS.sharedRoles] || [],
+  createdBy: row[REPORT_DEFINITIONS_FIELDS.createdBy],
+  updatedAt: row[REPORT_DEFINITIONS_FIELDS.updatedAt]
+});
+
+/**
+ * Definitions the user can open, by name
+ */
+export const getReportDefinitions = async (user: { id: string; role: string }): Promise<ReportDefinition[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('report_definitions')
+      .select('*')
+      .order(REPORT_DEFINITIONS_FIELDS.name);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(rowToDefinition).filter(definition => canViewReportDefinition(definition, user));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Create or update a definition - new definitions are owned by `ownerId`
+ */
+export const saveReportDefinition = async (definition: ReportDefinition, ownerId: string): Promise<ReportDefinition> => {
+  const row = {
+    [REPORT_DEFINITIONS_FIELDS.name]: definition.name.trim(),
+    [REPORT_DEFINITIONS_FIELDS.rowDimension]: definition.rowDimension,
+    [REPORT_DEFINITIONS_FIELDS.columnDimension]: definition.columnDimension || null,
+    [REPORT_DEFINITIONS_FIELDS.measure]: definition.measure,
+    [REPORT_DEFINITIONS_FIELDS.chartType]: definition.chartType,
+    [REPORT_DEFINITIONS_FIELDS.filters]: { ...definition.filters, reportType: 'builder' },
+    [REPORT_DEFINITIONS_FIELDS.sharedRoles]: definition.sharedRoles,
+    [REPORT_DEFINITIONS_FIELDS.updatedAt]: new Date().toISOString()
+  };
+
+  try {
+    const { data, error } = definition.id
+      ? await supabase
+          .from('report_definitions')
+          .update(row)
+          .eq(REPORT_DEFINITIONS_FIELDS.id, definition.id)
+          .select()
+          .single()
+      : await supabase
+          .from('report_definitions')
+          .insert([{ ...row, [REPORT_DEFINITIONS_FIELDS.createdBy]: ownerId }])
+          .select()
+          .single();
+
+    if (error) {
+      throw error;
+    }
+    return rowToDefinition(data);
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const deleteReportDefinition = async (definitionId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('report_definitions')
+      .delete()
+      .eq(REPORT_DEFINITIONS_FIELDS.id, definitionId);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,146 @@
+/**
+ * Report Export Service - Report filters and the detailed case export
+ *
+ * Shared by the Reports page and scheduled report delivery so a scheduled report
+ * contains exactly what "Export to Excel" downloads for the same filters.
+ */
+
+import { CaseBooking, CaseStatus } from '../types';
+import { formatDate } from './dateFormat';
+import { CaseValueEstimate } from './priceListService';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type ReportType = 'overview' | 'workflow' | 'workflowPerformance' | 'performance' | 'detailed' | 'builder';
+
+export interface ReportFilters {
+  dateFrom: string;
+  dateTo: string;
+  status: CaseStatus | '';
+  country: string;
+  department: string;
+  submitter: string;
+  reportType: ReportType;
+}
+
+export const DEFAULT_REPORT_FILTERS: ReportFilters = {
+  dateFrom: '',
+  dateTo: '',
+  status: '',
+  country: '',
+  department: '',
+  submitter: '',
+  reportType: 'overview'
+};
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  overview: 'Overview Dashboard',
+  workflow: 'Workflow Analysis',
+  workflowPerformance: 'Workflow Performance',
+  performance: 'Performance Metrics',
+  detailed: 'Detailed Report',
+  builder: 'Report Builder'
+};
+
+export const DETAILED_REPORT_HEADERS = [
+  'Case Reference', 'Hospital', 'Department', 'Date of Surgery', 'Time of Procedure',
+  'Procedure Type', 'Procedure Name', 'Doctor', 'Status', 'Country',
+  'Surgery Sets', 'Implant Boxes', 'Special Instructions',
+  'Submitted By', 'Submitted At', 'Processed By', 'Processed At',
+  'Amended By', 'Amended At', 'Is Amended', 'DO Number',
+  'Delivery Details', 'Order Summary', 'Currency', 'Estimated Value'
+];
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Cases matching the report filters (surgery date range, status, country, department, submitter)
+ */
+export const filterReportCases = (
+  cases: CaseBooking[],
+  filters: ReportFilters,
+  getUserName: (userId: string) => string
+): CaseBooking[] => {
+  let filtered = [...cases];
+
+  // Date range filter
+  if (filters.dateFrom) {
+    filtered = filtered.filter(c => c.dateOfSurgery >= filters.dateFrom);
+  }
+  if (filters.dateTo) {
+    filtered = filtered.filter(c => c.dateOfSurgery <= filters.dateTo);
+  }
+
+  // Status filter
+  if (filters.status) {
+    filtered = filtered.filter(c => c.status === filters.status);
+  }
+
+  // Country filter
+  if (filters.country) {
+    filtered = filtered.filter(c => c.country === filters.country);
+  }
+
+  // Department filter
+  if (filters.department) {
+    filtered = filtered.filter(c => c.department === filters.department);
+  }
+
+  // Submitter filter
+  if (filters.submitter) {
+    filtered = filtered.filter(c => {
+      const userName = getUserName(c.submittedBy);
+      return userName.toLowerCase().includes(filters.submitter.toLowerCase()) ||
+             c.submittedBy.toLowerCase().includes(filters.submitter.toLowerCase());
+    });
+  }
+
+  return filtered;
+};
+
+/**
+ * One row per case, in DETAILED_REPORT_HEADERS order
+ */
+export const buildDetailedReportRows = (
+  cases: CaseBooking[],
+  valueEstimates: Record<string, CaseValueEstimate>
+): string[][] =>
+  cases.map(c => [
+    c.caseReferenceNumber || '',
+    c.hospital || '',
+    c.department || '',
+    c.dateOfSurgery || '',
+    c.timeOfProcedure || '',
+    c.procedureType || '',
+    c.procedureName || '',
+    c.doctorName || '',
+    c.status || '',
+    c.country || '',
+    Array.isArray(c.surgerySetSelection) ? c.surgerySetSelection.join('; ') : '',
+    Array.isArray(c.implantBox) ? c.implantBox.join('; ') : '',
+    c.specialInstruction || '',
+    c.submittedBy || '',
+    c.submittedAt ? formatDate(new Date(c.submittedAt)) : '',
+    c.processedBy || '',
+    c.processedAt ? formatDate(new Date(c.processedAt)) : '',
+    c.amendedBy || '',
+    c.amendedAt ? formatDate(new Date(c.amendedAt)) : '',
+    c.isAmended ? 'Yes' : 'No',
+    c.doNumber || '',
+    c.deliveryDetails || '',
+    c.orderSummary || '',
+    valueEstimates[c.id]?.currency || '',
+    valueEstimates[c.id]?.currency ? valueEstimates[c.id].value.toFixed(2) : ''
+  ]);
+
+/**
+ * Quoted CSV with doubled inner quotes
+ */
+export const toReportCsv = (rows: Array<Array<string | number>>): string =>
+  rows.map(row =>
+    row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
@@ -0,0 +1,313 @@
+/**
+ * Scheduled Report Service - Saved report definitions emailed on a schedule
+ *
+ * A schedule stores ReportFilters (including the report type), a daily, weekly or
+ * monthly send time in its own time zone and a recipient list. Schedules are sent by
+ * the scheduled-reports edge function, run every few minutes by pg_cron, which claims
+ * a due schedule by moving its next_run_at forward (conditional update). "Send Now"
+ * asks the same function to send one schedule straight away.
+ *
+ * The report is the same detailed export as "Export to Excel" on the Reports page
+ * (or the time-in-status table for Workflow Performance), sent as a CSV or XLSX
+ * attachment or as an HTML table, through the admin mailbox and the send-email edge
+ * function. Every run, successful or not, is recorded in report_runs. The report is
+ * built by supabase/functions/_shared/scheduledReport.ts, whose next send times mirror
+ * getNextRunAt here.
+ */
+
+import { supabase } from '../lib/supabase';
+import { REPORT_RUNS_FIELDS, REPORT_SCHEDULES_FIELDS } from './fieldMappings';
+import { DEFAULT_REPORT_FILTERS, ReportFilters } from './reportExportService';
+import { getZonedParts, zonedTimeToUtc } from './timeZones';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+export type ReportFormat = 'csv' | 'xlsx' | 'html';
+export type ReportRunStatus = 'success' | 'failed';
+
+export interface ReportSchedule {
+  id?: string;
+  name: string;
+  filters: ReportFilters;
+  frequency: ReportFrequency;
+  /** 0-6, Sunday = 0 - weekly schedules */
+  dayOfWeek: number;
+  /** 1-28 - monthly schedules */
+  dayOfMonth: number;
+  /** Hour of day in timeZone, 0-23 */
+  hour: number;
+  /** IANA time zone the send time is in, e.g. Asia/Singapore */
+  timeZone: string;
+  format: ReportFormat;
+  recipients: string[];
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string | null;
+  lastRunStatus?: ReportRunStatus | null;
+  createdBy?: string;
+}
+
+export interface ReportRun {
+  id?: string;
+  scheduleId: string;
+  startedAt: string;
+  finishedAt: string;
+  status: ReportRunStatus;
+  trigger: 'schedule' | 'manual';
+  caseCount: number;
+  recipients: string[];
+  error?: string | null;
+}
+
+export const DEFAULT_REPORT_SCHEDULE: ReportSchedule = {
+  name: '',
+  filters: DEFAULT_REPORT_FILTERS,
+  frequency: 'weekly',
+  dayOfWeek: 1, // Monday
+  dayOfMonth: 1,
+  hour: 8,
+  timeZone: 'Asia/Singapore',
+  format: 'xlsx',
+  recipients: [],
+  enabled: true
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+// 'YYYY-MM-DD' of a calendar day - days past the end of the month roll over, as with Date.UTC
+const toDateString = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return !!timeZone;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * First send time strictly after `after`, in the schedule's time zone
+ */
+export const getNextRunAt = (
+  schedule: Pick<ReportSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour' | 'timeZone'>,
+  after: Date
+): Date => {
+  const today = getZonedParts(after, schedule.timeZone);
+  const sendAt = (day: number, monthOffset = 0) =>
+    zonedTimeToUtc(toDateString(today.year, today.month + monthOffset, day), schedule.hour, 0, schedule.timeZone);
+
+  if (schedule.frequency === 'monthly') {
+    const thisMonth = sendAt(schedule.dayOfMonth);
+    return thisMonth > after ? thisMonth : sendAt(schedule.dayOfMonth, 1);
+  }
+
+  for (let day = today.day; ; day++) {
+    const next = sendAt(day);
+    const weekday = new Date(Date.UTC(today.year, today.month - 1, day)).getUTCDay();
+    if (next > after && (schedule.frequency !== 'weekly' || weekday === schedule.dayOfWeek)) {
+      return next;
+    }
+  }
+};
+
+/**
+ * Check a schedule before saving - returns error messages
+ */
+export const validateReportSchedule = (schedule: ReportSchedule): string[] => {
+  const errors: string[] = [];
+
+  if (!schedule.name.trim()) {
+    errors.push('Schedule name is required');
+  }
+  if (schedule.recipients.length === 0) {
+    errors.push('Add at least one recipient');
+  }
+  const invalid = schedule.recipients.filter(email => !EMAIL_PATTERN.test(email));
+  if (invalid.length > 0) {
+    errors.push(`Invalid email address: ${invalid.join(', ')}`);
+  }
+  if (!Number.isInteger(schedule.hour) || schedule.hour < 0 || schedule.hour > 23) {
+    errors.push('Send hour must be between 0 and 23');
+  }
+  if (!isValidTimeZone(schedule.timeZone)) {
+    errors.push('Choose a time zone');
+  }
+  if (schedule.frequency === 'weekly' && (schedule.dayOfWeek < 0 || schedule.dayOfWeek > 6)) {
+    errors.push('Choose a day of the week');
+  }
+  if (schedule.frequency === 'monthly' && (schedule.dayOfMonth < 1 || schedule.dayOfMonth > 28)) {
+    errors.push('Day of month must be between 1 and 28');
+  }
+
+  return errors;
+};
+
+/**
+ * Split a recipients text box (commas, semicolons or new lines) into addresses
+ */
+export const parseRecipients = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean)));
+
+// ================================================
+// DATA ACCESS
+// ================================================
+
+const rowToSchedule = (row: any): ReportSchedule => ({
+  id: row[REPORT_SCHEDULES_FIELDS.id],
+  name: row[REPORT_SCHEDULES_FIELDS.name],
+  filters: { ...DEFAULT_REPORT_FILTERS, ...(row[REPORT_SCHEDULES_FIELDS.filters] || {}) },
+  frequency: row[REPORT_SCHEDULES_FIELDS.frequency],
+  dayOfWeek: row[REPORT_SCHEDULES_FIELDS.dayOfWeek] ?? DEFAULT_REPORT_SCHEDULE.dayOfWeek,
+  dayOfMonth: row[REPORT_SCHEDULES_FIELDS.dayOfMonth] ?? DEFAULT_REPORT_SCHEDULE.dayOfMonth,
+  hour: row[REPORT_SCHEDULES_FIELDS.hour],
+  timeZone: row[REPORT_SCHEDULES_FIELDS.timezone] || DEFAULT_REPORT_SCHEDULE.timeZone,
+  format: row[REPORT_SCHEDULES_FIELDS.format],
+  recipients: row[REPORT_SCHEDULES_FIELDS.recipients] || [],
+  enabled: row[REPORT_SCHEDULES_FIELDS.enabled],
+  nextRunAt: row[REPORT_SCHEDULES_FIELDS.nextRunAt],
+  lastRunAt: row[REPORT_SCHEDULES_FIELDS.lastRunAt],
+  lastRunStatus: row[REPORT_SCHEDULES_FIELDS.lastRunStatus],
+  createdBy: row[REPORT_SCHEDULES_FIELDS.createdBy]
+});
+
+const rowToRun = (row: any): ReportRun => ({
+  id: row[REPORT_RUNS_FIELDS.id],
+  scheduleId: row[REPORT_RUNS_FIELDS.scheduleId],
+  startedAt: row[REPORT_RUNS_FIELDS.startedAt],
+  finishedAt: row[REPORT_RUNS_FIELDS.finishedAt],
+  status: row[REPORT_RUNS_FIELDS.status],
+  trigger: row[REPORT_RUNS_FIELDS.trigger],
+  caseCount: row[REPORT_RUNS_FIELDS.caseCount] || 0,
+  recipients: row[REPORT_RUNS_FIELDS.recipients] || [],
+  error: row[REPORT_RUNS_FIELDS.error]
+});
+
+/**
+ * All report schedules, by name
+ */
+export const getReportSchedules = async (): Promise<ReportSchedule[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('report_schedules')
+      .select('*')
+      .order(REPORT_SCHEDULES_FIELDS.name);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(rowToSchedule);
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Create or update a schedule - the next send time is recalculated from now
+ */
+export const saveReportSchedule = async (schedule: ReportSchedule, savedBy: string): Promise<ReportSchedule> => {
+  const now = new Date();
+  const row = {
+    [REPORT_SCHEDULES_FIELDS.name]: schedule.name.trim(),
+    [REPORT_SCHEDULES_FIELDS.filters]: schedule.filters,
+    [REPORT_SCHEDULES_FIELDS.frequency]: schedule.frequency,
+    [REPORT_SCHEDULES_FIELDS.dayOfWeek]: schedule.dayOfWeek,
+    [REPORT_SCHEDULES_FIELDS.dayOfMonth]: schedule.dayOfMonth,
+    [REPORT_SCHEDULES_FIELDS.hour]: schedule.hour,
+    [REPORT_SCHEDULES_FIELDS.timezone]: schedule.timeZone,
+    [REPORT_SCHEDULES_FIELDS.format]: schedule.format,
+    [REPORT_SCHEDULES_FIELDS.recipients]: schedule.recipients,
+    [REPORT_SCHEDULES_FIELDS.enabled]: schedule.enabled,
+    [REPORT_SCHEDULES_FIELDS.nextRunAt]: getNextRunAt(schedule, now).toISOString(),
+    [REPORT_SCHEDULES_FIELDS.updatedAt]: now.toISOString()
+  };
+
+  try {
+    const { data, error } = schedule.id
+      ? await supabase
+          .from('report_schedules')
+          .update(row)
+          .eq(REPORT_SCHEDULES_FIELDS.id, schedule.id)
+          .select()
+          .single()
+      : await supabase
+          .from('report_schedules')
+          .insert([{ ...row, [REPORT_SCHEDULES_FIELDS.createdBy]: savedBy }])
+          .select()
+          .single();
+
+    if (error) {
+      throw error;
+    }
+    return rowToSchedule(data);
+  } catch (error) {
+    throw error;
+  }
+};
+
+export const deleteReportSchedule = async (scheduleId: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('report_schedules')
+      .delete()
+      .eq(REPORT_SCHEDULES_FIELDS.id, scheduleId);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Most recent runs, newest first - optionally for one schedule
+ */
+export const getReportRuns = async (scheduleId?: string, limit = 50): Promise<ReportRun[]> => {
+  try {
+    let query = supabase
+      .from('report_runs')
+      .select('*')
+      .order(REPORT_RUNS_FIELDS.startedAt, { ascending: false })
+      .limit(limit);
+
+    if (scheduleId) {
+      query = query.eq(REPORT_RUNS_FIELDS.scheduleId, scheduleId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(rowToRun);
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ================================================
+// SENDING
+// ================================================
+
+/**
+ * Build and email one schedule's report now, through the scheduled-reports edge
+ * function. A failed send comes back as a failed run (also recorded in report_runs).
+ */
+export const runReportSchedule = async (schedule: ReportSchedule): Promise<ReportRun> => {
+  const { data, error } = await supabase.functions.invoke('scheduled-reports', {
+    body: { scheduleId: schedule.id }
+  });
+
+  if (error) {
+    throw error;
+  }
+  return data as ReportRun;
+};
@@ -0,0 +1,251 @@
+/**
+ * Status Transition Guard
+ * A status change must exist in the case country's workflow, the actor's role must hold
+ * the transition's PERMISSION_ACTIONS entry, and required fields must be present. A
+ * cancelled case may only be reinstated to the status it had before its cancellation.
+ *
+ * The database enforces these rules: case status is only written through the
+ * change_case_status() function (supabase/migrations/*_case_status_transition_guard.sql),
+ * which re-checks them for the signed-in user. assertCaseStatusTransition runs the same
+ * checks in the browser first so the UI can explain a rejection before anything is sent.
+ *
+ * validateStatusTransition is pure so it can be unit tested without a database.
+ */
+
+import { supabase } from '../lib/supabase';
+import { CaseStatus, StatusHistory } from '../types';
+import { hasPermission } from './permissions';
+import { CASE_BOOKINGS_FIELDS, STATUS_HISTORY_FIELDS } from './fieldMappings';
+import { getReinstateStatus } from './caseCancellationService';
+import {
+  StatusWorkflowDefinition,
+  StatusTransitionDefinition,
+  TransitionPayload,
+  WorkflowRequiredField,
+  findStatusTransition,
+  getMissingRequiredFields,
+  getStatusWorkflow,
+  isReinstateTransition
+} from './statusWorkflowService';
+
+export type StatusTransitionErrorCode =
+  | 'CASE_NOT_FOUND'
+  | 'INVALID_TRANSITION'
+  | 'PERMISSION_DENIED'
+  | 'MISSING_REQUIRED_FIELDS';
+
+/**
+ * Typed error thrown when a status change is rejected
+ */
+export class StatusTransitionError extends Error {
+  readonly code: StatusTransitionErrorCode;
+  readonly fromStatus?: CaseStatus;
+  readonly toStatus: CaseStatus;
+  readonly requiredPermission?: string;
+  readonly missingFields: WorkflowRequiredField[];
+
+  constructor(
+    code: StatusTransitionErrorCode,
+    message: string,
+    details: {
+      fromStatus?: CaseStatus;
+      toStatus: CaseStatus;
+      requiredPermission?: string;
+      missingFields?: WorkflowRequiredField[];
+    }
+  ) {
+    super(message);
+    this.name = 'StatusTransitionError';
+    this.code = code;
+    this.fromStatus = details.fromStatus;
+    this.toStatus = details.toStatus;
+    this.requiredPermission = details.requiredPermission;
+    this.missingFields = details.missingFields || [];
+    Object.setPrototypeOf(this, StatusTransitionError.prototype);
+  }
+}
+
+export const isStatusTransitionError = (error: unknown): error is StatusTransitionError =>
+  error instanceof StatusTransitionError;
+
+const REQUIRED_FIELD_LABELS: Record<WorkflowRequiredField, string> = {
+  doNumber: 'DO number',
+  attachments: 'attachments',
+  comments: 'comments'
+};
+
+export interface StatusTransitionRequest {
+  currentStatus: CaseStatus;
+  targetStatus: CaseStatus;
+  role: string | null | undefined;
+  workflow: StatusWorkflowDefinition;
+  payload?: TransitionPayload;
+  // Status the case had before its latest cancellation - see getReinstateStatus
+  reinstateStatus?: CaseStatus | null;
+  // Required fields the step itself supplies once the change is validated, e.g. the DO
+  // number issued with it - not checked here, the database still checks the final write
+  deferredFields?: WorkflowRequiredField[];
+  permissionChecker?: (roleId: string, actionId: string) => boolean;
+}
+
+/**
+ * Validate a status change - throws StatusTransitionError when it is not allowed
+ */
+export const validateStatusTransition = (request: StatusTransitionRequest): StatusTransitionDefinition => {
+  const {
+    currentStatus,
+    targetStatus,
+    role,
+    workflow,
+    payload = {},
+    reinstateStatus,
+    deferredFields = [],
+    permissionChecker = hasPermission
+  } = request;
+
+  const transition = findStatusTransition(workflow, currentStatus, targetStatus);
+  if (!transition) {
+    throw new StatusTransitionError(
+      'INVALID_TRANSITION',
+      `Cannot change status from "${currentStatus}" to "${targetStatus}" - this step is not part of the ${workflow.country || 'default'} workflow`,
+      { fromStatus: currentStatus, toStatus: targetStatus }
+    );
+  }
+
+  if (isReinstateTransition(transition) && targetStatus !== reinstateStatus) {
+    throw new StatusTransitionError(
+      'INVALID_TRANSITION',
+      reinstateStatus
+        ? `A cancelled case can only be reinstated to the status it had before cancellation ("${reinstateStatus}")`
+        : 'This case cannot be reinstated - its history does not show the status it was cancelled from',
+      { fromStatus: currentStatus, toStatus: targetStatus, requiredPermission: transition.permission }
+    );
+  }
+
+  if (!role || !permissionChecker(role, transition.permission)) {
+    throw new StatusTransitionError(
+      'PERMISSION_DENIED',
+      `Your role does not have permission to change status from "${currentStatus}" to "${targetStatus}"`,
+      { fromStatus: currentStatus, toStatus: targetStatus, requiredPermission: transition.permission }
+    );
+  }
+
+  const missingFields = getMissingRequiredFields(transition, payload).filter(field => !deferredFields.includes(field));
+  if (missingFields.length > 0) {
+    throw new StatusTransitionError(
+      'MISSING_REQUIRED_FIELDS',
+      `"${targetStatus}" requires: ${missingFields.map(f => REQUIRED_FIELD_LABELS[f]).join(', ')}`,
+      { fromStatus: currentStatus, toStatus: targetStatus, requiredPermission: transition.permission, missingFields }
+    );
+  }
+
+  return transition;
+};
+
+/**
+ * Status a cancelled case returns to, from its status history
+ */
+const loadReinstateStatus = async (caseId: string): Promise<CaseStatus | null> => {
+  const { data, error } = await supabase
+    .from('status_history')
+    .select(`${STATUS_HISTORY_FIELDS.status}, ${STATUS_HISTORY_FIELDS.timestamp}`)
+    .eq(STATUS_HISTORY_FIELDS.caseId, caseId);
+
+  if (error) {
+    throw error;
+  }
+  const statusHistory: StatusHistory[] = (data || []).map(row => ({
+    status: row.status as CaseStatus,
+    timestamp: row.timestamp,
+    processedBy: ''
+  }));
+  return getReinstateStatus({ status: 'Case Cancelled', statusHistory });
+};
+
+/**
+ * Load the case's current status and workflow, then validate the change for the current user.
+ * Returns the current status so callers can skip no-op updates.
+ */
+export const assertCaseStatusTransition = async (
+  caseId: string,
+  targetStatus: CaseStatus,
+  payload: TransitionPayload = {},
+  options: { deferredFields?: WorkflowRequiredField[] } = {}
+): Promise<{ currentStatus: CaseStatus; country: string }> => {
+  const { data: currentCase, error } = await supabase
+    .from('case_bookings')
+    .select(`${CASE_BOOKINGS_FIELDS.status}, ${CASE_BOOKINGS_FIELDS.country}`)
+    .eq('id', caseId)
+    .single();
+
+  if (error || !currentCase) {
+    throw new StatusTransitionError(
+      'CASE_NOT_FOUND',
+      `Failed to fetch case data for status update${error ? `: ${error.message}` : ''}`,
+      { toStatus: targetStatus }
+    );
+  }
+
+  const currentStatus = currentCase.status as CaseStatus;
+  const country = currentCase.country as string;
+
+  // Re-submitting the current status is a no-op, not a transition
+  if (currentStatus === targetStatus) {
+    return { currentStatus, country };
+  }
+
+  const { getCurrentUser } = await import('./authCompat');
+  const currentUser = getCurrentUser();
+  const workflow = await getStatusWorkflow(country);
+
+  validateStatusTransition({
+    currentStatus,
+    targetStatus,
+    role: currentUser?.role,
+    workflow,
+    payload,
+    reinstateStatus: currentStatus === 'Case Cancelled' ? await loadReinstateStatus(caseId) : undefined,
+    deferredFields: options.deferredFields
+  });
+
+  return { currentStatus, country };
+};
+
+const STATUS_TRANSITION_ERROR_CODES: StatusTransitionErrorCode[] = [
+  'CASE_NOT_FOUND',
+  'INVALID_TRANSITION',
+  'PERMISSION_DENIED',
+  'MISSING_REQUIRED_FIELDS'
+];
+
+/**
+ * Write a status change through change_case_status(), which validates it server-side and
+ * records the status history row in the same transaction. The history row is attributed
+ * to the signed-in user the database resolves, not to a name sent by the browser.
+ * Database rejections are rethrown as StatusTransitionError.
+ */
+export const applyCaseStatusTransition = async (params: {
+  caseId: string;
+  targetStatus: CaseStatus;
+  details?: string | null;
+  attachments?: string[] | null;
+}): Promise<void> => {
+  const { caseId, targetStatus, details, attachments } = params;
+  const { getCurrentSessionToken } = await import('./auth');
+
+  const { error } = await supabase.rpc('change_case_status', {
+    p_case_id: caseId,
+    p_status: targetStatus,
+    p_details: details ?? null,
+    p_attachments: attachments ?? null,
+    p_session_token: await getCurrentSessionToken()
+  });
+
+  if (error) {
+    const code = STATUS_TRANSITION_ERROR_CODES.find(c => c === error.hint);
+    if (code) {
+      throw new StatusTransitionError(code, error.message, { toStatus: targetStatus });
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,324 @@
+/**
+ * Status Workflow Service - Per-country case lifecycle definitions
+ * Replaces the hardcoded STATUS_WORKFLOW ordering with data-driven transitions.
+ * Each country's workflow is stored as JSONB in system_settings under
+ * `status_workflow_<country>`; countries without a stored row use the defaults below.
+ */
+
+import { CaseStatus } from '../types';
+import { PERMISSION_ACTIONS } from './permissions';
+import { normalizeCountry } from './countryUtils';
+import { countrySettingsStore } from './countrySettingsStore';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type WorkflowRequiredField = 'doNumber' | 'attachments' | 'comments';
+
+export interface StatusTransitionDefinition {
+  from: CaseStatus;
+  to: CaseStatus;
+  permission: string; // PERMISSION_ACTIONS value required to perform this transition
+  label: string;
+  requiredFields?: WorkflowRequiredField[];
+}
+
+export interface StatusWorkflowDefinition {
+  country: string;
+  statuses: CaseStatus[]; // Lifecycle order - used for progress display
+  legacyStatuses?: CaseStatus[]; // Dropped from the lifecycle - existing cases may still hold them
+  transitions: StatusTransitionDefinition[];
+  updatedAt?: string;
+}
+
+export interface TransitionPayload {
+  details?: string;
+  attachments?: string[];
+}
+
+// ================================================
+// DEFAULT DEFINITIONS
+// ================================================
+
+const WORKFLOW_SETTING_PREFIX = 'status_workflow_';
+
+// Statuses from which a case may still be cancelled
+const CANCELLABLE_STATUSES: CaseStatus[] = [
+  'Case Booked',
+  'Loaner Received',
+  'Preparing Order',
+  'Order Prepared',
+  'Sales Approved',
+  'Pending Delivery (Hospital)',
+  'Delivered (Hospital)'
+];
+
+const buildCancelTransitions = (statuses: CaseStatus[]): StatusTransitionDefinition[] =>
+  statuses
+    .filter(status => CANCELLABLE_STATUSES.includes(status))
+    .map(status => ({
+      from: status,
+      to: 'Case Cancelled' as CaseStatus,
+      permission: PERMISSION_ACTIONS.CANCEL_CASE,
+      label: 'Cancel Case'
+    }));
+
+// Every cancellable status is a possible reinstate target; the transition guard only
+// allows the one the case had before its cancellation (getReinstateStatus)
+const buildReinstateTransitions = (statuses: CaseStatus[]): StatusTransitionDefinition[] =>
+  statuses
+    .filter(status => CANCELLABLE_STATUSES.includes(status))
+    .map(status => ({
+      from: 'Case Cancelled' as CaseStatus,
+      to: status,
+      permission: PERMISSION_ACTIONS.REINSTATE_CASE,
+      label: 'Reinstate Case'
+    }));
+
+const TAIL_TRANSITIONS: StatusTransitionDefinition[] = [
+  { from: 'Pending Delivery (Hospital)', to: 'Delivered (Hospital)', permission: PERMISSION_ACTIONS.DELIVERED_HOSPITAL, label: 'Delivered (Hospital)' },
+  { from: 'Delivered (Hospital)', to: 'Case Completed', permission: PERMISSION_ACTIONS.CASE_COMPLETED, label: 'Mark as Case Completed', requiredFields: ['doNumber'] },
+  { from: 'Case Completed', to: 'Pending Delivery (Office)', permission: PERMISSION_ACTIONS.PENDING_DELIVERY_OFFICE, label: 'Pending Delivery (Office)' },
+  { from: 'Pending Delivery (Office)', to: 'Delivered (Office)', permission: PERMISSION_ACTIONS.DELIVERED_OFFICE, label: 'Delivered (Office)' },
+  { from: 'Delivered (Office)', to: 'To be billed', permission: PERMISSION_ACTIONS.TO_BE_BILLED, label: 'Mark as To be Billed' },
+  { from: 'To be billed', to: 'Case Closed', permission: PERMISSION_ACTIONS.CASE_CLOSED, label: 'Mark as Case Closed' }
+];
+
+const TAIL_STATUSES: CaseStatus[] = [
+  'Pending Delivery (Hospital)',
+  'Delivered (Hospital)',
+  'Case Completed',
+  'Pending Delivery (Office)',
+  'Delivered (Office)',
+  'To be billed',
+  'Case Closed'
+];
+
+/**
+ * Standard lifecycle used by most countries
+ */
+const buildStandardWorkflow = (country: string): StatusWorkflowDefinition => {
+  const statuses: CaseStatus[] = [
+    'Case Booked',
+    'Preparing Order',
+    'Order Prepared',
+    'Sales Approved',
+    ...TAIL_STATUSES
+  ];
+
+  return {
+    country,
+    statuses,
+    transitions: [
+      { from: 'Case Booked', to: 'Preparing Order', permission: PERMISSION_ACTIONS.PROCESS_ORDER, label: 'Process Order' },
+      { from: 'Preparing Order', to: 'Order Prepared', permission: PERMISSION_ACTIONS.ORDER_PROCESSED, label: 'Order Prepared' },
+      { from: 'Order Prepared', to: 'Sales Approved', permission: PERMISSION_ACTIONS.SALES_APPROVAL, label: 'Sales Approved' },
+      { from: 'Sales Approved', to: 'Pending Delivery (Hospital)', permission: PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL, label: 'Pending Delivery (Hospital)' },
+      ...TAIL_TRANSITIONS,
+      ...buildCancelTransitions(statuses),
+      ...buildReinstateTransitions(statuses)
+    ]
+  };
+};
+
+/**
+ * Loaner lifecycle (Malaysia, Vietnam): no Sales Approved step, loaner sets
+ * must be received from the supplier before the order is prepared.
+ * These countries used the standard lifecycle before, so cases booked or sales
+ * approved under it keep their old next step.
+ */
+const buildLoanerWorkflow = (country: string): StatusWorkflowDefinition => {
+  const statuses: CaseStatus[] = [
+    'Case Booked',
+    'Loaner Received',
+    'Preparing Order',
+    'Order Prepared',
+    ...TAIL_STATUSES
+  ];
+  const legacyStatuses: CaseStatus[] = ['Sales Approved'];
+
+  return {
+    country,
+    statuses,
+    legacyStatuses,
+    transitions: [
+      { from: 'Case Booked', to: 'Loaner Received', permission: PERMISSION_ACTIONS.LOANER_RECEIVED, label: 'Loaner Received' },
+      { from: 'Case Booked', to: 'Preparing Order', permission: PERMISSION_ACTIONS.PROCESS_ORDER, label: 'Process Order (no loaner)' },
+      { from: 'Loaner Received', to: 'Preparing Order', permission: PERMISSION_ACTIONS.PROCESS_ORDER, label: 'Process Order' },
+      { from: 'Preparing Order', to: 'Order Prepared', permission: PERMISSION_ACTIONS.ORDER_PROCESSED, label: 'Order Prepared' },
+      { from: 'Order Prepared', to: 'Pending Delivery (Hospital)', permission: PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL, label: 'Pending Delivery (Hospital)' },
+      { from: 'Sales Approved', to: 'Pending Delivery (Hospital)', permission: PERMISSION_ACTIONS.PENDING_DELIVERY_HOSPITAL, label: 'Pending Delivery (Hospital)' },
+      ...TAIL_TRANSITIONS,
+      ...buildCancelTransitions([...statuses, ...legacyStatuses]),
+      ...buildReinstateTransitions([...statuses, ...legacyStatuses])
+    ]
+  };
+};
+
+const LOANER_WORKFLOW_COUNTRIES = ['Malaysia', 'Vietnam'];
+
+/**
+ * Get the built-in workflow for a country (used when nothing is stored)
+ */
+export const getDefaultStatusWorkflow = (country?: string): StatusWorkflowDefinition => {
+  const normalizedCountry = country ? normalizeCountry(country) : '';
+  return LOANER_WORKFLOW_COUNTRIES.includes(normalizedCountry)
+    ? buildLoanerWorkflow(normalizedCountry)
+    : buildStandardWorkflow(normalizedCountry);
+};
+
+/**
+ * Statuses an admin can include in a workflow, in lifecycle order
+ */
+export const WORKFLOW_STATUS_OPTIONS: CaseStatus[] = [
+  'Case Booked',
+  'Loaner Received',
+  'Preparing Order',
+  'Order Prepared',
+  'Sales Approved',
+  ...TAIL_STATUSES
+];
+
+/**
+ * Permissions offered for a transition - the ones the built-in workflows use
+ */
+export const WORKFLOW_PERMISSION_OPTIONS: string[] = Array.from(new Set(
+  [...buildStandardWorkflow('').transitions, ...buildLoanerWorkflow('').transitions].map(t => t.permission)
+));
+
+// ================================================
+// DEFINITION HELPERS (pure - no database access)
+// ================================================
+
+/**
+ * Find the transition definition between two statuses, if one exists
+ */
+export const findStatusTransition = (
+  workflow: StatusWorkflowDefinition,
+  from: CaseStatus,
+  to: CaseStatus
+): StatusTransitionDefinition | undefined => {
+  return workflow.transitions.find(t => t.from === from && t.to === to);
+};
+
+/**
+ * Reinstate transitions lead out of Case Cancelled and are offered through the
+ * Reinstate action rather than as regular status buttons
+ */
+export const isReinstateTransition = (transition: StatusTransitionDefinition): boolean =>
+  transition.from === 'Case Cancelled';
+
+/**
+ * Get all transitions available out of a status
+ */
+export const getTransitionsFrom = (
+  workflow: StatusWorkflowDefinition,
+  from: CaseStatus
+): StatusTransitionDefinition[] => {
+  return workflow.transitions.filter(t => t.from === from);
+};
+
+/**
+ * Check which required fields are missing from a transition payload.
+ * Details may be plain text or a JSON string (e.g. { doNumber, attachments, comments }).
+ */
+export const getMissingRequiredFields = (
+  transition: StatusTransitionDefinition,
+  payload: TransitionPayload = {}
+): WorkflowRequiredField[] => {
+  if (!transition.requiredFields || transition.requiredFields.length === 0) {
+    return [];
+  }
+
+  let parsedDetails: Record<string, any> | null = null;
+  if (payload.details) {
+    try {
+      const parsed = JSON.parse(payload.details);
+      parsedDetails = parsed && typeof parsed === 'object' ? parsed : null;
+    } catch (e) {
+      // Plain text details
+    }
+  }
+
+  return transition.requiredFields.filter(field => {
+    switch (field) {
+      case 'doNumber':
+        return !String(parsedDetails?.doNumber || '').trim();
+      case 'attachments': {
+        const detailAttachments = Array.isArray(parsedDetails?.attachments) ? parsedDetails!.attachments : [];
+        return (payload.attachments?.length || 0) === 0 && detailAttachments.length === 0;
+      }
+      case 'comments':
+        return parsedDetails
+          ? !String(parsedDetails.comments || parsedDetails.details || parsedDetails.processDetails || '').trim()
+          : !String(payload.details || '').trim();
+      default:
+        return false;
+    }
+  });
+};
+
+/**
+ * Basic structural validation before a definition is saved
+ */
+const KNOWN_PERMISSIONS: string[] = Object.values(PERMISSION_ACTIONS);
+
+export const validateWorkflowDefinition = (workflow: StatusWorkflowDefinition): string[] => {
+  const errors: string[] = [];
+
+  if (!workflow.statuses || workflow.statuses.length === 0) {
+    errors.push('Workflow must define at least one status');
+  }
+
+  const knownStatuses = [...workflow.statuses, ...(workflow.legacyStatuses || []), 'Case Cancelled'];
+
+  workflow.transitions.forEach(t => {
+    if (!knownStatuses.includes(t.from)) {
+      errors.push(`Transition source "${t.from}" is not part of the workflow`);
+    }
+    if (!knownStatuses.includes(t.to)) {
+      errors.push(`Transition target "${t.to}" is not part of the workflow`);
+    }
+    if (!t.permission) {
+      errors.push(`Transition "${t.from}" → "${t.to}" has no permission assigned`);
+    } else if (!KNOWN_PERMISSIONS.includes(t.permission)) {
+      errors.push(`Transition "${t.from}" → "${t.to}" uses unknown permission "${t.permission}"`);
+    }
+  });
+
+  return errors;
+};
+
+// ================================================
+// PERSISTENCE
+// ================================================
+
+const workflowStore = countrySettingsStore<StatusWorkflowDefinition>({
+  prefix: WORKFLOW_SETTING_PREFIX,
+  label: 'Case status workflow',
+  defaults: getDefaultStatusWorkflow,
+  validate: validateWorkflowDefinition,
+  parse: (stored, country) => stored && Array.isArray(stored.transitions) && Array.isArray(stored.statuses)
+    ? { ...stored, country }
+    : getDefaultStatusWorkflow(country),
+  normalize: (workflow, country) => ({ ...workflow, country, updatedAt: new Date().toISOString() })
+});
+
+/**
+ * Get the workflow for a country - stored definition or the built-in default
+ */
+export const getStatusWorkflow = async (country?: string): Promise<StatusWorkflowDefinition> =>
+  country ? workflowStore.get(country) : getDefaultStatusWorkflow();
+
+/**
+ * Save a country's workflow definition
+ */
+export const saveStatusWorkflow = async (workflow: StatusWorkflowDefinition): Promise<void> => {
+  await workflowStore.save(workflow.country, workflow);
+};
+
+/**
+ * Clear cached workflows (e.g. after an admin edits a definition)
+ */
+export const clearStatusWorkflowCache = (country?: string): void => workflowStore.clearCache(country);
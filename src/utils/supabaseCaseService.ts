@@ -15,7 +15,19 @@ import { supabase } from '../lib/supabase';
 import { CaseBooking, CaseStatus, StatusHistory, AmendmentHistory } from '../types';
 import { normalizeCountry, getLegacyCountryCode } from './countryUtils';
 import { processEmailNotifications } from '../services/emailNotificationProcessor';
-import { CASE_BOOKINGS_FIELDS, STATUS_HISTORY_FIELDS, AMENDMENT_HISTORY_FIELDS, CASE_COUNTERS_FIELDS } from './fieldMappings';
+import { CASE_BOOKINGS_FIELDS, STATUS_HISTORY_FIELDS, AMENDMENT_HISTORY_FIELDS } from './fieldMappings';
+import { applyCaseStatusTransition, assertCaseStatusTransition } from './statusTransitionGuard';
+import { generateCaseReference } from './caseReferenceService';
+import { assertAmendmentAllowed, describeAmendmentLimits, AMENDMENT_OVERRIDE_FIELD } from './amendmentPolicyService';
+import {
+  shouldRequestAmendmentApproval,
+  createAmendmentRequest,
+  buildApprovalChange,
+  AMENDMENTS_NOTIFICATION_RULE,
+  AmendCaseOptions,
+  AmendmentChange,
+  AmendmentOutcome
+} from './amendmentApprovalService';
 
 // Interface for Supabase case data
 interface SupabaseCase {
@@ -74,9 +86,10 @@ interface SupabaseCaseAmendmentHistory {
 // ================================================
 
 /**
- * Generate a unique case reference number
+ * Generate a unique case reference number using the country's configured format.
+ * Allocation is atomic - see caseReferenceService.
  */
-export const generateCaseReferenceNumber = async (country?: string): Promise<string> => {
+export const generateCaseReferenceNumber = async (country?: string, department?: string): Promise<string> => {
   // Get country from user context if not provided
   if (!country || !country.trim()) {
     const { getCurrentUserSync } = await import('../services/userService');
@@ -86,68 +99,17 @@ export const generateCaseReferenceNumber = async (country?: string): Promise<str
       throw new Error('No country specified for case reference generation');
     }
   }
-  const validCountry = country.trim();
-  
-  try {
-    const currentYear = new Date().getFullYear();
-
-    // Get or create counter for this country and year
-    const { data: counterData, error: counterError } = await supabase
-      .from('case_counters')
-      .select('current_counter')
-      .eq('country', validCountry)
-      .eq('year', currentYear)
-      .single();
-
-    if (counterError && counterError.code !== 'PGRST116') {
-      throw counterError;
-    }
-
-    let newCounter = 1;
-
-    if (counterData) {
-      newCounter = counterData.current_counter + 1;
-
-      // Update counter
-      const { error: updateError } = await supabase
-        .from('case_counters')
-        .update({ current_counter: newCounter })
-        .eq('country', validCountry)
-        .eq('year', currentYear);
-
-      if (updateError) {
-        throw updateError;
-      }
-    } else {
-      // Create new counter with explicit field handling
-      const { error: insertError } = await supabase
-        .from('case_counters')
-        .insert([{
-        country: validCountry, // Use validated country
-        current_counter: newCounter,
-        year: currentYear
-        }])
-        .select()
-        .single();
 
-      if (insertError) {
-        // Log detailed error for debugging
-        //   error: insertError,
-        //   country,
-        //   year: currentYear,
-        //   message: insertError.message
-        // });
-        throw insertError;
-      }
-    }
-
-    // Format: TMC-SG-2024-001
-    return `TMC-${validCountry}-${currentYear}-${newCounter.toString().padStart(3, '0')}`;
+  try {
+    return await generateCaseReference(country, department);
   } catch (error) {
     throw error;
   }
 };
 
+// Insert retries when a reference still collides (e.g. a case inserted with a manual reference)
+const MAX_REFERENCE_COLLISION_RETRIES = 3;
+
 // ================================================
 // HELPER FUNCTIONS FOR NESTED DATA
 // ================================================
@@ -211,6 +173,101 @@ const getAmendmentHistoryForCase = async (caseId: string): Promise<AmendmentHist
 // CASE CRUD OPERATIONS
 // ================================================
 
+/**
+ * Case columns plus the nested status and amendment history
+ */
+export const CASE_WITH_HISTORY_SELECT = `
+  *,
+  status_history (
+    id,
+    status,
+    processed_by,
+    timestamp,
+    details,
+    attachments
+  ),
+  amendment_history (
+    id,
+    amended_by,
+    timestamp,
+    reason,
+    changes
+  )
+`;
+
+/**
+ * Transform a case_bookings row (with nested history, when selected) to a CaseBooking
+ */
+export const mapSupabaseCaseRow = (caseData: any): CaseBooking => ({
+  id: caseData.id,
+  caseReferenceNumber: caseData.case_reference_number,
+  hospital: caseData.hospital,
+  department: caseData.department,
+  dateOfSurgery: caseData.date_of_surgery,
+  procedureType: caseData.procedure_type,
+  procedureName: caseData.procedure_name,
+  doctorName: caseData.doctor_name,
+  doctorId: caseData.doctor_id || undefined,
+  timeOfProcedure: caseData.time_of_procedure,
+  surgerySetSelection: caseData.surgery_set_selection || [],
+  implantBox: caseData.implant_box || [],
+  specialInstruction: caseData.special_instruction,
+  status: caseData.status as CaseStatus,
+  submittedBy: caseData.submitted_by,
+  submittedAt: caseData.submitted_at,
+  processedBy: caseData.processed_by,
+  processedAt: caseData.processed_at,
+  processOrderDetails: caseData.process_order_details,
+  country: normalizeCountry(caseData.country || ''),
+  isAmended: caseData.is_amended,
+  amendedBy: caseData.amended_by,
+  amendedAt: caseData.amended_at,
+  deliveryImage: caseData.delivery_image,
+  deliveryDetails: caseData.delivery_details,
+  attachments: caseData.attachments || [],
+  orderSummary: caseData.order_summary,
+  doNumber: caseData.do_number,
+  seriesId: caseData.series_id || undefined,
+  clonedFromId: caseData.cloned_from_id || undefined,
+  // Use the nested status history from the relation
+  statusHistory: caseData.status_history?.map((history: any) => ({
+    id: history.id, // Include database ID for attachments
+    status: history.status as CaseStatus,
+    timestamp: history.timestamp,
+    processedBy: history.processed_by,
+    user: history.processed_by, // Add user field for compatibility
+    details: history.details || '',
+    attachments: history.attachments || []
+  }))?.sort((a: any, b: any) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) || [],
+  // Transform amendment history from the relation
+  amendmentHistory: (() => {
+    if (!caseData.amendment_history || caseData.amendment_history.length === 0) {
+    return [];
+    }
+
+    // Group amendment records by timestamp and amended_by
+    const groupedAmendments = new Map<string, AmendmentHistory>();
+
+    caseData.amendment_history.forEach((history: any) => {
+    const key = `${history.timestamp}_${history.amended_by}`;
+
+    if (!groupedAmendments.has(key)) {
+      groupedAmendments.set(key, {
+        amendmentId: history.id,
+        timestamp: history.timestamp,
+        amendedBy: history.amended_by,
+        changes: history.changes || [],
+        reason: history.reason || 'No reason provided'
+      });
+    }
+    });
+
+    return Array.from(groupedAmendments.values()).sort((a, b) => 
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  })()
+});
+
 /**
  * Get all cases from Supabase
  */
@@ -219,24 +276,7 @@ export const getSupabaseCases = async (country?: string): Promise<CaseBooking[]>
     // Fetch cases with status history and amendment history to enable versioning history display
     let query = supabase
       .from('case_bookings')
-      .select(`
-        *,
-        status_history (
-        id,
-        status,
-        processed_by,
-        timestamp,
-        details,
-        attachments
-        ),
-        amendment_history (
-        id,
-        amended_by,
-        timestamp,
-        reason,
-        changes
-        )
-      `)
+      .select(CASE_WITH_HISTORY_SELECT)
       .order('created_at', { ascending: false }); // ⚠️ created_at (createdAt)
 
     if (country) {
@@ -262,75 +302,8 @@ export const getSupabaseCases = async (country?: string): Promise<CaseBooking[]>
       return [];
     }
 
-    // Transform data for display
-
     // Transform Supabase data to CaseBooking interface
-    return data.map(caseData => ({
-      id: caseData.id,
-      caseReferenceNumber: caseData.case_reference_number,
-      hospital: caseData.hospital,
-      department: caseData.department,
-      dateOfSurgery: caseData.date_of_surgery,
-      procedureType: caseData.procedure_type,
-      procedureName: caseData.procedure_name,
-      doctorName: caseData.doctor_name,
-      timeOfProcedure: caseData.time_of_procedure,
-      surgerySetSelection: caseData.surgery_set_selection || [],
-      implantBox: caseData.implant_box || [],
-      specialInstruction: caseData.special_instruction,
-      status: caseData.status as CaseStatus,
-      submittedBy: caseData.submitted_by,
-      submittedAt: caseData.submitted_at,
-      processedBy: caseData.processed_by,
-      processedAt: caseData.processed_at,
-      processOrderDetails: caseData.process_order_details,
-      country: normalizeCountry(caseData.country || ''),
-      isAmended: caseData.is_amended,
-      amendedBy: caseData.amended_by,
-      amendedAt: caseData.amended_at,
-      deliveryImage: caseData.delivery_image,
-      deliveryDetails: caseData.delivery_details,
-      attachments: caseData.attachments || [],
-      orderSummary: caseData.order_summary,
-      doNumber: caseData.do_number,
-      // Use the nested status history from the relation
-      statusHistory: caseData.status_history?.map((history: any) => ({
-        id: history.id, // Include database ID for attachments
-        status: history.status as CaseStatus,
-        timestamp: history.timestamp,
-        processedBy: history.processed_by,
-        user: history.processed_by, // Add user field for compatibility
-        details: history.details || '',
-        attachments: history.attachments || []
-      }))?.sort((a: any, b: any) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) || [],
-      // Transform amendment history from the relation
-      amendmentHistory: (() => {
-        if (!caseData.amendment_history || caseData.amendment_history.length === 0) {
-        return [];
-        }
-
-        // Group amendment records by timestamp and amended_by
-        const groupedAmendments = new Map<string, AmendmentHistory>();
-
-        caseData.amendment_history.forEach((history: any) => {
-        const key = `${history.timestamp}_${history.amended_by}`;
-
-        if (!groupedAmendments.has(key)) {
-          groupedAmendments.set(key, {
-            amendmentId: history.id,
-            timestamp: history.timestamp,
-            amendedBy: history.amended_by,
-            changes: history.changes || [],
-            reason: history.reason || 'No reason provided'
-          });
-        }
-        });
-
-        return Array.from(groupedAmendments.values()).sort((a, b) => 
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-        );
-      })()
-    }));
+    return data.map(mapSupabaseCaseRow);
   } catch (error) {
     return [];
   }
@@ -391,6 +364,7 @@ export const getSupabaseCasesOriginal = async (country?: string): Promise<CaseBo
       procedureType: caseData.procedure_type,
       procedureName: caseData.procedure_name,
       doctorName: caseData.doctor_name,
+      doctorId: caseData.doctor_id || undefined,
       timeOfProcedure: caseData.time_of_procedure,
       surgerySetSelection: caseData.surgery_set_selection || [],
       implantBox: caseData.implant_box || [],
@@ -453,8 +427,8 @@ export const saveSupabaseCase = async (caseData: Omit<CaseBooking, 'id' | 'caseR
     //   throw new Error('Insufficient permissions to create cases');
     // }
 
-    // Generate case reference number with fallback
-    const caseReferenceNumber = await generateCaseReferenceNumber(caseData.country);
+    // Generate case reference number (regenerated below if it collides on insert)
+    let caseReferenceNumber = await generateCaseReferenceNumber(caseData.country, caseData.department);
 
     console.log('Saving case with data:', {
       caseReferenceNumber,
@@ -496,18 +470,35 @@ export const saveSupabaseCase = async (caseData: Omit<CaseBooking, 'id' | 'caseR
       insertData.doctor_id = caseData.doctorId;
     }
 
+    if (caseData.seriesId) {
+      insertData[CASE_BOOKINGS_FIELDS.seriesId] = caseData.seriesId;
+    }
+
+    if (caseData.clonedFromId) {
+      insertData[CASE_BOOKINGS_FIELDS.clonedFromId] = caseData.clonedFromId;
+    }
+
     console.log('Final insert data:', insertData);
 
-    // FIXED: Use upsert with onConflict to handle RLS policy issues
-    const { data: insertedCase, error: insertError } = await supabase
+    // Plain insert - an upsert on case_reference_number would silently overwrite
+    // another case if two bookings ever collided on the same reference
+    let { data: insertedCase, error: insertError } = await supabase
       .from('case_bookings')
-      .upsert(insertData, { 
-        onConflict: 'case_reference_number',
-        ignoreDuplicates: false 
-      })
+      .insert(insertData)
       .select();
 
-    console.log('✅ E2E DEBUG - Insert result (fixed with upsert):', {
+    for (let retry = 1; insertError?.code === '23505' && retry <= MAX_REFERENCE_COLLISION_RETRIES; retry++) {
+      console.log(`🔁 E2E DEBUG - Reference ${caseReferenceNumber} collided, regenerating (retry ${retry})`);
+      caseReferenceNumber = await generateCaseReferenceNumber(caseData.country, caseData.department);
+      insertData.case_reference_number = caseReferenceNumber;
+
+      ({ data: insertedCase, error: insertError } = await supabase
+        .from('case_bookings')
+        .insert(insertData)
+        .select());
+    }
+
+    console.log('✅ E2E DEBUG - Insert result:', {
       insertedCase, 
       insertError,
       hasData: !!insertedCase,
@@ -533,9 +524,9 @@ export const saveSupabaseCase = async (caseData: Omit<CaseBooking, 'id' | 'caseR
 
     let finalInsertedCase = insertedCase;
 
-    // Handle case where upsert still returns null (fallback to verification)
+    // Handle case where insert returns no rows (fallback to verification)
     if (!finalInsertedCase || finalInsertedCase.length === 0) {
-      console.log('🔍 E2E DEBUG - Upsert returned null, attempting verification query...');
+      console.log('🔍 E2E DEBUG - Insert returned null, attempting verification query...');
       
       // Use robust database operation for verification
       const { DatabaseUtils } = await import('./robustDatabaseOperations');
@@ -602,6 +593,8 @@ export const saveSupabaseCase = async (caseData: Omit<CaseBooking, 'id' | 'caseR
       isAmended: insertedCaseRecord.is_amended,
       amendedBy: insertedCaseRecord.amended_by,
       amendedAt: insertedCaseRecord.amended_at,
+      seriesId: insertedCaseRecord.series_id || undefined,
+      clonedFromId: insertedCaseRecord.cloned_from_id || undefined,
       statusHistory: [
         {
         status: 'Case Booked' as CaseStatus,
@@ -673,6 +666,9 @@ export const updateSupabaseCaseStatus = async (
   details?: string,
   attachments?: string[]
 ): Promise<void> => {
+  // Every status write is validated against the workflow, role permissions and required fields
+  await assertCaseStatusTransition(caseId, newStatus, { details, attachments });
+
   // CRITICAL FIX: Use optimized status update for performance-critical operations
   const performanceCriticalStatuses = ['Sales Approved', 'Order Prepared', 'Hospital Delivery'];
   
@@ -680,7 +676,8 @@ export const updateSupabaseCaseStatus = async (
     const { updateCaseStatusOptimized } = await import('./optimizedStatusUpdateService');
     return updateCaseStatusOptimized(caseId, newStatus, changedBy, {
       details,
-      attachments
+      attachments,
+      transitionValidated: true
     });
   }
   
@@ -698,10 +695,10 @@ export const updateSupabaseCaseStatus = async (
         // Details is not JSON or doesn't have processedBy, use changedBy
       }
     }
-    // Get current case data for audit logging and optimistic locking
+    // Get current case data for audit logging
     const { data: currentCase, error: fetchError } = await supabase
       .from('case_bookings')
-      .select('status, case_reference_number, country, department, updated_at')
+      .select('status, case_reference_number, country, department')
       .eq('id', caseId)
       .single();
 
@@ -713,7 +710,6 @@ export const updateSupabaseCaseStatus = async (
     const caseRef = currentCase?.case_reference_number;
     const country = currentCase?.country;
     const department = currentCase?.department;
-    const lastUpdatedAt = currentCase?.updated_at;
 
     // Skip update if status hasn't actually changed
     if (oldStatus === newStatus) {
@@ -721,181 +717,15 @@ export const updateSupabaseCaseStatus = async (
       return;
     }
 
-    // Update case status 
-    const newUpdatedAt = new Date().toISOString();
-    
-    console.log('🔍 E2E DEBUG - Status Update:', {
+    // The database re-validates the transition and writes the case and its history row together
+    await applyCaseStatusTransition({
       caseId,
-      caseRef,
-      oldStatus,
-      newStatus,
-      updateData: {
-        status: newStatus,
-        updated_at: newUpdatedAt
-      }
+      targetStatus: newStatus,
+      details: details || null,
+      attachments: attachments || null
     });
-    
-    const { data: updateResult, error: updateError } = await supabase
-      .from('case_bookings')
-      .update({
-        status: newStatus,
-        updated_at: newUpdatedAt
-      })
-      .eq('id', caseId)
-      .select('updated_at');
-
-    console.log('🔍 E2E DEBUG - Status Update Result:', {
-      updateResult,
-      updateError,
-      hasData: !!updateResult,
-      dataLength: updateResult?.length
-    });
-
-    if (updateError) {
-      console.error('❌ E2E DEBUG - Status update error:', {
-        error: updateError,
-        message: updateError.message,
-        details: updateError.details,
-        code: updateError.code,
-        caseId,
-        oldStatus,
-        newStatus
-      });
-      throw updateError;
-    }
-
-    // Check if the update actually happened (optimistic lock succeeded)
-    if (!updateResult || updateResult.length === 0) {
-      throw new Error(`Status update failed - case ${caseRef} was modified by another process. Please refresh and try again.`);
-    }
-
-    // ENHANCED DUPLICATE PREVENTION - Check for same status within short time window
-    let shouldAddHistoryEntry = true;
-
-    // Check for existing status history entries with the same status very recently
-    const { data: existingHistory } = await supabase
-      .from('status_history')
-      .select('*')
-      .eq('case_id', caseId)
-      .eq('status', newStatus)
-      .gte('timestamp', new Date(new Date().getTime() - 30000).toISOString()) // Last 30 seconds only
-      .order('timestamp', { ascending: false });
-
-    if (existingHistory && existingHistory.length > 0) {
-      console.log('🚫 DUPLICATE PREVENTION - Recent identical status found:', {
-        caseId,
-        status: newStatus,
-        existingEntries: existingHistory.length,
-        mostRecentEntry: existingHistory[0],
-        timeDiff: new Date().getTime() - new Date(existingHistory[0].timestamp).getTime(),
-        preventingDuplicate: true
-      });
-      shouldAddHistoryEntry = false;
-    } else {
-      // Also check for any status entry within the last 5 seconds as additional protection
-      const { data: veryRecentHistory } = await supabase
-        .from('status_history')
-        .select('*')
-        .eq('case_id', caseId)
-        .gte('timestamp', new Date(new Date().getTime() - 5000).toISOString()) // Last 5 seconds
-        .order('timestamp', { ascending: false })
-        .limit(1);
-
-      if (veryRecentHistory && veryRecentHistory.length > 0) {
-        console.log('🚫 DUPLICATE PREVENTION - Very recent status entry found:', {
-          caseId,
-          newStatus,
-          recentStatus: veryRecentHistory[0].status,
-          timeDiff: new Date().getTime() - new Date(veryRecentHistory[0].timestamp).getTime(),
-          preventingRapidUpdates: true
-        });
-        // Only prevent if it's the exact same status
-        if (veryRecentHistory[0].status === newStatus) {
-          shouldAddHistoryEntry = false;
-        }
-      }
-    }
-
-    // Legacy duplicate check for backwards compatibility
-    if (shouldAddHistoryEntry) {
-      const { data: legacyCheck } = await supabase
-        .from('status_history')
-        .select('*')
-        .eq('case_id', caseId)
-        .eq('status', newStatus)
-        .order('timestamp', { ascending: false })
-        .limit(1);
-
-      if (legacyCheck && legacyCheck.length > 0) {
-        const recentDuplicate = legacyCheck.find(entry => {
-          const entryTime = new Date(entry.timestamp).getTime();
-          const now = new Date().getTime();
-          return (now - entryTime) < 60000; // 1 minute threshold
-        });
-
-        if (recentDuplicate) {
-          console.log('🚫 DUPLICATE PREVENTION - Very recent entry found:', {
-            caseId,
-            status: newStatus,
-            recentEntry: recentDuplicate,
-            timeDiff: new Date().getTime() - new Date(recentDuplicate.timestamp).getTime(),
-            preventingDuplicate: true
-          });
-          shouldAddHistoryEntry = false;
-        }
-      }
-    }
-
-    // Add status history entry only if it's not a duplicate
-    if (shouldAddHistoryEntry) {
-      const historyEntry = {
-        case_id: caseId,
-        status: newStatus,
-        processed_by: actualUser,
-        timestamp: new Date().toISOString(),
-        details: details || null,
-        attachments: attachments || null
-      };
-
-      console.log('📋 STATUS HISTORY DEBUG - Creating history entry:', {
-        caseId,
-        newStatus,
-        oldStatus,
-        actualUser,
-        detailsProvided: details,
-        detailsType: typeof details,
-        detailsLength: details?.length || 0,
-        attachmentsProvided: attachments,
-        attachmentsCount: attachments?.length || 0,
-        historyEntry,
-        timestamp: new Date().toISOString()
-      });
-
-      const { error: historyError } = await supabase
-        .from('status_history')
-        .insert([historyEntry]);
-
-      if (historyError) {
-        console.error('❌ STATUS HISTORY DEBUG - History insert failed:', {
-        caseId,
-        newStatus,
-        historyEntry,
-        error: historyError,
-        errorMessage: historyError.message,
-        timestamp: new Date().toISOString()
-        });
-        throw historyError;
-      } else {
-        console.log('✅ STATUS HISTORY DEBUG - History entry created successfully:', {
-        caseId,
-        newStatus,
-        detailsSaved: details,
-        timestamp: new Date().toISOString()
-        });
-      }
-    }
 
-    // Add audit log for status change (only if history entry was added)
+    // Add audit log for status change
     if (caseRef && oldStatus !== newStatus) {
       try {
         const { auditCaseStatusChange } = await import('./auditService');
@@ -1071,13 +901,19 @@ export const updateSupabaseCaseProcessing = async (
 };
 
 /**
- * Amend a case in Supabase
+ * Amend a case in Supabase.
+ * Cases past the country's approval threshold get a pending amendment request instead;
+ * approveAmendmentRequest replays it here with approvedRequest set.
  */
 export const amendSupabaseCase = async (
   caseId: string,
   amendments: Partial<CaseBooking>,
-  amendedBy: string
-): Promise<void> => {
+  amendedBy: string,
+  options: AmendCaseOptions = {}
+): Promise<AmendmentOutcome> => {
+  const { approvedRequest, overrideReason } = options;
+  const amendmentReason = options.reason || 'No reason provided';
+
   console.log('🔧 AMENDMENT DEBUG - Function Entry:', {
     timestamp: new Date().toISOString(),
     caseId,
@@ -1106,6 +942,26 @@ export const amendSupabaseCase = async (
       throw fetchError;
     }
 
+    // Enforce SystemConfig amendment time limit / max amendments before writing anything.
+    // Approved requests were checked when they were raised - keep their override entry.
+    let overrideChange: AmendmentChange | undefined = approvedRequest?.changes.find(
+      change => change.field === AMENDMENT_OVERRIDE_FIELD
+    );
+    if (!approvedRequest) {
+      const { allowance, overridden } = await assertAmendmentAllowed(
+        caseId,
+        currentCase.submitted_at || currentCase.created_at,
+        { reason: overrideReason }
+      );
+      if (overridden && overrideReason) {
+        overrideChange = {
+          field: AMENDMENT_OVERRIDE_FIELD,
+          oldValue: describeAmendmentLimits(allowance),
+          newValue: overrideReason.trim()
+        };
+      }
+    }
+
     // ⚠️ CRITICAL: Use single timestamp for consistency across amendment fields
     const amendmentTimestamp = new Date().toISOString();
     
@@ -1303,7 +1159,55 @@ export const amendSupabaseCase = async (
     // Only proceed if there are actual changes (including quantity changes)
     if (changes.length === 0 && !quantityChangesDetected) {
       console.log('🔧 AMENDMENT DEBUG - No Changes Detected - Exiting');
-      return;
+      return 'unchanged';
+    }
+
+    // Past the approval threshold the amendment waits for operations instead of being applied
+    if (!approvedRequest && await shouldRequestAmendmentApproval(currentCase.country, currentCase.status)) {
+      await createAmendmentRequest({
+        caseId,
+        requestedBy: amendedBy,
+        reason: amendmentReason,
+        proposedChanges: amendments,
+        changes: overrideChange ? [...changes, overrideChange] : changes
+      });
+
+      console.log('🔧 AMENDMENT DEBUG - Amendment held for approval:', {
+        caseId,
+        status: currentCase.status,
+        changes: changes.length
+      });
+
+      const caseBooking: CaseBooking = {
+        id: currentCase.id,
+        caseReferenceNumber: currentCase.case_reference_number,
+        hospital: currentCase.hospital,
+        department: currentCase.department,
+        dateOfSurgery: currentCase.date_of_surgery,
+        procedureType: currentCase.procedure_type,
+        procedureName: currentCase.procedure_name,
+        doctorName: currentCase.doctor_name,
+        doctorId: currentCase.doctor_id,
+        timeOfProcedure: currentCase.time_of_procedure,
+        surgerySetSelection: currentCase.surgery_set_selection || [],
+        implantBox: currentCase.implant_box || [],
+        specialInstruction: currentCase.special_instruction,
+        status: currentCase.status,
+        submittedBy: currentCase.submitted_by,
+        submittedAt: currentCase.submitted_at,
+        country: currentCase.country,
+        amendedBy: currentCase.amended_by,
+        amendedAt: currentCase.amended_at,
+        isAmended: currentCase.is_amended
+      };
+
+      // Notify reviewers through the country's "Amendments" rule (don't block the request)
+      processEmailNotifications(caseBooking, AMENDMENTS_NOTIFICATION_RULE, caseBooking.status, amendedBy)
+        .catch(emailError => {
+          console.error('❌ EMAIL DEBUG - Amendment request email notification FAILED:', emailError);
+        });
+
+      return 'pending-approval';
     }
 
     // Update case
@@ -1407,12 +1311,20 @@ export const amendSupabaseCase = async (
       // No authentication found, but proceeding with RLS policy enforcement
     }
 
+    // Record why the limits were bypassed and who approved, alongside the amendment itself
+    if (overrideChange) {
+      changes.push(overrideChange);
+    }
+    if (approvedRequest) {
+      changes.push(buildApprovalChange(approvedRequest));
+    }
+
     // Create amendment history entry - using field mappings and SAME timestamp
     const historyEntry = {
       [AMENDMENT_HISTORY_FIELDS.caseId]: caseId,           // ⚠️ case_id (FK to case_bookings)
       [AMENDMENT_HISTORY_FIELDS.amendedBy]: amendedBy,     // ⚠️ amended_by
       [AMENDMENT_HISTORY_FIELDS.timestamp]: amendmentTimestamp, // ⚠️ timestamp - SAME as case.amended_at
-      [AMENDMENT_HISTORY_FIELDS.reason]: (amendments as any).amendmentReason || 'No reason provided', // ⚠️ reason
+      [AMENDMENT_HISTORY_FIELDS.reason]: amendmentReason, // ⚠️ reason
       [AMENDMENT_HISTORY_FIELDS.changes]: changes          // ⚠️ changes (JSONB)
     };
     
@@ -1425,7 +1337,7 @@ export const amendSupabaseCase = async (
         reason: AMENDMENT_HISTORY_FIELDS.reason,
         changes: AMENDMENT_HISTORY_FIELDS.changes
       },
-      amendmentReason: (amendments as any).amendmentReason
+      amendmentReason
     });
     
     const { error: historyError } = await supabase
@@ -1470,6 +1382,8 @@ export const amendSupabaseCase = async (
     } else {
       console.log('🔧 AMENDMENT DEBUG - Amendment History Insert Success');
     }
+
+    return 'applied';
   } catch (error) {
     console.error('🔧 AMENDMENT DEBUG - Function Error:', {
       error: error,
@@ -1504,7 +1418,16 @@ export const updateSupabaseCase = async (caseId: string, updates: Partial<CaseBo
     if (updates.surgerySetSelection !== undefined) updateData.surgery_set_selection = updates.surgerySetSelection;
     if (updates.implantBox !== undefined) updateData.implant_box = updates.implantBox;
     if (updates.specialInstruction !== undefined) updateData.special_instruction = updates.specialInstruction;
-    if (updates.status !== undefined) updateData.status = updates.status;
+    if (updates.status !== undefined) {
+      // Status changes through the generic update path still go through the transition guard,
+      // and are written by the database function rather than this row update
+      await assertCaseStatusTransition(caseId, updates.status, { details: updates.processOrderDetails });
+      await applyCaseStatusTransition({
+        caseId,
+        targetStatus: updates.status,
+        details: updates.processOrderDetails || null
+      });
+    }
     if (updates.processedBy !== undefined) updateData.processed_by = updates.processedBy;
     if (updates.processedAt !== undefined) updateData.processed_at = updates.processedAt;
     if (updates.processOrderDetails !== undefined) updateData.process_order_details = updates.processOrderDetails;
@@ -475,7 +475,8 @@ function getTableDisplayName(tableType: string): string {
   const displayNames: Record<string, string> = {
     countries: 'Countries',
     hospitals: 'Hospitals',
-    departments: 'Departments'
+    departments: 'Departments',
+    cancellation_reasons: 'Cancellation Reasons'
   };
   return displayNames[tableType] || tableType.charAt(0).toUpperCase() + tableType.slice(1);
 }
@@ -487,7 +488,8 @@ function getTableDescription(tableType: string): string {
   const descriptions: Record<string, string> = {
     countries: 'List of available countries',
     hospitals: 'List of hospitals for this country',
-    departments: 'List of medical departments'
+    departments: 'List of medical departments',
+    cancellation_reasons: 'Reasons offered when a case is cancelled'
   };
   return descriptions[tableType] || `List of ${tableType}`;
 }
@@ -598,4 +600,26 @@ export const getHospitalsForCountry = async (country: string): Promise<string[]>
   } catch (error) {
     return [];
   }
-};
\ No newline at end of file
+};
+/**
+ * Get case cancellation reasons for a country from code_tables
+ */
+export const getCancellationReasonsForCountry = async (country: string): Promise<string[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('code_tables')
+      .select('display_name')
+      .eq('table_type', 'cancellation_reasons')
+      .eq('country', normalizeCountryForDB(country))
+      .eq('is_active', true)
+      .order('display_name');
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.map(item => item.display_name) || [];
+  } catch (error) {
+    return [];
+  }
+};
@@ -39,6 +39,8 @@ const parseActionId = (actionId: string): { resource: string; action: string } |
       return { resource: 'calendar', action: 'booking' };
     
     // Status Transitions
+    case 'loaner-received':
+      return { resource: 'status', action: 'loaner-received' };
     case 'process-order':
       return { resource: 'status', action: 'process-order' };
     case 'order-processed':
@@ -225,6 +227,7 @@ export const getSupabasePermissions = async (): Promise<Permission[]> => {
         'users-manage': 'manage-users',
         
         // Status Updates
+        'status-loaner-received': 'loaner-received',
         'status-process-order': 'process-order',
         'status-order-processed': 'order-processed', 
         'status-sales-approval': 'sales-approval',
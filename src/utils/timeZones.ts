@@ -0,0 +1,105 @@
+/**
+ * Time Zones - Country time zones and wall-clock conversions
+ *
+ * Surgery times, calendar events and report schedules are local to a country or a
+ * stored time zone, while browsers and edge functions may run anywhere. This is the
+ * one copy of the country time zone tables: the edge functions import it through
+ * supabase/functions/_shared/timeZones.ts, so it must not import anything itself.
+ */
+
+// ================================================
+// TYPES
+// ================================================
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+// ================================================
+// TIME ZONES
+// ================================================
+
+export const DEFAULT_TIME_ZONE = 'Asia/Singapore';
+
+export const COUNTRY_TIME_ZONES: Record<string, string> = {
+  Singapore: 'Asia/Singapore',
+  Malaysia: 'Asia/Kuala_Lumpur',
+  Philippines: 'Asia/Manila',
+  Indonesia: 'Asia/Jakarta',
+  Vietnam: 'Asia/Ho_Chi_Minh',
+  'Hong Kong': 'Asia/Hong_Kong',
+  Thailand: 'Asia/Bangkok'
+};
+
+// None of these zones observe daylight saving, so one STANDARD offset describes each fully
+export const TIME_ZONE_UTC_OFFSETS: Record<string, string> = {
+  'Asia/Singapore': '+0800',
+  'Asia/Kuala_Lumpur': '+0800',
+  'Asia/Manila': '+0800',
+  'Asia/Jakarta': '+0700',
+  'Asia/Ho_Chi_Minh': '+0700',
+  'Asia/Hong_Kong': '+0800',
+  'Asia/Bangkok': '+0700'
+};
+
+/**
+ * IANA time zone for a normalized country name - Singapore when unknown
+ */
+export const getCountryTimeZone = (country: string): string =>
+  COUNTRY_TIME_ZONES[country] || DEFAULT_TIME_ZONE;
+
+/**
+ * UTC offset (+HHMM) of a time zone, for iCalendar VTIMEZONE components
+ */
+export const getTimeZoneUtcOffset = (timeZone: string): string =>
+  TIME_ZONE_UTC_OFFSETS[timeZone] || TIME_ZONE_UTC_OFFSETS[DEFAULT_TIME_ZONE];
+
+// ================================================
+// CONVERSIONS
+// ================================================
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hours: Number(parts.hour),
+    minutes: Number(parts.minute)
+  };
+};
+
+/**
+ * The instant a wall-clock time ('YYYY-MM-DD' plus hours / minutes) refers to in a time zone
+ */
+export const zonedTimeToUtc = (date: string, hours: number, minutes: number, timeZone: string): Date => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  const zoned = getZonedParts(new Date(guess), timeZone);
+  const offset = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hours, zoned.minutes) - guess;
+  return new Date(guess - offset);
+};
+
+/**
+ * Date and time for an email, in the given time zone
+ */
+export const formatZonedDateTime = (date: Date, timeZone: string): string =>
+  date.toLocaleString('en-GB', { timeZone, dateStyle: 'medium', timeStyle: 'short' });
@@ -0,0 +1,185 @@
+/**
+ * Workflow Performance Service - Time cases spend in each workflow status
+ *
+ * A "stay" is one visit of a case to a status, from its status_history entry to the
+ * next entry. Only finished stays are measured, so a case sitting in a status today
+ * does not pull the numbers down. Each stay is attributed to the user who moved the
+ * case on (the processedBy of the next entry), i.e. the person who processed that stage.
+ *
+ * Everything here is pure so Reports can recompute it for any ReportFilters selection.
+ */
+
+import { CaseBooking, CaseStatus } from '../types';
+
+// ================================================
+// TYPES
+// ================================================
+
+export type WorkflowGroupBy = 'status' | 'country' | 'department' | 'hospital' | 'processedBy';
+
+export interface StatusStay {
+  caseId: string;
+  caseReferenceNumber: string;
+  status: CaseStatus;
+  country: string;
+  department: string;
+  hospital: string;
+  /** User who moved the case out of the status */
+  processedBy: string;
+  enteredAt: string;
+  leftAt: string;
+  hours: number;
+}
+
+export interface StageDurationRow {
+  status: CaseStatus;
+  /** Country, department, hospital or user id - empty when grouped by status only */
+  group: string;
+  count: number;
+  medianHours: number;
+  p90Hours: number;
+}
+
+export interface DurationTrendPoint {
+  /** Month the stays finished in (YYYY-MM) */
+  period: string;
+  count: number;
+  medianHours: number;
+  p90Hours: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ================================================
+// PURE HELPERS
+// ================================================
+
+/**
+ * Nearest-rank percentile (p between 0 and 100) - 0 for an empty list
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(Math.ceil((p / 100) * sorted.length), 1);
+  return sorted[rank - 1];
+};
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Short duration label, e.g. "45m", "5.2h" or "1.5d"
+ */
+export const formatDurationHours = (hours: number): string => {
+  if (hours < 1) {
+    return `${Math.round(hours * 60)}m`;
+  }
+  return hours < 48 ? `${round1(hours)}h` : `${round1(hours / 24)}d`;
+};
+
+/**
+ * Finished status stays of the given cases, from their status history
+ */
+export const getStatusStays = (cases: CaseBooking[]): StatusStay[] =>
+  cases.flatMap(caseItem => {
+    const history = [...(caseItem.statusHistory || [])].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    return history.slice(0, -1).flatMap((entry, index) => {
+      const next = history[index + 1];
+      const hours = (new Date(next.timestamp).getTime() - new Date(entry.timestamp).getTime()) / HOUR_MS;
+      if (!Number.isFinite(hours) || hours < 0) {
+        return [];
+      }
+
+      return [{
+        caseId: caseItem.id,
+        caseReferenceNumber: caseItem.caseReferenceNumber,
+        status: entry.status,
+        country: caseItem.country,
+        department: caseItem.department,
+        hospital: caseItem.hospital,
+        processedBy: next.processedBy,
+        enteredAt: entry.timestamp,
+        leftAt: next.timestamp,
+        hours
+      }];
+    });
+  });
+
+const getGroupValue = (stay: StatusStay, groupBy: WorkflowGroupBy): string =>
+  groupBy === 'status' ? '' : stay[groupBy] || '';
+
+const summarize = (stays: StatusStay[]) => {
+  const hours = stays.map(stay => stay.hours);
+  return {
+    count: stays.length,
+    medianHours: round1(percentile(hours, 50)),
+    p90Hours: round1(percentile(hours, 90))
+  };
+};
+
+/**
+ * Median and p90 time per status, optionally split by a case or user dimension.
+ * Rows follow statusOrder (workflow order), then group name.
+ */
+export const summarizeStageDurations = (
+  stays: StatusStay[],
+  groupBy: WorkflowGroupBy,
+  statusOrder: CaseStatus[] = []
+): StageDurationRow[] => {
+  const buckets = new Map<string, StatusStay[]>();
+  stays.forEach(stay => {
+    const key = JSON.stringify([stay.status, getGroupValue(stay, groupBy)]);
+    buckets.set(key, [...(buckets.get(key) || []), stay]);
+  });
+
+  const orderOf = (status: CaseStatus) => {
+    const index = statusOrder.indexOf(status);
+    return index === -1 ? statusOrder.length : index;
+  };
+
+  return Array.from(buckets.entries())
+    .map(([key, bucket]) => {
+      const [status, group] = JSON.parse(key) as [CaseStatus, string];
+      return { status, group, ...summarize(bucket) };
+    })
+    .sort((a, b) =>
+      orderOf(a.status) - orderOf(b.status) ||
+      a.status.localeCompare(b.status) ||
+      a.group.localeCompare(b.group)
+    );
+};
+
+/**
+ * Monthly median and p90 of the given stays, oldest month first
+ */
+export const buildDurationTrend = (stays: StatusStay[]): DurationTrendPoint[] => {
+  const byMonth = new Map<string, StatusStay[]>();
+  stays.forEach(stay => {
+    const period = stay.leftAt.slice(0, 7);
+    byMonth.set(period, [...(byMonth.get(period) || []), stay]);
+  });
+
+  return Array.from(byMonth.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, bucket]) => ({ period, ...summarize(bucket) }));
+};
+
+/**
+ * Longest stays first - the drill-down behind a breakdown row
+ */
+export const getSlowestStays = (stays: StatusStay[], limit = 20): StatusStay[] =>
+  [...stays].sort((a, b) => b.hours - a.hours).slice(0, limit);
+
+/**
+ * Mean days from a case's first to its last status change, over cases that have moved
+ */
+export const getAverageCycleDays = (cases: CaseBooking[]): number => {
+  const cycles = cases.flatMap(caseItem => {
+    const times = (caseItem.statusHistory || []).map(entry => new Date(entry.timestamp).getTime()).filter(Number.isFinite);
+    return times.length > 1 ? [(Math.max(...times) - Math.min(...times)) / (24 * HOUR_MS)] : [];
+  });
+
+  return cycles.length > 0 ? round1(cycles.reduce((sum, days) => sum + days, 0) / cycles.length) : 0;
+};
@@ -0,0 +1,126 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+// Email from scheduled edge functions, sent through the send-email function with the
+// application's admin account (global_email_config). Mirrors
+// centralizedEmailService.sendEmail in src/services/centralizedEmailService.ts - keep
+// them in step.
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  contentBase64: string;
+}
+
+export interface AdminEmail {
+  to: string[];
+  subject: string;
+  body: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface AdminEmailResult {
+  success: boolean;
+  error?: string;
+}
+
+interface AdminEmailConfigRow {
+  provider: 'microsoft' | 'google';
+  client_id: string;
+  tenant_id: string | null;
+  access_token: string;
+  refresh_token: string | null;
+  expires_at: number;
+  from_email: string;
+  from_name: string;
+}
+
+// Refresh 30 minutes before expiry, as the browser service does
+const TOKEN_REFRESH_MARGIN_MS = 30 * 60 * 1000;
+
+const refreshAccessToken = async (config: AdminEmailConfigRow): Promise<{ accessToken: string; expiresAt: number } | null> => {
+  if (!config.refresh_token) {
+    return null;
+  }
+
+  const isMicrosoft = config.provider === 'microsoft';
+  const response = await fetch(
+    isMicrosoft
+      ? `https://login.microsoftonline.com/${config.tenant_id}/oauth2/v2.0/token`
+      : 'https://oauth2.googleapis.com/token',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: config.client_id,
+        refresh_token: config.refresh_token,
+        grant_type: 'refresh_token',
+        ...(isMicrosoft ? { scope: 'https://graph.microsoft.com/Mail.Send offline_access' } : {})
+      })
+    }
+  );
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error(`❌ ADMIN EMAIL - ${config.provider} token refresh failed:`, data);
+    return null;
+  }
+  return { accessToken: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+};
+
+/**
+ * Send an email with the admin account. Never throws - a failure is returned so the
+ * caller can keep its own record pending and retry.
+ */
+export const sendAdminEmail = async (supabase: SupabaseClient, email: AdminEmail): Promise<AdminEmailResult> => {
+  try {
+    const { data: config, error: configError } = await supabase
+      .from('global_email_config')
+      .select('provider, client_id, tenant_id, access_token, refresh_token, expires_at, from_email, from_name')
+      .eq('is_active', true)
+      .maybeSingle<AdminEmailConfigRow>();
+
+    if (configError) {
+      throw configError;
+    }
+    if (!config) {
+      return { success: false, error: 'No admin email configuration - configure email authentication in settings' };
+    }
+
+    let accessToken = config.access_token;
+    if (Date.now() >= config.expires_at - TOKEN_REFRESH_MARGIN_MS) {
+      const refreshed = await refreshAccessToken(config);
+      if (!refreshed) {
+        return { success: false, error: 'Failed to refresh the admin email token' };
+      }
+      accessToken = refreshed.accessToken;
+
+      const { error: updateError } = await supabase
+        .from('global_email_config')
+        .update({ access_token: refreshed.accessToken, expires_at: refreshed.expiresAt, updated_at: new Date().toISOString() })
+        .eq('is_active', true);
+      if (updateError) {
+        console.warn('⚠️ ADMIN EMAIL - Token refreshed but not saved:', updateError);
+      }
+    }
+
+    const { data, error } = await supabase.functions.invoke('send-email', {
+      body: {
+        to: email.to,
+        subject: email.subject,
+        body: email.body,
+        attachments: email.attachments,
+        fromEmail: config.from_email,
+        fromName: config.from_name,
+        accessToken,
+        provider: config.provider
+      }
+    });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+    return data?.success ? { success: true } : { success: false, error: data?.error || 'Admin email send failed' };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to send admin email' };
+  }
+};
@@ -0,0 +1,395 @@
+// Scheduled report emails - send times, report rows and the rendered email - for the
+// scheduled-reports edge function. Kept free of Deno APIs so the app's test suite
+// (src/tests/scheduled-reports.test.ts) runs this same code.
+//
+// Next send times mirror getNextRunAt in src/utils/scheduledReportService.ts, and the
+// report rows mirror filterReportCases and buildDetailedReportRows in
+// src/utils/reportExportService.ts, getStatusStays and summarizeStageDurations in
+// src/utils/workflowPerformanceService.ts and estimateCaseValue in
+// src/utils/priceListService.ts - keep them in step.
+
+// The app type-checks with TypeScript 4.9, which rejects the .ts extensions Deno needs
+// @ts-ignore
+import { getZonedParts, zonedTimeToUtc } from "./timeZones.ts";
+// @ts-ignore
+import { buildXlsx, bytesToBase64, encodeUtf8 } from "./xlsx.ts";
+
+// ================================================
+// TYPES
+// ================================================
+
+export type ReportType = 'overview' | 'workflow' | 'workflowPerformance' | 'performance' | 'detailed' | 'builder';
+export type ReportFormat = 'csv' | 'xlsx' | 'html';
+
+export interface ReportFilters {
+  dateFrom: string;
+  dateTo: string;
+  status: string;
+  country: string;
+  department: string;
+  submitter: string;
+  reportType: ReportType;
+}
+
+export interface ScheduleRow {
+  id: string;
+  name: string;
+  filters: Partial<ReportFilters> | null;
+  frequency: 'daily' | 'weekly' | 'monthly';
+  day_of_week: number | null;
+  day_of_month: number | null;
+  hour: number;
+  timezone: string;
+  format: ReportFormat;
+  recipients: string[] | null;
+  enabled: boolean;
+  next_run_at: string;
+}
+
+export interface CaseRow {
+  id: string;
+  case_reference_number: string;
+  hospital: string;
+  department: string;
+  country: string;
+  status: string;
+  date_of_surgery: string;
+  time_of_procedure: string | null;
+  procedure_type: string;
+  procedure_name: string | null;
+  doctor_name: string | null;
+  surgery_set_selection: string[] | null;
+  implant_box: string[] | null;
+  special_instruction: string | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  processed_by: string | null;
+  processed_at: string | null;
+  amended_by: string | null;
+  amended_at: string | null;
+  is_amended: boolean | null;
+  do_number: string | null;
+  delivery_details: string | null;
+  order_summary: string | null;
+}
+
+export interface HistoryRow {
+  case_id: string;
+  status: string;
+  timestamp: string;
+}
+
+export interface PriceListRow {
+  country: string;
+  hospital: string | null;
+  currency: string;
+  effective_from: string;
+  effective_to: string | null;
+  price_list_items: Array<{ item_type: string; item_name: string; unit_price: number | string }> | null;
+}
+
+export interface ValueEstimate {
+  currency: string | null;
+  value: number;
+}
+
+// Same shape as EmailAttachment in adminEmail.ts, which needs the Supabase client types
+export interface ReportAttachment {
+  filename: string;
+  contentType: string;
+  contentBase64: string;
+}
+
+export interface RenderedReport {
+  subject: string;
+  body: string;
+  attachment?: ReportAttachment;
+}
+
+// ================================================
+// CONSTANTS
+// ================================================
+
+export const DEFAULT_REPORT_FILTERS: ReportFilters = {
+  dateFrom: '',
+  dateTo: '',
+  status: '',
+  country: '',
+  department: '',
+  submitter: '',
+  reportType: 'overview'
+};
+
+const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  overview: 'Overview Dashboard',
+  workflow: 'Workflow Analysis',
+  workflowPerformance: 'Workflow Performance',
+  performance: 'Performance Metrics',
+  detailed: 'Detailed Report',
+  builder: 'Report Builder'
+};
+
+const DETAILED_REPORT_HEADERS = [
+  'Case Reference', 'Hospital', 'Department', 'Date of Surgery', 'Time of Procedure',
+  'Procedure Type', 'Procedure Name', 'Doctor', 'Status', 'Country',
+  'Surgery Sets', 'Implant Boxes', 'Special Instructions',
+  'Submitted By', 'Submitted At', 'Processed By', 'Processed At',
+  'Amended By', 'Amended At', 'Is Amended', 'DO Number',
+  'Delivery Details', 'Order Summary', 'Currency', 'Estimated Value'
+];
+
+const FORMAT_CONTENT_TYPES: Record<Exclude<ReportFormat, 'html'>, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Rows beyond this are left out of HTML emails - attachments carry everything
+const HTML_ROW_LIMIT = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const getFilters = (schedule: ScheduleRow): ReportFilters => ({ ...DEFAULT_REPORT_FILTERS, ...(schedule.filters || {}) });
+
+// ================================================
+// SEND TIMES
+// ================================================
+
+const toDateString = (year: number, month: number, day: number): string => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.toISOString().slice(0, 10);
+};
+
+// First send time strictly after `after`, in the schedule's time zone
+export const getNextRunAt = (schedule: ScheduleRow, after: Date): Date => {
+  const today = getZonedParts(after, schedule.timezone);
+  const sendAt = (date: string) => zonedTimeToUtc(date, schedule.hour, 0, schedule.timezone);
+
+  if (schedule.frequency === 'monthly') {
+    const dayOfMonth = schedule.day_of_month ?? 1;
+    const thisMonth = sendAt(toDateString(today.year, today.month, dayOfMonth));
+    return thisMonth > after ? thisMonth : sendAt(toDateString(today.year, today.month + 1, dayOfMonth));
+  }
+
+  for (let offset = 0; ; offset++) {
+    const date = toDateString(today.year, today.month, today.day + offset);
+    const next = sendAt(date);
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (next > after && (schedule.frequency !== 'weekly' || weekday === (schedule.day_of_week ?? 1))) {
+      return next;
+    }
+  }
+};
+
+const formatDate = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return `${DAY_NAMES[weekday]}, ${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`;
+};
+
+// ================================================
+// REPORT ROWS
+// ================================================
+
+const sameText = (a: string | null, b: string | null): boolean =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+export const estimateCaseValue = (
+  caseRow: CaseRow,
+  quantities: Record<string, number>,
+  priceLists: PriceListRow[]
+): ValueEstimate => {
+  const day = caseRow.date_of_surgery.slice(0, 10);
+  const candidates = priceLists
+    .filter(list => list.country === caseRow.country)
+    .filter(list => list.effective_from <= day && (!list.effective_to || list.effective_to >= day))
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+  const hospitalList = candidates.find(list => list.hospital && sameText(list.hospital, caseRow.hospital));
+  const countryList = candidates.find(list => !list.hospital && (!hospitalList || list.currency === hospitalList.currency));
+  const lists = [hospitalList, countryList].filter((list): list is PriceListRow => !!list);
+
+  const prices = lists.map(list => new Map((list.price_list_items || []).map(item => [
+    `${item.item_type}:${item.item_name.trim().toLowerCase()}`,
+    Number(item.unit_price)
+  ])));
+  const items = [
+    ...(caseRow.surgery_set_selection || []).map(name => ({ name, type: 'surgery_set' })),
+    ...(caseRow.implant_box || []).map(name => ({ name, type: 'implant_box' }))
+  ];
+
+  let value = 0;
+  items.forEach(item => {
+    const key = `${item.type}:${item.name.trim().toLowerCase()}`;
+    const unitPrice = prices.map(priceMap => priceMap.get(key)).find(price => price !== undefined);
+    if (unitPrice !== undefined) {
+      value += unitPrice * (quantities[item.name] || 1);
+    }
+  });
+
+  return { currency: lists[0]?.currency || null, value: Math.round(value * 100) / 100 };
+};
+
+export const matchesSubmitter = (caseRow: CaseRow, submitter: string, userNames: Map<string, string>): boolean => {
+  const submittedBy = caseRow.submitted_by || '';
+  const userName = userNames.get(submittedBy) || submittedBy;
+  return userName.toLowerCase().includes(submitter.toLowerCase()) ||
+    submittedBy.toLowerCase().includes(submitter.toLowerCase());
+};
+
+const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(Math.ceil((p / 100) * sorted.length), 1) - 1];
+};
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+// Median and p90 hours per status of finished status stays
+export const buildWorkflowPerformanceRows = (history: HistoryRow[]): Array<Array<string | number>> => {
+  const byCase = new Map<string, HistoryRow[]>();
+  history.forEach(row => byCase.set(row.case_id, [...(byCase.get(row.case_id) || []), row]));
+
+  const hoursByStatus = new Map<string, number[]>();
+  byCase.forEach(entries => {
+    const sorted = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    sorted.slice(0, -1).forEach((entry, index) => {
+      const hours = (new Date(sorted[index + 1].timestamp).getTime() - new Date(entry.timestamp).getTime()) / HOUR_MS;
+      if (Number.isFinite(hours) && hours >= 0) {
+        hoursByStatus.set(entry.status, [...(hoursByStatus.get(entry.status) || []), hours]);
+      }
+    });
+  });
+
+  return [
+    ['Status', 'Stays', 'Median Hours', 'P90 Hours'],
+    ...Array.from(hoursByStatus.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([status, hours]) => [status, hours.length, round1(percentile(hours, 50)), round1(percentile(hours, 90))])
+  ];
+};
+
+export const buildDetailedReportRows = (
+  cases: CaseRow[],
+  valueEstimates: Record<string, ValueEstimate>,
+  timeZone: string
+): Array<Array<string | number>> => {
+  const date = (value: string | null) => (value ? formatDate(new Date(value), timeZone) : '');
+
+  return [
+    DETAILED_REPORT_HEADERS,
+    ...cases.map(c => [
+      c.case_reference_number || '',
+      c.hospital || '',
+      c.department || '',
+      c.date_of_surgery || '',
+      c.time_of_procedure || '',
+      c.procedure_type || '',
+      c.procedure_name || '',
+      c.doctor_name || '',
+      c.status || '',
+      c.country || '',
+      (c.surgery_set_selection || []).join('; '),
+      (c.implant_box || []).join('; '),
+      c.special_instruction || '',
+      c.submitted_by || '',
+      date(c.submitted_at),
+      c.processed_by || '',
+      date(c.processed_at),
+      c.amended_by || '',
+      date(c.amended_at),
+      c.is_amended ? 'Yes' : 'No',
+      c.do_number || '',
+      c.delivery_details || '',
+      c.order_summary || '',
+      valueEstimates[c.id]?.currency || '',
+      valueEstimates[c.id]?.currency ? valueEstimates[c.id].value.toFixed(2) : ''
+    ])
+  ];
+};
+
+const toReportCsv = (rows: Array<Array<string | number>>): string =>
+  rows.map(row =>
+    row.map(field => `"${String(field).replace(/"/g, '""')}"`).join(',')
+  ).join('\n');
+
+// ================================================
+// EMAIL
+// ================================================
+
+const describeFilters = (filters: ReportFilters): string => {
+  const parts = [
+    filters.country && `Country: ${filters.country}`,
+    filters.department && `Department: ${filters.department}`,
+    filters.status && `Status: ${filters.status}`,
+    filters.submitter && `Submitter: ${filters.submitter}`,
+    (filters.dateFrom || filters.dateTo) && `Surgery date: ${filters.dateFrom || '…'} to ${filters.dateTo || '…'}`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All cases';
+};
+
+// Subject, HTML body and attachment for one run of a schedule, dated in its time zone
+export const renderReport = (
+  schedule: ScheduleRow,
+  cases: CaseRow[],
+  rows: Array<Array<string | number>>,
+  now: Date
+): RenderedReport => {
+  const filters = getFilters(schedule);
+  const reportLabel = REPORT_TYPE_LABELS[filters.reportType];
+  const dateLabel = formatDate(now, schedule.timezone);
+  const { year, month, day } = getZonedParts(now, schedule.timezone);
+  const fileBase = `${schedule.name.trim().replace(/[^A-Za-z0-9-]+/g, '_')}_${toDateString(year, month, day)}`;
+
+  const statusCounts: Record<string, number> = {};
+  cases.forEach(caseRow => {
+    statusCounts[caseRow.status] = (statusCounts[caseRow.status] || 0) + 1;
+  });
+  const statusRows = Object.entries(statusCounts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([status, count]) => `<tr><td>${escapeHtml(status)}</td><td style="text-align:right">${count}</td></tr>`)
+    .join('');
+
+  let body = [
+    `<h2>${escapeHtml(schedule.name)}</h2>`,
+    `<p>${escapeHtml(reportLabel)} · ${escapeHtml(describeFilters(filters))} · generated ${escapeHtml(dateLabel)}</p>`,
+    `<p><strong>${cases.length}</strong> case(s) in this report.</p>`,
+    statusRows ? `<table border="1" cellpadding="4" cellspacing="0">${statusRows}</table>` : ''
+  ].join('\n');
+  let attachment: ReportAttachment | undefined;
+
+  if (schedule.format === 'html') {
+    const [headers, ...dataRows] = rows;
+    const tableRows = dataRows.slice(0, HTML_ROW_LIMIT)
+      .map(row => `<tr>${row.map(value => `<td>${escapeHtml(String(value))}</td>`).join('')}</tr>`)
+      .join('');
+    body += [
+      '<br>',
+      '<table border="1" cellpadding="4" cellspacing="0">',
+      `<tr>${headers.map(header => `<th>${escapeHtml(String(header))}</th>`).join('')}</tr>`,
+      tableRows,
+      '</table>',
+      dataRows.length > HTML_ROW_LIMIT
+        ? `<p>Showing the first ${HTML_ROW_LIMIT} of ${dataRows.length} rows - choose CSV or XLSX to receive all rows.</p>`
+        : ''
+    ].join('\n');
+  } else {
+    const bytes = schedule.format === 'xlsx' ? buildXlsx(reportLabel, rows) : encodeUtf8(toReportCsv(rows));
+    attachment = {
+      filename: `${fileBase}.${schedule.format}`,
+      contentType: FORMAT_CONTENT_TYPES[schedule.format],
+      contentBase64: bytesToBase64(bytes)
+    };
+    body += `\n<p>The full report is attached (${schedule.format.toUpperCase()}).</p>`;
+  }
+
+  return { subject: `📊 ${schedule.name} - ${dateLabel}`, body, attachment };
+};
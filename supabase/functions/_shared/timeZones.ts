@@ -0,0 +1,5 @@
+// Wall-clock helpers for scheduled edge functions. Edge functions run in UTC, while
+// surgery times, calendar events and report schedules are local to a country or a
+// stored time zone. The app and the edge functions share one copy of these tables.
+
+export * from "../../../src/utils/timeZones.ts";
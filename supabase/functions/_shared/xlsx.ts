@@ -0,0 +1,195 @@
+// Single-sheet XLSX workbooks for edge functions - a minimal stored (uncompressed) ZIP
+// with inline strings. Imports nothing, so the app's tests run it as well.
+
+// ================================================
+// ENCODING HELPERS
+// ================================================
+
+/**
+ * UTF-8 bytes of a string (TextEncoder is not available in every runtime we test in)
+ */
+export const encodeUtf8 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+/**
+ * Base64 of raw bytes - for email attachments
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Spreadsheet column letters - 0 => A, 25 => Z, 26 => AA
+ */
+export const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// ================================================
+// ZIP (STORE ONLY)
+// ================================================
+
+const writeUint16 = (view: DataView, offset: number, value: number) => view.setUint16(offset, value, true);
+const writeUint32 = (view: DataView, offset: number, value: number) => view.setUint32(offset, value, true);
+
+const buildZip = (files: Array<{ name: string; content: string }>): Uint8Array => {
+  const entries = files.map(file => ({ name: encodeUtf8(file.name), data: encodeUtf8(file.content) }));
+  const localSize = entries.reduce((sum, entry) => sum + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+  const zip = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(zip.buffer);
+
+  let offset = 0;
+  const offsets: number[] = [];
+  entries.forEach(entry => {
+    const crc = crc32(entry.data);
+    offsets.push(offset);
+    writeUint32(view, offset, 0x04034b50); // local file header
+    writeUint16(view, offset + 4, 20); // version needed
+    writeUint16(view, offset + 6, 0x0800); // UTF-8 names
+    writeUint16(view, offset + 8, 0); // stored
+    writeUint32(view, offset + 14, crc);
+    writeUint32(view, offset + 18, entry.data.length);
+    writeUint32(view, offset + 22, entry.data.length);
+    writeUint16(view, offset + 26, entry.name.length);
+    zip.set(entry.name, offset + 30);
+    zip.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  });
+
+  const centralOffset = offset;
+  entries.forEach((entry, index) => {
+    writeUint32(view, offset, 0x02014b50); // central directory header
+    writeUint16(view, offset + 4, 20); // version made by
+    writeUint16(view, offset + 6, 20); // version needed
+    writeUint16(view, offset + 8, 0x0800);
+    writeUint16(view, offset + 10, 0);
+    writeUint32(view, offset + 16, crc32(entry.data));
+    writeUint32(view, offset + 20, entry.data.length);
+    writeUint32(view, offset + 24, entry.data.length);
+    writeUint16(view, offset + 28, entry.name.length);
+    writeUint32(view, offset + 42, offsets[index]);
+    zip.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  writeUint32(view, offset, 0x06054b50); // end of central directory
+  writeUint16(view, offset + 8, entries.length);
+  writeUint16(view, offset + 10, entries.length);
+  writeUint32(view, offset + 12, offset - centralOffset);
+  writeUint32(view, offset + 16, centralOffset);
+
+  return zip;
+};
+
+// ================================================
+// WORKBOOK
+// ================================================
+
+const buildSheetXml = (rows: Array<Array<string | number>>): string => {
+  const rowXml = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const ref = `${getColumnName(columnIndex)}${rowIndex + 1}`;
+      return typeof value === 'number' && Number.isFinite(value)
+        ? `<c r="${ref}"><v>${value}</v></c>`
+        : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rowXml.join('')}</sheetData></worksheet>`;
+};
+
+/**
+ * XLSX file with one sheet holding the given rows (first row is usually the header)
+ */
+export const buildXlsx = (sheetName: string, rows: Array<Array<string | number>>): Uint8Array => {
+  // Excel sheet names: max 31 characters, none of : \ / ? * [ ]
+  const safeSheetName = escapeXml(sheetName.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>'
+    },
+    { name: 'xl/worksheets/sheet1.xml', content: buildSheetXml(rows) }
+  ]);
+};
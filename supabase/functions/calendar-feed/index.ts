@@ -0,0 +1,310 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { getCountryTimeZone, getTimeZoneUtcOffset } from "../_shared/timeZones.ts";
+
+// Read-only iCalendar subscription feed for case bookings.
+// GET /functions/v1/calendar-feed?token=<calendar_feeds.token>
+//
+// Calendar clients cannot send a Supabase JWT, so deploy with --no-verify-jwt; the
+// long random token is the credential and the scope is taken from its row only.
+// The owner's profile is re-checked on every fetch (getCalendarFeedAccessError in
+// src/utils/icsCalendarService.ts), so a feed stops serving once its owner is disabled
+// or no longer has access to the feed's country or department.
+// Event format mirrors src/utils/icsCalendarService.ts - keep them in step.
+
+interface CalendarFeedRow {
+  id: string;
+  scope: 'mine' | 'country' | 'department';
+  country: string;
+  department: string | null;
+  user_id: string;
+  label: string;
+}
+
+interface ProfileRow {
+  role: string;
+  countries: string[] | null;
+  departments: string[] | null;
+  enabled: boolean | null;
+}
+
+interface CaseRow {
+  id: string;
+  case_reference_number: string;
+  hospital: string;
+  department: string;
+  date_of_surgery: string;
+  procedure_type: string;
+  procedure_name: string | null;
+  doctor_name: string | null;
+  time_of_procedure: string | null;
+  surgery_set_selection: string[] | null;
+  implant_box: string[] | null;
+  special_instruction: string | null;
+  status: string;
+  country: string;
+  submitted_at: string | null;
+  processed_at: string | null;
+  amended_at: string | null;
+}
+
+const CALENDAR_HISTORY_DAYS = 90;
+const DEFAULT_EVENT_DURATION_MINUTES = 120;
+
+const COUNTRY_SCOPE_ROLES = ['admin', 'it'];
+
+const canOwnerAccessFeed = (profile: ProfileRow | null, feed: CalendarFeedRow): boolean => {
+  if (!profile || profile.enabled === false) return false;
+  if (COUNTRY_SCOPE_ROLES.includes(profile.role)) return true;
+  if (!(profile.countries || []).includes(feed.country)) return false;
+  if (feed.scope === 'country') return false;
+  if (feed.scope === 'department') return !!feed.department && (profile.departments || []).includes(feed.department);
+  return true;
+};
+
+const buildTimeZone = (timeZone: string): string[] => {
+  const offset = getTimeZoneUtcOffset(timeZone);
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    `TZNAME:${offset.slice(0, 3)}`,
+    'END:STANDARD',
+    'END:VTIMEZONE'
+  ];
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of Array.from(line)) {
+    const charOctets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const utcStamp = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const parseTime = (time: string | null): { hours: number; minutes: number } | null => {
+  const match = time?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const meridiem = match[3]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+};
+
+const formatItems = (items: string[] | null, quantities: Record<string, number>): string =>
+  items && items.length > 0
+    ? items.map(item => (quantities[item] > 1 ? `${item} x${quantities[item]}` : item)).join(', ')
+    : 'None';
+
+const buildEvent = (row: CaseRow, quantities: Record<string, number>, now: Date): string[] => {
+  const isCancelled = row.status === 'Case Cancelled';
+  const time = parseTime(row.time_of_procedure);
+  const timeZone = getCountryTimeZone(row.country);
+  const [year, month, day] = row.date_of_surgery.slice(0, 10).split('-').map(Number);
+  const lastModified = row.amended_at || row.processed_at || row.submitted_at;
+
+  const description = [
+    `Case Reference: ${row.case_reference_number}`,
+    `Status: ${row.status}`,
+    `Hospital: ${row.hospital}`,
+    `Department: ${row.department}`,
+    `Doctor: ${row.doctor_name || 'Not specified'}`,
+    `Procedure: ${row.procedure_type}${row.procedure_name ? ` - ${row.procedure_name}` : ''}`,
+    `Time of Procedure: ${row.time_of_procedure || 'Not specified'}`,
+    `Surgery Sets: ${formatItems(row.surgery_set_selection, quantities)}`,
+    `Implant Boxes: ${formatItems(row.implant_box, quantities)}`,
+    ...(row.special_instruction ? [`Special Instruction: ${row.special_instruction}`] : [])
+  ].join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${row.id}@tm-case-booking`,
+    `DTSTAMP:${utcStamp(now)}`,
+    `SEQUENCE:${isCancelled ? 1 : 0}`
+  ];
+
+  if (time) {
+    const start = new Date(Date.UTC(year, month - 1, day, time.hours, time.minutes));
+    const end = new Date(start.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60 * 1000);
+    const local = (value: Date) =>
+      `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}00`;
+    lines.push(`DTSTART;TZID=${timeZone}:${local(start)}`, `DTEND;TZID=${timeZone}:${local(end)}`);
+  } else {
+    const next = new Date(Date.UTC(year, month - 1, day + 1));
+    lines.push(
+      `DTSTART;VALUE=DATE:${year}${pad(month)}${pad(day)}`,
+      `DTEND;VALUE=DATE:${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`
+    );
+  }
+
+  if (lastModified && !isNaN(new Date(lastModified).getTime())) {
+    lines.push(`LAST-MODIFIED:${utcStamp(new Date(lastModified))}`);
+  }
+
+  lines.push(
+    `SUMMARY:${escapeText(`${row.case_reference_number} - ${row.procedure_type} - ${row.hospital}`)}`,
+    `LOCATION:${escapeText(row.hospital)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${escapeText(row.department)}`,
+    `STATUS:${isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT'
+  );
+  return lines;
+};
+
+const textResponse = (body: string, status: number): Response =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return textResponse('Method not allowed', 405);
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token || !/^[a-f0-9]{48}$/.test(token)) {
+      return textResponse('Invalid feed token', 404);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('id, scope, country, department, user_id, label')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle<CalendarFeedRow>();
+
+    if (feedError) {
+      throw feedError;
+    }
+    if (!feed) {
+      return textResponse('Feed not found or revoked', 404);
+    }
+
+    const { data: owner, error: ownerError } = await supabase
+      .from('profiles')
+      .select('role, countries, departments, enabled')
+      .eq('id', feed.user_id)
+      .maybeSingle<ProfileRow>();
+
+    if (ownerError) {
+      throw ownerError;
+    }
+    if (!canOwnerAccessFeed(owner, feed)) {
+      console.warn('📅 CALENDAR FEED - Owner no longer has access:', { feedId: feed.id, scope: feed.scope });
+      return textResponse('Feed owner no longer has access to this calendar', 403);
+    }
+
+    const now = new Date();
+    const since = new Date(now.getTime() - CALENDAR_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    let query = supabase
+      .from('case_bookings')
+      .select('id, case_reference_number, hospital, department, date_of_surgery, procedure_type, procedure_name, doctor_name, time_of_procedure, surgery_set_selection, implant_box, special_instruction, status, country, submitted_at, processed_at, amended_at')
+      .eq('country', feed.country)
+      .gte('date_of_surgery', since)
+      .order('date_of_surgery', { ascending: true });
+
+    if (feed.scope === 'mine') {
+      query = query.eq('submitted_by', feed.user_id);
+    } else if (feed.scope === 'department' && feed.department) {
+      query = query.eq('department', feed.department);
+    }
+
+    const { data: cases, error: casesError } = await query.returns<CaseRow[]>();
+    if (casesError) {
+      throw casesError;
+    }
+
+    const quantitiesByCase: Record<string, Record<string, number>> = {};
+    const caseIds = (cases || []).map(row => row.id);
+    if (caseIds.length > 0) {
+      const { data: quantities } = await supabase
+        .from('case_booking_quantities')
+        .select('case_booking_id, item_name, quantity')
+        .in('case_booking_id', caseIds);
+
+      for (const row of quantities || []) {
+        quantitiesByCase[row.case_booking_id] = {
+          ...(quantitiesByCase[row.case_booking_id] || {}),
+          [row.item_name]: row.quantity
+        };
+      }
+    }
+
+    const timeZones = Array.from(new Set(
+      (cases || [])
+        .filter(row => parseTime(row.time_of_procedure))
+        .map(row => getCountryTimeZone(row.country))
+    ));
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Transmedic//Case Booking//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(feed.label)}`,
+      `X-WR-TIMEZONE:${getCountryTimeZone(feed.country)}`,
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+      ...timeZones.flatMap(buildTimeZone),
+      ...(cases || []).flatMap(row => buildEvent(row, quantitiesByCase[row.id] || {}, now)),
+      'END:VCALENDAR'
+    ];
+
+    console.log('📅 CALENDAR FEED - Served feed:', {
+      feedId: feed.id,
+      scope: feed.scope,
+      country: feed.country,
+      events: cases?.length || 0
+    });
+
+    return new Response(lines.map(foldLine).join('\r\n') + '\r\n', {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="case-bookings.ics"',
+        'Cache-Control': 'private, max-age=900'
+      }
+    });
+  } catch (error) {
+    console.error('❌ CALENDAR FEED - Unexpected error:', error);
+    return textResponse('Internal server error', 500);
+  }
+});
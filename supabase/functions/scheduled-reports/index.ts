@@ -0,0 +1,335 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { sendAdminEmail } from "../_shared/adminEmail.ts";
+import {
+  buildDetailedReportRows,
+  buildWorkflowPerformanceRows,
+  estimateCaseValue,
+  getFilters,
+  getNextRunAt,
+  matchesSubmitter,
+  renderReport,
+  type CaseRow,
+  type HistoryRow,
+  type PriceListRow,
+  type ReportFilters,
+  type ScheduleRow,
+  type ValueEstimate
+} from "../_shared/scheduledReport.ts";
+
+// Scheduled report delivery, run every 5 minutes by pg_cron
+// (supabase/migrations/20261018110000_scheduled_report_runner.sql).
+//
+// POST /functions/v1/scheduled-reports
+//   - with the service-role key as the bearer token: send every enabled schedule whose
+//     next_run_at has passed. A schedule is claimed by moving next_run_at forward
+//     (conditional update) before it is sent, so overlapping runs never send it twice.
+//   - with a signed-in user's token and { scheduleId }: "Send Now" for one schedule.
+//     Allowed to whoever may edit the schedule - report_schedules RLS decides, as it
+//     does for saving.
+//
+// Send times are wall-clock hours in the schedule's own time zone. Cases are read with
+// the service role, so a report holds the same cases whoever created the schedule.
+//
+// The report itself - send times, rows and the email - is built by
+// ../_shared/scheduledReport.ts, which the app's tests run as well.
+
+type ReportTrigger = 'schedule' | 'manual';
+
+interface ReportRun {
+  scheduleId: string;
+  startedAt: string;
+  finishedAt: string;
+  status: 'success' | 'failed';
+  trigger: ReportTrigger;
+  caseCount: number;
+  recipients: string[];
+  error: string | null;
+}
+
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+
+const jsonResponse = (body: unknown, status: number): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+// ================================================
+// LOADING
+// ================================================
+
+// Filters that map to columns are applied in the query; the submitter filter matches
+// names as well as ids, so it is applied afterwards
+const loadReportCases = async (supabase: SupabaseClient, filters: ReportFilters): Promise<CaseRow[]> => {
+  const cases: CaseRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('case_bookings')
+      .select('id, case_reference_number, hospital, department, country, status, date_of_surgery, time_of_procedure, procedure_type, procedure_name, doctor_name, surgery_set_selection, implant_box, special_instruction, submitted_by, submitted_at, processed_by, processed_at, amended_by, amended_at, is_amended, do_number, delivery_details, order_summary');
+
+    if (filters.dateFrom) query = query.gte('date_of_surgery', filters.dateFrom);
+    if (filters.dateTo) query = query.lte('date_of_surgery', filters.dateTo);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.country) query = query.eq('country', filters.country);
+    if (filters.department) query = query.eq('department', filters.department);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<CaseRow[]>();
+
+    if (error) {
+      throw error;
+    }
+    cases.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return cases;
+    }
+  }
+};
+
+// Display names keyed by profile id, email and username - the ways cases record users
+const loadUserNames = async (supabase: SupabaseClient): Promise<Map<string, string>> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, name, username, email');
+
+  if (error) {
+    throw error;
+  }
+
+  const names = new Map<string, string>();
+  for (const profile of data || []) {
+    if (!profile.name) continue;
+    [profile.id, profile.email, profile.username].filter(Boolean).forEach(key => names.set(key, profile.name));
+  }
+  return names;
+};
+
+const loadStatusHistory = async (supabase: SupabaseClient, caseIds: string[]): Promise<HistoryRow[]> => {
+  const history: HistoryRow[] = [];
+  for (const ids of chunk(caseIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('status_history')
+      .select('case_id, status, timestamp')
+      .in('case_id', ids)
+      .returns<HistoryRow[]>();
+
+    if (error) {
+      throw error;
+    }
+    history.push(...(data || []));
+  }
+  return history;
+};
+
+const loadValueEstimates = async (supabase: SupabaseClient, cases: CaseRow[]): Promise<Record<string, ValueEstimate>> => {
+  const countries = Array.from(new Set(cases.map(caseRow => caseRow.country)));
+  const priceLists: PriceListRow[] = [];
+  for (const country of countries) {
+    const { data, error } = await supabase
+      .from('price_lists')
+      .select('country, hospital, currency, effective_from, effective_to, price_list_items(item_type, item_name, unit_price)')
+      .eq('country', country)
+      .returns<PriceListRow[]>();
+
+    if (error) {
+      throw error;
+    }
+    priceLists.push(...(data || []));
+  }
+
+  const quantitiesByCase: Record<string, Record<string, number>> = {};
+  for (const ids of chunk(cases.map(caseRow => caseRow.id), ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('case_booking_quantities')
+      .select('case_booking_id, item_name, quantity')
+      .in('case_booking_id', ids);
+
+    if (error) {
+      throw error;
+    }
+    for (const row of data || []) {
+      quantitiesByCase[row.case_booking_id] = {
+        ...(quantitiesByCase[row.case_booking_id] || {}),
+        [row.item_name]: row.quantity
+      };
+    }
+  }
+
+  const estimates: Record<string, ValueEstimate> = {};
+  cases.forEach(caseRow => {
+    estimates[caseRow.id] = estimateCaseValue(caseRow, quantitiesByCase[caseRow.id] || {}, priceLists);
+  });
+  return estimates;
+};
+
+// ================================================
+// RUNNING
+// ================================================
+
+// Build and email one schedule's report. Failures are recorded, not thrown.
+const runSchedule = async (supabase: SupabaseClient, schedule: ScheduleRow, trigger: ReportTrigger): Promise<ReportRun> => {
+  const startedAt = new Date();
+  const recipients = schedule.recipients || [];
+  let caseCount = 0;
+  let error: string | null = null;
+
+  try {
+    const filters = getFilters(schedule);
+    let cases = await loadReportCases(supabase, filters);
+    if (filters.submitter) {
+      const userNames = await loadUserNames(supabase);
+      cases = cases.filter(caseRow => matchesSubmitter(caseRow, filters.submitter, userNames));
+    }
+    caseCount = cases.length;
+
+    const rows = filters.reportType === 'workflowPerformance'
+      ? buildWorkflowPerformanceRows(await loadStatusHistory(supabase, cases.map(caseRow => caseRow.id)))
+      : buildDetailedReportRows(cases, await loadValueEstimates(supabase, cases), schedule.timezone);
+    const report = renderReport(schedule, cases, rows, startedAt);
+
+    const result = await sendAdminEmail(supabase, {
+      to: recipients,
+      subject: report.subject,
+      body: report.body,
+      attachments: report.attachment ? [report.attachment] : undefined
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Email could not be sent');
+    }
+    console.log(`📊 SCHEDULED REPORT - Sent "${schedule.name}" to ${recipients.length} recipient(s)`);
+  } catch (runError) {
+    error = runError instanceof Error ? runError.message : String(runError);
+    console.error(`❌ SCHEDULED REPORT - "${schedule.name}" failed:`, runError);
+  }
+
+  const run: ReportRun = {
+    scheduleId: schedule.id,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    status: error ? 'failed' : 'success',
+    trigger,
+    caseCount,
+    recipients,
+    error
+  };
+
+  const { error: runError } = await supabase
+    .from('report_runs')
+    .insert([{
+      schedule_id: run.scheduleId,
+      started_at: run.startedAt,
+      finished_at: run.finishedAt,
+      status: run.status,
+      trigger: run.trigger,
+      case_count: run.caseCount,
+      recipients: run.recipients,
+      error: run.error
+    }]);
+
+  const { error: scheduleError } = await supabase
+    .from('report_schedules')
+    .update({ last_run_at: run.finishedAt, last_run_status: run.status })
+    .eq('id', run.scheduleId);
+
+  if (runError || scheduleError) {
+    console.error('❌ SCHEDULED REPORT - Failed to record run:', runError || scheduleError);
+  }
+  return run;
+};
+
+// Move a due schedule's next_run_at forward - false when another run got there first
+const claimSchedule = async (supabase: SupabaseClient, schedule: ScheduleRow, now: Date): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .update({ next_run_at: getNextRunAt(schedule, now).toISOString() })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return !!data && data.length > 0;
+};
+
+const runDueSchedules = async (supabase: SupabaseClient, now: Date) => {
+  const { data, error } = await supabase
+    .from('report_schedules')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .returns<ScheduleRow[]>();
+
+  if (error) {
+    throw error;
+  }
+
+  let sent = 0;
+  let failed = 0;
+  for (const schedule of data || []) {
+    if (await claimSchedule(supabase, schedule, now)) {
+      const run = await runSchedule(supabase, schedule, 'schedule');
+      if (run.status === 'success') {
+        sent++;
+      } else {
+        failed++;
+      }
+    }
+  }
+  return { due: (data || []).length, sent, failed };
+};
+
+Deno.serve(async (req: Request) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    if (authorization === `Bearer ${serviceRoleKey}`) {
+      return jsonResponse(await runDueSchedules(supabase, new Date()), 200);
+    }
+
+    const { scheduleId } = await req.json().catch(() => ({}));
+    if (!scheduleId) {
+      return jsonResponse({ error: 'scheduleId is required' }, 400);
+    }
+
+    // Checked with the caller's own token - the update only matches when RLS lets them edit the schedule
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } }
+    });
+    const { data: allowed, error: accessError } = await userClient
+      .from('report_schedules')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', scheduleId)
+      .select('id');
+
+    if (accessError || !allowed || allowed.length === 0) {
+      return jsonResponse({ error: 'You cannot send this report schedule' }, 403);
+    }
+
+    const { data: schedule, error } = await supabase
+      .from('report_schedules')
+      .select('*')
+      .eq('id', scheduleId)
+      .single<ScheduleRow>();
+
+    if (error) {
+      throw error;
+    }
+    return jsonResponse(await runSchedule(supabase, schedule, 'manual'), 200);
+  } catch (error) {
+    console.error('❌ SCHEDULED REPORT - Run failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Scheduled report run failed' }, 500);
+  }
+});
@@ -1,11 +1,18 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 
+interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  contentBase64: string;
+}
+
 interface EmailPayload {
   to: string[];
   cc?: string[];
   bcc?: string[];
   subject: string;
   body: string;
+  attachments?: EmailAttachment[];
   fromEmail: string;
   fromName: string;
   accessToken: string;
@@ -23,6 +30,12 @@ interface MicrosoftEmailRequest {
     ccRecipients?: Array<{ emailAddress: { address: string } }>;
     bccRecipients?: Array<{ emailAddress: { address: string } }>;
     from?: { emailAddress: { address: string; name?: string } };
+    attachments?: Array<{
+      '@odata.type': '#microsoft.graph.fileAttachment';
+      name: string;
+      contentType: string;
+      contentBytes: string;
+    }>;
   };
   saveToSentItems: boolean;
 }
@@ -50,7 +63,8 @@ Deno.serve(async (req: Request) => {
       bcc: payload.bcc?.length || 0,
       subject: payload.subject?.substring(0, 50) + '...',
       fromEmail: payload.fromEmail,
-      hasAccessToken: !!payload.accessToken
+      hasAccessToken: !!payload.accessToken,
+      attachments: payload.attachments?.length || 0
     });
 
     // Validate required fields
@@ -106,6 +120,14 @@ Deno.serve(async (req: Request) => {
                 ...(payload.fromName && { name: payload.fromName })
               } 
             }
+          }),
+          ...(payload.attachments && payload.attachments.length > 0 && {
+            attachments: payload.attachments.map(attachment => ({
+              '@odata.type': '#microsoft.graph.fileAttachment' as const,
+              name: attachment.filename,
+              contentType: attachment.contentType,
+              contentBytes: attachment.contentBase64
+            }))
           })
         },
         saveToSentItems: true
@@ -148,15 +170,44 @@ Deno.serve(async (req: Request) => {
 
     } else if (payload.provider === 'google') {
       // Gmail API implementation
-      const emailMessage = [
+      const headers = [
         `To: ${payload.to.join(', ')}`,
         ...(payload.cc && payload.cc.length > 0 ? [`Cc: ${payload.cc.join(', ')}`] : []),
         ...(payload.bcc && payload.bcc.length > 0 ? [`Bcc: ${payload.bcc.join(', ')}`] : []),
-        `Subject: ${payload.subject}`,
-        'Content-Type: text/html; charset=utf-8',
-        '',
-        payload.body
-      ].join('\r\n');
+        `Subject: ${payload.subject}`
+      ];
+
+      let emailMessage: string;
+      if (payload.attachments && payload.attachments.length > 0) {
+        // multipart/mixed: HTML body followed by base64 attachments
+        const boundary = `tmc-${crypto.randomUUID()}`;
+        emailMessage = [
+          ...headers,
+          'MIME-Version: 1.0',
+          `Content-Type: multipart/mixed; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          payload.body,
+          ...payload.attachments.flatMap(attachment => [
+            `--${boundary}`,
+            `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+            `Content-Disposition: attachment; filename="${attachment.filename}"`,
+            'Content-Transfer-Encoding: base64',
+            '',
+            attachment.contentBase64.replace(/.{76}/g, '$&\r\n')
+          ]),
+          `--${boundary}--`
+        ].join('\r\n');
+      } else {
+        emailMessage = [
+          ...headers,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          payload.body
+        ].join('\r\n');
+      }
 
       const encodedMessage = btoa(emailMessage).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
 
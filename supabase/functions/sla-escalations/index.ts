@@ -0,0 +1,498 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { sendAdminEmail } from "../_shared/adminEmail.ts";
+import { formatZonedDateTime, getCountryTimeZone, zonedTimeToUtc } from "../_shared/timeZones.ts";
+
+// SLA breach escalation, run every 15 minutes by pg_cron
+// (supabase/migrations/20261018100000_sla_escalation_schedule.sql).
+// POST /functions/v1/sla-escalations with the service-role key as the bearer token.
+//
+// Every breach (case, rule, due time) gets one sla_escalations row. The row stays
+// pending (sent_at is null) until the country's "SLA Escalation" email has gone out,
+// so a failed send is retried on the next run. Pending rows whose case is no longer
+// breaching are left alone.
+//
+// SLA evaluation mirrors evaluateCaseSlas in src/utils/caseSlaService.ts, and recipients
+// and template values follow processEmailNotifications in
+// src/services/emailNotificationProcessor.ts - keep them in step.
+
+type SlaAnchor = 'before_surgery' | 'after_status';
+
+interface SlaRule {
+  id: string;
+  name: string;
+  targetStatus: string;
+  anchor: SlaAnchor;
+  anchorStatus?: string;
+  hours: number;
+}
+
+interface SlaSettings {
+  enabled: boolean;
+  escalationRole: string;
+  rules: SlaRule[];
+}
+
+interface CaseRow {
+  id: string;
+  case_reference_number: string;
+  hospital: string;
+  department: string;
+  country: string;
+  status: string;
+  date_of_surgery: string;
+  time_of_procedure: string | null;
+  procedure_type: string;
+  procedure_name: string | null;
+  doctor_name: string | null;
+  surgery_set_selection: string[] | null;
+  implant_box: string[] | null;
+  special_instruction: string | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+}
+
+interface ProfileRow {
+  id: string;
+  name: string | null;
+  username: string | null;
+  email: string | null;
+  role: string;
+  countries: string[] | null;
+  departments: string[] | null;
+  enabled: boolean | null;
+}
+
+interface NotificationRuleRow {
+  recipients: {
+    roles?: string[];
+    members?: string[];
+    departments?: string[];
+    includeSubmitter?: boolean;
+  } | null;
+  template: { subject: string; body: string } | null;
+}
+
+interface Breach {
+  caseRow: CaseRow;
+  rule: SlaRule;
+  dueAt: Date;
+  settings: SlaSettings;
+}
+
+interface EscalationRow {
+  id: string;
+  case_id: string;
+  rule_id: string;
+  due_at: string;
+  attempts: number;
+}
+
+const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  enabled: true,
+  escalationRole: 'operations-manager',
+  rules: [
+    { id: 'order-prepared-before-surgery', name: 'Order prepared before surgery', targetStatus: 'Order Prepared', anchor: 'before_surgery', hours: 24 },
+    { id: 'collection-after-completion', name: 'Collection after completion', targetStatus: 'Pending Delivery (Office)', anchor: 'after_status', anchorStatus: 'Case Completed', hours: 48 }
+  ]
+};
+
+const SLA_ESCALATION_NOTIFICATION_RULE = 'SLA Escalation';
+const CLOSED_STATUSES = ['Case Closed', 'Case Cancelled'];
+const HOUR_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+const ID_CHUNK_SIZE = 200;
+
+const jsonResponse = (body: unknown, status: number): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+const breachKey = (caseId: string, ruleId: string, dueAt: Date | string): string =>
+  `${caseId}:${ruleId}:${new Date(dueAt).getTime()}`;
+
+// ================================================
+// LOADING
+// ================================================
+
+const loadOpenCases = async (supabase: SupabaseClient): Promise<CaseRow[]> => {
+  const cases: CaseRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('case_bookings')
+      .select('id, case_reference_number, hospital, department, country, status, date_of_surgery, time_of_procedure, procedure_type, procedure_name, doctor_name, surgery_set_selection, implant_box, special_instruction, submitted_by, submitted_at')
+      .not('status', 'in', `(${CLOSED_STATUSES.map(status => `"${status}"`).join(',')})`)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<CaseRow[]>();
+
+    if (error) {
+      throw error;
+    }
+    cases.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return cases;
+    }
+  }
+};
+
+const loadSlaSettings = async (supabase: SupabaseClient, country: string): Promise<SlaSettings> => {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', `case_sla_${country.toLowerCase().replace(/\s+/g, '_')}`)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return { ...DEFAULT_SLA_SETTINGS, ...(data?.setting_value || {}) };
+};
+
+const loadWorkflowStatuses = async (supabase: SupabaseClient, country: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('case_status_workflow', { p_country: country });
+  if (error) {
+    throw error;
+  }
+  return data?.statuses || [];
+};
+
+// Latest entry into each anchor status, keyed by case id then status
+const loadAnchorTimes = async (
+  supabase: SupabaseClient,
+  caseIds: string[],
+  statuses: string[]
+): Promise<Map<string, Record<string, string>>> => {
+  const entered = new Map<string, Record<string, string>>();
+  if (statuses.length === 0) {
+    return entered;
+  }
+
+  for (const ids of chunk(caseIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('status_history')
+      .select('case_id, status, timestamp')
+      .in('case_id', ids)
+      .in('status', statuses);
+
+    if (error) {
+      throw error;
+    }
+    for (const row of data || []) {
+      const byStatus = entered.get(row.case_id) || {};
+      if (!byStatus[row.status] || new Date(row.timestamp) > new Date(byStatus[row.status])) {
+        byStatus[row.status] = row.timestamp;
+      }
+      entered.set(row.case_id, byStatus);
+    }
+  }
+  return entered;
+};
+
+// ================================================
+// EVALUATION
+// ================================================
+
+const getSurgeryStart = (caseRow: CaseRow): Date => {
+  const [hours = '00', minutes = '00'] = (caseRow.time_of_procedure || '').split(':');
+  return zonedTimeToUtc(
+    caseRow.date_of_surgery,
+    parseInt(hours, 10) || 0,
+    parseInt(minutes, 10) || 0,
+    getCountryTimeZone(caseRow.country)
+  );
+};
+
+const findBreaches = (
+  caseRow: CaseRow,
+  settings: SlaSettings,
+  workflowStatuses: string[],
+  anchorTimes: Record<string, string>,
+  now: Date
+): Breach[] => {
+  const currentIndex = workflowStatuses.indexOf(caseRow.status);
+  if (!settings.enabled || currentIndex === -1) {
+    return [];
+  }
+
+  return settings.rules.flatMap(rule => {
+    const targetIndex = workflowStatuses.indexOf(rule.targetStatus);
+    if (targetIndex === -1 || currentIndex >= targetIndex) {
+      return [];
+    }
+
+    let dueAt: Date;
+    if (rule.anchor === 'before_surgery') {
+      dueAt = new Date(getSurgeryStart(caseRow).getTime() - rule.hours * HOUR_MS);
+    } else {
+      const anchorIndex = rule.anchorStatus ? workflowStatuses.indexOf(rule.anchorStatus) : -1;
+      const startedAt = rule.anchorStatus && currentIndex >= anchorIndex ? anchorTimes[rule.anchorStatus] : undefined;
+      if (anchorIndex === -1 || !startedAt) {
+        return [];
+      }
+      dueAt = new Date(new Date(startedAt).getTime() + rule.hours * HOUR_MS);
+    }
+
+    return dueAt.getTime() < now.getTime() ? [{ caseRow, rule, dueAt, settings }] : [];
+  });
+};
+
+// ================================================
+// EMAIL
+// ================================================
+
+const formatItems = (items: string[] | null, quantities: Record<string, number>): string =>
+  items && items.length > 0
+    ? items.map(item => `${item} (Qty: ${quantities[item] || 1})`).join(', ')
+    : 'None selected';
+
+const fillTemplate = (
+  template: string,
+  breach: Breach,
+  submitterName: string,
+  quantities: Record<string, number>,
+  now: Date
+): string => {
+  const { caseRow, rule, dueAt } = breach;
+  const timeZone = getCountryTimeZone(caseRow.country);
+  const values: Record<string, string> = {
+    caseReference: caseRow.case_reference_number,
+    caseReferenceNumber: caseRow.case_reference_number,
+    hospital: caseRow.hospital,
+    department: caseRow.department,
+    country: caseRow.country,
+    Status: caseRow.status,
+    status: caseRow.status.toLowerCase(),
+    mrn: 'Not specified',
+    patientName: 'Not specified',
+    dateOfSurgery: caseRow.date_of_surgery,
+    timeOfProcedure: caseRow.time_of_procedure || 'Not specified',
+    procedureType: caseRow.procedure_type,
+    procedureName: caseRow.procedure_name || '',
+    doctorName: caseRow.doctor_name || 'Not specified',
+    surgerySetSelection: formatItems(caseRow.surgery_set_selection, quantities),
+    surgeryImplants: formatItems(caseRow.implant_box, quantities),
+    implantBox: formatItems(caseRow.implant_box, quantities),
+    submittedBy: submitterName,
+    submittedAt: caseRow.submitted_at ? formatZonedDateTime(new Date(caseRow.submitted_at), timeZone) : '',
+    processedBy: 'System',
+    processedAt: formatZonedDateTime(now, timeZone),
+    currentDateTime: formatZonedDateTime(now, timeZone),
+    userEmail: 'Not available',
+    userName: 'System',
+    specialInstruction: caseRow.special_instruction || 'None',
+    specialInstructions: caseRow.special_instruction || 'None',
+    remarks: caseRow.special_instruction || 'None',
+    salesOrderNo: 'Not specified',
+    poNo: 'Not specified',
+    deliveryAddress: 'Not specified',
+    contactPerson: 'Not specified',
+    contactNumber: 'Not specified',
+    slaName: rule.name,
+    slaTargetStatus: rule.targetStatus,
+    slaDueAt: formatZonedDateTime(dueAt, timeZone)
+  };
+
+  return Object.entries(values)
+    .reduce((text, [key, value]) => text.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value), template)
+    .replace(/\n/g, '<br>');
+};
+
+const getRecipients = (
+  breach: Breach,
+  notificationRule: NotificationRuleRow,
+  profiles: ProfileRow[]
+): string[] => {
+  const { caseRow, settings } = breach;
+  const recipients = notificationRule.recipients || {};
+  const roles = [...(recipients.roles || []), ...(settings.escalationRole ? [settings.escalationRole] : [])];
+  const departmentFilter = (recipients.departments || []).filter(department => department !== 'all');
+  const emails = new Set<string>();
+
+  for (const profile of profiles) {
+    if (!profile.email || !profile.enabled || !(profile.countries || []).includes(caseRow.country)) {
+      continue;
+    }
+    const departmentPassed = (recipients.departments || []).includes('all') || departmentFilter.length === 0 ||
+      departmentFilter.some(department => (profile.departments || []).includes(department));
+
+    if ((recipients.members || []).includes(profile.email) || (departmentPassed && roles.includes(profile.role))) {
+      emails.add(profile.email);
+    }
+  }
+
+  if (recipients.includeSubmitter && caseRow.submitted_by) {
+    const submitter = profiles.find(profile => profile.id === caseRow.submitted_by);
+    if (submitter?.email) {
+      emails.add(submitter.email);
+    }
+  }
+  return Array.from(emails);
+};
+
+// ================================================
+// HANDLER
+// ================================================
+
+Deno.serve(async (req: Request) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+    const now = new Date();
+
+    const openCases = await loadOpenCases(supabase);
+    const countries = Array.from(new Set(openCases.map(caseRow => caseRow.country)));
+    const settingsByCountry: Record<string, SlaSettings> = {};
+    const statusesByCountry: Record<string, string[]> = {};
+    for (const country of countries) {
+      settingsByCountry[country] = await loadSlaSettings(supabase, country);
+      statusesByCountry[country] = await loadWorkflowStatuses(supabase, country);
+    }
+
+    const anchorStatuses = Array.from(new Set(
+      Object.values(settingsByCountry).flatMap(settings =>
+        settings.enabled ? settings.rules.map(rule => rule.anchorStatus).filter((status): status is string => !!status) : []
+      )
+    ));
+    const anchorTimes = await loadAnchorTimes(supabase, openCases.map(caseRow => caseRow.id), anchorStatuses);
+
+    const breaches = openCases.flatMap(caseRow => findBreaches(
+      caseRow,
+      settingsByCountry[caseRow.country],
+      statusesByCountry[caseRow.country],
+      anchorTimes.get(caseRow.id) || {},
+      now
+    ));
+    if (breaches.length === 0) {
+      return jsonResponse({ breaches: 0, sent: 0, failed: 0 }, 200);
+    }
+
+    // One row per breach - rows that already exist (sent or pending) are kept as they are
+    const { error: recordError } = await supabase
+      .from('sla_escalations')
+      .upsert(breaches.map(breach => ({
+        case_id: breach.caseRow.id,
+        rule_id: breach.rule.id,
+        status: breach.caseRow.status,
+        due_at: breach.dueAt.toISOString(),
+        escalated_at: now.toISOString()
+      })), { onConflict: 'case_id,rule_id,due_at', ignoreDuplicates: true });
+
+    if (recordError) {
+      throw recordError;
+    }
+
+    const breachCaseIds = Array.from(new Set(breaches.map(breach => breach.caseRow.id)));
+    const pending = new Map<string, EscalationRow>();
+    for (const ids of chunk(breachCaseIds, ID_CHUNK_SIZE)) {
+      const { data, error } = await supabase
+        .from('sla_escalations')
+        .select('id, case_id, rule_id, due_at, attempts')
+        .in('case_id', ids)
+        .is('sent_at', null)
+        .returns<EscalationRow[]>();
+
+      if (error) {
+        throw error;
+      }
+      (data || []).forEach(row => pending.set(breachKey(row.case_id, row.rule_id, row.due_at), row));
+    }
+
+    const toSend = breaches.filter(breach => pending.has(breachKey(breach.caseRow.id, breach.rule.id, breach.dueAt)));
+    if (toSend.length === 0) {
+      return jsonResponse({ breaches: breaches.length, sent: 0, failed: 0 }, 200);
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, name, username, email, role, countries, departments, enabled')
+      .returns<ProfileRow[]>();
+
+    if (profilesError) {
+      throw profilesError;
+    }
+
+    const quantitiesByCase: Record<string, Record<string, number>> = {};
+    for (const ids of chunk(Array.from(new Set(toSend.map(breach => breach.caseRow.id))), ID_CHUNK_SIZE)) {
+      const { data: quantities } = await supabase
+        .from('case_booking_quantities')
+        .select('case_booking_id, item_name, quantity')
+        .in('case_booking_id', ids);
+
+      for (const row of quantities || []) {
+        quantitiesByCase[row.case_booking_id] = {
+          ...(quantitiesByCase[row.case_booking_id] || {}),
+          [row.item_name]: row.quantity
+        };
+      }
+    }
+
+    const rulesByCountry = new Map<string, NotificationRuleRow | null>();
+    let sent = 0;
+    let failed = 0;
+
+    for (const breach of toSend) {
+      const { caseRow } = breach;
+      const row = pending.get(breachKey(caseRow.id, breach.rule.id, breach.dueAt))!;
+
+      if (!rulesByCountry.has(caseRow.country)) {
+        const { data: notificationRule } = await supabase
+          .from('email_notification_rules')
+          .select('recipients, template')
+          .eq('country', caseRow.country)
+          .eq('status', SLA_ESCALATION_NOTIFICATION_RULE)
+          .eq('enabled', true)
+          .maybeSingle<NotificationRuleRow>();
+        rulesByCountry.set(caseRow.country, notificationRule);
+      }
+
+      const notificationRule = rulesByCountry.get(caseRow.country);
+      const recipients = notificationRule ? getRecipients(breach, notificationRule, profiles || []) : [];
+      let result: { success: boolean; error?: string };
+
+      if (!notificationRule?.template) {
+        result = { success: false, error: `No enabled "${SLA_ESCALATION_NOTIFICATION_RULE}" email notification rule for ${caseRow.country}` };
+      } else if (recipients.length === 0) {
+        result = { success: false, error: 'No recipients with an email address for this escalation' };
+      } else {
+        const submitter = (profiles || []).find(profile => profile.id === caseRow.submitted_by);
+        const submitterName = submitter?.name || submitter?.username || caseRow.submitted_by || '';
+        const quantities = quantitiesByCase[caseRow.id] || {};
+        result = await sendAdminEmail(supabase, {
+          to: recipients,
+          subject: fillTemplate(notificationRule.template.subject, breach, submitterName, quantities, now),
+          body: fillTemplate(notificationRule.template.body, breach, submitterName, quantities, now)
+        });
+      }
+
+      const { error: updateError } = await supabase
+        .from('sla_escalations')
+        .update(result.success
+          ? { sent_at: new Date().toISOString(), attempts: row.attempts + 1, last_error: null }
+          : { attempts: row.attempts + 1, last_error: result.error })
+        .eq('id', row.id);
+
+      if (updateError) {
+        console.error('❌ SLA ESCALATIONS - Failed to record the send result:', updateError);
+      }
+
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+        console.error(`❌ SLA ESCALATIONS - ${caseRow.case_reference_number} not sent, will retry:`, result.error);
+      }
+    }
+
+    console.log('⏰ SLA ESCALATIONS - Run complete:', { breaches: breaches.length, sent, failed });
+    return jsonResponse({ breaches: breaches.length, sent, failed }, 200);
+  } catch (error) {
+    console.error('❌ SLA ESCALATIONS - Unexpected error:', error);
+    return jsonResponse({ error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,15 @@
+-- Set and implant owned quantities
+--
+-- Double-booking checks (src/utils/inventoryAvailabilityService.ts) compare the units
+-- cases hold against the physical units owned. quantity_owned is null for items whose
+-- stock is not tracked - those never conflict.
+
+-- ================================================
+-- OWNED QUANTITIES
+-- ================================================
+
+alter table public.surgery_sets
+  add column if not exists quantity_owned integer check (quantity_owned >= 0);
+
+alter table public.implant_boxes
+  add column if not exists quantity_owned integer check (quantity_owned >= 0);
@@ -0,0 +1,31 @@
+-- Amendment requests
+--
+-- Amendments to a case past its country's approval status are held as requests
+-- (src/utils/amendmentApprovalService.ts) until operations approve or reject them.
+-- Only one request per case may be pending: approving several in turn would replay
+-- changes against a case that has already moved.
+
+-- ================================================
+-- REQUESTS
+-- ================================================
+
+create table if not exists public.amendment_requests (
+  id uuid primary key default gen_random_uuid(),
+  case_id uuid not null references public.case_bookings(id) on delete cascade,
+  requested_by text not null,
+  requested_at timestamptz not null default now(),
+  reason text,
+  proposed_changes jsonb not null default '{}'::jsonb,
+  changes jsonb not null default '[]'::jsonb,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reviewed_by text,
+  reviewed_at timestamptz,
+  review_comment text
+);
+
+create unique index if not exists amendment_requests_pending_case_idx
+  on public.amendment_requests (case_id)
+  where status = 'pending';
+
+create index if not exists amendment_requests_case_idx
+  on public.amendment_requests (case_id, requested_at desc);
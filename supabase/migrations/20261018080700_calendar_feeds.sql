@@ -0,0 +1,27 @@
+-- Calendar feeds
+--
+-- Tokenized, read-only iCalendar subscriptions (src/utils/icsCalendarService.ts),
+-- served by the calendar-feed edge function. The token is the only credential a
+-- calendar client sends, so it is unique and never reused; revoking a feed stamps
+-- revoked_at instead of deleting the row.
+
+-- ================================================
+-- FEEDS
+-- ================================================
+
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  scope text not null check (scope in ('mine', 'country', 'department')),
+  country text not null,
+  department text,
+  label text not null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  check (scope <> 'department' or department is not null)
+);
+
+create index if not exists calendar_feeds_user_idx
+  on public.calendar_feeds (user_id, created_at desc)
+  where revoked_at is null;
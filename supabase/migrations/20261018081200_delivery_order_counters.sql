@@ -0,0 +1,19 @@
+-- Delivery order counters
+--
+-- DO numbers are allocated per country and counter year (allocateCountryCounter in
+-- src/utils/caseReferenceService.ts), like case references in case_counters: the row
+-- is created on first use and then advanced by compare-and-swap on current_counter.
+
+-- ================================================
+-- COUNTERS
+-- ================================================
+
+create table if not exists public.delivery_order_counters (
+  id uuid primary key default gen_random_uuid(),
+  country text not null,
+  year integer not null,
+  current_counter integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (country, year)
+);
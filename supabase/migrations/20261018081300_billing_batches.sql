@@ -0,0 +1,89 @@
+-- Billing batches
+--
+-- "To be billed" cases are exported to the ERP as billing batches
+-- (src/utils/billingExportService.ts). A batch keeps a snapshot of its lines and the
+-- column mapping it was exported with, so its files can be downloaded again unchanged.
+--
+-- While a batch is exported (not yet confirmed or cancelled) its cases are locked to
+-- it: the trigger below rejects a second open batch holding any of the same cases, even
+-- when two exports run at once. Batch numbers are allocated from
+-- billing_batch_counters, one counter per country and year like case_counters.
+
+-- ================================================
+-- COUNTERS
+-- ================================================
+
+create table if not exists public.billing_batch_counters (
+  id uuid primary key default gen_random_uuid(),
+  country text not null,
+  year integer not null,
+  current_counter integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (country, year)
+);
+
+-- ================================================
+-- BATCHES
+-- ================================================
+
+create table if not exists public.billing_batches (
+  id uuid primary key default gen_random_uuid(),
+  batch_number text not null unique,
+  country text not null,
+  case_ids uuid[] not null,
+  case_references text[] not null default '{}',
+  lines jsonb not null default '[]'::jsonb,
+  settings jsonb not null default '{}'::jsonb,
+  status text not null default 'exported' check (status in ('exported', 'confirmed', 'cancelled')),
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  confirmed_by text,
+  confirmed_at timestamptz
+);
+
+create index if not exists billing_batches_country_idx
+  on public.billing_batches (country, created_at desc);
+
+create index if not exists billing_batches_open_case_ids_idx
+  on public.billing_batches using gin (case_ids)
+  where status = 'exported';
+
+-- ================================================
+-- ONE OPEN BATCH PER CASE
+-- ================================================
+
+create or replace function public.guard_billing_batch_cases()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_batch_number text;
+begin
+  if new.status <> 'exported' then
+    return new;
+  end if;
+
+  -- Serialize exports so two batches created at once cannot both pass the check
+  perform pg_advisory_xact_lock(hashtext('billing_batches'));
+
+  select batch_number into v_batch_number
+  from billing_batches
+  where status = 'exported'
+    and case_ids && new.case_ids
+    and id <> new.id
+  limit 1;
+
+  if v_batch_number is not null then
+    raise exception 'Some of these cases are already in open billing batch %', v_batch_number;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists billing_batches_one_open_batch_per_case on public.billing_batches;
+create trigger billing_batches_one_open_batch_per_case
+  before insert or update of case_ids, status
+  on public.billing_batches
+  for each row execute function public.guard_billing_batch_cases();
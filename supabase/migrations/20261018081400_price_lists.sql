@@ -0,0 +1,40 @@
+-- Price lists
+--
+-- Surgery sets and implant boxes carry no money, so case values
+-- (src/utils/priceListService.ts) are priced from price lists: a country-wide default
+-- list (hospital is null) or a hospital's own list, each valid for a range of surgery
+-- dates, with one unit price per set or implant box in price_list_items.
+
+-- ================================================
+-- LISTS
+-- ================================================
+
+create table if not exists public.price_lists (
+  id uuid primary key default gen_random_uuid(),
+  country text not null,
+  hospital text,
+  name text not null,
+  currency text not null,
+  effective_from date not null,
+  effective_to date,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (effective_to is null or effective_to >= effective_from)
+);
+
+create index if not exists price_lists_country_idx
+  on public.price_lists (country, hospital, effective_from);
+
+-- ================================================
+-- ITEMS
+-- ================================================
+
+create table if not exists public.price_list_items (
+  id uuid primary key default gen_random_uuid(),
+  price_list_id uuid not null references public.price_lists(id) on delete cascade,
+  item_type text not null check (item_type in ('surgery_set', 'implant_box')),
+  item_name text not null,
+  unit_price numeric(12, 2) not null check (unit_price >= 0),
+  unique (price_list_id, item_type, item_name)
+);
@@ -0,0 +1,57 @@
+-- Booking templates and recurring case series
+--
+-- Booking templates hold the repeatable part of a booking form - hospital, doctor,
+-- procedure, sets and implants with their quantities - per country
+-- (src/utils/caseSeriesService.ts). A case series records the recurrence rule a set of
+-- cases was booked from; each of those cases points back to it through
+-- case_bookings.series_id, so the upcoming ones can be amended or cancelled together.
+
+-- ================================================
+-- TEMPLATES
+-- ================================================
+
+create table if not exists public.booking_templates (
+  id uuid primary key default gen_random_uuid(),
+  country text not null,
+  name text not null,
+  hospital text,
+  department text not null,
+  doctor_id text,
+  doctor_name text,
+  procedure_type text not null,
+  procedure_name text,
+  time_of_procedure text,
+  surgery_set_selection text[] not null default '{}',
+  implant_box text[] not null default '{}',
+  quantities jsonb not null default '{}'::jsonb,
+  special_instruction text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists booking_templates_country_idx
+  on public.booking_templates (country, name);
+
+-- ================================================
+-- SERIES
+-- ================================================
+
+create table if not exists public.case_series (
+  id uuid primary key default gen_random_uuid(),
+  country text not null,
+  recurrence jsonb not null,
+  template_id uuid references public.booking_templates(id) on delete set null,
+  status text not null default 'active' check (status in ('active', 'cancelled')),
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  cancelled_by text,
+  cancelled_at timestamptz
+);
+
+alter table public.case_bookings
+  add column if not exists series_id uuid references public.case_series(id) on delete set null;
+
+create index if not exists case_bookings_series_idx
+  on public.case_bookings (series_id)
+  where series_id is not null;
@@ -0,0 +1,11 @@
+-- Duplicated cases
+--
+-- A booking made with the Duplicate Case action records the case it was copied from,
+-- so the case card can link back to it. The link is cleared if that case is deleted.
+
+-- ================================================
+-- CLONE SOURCE
+-- ================================================
+
+alter table public.case_bookings
+  add column if not exists cloned_from_id uuid references public.case_bookings(id) on delete set null;
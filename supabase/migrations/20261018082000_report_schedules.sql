@@ -0,0 +1,48 @@
+-- Report schedules
+--
+-- Saved report filters emailed on a schedule (src/utils/scheduledReportService.ts):
+-- a daily, weekly or monthly send hour, the attachment format and the recipients.
+-- next_run_at is when the schedule is due next - a run claims it by moving it forward.
+-- Every run, scheduled or "Send Now", successful or not, is recorded in report_runs.
+
+-- ================================================
+-- SCHEDULES
+-- ================================================
+
+create table if not exists public.report_schedules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  filters jsonb not null default '{}'::jsonb,
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+  day_of_week integer check (day_of_week between 0 and 6),
+  day_of_month integer check (day_of_month between 1 and 28),
+  hour integer not null check (hour between 0 and 23),
+  format text not null default 'xlsx' check (format in ('csv', 'xlsx', 'html')),
+  recipients text[] not null default '{}',
+  enabled boolean not null default true,
+  next_run_at timestamptz not null,
+  last_run_at timestamptz,
+  last_run_status text check (last_run_status in ('success', 'failed')),
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- ================================================
+-- RUNS
+-- ================================================
+
+create table if not exists public.report_runs (
+  id uuid primary key default gen_random_uuid(),
+  schedule_id uuid not null references public.report_schedules(id) on delete cascade,
+  started_at timestamptz not null,
+  finished_at timestamptz not null,
+  status text not null check (status in ('success', 'failed')),
+  trigger text not null check (trigger in ('schedule', 'manual')),
+  case_count integer not null default 0,
+  recipients text[] not null default '{}',
+  error text
+);
+
+create index if not exists report_runs_schedule_idx
+  on public.report_runs (schedule_id, started_at desc);
@@ -0,0 +1,23 @@
+-- Report definitions
+--
+-- Saved report builder pivots (src/utils/reportBuilderService.ts): row and column
+-- dimension, measure, chart type and filters. A definition belongs to the user who
+-- created it and can be shared with roles through shared_roles.
+
+-- ================================================
+-- DEFINITIONS
+-- ================================================
+
+create table if not exists public.report_definitions (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  row_dimension text not null,
+  column_dimension text,
+  measure text not null,
+  chart_type text not null default 'bar' check (chart_type in ('bar', 'line')),
+  filters jsonb not null default '{}'::jsonb,
+  shared_roles text[] not null default '{}',
+  created_by uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
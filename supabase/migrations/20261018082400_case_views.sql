@@ -0,0 +1,26 @@
+-- Saved case views
+--
+-- Named case list filters with a date range, sort order and expanded state
+-- (src/utils/caseViewService.ts). Views are personal to their owner unless an admin
+-- publishes them to roles; a published view can be the landing view of those roles.
+
+-- ================================================
+-- VIEWS
+-- ================================================
+
+create table if not exists public.case_views (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  filters jsonb not null default '{}'::jsonb,
+  date_range text not null default 'fixed' check (date_range in ('fixed', 'today', 'tomorrow', 'next7Days')),
+  sort_order text not null default 'newest' check (sort_order in ('newest', 'oldest', 'surgeryDateAsc', 'surgeryDateDesc')),
+  expand_cases boolean not null default false,
+  owner_id uuid not null references public.profiles(id) on delete cascade,
+  shared_roles text[] not null default '{}',
+  is_role_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists case_views_owner_idx
+  on public.case_views (owner_id);
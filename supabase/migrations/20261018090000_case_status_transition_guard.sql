@@ -0,0 +1,361 @@
+-- Case status transition guard
+--
+-- Case status changes are enforced in the database, not only in the browser:
+--   * change_case_status() is the only way to change case_bookings.status. It resolves the
+--     acting user, checks the transition against the case country's workflow, checks the
+--     user's role permission and the transition's required fields, then updates the case
+--     and records the status_history row, under the acting user's name, in one transaction.
+--     Reinstating a cancelled case is only allowed back to the status it had before the
+--     cancellation. A DO number passed in the details is saved on the case with the
+--     status, so a rejected move never stamps one.
+--   * A trigger on case_bookings rejects any other status update (e.g. a direct PostgREST
+--     PATCH), except from the service role.
+--
+-- The acting user is auth.uid() for Supabase Auth sessions, or the owner of an unexpired
+-- user_sessions token for the app's username/password login (see createSession in
+-- src/utils/auth.ts). Requests with neither are rejected.
+--
+-- Workflows are read from system_settings (`status_workflow_<country>`, written by the
+-- Status Workflow section of System Settings). default_case_status_workflow() mirrors
+-- getDefaultStatusWorkflow() in src/utils/statusWorkflowService.ts - keep them in step.
+
+-- ================================================
+-- WORKFLOW DEFINITIONS
+-- ================================================
+
+create or replace function public.default_case_status_workflow(p_country text)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_cancellable text[] := array[
+    'Case Booked', 'Loaner Received', 'Preparing Order', 'Order Prepared',
+    'Sales Approved', 'Pending Delivery (Hospital)', 'Delivered (Hospital)'
+  ];
+  v_tail_statuses text[] := array[
+    'Pending Delivery (Hospital)', 'Delivered (Hospital)', 'Case Completed',
+    'Pending Delivery (Office)', 'Delivered (Office)', 'To be billed', 'Case Closed'
+  ];
+  v_tail jsonb := '[
+    {"from": "Pending Delivery (Hospital)", "to": "Delivered (Hospital)", "permission": "delivered-hospital"},
+    {"from": "Delivered (Hospital)", "to": "Case Completed", "permission": "case-completed", "requiredFields": ["doNumber"]},
+    {"from": "Case Completed", "to": "Pending Delivery (Office)", "permission": "pending-delivery-office"},
+    {"from": "Pending Delivery (Office)", "to": "Delivered (Office)", "permission": "delivered-office"},
+    {"from": "Delivered (Office)", "to": "To be billed", "permission": "to-be-billed"},
+    {"from": "To be billed", "to": "Case Closed", "permission": "case-closed"}
+  ]'::jsonb;
+  v_statuses text[];
+  v_legacy_statuses text[] := array[]::text[];
+  v_transitions jsonb;
+begin
+  -- Cases booked or sales approved under the standard lifecycle keep their old next step
+  if p_country in ('Malaysia', 'Vietnam') then
+    v_statuses := array['Case Booked', 'Loaner Received', 'Preparing Order', 'Order Prepared'] || v_tail_statuses;
+    v_legacy_statuses := array['Sales Approved'];
+    v_transitions := '[
+      {"from": "Case Booked", "to": "Loaner Received", "permission": "loaner-received"},
+      {"from": "Case Booked", "to": "Preparing Order", "permission": "process-order"},
+      {"from": "Loaner Received", "to": "Preparing Order", "permission": "process-order"},
+      {"from": "Preparing Order", "to": "Order Prepared", "permission": "order-processed"},
+      {"from": "Order Prepared", "to": "Pending Delivery (Hospital)", "permission": "pending-delivery-hospital"},
+      {"from": "Sales Approved", "to": "Pending Delivery (Hospital)", "permission": "pending-delivery-hospital"}
+    ]'::jsonb;
+  else
+    v_statuses := array['Case Booked', 'Preparing Order', 'Order Prepared', 'Sales Approved'] || v_tail_statuses;
+    v_transitions := '[
+      {"from": "Case Booked", "to": "Preparing Order", "permission": "process-order"},
+      {"from": "Preparing Order", "to": "Order Prepared", "permission": "order-processed"},
+      {"from": "Order Prepared", "to": "Sales Approved", "permission": "sales-approval"},
+      {"from": "Sales Approved", "to": "Pending Delivery (Hospital)", "permission": "pending-delivery-hospital"}
+    ]'::jsonb;
+  end if;
+
+  select v_transitions || v_tail
+    || coalesce(jsonb_agg(jsonb_build_object('from', s, 'to', 'Case Cancelled', 'permission', 'cancel-case')), '[]'::jsonb)
+    || coalesce(jsonb_agg(jsonb_build_object('from', 'Case Cancelled', 'to', s, 'permission', 'reinstate-case')), '[]'::jsonb)
+  into v_transitions
+  from unnest(v_statuses || v_legacy_statuses) as s
+  where s = any(v_cancellable);
+
+  return jsonb_build_object(
+    'country', p_country,
+    'statuses', to_jsonb(v_statuses),
+    'legacyStatuses', to_jsonb(v_legacy_statuses),
+    'transitions', v_transitions
+  );
+end;
+$$;
+
+create or replace function public.case_status_workflow(p_country text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select setting_value
+      from system_settings
+      where setting_key = 'status_workflow_' || regexp_replace(lower(p_country), '\s+', '_', 'g')
+        and jsonb_typeof(setting_value -> 'transitions') = 'array'
+    ),
+    public.default_case_status_workflow(p_country)
+  );
+$$;
+
+-- ================================================
+-- PERMISSIONS
+-- ================================================
+
+-- Loaner Received grants were saved under the fallback 'other' resource before
+-- parseActionId mapped them to 'status'
+update public.permissions
+set resource = 'status'
+where resource = 'other'
+  and action = 'loaner-received';
+
+-- Same action id -> (resource, action) mapping as parseActionId in
+-- src/utils/supabasePermissionService.ts
+create or replace function public.role_has_permission(p_role text, p_action_id text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from permissions
+    where role = p_role
+      and allowed
+      and (
+        (p_action_id = any(v.status_actions) and resource = 'status' and action = p_action_id)
+        or (p_action_id = 'cancel-case' and resource = 'case' and action = 'cancel')
+        or (p_action_id <> all(v.status_actions || 'cancel-case'::text) and resource = 'other' and action = p_action_id)
+      )
+  )
+  from (
+    select array[
+      'loaner-received', 'process-order', 'order-processed', 'sales-approval', 'pending-delivery-hospital',
+      'delivered-hospital', 'case-completed', 'pending-delivery-office', 'delivered-office',
+      'to-be-billed', 'case-closed'
+    ]::text[] as status_actions
+  ) as v;
+$$;
+
+create or replace function public.session_user_id(p_session_token text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    auth.uid(),
+    (
+      select user_id
+      from user_sessions
+      where session_token = p_session_token
+        and expires_at > now()
+    )
+  );
+$$;
+
+-- ================================================
+-- REQUIRED FIELDS
+-- ================================================
+
+-- Mirrors getMissingRequiredFields: details may be plain text or a JSON object
+create or replace function public.missing_transition_fields(
+  p_required jsonb,
+  p_details text,
+  p_attachments text[]
+)
+returns text[]
+language plpgsql
+immutable
+as $$
+declare
+  v_parsed jsonb;
+  v_missing text[] := array[]::text[];
+  v_field text;
+begin
+  begin
+    v_parsed := p_details::jsonb;
+    if jsonb_typeof(v_parsed) <> 'object' then
+      v_parsed := null;
+    end if;
+  exception when others then
+    v_parsed := null;
+  end;
+
+  for v_field in select jsonb_array_elements_text(coalesce(p_required, '[]'::jsonb)) loop
+    if v_field = 'doNumber' and btrim(coalesce(v_parsed ->> 'doNumber', '')) = '' then
+      v_missing := v_missing || v_field;
+    elsif v_field = 'attachments'
+      and coalesce(array_length(p_attachments, 1), 0) = 0
+      and coalesce(case when jsonb_typeof(v_parsed -> 'attachments') = 'array' then jsonb_array_length(v_parsed -> 'attachments') end, 0) = 0 then
+      v_missing := v_missing || v_field;
+    elsif v_field = 'comments' and (
+      (v_parsed is not null and coalesce(
+        nullif(btrim(v_parsed ->> 'comments'), ''),
+        nullif(btrim(v_parsed ->> 'details'), ''),
+        nullif(btrim(v_parsed ->> 'processDetails'), '')
+      ) is null)
+      or (v_parsed is null and btrim(coalesce(p_details, '')) = '')
+    ) then
+      v_missing := v_missing || v_field;
+    end if;
+  end loop;
+
+  return v_missing;
+end;
+$$;
+
+-- ================================================
+-- STATUS CHANGE
+-- ================================================
+
+-- The history row names the acting user - never a name supplied by the client
+drop function if exists public.change_case_status(uuid, text, text, text, text[], text);
+
+-- Errors carry the StatusTransitionError code in HINT so the client can map them
+create or replace function public.change_case_status(
+  p_case_id uuid,
+  p_status text,
+  p_details text default null,
+  p_attachments text[] default null,
+  p_session_token text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_case record;
+  v_user_id uuid;
+  v_role text;
+  v_user_name text;
+  v_transition jsonb;
+  v_missing text[];
+  v_do_number text;
+  v_reinstate_status text;
+  v_now timestamptz := now();
+begin
+  select id, status, country into v_case
+  from case_bookings
+  where id = p_case_id
+  for update;
+
+  if not found then
+    raise exception 'Case % not found', p_case_id using hint = 'CASE_NOT_FOUND';
+  end if;
+
+  -- Re-submitting the current status is a no-op, not a transition
+  if v_case.status = p_status then
+    return;
+  end if;
+
+  v_user_id := public.session_user_id(p_session_token);
+  select role, coalesce(nullif(btrim(name), ''), id::text) into v_role, v_user_name
+  from profiles
+  where id = v_user_id and enabled;
+  if v_role is null then
+    raise exception 'No active signed-in user for this status change' using hint = 'PERMISSION_DENIED';
+  end if;
+
+  select t into v_transition
+  from jsonb_array_elements(public.case_status_workflow(v_case.country) -> 'transitions') as t
+  where t ->> 'from' = v_case.status
+    and t ->> 'to' = p_status
+  limit 1;
+
+  if v_transition is null then
+    raise exception 'Cannot change status from "%" to "%" - this step is not part of the % workflow',
+      v_case.status, p_status, v_case.country
+      using hint = 'INVALID_TRANSITION';
+  end if;
+
+  -- Mirrors getReinstateStatus: a cancelled case only returns to the status it held
+  -- right before its latest cancellation
+  if v_case.status = 'Case Cancelled' then
+    select h.status into v_reinstate_status
+    from status_history h
+    where h.case_id = p_case_id
+      and h.timestamp < (
+        select max(c.timestamp)
+        from status_history c
+        where c.case_id = p_case_id
+          and c.status = 'Case Cancelled'
+      )
+    order by h.timestamp desc
+    limit 1;
+
+    if v_reinstate_status is distinct from p_status then
+      raise exception 'A cancelled case can only be reinstated to the status it had before cancellation (%)',
+        coalesce(v_reinstate_status, 'unknown')
+        using hint = 'INVALID_TRANSITION';
+    end if;
+  end if;
+
+  if not public.role_has_permission(v_role, v_transition ->> 'permission') then
+    raise exception 'Your role does not have permission to change status from "%" to "%"', v_case.status, p_status
+      using hint = 'PERMISSION_DENIED';
+  end if;
+
+  v_missing := public.missing_transition_fields(v_transition -> 'requiredFields', p_details, p_attachments);
+  if array_length(v_missing, 1) > 0 then
+    raise exception '"%" requires: %', p_status, array_to_string(v_missing, ', ')
+      using hint = 'MISSING_REQUIRED_FIELDS';
+  end if;
+
+  begin
+    v_do_number := nullif(btrim(p_details::jsonb ->> 'doNumber'), '');
+  exception when others then
+    v_do_number := null;
+  end;
+
+  perform set_config('app.case_status_checked', 'on', true);
+
+  update case_bookings
+  set status = p_status,
+      updated_at = v_now,
+      do_number = coalesce(do_number, v_do_number)
+  where id = p_case_id;
+
+  insert into status_history (case_id, status, processed_by, timestamp, details, attachments)
+  values (p_case_id, p_status, v_user_name, v_now, p_details, p_attachments);
+
+  perform set_config('app.case_status_checked', 'off', true);
+end;
+$$;
+
+grant execute on function public.change_case_status(uuid, text, text, text[], text) to anon, authenticated;
+
+-- ================================================
+-- DIRECT UPDATE GUARD
+-- ================================================
+
+create or replace function public.guard_case_status_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status
+    and coalesce(current_setting('app.case_status_checked', true), 'off') <> 'on'
+    and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Case status can only be changed through change_case_status()'
+      using hint = 'INVALID_TRANSITION';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists case_bookings_status_guard on public.case_bookings;
+create trigger case_bookings_status_guard
+  before update of status on public.case_bookings
+  for each row
+  execute function public.guard_case_status_update();
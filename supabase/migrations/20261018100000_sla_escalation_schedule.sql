@@ -0,0 +1,67 @@
+-- SLA escalation schedule
+--
+-- SLA breaches are escalated by the sla-escalations edge function, run every 15 minutes
+-- by pg_cron, instead of by whichever browser happens to have the cases list open.
+--
+-- Each breach (case, rule, due time) has one sla_escalations row. It stays pending
+-- (sent_at is null) until its email has been sent; a failed send only bumps attempts and
+-- last_error, and the next run retries it.
+--
+-- The cron job reads the project URL and service-role key from Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- ================================================
+-- ESCALATIONS
+-- ================================================
+
+create table if not exists public.sla_escalations (
+  id uuid primary key default gen_random_uuid(),
+  case_id uuid not null references public.case_bookings(id) on delete cascade,
+  rule_id text not null,
+  status text not null,
+  due_at timestamptz not null,
+  escalated_at timestamptz not null default now(),
+  unique (case_id, rule_id, due_at)
+);
+
+alter table public.sla_escalations
+  add column if not exists sent_at timestamptz,
+  add column if not exists attempts integer not null default 0,
+  add column if not exists last_error text;
+
+-- Rows recorded by browsers before this change were claimed just ahead of sending; count
+-- them as sent rather than re-emailing every past breach
+update public.sla_escalations
+set sent_at = escalated_at
+where sent_at is null
+  and attempts = 0;
+
+create index if not exists sla_escalations_pending_idx
+  on public.sla_escalations (case_id)
+  where sent_at is null;
+
+-- Only the edge function (service role) reads or writes escalations
+alter table public.sla_escalations enable row level security;
+
+-- ================================================
+-- SCHEDULE
+-- ================================================
+
+select cron.schedule(
+  'sla-escalations',
+  '*/15 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/sla-escalations',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
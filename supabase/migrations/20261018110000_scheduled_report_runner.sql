@@ -0,0 +1,56 @@
+-- Scheduled report runner
+--
+-- Report schedules are sent by the scheduled-reports edge function, run every 5 minutes
+-- by pg_cron, instead of by whichever browser of a user allowed to schedule reports
+-- happens to be open. Reports are built from all matching cases (service role), not
+-- from the cases one signed-in user can see.
+--
+-- Send hours are wall-clock hours in the schedule's own time zone. Existing schedules
+-- take the time zone of their country filter, Singapore when they have none.
+--
+-- The cron job reads the project URL and service-role key from Vault (see
+-- 20261018100000_sla_escalation_schedule.sql).
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- ================================================
+-- TIME ZONE
+-- ================================================
+
+alter table public.report_schedules
+  add column if not exists timezone text not null default 'Asia/Singapore';
+
+update public.report_schedules
+set timezone = case filters ->> 'country'
+  when 'Malaysia' then 'Asia/Kuala_Lumpur'
+  when 'Philippines' then 'Asia/Manila'
+  when 'Indonesia' then 'Asia/Jakarta'
+  when 'Vietnam' then 'Asia/Ho_Chi_Minh'
+  when 'Hong Kong' then 'Asia/Hong_Kong'
+  when 'Thailand' then 'Asia/Bangkok'
+  else 'Asia/Singapore'
+end;
+
+create index if not exists report_schedules_due_idx
+  on public.report_schedules (next_run_at)
+  where enabled;
+
+-- ================================================
+-- SCHEDULE
+-- ================================================
+
+select cron.schedule(
+  'scheduled-reports',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/scheduled-reports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,100 @@
+-- Case list SLA watch and filter options
+--
+-- The case list keeps SLA badges and the "Breaching SLA" filter for every open case the
+-- user may see, not only the page on screen. case_sla_watch() returns just what
+-- evaluateCaseSlas (src/utils/caseSlaService.ts) reads: the case's status, surgery date
+-- and time, and when it last entered each status - instead of full cases with their
+-- whole status history.
+--
+-- case_filter_options() returns the distinct hospitals and submitters for the filter
+-- dropdowns as one JSON value, so PostgREST's max-rows limit cannot truncate them.
+--
+-- Both run as the caller (security invoker): row level security on case_bookings and
+-- status_history still decides which cases are included. Null arguments mean no limit.
+
+-- ================================================
+-- SLA WATCH
+-- ================================================
+
+create or replace function public.case_sla_watch(
+  p_countries text[] default null,
+  p_statuses text[] default null,
+  p_departments text[] default null,
+  p_excluded_statuses text[] default null
+)
+returns table (
+  id uuid,
+  country text,
+  status text,
+  date_of_surgery text,
+  time_of_procedure text,
+  status_entered jsonb
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    c.id,
+    c.country,
+    c.status::text,
+    c.date_of_surgery::text,
+    c.time_of_procedure::text,
+    coalesce((
+      select jsonb_object_agg(h.status, h.entered_at)
+      from (
+        select sh.status::text as status, max(sh.timestamp) as entered_at
+        from status_history sh
+        where sh.case_id = c.id
+        group by sh.status
+      ) h
+    ), '{}'::jsonb)
+  from case_bookings c
+  where (p_countries is null or c.country = any(p_countries))
+    and (p_statuses is null or c.status::text = any(p_statuses))
+    and (p_departments is null or c.department = any(p_departments))
+    and (p_excluded_statuses is null or c.status::text <> all(p_excluded_statuses))
+  order by c.id;
+$$;
+
+grant execute on function public.case_sla_watch(text[], text[], text[], text[]) to anon, authenticated;
+
+create index if not exists status_history_case_status_idx
+  on public.status_history (case_id, status, timestamp desc);
+
+-- ================================================
+-- FILTER OPTIONS
+-- ================================================
+
+create or replace function public.case_filter_options(
+  p_countries text[] default null,
+  p_statuses text[] default null,
+  p_departments text[] default null
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with visible as (
+    select c.hospital, c.submitted_by
+    from case_bookings c
+    where (p_countries is null or c.country = any(p_countries))
+      and (p_statuses is null or c.status::text = any(p_statuses))
+      and (p_departments is null or c.department = any(p_departments))
+  )
+  select jsonb_build_object(
+    'hospitals', coalesce((
+      select jsonb_agg(hospital order by hospital)
+      from (select distinct hospital from visible where nullif(trim(hospital), '') is not null) h
+    ), '[]'::jsonb),
+    'submitters', coalesce((
+      select jsonb_agg(submitted_by order by submitted_by)
+      from (select distinct submitted_by from visible where nullif(trim(submitted_by), '') is not null) s
+    ), '[]'::jsonb)
+  );
+$$;
+
+grant execute on function public.case_filter_options(text[], text[], text[]) to anon, authenticated;
@@ -0,0 +1,239 @@
+-- Case search index
+--
+-- Global search (src/utils/caseSearchService.ts) matches case_search_index: one row per
+-- searchable text of a case - case fields, status history details, amendment reasons
+-- and attachment file names. Triggers on case_bookings, status_history and
+-- amendment_history rebuild a case's rows whenever one of its texts changes, and the
+-- existing cases are indexed below.
+--
+-- search_cases() matches the index with trigram word similarity, so a misspelled
+-- doctor's name still finds the case. The user's country, status and department scope
+-- is applied before the limit, and the limit counts cases, not matching texts: every
+-- match of the best result_limit cases is returned, best case first.
+
+create extension if not exists pg_trgm;
+
+-- ================================================
+-- INDEX TABLE
+-- ================================================
+
+create table if not exists public.case_search_index (
+  id bigint generated always as identity primary key,
+  case_id uuid not null references public.case_bookings(id) on delete cascade,
+  source text not null check (source in ('case', 'status_history', 'amendment', 'attachment')),
+  field text not null,
+  content text not null,
+  country text
+);
+
+create index if not exists case_search_index_case_idx
+  on public.case_search_index (case_id);
+
+create index if not exists case_search_index_content_trgm_idx
+  on public.case_search_index using gin (content gin_trgm_ops);
+
+-- Rows are readable when their case is - case_bookings RLS decides
+alter table public.case_search_index enable row level security;
+
+drop policy if exists case_search_index_read on public.case_search_index;
+create policy case_search_index_read on public.case_search_index
+  for select
+  using (exists (select 1 from public.case_bookings c where c.id = case_search_index.case_id));
+
+-- ================================================
+-- INDEXING
+-- ================================================
+
+-- File name of a stored attachment (a JSON string with name, type, size and data) -
+-- null when the value is not such JSON
+create or replace function public.case_search_attachment_name(p_attachment text)
+returns text
+language plpgsql
+immutable
+as $$
+begin
+  return nullif(trim(p_attachment::jsonb ->> 'name'), '');
+exception when others then
+  return null;
+end;
+$$;
+
+-- Replace a case's index rows with its current texts
+create or replace function public.refresh_case_search_index(p_case_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from case_search_index where case_id = p_case_id;
+
+  insert into case_search_index (case_id, source, field, content, country)
+  select texts.case_id, texts.source, texts.field, texts.content, c.country
+  from (
+    select c.id as case_id, 'case' as source, f.field, f.content
+    from case_bookings c
+    cross join lateral (values
+      ('case_reference_number', c.case_reference_number::text),
+      ('do_number', c.do_number::text),
+      ('hospital', c.hospital::text),
+      ('doctor_name', c.doctor_name::text),
+      ('procedure_type', c.procedure_type::text),
+      ('procedure_name', c.procedure_name::text),
+      ('special_instruction', c.special_instruction::text)
+    ) as f(field, content)
+    where c.id = p_case_id
+
+    union all
+
+    select c.id, 'attachment', 'file_name', case_search_attachment_name(a.attachment)
+    from case_bookings c
+    cross join lateral unnest(coalesce(c.attachments, '{}'::text[])) as a(attachment)
+    where c.id = p_case_id
+
+    union all
+
+    select h.case_id, 'status_history', 'details', h.details::text
+    from status_history h
+    where h.case_id = p_case_id
+
+    union all
+
+    select h.case_id, 'attachment', 'file_name', case_search_attachment_name(a.attachment)
+    from status_history h
+    cross join lateral unnest(coalesce(h.attachments, '{}'::text[])) as a(attachment)
+    where h.case_id = p_case_id
+
+    union all
+
+    select ah.case_id, 'amendment', 'reason', ah.reason::text
+    from amendment_history ah
+    where ah.case_id = p_case_id
+  ) texts
+  join case_bookings c on c.id = texts.case_id
+  where nullif(trim(texts.content), '') is not null;
+end;
+$$;
+
+create or replace function public.case_search_index_refresh()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_table_name = 'case_bookings' then
+    perform refresh_case_search_index(new.id);
+    return null;
+  end if;
+
+  -- status_history / amendment_history: the case the row belonged to, and the one it
+  -- belongs to now when that changed
+  if tg_op <> 'INSERT' then
+    perform refresh_case_search_index(old.case_id);
+  end if;
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.case_id is distinct from old.case_id) then
+    perform refresh_case_search_index(new.case_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists case_search_index_case_bookings on public.case_bookings;
+create trigger case_search_index_case_bookings
+  after insert or update of case_reference_number, do_number, hospital, doctor_name, procedure_type,
+    procedure_name, special_instruction, attachments, country
+  on public.case_bookings
+  for each row execute function public.case_search_index_refresh();
+
+drop trigger if exists case_search_index_status_history on public.status_history;
+create trigger case_search_index_status_history
+  after insert or update of case_id, details, attachments or delete
+  on public.status_history
+  for each row execute function public.case_search_index_refresh();
+
+drop trigger if exists case_search_index_amendment_history on public.amendment_history;
+create trigger case_search_index_amendment_history
+  after insert or update of case_id, reason or delete
+  on public.amendment_history
+  for each row execute function public.case_search_index_refresh();
+
+-- Index the cases that already exist
+select public.refresh_case_search_index(id) from public.case_bookings;
+
+-- ================================================
+-- SEARCH
+-- ================================================
+
+drop function if exists public.search_cases(text, text[], integer);
+
+create or replace function public.search_cases(
+  search_query text,
+  country_filter text[] default null,
+  status_filter text[] default null,
+  department_filter text[] default null,
+  result_limit integer default 20
+)
+returns table (
+  case_id uuid,
+  source text,
+  field text,
+  content text,
+  country text,
+  score real,
+  case_reference_number text,
+  hospital text,
+  doctor_name text,
+  date_of_surgery text,
+  status text,
+  department text
+)
+language sql
+stable
+security invoker
+set search_path = public
+-- Typo tolerance of the <% operator - the default 0.6 misses two-letter typos in a name
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+  with pattern as (
+    select '%' || replace(replace(replace(trim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' as value
+  ),
+  matches as (
+    select
+      i.case_id,
+      i.source,
+      i.field,
+      i.content,
+      i.country,
+      greatest(
+        word_similarity(trim(search_query), i.content),
+        case when i.content ilike (select value from pattern) then 1 else 0 end
+      )::real as score,
+      c.case_reference_number::text as case_reference_number,
+      c.hospital::text as hospital,
+      c.doctor_name::text as doctor_name,
+      c.date_of_surgery::text as date_of_surgery,
+      c.status::text as status,
+      c.department::text as department
+    from case_search_index i
+    join case_bookings c on c.id = i.case_id
+    where (trim(search_query) <% i.content or i.content ilike (select value from pattern))
+      and (country_filter is null or i.country = any(country_filter))
+      and (status_filter is null or c.status::text = any(status_filter))
+      and (department_filter is null or c.department = any(department_filter))
+  ),
+  best_cases as (
+    select m.case_id, max(m.score) as best_score, max(m.date_of_surgery) as date_of_surgery
+    from matches m
+    group by m.case_id
+    order by best_score desc, date_of_surgery desc, m.case_id
+    limit greatest(result_limit, 0)
+  )
+  select m.case_id, m.source, m.field, m.content, m.country, m.score,
+    m.case_reference_number, m.hospital, m.doctor_name, m.date_of_surgery, m.status, m.department
+  from matches m
+  join best_cases b on b.case_id = m.case_id
+  order by b.best_score desc, b.date_of_surgery desc, m.case_id, m.score desc;
+$$;
+
+grant execute on function public.search_cases(text, text[], text[], text[], integer) to anon, authenticated;